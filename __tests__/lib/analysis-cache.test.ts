@@ -0,0 +1,150 @@
+import { deflateSync, inflateSync } from 'zlib';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AnalysisCache, createAnalysisCache, createMemoryCacheStore } from '../../lib/analysis-cache';
+import { decodePng, differenceHash, hammingDistance, perceptualHashFromPng } from '../../lib/image-hash';
+import { inflateZlib } from '../../lib/inflate';
+
+// Minimal 8-bit grayscale PNG with unfiltered scanlines
+const buildGrayscalePng = (width: number, height: number, pixel: (x: number, y: number) => number): Buffer => {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 0; // Grayscale
+
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      raw[y * (width + 1) + 1 + x] = pixel(x, y);
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+describe('Analysis Cache', () => {
+  describe('image hashing', () => {
+    const gradient = buildGrayscalePng(9, 8, (x) => 255 - x * 20);
+
+    it('should decode grayscale PNG pixels', () => {
+      const image = decodePng(gradient, inflateSync);
+      expect(image.width).toBe(9);
+      expect(image.height).toBe(8);
+      expect(image.pixels[0]).toBe(255);
+      expect(image.pixels[8]).toBe(95);
+    });
+
+    it('should produce a 64-bit difference hash', () => {
+      expect(differenceHash(decodePng(gradient, inflateSync))).toBe('ffffffffffffffff');
+    });
+
+    it('should give near-identical images a small distance', () => {
+      const noisy = buildGrayscalePng(9, 8, (x, y) => 255 - x * 20 + (x === 3 && y === 2 ? 30 : 0));
+      const a = perceptualHashFromPng(gradient.toString('base64'), inflateSync)!;
+      const b = perceptualHashFromPng(noisy.toString('base64'), inflateSync)!;
+      expect(hammingDistance(a, b)).toBeLessThanOrEqual(2);
+    });
+
+    it('should decode PNGs on device with the bundled inflate', () => {
+      const photo = buildGrayscalePng(64, 48, (x, y) => (x * 37 + y * 11 + ((x * y) % 7) * 20) % 256);
+      expect(decodePng(photo, inflateZlib)).toEqual(decodePng(photo, inflateSync));
+    });
+
+    it('should refuse PNGs too large to decode before inflating them', () => {
+      const inflate = jest.fn(inflateSync);
+      const huge = buildGrayscalePng(1, 1, () => 0);
+      huge.writeUInt32BE(100_000, 16); // IHDR width
+      huge.writeUInt32BE(100_000, 20); // IHDR height
+      expect(() => decodePng(huge, inflate)).toThrow('PNG image too large');
+      expect(inflate).not.toHaveBeenCalled();
+    });
+
+    it('should return null for data that is not a PNG', () => {
+      expect(perceptualHashFromPng(Buffer.from('nope').toString('base64'), inflateSync)).toBeNull();
+    });
+  });
+
+  describe('AnalysisCache', () => {
+    let now: number;
+    let cache: AnalysisCache;
+
+    beforeEach(() => {
+      now = 1_000_000;
+      cache = new AnalysisCache(createMemoryCacheStore(), { ttlSeconds: 60, now: () => now });
+    });
+
+    it('should serve exact content matches with hit metadata', async () => {
+      await cache.save('analyze-storefront', { contentHash: 'abc' }, { businessType: 'Cafe' });
+      const hit = await cache.lookup('analyze-storefront', { contentHash: 'abc' });
+
+      expect(hit?.value).toEqual({ businessType: 'Cafe' });
+      expect(hit?.cache).toMatchObject({ hit: true, match: 'exact' });
+    });
+
+    it('should keep tasks separate', async () => {
+      await cache.save('analyze-storefront', { contentHash: 'abc' }, { businessType: 'Cafe' });
+      expect(await cache.lookup('quick-analysis', { contentHash: 'abc' })).toBeNull();
+    });
+
+    it('should expire entries after the TTL', async () => {
+      await cache.save('quick-analysis', { contentHash: 'abc' }, { businessType: 'Cafe' });
+      now += 61_000;
+      expect(await cache.lookup('quick-analysis', { contentHash: 'abc' })).toBeNull();
+    });
+
+    it('should match near-duplicates by perceptual hash', async () => {
+      await cache.save('analyze-storefront', { contentHash: 'abc', perceptualHash: 'ffffffffffffffff', ownerId: 'user-1' }, { businessType: 'Cafe' });
+
+      const hit = await cache.lookup('analyze-storefront', { contentHash: 'other', perceptualHash: 'fffffffffffffff0', ownerId: 'user-1' });
+      expect(hit?.cache).toMatchObject({ hit: true, match: 'perceptual', distance: 4 });
+
+      expect(await cache.lookup('analyze-storefront', { contentHash: 'other', perceptualHash: '0000000000000000', ownerId: 'user-1' })).toBeNull();
+    });
+
+    it('should only match near-duplicates among the same user\'s photos', async () => {
+      await cache.save('analyze-storefront', { contentHash: 'abc', perceptualHash: 'ffffffffffffffff', ownerId: 'user-1' }, { businessType: 'Cafe' });
+
+      expect(await cache.lookup('analyze-storefront', { contentHash: 'other', perceptualHash: 'ffffffffffffffff', ownerId: 'user-2' })).toBeNull();
+      expect(await cache.lookup('analyze-storefront', { contentHash: 'other', perceptualHash: 'ffffffffffffffff' })).toBeNull();
+      expect(await cache.lookup('analyze-storefront', { contentHash: 'abc', ownerId: 'user-2' })).not.toBeNull();
+    });
+
+    it('should keep results from different prompt versions apart', async () => {
+      const image = { contentHash: 'abc', perceptualHash: 'ffffffffffffffff', ownerId: 'user-1' };
+      await cache.save('analyze-storefront', image, { businessType: 'Cafe' }, 'analyze-storefront@v1');
+
+      expect(await cache.lookup('analyze-storefront', { contentHash: 'abc' }, 'analyze-storefront@v1')).not.toBeNull();
+      expect(await cache.lookup('analyze-storefront', image, 'analyze-storefront@v2')).toBeNull();
+    });
+  });
+
+  describe('createAnalysisCache', () => {
+    it('should allow caching to be disabled', () => {
+      expect(createAnalysisCache({ ANALYSIS_CACHE_STORE: 'none' })).toBeNull();
+      expect(createAnalysisCache({ ANALYSIS_CACHE_STORE: 'memory' })).toBeInstanceOf(AnalysisCache);
+    });
+
+    it('should only cache in production with the shared store', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = {} as SupabaseClient;
+
+      expect(createAnalysisCache({ NODE_ENV: 'production' }, () => client)).toBeNull();
+      expect(createAnalysisCache({ NODE_ENV: 'production', ANALYSIS_CACHE_STORE: 'local' }, () => client)).toBeNull();
+      expect(createAnalysisCache({ NODE_ENV: 'production', ANALYSIS_CACHE_STORE: 'supabase' }, () => null)).toBeNull();
+      expect(createAnalysisCache({ NODE_ENV: 'production', ANALYSIS_CACHE_STORE: 'supabase' }, () => client))
+        .toBeInstanceOf(AnalysisCache);
+      warn.mockRestore();
+    });
+  });
+});
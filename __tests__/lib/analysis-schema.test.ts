@@ -0,0 +1,280 @@
+import {
+  AnalysisError,
+  analysisErrorFromResponse,
+  completeWithSchema,
+  parseModelJson,
+  parsePartialModelJson,
+  readPartialStorefrontAnalysis,
+  validateHoursSign,
+  validateMenuExtraction,
+  validateQuickAnalysis,
+  validateSignText,
+  validateStorefrontAnalysis,
+} from '../../lib/analysis-schema';
+import { VisionProvider } from '../../lib/vision-providers';
+
+const validStorefront = {
+  businessType: 'Restaurant',
+  businessName: 'Pho 24',
+  description: 'Noodle shop with red awning',
+  features: ['red awning'],
+  visualIndicators: ['menu board'],
+  confidence: { businessType: 90, visualFeatures: 80, nameRecognition: 70 },
+  architecturalStyle: 'Shophouse',
+};
+
+const scriptedProvider = (responses: string[]): VisionProvider & { prompts: string[] } => {
+  const prompts: string[] = [];
+  return {
+    name: 'scripted',
+    prompts,
+    complete: async ({ prompt }) => {
+      prompts.push(prompt);
+      return responses.shift() ?? '';
+    },
+  };
+};
+
+describe('Analysis Schema', () => {
+  describe('parseModelJson', () => {
+    it('should strip markdown fences and surrounding prose', () => {
+      const result = parseModelJson('Here you go:\n```json\n{"businessType": "Cafe"}\n```');
+      expect(result).toEqual({ valid: true, value: { businessType: 'Cafe' } });
+    });
+
+    it('should report malformed JSON', () => {
+      const result = parseModelJson('{"businessType": "Cafe",');
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.code).toBe('MALFORMED_JSON');
+    });
+  });
+
+  describe('partial analysis', () => {
+    it('should keep only the values that are complete so far', () => {
+      expect(parsePartialModelJson('```json\n{"businessType": "Restaurant", "businessName": "Ph'))
+        .toEqual({ businessType: 'Restaurant' });
+      expect(parsePartialModelJson('{"businessType": "Cafe", "confidence": {"businessType": 80, "visual'))
+        .toEqual({ businessType: 'Cafe', confidence: { businessType: 80 } });
+      expect(parsePartialModelJson('{"businessType": "Caf')).toBeNull();
+    });
+
+    it('should not be confused by commas and brackets inside strings', () => {
+      expect(parsePartialModelJson('{"businessName": "Bún, Chả [\\"Hà Nội\\"]", "description": "Red'))
+        .toEqual({ businessName: 'Bún, Chả ["Hà Nội"]' });
+    });
+
+    it('should read the streamed storefront fields in prompt order', () => {
+      const text = JSON.stringify(validStorefront);
+
+      expect(readPartialStorefrontAnalysis(text.slice(0, text.indexOf('"description"'))))
+        .toEqual({ businessType: 'Restaurant', businessName: 'Pho 24' });
+      expect(readPartialStorefrontAnalysis(text)).toMatchObject({
+        businessType: 'Restaurant',
+        businessName: 'Pho 24',
+        features: ['red awning'],
+      });
+      expect(readPartialStorefrontAnalysis('{"businessType": 42, "features": ["a", 3, "b"],')).toEqual({
+        features: ['a', 'b'],
+      });
+    });
+  });
+
+  describe('validateStorefrontAnalysis', () => {
+    it('should accept a complete analysis', () => {
+      const result = validateStorefrontAnalysis({ ...validStorefront, locationText: '12 Le Loi' });
+      expect(result.valid).toBe(true);
+      expect(result.valid && result.value.locationText).toBe('12 Le Loi');
+    });
+
+    it('should list every missing or invalid field', () => {
+      const result = validateStorefrontAnalysis({
+        businessType: 'Unknown',
+        features: 'awning',
+        confidence: { businessType: '90' },
+      });
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.code).toBe('SCHEMA_MISMATCH');
+        expect(result.issues).toEqual(expect.arrayContaining([
+          '"businessType" must be a specific category, not "Unknown"',
+          '"description" is required',
+          '"features" must be an array of strings',
+          '"confidence.businessType" must be a number between 0 and 100',
+        ]));
+      }
+    });
+  });
+
+  describe('validateQuickAnalysis', () => {
+    it('should reject out-of-range confidence', () => {
+      const result = validateQuickAnalysis({ businessType: 'Cafe', confidence: 140, visualCues: [] });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('validateSignText', () => {
+    it('should accept sign text blocks with a transliterated name', () => {
+      const result = validateSignText({
+        primaryLanguage: 'ja',
+        blocks: [
+          { text: 'らーめん 一蘭', language: 'ja', boundingBox: { x: 0.1, y: 0.05, width: 0.6, height: 0.2 }, confidence: 88, isBusinessName: true },
+          { text: '24時間営業', language: 'ja', boundingBox: { x: 0.1, y: 0.3, width: 0.3, height: 0.1 }, confidence: 70 },
+        ],
+        businessName: { original: '一蘭', language: 'ja', transliterated: 'Ichiran', confidence: 85 },
+      });
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.value.blocks[1].isBusinessName).toBe(false);
+        expect(result.value.businessName?.transliterated).toBe('Ichiran');
+      }
+    });
+
+    it('should accept a sign with no legible text', () => {
+      expect(validateSignText({ primaryLanguage: 'und', blocks: [], businessName: null }).valid).toBe(true);
+    });
+
+    it('should report invalid bounding boxes and missing transliterations by path', () => {
+      const result = validateSignText({
+        primaryLanguage: 'th',
+        blocks: [{ text: 'ร้านกาแฟ', language: 'th', boundingBox: { x: 0.1, y: 0.1, width: 1.4, height: 0.2 }, confidence: 80 }],
+        businessName: { original: 'ร้านกาแฟ', language: 'th', confidence: 80 },
+      });
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues).toContain('"blocks[0].boundingBox.width" must be a number between 0 and 1');
+        expect(result.issues).toContain('"businessName.transliterated" is required');
+      }
+    });
+  });
+
+  describe('validateMenuExtraction', () => {
+    it('should accept menu sections and assign item ids', () => {
+      const result = validateMenuExtraction({
+        currency: 'VND',
+        language: 'vi',
+        sections: [
+          { name: 'Phở', items: [{ name: 'Phở bò', price: 65000, priceText: '65k' }, { name: 'Phở gà', price: null }] },
+        ],
+      });
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.value.sections[0].items.map(item => item.id)).toEqual(['item_0_0', 'item_0_1']);
+        expect(result.value.sections[0].items[1].price).toBeNull();
+      }
+    });
+
+    it('should report invalid currencies and prices by path', () => {
+      const result = validateMenuExtraction({
+        currency: 'dong',
+        language: 'vi',
+        sections: [{ name: 'Drinks', items: [{ name: 'Cà phê sữa', price: '25k' }] }],
+      });
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues).toContain('"currency" must be an ISO 4217 code such as "USD" or "VND"');
+        expect(result.issues).toContain('"sections[0].items[0].price" must be a non-negative number or null');
+      }
+    });
+  });
+
+  describe('validateHoursSign', () => {
+    it('should accept split shifts and closed days', () => {
+      const result = validateHoursSign({
+        days: [
+          { day: 'Monday', closed: false, shifts: [{ open: '11:00', close: '14:00' }, { open: '17:00', close: '22:00' }] },
+          { day: 'sunday', closed: true, shifts: [] },
+        ],
+        confidence: 80,
+      });
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.value.days[0].day).toBe('monday');
+        expect(result.value.days[0].shifts).toHaveLength(2);
+        expect(result.value.days[1].shifts).toEqual([]);
+      }
+    });
+
+    it('should report bad times, repeated days and open days without shifts', () => {
+      const result = validateHoursSign({
+        days: [
+          { day: 'tuesday', closed: false, shifts: [{ open: '7pm', close: '23:00' }] },
+          { day: 'tuesday', closed: false, shifts: [] },
+        ],
+        confidence: 70,
+      });
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.issues).toContain('"days[0].shifts[0].open" must be a 24-hour time such as "09:00" or "22:30"');
+        expect(result.issues).toContain('"days[1].day" repeats tuesday; list each day once with all of its shifts');
+        expect(result.issues).toContain('"days[1].shifts" must list at least one shift unless "closed" is true');
+      }
+    });
+  });
+
+  describe('completeWithSchema', () => {
+    const request = { task: 'analyze-storefront' as const, prompt: 'Analyze', imageUrl: 'https://x/y.jpg', maxTokens: 500 };
+
+    it('should not repair a valid response', async () => {
+      const provider = scriptedProvider([JSON.stringify(validStorefront)]);
+      const result = await completeWithSchema(provider, request, validateStorefrontAnalysis);
+
+      expect(result.valid).toBe(true);
+      expect(result.repaired).toBe(false);
+      expect(provider.prompts).toHaveLength(1);
+    });
+
+    it('should run one repair round with the validation issues', async () => {
+      const provider = scriptedProvider([
+        '{"businessType": "Restaurant"',
+        JSON.stringify(validStorefront),
+      ]);
+      const result = await completeWithSchema(provider, request, validateStorefrontAnalysis);
+
+      expect(result.valid).toBe(true);
+      expect(result.repaired).toBe(true);
+      expect(provider.prompts[1]).toContain('Your previous response could not be used');
+    });
+
+    it('should stream the first response but not the repair', async () => {
+      const provider: VisionProvider = {
+        name: 'streaming',
+        complete: async ({ onText }) => {
+          const text = onText ? '{"businessType": "Restaurant"' : JSON.stringify(validStorefront);
+          onText?.(text);
+          return text;
+        },
+      };
+      const streamed: string[] = [];
+
+      const result = await completeWithSchema(provider, { ...request, onText: text => streamed.push(text) }, validateStorefrontAnalysis);
+
+      expect(result.valid).toBe(true);
+      expect(streamed).toEqual(['{"businessType": "Restaurant"']);
+    });
+
+    it('should give up after a failed repair', async () => {
+      const provider = scriptedProvider(['not json', '{"businessType": "Restaurant"}']);
+      const result = await completeWithSchema(provider, request, validateStorefrontAnalysis);
+
+      expect(result.valid).toBe(false);
+      expect(!result.valid && result.code).toBe('SCHEMA_MISMATCH');
+      expect(provider.prompts).toHaveLength(2);
+    });
+  });
+
+  describe('analysisErrorFromResponse', () => {
+    it('should keep structured codes from the API', () => {
+      const error = analysisErrorFromResponse(502, { status: 'PARSE_ERROR', code: 'MALFORMED_JSON', issues: ['bad'] });
+      expect(error).toBeInstanceOf(AnalysisError);
+      expect(error.code).toBe('MALFORMED_JSON');
+      expect(error.issues).toEqual(['bad']);
+    });
+
+    it('should map legacy statuses', () => {
+      expect(analysisErrorFromResponse(500, { status: 'CONFIGURATION_ERROR' }).code).toBe('CONFIGURATION_ERROR');
+      expect(analysisErrorFromResponse(500, { status: 'API_ERROR' }).code).toBe('PROVIDER_ERROR');
+      expect(analysisErrorFromResponse(500, null).code).toBe('UNKNOWN');
+    });
+  });
+});
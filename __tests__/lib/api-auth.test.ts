@@ -0,0 +1,205 @@
+import {
+  getBearerToken,
+  PHOTO_TOKEN_TTL_SECONDS,
+  quotaHeaders,
+  signPhotoReference,
+  STREAMED_RESPONSE_TYPE,
+  UNMETERED_RESPONSE_HEADER,
+  verifyPhotoToken,
+  withUsageQuota,
+} from '../../lib/api-auth';
+
+const mockGetUser = jest.fn();
+const mockRpc = jest.fn();
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: { getUser: (token: string) => mockGetUser(token) },
+    rpc: (name: string, params: Record<string, unknown>) => mockRpc(name, params),
+  }),
+}));
+
+const corsHeaders = { 'Content-Type': 'application/json' };
+
+const buildRequest = (token?: string) =>
+  new Request('http://localhost/api/openai', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+const okHandler = jest.fn(async (_userId: string | null) => new Response(JSON.stringify({ ok: true }), { status: 200, headers: corsHeaders }));
+
+describe('api-auth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      SUPABASE_URL: 'https://example.supabase.co',
+      SUPABASE_SERVICE_ROLE_KEY: 'service-role-key',
+      API_AUTH_DISABLED: 'false',
+    };
+    mockGetUser.mockReset();
+    mockRpc.mockReset();
+    okHandler.mockClear();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('extracts bearer tokens', () => {
+    expect(getBearerToken(buildRequest('abc.def'))).toBe('abc.def');
+    expect(getBearerToken(buildRequest())).toBeNull();
+  });
+
+  it('formats unlimited quotas in headers', () => {
+    expect(quotaHeaders({ feature: 'ai_requests', limit: null, used: 4, remaining: null, resetsAt: '2025-09-01T00:00:00.000Z' }))
+      .toEqual({
+        'X-Quota-Feature': 'ai_requests',
+        'X-Quota-Limit': 'unlimited',
+        'X-Quota-Remaining': 'unlimited',
+        'X-Quota-Reset': '2025-09-01T00:00:00.000Z',
+      });
+  });
+
+  it('rejects requests without a valid session', async () => {
+    const response = await withUsageQuota(buildRequest(), 'ai_requests', corsHeaders, okHandler);
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).status).toBe('UNAUTHORIZED');
+    expect(okHandler).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 with quota details once the limit is reached', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: false, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 30 }], error: null };
+      return { data: null, error: null };
+    });
+
+    const response = await withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders, okHandler);
+    const body = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(body.status).toBe('QUOTA_EXCEEDED');
+    expect(body.quota).toMatchObject({ limit: 30, used: 30, remaining: 0 });
+    expect(response.headers.get('X-Quota-Remaining')).toBe('0');
+    expect(response.headers.get('Retry-After')).not.toBeNull();
+    expect(okHandler).not.toHaveBeenCalled();
+  });
+
+  it('keeps the reservation for successful requests and reports the remaining quota', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: true, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 11 }], error: null };
+      return { data: null, error: null };
+    });
+
+    const response = await withUsageQuota(buildRequest('token'), 'places_requests', corsHeaders, okHandler);
+
+    expect(response.status).toBe(200);
+    expect(mockRpc).toHaveBeenCalledWith('reserve_usage', { p_user_id: 'user-1', p_feature: 'places_requests' });
+    expect(mockRpc).not.toHaveBeenCalledWith('release_usage', expect.anything());
+    expect(response.headers.get('X-Quota-Feature')).toBe('places_requests');
+    expect(response.headers.get('X-Quota-Remaining')).toBe('19');
+    expect(okHandler).toHaveBeenCalledWith('user-1');
+  });
+
+  it('does not count failed requests', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: true, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 11 }], error: null };
+      return { data: null, error: null };
+    });
+
+    const response = await withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders, async () =>
+      new Response(JSON.stringify({ error: 'boom' }), { status: 502, headers: corsHeaders })
+    );
+
+    expect(response.status).toBe(502);
+    expect(mockRpc).toHaveBeenCalledWith('release_usage', { p_user_id: 'user-1', p_feature: 'ai_requests' });
+    expect(response.headers.get('X-Quota-Remaining')).toBe('20');
+  });
+
+  it('does not count responses served without AI work', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: true, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 11 }], error: null };
+      return { data: null, error: null };
+    });
+
+    const response = await withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders, async () =>
+      new Response(JSON.stringify({ ok: true }), { status: 200, headers: { ...corsHeaders, [UNMETERED_RESPONSE_HEADER]: '1' } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockRpc).toHaveBeenCalledWith('release_usage', { p_user_id: 'user-1', p_feature: 'ai_requests' });
+    expect(response.headers.has(UNMETERED_RESPONSE_HEADER)).toBe(false);
+    expect(response.headers.get('X-Quota-Remaining')).toBe('20');
+  });
+
+  it('keeps a streamed reservation only once a result event is sent', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: true, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 11 }], error: null };
+      return { data: null, error: null };
+    });
+    const streamOf = (...events: object[]) => async () =>
+      new Response(events.map(event => `${JSON.stringify(event)}\n`).join(''), {
+        status: 200,
+        headers: { 'Content-Type': STREAMED_RESPONSE_TYPE },
+      });
+
+    const succeeded = await withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders,
+      streamOf({ type: 'partial', data: {} }, { type: 'result', data: { businessType: 'Cafe' } }));
+    expect(await succeeded.text()).toContain('"type":"result"');
+    expect(mockRpc).not.toHaveBeenCalledWith('release_usage', expect.anything());
+
+    const failed = await withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders,
+      streamOf({ type: 'partial', data: {} }, { type: 'error', code: 'PROVIDER_ERROR' }));
+    expect(mockRpc).not.toHaveBeenCalledWith('release_usage', expect.anything());
+    await failed.text();
+    expect(mockRpc).toHaveBeenCalledWith('release_usage', { p_user_id: 'user-1', p_feature: 'ai_requests' });
+  });
+
+  it('gives the reservation back when the handler throws', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+    mockRpc.mockImplementation(async (name: string) => {
+      if (name === 'reserve_usage') return { data: true, error: null };
+      if (name === 'get_usage_quota') return { data: [{ usage_limit: 30, usage_count: 11 }], error: null };
+      return { data: null, error: null };
+    });
+
+    await expect(withUsageQuota(buildRequest('token'), 'ai_requests', corsHeaders, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    expect(mockRpc).toHaveBeenCalledWith('release_usage', { p_user_id: 'user-1', p_feature: 'ai_requests' });
+  });
+
+  it('accepts signed photo tokens until they expire', () => {
+    const now = Date.UTC(2025, 8, 1);
+    const token = signPhotoReference('photo-ref', now)!;
+
+    expect(verifyPhotoToken('photo-ref', token, now + 1000)).toBe(true);
+    expect(verifyPhotoToken('other-ref', token, now + 1000)).toBe(false);
+    expect(verifyPhotoToken('photo-ref', token, now + (PHOTO_TOKEN_TTL_SECONDS + 1) * 1000)).toBe(false);
+    expect(verifyPhotoToken('photo-ref', `${token.split('.')[0]}.forged`, now)).toBe(false);
+    expect(verifyPhotoToken('photo-ref', null, now)).toBe(false);
+  });
+
+  it('skips checks when auth is disabled outside production', async () => {
+    process.env.API_AUTH_DISABLED = 'true';
+
+    const response = await withUsageQuota(buildRequest(), 'ai_requests', corsHeaders, okHandler);
+
+    expect(response.status).toBe(200);
+    expect(mockGetUser).not.toHaveBeenCalled();
+    expect(okHandler).toHaveBeenCalledWith(null);
+  });
+});
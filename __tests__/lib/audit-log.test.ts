@@ -0,0 +1,62 @@
+import {
+  AUDIT_SOURCE_HEADER,
+  describeAuditEntry,
+  formatAuditField,
+  formatAuditValue,
+  getAuditFieldChanges,
+  withAuditSource,
+} from '../../lib/audit-log';
+
+describe('Audit log', () => {
+  it('should describe entries by table and action', () => {
+    expect(describeAuditEntry({ table_name: 'places', action: 'insert' })).toBe('Added this place');
+    expect(describeAuditEntry({ table_name: 'places', action: 'update' })).toBe('Updated place details');
+    expect(describeAuditEntry({ table_name: 'places', action: 'delete' })).toBe('Deleted this place');
+    expect(describeAuditEntry({ table_name: 'reviews', action: 'update' })).toBe('Updated a review');
+    expect(describeAuditEntry({ table_name: 'place_photos', action: 'delete' })).toBe('Deleted a photo');
+  });
+
+  it('should list the changed fields of an update with their before and after values', () => {
+    const changes = getAuditFieldChanges({
+      action: 'update',
+      old_data: { id: 'p1', name: 'Old Name', phone: null, updated_at: '2025-08-01' },
+      new_data: { id: 'p1', name: 'New Name', phone: '+84 28 1234', updated_at: '2025-09-01' },
+      changed_fields: ['name', 'phone', 'updated_at'],
+    });
+
+    expect(changes).toEqual([
+      { field: 'name', before: 'Old Name', after: 'New Name' },
+      { field: 'phone', before: null, after: '+84 28 1234' },
+    ]);
+  });
+
+  it('should list the filled-in fields of an added or deleted record', () => {
+    const record = { id: 'r1', rating: 4, text: 'Great coffee', likes: 0, photos: [], created_at: '2025-09-01', user_id: null };
+
+    expect(getAuditFieldChanges({ action: 'insert', old_data: null, new_data: record, changed_fields: [] })).toEqual([
+      { field: 'rating', before: null, after: 4 },
+      { field: 'text', before: null, after: 'Great coffee' },
+      { field: 'likes', before: null, after: 0 },
+    ]);
+    expect(getAuditFieldChanges({ action: 'delete', old_data: record, new_data: null, changed_fields: [] })[0])
+      .toEqual({ field: 'rating', before: 4, after: null });
+  });
+
+  it('should format fields and values for display', () => {
+    expect(formatAuditField('week_hours')).toBe('Week hours');
+    expect(formatAuditValue(null)).toBe('None');
+    expect(formatAuditValue('')).toBe('None');
+    expect(formatAuditValue([])).toBe('None');
+    expect(formatAuditValue(['Monday: Closed', 'Tuesday: 9 AM – 5 PM'])).toBe('Monday: Closed\nTuesday: 9 AM – 5 PM');
+    expect(formatAuditValue(true)).toBe('Yes');
+    expect(formatAuditValue(4.5)).toBe('4.5');
+  });
+
+  it('should tag a query with its audit source header', () => {
+    const builder = { setHeader: jest.fn() };
+    builder.setHeader.mockReturnValue(builder);
+
+    expect(withAuditSource(builder, 'capture')).toBe(builder);
+    expect(builder.setHeader).toHaveBeenCalledWith(AUDIT_SOURCE_HEADER, 'capture');
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  angleDifference,
+  calculateBearing,
+  calculateDistance,
+  getTopReasons,
+  nameSimilarity,
+  rankCandidates,
+  RankingContext,
+} from '../../lib/candidate-ranking';
+import { GooglePlace } from '../../lib/google-places';
+import { SignTextResult } from '../../lib/sign-text';
+
+// Ranking is pure; only the Places search helpers need a signed-in client
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+// Photo taken on a street corner in District 1, Ho Chi Minh City
+const ORIGIN = { latitude: 10.7769, longitude: 106.7009 };
+const METERS_PER_DEGREE = 111320;
+
+// A place `meters` away from ORIGIN in compass direction `bearing`
+const placeAt = (name: string, types: string[], meters: number, bearing: number): GooglePlace => {
+  const rad = bearing * Math.PI / 180;
+  return {
+    place_id: name.toLowerCase().replace(/\W+/g, '-'),
+    name,
+    formatted_address: `${name}, District 1, Ho Chi Minh City`,
+    rating: 4.5,
+    user_ratings_total: 100,
+    types,
+    geometry: {
+      location: {
+        lat: ORIGIN.latitude + (meters * Math.cos(rad)) / METERS_PER_DEGREE,
+        lng: ORIGIN.longitude + (meters * Math.sin(rad)) / (METERS_PER_DEGREE * Math.cos(ORIGIN.latitude * Math.PI / 180)),
+      },
+    },
+  };
+};
+
+const phoSign: SignTextResult = {
+  primaryLanguage: 'vi',
+  blocks: [],
+  businessName: { original: 'Phở Hòa Pasteur', language: 'vi', transliterated: 'Pho Hoa Pasteur', confidence: 90 },
+};
+
+interface RankingFixture {
+  name: string;
+  context: RankingContext;
+  candidates: GooglePlace[];
+  expectedWinner: string;
+}
+
+const FIXTURES: RankingFixture[] = [
+  {
+    name: 'sign name beats a closer restaurant',
+    context: { businessName: 'Pho Hoa', businessType: 'Restaurant', signText: phoSign, location: ORIGIN },
+    candidates: [
+      placeAt('Bún Chả 145', ['restaurant', 'food'], 10, 0),
+      placeAt('Pho Hoa Pasteur', ['restaurant', 'food'], 60, 90),
+    ],
+    expectedWinner: 'Pho Hoa Pasteur',
+  },
+  {
+    name: 'camera heading picks the shop across the street',
+    context: { businessName: 'Unknown', businessType: 'Cafe', location: { ...ORIGIN, direction: 90, accuracy: 5 } },
+    candidates: [
+      placeAt('Highlands Coffee', ['cafe', 'food'], 25, 270),
+      placeAt('The Workshop', ['cafe', 'food'], 30, 85),
+    ],
+    expectedWinner: 'The Workshop',
+  },
+  {
+    name: 'business type breaks a name tie',
+    context: { businessName: 'Lotus', businessType: 'Spa', location: ORIGIN },
+    candidates: [
+      placeAt('Lotus', ['bank', 'finance'], 20, 0),
+      placeAt('Lotus', ['spa', 'health'], 20, 180),
+    ].map((place, index) => ({ ...place, place_id: `lotus-${index}` })),
+    expectedWinner: 'lotus-1',
+  },
+  {
+    name: 'poor GPS accuracy stops distance from dominating',
+    context: { businessName: 'Pizza 4Ps', businessType: 'Restaurant', location: { ...ORIGIN, accuracy: 150 } },
+    candidates: [
+      placeAt('Pizza Hut', ['restaurant', 'food'], 15, 0),
+      placeAt('Pizza 4P\'s Ben Thanh', ['restaurant', 'food'], 180, 0),
+    ],
+    expectedWinner: 'Pizza 4P\'s Ben Thanh',
+  },
+  {
+    name: 'transliteration differences still match',
+    context: { businessName: 'Banh Mi Huynh Hoa', businessType: 'Restaurant', location: ORIGIN },
+    candidates: [
+      placeAt('Bánh Mì Huỳnh Hoa', ['bakery', 'food'], 80, 0),
+      placeAt('Bánh Mì 37', ['restaurant', 'food'], 40, 0),
+    ],
+    expectedWinner: 'Bánh Mì Huỳnh Hoa',
+  },
+];
+
+describe('Candidate ranking', () => {
+  describe('geometry', () => {
+    it('should measure distance and bearing between points', () => {
+      const east = placeAt('East', [], 100, 90).geometry.location;
+      expect(calculateDistance(ORIGIN.latitude, ORIGIN.longitude, east.lat, east.lng)).toBeCloseTo(100, 0);
+      expect(calculateBearing(ORIGIN.latitude, ORIGIN.longitude, east.lat, east.lng)).toBeCloseTo(90, 0);
+    });
+
+    it('should wrap heading differences around north', () => {
+      expect(angleDifference(350, 10)).toBe(20);
+      expect(angleDifference(90, 270)).toBe(180);
+    });
+  });
+
+  describe('nameSimilarity', () => {
+    it('should ignore diacritics, case and extra words', () => {
+      expect(nameSimilarity('Phở Hòa', 'pho hoa')).toBe(1);
+      expect(nameSimilarity('Pho Hoa Pasteur', 'Phở Hòa')).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('should score unrelated names low', () => {
+      expect(nameSimilarity('Highlands Coffee', 'Lotus Spa')).toBeLessThan(0.3);
+    });
+  });
+
+  describe('fixtures', () => {
+    it.each(FIXTURES)('$name', ({ context, candidates, expectedWinner }) => {
+      const [winner] = rankCandidates(candidates, context);
+      expect([winner.place.name, winner.place.place_id]).toContain(expectedWinner);
+    });
+  });
+
+  describe('rankCandidates', () => {
+    it('should renormalize weights over the signals it can compute', () => {
+      const [candidate] = rankCandidates([placeAt('Morning Brew', ['cafe'], 30, 0)], { location: ORIGIN });
+      expect(candidate.signals.map(signal => signal.factor)).toEqual(['distance']);
+      expect(candidate.signals[0].weight).toBe(1);
+    });
+
+    it('should explain every signal', () => {
+      const [candidate] = rankCandidates(
+        [placeAt('Pho Hoa Pasteur', ['restaurant'], 40, 90)],
+        { businessName: 'Pho Hoa', businessType: 'Restaurant', location: { ...ORIGIN, direction: 95, accuracy: 8 } }
+      );
+      expect(candidate.signals.map(signal => signal.factor)).toEqual(['name', 'type', 'bearing', 'distance']);
+      expect(candidate.signals.reduce((sum, signal) => sum + signal.weight, 0)).toBeCloseTo(1);
+      expect(candidate.signals.find(signal => signal.factor === 'distance')?.detail).toBe('40 m away (GPS ±8 m)');
+      expect(getTopReasons(candidate, 1)[0].factor).toBe('name');
+    });
+
+    it('should discount the heading for places inside the GPS error circle', () => {
+      const context = { location: { ...ORIGIN, direction: 0, accuracy: 50 } };
+      const [near] = rankCandidates([placeAt('Near', [], 5, 180)], context);
+      const bearing = near.signals.find(signal => signal.factor === 'bearing');
+      expect(bearing?.detail).toContain('too close to judge');
+      expect(bearing!.weight).toBeLessThan(0.2);
+
+      const [onTop] = rankCandidates([placeAt('On Top', [], 0, 0)], { location: { ...ORIGIN, direction: 0, accuracy: 0 } });
+      expect(onTop.signals.find(signal => signal.factor === 'bearing')?.weight).toBe(0);
+      expect(Number.isNaN(onTop.score)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+const mockStorage: Record<string, string> = {};
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+import { CaptureDraftManager, getDraftStage, isDraftExpired } from '../../lib/capture-drafts';
+import { CaptureDraft } from '../../types/capture';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildDraft = (overrides: Partial<CaptureDraft> = {}): CaptureDraft => ({
+  id: 'draft_1',
+  imageUri: 'https://example.com/storefront.jpg',
+  location: { latitude: 10.7769, longitude: 106.7009 },
+  suggestedPlaces: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('Capture Drafts', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  describe('expiry', () => {
+    it('should expire drafts a retention period after their last update', () => {
+      const draft = buildDraft({ updatedAt: 1000 });
+      expect(isDraftExpired(draft, 7, 1000 + 7 * DAY_MS - 1)).toBe(false);
+      expect(isDraftExpired(draft, 7, 1000 + 7 * DAY_MS)).toBe(true);
+    });
+
+    it('should drop expired drafts when loading', async () => {
+      const now = Date.now();
+      mockStorage.frontsnap_capture_drafts = JSON.stringify([
+        buildDraft({ id: 'fresh', updatedAt: now - DAY_MS }),
+        buildDraft({ id: 'stale', updatedAt: now - 8 * DAY_MS }),
+      ]);
+
+      const manager = new CaptureDraftManager();
+      await manager.load();
+
+      expect(manager.getDrafts().map(draft => draft.id)).toEqual(['fresh']);
+      expect(JSON.parse(mockStorage.frontsnap_capture_drafts)).toHaveLength(1);
+    });
+
+    it('should prune again when the retention period is shortened', async () => {
+      const now = Date.now();
+      mockStorage.frontsnap_capture_drafts = JSON.stringify([
+        buildDraft({ id: 'today', updatedAt: now }),
+        buildDraft({ id: 'two-days', updatedAt: now - 2 * DAY_MS }),
+      ]);
+
+      const manager = new CaptureDraftManager();
+      await manager.setRetentionDays(1);
+
+      expect(manager.getDrafts().map(draft => draft.id)).toEqual(['today']);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should persist each step of a capture and notify subscribers', async () => {
+      const manager = new CaptureDraftManager();
+      const listener = jest.fn();
+      manager.subscribe(listener);
+
+      const draft = await manager.create({ imageUri: 'https://example.com/a.jpg' });
+      expect(getDraftStage(draft)).toBe('not_analyzed');
+
+      await manager.update(draft.id, {
+        analysisResult: { businessName: 'Pho 24', businessType: 'Restaurant', description: '', features: [] },
+      });
+      expect(getDraftStage(manager.getDrafts()[0])).toBe('choosing_place');
+
+      await manager.update(draft.id, { collection: { id: 'c1', name: 'Saigon eats' } });
+      expect(getDraftStage(manager.getDrafts()[0])).toBe('choosing_place');
+
+      const stored: CaptureDraft[] = JSON.parse(mockStorage.frontsnap_capture_drafts);
+      expect(stored[0].analysisResult?.businessName).toBe('Pho 24');
+      expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ id: draft.id })]);
+    });
+
+    it('should remove a draft once discarded', async () => {
+      const manager = new CaptureDraftManager();
+      const draft = await manager.create({ imageUri: 'https://example.com/a.jpg' });
+
+      await manager.remove(draft.id);
+
+      expect(manager.getDrafts()).toEqual([]);
+      expect(JSON.parse(mockStorage.frontsnap_capture_drafts)).toEqual([]);
+    });
+
+    it('should ignore updates to drafts that no longer exist', async () => {
+      const manager = new CaptureDraftManager();
+      await manager.update('missing', { suggestedPlaces: [] });
+      expect(manager.getDrafts()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+const mockStorage: Record<string, string> = {};
+const mockUploadImage = jest.fn();
+const mockAnalyzeStorefront = jest.fn();
+const mockNetworkState = { isConnected: true, isInternetReachable: true as boolean | null };
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage[key] ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage[key] = value;
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({ documentDirectory: null }));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn(() => Promise.resolve(mockNetworkState)),
+  addEventListener: jest.fn(() => jest.fn()),
+}));
+
+jest.mock('../../lib/supabase-storage', () => ({
+  uploadImageAsync: (uri: string, options?: unknown) => mockUploadImage(uri, options),
+}));
+
+jest.mock('../../lib/openai', () => ({
+  analyzeStorefrontPhoto: (imageUrl: string, location?: string) => mockAnalyzeStorefront(imageUrl, location),
+}));
+
+import { CaptureQueueManager, getQueuedCaptureLocation } from '../../lib/capture-queue';
+
+const CAPTURE = {
+  imageUri: 'file:///cache/storefront.jpg',
+  location: { latitude: 10.7769, longitude: 106.7009 },
+  heading: 135,
+  redacted: true,
+  keptExif: { dateTimeOriginal: '2025:09:01 18:30:00' },
+  capturedAt: 1000,
+};
+
+const UPLOAD = { fullUrl: 'https://cdn.example.com/full.jpg', thumbnailUrl: 'https://cdn.example.com/thumb.jpg' };
+
+describe('Capture Queue', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    mockNetworkState.isConnected = true;
+    mockNetworkState.isInternetReachable = true;
+    mockUploadImage.mockReset().mockResolvedValue(UPLOAD);
+    mockAnalyzeStorefront.mockReset().mockResolvedValue({ businessName: 'Pho 24', businessType: 'Restaurant' });
+  });
+
+  it('should keep queued captures across restarts, putting interrupted ones back to pending', async () => {
+    const queue = new CaptureQueueManager();
+    const queued = await queue.enqueue(CAPTURE);
+    expect(queued).toMatchObject({ localUri: CAPTURE.imageUri, status: 'pending', attempts: 0 });
+
+    const stored = JSON.parse(mockStorage.frontsnap_capture_queue);
+    mockStorage.frontsnap_capture_queue = JSON.stringify([{ ...stored[0], status: 'uploading' }]);
+
+    const restarted = new CaptureQueueManager();
+    await restarted.load();
+    expect(restarted.getItems()).toEqual([expect.objectContaining({ id: queued.id, status: 'pending' })]);
+    expect(restarted.getPendingCount()).toBe(1);
+  });
+
+  it('should wait for the network, then upload and analyze each pending capture', async () => {
+    const queue = new CaptureQueueManager();
+    await queue.enqueue(CAPTURE);
+
+    mockNetworkState.isConnected = false;
+    expect(await queue.processQueue()).toBe(0);
+    expect(mockUploadImage).not.toHaveBeenCalled();
+
+    mockNetworkState.isConnected = true;
+    expect(await queue.processQueue()).toBe(1);
+    expect(mockUploadImage).toHaveBeenCalledWith(CAPTURE.imageUri, {
+      redacted: true,
+      keptExif: { dateTimeOriginal: '2025:09:01 18:30:00' },
+    });
+    expect(mockAnalyzeStorefront).toHaveBeenCalledWith(UPLOAD.fullUrl, '10.7769,106.7009');
+    expect(queue.getItems()[0]).toMatchObject({
+      status: 'completed',
+      fullUrl: UPLOAD.fullUrl,
+      analysis: { businessName: 'Pho 24' },
+    });
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('should keep the upload when analysis fails and give up after repeated failures', async () => {
+    mockAnalyzeStorefront.mockRejectedValue(new Error('Vision provider request failed'));
+    const queue = new CaptureQueueManager();
+    const queued = await queue.enqueue(CAPTURE);
+
+    expect(await queue.processQueue()).toBe(0);
+    expect(queue.getItems()[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      fullUrl: UPLOAD.fullUrl,
+      lastError: 'Vision provider request failed',
+    });
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await queue.processQueue();
+    }
+    expect(mockUploadImage).toHaveBeenCalledTimes(1);
+    expect(queue.getItems()[0]).toMatchObject({ status: 'failed', attempts: 5 });
+
+    mockAnalyzeStorefront.mockResolvedValue({ businessName: 'Pho 24', businessType: 'Restaurant' });
+    await queue.retry(queued.id);
+    expect(queue.getItems()[0]).toMatchObject({ status: 'completed', attempts: 0 });
+  });
+
+  it('should hand the stored heading back with the capture location for ranking', async () => {
+    const queue = new CaptureQueueManager();
+    const queued = await queue.enqueue(CAPTURE);
+
+    expect(getQueuedCaptureLocation(queued)).toEqual({ latitude: 10.7769, longitude: 106.7009, direction: 135 });
+    expect(getQueuedCaptureLocation({ ...queued, heading: undefined })).toEqual(CAPTURE.location);
+    expect(getQueuedCaptureLocation({ ...queued, location: null })).toBeNull();
+  });
+});
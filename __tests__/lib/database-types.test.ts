@@ -0,0 +1,105 @@
+import fs from 'fs';
+
+const {
+  parseMigrations,
+  renderDatabaseTypes,
+  generateDatabaseTypes,
+  OUTPUT_FILE,
+} = require('../../scripts/generate-database-types');
+
+const render = (...migrations: string[]): string => renderDatabaseTypes(parseMigrations(migrations));
+
+describe('Database type generator', () => {
+  const notesTable = `
+    -- Notes, one per author
+    CREATE TABLE IF NOT EXISTS public.notes (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      author_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+      body text NOT NULL,
+      tags text[] DEFAULT '{}',
+      created_at timestamptz DEFAULT now()
+    );
+  `;
+
+  it('should type rows, inserts and updates from the column constraints', () => {
+    const output = render(notesTable);
+
+    expect(output).toContain(`      notes: {
+        Row: {
+          id: string
+          author_id: string | null
+          body: string
+          tags: string[] | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          author_id?: string | null
+          body: string
+          tags?: string[] | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          author_id?: string | null
+          body?: string
+          tags?: string[] | null
+          created_at?: string | null
+        }`);
+  });
+
+  it('should list foreign keys as relationships', () => {
+    expect(render(notesTable)).toContain(`            foreignKeyName: "notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]`);
+  });
+
+  it('should replay later migrations that alter a table', () => {
+    const output = render(
+      notesTable,
+      `ALTER TABLE notes ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false;
+       ALTER TABLE notes DROP COLUMN tags;`
+    );
+
+    expect(output).toContain('          pinned: boolean\n');
+    expect(output).toContain('          pinned?: boolean\n');
+    expect(output).not.toContain('tags');
+  });
+
+  it('should type enums and the columns that use them', () => {
+    const output = render(
+      `CREATE TYPE mood AS ENUM ('happy', 'sad');`,
+      `CREATE TABLE notes (id uuid PRIMARY KEY, mood mood NOT NULL);`
+    );
+
+    expect(output).toContain('      mood: "happy" | "sad"');
+    expect(output).toContain('          mood: Database["public"]["Enums"]["mood"]\n');
+  });
+
+  it('should type function arguments and table returns', () => {
+    const output = render(`
+      CREATE OR REPLACE FUNCTION recent_notes(author uuid, limit_count integer DEFAULT 20)
+      RETURNS TABLE (id uuid, body text) AS $$
+        SELECT id, body FROM notes; -- newest first
+      $$ LANGUAGE sql;
+    `);
+
+    expect(output).toContain(`      recent_notes: {
+        Args: {
+          author: string
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          body: string
+        }[]
+      }`);
+  });
+
+  it('should keep types/database.ts in sync with supabase/migrations', () => {
+    // Fails when a migration changes without `npm run db:types`
+    expect(fs.readFileSync(OUTPUT_FILE, 'utf8')).toBe(generateDatabaseTypes());
+  });
+});
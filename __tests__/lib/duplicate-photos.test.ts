@@ -0,0 +1,70 @@
+import {
+  DUPLICATE_PHOTO_MAX_DISTANCE,
+  ExistingUpload,
+  findDuplicateUpload,
+  placePhotoUploads,
+  recentCaptureUploads,
+} from '../../lib/duplicate-photos';
+import type { PlacePhoto } from '../../lib/supabase';
+import type { CaptureDraft } from '../../types/capture';
+
+const upload = (id: string, perceptualHash: string, source: ExistingUpload['source'] = 'place_photo'): ExistingUpload => ({
+  id,
+  source,
+  fullUrl: `https://example.com/full/${id}.jpeg`,
+  thumbnailUrl: `https://example.com/thumbnails/${id}.jpeg`,
+  perceptualHash,
+});
+
+describe('duplicate photos', () => {
+  describe('findDuplicateUpload', () => {
+    it('should return the closest upload within the threshold', () => {
+      const match = findDuplicateUpload('ffff0000ffff0000', [
+        upload('far', '0000ffff0000ffff'),
+        upload('near', 'ffff0000ffff0003'), // 2 bits
+        upload('nearest', 'ffff0000ffff0001'), // 1 bit
+      ]);
+
+      expect(match?.id).toBe('nearest');
+      expect(match?.distance).toBe(1);
+    });
+
+    it('should ignore uploads beyond the threshold', () => {
+      // 7 differing bits
+      expect(findDuplicateUpload('ffff0000ffff0000', [upload('a', 'ffff0000ffff007f')])).toBeNull();
+      expect(DUPLICATE_PHOTO_MAX_DISTANCE).toBeLessThan(7);
+    });
+
+    it('should prefer a place photo over a recent capture at the same distance', () => {
+      const match = findDuplicateUpload('ffff0000ffff0000', [
+        upload('draft', 'ffff0000ffff0000', 'recent_capture'),
+        upload('photo', 'ffff0000ffff0000', 'place_photo'),
+      ]);
+
+      expect(match?.source).toBe('place_photo');
+      expect(match?.distance).toBe(0);
+    });
+
+    it('should not match hashes of a different length', () => {
+      expect(findDuplicateUpload('ffff', [upload('a', 'ffff0000ffff0000')])).toBeNull();
+    });
+  });
+
+  it('should only list place photos and drafts that have a hash', () => {
+    const photos: PlacePhoto[] = [
+      { id: 'p1', place_id: 'place', user_id: 'u', photo_url: 'full/p1', caption: null, thumbnail_url: 'thumb/p1', perceptual_hash: '0123456789abcdef', created_at: '' },
+      { id: 'p2', place_id: 'place', user_id: 'u', photo_url: 'full/p2', caption: null, thumbnail_url: null, perceptual_hash: null, created_at: '' },
+    ];
+    const drafts: CaptureDraft[] = [
+      { id: 'd1', imageUri: 'full/d1', perceptualHash: 'fedcba9876543210', location: null, suggestedPlaces: [], createdAt: 0, updatedAt: 0 },
+      { id: 'd2', imageUri: 'full/d2', location: null, suggestedPlaces: [], createdAt: 0, updatedAt: 0 },
+    ];
+
+    expect(placePhotoUploads(photos)).toEqual([
+      { id: 'p1', source: 'place_photo', fullUrl: 'full/p1', thumbnailUrl: 'thumb/p1', perceptualHash: '0123456789abcdef' },
+    ]);
+    expect(recentCaptureUploads(drafts)).toEqual([
+      { id: 'd1', source: 'recent_capture', fullUrl: 'full/d1', thumbnailUrl: undefined, perceptualHash: 'fedcba9876543210' },
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  buildHoursUpdate,
+  buildWeekHours,
+  diffWeekHours,
+  formatDayHours,
+  formatHoursTime,
+  isOpenAt,
+  mergeWeekHours,
+} from '../../lib/hours-sign';
+import { HoursSignExtraction } from '../../types/hours';
+
+const splitShiftSign: HoursSignExtraction = {
+  days: [
+    { day: 'monday', closed: true, shifts: [] },
+    { day: 'tuesday', closed: false, shifts: [{ open: '11:00', close: '14:00' }, { open: '17:00', close: '22:00' }] },
+    { day: 'friday', closed: false, shifts: [{ open: '18:00', close: '02:00' }] },
+  ],
+  notes: 'Closed on public holidays',
+  confidence: 90,
+};
+
+const googleWeekHours = [
+  'Monday: 9:00 AM – 5:00 PM',
+  'Tuesday: 9:00 AM – 5:00 PM',
+  'Wednesday: 9:00 AM – 5:00 PM',
+  'Thursday: 9:00 AM – 5:00 PM',
+  'Friday: 9:00 AM – 5:00 PM',
+  'Saturday: Closed',
+  'Sunday: Closed',
+];
+
+// 2025-08-19 is a Tuesday; months are zero-based
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 7, day, hours, minutes);
+
+describe('Hours sign', () => {
+  describe('formatHoursTime', () => {
+    it('should convert 24-hour times to weekday_text style', () => {
+      expect(formatHoursTime('09:05')).toBe('9:05 AM');
+      expect(formatHoursTime('12:00')).toBe('12:00 PM');
+      expect(formatHoursTime('17:30')).toBe('5:30 PM');
+      expect(formatHoursTime('00:00')).toBe('12:00 AM');
+      expect(formatHoursTime('24:00')).toBe('12:00 AM');
+    });
+  });
+
+  describe('formatDayHours', () => {
+    it('should format split shifts, closed days and 24-hour days', () => {
+      expect(formatDayHours(splitShiftSign.days[1])).toBe('Tuesday: 11:00 AM – 2:00 PM, 5:00 PM – 10:00 PM');
+      expect(formatDayHours(splitShiftSign.days[0])).toBe('Monday: Closed');
+      expect(formatDayHours({ day: 'sunday', closed: false, shifts: [{ open: '00:00', close: '24:00' }] }))
+        .toBe('Sunday: Open 24 hours');
+    });
+  });
+
+  describe('buildWeekHours', () => {
+    it('should fill all seven days, keeping current hours for days not on the sign', () => {
+      const weekHours = buildWeekHours(splitShiftSign, googleWeekHours);
+      expect(weekHours).toHaveLength(7);
+      expect(weekHours[0]).toBe('Monday: Closed');
+      expect(weekHours[2]).toBe(googleWeekHours[2]);
+      expect(weekHours[4]).toBe('Friday: 6:00 PM – 2:00 AM');
+    });
+
+    it('should mark days missing everywhere as not available', () => {
+      expect(buildWeekHours(splitShiftSign)[3]).toBe('Thursday: Hours not available');
+    });
+  });
+
+  describe('diffWeekHours', () => {
+    it('should flag only the days the sign changes', () => {
+      const changes = diffWeekHours(googleWeekHours, buildWeekHours(splitShiftSign, googleWeekHours));
+      expect(changes.filter(change => change.changed).map(change => change.day)).toEqual(['monday', 'tuesday', 'friday']);
+    });
+
+    it('should not flag days missing from both sides', () => {
+      const changes = diffWeekHours([], buildWeekHours(splitShiftSign));
+      expect(changes.filter(change => change.changed)).toHaveLength(3);
+    });
+  });
+
+  describe('mergeWeekHours', () => {
+    it('should apply only accepted days', () => {
+      const merged = mergeWeekHours(googleWeekHours, buildWeekHours(splitShiftSign, googleWeekHours), ['tuesday']);
+      expect(merged[0]).toBe(googleWeekHours[0]);
+      expect(merged[1]).toBe('Tuesday: 11:00 AM – 2:00 PM, 5:00 PM – 10:00 PM');
+    });
+  });
+
+  describe('isOpenAt', () => {
+    it('should handle split shifts', () => {
+      expect(isOpenAt(splitShiftSign.days, at(19, 12))).toBe(true);
+      expect(isOpenAt(splitShiftSign.days, at(19, 15, 30))).toBe(false);
+      expect(isOpenAt(splitShiftSign.days, at(19, 21, 59))).toBe(true);
+      expect(isOpenAt(splitShiftSign.days, at(19, 22))).toBe(false);
+    });
+
+    it('should carry overnight shifts into the next morning', () => {
+      expect(isOpenAt(splitShiftSign.days, at(22, 23))).toBe(true);
+      expect(isOpenAt(splitShiftSign.days, at(23, 1, 30))).toBe(true);
+      expect(isOpenAt(splitShiftSign.days, at(23, 2))).toBe(false);
+    });
+
+    it('should treat closed days as closed', () => {
+      expect(isOpenAt(splitShiftSign.days, at(18, 12))).toBe(false);
+    });
+  });
+
+  describe('buildHoursUpdate', () => {
+    const proposed = buildWeekHours(splitShiftSign, googleWeekHours);
+
+    it('should recompute the open status when today was accepted', () => {
+      expect(buildHoursUpdate(splitShiftSign, googleWeekHours, proposed, ['tuesday'], at(19, 12)))
+        .toMatchObject({ is_open: true, hours: 'Open now' });
+    });
+
+    it('should leave the open status alone when today was not accepted', () => {
+      const update = buildHoursUpdate(splitShiftSign, googleWeekHours, proposed, ['monday'], at(19, 12));
+      expect(update.is_open).toBeUndefined();
+      expect(update.week_hours[0]).toBe('Monday: Closed');
+    });
+  });
+});
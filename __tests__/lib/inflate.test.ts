@@ -0,0 +1,22 @@
+import { constants, deflateSync } from 'zlib';
+import { inflateZlib } from '../../lib/inflate';
+
+describe('inflateZlib', () => {
+  it('should inflate stored, fixed and dynamic Huffman blocks', () => {
+    const text = Buffer.from('Phở Hòa Pasteur · Phở Hòa Pasteur · 260C Pasteur, Quận 3'.repeat(40));
+    [0, 1, 9].forEach(level => {
+      [constants.Z_DEFAULT_STRATEGY, constants.Z_FIXED].forEach(strategy => {
+        const inflated = inflateZlib(new Uint8Array(deflateSync(text, { level, strategy })));
+        expect(Buffer.from(inflated).equals(text)).toBe(true);
+      });
+    });
+  });
+
+  it('should inflate an empty stream', () => {
+    expect(inflateZlib(new Uint8Array(deflateSync(Buffer.alloc(0))))).toHaveLength(0);
+  });
+
+  it('should reject data that is not a zlib stream', () => {
+    expect(() => inflateZlib(new Uint8Array([1, 2, 3, 4]))).toThrow('Not a zlib stream');
+  });
+});
@@ -0,0 +1,114 @@
+import { localizePlaceSummary, needsTranslation, resolveOutputLanguage } from '../../lib/localization';
+import { getPlaceTranslation, translateContent } from '../../lib/place-translations';
+import { validateTranslation } from '../../lib/analysis-schema';
+import { createFixtureProvider, VisionProvider } from '../../lib/vision-providers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const summary = {
+  ai_summary: 'A busy noodle shop with quick service.',
+  pros: ['Rich broth', 'Fast service'],
+  cons: ['Cash only'],
+  recommendations: [],
+};
+
+describe('localization', () => {
+  it('should resolve app and device language codes to an output language', () => {
+    expect(resolveOutputLanguage('es')).toBe('es');
+    expect(resolveOutputLanguage('pt-BR')).toBe('pt');
+    expect(resolveOutputLanguage('ZH_hant')).toBe('zh');
+    expect(resolveOutputLanguage('vi')).toBe('en');
+    expect(resolveOutputLanguage(undefined)).toBe('en');
+    expect(needsTranslation('en-GB')).toBe(false);
+    expect(needsTranslation('ja')).toBe(true);
+  });
+
+  it('should show the translated summary and fall back to the English one', () => {
+    const translated = { ...summary, ai_summary: 'Un local de fideos concurrido.' };
+    expect(localizePlaceSummary(summary, translated)).toEqual(translated);
+    expect(localizePlaceSummary(summary, null)).toEqual(summary);
+    expect(localizePlaceSummary({}, null)).toEqual({ ai_summary: '', pros: [], cons: [], recommendations: [] });
+  });
+
+  it('should require the translation to keep every key and list length', () => {
+    const validate = validateTranslation(summary);
+    expect(validate({ ...summary, ai_summary: 'Un local de fideos.' }).valid).toBe(true);
+
+    const shortened = validate({ ...summary, pros: ['Caldo sabroso'] });
+    expect(shortened.valid).toBe(false);
+    if (!shortened.valid) {
+      expect(shortened.issues).toEqual(['"pros" must have 2 items, one per item of the original']);
+    }
+
+    const { cons: _cons, ...missing } = summary;
+    expect(validate(missing).valid).toBe(false);
+  });
+
+  describe('translateContent', () => {
+    it('should not call the provider for English or empty content', async () => {
+      const provider: VisionProvider = { name: 'spy', complete: jest.fn() };
+
+      expect(await translateContent(provider, summary, 'en', 'user-1')).toEqual({ value: summary, prompt: null });
+      expect((await translateContent(provider, { summary: ' ', pros: [] }, 'fr', 'user-1')).prompt).toBeNull();
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('should translate only the non-empty fields', async () => {
+      const complete = jest.fn(async () => JSON.stringify({
+        ai_summary: 'Un local de fideos concurrido.',
+        pros: ['Caldo sabroso', 'Servicio rápido'],
+        cons: ['Solo efectivo'],
+      }));
+      const result = await translateContent({ name: 'stub', complete }, summary, 'es-MX', 'user-1');
+
+      expect(result.value).toEqual({
+        ai_summary: 'Un local de fideos concurrido.',
+        pros: ['Caldo sabroso', 'Servicio rápido'],
+        cons: ['Solo efectivo'],
+        recommendations: [],
+      });
+      expect(result.prompt?.versionId).toBe('translate-content@v1');
+      const [request] = complete.mock.calls[0] as unknown as [{ prompt: string }];
+      expect(request.prompt).toContain('into Spanish');
+      expect(request.prompt).not.toContain('recommendations');
+    });
+
+    it('should throw when the translation is still invalid after repair', async () => {
+      const complete = jest.fn(async () => JSON.stringify({ ai_summary: 'Résumé', pros: ['Bouillon'], cons: ['Espèces'] }));
+
+      await expect(translateContent({ name: 'stub', complete }, summary, 'fr', null)).rejects.toThrow('"pros" must have 2 items');
+      expect(complete).toHaveBeenCalledTimes(2);
+    });
+
+    it('should echo the content from the fixture provider', async () => {
+      const result = await translateContent(createFixtureProvider(), summary, 'de', null);
+      expect(result.value).toEqual(summary);
+    });
+  });
+
+  describe('getPlaceTranslation', () => {
+    const privatePlace = { id: 'place-1', is_public: false, added_by: 'owner', ...summary };
+    const clientFor = (place: object, isAdmin = false) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: () => Promise.resolve({ data: place, error: null }),
+      };
+      return {
+        from: () => query,
+        rpc: () => Promise.resolve({ data: isAdmin, error: null }),
+      } as unknown as SupabaseClient;
+    };
+
+    it('should not translate private places for anyone but their owner or an admin', async () => {
+      const provider = createFixtureProvider();
+      expect(await getPlaceTranslation(clientFor(privatePlace), provider, 'place-1', 'en', 'someone-else')).toBeNull();
+      expect(await getPlaceTranslation(clientFor(privatePlace), provider, 'place-1', 'en', null)).toBeNull();
+      expect(await getPlaceTranslation(clientFor(privatePlace), provider, 'place-1', 'en', 'owner'))
+        .toEqual({ summary, generated: false });
+      expect(await getPlaceTranslation(clientFor(privatePlace, true), provider, 'place-1', 'en', 'admin'))
+        .toEqual({ summary, generated: false });
+      expect(await getPlaceTranslation(clientFor({ ...privatePlace, is_public: true }), provider, 'place-1', 'en', null))
+        .toEqual({ summary, generated: false });
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { cleanMenuSections, countMenuItems, createMenuItem, parseMenuPrice, parseMenuQuery } from '../../lib/menu';
+
+describe('Menu helpers', () => {
+  describe('parseMenuQuery', () => {
+    it('should split an item search from a price limit', () => {
+      expect(parseMenuQuery('places with pho under $10')).toEqual({ itemQuery: 'pho', maxPrice: 10, currency: 'USD' });
+    });
+
+    it('should expand thousands and read currency codes after the amount', () => {
+      expect(parseMenuQuery('banh mi below 30k vnd')).toEqual({ itemQuery: 'banh mi', maxPrice: 30000, currency: 'VND' });
+    });
+
+    it('should read currency symbols and comparison operators', () => {
+      expect(parseMenuQuery('ramen < ¥1000')).toEqual({ itemQuery: 'ramen', maxPrice: 1000, currency: 'JPY' });
+    });
+
+    it('should leave the currency open when none is given', () => {
+      expect(parseMenuQuery('tacos under 5')).toEqual({ itemQuery: 'tacos', maxPrice: 5, currency: undefined });
+    });
+
+    it('should return a plain item search without a price limit', () => {
+      expect(parseMenuQuery('restaurants serving khao soi')).toEqual({ itemQuery: 'khao soi' });
+    });
+
+    it('should return null for empty searches', () => {
+      expect(parseMenuQuery('  ')).toBeNull();
+      expect(parseMenuQuery('under $10')).toBeNull();
+    });
+  });
+
+  describe('parseMenuPrice', () => {
+    it('should parse shorthand and separated prices', () => {
+      expect(parseMenuPrice('65k')).toBe(65000);
+      expect(parseMenuPrice('45,000')).toBe(45000);
+      expect(parseMenuPrice('45.000 ₫')).toBe(45000);
+      expect(parseMenuPrice('12,50')).toBe(12.5);
+      expect(parseMenuPrice('$12.50')).toBe(12.5);
+    });
+
+    it('should return null for empty or unreadable prices', () => {
+      expect(parseMenuPrice('')).toBeNull();
+      expect(parseMenuPrice('market price')).toBeNull();
+    });
+  });
+
+  describe('cleanMenuSections', () => {
+    it('should drop unnamed items and empty sections', () => {
+      const sections = cleanMenuSections([
+        { name: '  ', items: [createMenuItem({ name: ' Bún chả ', price: 50000 }), createMenuItem()] },
+        { name: 'Drinks', items: [createMenuItem({ name: '' })] },
+      ]);
+      expect(sections).toHaveLength(1);
+      expect(sections[0].name).toBe('Menu');
+      expect(sections[0].items.map(item => item.name)).toEqual(['Bún chả']);
+      expect(countMenuItems(sections)).toBe(1);
+    });
+  });
+});
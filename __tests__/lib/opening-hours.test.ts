@@ -0,0 +1,132 @@
+import {
+  buildOpeningSchedule,
+  describeOpenStatus,
+  getOpenStatus,
+  getTodayHours,
+  matchesOpenFilter,
+  parseDayHoursLine,
+  parseWeekdayText,
+} from '../../lib/opening-hours';
+
+// Places on UTC+7 all year; 2025-09-01 is a Monday
+const TIME_ZONE = 'Asia/Ho_Chi_Minh';
+const atPlaceTime = (localDateTime: string) => new Date(`${localDateTime}:00+07:00`);
+
+const WEEK_HOURS = [
+  'Monday: Closed',
+  'Tuesday: 7:00 AM – 10:00 PM',
+  'Wednesday: 7:00 AM – 10:00 PM',
+  'Thursday: 7:00 AM – 10:00 PM',
+  'Friday: 5:00 PM – 2:00 AM',
+  'Saturday: 11:00 AM – 2:00 PM, 5:00 PM – 2:00 AM',
+  'Sunday: Open 24 hours',
+];
+
+const schedule = buildOpeningSchedule({ week_hours: WEEK_HOURS, time_zone: TIME_ZONE });
+
+describe('Opening hours', () => {
+  it('should parse weekday_text lines in their different formats', () => {
+    expect(parseDayHoursLine('Monday: Closed')).toEqual({ day: 'monday', closed: true, shifts: [] });
+    expect(parseDayHoursLine('Sunday: Open 24 hours')).toEqual({
+      day: 'sunday', closed: false, shifts: [{ open: '00:00', close: '24:00' }],
+    });
+    expect(parseDayHoursLine('Tuesday: 11:00 AM – 2:00 PM, 5:00 – 10:00 PM')?.shifts).toEqual([
+      { open: '11:00', close: '14:00' },
+      { open: '17:00', close: '22:00' },
+    ]);
+    expect(parseDayHoursLine('Friday: 6:00 PM – 12:00 AM')?.shifts).toEqual([
+      { open: '18:00', close: '00:00' },
+    ]);
+    expect(parseDayHoursLine('Thu: 08:30-21:00')?.shifts).toEqual([{ open: '08:30', close: '21:00' }]);
+    expect(parseDayHoursLine('Wednesday: Hours not available')).toBeNull();
+    expect(parseDayHoursLine('Open daily')).toBeNull();
+  });
+
+  it('should leave out days it cannot read', () => {
+    const days = parseWeekdayText(['Monday: 9 AM – 5 PM', 'Tuesday: Call ahead', 'Monday: Closed']);
+    expect(days).toEqual([{ day: 'monday', closed: false, shifts: [{ open: '09:00', close: '17:00' }] }]);
+  });
+
+  it('should be open, closing soon or closed on the place clock', () => {
+    const open = getOpenStatus(schedule, atPlaceTime('2025-09-03T12:00'));
+    expect(open).toEqual({ state: 'open', changesAt: atPlaceTime('2025-09-03T22:00') });
+    expect(describeOpenStatus(open, schedule, atPlaceTime('2025-09-03T12:00'))).toBe('Open · Closes 10:00 PM');
+
+    expect(getOpenStatus(schedule, atPlaceTime('2025-09-03T21:40')).state).toBe('closing_soon');
+
+    const closed = getOpenStatus(schedule, atPlaceTime('2025-09-03T23:00'));
+    expect(closed).toEqual({ state: 'closed', changesAt: atPlaceTime('2025-09-04T07:00') });
+    expect(describeOpenStatus(closed, schedule, atPlaceTime('2025-09-03T23:00'))).toBe('Closed · Opens tomorrow 7:00 AM');
+  });
+
+  it('should carry shifts past midnight into the next day', () => {
+    // Friday 5 PM – 2 AM, seen at 1 AM on Saturday
+    const status = getOpenStatus(schedule, atPlaceTime('2025-09-06T01:00'));
+    expect(status).toEqual({ state: 'open', changesAt: atPlaceTime('2025-09-06T02:00') });
+
+    // Saturday's late shift runs straight into Sunday's 24 hours
+    expect(getOpenStatus(schedule, atPlaceTime('2025-09-06T23:00'))).toEqual({
+      state: 'open', changesAt: atPlaceTime('2025-09-08T00:00'),
+    });
+    expect(getOpenStatus(schedule, atPlaceTime('2025-09-06T15:00'))).toEqual({
+      state: 'closed', changesAt: atPlaceTime('2025-09-06T17:00'),
+    });
+  });
+
+  it('should let a dated exception replace the weekly hours on the place\'s date', () => {
+    // National Day falls on a Tuesday; at 23:30 UTC on 1 September it is already the 2nd in Saigon
+    const holiday = { date: '2025-09-02', closed: true, shifts: [], label: 'National Day' };
+    const withHoliday = { week_hours: WEEK_HOURS, time_zone: TIME_ZONE, hours_exceptions: [holiday] };
+    const holidaySchedule = buildOpeningSchedule(withHoliday);
+
+    expect(getOpenStatus(holidaySchedule, new Date('2025-09-01T23:30:00Z'))).toEqual({
+      state: 'closed', changesAt: atPlaceTime('2025-09-03T07:00'),
+    });
+    expect(getOpenStatus(holidaySchedule, atPlaceTime('2025-09-02T12:00')).state).toBe('closed');
+    expect(getTodayHours(withHoliday, atPlaceTime('2025-09-02T12:00'))).toBe('Closed (National Day)');
+    expect(getOpenStatus(holidaySchedule, atPlaceTime('2025-09-03T12:00')).state).toBe('open');
+
+    // Special hours on a day the weekly hours say closed
+    const specialMonday = buildOpeningSchedule({
+      ...withHoliday,
+      hours_exceptions: [{ date: '2025-09-01', closed: false, shifts: [{ open: '10:00', close: '14:00' }] }],
+    });
+    expect(getOpenStatus(specialMonday, atPlaceTime('2025-09-01T11:00'))).toEqual({
+      state: 'open', changesAt: atPlaceTime('2025-09-01T14:00'),
+    });
+  });
+
+  it('should follow daylight saving changes in the place\'s time zone', () => {
+    // New York moves from UTC-5 to UTC-4 on 2025-03-09
+    const newYork = { week_hours: ['Friday: 9:00 AM – 5:00 PM', 'Monday: 9:00 AM – 5:00 PM'], time_zone: 'America/New_York' };
+    const weekdays = buildOpeningSchedule(newYork);
+
+    expect(getOpenStatus(weekdays, new Date('2025-03-07T14:30:00Z'))).toEqual({
+      state: 'open', changesAt: new Date('2025-03-07T22:00:00Z'),
+    });
+    expect(getOpenStatus(weekdays, new Date('2025-03-10T13:30:00Z'))).toEqual({
+      state: 'open', changesAt: new Date('2025-03-10T21:00:00Z'),
+    });
+    expect(getOpenStatus(weekdays, new Date('2025-03-10T12:30:00Z')).state).toBe('closed');
+    expect(getTodayHours(newYork, new Date('2025-03-10T03:00:00Z'))).toBe('Hours not available'); // Still Sunday there
+    expect(getTodayHours({ week_hours: WEEK_HOURS, time_zone: TIME_ZONE }, atPlaceTime('2025-09-02T12:00')))
+      .toBe('7:00 AM – 10:00 PM');
+  });
+
+  it('should report unknown hours rather than guessing', () => {
+    const partial = buildOpeningSchedule({ week_hours: ['Monday: 9 AM – 5 PM'], time_zone: TIME_ZONE });
+    expect(getOpenStatus(partial, atPlaceTime('2025-09-03T12:00'))).toEqual({ state: 'unknown', changesAt: null });
+    expect(getOpenStatus(buildOpeningSchedule({ week_hours: [] }))).toEqual({ state: 'unknown', changesAt: null });
+    expect(matchesOpenFilter(partial, { mode: 'now' }, atPlaceTime('2025-09-03T12:00'))).toBe(false);
+  });
+
+  it('should filter by open now and by the next occurrence of a day and time', () => {
+    const wednesdayNoon = atPlaceTime('2025-09-03T12:00');
+
+    expect(matchesOpenFilter(schedule, { mode: 'any' }, wednesdayNoon)).toBe(true);
+    expect(matchesOpenFilter(schedule, { mode: 'now' }, wednesdayNoon)).toBe(true);
+    expect(matchesOpenFilter(schedule, { mode: 'at', day: 'monday', time: '12:00' }, wednesdayNoon)).toBe(false);
+    expect(matchesOpenFilter(schedule, { mode: 'at', day: 'saturday', time: '01:00' }, wednesdayNoon)).toBe(true);
+    expect(matchesOpenFilter(schedule, { mode: 'at', day: 'saturday', time: '15:00' }, wednesdayNoon)).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  DuplicateCandidate,
+  findDuplicateClusters,
+  getDuplicateReasonLabel,
+  pickCanonicalPlace,
+} from '../../lib/place-duplicates';
+
+// Detection is pure; candidate-ranking pulls in the Places search helpers
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+const ORIGIN = { latitude: 10.7769, longitude: 106.7009 };
+const METERS_PER_DEGREE = 111320;
+
+// A place `metersNorth` of ORIGIN
+const place = (id: string, name: string, metersNorth: number, overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate => ({
+  id,
+  name,
+  latitude: ORIGIN.latitude + metersNorth / METERS_PER_DEGREE,
+  longitude: ORIGIN.longitude,
+  google_place_id: null,
+  review_count: 0,
+  is_public: true,
+  is_verified: false,
+  created_at: '2025-08-01T00:00:00Z',
+  ...overrides,
+});
+
+const clusterIds = (places: DuplicateCandidate[]) =>
+  findDuplicateClusters(places).map(cluster => cluster.places.map(({ id }) => id).sort());
+
+describe('Place duplicate detection', () => {
+  it('should group nearby places with similar names', () => {
+    const clusters = findDuplicateClusters([
+      place('a', 'Pizza 4P\'s Ben Thanh', 0),
+      place('b', 'Pizza 4Ps', 20),
+      place('c', 'Highlands Coffee', 10),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].places.map(({ id }) => id).sort()).toEqual(['a', 'b']);
+    expect(clusters[0].matches[0].reason).toBe('nearby_similar_name');
+  });
+
+  it('should not group similar names that are far apart', () => {
+    expect(clusterIds([place('a', 'Highlands Coffee', 0), place('b', 'Highlands Coffee', 400)])).toEqual([]);
+  });
+
+  it('should group places with the same Google Place ID wherever they are pinned', () => {
+    const clusters = findDuplicateClusters([
+      place('a', 'Bún Chả Hương Liên', 0, { google_place_id: 'g1' }),
+      place('b', 'Obama Bun Cha', 2000, { google_place_id: 'g1' }),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].matches).toEqual([
+      expect.objectContaining({ reason: 'google_place_id' }),
+    ]);
+    expect(getDuplicateReasonLabel(clusters[0].matches[0])).toBe('Same Google place');
+  });
+
+  it('should merge chains of matches into one cluster', () => {
+    expect(clusterIds([
+      place('a', 'The Workshop Coffee', 0),
+      place('b', 'Workshop Coffee', 40),
+      place('c', 'Workshop Coffee Saigon', 80),
+      place('d', 'Saigon Books', 60),
+    ])).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should suggest the verified, then public, then most reviewed place as canonical', () => {
+    const unverified = place('a', 'Cafe Apartments', 0, { review_count: 12 });
+    const verified = place('b', 'Cafe Apartments', 5, { is_verified: true });
+    const privateCopy = place('c', 'Cafe Apartments', 5, { is_public: false, review_count: 30 });
+
+    expect(pickCanonicalPlace([unverified, verified, privateCopy]).id).toBe('b');
+    expect(pickCanonicalPlace([unverified, privateCopy]).id).toBe('a');
+    expect(findDuplicateClusters([unverified, verified, privateCopy])[0].places.map(({ id }) => id))
+      .toEqual(['b', 'a', 'c']);
+  });
+
+  it('should prefer the older place when nothing else separates them', () => {
+    const newer = place('a', 'Banh Mi Huynh Hoa', 0, { created_at: '2025-08-10T00:00:00Z' });
+    const older = place('b', 'Banh Mi Huynh Hoa', 10, { created_at: '2025-07-01T00:00:00Z' });
+
+    expect(pickCanonicalPlace([newer, older]).id).toBe('b');
+  });
+
+  it('should describe nearby matches with distance and similarity', () => {
+    const [cluster] = findDuplicateClusters([place('a', 'Saigon Books', 0), place('b', 'Saigon Books', 30)]);
+
+    expect(getDuplicateReasonLabel(cluster.matches[0])).toBe('30 m apart, names 100% similar');
+  });
+});
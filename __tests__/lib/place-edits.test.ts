@@ -0,0 +1,81 @@
+import {
+  diffPlaceEdit,
+  formatEditValue,
+  getChangedFields,
+  getStaleFields,
+  parsePlaceEditForm,
+  toPlaceEditForm,
+  validatePlaceEdit,
+} from '../../lib/place-edits';
+import { EditablePlaceValues } from '../../types/place-edit';
+
+const PLACE: EditablePlaceValues = {
+  name: 'The Workshop Coffee',
+  category: 'Cafe',
+  address: '27 Ngo Duc Ke, District 1',
+  week_hours: ['Monday: 8:00 AM – 9:00 PM', 'Tuesday: 8:00 AM – 9:00 PM'],
+  phone: '+84 28 3824 6801',
+  website: 'https://theworkshop.vn',
+  latitude: 10.774,
+  longitude: 106.7045,
+};
+
+describe('Place edit suggestions', () => {
+  it('should round-trip a place through the form without changes', () => {
+    const proposed = parsePlaceEditForm(toPlaceEditForm(PLACE));
+
+    expect(proposed).toEqual(PLACE);
+    expect(diffPlaceEdit(PLACE, proposed)).toEqual({});
+  });
+
+  it('should parse hours one per line, clear blank phone and website, and add a scheme to websites', () => {
+    const proposed = parsePlaceEditForm({
+      ...toPlaceEditForm(PLACE),
+      week_hours: '  Monday: Closed \n\nTuesday: 9:00 AM – 5:00 PM\n',
+      phone: '   ',
+      website: 'workshop.coffee',
+    });
+
+    expect(proposed.week_hours).toEqual(['Monday: Closed', 'Tuesday: 9:00 AM – 5:00 PM']);
+    expect(proposed.phone).toBeNull();
+    expect(proposed.website).toBe('https://workshop.coffee');
+    expect(parsePlaceEditForm({ ...toPlaceEditForm(PLACE), website: '' }).website).toBeNull();
+  });
+
+  it('should only include changed fields in the diff, with the value the user saw', () => {
+    const changes = diffPlaceEdit(PLACE, { ...PLACE, name: 'Workshop Coffee', phone: null });
+
+    expect(getChangedFields(changes)).toEqual(['name', 'phone']);
+    expect(changes.name).toEqual({ from: 'The Workshop Coffee', to: 'Workshop Coffee' });
+    expect(changes.phone).toEqual({ from: '+84 28 3824 6801', to: null });
+  });
+
+  it('should ignore coordinate changes below GPS noise', () => {
+    expect(diffPlaceEdit(PLACE, { ...PLACE, latitude: PLACE.latitude + 0.000001 })).toEqual({});
+    expect(getChangedFields(diffPlaceEdit(PLACE, { ...PLACE, longitude: PLACE.longitude + 0.001 }))).toEqual(['longitude']);
+  });
+
+  it('should reject values that cannot be saved', () => {
+    expect(validatePlaceEdit(PLACE)).toBeNull();
+    expect(validatePlaceEdit({ ...PLACE, name: '' })).toBe('Name cannot be empty');
+    expect(validatePlaceEdit({ ...PLACE, phone: 'call us' })).toMatch(/Phone number/);
+    expect(validatePlaceEdit({ ...PLACE, website: 'https://nodot' })).toBe('Website must be a web address');
+    expect(validatePlaceEdit({ ...PLACE, latitude: NaN })).toBe('Latitude must be between -90 and 90');
+    expect(validatePlaceEdit({ ...PLACE, longitude: 200 })).toBe('Longitude must be between -180 and 180');
+  });
+
+  it('should flag fields that changed on the place after the suggestion was made', () => {
+    const changes = diffPlaceEdit(PLACE, { ...PLACE, name: 'Workshop Coffee', website: null });
+
+    expect(getStaleFields(changes, PLACE)).toEqual([]);
+    expect(getStaleFields(changes, { ...PLACE, website: 'https://workshop.coffee' })).toEqual(['website']);
+  });
+
+  it('should format values for display', () => {
+    expect(formatEditValue('phone', null)).toBe('None');
+    expect(formatEditValue('week_hours', [])).toBe('None');
+    expect(formatEditValue('week_hours', PLACE.week_hours)).toBe(PLACE.week_hours.join('\n'));
+    expect(formatEditValue('latitude', 10.774)).toBe('10.774000');
+    expect(formatEditValue('name', PLACE.name)).toBe(PLACE.name);
+  });
+});
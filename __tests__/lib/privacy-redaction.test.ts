@@ -0,0 +1,149 @@
+import { inflateSync } from 'zlib';
+import { decodePngPixels, encodePng, PngPixels } from '../../lib/png';
+import { inflateZlib } from '../../lib/inflate';
+import {
+  detectRedactionRegions,
+  getKeptExif,
+  pixelateRegions,
+  RedactionRegion,
+  setRedactionDetector,
+  stripJpegMetadata,
+} from '../../lib/privacy-redaction';
+
+const ExifParser = require('exif-parser');
+
+jest.mock('expo-file-system', () => ({}));
+
+// Every pixel distinct, so any averaging shows up
+const buildImage = (width: number, height: number): PngPixels => {
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    data.set([i % 256, (i * 7) % 256, (i * 13) % 256], i * 3);
+  }
+  return { width, height, channels: 3, data };
+};
+
+const segment = (marker: number, payload: number[]): number[] =>
+  [0xff, marker, ((payload.length + 2) >> 8) & 0xff, (payload.length + 2) & 0xff, ...payload];
+
+// SOI, JFIF APP0, an EXIF APP1 with GPS to remove, a comment, a quantization table, scan data
+const buildJpeg = (): Uint8Array => Uint8Array.from([
+  0xff, 0xd8,
+  ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+  ...segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...Array.from('GPS 10.77N 106.70E', c => c.charCodeAt(0))]),
+  ...segment(0xfe, Array.from('iPhone 15 Pro', c => c.charCodeAt(0))),
+  ...segment(0xdb, new Array(65).fill(1)),
+  0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9,
+]);
+
+const contains = (bytes: Uint8Array, text: string): boolean =>
+  Buffer.from(bytes).includes(Buffer.from(text));
+
+const region = (box: Partial<RedactionRegion>): RedactionRegion => ({
+  x: 0, y: 0, width: 0, height: 0, kind: 'face', source: 'user', ...box,
+});
+
+describe('Privacy Redaction', () => {
+  afterEach(() => {
+    setRedactionDetector(null);
+  });
+
+  describe('PNG codec', () => {
+    it('should round-trip pixels through encodePng', () => {
+      const image = buildImage(40, 30);
+      const png = encodePng(image);
+
+      expect(decodePngPixels(png, inflateSync)).toEqual(image);
+      expect(decodePngPixels(png, inflateZlib)).toEqual(image);
+    });
+
+    it('should split large images into several stored blocks', () => {
+      const image = buildImage(200, 120); // 72k of pixel data, more than one stored block
+      expect(decodePngPixels(encodePng(image), inflateZlib)).toEqual(image);
+    });
+  });
+
+  describe('pixelateRegions', () => {
+    it('should only change pixels inside the regions', () => {
+      const image = buildImage(100, 100);
+      const original = image.data.slice();
+
+      pixelateRegions(image, [region({ x: 0.5, y: 0.5, width: 0.5, height: 0.5 })]);
+
+      const pixel = (data: Uint8Array, x: number, y: number) => Array.from(data.subarray((y * 100 + x) * 3, (y * 100 + x) * 3 + 3));
+      expect(pixel(image.data, 10, 10)).toEqual(pixel(original, 10, 10));
+      expect(pixel(image.data, 49, 80)).toEqual(pixel(original, 49, 80));
+      // Neighbours in the same mosaic cell now share one colour
+      expect(pixel(image.data, 50, 50)).toEqual(pixel(image.data, 55, 55));
+      expect(pixel(image.data, 50, 50)).not.toEqual(pixel(original, 50, 50));
+    });
+
+    it('should clamp regions that run off the image', () => {
+      const image = buildImage(20, 20);
+      expect(() => pixelateRegions(image, [region({ x: 0.9, y: -0.2, width: 0.5, height: 0.5 })])).not.toThrow();
+    });
+  });
+
+  describe('stripJpegMetadata', () => {
+    it('should drop EXIF and comments but keep image segments', () => {
+      const stripped = stripJpegMetadata(buildJpeg());
+
+      expect(contains(stripped, 'GPS')).toBe(false);
+      expect(contains(stripped, 'iPhone')).toBe(false);
+      expect(contains(stripped, 'JFIF')).toBe(true);
+      expect(Array.from(stripped.slice(-8))).toEqual([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+    });
+
+    it('should write back only the kept capture time', () => {
+      const stripped = stripJpegMetadata(buildJpeg(), { dateTimeOriginal: '2025:08:20 18:30:00' });
+      const exif = ExifParser.create(Buffer.from(stripped)).parse();
+
+      expect(contains(stripped, 'GPS')).toBe(false);
+      expect(exif.tags.DateTimeOriginal).toBe(Date.UTC(2025, 7, 20, 18, 30, 0) / 1000);
+      expect(Object.keys(exif.tags)).toEqual(['DateTimeOriginal']);
+    });
+
+    it('should reject files that are not JPEGs', () => {
+      expect(() => stripJpegMetadata(new Uint8Array([1, 2, 3]))).toThrow('Not a JPEG image');
+    });
+  });
+
+  describe('getKeptExif', () => {
+    it('should keep only a well-formed capture time', () => {
+      expect(getKeptExif({ DateTimeOriginal: '2025:08:20 18:30:00', GPSLatitude: 10.7, Make: 'Apple' }))
+        .toEqual({ dateTimeOriginal: '2025:08:20 18:30:00' });
+      expect(getKeptExif({ '{Exif}': { DateTimeOriginal: '2025:08:20 18:30:00' } }))
+        .toEqual({ dateTimeOriginal: '2025:08:20 18:30:00' });
+      expect(getKeptExif({ DateTimeOriginal: 'yesterday' })).toEqual({});
+      expect(getKeptExif(undefined)).toEqual({});
+    });
+  });
+
+  describe('detectRedactionRegions', () => {
+    it('should return nothing without a detector', async () => {
+      expect(await detectRedactionRegions('file:///photo.jpg')).toEqual([]);
+    });
+
+    it('should mark and clamp detector regions', async () => {
+      setRedactionDetector({
+        name: 'test',
+        detect: async () => [{ x: 0.8, y: 0.1, width: 0.4, height: 0.1, kind: 'license_plate' }],
+      });
+
+      const [detected] = await detectRedactionRegions('file:///photo.jpg');
+      expect(detected).toMatchObject({ x: 0.8, kind: 'license_plate', source: 'detector' });
+      expect(detected.width).toBeCloseTo(0.2);
+    });
+
+    it('should treat a failing detector as finding nothing', async () => {
+      setRedactionDetector({
+        name: 'broken',
+        detect: async () => {
+          throw new Error('model missing');
+        },
+      });
+
+      expect(await detectRedactionRegions('file:///photo.jpg')).toEqual([]);
+    });
+  });
+});
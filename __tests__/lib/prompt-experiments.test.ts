@@ -0,0 +1,84 @@
+import {
+  assignPromptVersion,
+  getActiveExperiments,
+  getExperimentBucket,
+  PROMPT_EXPERIMENTS,
+  PromptExperiment,
+} from '../../lib/prompt-experiments';
+import {
+  CURRENT_PROMPT_VERSIONS,
+  getPromptTemplate,
+  renderPrompt,
+} from '../../lib/prompt-templates';
+
+const experiment: PromptExperiment = {
+  id: 'test-experiment',
+  task: 'analyze-storefront',
+  description: 'Test split',
+  variants: [
+    { version: 1, weight: 50 },
+    { version: 2, weight: 50 },
+  ],
+};
+
+describe('Prompt experiments', () => {
+  it('should keep a user in the same bucket', () => {
+    expect(getExperimentBucket('test-experiment', 'user-1')).toBe(getExperimentBucket('test-experiment', 'user-1'));
+    expect(getExperimentBucket('test-experiment', 'user-1')).toBeGreaterThanOrEqual(0);
+    expect(getExperimentBucket('test-experiment', 'user-1')).toBeLessThan(100);
+  });
+
+  it('should split users roughly by variant weight', () => {
+    const counts: Record<number, number> = { 1: 0, 2: 0 };
+    for (let i = 0; i < 1000; i++) {
+      const assignment = assignPromptVersion('analyze-storefront', `user-${i}`, [experiment]);
+      expect(assignment.experimentId).toBe('test-experiment');
+      counts[assignment.version]++;
+    }
+
+    expect(counts[1]).toBeGreaterThan(400);
+    expect(counts[2]).toBeGreaterThan(400);
+  });
+
+  it('should serve the current version without a user or a running experiment', () => {
+    const current = CURRENT_PROMPT_VERSIONS['analyze-storefront'];
+
+    expect(assignPromptVersion('analyze-storefront', null, [experiment])).toEqual({
+      task: 'analyze-storefront',
+      version: current,
+      versionId: `analyze-storefront@v${current}`,
+      experimentId: undefined,
+    });
+    expect(assignPromptVersion('analyze-storefront', 'user-1', []).experimentId).toBeUndefined();
+    expect(assignPromptVersion('extract-menu', 'user-1', [experiment]).experimentId).toBeUndefined();
+  });
+
+  it('should only run experiments listed in PROMPT_EXPERIMENTS', () => {
+    expect(getActiveExperiments({})).toEqual([]);
+    expect(getActiveExperiments({ PROMPT_EXPERIMENTS: ' storefront-sign-first , unknown' }).map(e => e.id))
+      .toEqual(['storefront-sign-first']);
+  });
+
+  it('should have a template for every current and experiment version', () => {
+    for (const [task, version] of Object.entries(CURRENT_PROMPT_VERSIONS)) {
+      expect(() => getPromptTemplate(task as keyof typeof CURRENT_PROMPT_VERSIONS, version)).not.toThrow();
+    }
+    for (const { task, variants } of PROMPT_EXPERIMENTS) {
+      for (const { version } of variants) {
+        expect(() => getPromptTemplate(task, version)).not.toThrow();
+      }
+    }
+  });
+
+  it('should fill template variables and reject missing ones', () => {
+    const prompt = renderPrompt('generate-review', 1, {
+      businessName: 'Cafe Luna',
+      businessType: 'cafe',
+      reviewTexts: 'Great coffee',
+    });
+
+    expect(prompt).toContain('Cafe Luna');
+    expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+    expect(() => renderPrompt('generate-review', 1, { businessName: 'Cafe Luna' })).toThrow();
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  buildSummaryReviews,
+  formatReviewsForPrompt,
+  getContributingReviews,
+  getReviewChanges,
+  hasMaterialReviewChange,
+  MAX_GOOGLE_REVIEWS,
+  runSummaryRegeneration,
+  SummaryJobDeps,
+  SummarySnapshot,
+} from '../../lib/review-summaries';
+import { validateReviewSummary } from '../../lib/analysis-schema';
+import type { GoogleReview } from '../../lib/google-places';
+
+const SUMMARY_AT = '2025-08-01T00:00:00.000Z';
+const BEFORE = '2025-07-01T00:00:00.000Z';
+const AFTER = '2025-08-10T00:00:00.000Z';
+
+const review = (id: string, rating: number, createdAt = BEFORE, updatedAt = createdAt, text = `Review ${id}`) => ({
+  id,
+  rating,
+  text,
+  created_at: createdAt,
+  updated_at: updatedAt,
+});
+
+const googleReview = (name: string, rating: number, text: string): GoogleReview => ({
+  author_name: name,
+  author_url: '',
+  language: 'en',
+  profile_photo_url: '',
+  rating,
+  relative_time_description: 'a month ago',
+  text,
+  time: 0,
+});
+
+const snapshot = (inAppReviewCount: number, inAppAverageRating: number | null): SummarySnapshot => ({
+  createdAt: SUMMARY_AT,
+  inAppReviewCount,
+  inAppAverageRating,
+});
+
+describe('review summaries', () => {
+  describe('material review changes', () => {
+    const existing = Array.from({ length: 10 }, (_, i) => review(`r${i}`, 4));
+
+    it('should count added, edited and removed reviews since the summary', () => {
+      const reviews = [
+        ...existing.slice(0, 8),
+        review('edited', 4, BEFORE, AFTER),
+        review('new', 5, AFTER),
+      ];
+      // 10 summarised; 8 untouched + 1 edited remain, so one was deleted
+      expect(getReviewChanges(snapshot(10, 4), reviews)).toEqual({ added: 1, edited: 1, removed: 1 });
+    });
+
+    it('should ignore places without changes', () => {
+      expect(hasMaterialReviewChange(snapshot(10, 4), existing)).toBe(false);
+    });
+
+    it('should ignore a single new review with a similar rating', () => {
+      expect(hasMaterialReviewChange(snapshot(10, 4), [...existing, review('new', 4, AFTER)])).toBe(false);
+    });
+
+    it('should regenerate after enough new reviews', () => {
+      const added = [review('a', 4, AFTER), review('b', 4, AFTER), review('c', 4, AFTER)];
+      expect(hasMaterialReviewChange(snapshot(10, 4), [...existing, ...added])).toBe(true);
+    });
+
+    it('should regenerate when the changes are a large share of the reviews', () => {
+      expect(hasMaterialReviewChange(snapshot(2, 4), [review('a', 4), review('b', 4), review('c', 4, AFTER)])).toBe(true);
+    });
+
+    it('should regenerate when the rating swings', () => {
+      const harsh = [review('a', 1, AFTER), review('b', 1, AFTER)];
+      const reviews = [...existing, ...harsh];
+      expect(getReviewChanges(snapshot(10, 4), reviews).added).toBe(2);
+      expect(hasMaterialReviewChange(snapshot(10, 4), reviews)).toBe(true);
+    });
+
+    it('should treat every review as new when only the capture-time summary exists', () => {
+      expect(hasMaterialReviewChange(snapshot(0, null), [review('first', 5, AFTER)])).toBe(true);
+    });
+  });
+
+  it('should reference recent in-app reviews first, then Google reviews', () => {
+    const google = Array.from({ length: MAX_GOOGLE_REVIEWS + 2 }, (_, i) => googleReview(`G${i}`, 3, `Google ${i}`));
+    const inputs = buildSummaryReviews(
+      [review('old', 3, BEFORE), review('recent', 5, AFTER), review('blank', 2, AFTER, AFTER, '  ')],
+      [googleReview('Empty', 1, ''), ...google]
+    );
+
+    expect(inputs.map(input => input.ref)).toEqual(['R1', 'R2', 'G1', 'G2', 'G3', 'G4', 'G5']);
+    expect(inputs[0]).toMatchObject({ source: 'in_app', reviewId: 'recent', rating: 5 });
+    expect(inputs[2]).toMatchObject({ source: 'google', authorName: 'G0', text: 'Google 0' });
+    expect(formatReviewsForPrompt(inputs.slice(0, 1))).toBe('[R1] Community, 5/5: Review recent');
+  });
+
+  describe('attribution', () => {
+    const inputs = buildSummaryReviews(
+      [review('a', 5, AFTER), review('b', 2, BEFORE)],
+      [googleReview('Ann', 4, 'Great coffee')]
+    );
+    const refs = inputs.map(input => input.ref);
+
+    it('should validate citations against the reviews in the prompt', () => {
+      const response = {
+        summary: 'Good coffee, slow service.',
+        summaryReviews: ['R1', 'G1'],
+        pros: [{ text: 'Great coffee', reviews: ['G1', 'R1'] }],
+        cons: [{ text: 'Slow service', reviews: ['R2'] }],
+        recommendations: [],
+        overallSentiment: 'positive',
+      };
+      expect(validateReviewSummary(refs)(response).valid).toBe(true);
+
+      const invented = validateReviewSummary(refs)({ ...response, cons: [{ text: 'Rude', reviews: ['R9'] }] });
+      expect(invented.valid).toBe(false);
+      if (!invented.valid) {
+        expect(invented.issues).toContain('"cons[0].reviews" cites unknown reviews: R9');
+      }
+
+      const uncited = validateReviewSummary(refs)({ ...response, pros: [{ text: 'Cheap', reviews: [] }] });
+      expect(uncited.valid).toBe(false);
+    });
+
+    it('should record only the cited reviews and where they were cited', () => {
+      const contributing = getContributingReviews({
+        summary: 'Good coffee.',
+        summaryReviews: ['G1'],
+        pros: [{ text: 'Great coffee', reviews: ['G1', 'R1'] }],
+        cons: [],
+        recommendations: [{ text: 'Try the latte', reviews: ['R1'] }],
+        overallSentiment: 'positive',
+      }, inputs);
+
+      expect(contributing).toEqual([
+        { source: 'in_app', review_id: 'a', google_author: null, rating: 5, cited_in: ['pros:0', 'recommendations:0'] },
+        { source: 'google', review_id: null, google_author: 'Ann', rating: 4, cited_in: ['summary', 'pros:0'] },
+      ]);
+    });
+  });
+
+  it('should back off from places that fail instead of retrying them every run', async () => {
+    const retryAt = '2025-08-10T00:15:00.000Z';
+    const rpc = jest.fn((name: string) => Promise.resolve(
+      name === 'record_summary_failure'
+        ? { data: retryAt, error: null }
+        : { data: [{ place_id: 'broken', last_review_at: AFTER }], error: null }
+    ));
+    const missingPlace = {
+      select: () => missingPlace,
+      eq: () => missingPlace,
+      single: () => Promise.resolve({ data: null, error: { message: 'No rows' } }),
+    };
+    const client = { rpc, from: () => missingPlace } as unknown as SummaryJobDeps['client'];
+
+    const result = await runSummaryRegeneration({
+      client,
+      provider: {} as SummaryJobDeps['provider'],
+      fetchGoogleReviews: async () => [],
+    });
+
+    expect(result.failed).toEqual([{ placeId: 'broken', error: 'Place not found: No rows', retryAt }]);
+    expect(rpc).toHaveBeenCalledWith('record_summary_failure', {
+      p_place_id: 'broken',
+      p_error: 'Place not found: No rows',
+    });
+  });
+});
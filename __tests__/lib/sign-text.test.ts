@@ -0,0 +1,131 @@
+import {
+  getSearchableSignName,
+  getSignNameVariants,
+  getSignSearchText,
+  matchesSignName,
+  normalizeSignText,
+  searchPlacesBySignText,
+  SignTextResult,
+} from '../../lib/sign-text';
+import { searchPlacesByText } from '../../lib/google-places';
+
+jest.mock('../../lib/google-places', () => ({
+  searchPlacesByText: jest.fn(),
+}));
+
+const mockSearchPlacesByText = searchPlacesByText as jest.MockedFunction<typeof searchPlacesByText>;
+
+const buildSignText = (businessName: SignTextResult['businessName']): SignTextResult => ({
+  primaryLanguage: businessName?.language || 'und',
+  blocks: [],
+  businessName,
+});
+
+const place = (place_id: string, name: string) => ({
+  place_id,
+  name,
+  formatted_address: '',
+  rating: 0,
+  user_ratings_total: 0,
+  types: [],
+  geometry: { location: { lat: 0, lng: 0 } },
+});
+
+describe('sign-text', () => {
+  beforeEach(() => {
+    mockSearchPlacesByText.mockReset();
+  });
+
+  it('normalizes Vietnamese diacritics and punctuation', () => {
+    expect(normalizeSignText('Phở Hòa - Đà Nẵng!')).toBe('pho hoa da nang');
+    expect(normalizeSignText('鼎泰豐')).toBe('鼎泰豐');
+  });
+
+  it('returns distinct name variants, original script first', () => {
+    const signText = buildSignText({
+      original: '鼎泰豐',
+      language: 'zh-Hant',
+      transliterated: 'Din Tai Fung',
+      confidence: 90,
+    });
+    expect(getSignNameVariants(signText)).toEqual(['鼎泰豐', 'Din Tai Fung']);
+
+    const vietnamese = buildSignText({
+      original: 'Phở Hòa',
+      language: 'vi',
+      transliterated: 'Pho Hoa',
+      translated: 'Peaceful Pho',
+      confidence: 90,
+    });
+    expect(getSignNameVariants(vietnamese)).toEqual(['Phở Hòa', 'Peaceful Pho']);
+  });
+
+  it('uses the Latin form of confident sign names for keyword search', () => {
+    expect(getSearchableSignName(buildSignText({
+      original: 'ร้านกาแฟ',
+      language: 'th',
+      transliterated: 'Ran Kafae',
+      confidence: 80,
+    }))).toBe('Ran Kafae');
+    expect(getSearchableSignName(buildSignText({
+      original: 'Phở Hòa',
+      language: 'vi',
+      transliterated: 'Pho Hoa',
+      confidence: 80,
+    }))).toBe('Phở Hòa');
+    expect(getSearchableSignName(buildSignText({
+      original: 'Phở Hòa',
+      language: 'vi',
+      transliterated: 'Pho Hoa',
+      confidence: 30,
+    }))).toBeNull();
+    expect(getSearchableSignName(buildSignText(null))).toBeNull();
+  });
+
+  it('pre-fills manual search with the sign name, else the clearest sign text', () => {
+    expect(getSignSearchText(buildSignText({
+      original: 'ร้านกาแฟ',
+      language: 'th',
+      transliterated: 'Ran Kafae',
+      confidence: 30,
+    }))).toBe('Ran Kafae');
+    expect(getSignSearchText({
+      ...buildSignText(null),
+      blocks: [
+        { text: 'OPEN 24H', language: 'en', boundingBox: { x: 0, y: 0, width: 1, height: 1 }, confidence: 60, isBusinessName: false },
+        { text: ' Bánh Mì ', language: 'vi', boundingBox: { x: 0, y: 0, width: 1, height: 1 }, confidence: 85, isBusinessName: false },
+      ],
+    })).toBe('Bánh Mì');
+    expect(getSignSearchText(null)).toBeNull();
+  });
+
+  it('matches place names against any sign name form', () => {
+    const variants = ['鼎泰豐', 'Din Tai Fung'];
+    expect(matchesSignName('Din Tai Fung 101', variants)).toBe(true);
+    expect(matchesSignName('鼎泰豐 信義店', variants)).toBe(true);
+    expect(matchesSignName('Pho Hoa Pasteur', ['Phở Hòa'])).toBe(true);
+    expect(matchesSignName('Starbucks', variants)).toBe(false);
+  });
+
+  it('searches with every variant and lists sign matches first', async () => {
+    mockSearchPlacesByText
+      .mockResolvedValueOnce([place('a', 'Taipei Noodle House'), place('b', '鼎泰豐')])
+      .mockResolvedValueOnce([place('b', '鼎泰豐'), place('c', 'Din Tai Fung Xinyi')]);
+
+    const results = await searchPlacesBySignText(buildSignText({
+      original: '鼎泰豐',
+      language: 'zh-Hant',
+      transliterated: 'Din Tai Fung',
+      confidence: 90,
+    }), 25.03, 121.56);
+
+    expect(mockSearchPlacesByText).toHaveBeenCalledWith('鼎泰豐', 25.03, 121.56);
+    expect(mockSearchPlacesByText).toHaveBeenCalledWith('Din Tai Fung', 25.03, 121.56);
+    expect(results.map(result => result.place_id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('skips searching when the sign has no business name', async () => {
+    expect(await searchPlacesBySignText(buildSignText(null))).toEqual([]);
+    expect(mockSearchPlacesByText).not.toHaveBeenCalled();
+  });
+});
@@ -50,9 +50,9 @@ describe('Supabase Configuration', () => {
     });
 
     const result = await supabase
-      .from('test_table')
+      .from('places')
       .select('*')
-      .eq('id', 1);
+      .eq('id', '1');
 
     expect(result.data).toEqual(mockData);
     expect(result.error).toBeNull();
@@ -68,9 +68,9 @@ describe('Supabase Configuration', () => {
     });
 
     const result = await supabase
-      .from('test_table')
+      .from('places')
       .select('*')
-      .eq('id', 1);
+      .eq('id', '1');
 
     expect(result.data).toBeNull();
     expect(result.error).toEqual(mockError);
@@ -99,15 +99,15 @@ describe('Supabase Configuration', () => {
   });
 
   it('should handle RPC function calls', async () => {
-    const mockResult = { count: 5 };
+    const mockResult = true;
     
     supabase.rpc = jest.fn().mockResolvedValue({ data: mockResult, error: null });
 
-    const result = await supabase.rpc('get_user_count', { user_id: '123' });
+    const result = await supabase.rpc('is_admin', { user_id: '123' });
 
     expect(result.data).toEqual(mockResult);
     expect(result.error).toBeNull();
-    expect(supabase.rpc).toHaveBeenCalledWith('get_user_count', { user_id: '123' });
+    expect(supabase.rpc).toHaveBeenCalledWith('is_admin', { user_id: '123' });
   });
 
   it('should handle realtime subscriptions', () => {
@@ -0,0 +1,172 @@
+import {
+  createFixtureProvider,
+  createOpenAICompatibleProvider,
+  createVisionProvider,
+  hashContent,
+  hashImage,
+  readImageBytes,
+  VisionProviderError,
+} from '../../lib/vision-providers';
+
+describe('Vision Providers', () => {
+  describe('createVisionProvider', () => {
+    it('should default to the OpenAI provider', () => {
+      const provider = createVisionProvider({ OPENAI_API_KEY: 'sk-test' });
+      expect(provider.name).toBe('openai');
+    });
+
+    it('should reject a missing OpenAI key', () => {
+      expect(() => createVisionProvider({ OPENAI_API_KEY: 'your_openai_api_key' }))
+        .toThrow(VisionProviderError);
+    });
+
+    it('should require a base URL and model for OpenAI-compatible endpoints', () => {
+      expect(() => createVisionProvider({ VISION_PROVIDER: 'openai-compatible' }))
+        .toThrow(VisionProviderError);
+
+      const provider = createVisionProvider({
+        VISION_PROVIDER: 'openai-compatible',
+        VISION_BASE_URL: 'http://localhost:8000/v1',
+        VISION_MODEL: 'llava',
+      });
+      expect(provider.name).toBe('openai-compatible');
+    });
+
+    it('should build the fixture provider without any keys', () => {
+      const provider = createVisionProvider({ VISION_PROVIDER: 'fixture' });
+      expect(provider.name).toBe('fixture');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => createVisionProvider({ VISION_PROVIDER: 'unknown' })).toThrow('Unknown VISION_PROVIDER');
+    });
+  });
+
+  describe('hashImage', () => {
+    it('should hash data URL bytes rather than the URL text', async () => {
+      const bytes = Buffer.from('storefront-bytes');
+      const hash = await hashImage(`data:image/jpeg;base64,${bytes.toString('base64')}`);
+      expect(hash).toBe(hashContent(bytes));
+    });
+  });
+
+  describe('readImageBytes', () => {
+    const originalFetch = global.fetch;
+    const STORAGE_HOST = 'project.supabase.co';
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should only download images from the project storage host', async () => {
+      global.fetch = jest.fn(async () => new Response(new Uint8Array([1, 2, 3]))) as typeof fetch;
+
+      expect(await readImageBytes('https://internal.example/metadata', [STORAGE_HOST])).toBeNull();
+      expect(await readImageBytes(`http://${STORAGE_HOST}/photo.jpg`, [STORAGE_HOST])).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      expect(await readImageBytes(`https://${STORAGE_HOST}/storage/v1/object/public/images/photo.jpg`, [STORAGE_HOST]))
+        .toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('should give up on images over the size limit', async () => {
+      global.fetch = jest.fn(async () => new Response(new Uint8Array(16))) as typeof fetch;
+      expect(await readImageBytes(`https://${STORAGE_HOST}/photo.jpg`, [STORAGE_HOST], 8)).toBeNull();
+      expect(await readImageBytes(`data:image/jpeg;base64,${Buffer.alloc(16).toString('base64')}`, [], 8)).toBeNull();
+    });
+  });
+
+  describe('createOpenAICompatibleProvider', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should report streamed text as it arrives', async () => {
+      const events = ['{"business', 'Type": "Cafe"}']
+        .map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`)
+        .concat('data: [DONE]\n\n');
+      const chunks = events.map(event => new TextEncoder().encode(event));
+      global.fetch = jest.fn(async (_url: unknown, init?: RequestInit) => {
+        expect(JSON.parse(init!.body as string).stream).toBe(true);
+        return {
+          ok: true,
+          body: {
+            getReader: () => ({
+              read: async () => (chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true }),
+            }),
+          },
+        };
+      }) as unknown as typeof fetch;
+
+      const provider = createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        models: { default: 'llava', quick: 'llava' },
+      });
+      const streamed: string[] = [];
+      const text = await provider.complete({
+        task: 'analyze-storefront',
+        prompt: 'analyze',
+        imageUrl: 'https://example.com/cafe.jpg',
+        maxTokens: 500,
+        onText: textSoFar => streamed.push(textSoFar),
+      });
+
+      expect(text).toBe('{"businessType": "Cafe"}');
+      expect(streamed).toEqual(['{"business', '{"businessType": "Cafe"}']);
+    });
+  });
+
+  describe('createFixtureProvider', () => {
+    const hasher = async (imageUrl: string) => hashContent(imageUrl);
+
+    it('should return the recorded fixture for a known image hash', async () => {
+      const imageHash = hashContent('https://example.com/pho.jpg');
+      const provider = createFixtureProvider({
+        [imageHash]: {
+          'quick-analysis': { businessType: 'Restaurant', confidence: 92, visualCues: ['menu board'] },
+        },
+      }, hasher);
+
+      const result = await provider.complete({
+        task: 'quick-analysis',
+        prompt: 'identify',
+        imageUrl: 'https://example.com/pho.jpg',
+        maxTokens: 200,
+      });
+
+      expect(JSON.parse(result)).toEqual({ businessType: 'Restaurant', confidence: 92, visualCues: ['menu board'] });
+    });
+
+    it('should return identical fallback responses for the same image', async () => {
+      const provider = createFixtureProvider({}, hasher);
+      const request = {
+        task: 'analyze-storefront' as const,
+        prompt: 'analyze',
+        imageUrl: 'https://example.com/unknown.jpg',
+        maxTokens: 500,
+      };
+
+      const first = JSON.parse(await provider.complete(request));
+      const second = JSON.parse(await provider.complete(request));
+
+      expect(first).toEqual(second);
+      expect(first.businessName).toBeTruthy();
+      expect(first.confidence.businessType).toBeGreaterThanOrEqual(50);
+    });
+
+    it('should key text-only tasks on the prompt', async () => {
+      const provider = createFixtureProvider({}, hasher);
+      const result = JSON.parse(await provider.complete({
+        task: 'generate-review',
+        prompt: 'reviews',
+        maxTokens: 800,
+      }));
+
+      expect(result.overallSentiment).toBe('positive');
+      expect(Array.isArray(result.pros)).toBe(true);
+    });
+  });
+});
@@ -6,6 +6,17 @@ import {
   validateImageUri,
   getImageDimensions
 } from '../../utils/image-processing';
+import {
+  measureFrameQuality,
+  selectBestFrames,
+  BurstFrame,
+  FrameQuality,
+  measurePhotoQuality,
+  checkPhotoQuality,
+  getPhotoQualityThresholds,
+  DEFAULT_PHOTO_QUALITY_THRESHOLDS,
+} from '../../utils/image-processing';
+import { GrayscaleImage } from '../../lib/image-hash';
 
 jest.mock('expo-image-manipulator');
 
@@ -206,4 +217,107 @@ describe('Image Processing Utilities', () => {
       await expect(getImageDimensions('file://invalid/image.jpg')).rejects.toThrow('Failed to get dimensions');
     });
   });
-});
\ No newline at end of file
+
+  const buildImage = (width: number, height: number, pixel: (x: number, y: number) => number): GrayscaleImage => {
+    const pixels = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        pixels[y * width + x] = pixel(x, y);
+      }
+    }
+    return { width, height, pixels };
+  };
+
+  describe('burst frame selection', () => {
+    // High-contrast "sign lettering" and the same pattern smeared by motion blur
+    const sharp = buildImage(64, 48, (x, y) => ((Math.floor(x / 2) + Math.floor(y / 4)) % 2 ? 200 : 60));
+    const blurred = buildImage(64, 48, (x, y) => {
+      let total = 0;
+      for (let dx = -3; dx <= 3; dx++) {
+        const sx = Math.min(63, Math.max(0, x + dx));
+        total += (Math.floor(sx / 2) + Math.floor(y / 4)) % 2 ? 200 : 60;
+      }
+      return Math.round(total / 7);
+    });
+    const dark = buildImage(64, 48, (x, y) => ((Math.floor(x / 2) + Math.floor(y / 4)) % 2 ? 12 : 2));
+
+    const frame = (uri: string, quality: Partial<FrameQuality> | null): BurstFrame => ({
+      uri,
+      quality: quality && { sharpness: 0, exposure: 0, score: 0, hash: '0000000000000000', ...quality },
+    });
+
+    it('should score a sharp frame above a motion-blurred one', () => {
+      expect(measureFrameQuality(sharp).sharpness).toBeGreaterThan(measureFrameQuality(blurred).sharpness);
+      expect(measureFrameQuality(sharp).score).toBeGreaterThan(measureFrameQuality(blurred).score);
+    });
+
+    it('should penalize under-exposed frames', () => {
+      expect(measureFrameQuality(dark).exposure).toBeLessThan(0.2);
+      expect(measureFrameQuality(sharp).exposure).toBeGreaterThan(0.8);
+    });
+
+    it('should pick the highest scoring frame', () => {
+      const { best, alternate } = selectBestFrames([
+        frame('file://1.jpg', { score: 0.4 }),
+        frame('file://2.jpg', { score: 0.9 }),
+        frame('file://3.jpg', { score: 0.5 }),
+      ]);
+      expect(best.uri).toBe('file://2.jpg');
+      expect(alternate).toBeUndefined();
+    });
+
+    it('should add a close runner-up only when its content differs', () => {
+      const nearDuplicate = selectBestFrames([
+        frame('file://1.jpg', { score: 0.9, hash: 'ffffffffffffffff' }),
+        frame('file://2.jpg', { score: 0.85, hash: 'fffffffffffffffe' }),
+      ]);
+      expect(nearDuplicate.alternate).toBeUndefined();
+
+      const obstructed = selectBestFrames([
+        frame('file://1.jpg', { score: 0.9, hash: 'ffffffffffffffff' }),
+        frame('file://2.jpg', { score: 0.85, hash: 'ffffffff00000000' }),
+      ]);
+      expect(obstructed.alternate?.uri).toBe('file://2.jpg');
+    });
+
+    it('should fall back to the first frame when none could be measured', () => {
+      expect(selectBestFrames([frame('file://1.jpg', null), frame('file://2.jpg', null)]).best.uri).toBe('file://1.jpg');
+    });
+  });
+
+  describe('photo quality gate', () => {
+    const lettering = (x: number, y: number) => ((Math.floor(x / 2) + Math.floor(y / 4)) % 2 ? 200 : 60);
+    const issuesOf = (image: GrayscaleImage) =>
+      checkPhotoQuality(measurePhotoQuality(image)).issues.map(issue => issue.type);
+
+    it('should pass a sharp, well-lit sign that fills the frame', () => {
+      const report = checkPhotoQuality(measurePhotoQuality(buildImage(128, 96, lettering)));
+      expect(report.passed).toBe(true);
+      expect(report.issues).toEqual([]);
+    });
+
+    it('should ask for more light on dark photos', () => {
+      const issues = issuesOf(buildImage(128, 96, (x, y) => Math.round(lettering(x, y) / 8)));
+      expect(issues[0]).toBe('too_dark');
+      expect(issues).not.toContain('sign_too_small');
+    });
+
+    it('should flag glare when much of the frame is blown out', () => {
+      expect(issuesOf(buildImage(128, 96, (x, y) => (y < 48 ? 255 : lettering(x, y))))).toEqual(['glare']);
+    });
+
+    it('should ask the user to get closer when the sign is a small part of the frame', () => {
+      const farAway = buildImage(128, 96, (x, y) => (x >= 56 && x < 72 && y >= 40 && y < 56 ? lettering(x, y) : 120));
+      const report = checkPhotoQuality(measurePhotoQuality(farAway));
+      expect(report.issues.map(issue => issue.type)).toEqual(['sign_too_small']);
+      expect(report.issues[0].message).toMatch(/closer/i);
+    });
+
+    it('should read thresholds from config and ignore invalid values', () => {
+      expect(getPhotoQualityThresholds({ minBrightness: '80', maxGlare: 'lots' })).toEqual({
+        ...DEFAULT_PHOTO_QUALITY_THRESHOLDS,
+        minBrightness: 80,
+      });
+    });
+  });
+});
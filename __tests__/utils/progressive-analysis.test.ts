@@ -0,0 +1,39 @@
+jest.mock('../../lib/usage-quota', () => ({}));
+
+import {
+  getAnalysisRoute,
+  getAnalysisRouteOutcome,
+  getConfidenceLevel,
+  getOverallConfidence,
+} from '../../utils/progressive-analysis';
+
+describe('Progressive Analysis', () => {
+  describe('confidence routing', () => {
+    it('should weight business type and visual features above the name', () => {
+      expect(getOverallConfidence({ businessType: 90, visualFeatures: 80, nameRecognition: 50 })).toBeCloseTo(78);
+    });
+
+    it('should use the shared thresholds for confidence levels', () => {
+      expect(getConfidenceLevel(85)).toBe('high_confidence');
+      expect(getConfidenceLevel(80)).toBe('medium_confidence');
+      expect(getConfidenceLevel(50)).toBe('low_confidence');
+      expect(getConfidenceLevel(40)).toBe('very_low_confidence');
+    });
+
+    it('should route high confidence to the place card and medium confidence to confirmation', () => {
+      expect(getAnalysisRoute(92, 5)).toBe('place_card');
+      expect(getAnalysisRoute(70, 5)).toBe('confirm_candidates');
+    });
+
+    it('should route low confidence or no candidates to manual search', () => {
+      expect(getAnalysisRoute(45, 5)).toBe('manual_search');
+      expect(getAnalysisRoute(95, 0)).toBe('manual_search');
+    });
+
+    it('should classify the place the user settled on', () => {
+      expect(getAnalysisRouteOutcome(0)).toBe('accepted_top_match');
+      expect(getAnalysisRouteOutcome(2)).toBe('picked_other_candidate');
+      expect(getAnalysisRouteOutcome(-1)).toBe('searched');
+    });
+  });
+});
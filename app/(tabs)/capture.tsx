@@ -14,17 +14,80 @@ import {
   Platform,
 } from 'react-native';
 import { Image } from 'expo-image';
-import { Upload, MapPin, Star, Clock, Phone, ExternalLink, Copy, ChevronDown, ChevronUp, Plus, Share, Search, RotateCcw, ArrowLeft, Camera as CameraIcon } from 'lucide-react-native';
-import { Camera as ExpoCamera, CameraView, CameraType, useCameraPermissions, FlashMode } from 'expo-camera';
+import { Upload, MapPin, Star, Clock, Phone, ExternalLink, Copy, ChevronDown, ChevronUp, Plus, Share, Search, RotateCcw, ArrowLeft, Camera as CameraIcon, CloudOff, Layers, ScanLine, History } from 'lucide-react-native';
+import { Camera as ExpoCamera, CameraView, CameraType, CameraCapturedPicture, useCameraPermissions, FlashMode } from 'expo-camera';
 import { uploadImageAsync, ImageUploadResult } from '../../lib/supabase-storage';
 import { supabase } from '../../lib/supabase';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
-import { analyzeStorefrontPhoto, generateReviewSummary } from '@/lib/openai';
-import { searchPlacesByText, searchNearbyPlaces, searchNearbyPlacesWithType, getPlaceDetails, convertGooglePlaceToPlace, reverseGeocode } from '@/lib/google-places';
-import { addPlace, getUserCollections, createCollection, addPlaceToCollection, getCurrentUser, checkHiddenGemDiscovery, markHiddenGemDiscovered, incrementHiddenGemStats, updateUserLocation, checkPlaceExists, addPlaceWithVisibility } from '@/lib/supabase';
+import { analyzeStorefrontPhoto, generateReviewSummary, PlaceReview, StorefrontAnalysis } from '@/lib/openai';
+import { AnalysisError, PartialStorefrontAnalysis } from '@/lib/analysis-schema';
+import { QuotaExceededError } from '@/lib/usage-quota';
+import { searchPlacesByText, searchNearbyPlaces, searchNearbyPlacesWithType, getPlaceDetails, convertGooglePlaceToPlace, reverseGeocode, GooglePlace } from '@/lib/google-places';
+import { addPlace, getUserCollections, createCollection, addPlaceToCollection, getCurrentUser, recordPromptOutcomes, checkHiddenGemDiscovery, markHiddenGemDiscovered, incrementHiddenGemStats, updateUserLocation, checkPlaceExists, addPlaceWithVisibility } from '@/lib/supabase';
+import { getSignNameVariants, getSignSearchText, matchesSignName, searchPlacesBySignText } from '@/lib/sign-text';
+import { calculateDistance, isGenericBusinessName, rankCandidates, RankingContext } from '@/lib/candidate-ranking';
+import {
+  AnalysisRoute,
+  CONFIRM_CANDIDATE_COUNT,
+  getAnalysisRoute,
+  getAnalysisRouteOutcome,
+  getOverallConfidence,
+} from '@/utils/progressive-analysis';
 import { useRouter } from 'expo-router';
 import { useHaptics } from '@/hooks/useHaptics';
+import { useCaptureQueue } from '@/hooks/useCaptureQueue';
+import { useCaptureDrafts } from '@/hooks/useCaptureDrafts';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useBatchCapture } from '@/hooks/useBatchCapture';
+import { useUsageQuota } from '@/hooks/useUsageQuota';
+import { useHoursSignReader } from '@/hooks/useHoursSignReader';
+import { buildHoursUpdate } from '@/lib/hours-sign';
+import { buildOpeningSchedule, getOpenStatus, getTodayHours, OPEN_STATE_COLORS, OPEN_STATE_LABELS } from '@/lib/opening-hours';
+import { HoursDiffModal } from '@/components/hours/HoursDiffModal';
+import { Weekday } from '@/types/hours';
+import { checkNetworkConnectivity } from '@/utils/error-handling';
+import { assessFrameQuality, assessPhotoQuality, BurstFrame, computePerceptualHash, selectBestFrames } from '@/utils/image-processing';
+import { analytics, AnalyticsEvent } from '@/lib/analytics';
+import type { PromptAssignment } from '@/lib/prompt-experiments';
+import type { LocalizedPlaceSummary, LocalizedStorefrontAnalysis } from '@/types/localization';
+import { PendingCapturesModal } from '@/components/capture/PendingCapturesModal';
+import { RecentCapturesModal } from '@/components/capture/RecentCapturesModal';
+import { MatchExplanation } from '@/components/capture/MatchExplanation';
+import { RedactionEditor } from '@/components/capture/RedactionEditor';
+import { detectRedactionRegions, getKeptExif, redactImage, RedactionRegion } from '@/lib/privacy-redaction';
+import { getQueuedCaptureLocation } from '@/lib/capture-queue';
+import { findDuplicateUpload, recentCaptureUploads } from '@/lib/duplicate-photos';
+import { withAuditSource } from '@/lib/audit-log';
+import { CaptureDraft, CaptureLocation, QueuedCapture } from '@/types/capture';
+
+// Single identifies one storefront, burst does the same from the best of several frames,
+// batch queues many, menu reads a menu or price board
+type CaptureMode = 'single' | 'burst' | 'batch' | 'menu';
+
+const CAPTURE_MODES: { mode: CaptureMode; label: string }[] = [
+  { mode: 'single', label: 'Single' },
+  { mode: 'burst', label: 'Burst' },
+  { mode: 'batch', label: 'Batch' },
+  { mode: 'menu', label: 'Menu' },
+];
+
+const BURST_FRAME_COUNT = 4;
+
+// Sign-text matches further away than this are other branches of the same chain
+const SIGN_MATCH_RADIUS_METERS = 1000;
+
+// The review summary as shown on the place card, when it was translated
+const localizeReviewSummary = (review: Pick<PlaceReview, 'localized'>): LocalizedPlaceSummary | undefined =>
+  review.localized && {
+    ai_summary: review.localized.summary,
+    pros: review.localized.pros,
+    cons: review.localized.cons,
+    recommendations: review.localized.recommendations,
+  };
+
+// Stable empty list so the privacy editor does not reset while it is closed
+const NO_REDACTION_REGIONS: RedactionRegion[] = [];
 
 interface AnalysisResult {
   businessName: string;
@@ -32,10 +95,12 @@ interface AnalysisResult {
   description: string;
   features: string[];
   locationText?: string;
+  signName?: string; // Business name as written on the sign, when it differs from businessName
   coordinates?: {
     latitude: number;
     longitude: number;
   };
+  localized?: LocalizedStorefrontAnalysis; // Shown instead of the English type and description
 }
 
 interface PlaceData {
@@ -55,8 +120,10 @@ interface PlaceData {
   is_open: boolean;
   hours: string;
   week_hours: string[];
+  time_zone?: string;
   phone?: string;
   website?: string;
+  localized?: LocalizedPlaceSummary; // Shown instead of the English summary; not saved with the place
 }
 
 interface Collection {
@@ -91,17 +158,69 @@ export default function CaptureScreen() {
   const [discoveryCount, setDiscoveryCount] = useState(0);
   const [showDiscoveryBanner, setShowDiscoveryBanner] = useState(false);
   const [photoLocation, setPhotoLocation] = useState<{latitude: number; longitude: number; direction?: number; accuracy?: number} | null>(null);
+  const [rankingContext, setRankingContext] = useState<RankingContext | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [showPendingCaptures, setShowPendingCaptures] = useState(false);
+  const [showRecentCaptures, setShowRecentCaptures] = useState(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('single');
+  const [analysisRoute, setAnalysisRoute] = useState<AnalysisRoute | null>(null);
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialStorefrontAnalysis | null>(null);
+  const [privacyReview, setPrivacyReview] = useState<{ uri: string; regions: RedactionRegion[] } | null>(null);
   const cameraRef = useRef<CameraView>(null);
   const router = useRouter();
   const mounted = useRef(true);
   const abortControllerRef = useRef<AbortController | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const draftIdRef = useRef<string | null>(null);
+  // How the current capture was routed after analysis, until the user settles on a place
+  const routedAnalysisRef = useRef<{
+    route: AnalysisRoute;
+    confidence: number;
+    candidateIds: string[];
+    wrongPlaceTaps: number;
+    prompts: PromptAssignment[];
+  } | null>(null);
+  const privacyReviewResolverRef = useRef<((regions: RedactionRegion[] | null) => void) | null>(null);
+  // Closest-radius place search started from the streamed name, before the analysis finishes
+  const earlyPlaceSearchRef = useRef<{ key: string; places: Promise<GooglePlace[]> } | null>(null);
   
   // Haptic feedback
   const haptics = useHaptics();
 
+  // Hours read from a photo of the door sign, for places with no Google hours
+  const { isReading: isReadingHours, proposal: hoursProposal, readHoursSign, clearProposal: clearHoursProposal } = useHoursSignReader();
+
+  // Offline capture queue
+  const {
+    items: queuedCaptures,
+    pendingCount: pendingCaptureCount,
+    isReplaying: isReplayingCaptures,
+    enqueue: enqueueCapture,
+    replay: replayCaptures,
+    retry: retryQueuedCapture,
+    remove: removeQueuedCapture,
+  } = useCaptureQueue();
+
+  // Drafts of unsaved captures, listed under "Recent captures"
+  const { settings, isLoading: isLoadingSettings } = useSettings();
+  const {
+    drafts: captureDraftList,
+    createDraft,
+    updateDraft,
+    removeDraft,
+  } = useCaptureDrafts({ retentionDays: settings.draftRetentionDays, ready: !isLoadingSettings });
+
+  // Batch ("walk the street") capture session
+  const {
+    items: batchItems,
+    inProgressCount: batchInProgressCount,
+    addCapture: addBatchCapture,
+  } = useBatchCapture();
+
+  // Remaining monthly AI analyses, reported by /api/openai
+  const { quota: aiQuota, isLow: isAiQuotaLow } = useUsageQuota('ai_requests');
+
   useEffect(() => {
     mounted.current = true;
     abortControllerRef.current = new AbortController();
@@ -296,103 +415,91 @@ export default function CaptureScreen() {
     }
   };
 
-  const calculateBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const lat1Rad = lat1 * Math.PI / 180;
-    const lat2Rad = lat2 * Math.PI / 180;
-    
-    const y = Math.sin(dLng) * Math.cos(lat2Rad);
-    const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLng);
-    
-    let bearing = Math.atan2(y, x) * 180 / Math.PI;
-    bearing = (bearing + 360) % 360; // Normalize to 0-360
-    
-    return bearing;
+  const startCaptureDraft = async (
+    imageUri: string,
+    thumbnailUri?: string,
+    location?: CaptureLocation | null,
+    perceptualHash?: string | null
+  ) => {
+    const draft = await createDraft({ imageUri, thumbnailUri, location, perceptualHash });
+    draftIdRef.current = draft.id;
   };
 
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  // Defaults to the current capture; analyzePhoto passes the draft it started with so a
+  // result that lands after resetCapture still reaches its draft
+  const saveDraftProgress = (
+    updates: Partial<Omit<CaptureDraft, 'id' | 'createdAt'>>,
+    draftId: string | null = draftIdRef.current
+  ) => {
+    if (draftId) {
+      updateDraft(draftId, updates);
+    }
   };
 
-  const filterPlacesByDirection = (places: any[], photoLocation: any, cameraDirection: number, tolerance: number = 30): any[] => {
-    if (!photoLocation.direction || places.length === 0) return places;
-    
-    console.log(`🧭 Filtering places by camera direction: ${cameraDirection}° (±${tolerance}°) with distance weighting`);
-    
-    // Score each place based on direction accuracy and distance
-    const scoredPlaces = places.map(place => {
-      const bearingToPlace = calculateBearing(
-        photoLocation.latitude, 
-        photoLocation.longitude,
-        place.geometry.location.lat,
-        place.geometry.location.lng
-      );
-      
-      const distanceToPlace = calculateDistance(
-        photoLocation.latitude,
-        photoLocation.longitude,
-        place.geometry.location.lat,
-        place.geometry.location.lng
-      );
-      
-      // Calculate angular difference (handling wraparound at 0/360)
-      let angleDiff = Math.abs(bearingToPlace - cameraDirection);
-      if (angleDiff > 180) angleDiff = 360 - angleDiff;
-      
-      const inDirection = angleDiff <= tolerance;
-      
-      // Scoring: Lower is better
-      // Direction score: 0-30 (lower angle diff = better score)
-      // Distance score: 0-100m normalized (closer = better score)
-      const directionScore = angleDiff; // 0-30 range
-      const distanceScore = Math.min(distanceToPlace, 100); // Cap at 100m
-      
-      // Combined score: 70% direction, 30% distance
-      const combinedScore = (directionScore * 0.7) + (distanceScore * 0.3);
-      
-      console.log(`📍 ${place.name}: bearing ${bearingToPlace.toFixed(1)}°, diff ${angleDiff.toFixed(1)}°, dist ${distanceToPlace.toFixed(1)}m, score ${combinedScore.toFixed(1)}, ${inDirection ? '✅ IN' : '❌ OUT'} direction`);
-      
-      return {
-        ...place,
-        directionScore,
-        distanceScore,
-        combinedScore,
-        inDirection,
-        distance: distanceToPlace,
-        angleDiff
-      };
-    });
-    
-    // Filter places within direction tolerance and sort by combined score
-    const filteredPlaces = scoredPlaces
-      .filter(place => place.inDirection)
-      .sort((a, b) => a.combinedScore - b.combinedScore); // Lower score = better
-    
-    console.log(`🎯 Direction filtering: ${filteredPlaces.length}/${places.length} places in camera direction`);
-    
-    if (filteredPlaces.length > 0) {
-      console.log(`🥇 Top candidate: ${filteredPlaces[0].name} (${filteredPlaces[0].distance.toFixed(1)}m, ${filteredPlaces[0].angleDiff.toFixed(1)}° diff)`);
+  // Records where the user ended up relative to the routed candidates, once per capture,
+  // against the prompt versions that produced the analysis
+  const recordRouteOutcome = async (selectedPlaceId?: string) => {
+    const routed = routedAnalysisRef.current;
+    if (!routed) return;
+    routedAnalysisRef.current = null;
+
+    const selectedRank = selectedPlaceId ? routed.candidateIds.indexOf(selectedPlaceId) : -1;
+    const outcome = getAnalysisRouteOutcome(selectedRank);
+    analytics.trackAnalysisRouteOutcome(
+      routed.route,
+      routed.confidence,
+      outcome,
+      selectedRank,
+      routed.wrongPlaceTaps,
+      routed.prompts.map(prompt => prompt.versionId)
+    );
+
+    const user = await getCurrentUser();
+    if (!user) return;
+    await recordPromptOutcomes(routed.prompts.map(prompt => ({
+      user_id: user.id,
+      task: prompt.task,
+      prompt_version: prompt.versionId,
+      experiment_id: prompt.experimentId ?? null,
+      route: routed.route,
+      outcome,
+      selected_rank: selectedRank,
+      wrong_place_taps: routed.wrongPlaceTaps,
+      confidence: routed.confidence,
+    })));
+  };
+
+  // The place was saved, so there is nothing left to resume
+  const completeCaptureDraft = async () => {
+    recordRouteOutcome(placeData?.google_place_id);
+    const draftId = draftIdRef.current;
+    draftIdRef.current = null;
+    if (draftId) {
+      await removeDraft(draftId);
     }
-    
-    // Return original place objects (without scoring metadata)
-    return filteredPlaces.map(({ directionScore, distanceScore, combinedScore, inDirection, distance, angleDiff, ...place }) => place);
   };
 
-  const analyzePhoto = async (imageUri: string, imagePickerAsset?: any) => {
+  const takeEarlyPlaceSearch = () => {
+    const search = earlyPlaceSearchRef.current;
+    earlyPlaceSearchRef.current = null;
+    return search;
+  };
+
+  const analyzePhoto = async (
+    imageUri: string,
+    imagePickerAsset?: any,
+    replayed?: { location: CaptureLocation | null; analysis?: StorefrontAnalysis; refresh?: boolean },
+    alternateImageUri?: string
+  ) => {
     setProcessingState('analyzing');
+    const draftId = draftIdRef.current;
     try {
       console.log('Starting photo analysis...');
       
-      // First, try to extract location from photo metadata
-      const extractedPhotoLocation = await extractImageLocation(imageUri, imagePickerAsset);
+      // First, try to extract location from photo metadata (queued captures carry it along)
+      const extractedPhotoLocation = replayed
+        ? replayed.location
+        : await extractImageLocation(imageUri, imagePickerAsset);
       console.log('📍 Photo location from metadata:', extractedPhotoLocation);
       
       // Store photo location in state for later use
@@ -417,6 +524,7 @@ export default function CaptureScreen() {
         Alert.alert('Location Required', 'Please enable location services or manually enter an address to identify places.');
         return;
       }
+      saveDraftProgress({ location: extractedPhotoLocation || searchLocation }, draftId);
 
       // 🎯 CHECK FOR DUPLICATE PLACES FIRST!
       console.log('🔍 Checking if place already exists...');
@@ -475,19 +583,52 @@ export default function CaptureScreen() {
         throw new Error('Location not available for analysis.');
       }
       const locationString = `${searchLocation.latitude},${searchLocation.longitude}`;
-      const analysis = await analyzeStorefrontPhoto(imageUri, locationString);
+      earlyPlaceSearchRef.current = null;
+      setPartialAnalysis(null);
+      const analysis = replayed?.analysis ?? await analyzeStorefrontPhoto(imageUri, locationString, {
+        refresh: replayed?.refresh,
+        alternateImageUri,
+        language: settings.language,
+        onPartial: partial => {
+          if (mounted.current) {
+            setPartialAnalysis(partial);
+          }
+          if (partial.businessType && partial.businessName && !earlyPlaceSearchRef.current) {
+            console.log(`⚡ Starting place search for streamed name "${partial.businessName}"`);
+            earlyPlaceSearchRef.current = {
+              key: `${partial.businessName}|${partial.businessType}`,
+              places: searchNearbyPlacesWithType(
+                searchLocation.latitude,
+                searchLocation.longitude,
+                partial.businessName,
+                partial.businessType,
+                50
+              ),
+            };
+          }
+        },
+      });
       console.log('OpenAI analysis result:', analysis);
+      if (mounted.current) {
+        setPartialAnalysis(null);
+      }
       
+      const result: AnalysisResult = {
+        businessName: analysis.businessName || 'Unknown Business',
+        businessType: analysis.businessType,
+        description: analysis.description,
+        features: analysis.features,
+        locationText: analysis.locationText,
+        signName: analysis.signText?.businessName?.original !== analysis.businessName
+          ? analysis.signText?.businessName?.original
+          : undefined,
+        coordinates: analysis.coordinates,
+        localized: analysis.localized
+      };
       if (mounted.current) {
-        setAnalysisResult({
-          businessName: analysis.businessName || 'Unknown Business',
-          businessType: analysis.businessType,
-          description: analysis.description,
-          features: analysis.features,
-          locationText: analysis.locationText,
-          coordinates: analysis.coordinates
-        });
+        setAnalysisResult(result);
       }
+      saveDraftProgress({ analysisResult: result }, draftId);
 
       // Log location text if found for debugging
       if (analysis.locationText) {
@@ -501,13 +642,17 @@ export default function CaptureScreen() {
       const businessType = analysis.businessType || 'Business';
       
       // Step 1: Enhanced nearby search with business type filtering (50m radius)
-      let places = await searchNearbyPlacesWithType(
-        searchLocation.latitude,
-        searchLocation.longitude,
-        businessName,
-        businessType,
-        50 // 50 meter radius - very precise
-      );
+      // Reuses the search started from the stream unless the sign text changed the name
+      const earlySearch = takeEarlyPlaceSearch();
+      let places = earlySearch?.key === `${businessName}|${businessType}`
+        ? await earlySearch.places
+        : await searchNearbyPlacesWithType(
+            searchLocation.latitude,
+            searchLocation.longitude,
+            businessName,
+            businessType,
+            50 // 50 meter radius - very precise
+          );
       console.log(`📍 Found ${places.length} places within 50m using enhanced search`);
       
       // Step 2: If no results, expand to 200m radius
@@ -536,7 +681,33 @@ export default function CaptureScreen() {
         console.log(`📍 Found ${places.length} places within 500m`);
       }
       
-      // Step 4: Final fallback to text search with location bias
+      // Step 4: Search by the sign text (original script, transliterated and translated names)
+      // unless a nearby result already matches the sign
+      const signNameVariants = getSignNameVariants(analysis.signText);
+      if (signNameVariants.length > 0 && !places.some(place => matchesSignName(place.name, signNameVariants))) {
+        console.log('🔤 Searching by sign text:', signNameVariants);
+        const signPlaces = await searchPlacesBySignText(
+          analysis.signText,
+          searchLocation.latitude,
+          searchLocation.longitude
+        );
+        const signMatches = signPlaces.filter(place =>
+          matchesSignName(place.name, signNameVariants) &&
+          calculateDistance(
+            searchLocation.latitude,
+            searchLocation.longitude,
+            place.geometry.location.lat,
+            place.geometry.location.lng
+          ) <= SIGN_MATCH_RADIUS_METERS
+        );
+        console.log(`📍 Found ${signMatches.length} places matching the sign text`);
+        places = [
+          ...signMatches,
+          ...places.filter(place => !signMatches.some(match => match.place_id === place.place_id)),
+        ];
+      }
+
+      // Step 5: Final fallback to text search with location bias
       if (places.length === 0) {
         console.log('🌐 Final fallback to text search with location bias...');
         
@@ -559,36 +730,47 @@ export default function CaptureScreen() {
         console.log(`📍 Found ${places.length} places using text search fallback`);
       }
 
-      // Step 5: Apply camera direction filtering if we have direction data
-      if (places.length > 0 && extractedPhotoLocation && extractedPhotoLocation.direction !== undefined) {
-        console.log('🧭 Applying camera direction filtering...');
-        const originalCount = places.length;
-        const originalPlaces = [...places]; // Keep copy of original results
-        places = filterPlacesByDirection(places, extractedPhotoLocation, extractedPhotoLocation.direction, 45); // Increased tolerance to 45°
-        
-        // If direction filtering eliminated all results, fall back to original nearby results
-        if (places.length === 0) {
-          console.log('⚠️ Direction filtering eliminated all results, using closest nearby places instead');
-          
-          // Sort original places by distance and take top 5
-          const sortedByDistance = originalPlaces.map(place => {
-            const distance = calculateDistance(
-              searchLocation.latitude,
-              searchLocation.longitude,
-              place.geometry.location.lat,
-              place.geometry.location.lng
-            );
-            return { ...place, distance };
-          }).sort((a, b) => a.distance - b.distance);
-          
-          places = sortedByDistance.slice(0, 5); // Take 5 closest places
-          console.log(`🎯 Using ${places.length} closest nearby places as fallback`);
-        } else {
-          console.log(`🎯 Direction filtering reduced results from ${originalCount} to ${places.length}`);
-        }
+      // Step 6: Rank candidates by name, type, camera direction and distance
+      const context: RankingContext = {
+        businessName,
+        businessType,
+        signText: analysis.signText,
+        location: extractedPhotoLocation || searchLocation,
+      };
+      setRankingContext(context);
+      if (places.length > 0) {
+        const rankedPlaces = rankCandidates(places, context);
+        rankedPlaces.forEach(candidate => {
+          console.log(`📍 ${candidate.place.name}: score ${candidate.score}`, candidate.signals.map(signal => signal.detail));
+        });
+        places = rankedPlaces.map(candidate => candidate.place);
+      }
+      saveDraftProgress({ rankingContext: context, suggestedPlaces: places }, draftId);
+
+      // Step 7: Route on how sure the analysis is; a confidently read sign vouches for the name
+      const confidence = getOverallConfidence({
+        ...analysis.confidence,
+        nameRecognition: Math.max(
+          analysis.confidence.nameRecognition,
+          analysis.signText?.businessName?.confidence ?? 0
+        ),
+      });
+      const route = getAnalysisRoute(confidence, places.length);
+      const routedPlaces = route === 'confirm_candidates' ? places.slice(0, CONFIRM_CANDIDATE_COUNT) : places;
+      console.log(`🧭 Routing to ${route} (confidence ${confidence.toFixed(1)}, ${places.length} candidates)`);
+      analytics.trackAnalysisRoute(route, confidence, places.length);
+      routedAnalysisRef.current = {
+        route,
+        confidence,
+        candidateIds: routedPlaces.map(place => place.place_id),
+        wrongPlaceTaps: 0,
+        prompts: [analysis.prompt, analysis.signText?.prompt].filter((prompt): prompt is PromptAssignment => !!prompt),
+      };
+      if (mounted.current) {
+        setAnalysisRoute(route);
       }
 
-      if (places.length > 0) {
+      if (route === 'place_card') {
         // Get detailed information for the first (most likely) match
         const topPlace = places[0];
         console.log('Getting details for top place:', topPlace.name);
@@ -619,7 +801,8 @@ export default function CaptureScreen() {
             reviewSummary = await generateReviewSummary(
               placeDetails.name,
               businessType,
-              placeDetails.reviews
+              placeDetails.reviews,
+              settings.language
             );
           } else {
             console.log('No reviews found, using mock summary');
@@ -647,16 +830,19 @@ export default function CaptureScreen() {
             pros: reviewSummary.pros,
             cons: reviewSummary.cons,
             recommendations: reviewSummary.recommendations,
+            localized: localizeReviewSummary(reviewSummary),
             google_place_id: placeDetails.place_id,
             is_open: placeDetails.opening_hours?.open_now || false,
             hours: placeDetails.opening_hours?.open_now ? 'Open now' : 'Closed',
             week_hours: placeDetails.opening_hours?.weekday_text || [],
+            time_zone: placeDetails.time_zone,
             phone: placeDetails.formatted_phone_number,
             website: placeDetails.website
           };
 
           setPlaceData(formattedPlace);
           setSuggestedPlaces(places.slice(1, 6)); // Show other suggestions
+          saveDraftProgress({ selectedPlace: formattedPlace, suggestedPlaces: places.slice(1, 6) }, draftId);
           
           // Show completion state briefly before showing results
           setProcessingState('complete');
@@ -668,9 +854,15 @@ export default function CaptureScreen() {
           
           haptics.placeDiscovered(); // Haptic feedback when place is found
         }
-      } else {
-        console.log('No places found, showing place selection');
-        setSuggestedPlaces([]);
+      } else if (mounted.current) {
+        // Medium confidence: confirm one of the top candidates. Low confidence or no
+        // candidates: manual search, starting from the text read off the sign.
+        const searchText = route === 'manual_search'
+          ? getSignSearchText(analysis.signText) || (isGenericBusinessName(businessName) ? '' : businessName)
+          : '';
+        console.log(`📋 Showing ${routedPlaces.length} candidates for confirmation`, searchText ? `(search: "${searchText}")` : '');
+        setSuggestedPlaces(routedPlaces);
+        setSearchQuery(searchText);
         setShowPlaceSelection(true);
         
         // Show completion state briefly before showing place selection
@@ -684,7 +876,14 @@ export default function CaptureScreen() {
     } catch (error) {
       console.error('Error analyzing photo:', error);
       haptics.errorOccurred(); // Haptic feedback on error
-      Alert.alert('Analysis Failed', 'Failed to analyze the photo. Please try again.');
+      if (error instanceof QuotaExceededError) {
+        showQuotaExceededAlert(error);
+        return;
+      }
+      Alert.alert(
+        'Analysis Failed',
+        error instanceof AnalysisError ? error.userMessage : 'Failed to analyze the photo. Please try again.'
+      );
     } finally {
       if (mounted.current) {
         setProcessingState('idle');
@@ -692,24 +891,274 @@ export default function CaptureScreen() {
     }
   };
 
-  const takePicture = async () => {
+  // Proxy routes answer 429 once the monthly allowance for the user's tier is used up
+  const showQuotaExceededAlert = (error: QuotaExceededError) => {
+    Alert.alert('Monthly Limit Reached', error.message, [
+      { text: 'OK', style: 'cancel' },
+      { text: 'Upgrade', onPress: () => router.push('/subscription') },
+    ]);
+  };
+
+  // Persist the capture locally so it can be analyzed once we're back online
+  // The photo was already redacted, so replay uploads it as-is with the EXIF fields it keeps
+  const queueCaptureForLater = async (redactedUri: string, imagePickerAsset?: any) => {
+    const exifLocation = await extractImageLocation(redactedUri, imagePickerAsset);
+    await enqueueCapture({
+      imageUri: redactedUri,
+      location: exifLocation || currentLocation,
+      heading: exifLocation?.direction,
+      redacted: true,
+      keptExif: getKeptExif(imagePickerAsset?.exif),
+      capturedAt: Date.now(),
+    });
+
+    haptics.buttonPress();
+    Alert.alert(
+      'Saved for Later',
+      "You're offline. This capture was saved and will be analyzed automatically when you're back online.",
+      [
+        { text: 'View Pending', onPress: () => setShowPendingCaptures(true) },
+        { text: 'OK', style: 'default' }
+      ]
+    );
+  };
+
+  const handleReviewQueuedCapture = async (item: QueuedCapture) => {
+    if (!item.fullUrl) return;
+
+    setShowPendingCaptures(false);
+    setCapturedImage(item.fullUrl);
+    setCapturedImageThumbnail(item.thumbnailUrl || null);
+    const location = getQueuedCaptureLocation(item);
+    await startCaptureDraft(item.fullUrl, item.thumbnailUrl, location);
+    await analyzePhoto(item.fullUrl, undefined, {
+      location,
+      analysis: item.analysis,
+    });
+    await removeQueuedCapture(item.id);
+  };
+
+  // In batch mode the photo is handed to the batch session and the camera stays open
+  const takeBatchPicture = async () => {
     if (!cameraRef.current) return;
 
-    setProcessingState('uploading');
     try {
       haptics.photoCapture();
-      
+
       const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.7, // Reduced for faster processing - will be further optimized in upload
+        quality: 0.7,
         base64: false,
         exif: true,
       });
+
+      if (photo && mounted.current) {
+        // Same quality gate and privacy review as a single capture before anything is uploaded
+        if (!(await confirmPhotoQuality(photo.uri, 'camera'))) {
+          return;
+        }
+        const redacted = await reviewPhotoPrivacy(photo.uri);
+        if (!redacted) {
+          return;
+        }
+
+        const exifLocation = await extractImageLocation(photo.uri, photo);
+        addBatchCapture(redacted.uri, exifLocation || currentLocation, {
+          redacted: true,
+          keptExif: getKeptExif(photo.exif),
+        });
+      }
+    } catch (error) {
+      console.error('Error taking batch picture:', error);
+      Alert.alert('Camera Error', 'Failed to take picture. Please try again.');
+    }
+  };
+
+  // Menu photos go to the menu editor, which extracts items and attaches them to a place
+  const takeMenuPicture = async () => {
+    if (!cameraRef.current) return;
+
+    try {
+      haptics.photoCapture();
+
+      const photo = await cameraRef.current.takePictureAsync({
+        quality: 0.8,
+        base64: false,
+      });
+
+      if (photo && mounted.current) {
+        router.push({ pathname: '/menu-editor', params: { imageUri: photo.uri } });
+      }
+    } catch (error) {
+      console.error('Error taking menu picture:', error);
+      Alert.alert('Camera Error', 'Failed to take picture. Please try again.');
+    }
+  };
+
+  // On-device quality gate, so a dark or blurry photo costs a retake instead of an AI call.
+  // Resolves true when the photo passes or the user chooses to analyze it anyway.
+  const confirmPhotoQuality = async (localUri: string, source: 'camera' | 'library'): Promise<boolean> => {
+    const report = await assessPhotoQuality(localUri);
+    if (!report || report.passed) return true;
+
+    const issues = report.issues.map(issue => issue.type);
+    console.log('📸 Photo failed quality check:', issues, report.metrics);
+    analytics.trackPhotoQualityRejection(issues, { ...report.metrics }, source);
+    haptics.errorOccurred();
+
+    return new Promise(resolve => {
+      Alert.alert(
+        'Retake Photo?',
+        report.issues.map(issue => issue.message).join('\n\n'),
+        [
+          {
+            text: source === 'camera' ? 'Retake' : 'Choose Another',
+            style: 'cancel',
+            onPress: () => resolve(false),
+          },
+          {
+            text: 'Analyze Anyway',
+            onPress: () => {
+              analytics.track(AnalyticsEvent.PHOTO_QUALITY_OVERRIDDEN, { issues, source });
+              resolve(true);
+            },
+          },
+        ],
+        { cancelable: false }
+      );
+    });
+  };
+
+  // Blur faces and plates before anything is uploaded: detector suggestions are shown for
+  // review unless the user turned that off. Resolves to null when the user retakes instead.
+  const reviewPhotoPrivacy = async (localUri: string): Promise<{ uri: string; regions: RedactionRegion[] } | null> => {
+    const detected = await detectRedactionRegions(localUri);
+    const regions = settings.reviewPhotoPrivacy
+      ? await new Promise<RedactionRegion[] | null>(resolve => {
+          privacyReviewResolverRef.current = resolve;
+          setPrivacyReview({ uri: localUri, regions: detected });
+        })
+      : detected;
+    if (!regions) return null;
+
+    return { uri: await redactImage(localUri, regions), regions };
+  };
+
+  const resolvePrivacyReview = (regions: RedactionRegion[] | null) => {
+    setPrivacyReview(null);
+    privacyReviewResolverRef.current?.(regions);
+    privacyReviewResolverRef.current = null;
+  };
+
+  // A retake of the same shot (e.g. after a failed analysis) can reuse the recent capture's
+  // upload instead of storing another copy of the image
+  const uploadCapturedPhoto = async (
+    redactedUri: string,
+    exif?: Record<string, unknown> | null
+  ): Promise<ImageUploadResult | null> => {
+    const perceptualHash = await computePerceptualHash(redactedUri);
+    const duplicate = perceptualHash
+      ? findDuplicateUpload(perceptualHash, recentCaptureUploads(captureDraftList))
+      : null;
+
+    if (duplicate) {
+      const reuse = await new Promise<boolean>(resolve => {
+        Alert.alert(
+          'Same Photo as a Recent Capture',
+          'This looks like a photo you already uploaded. Use that upload instead of uploading it again?',
+          [
+            { text: 'Upload Again', onPress: () => resolve(false) },
+            { text: 'Use Existing', onPress: () => resolve(true) },
+          ],
+          { cancelable: false }
+        );
+      });
+      analytics.trackDuplicatePhoto(duplicate.source, duplicate.distance, reuse);
+      if (reuse) {
+        console.log('♻️ Reusing upload from recent capture:', duplicate.id);
+        return {
+          fullUrl: duplicate.fullUrl,
+          thumbnailUrl: duplicate.thumbnailUrl || duplicate.fullUrl,
+          perceptualHash,
+        };
+      }
+    }
+
+    return uploadImageAsync(redactedUri, { redacted: true, keptExif: getKeptExif(exif), perceptualHash });
+  };
+
+  // Several frames in quick succession; keeps the sharpest, best-exposed one, plus a
+  // runner-up with different content in case the sign is only legible there
+  const captureBurst = async (): Promise<{ photo?: CameraCapturedPicture; alternateUri?: string }> => {
+    const frames: (BurstFrame & { photo: CameraCapturedPicture })[] = [];
+    for (let i = 0; i < BURST_FRAME_COUNT && cameraRef.current; i++) {
+      const photo = await cameraRef.current.takePictureAsync({
+        quality: 0.7,
+        base64: false,
+        exif: true,
+      });
+      if (photo) {
+        frames.push({ uri: photo.uri, photo, quality: null });
+      }
+    }
+    if (frames.length === 0) return {};
+
+    for (const frame of frames) {
+      frame.quality = await assessFrameQuality(frame.uri);
+    }
+    const { best, alternate } = selectBestFrames(frames);
+    console.log('📸 Burst frame scores:', frames.map(frame => frame.quality?.score.toFixed(2) ?? 'n/a'));
+    if (alternate) {
+      console.log('📸 Sending a second frame with different content for the sign');
+    }
+    return { photo: best.photo, alternateUri: alternate?.uri };
+  };
+
+  const takePicture = async () => {
+    if (!cameraRef.current) return;
+
+    if (captureMode === 'batch') {
+      await takeBatchPicture();
+      return;
+    }
+    if (captureMode === 'menu') {
+      await takeMenuPicture();
+      return;
+    }
+
+    setProcessingState('uploading');
+    try {
+      haptics.photoCapture();
+      
+      const { photo, alternateUri } = captureMode === 'burst'
+        ? await captureBurst()
+        : {
+            photo: await cameraRef.current.takePictureAsync({
+              quality: 0.7, // Reduced for faster processing - will be further optimized in upload
+              base64: false,
+              exif: true,
+            }),
+            alternateUri: undefined,
+          };
       
       if (photo && mounted.current) {
         const localUri = photo.uri;
+
+        if (!(await confirmPhotoQuality(localUri, 'camera'))) {
+          return;
+        }
+
+        const redacted = await reviewPhotoPrivacy(localUri);
+        if (!redacted) {
+          return;
+        }
+        
+        if (!(await checkNetworkConnectivity())) {
+          await queueCaptureForLater(redacted.uri, photo);
+          return;
+        }
         
         // Upload to Supabase (both thumbnail and full-size)
-        const uploadResult = await uploadImageAsync(localUri);
+        const uploadResult = await uploadCapturedPhoto(redacted.uri, photo.exif);
         
         if (!uploadResult) {
           throw new Error('Failed to upload image');
@@ -718,7 +1167,10 @@ export default function CaptureScreen() {
         // Store both URLs - full-size for analysis, thumbnail for later use
         setCapturedImage(uploadResult.fullUrl);
         setCapturedImageThumbnail(uploadResult.thumbnailUrl);
-        await analyzePhoto(uploadResult.fullUrl, photo);
+        await startCaptureDraft(uploadResult.fullUrl, uploadResult.thumbnailUrl, undefined, uploadResult.perceptualHash);
+        // The second burst frame gets its own privacy review; cancelling it only drops that frame
+        const alternate = alternateUri ? await reviewPhotoPrivacy(alternateUri) : null;
+        await analyzePhoto(uploadResult.fullUrl, photo, undefined, alternate?.uri);
       }
     } catch (error) {
       console.error('Error taking or uploading picture:', error);
@@ -748,9 +1200,23 @@ export default function CaptureScreen() {
 
       if (mounted.current) {
         const localUri = result.assets[0].uri;
+
+        if (!(await confirmPhotoQuality(localUri, 'library'))) {
+          return;
+        }
+
+        const redacted = await reviewPhotoPrivacy(localUri);
+        if (!redacted) {
+          return;
+        }
+        
+        if (!(await checkNetworkConnectivity())) {
+          await queueCaptureForLater(redacted.uri, result.assets[0]);
+          return;
+        }
         
         // Upload to Supabase (both thumbnail and full-size)
-        const uploadResult = await uploadImageAsync(localUri);
+        const uploadResult = await uploadCapturedPhoto(redacted.uri, result.assets[0].exif);
         
         if (!uploadResult) {
           throw new Error('Failed to upload image');
@@ -759,6 +1225,7 @@ export default function CaptureScreen() {
         // Store both URLs - full-size for analysis, thumbnail for later use
         setCapturedImage(uploadResult.fullUrl);
         setCapturedImageThumbnail(uploadResult.thumbnailUrl);
+        await startCaptureDraft(uploadResult.fullUrl, uploadResult.thumbnailUrl, undefined, uploadResult.perceptualHash);
         await analyzePhoto(uploadResult.fullUrl, result.assets[0]);
       }
     } catch (error) {
@@ -783,7 +1250,8 @@ export default function CaptureScreen() {
           reviewSummary = await generateReviewSummary(
             placeDetails.name,
             analysisResult.businessType,
-            placeDetails.reviews
+            placeDetails.reviews,
+            settings.language
           );
         } else {
           reviewSummary = {
@@ -810,20 +1278,28 @@ export default function CaptureScreen() {
           pros: reviewSummary.pros,
           cons: reviewSummary.cons,
           recommendations: reviewSummary.recommendations,
+          localized: localizeReviewSummary(reviewSummary),
           google_place_id: placeDetails.place_id,
           is_open: placeDetails.opening_hours?.open_now || false,
           hours: placeDetails.opening_hours?.open_now ? 'Open now' : 'Closed',
           week_hours: placeDetails.opening_hours?.weekday_text || [],
+          time_zone: placeDetails.time_zone,
           phone: placeDetails.formatted_phone_number,
           website: placeDetails.website
         };
 
         setPlaceData(formattedPlace);
+        saveDraftProgress({ selectedPlace: formattedPlace });
+        recordRouteOutcome(placeDetails.place_id);
         setShowPlaceSelection(false);
         setProcessingState('complete');
       }
     } catch (error) {
       console.error('Error selecting place:', error);
+      if (error instanceof QuotaExceededError) {
+        showQuotaExceededAlert(error);
+        return;
+      }
       Alert.alert('Error', 'Failed to get place details. Please try again.');
     }
   };
@@ -838,6 +1314,10 @@ export default function CaptureScreen() {
       setShowAddressInput(false);
     } catch (error) {
       console.error('Error searching manual address:', error);
+      if (error instanceof QuotaExceededError) {
+        showQuotaExceededAlert(error);
+        return;
+      }
       Alert.alert('Search Error', 'Failed to search for the address. Please try again.');
     } finally {
       setIsLoading(false);
@@ -854,6 +1334,10 @@ export default function CaptureScreen() {
         setShowAddressInput(false);
       } catch (error) {
         console.error('Error using current location:', error);
+        if (error instanceof QuotaExceededError) {
+          showQuotaExceededAlert(error);
+          return;
+        }
         Alert.alert('Location Error', 'Failed to search using current location. Please try again.');
       } finally {
         setIsLoading(false);
@@ -861,20 +1345,21 @@ export default function CaptureScreen() {
     }
   };
 
-  const getTodayHours = (weekHours: string[]): string => {
-    if (!weekHours || weekHours.length === 0) return 'Hours not available';
-    
-    const today = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const dayIndex = today === 0 ? 6 : today - 1; // Convert to Monday = 0 format
-    
-    if (weekHours[dayIndex]) {
-      const dayHours = weekHours[dayIndex];
-      // Extract just the hours part (after the colon)
-      const hoursMatch = dayHours.match(/:\s*(.+)/);
-      return hoursMatch ? hoursMatch[1] : dayHours;
-    }
-    
-    return 'Hours not available';
+  const handleConfirmSignHours = (acceptedDays: Weekday[]) => {
+    if (!placeData || !hoursProposal) return;
+
+    const update = buildHoursUpdate(
+      hoursProposal.extraction,
+      hoursProposal.currentWeekHours,
+      hoursProposal.proposedWeekHours,
+      acceptedDays
+    );
+    const updatedPlace = { ...placeData, ...update };
+    setPlaceData(updatedPlace);
+    saveDraftProgress({ selectedPlace: updatedPlace });
+    setShowFullHours(true);
+    clearHoursProposal();
+    haptics.notificationSuccess();
   };
 
   const makePhoneCall = (phoneNumber: string) => {
@@ -959,11 +1444,7 @@ export default function CaptureScreen() {
       };
 
       console.log('📝 Collection data:', collectionData);
-      const { data, error } = await supabase
-        .from('collections')
-        .insert(collectionData)
-        .select()
-        .single();
+      const { data, error } = await createCollection(collectionData);
       
       if (error) {
         console.error('❌ Error creating collection:', error);
@@ -996,6 +1477,9 @@ export default function CaptureScreen() {
       Alert.alert('Error', 'No place data available.');
       return;
     }
+
+    const collection = collections.find(c => c.id === collectionId);
+    saveDraftProgress({ collection: { id: collectionId, name: collection?.name || 'Collection' } });
     
     try {
       console.log('📁 Adding place to collection:', collectionId);
@@ -1023,12 +1507,13 @@ export default function CaptureScreen() {
         is_open: placeData.is_open,
         hours: placeData.hours,
         week_hours: placeData.week_hours,
+        time_zone: placeData.time_zone,
         added_by: user.id,
         is_public: true
       };
 
       console.log('📁 Adding place to database first:', placeToAdd);
-      const { data: addedPlace, error } = await supabase.from('places').insert(placeToAdd).select().single();
+      const { data: addedPlace, error } = await withAuditSource(supabase.from('places').insert(placeToAdd).select().single(), 'capture');
       
       if (error) {
         console.error('❌ Error adding place:', error);
@@ -1055,6 +1540,7 @@ export default function CaptureScreen() {
       }
 
       console.log('✅ Added to collection successfully:', collectionPlaceData);
+      await completeCaptureDraft();
       haptics.addToCollection(); // Haptic feedback for successful addition
       Alert.alert('Success', 'Place added to collection successfully!');
       
@@ -1077,6 +1563,10 @@ export default function CaptureScreen() {
     try {
       console.log('🔄 User indicated wrong place, loading all nearby places...');
       setIsLoading(true);
+      if (routedAnalysisRef.current) {
+        routedAnalysisRef.current.wrongPlaceTaps += 1;
+      }
+      setAnalysisRoute(null);
       
       // Use stored photo location if available, otherwise analysis coordinates, otherwise current location
       const searchLocation = photoLocation || (analysisResult?.coordinates) || currentLocation;
@@ -1114,25 +1604,24 @@ export default function CaptureScreen() {
         return;
       }
 
-      // Sort places by distance
-      const placesWithDistance = allNearbyPlaces.map(place => {
-        const distance = calculateDistance(
-          searchLocation.latitude,
-          searchLocation.longitude,
-          place.geometry.location.lat,
-          place.geometry.location.lng
-        );
-        return { ...place, distance };
-      }).sort((a, b) => a.distance - b.distance);
+      // Best matches for the analysis first (plain distance order when there is no analysis)
+      const context: RankingContext = { ...rankingContext, location: searchLocation };
+      const rankedPlaces = rankCandidates(allNearbyPlaces, context).map(candidate => candidate.place);
 
-      console.log(`🎯 Showing ${placesWithDistance.length} nearby places sorted by distance`);
-      setSuggestedPlaces(placesWithDistance);
+      console.log(`🎯 Showing ${rankedPlaces.length} nearby places ranked by match`);
+      setRankingContext(context);
+      setSuggestedPlaces(rankedPlaces);
+      saveDraftProgress({ rankingContext: context, suggestedPlaces: rankedPlaces });
       setSearchQuery(''); // Clear search query
       setShowPlaceSelection(true);
       console.log(`📱 Place selection modal should now be visible: ${true}`);
       
     } catch (error) {
       console.error('❌ Error loading nearby places:', error);
+      if (error instanceof QuotaExceededError) {
+        showQuotaExceededAlert(error);
+        return;
+      }
       Alert.alert('Error', 'Failed to load nearby places. Please try again.');
     } finally {
       setIsLoading(false);
@@ -1169,6 +1658,7 @@ export default function CaptureScreen() {
         is_open: placeData.is_open,
         hours: placeData.hours,
         week_hours: placeData.week_hours,
+        time_zone: placeData.time_zone,
         phone: placeData.phone,
         website: placeData.website,
         added_by: user.id,
@@ -1191,6 +1681,7 @@ export default function CaptureScreen() {
       }
 
       console.log('✅ Place saved and recommended successfully:', addedPlace.name);
+      await completeCaptureDraft();
 
       // Create or find "Recommended Places" collection
       console.log('📁 Finding or creating "Recommended Places" collection...');
@@ -1291,6 +1782,7 @@ export default function CaptureScreen() {
         is_open: placeData.is_open,
         hours: placeData.hours,
         week_hours: placeData.week_hours,
+        time_zone: placeData.time_zone,
         phone: placeData.phone,
         website: placeData.website,
         added_by: user.id,
@@ -1313,6 +1805,7 @@ export default function CaptureScreen() {
       }
 
       console.log('✅ Place saved privately successfully:', addedPlace.name);
+      await completeCaptureDraft();
 
       // Show collections modal for user to choose where to save
       await loadUserCollections();
@@ -1380,8 +1873,62 @@ export default function CaptureScreen() {
     setDiscoveryCount(0);
     setShowDiscoveryBanner(false);
     setPhotoLocation(null);
+    setRankingContext(null);
     setIsSearching(false);
     setSearchResults([]);
+    setAnalysisRoute(null);
+    setPartialAnalysis(null);
+    routedAnalysisRef.current = null;
+    earlyPlaceSearchRef.current = null;
+    // The draft is kept so the capture can be resumed from "Recent captures"
+    draftIdRef.current = null;
+  };
+
+  const restoreDraftImage = (draft: CaptureDraft) => {
+    setShowRecentCaptures(false);
+    resetCapture();
+    draftIdRef.current = draft.id;
+    setCapturedImage(draft.imageUri);
+    setCapturedImageThumbnail(draft.thumbnailUri || null);
+  };
+
+  const handleResumeDraft = async (draft: CaptureDraft) => {
+    haptics.buttonPress();
+    restoreDraftImage(draft);
+
+    // Interrupted before the analysis finished
+    if (!draft.analysisResult) {
+      await analyzePhoto(draft.imageUri, undefined, { location: draft.location });
+      return;
+    }
+
+    setAnalysisResult(draft.analysisResult);
+    setPhotoLocation(draft.location);
+    setRankingContext(draft.rankingContext ?? null);
+    setSuggestedPlaces(draft.suggestedPlaces);
+    if (!draft.selectedPlace) {
+      setShowPlaceSelection(true);
+      return;
+    }
+
+    setPlaceData(draft.selectedPlace);
+    if (draft.collection) {
+      await loadUserCollections();
+      setShowCollections(true);
+    }
+  };
+
+  const handleReanalyzeDraft = async (draft: CaptureDraft) => {
+    haptics.buttonPress();
+    restoreDraftImage(draft);
+    await updateDraft(draft.id, {
+      analysisResult: undefined,
+      rankingContext: undefined,
+      suggestedPlaces: [],
+      selectedPlace: undefined,
+      collection: undefined,
+    });
+    await analyzePhoto(draft.imageUri, undefined, { location: draft.location, refresh: true });
   };
 
   const filteredSuggestedPlaces = React.useMemo(() => {
@@ -1422,6 +1969,14 @@ export default function CaptureScreen() {
     return searchResults;
   }, [suggestedPlaces, searchResults, searchQuery]);
 
+  // Match scores and "why this match" breakdowns for the place selection list
+  const candidateRankings = React.useMemo(() => {
+    if (!rankingContext) return {};
+    return Object.fromEntries(
+      rankCandidates(filteredSuggestedPlaces, rankingContext).map(candidate => [candidate.place.place_id, candidate])
+    );
+  }, [filteredSuggestedPlaces, rankingContext]);
+
   // Debounced search effect for broader API search
   React.useEffect(() => {
     if (!showPlaceSelection || !searchQuery.trim()) {
@@ -1479,6 +2034,64 @@ export default function CaptureScreen() {
       <SafeAreaView style={styles.container}>
         <CameraView style={styles.camera} facing={facing} ref={cameraRef}>
           <View style={styles.cameraOverlay}>
+            {captureDraftList.length > 0 && (
+              <TouchableOpacity
+                style={styles.recentCapturesButton}
+                onPress={() => { haptics.buttonPress(); setShowRecentCaptures(true); }}
+              >
+                <History size={16} color="#FFFFFF" strokeWidth={2} />
+                <Text style={styles.pendingCapturesText}>{captureDraftList.length}</Text>
+              </TouchableOpacity>
+            )}
+            {queuedCaptures.length > 0 && (
+              <TouchableOpacity
+                style={styles.pendingCapturesButton}
+                onPress={() => { haptics.buttonPress(); setShowPendingCaptures(true); }}
+              >
+                <CloudOff size={16} color="#FFFFFF" strokeWidth={2} />
+                <Text style={styles.pendingCapturesText}>
+                  {pendingCaptureCount > 0
+                    ? `${pendingCaptureCount} pending`
+                    : `${queuedCaptures.length} ready to review`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {batchItems.length > 0 && (
+              <TouchableOpacity
+                style={styles.batchReviewButton}
+                onPress={() => { haptics.buttonPress(); router.push('/batch-review'); }}
+              >
+                <Layers size={16} color="#FFFFFF" strokeWidth={2} />
+                <Text style={styles.pendingCapturesText}>
+                  {batchInProgressCount > 0
+                    ? `${batchItems.length} in batch · ${batchInProgressCount} analyzing`
+                    : `Review ${batchItems.length} in batch`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {aiQuota && aiQuota.remaining !== null && (
+              <TouchableOpacity
+                style={[styles.quotaBadge, isAiQuotaLow && styles.quotaBadgeLow]}
+                onPress={() => router.push('/subscription')}
+              >
+                <Text style={styles.quotaBadgeText}>
+                  {aiQuota.remaining === 0
+                    ? 'No AI scans left this month'
+                    : `${aiQuota.remaining} of ${aiQuota.limit} AI scans left`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <View style={styles.captureModeToggle}>
+              {CAPTURE_MODES.map(({ mode, label }) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.captureModeOption, captureMode === mode && styles.captureModeOptionActive]}
+                  onPress={() => { haptics.selectionFeedback(); setCaptureMode(mode); }}
+                >
+                  <Text style={[styles.captureModeText, captureMode === mode && styles.captureModeTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
             <View style={styles.cameraControls}>
               <TouchableOpacity
                 style={styles.flipButton}
@@ -1497,10 +2110,41 @@ export default function CaptureScreen() {
             </View>
           </View>
         </CameraView>
+
+        <PendingCapturesModal
+          visible={showPendingCaptures}
+          items={queuedCaptures}
+          isReplaying={isReplayingCaptures}
+          onClose={() => setShowPendingCaptures(false)}
+          onReview={handleReviewQueuedCapture}
+          onRetry={retryQueuedCapture}
+          onRemove={removeQueuedCapture}
+          onReplayNow={replayCaptures}
+        />
+
+        <RedactionEditor
+          visible={!!privacyReview}
+          imageUri={privacyReview?.uri ?? null}
+          initialRegions={privacyReview?.regions ?? NO_REDACTION_REGIONS}
+          onCancel={() => resolvePrivacyReview(null)}
+          onConfirm={resolvePrivacyReview}
+        />
+
+        <RecentCapturesModal
+          visible={showRecentCaptures}
+          drafts={captureDraftList}
+          retentionDays={settings.draftRetentionDays}
+          onClose={() => setShowRecentCaptures(false)}
+          onResume={handleResumeDraft}
+          onReanalyze={handleReanalyzeDraft}
+          onDiscard={removeDraft}
+        />
       </SafeAreaView>
     );
   }
 
+  const placeOpenState = placeData ? getOpenStatus(buildOpeningSchedule(placeData)).state : 'unknown';
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header with Back Button */}
@@ -1546,6 +2190,28 @@ export default function CaptureScreen() {
                         : 'Identifying place details and information...'
                       }
                     </Text>
+
+                    {/* Fields streamed in while the analysis is still running */}
+                    {processingState === 'analyzing' && partialAnalysis && (
+                      <View style={styles.partialAnalysis}>
+                        {partialAnalysis.businessType && (
+                          <Text style={styles.partialAnalysisType}>{partialAnalysis.businessType}</Text>
+                        )}
+                        {!isGenericBusinessName(partialAnalysis.businessName) && (
+                          <Text style={styles.partialAnalysisName}>{partialAnalysis.businessName}</Text>
+                        )}
+                        {partialAnalysis.features && partialAnalysis.features.length > 0 && (
+                          <Text style={styles.partialAnalysisDetail} numberOfLines={2}>
+                            {partialAnalysis.features.join(' · ')}
+                          </Text>
+                        )}
+                        {partialAnalysis.locationText && (
+                          <Text style={styles.partialAnalysisDetail} numberOfLines={1}>
+                            📍 {partialAnalysis.locationText}
+                          </Text>
+                        )}
+                      </View>
+                    )}
                     
                     {/* Progress Steps */}
                     <View style={styles.progressSteps}>
@@ -1669,15 +2335,15 @@ export default function CaptureScreen() {
                 </View>
                 
                 <View style={styles.statusContainer}>
-                  <Clock size={14} color={placeData.is_open ? '#34C759' : '#FF3B30'} strokeWidth={2} />
-                  <Text style={[styles.statusText, { color: placeData.is_open ? '#34C759' : '#FF3B30' }]}>
-                    {placeData.is_open ? 'Open' : 'Closed'}
+                  <Clock size={14} color={OPEN_STATE_COLORS[placeOpenState]} strokeWidth={2} />
+                  <Text style={[styles.statusText, { color: OPEN_STATE_COLORS[placeOpenState] }]}>
+                    {OPEN_STATE_LABELS[placeOpenState]}
                   </Text>
                   <TouchableOpacity 
                     style={styles.hoursDropdown}
                     onPress={() => setShowFullHours(!showFullHours)}
                   >
-                    <Text style={styles.hoursText}>{getTodayHours(placeData.week_hours)}</Text>
+                    <Text style={styles.hoursText}>{getTodayHours(placeData)}</Text>
                     {showFullHours ? (
                       <ChevronUp size={14} color="#8E8E93" strokeWidth={2} />
                     ) : (
@@ -1696,6 +2362,23 @@ export default function CaptureScreen() {
                 </View>
               )}
 
+              <TouchableOpacity
+                style={styles.scanHoursButton}
+                onPress={() => { haptics.buttonPress(); readHoursSign(placeData.week_hours); }}
+                disabled={isReadingHours}
+              >
+                {isReadingHours ? (
+                  <ActivityIndicator size="small" color="#007AFF" />
+                ) : (
+                  <ScanLine size={14} color="#007AFF" strokeWidth={2} />
+                )}
+                <Text style={styles.scanHoursText}>
+                  {isReadingHours
+                    ? 'Reading hours...'
+                    : placeData.week_hours.length > 0 ? 'Update hours from sign' : 'Add hours from sign'}
+                </Text>
+              </TouchableOpacity>
+
               {/* Address Section */}
               <View style={styles.addressSection}>
                 <View style={styles.addressHeader}>
@@ -1718,19 +2401,19 @@ export default function CaptureScreen() {
               {/* AI Review Summary */}
               <View style={styles.summarySection}>
                 <Text style={styles.sectionTitle}>AI Review Summary</Text>
-                <Text style={styles.summaryText}>{placeData.ai_summary}</Text>
+                <Text style={styles.summaryText}>{(placeData.localized ?? placeData).ai_summary}</Text>
                 
                 <View style={styles.prosConsContainer}>
                   <View style={styles.prosSection}>
                     <Text style={styles.prosConsTitle}>What People Love</Text>
-                    {placeData.pros.map((pro) => (
+                    {(placeData.localized ?? placeData).pros.map((pro) => (
                       <Text key={`pro-${pro}`} style={styles.prosConsItem}>• {pro}</Text>
                     ))}
                   </View>
                   
                   <View style={styles.consSection}>
                     <Text style={styles.prosConsTitle}>Things to Know</Text>
-                    {placeData.cons.map((con) => (
+                    {(placeData.localized ?? placeData).cons.map((con) => (
                       <Text key={`con-${con}`} style={styles.prosConsItem}>• {con}</Text>
                     ))}
                   </View>
@@ -1738,7 +2421,7 @@ export default function CaptureScreen() {
 
                 <View style={styles.recommendationsSection}>
                   <Text style={styles.prosConsTitle}>Recommendations</Text>
-                  {placeData.recommendations.map((rec) => (
+                  {(placeData.localized ?? placeData).recommendations.map((rec) => (
                     <Text key={`rec-${rec}`} style={styles.prosConsItem}>• {rec}</Text>
                   ))}
                 </View>
@@ -1771,8 +2454,11 @@ export default function CaptureScreen() {
             <View style={styles.analysisResult}>
               <Text style={styles.analysisTitle}>Business Identified</Text>
               <Text style={styles.analysisName}>{analysisResult.businessName}</Text>
-              <Text style={styles.analysisType}>{analysisResult.businessType}</Text>
-              <Text style={styles.analysisDescription}>{analysisResult.description}</Text>
+              {analysisResult.signName && (
+                <Text style={styles.analysisSignName}>On sign: {analysisResult.signName}</Text>
+              )}
+              <Text style={styles.analysisType}>{(analysisResult.localized ?? analysisResult).businessType}</Text>
+              <Text style={styles.analysisDescription}>{(analysisResult.localized ?? analysisResult).description}</Text>
               
               <View style={styles.addressInputSection}>
                 <Text style={styles.sectionTitle}>Location</Text>
@@ -1829,11 +2515,24 @@ export default function CaptureScreen() {
       <Modal visible={showPlaceSelection} animationType="slide" presentationStyle="pageSheet">
         <SafeAreaView style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Select Place</Text>
+            <Text style={styles.modalTitle}>
+              {analysisRoute === 'confirm_candidates' ? 'Confirm Place' : analysisRoute === 'manual_search' ? 'Find Place' : 'Select Place'}
+            </Text>
             <TouchableOpacity onPress={() => setShowPlaceSelection(false)}>
               <Text style={styles.modalCloseText}>Close</Text>
             </TouchableOpacity>
           </View>
+
+          {analysisRoute === 'confirm_candidates' && (
+            <Text style={styles.routeHintText}>
+              This looks like one of these places. Tap the right one, or search if it is not listed.
+            </Text>
+          )}
+          {analysisRoute === 'manual_search' && (
+            <Text style={styles.routeHintText}>
+              We could not identify this place with confidence, so the search starts with the text from the sign.
+            </Text>
+          )}
           
           <View style={styles.searchContainer}>
             <Search size={20} color="#8E8E93" strokeWidth={2} />
@@ -1907,6 +2606,9 @@ export default function CaptureScreen() {
                         <Text style={styles.placeItemRatingText}>{place.rating}</Text>
                       </View>
                     )}
+                    {candidateRankings[place.place_id] && (
+                      <MatchExplanation candidate={candidateRankings[place.place_id]} />
+                    )}
                   </View>
                 </TouchableOpacity>
               ))
@@ -1987,6 +2689,17 @@ export default function CaptureScreen() {
           </View>
         </SafeAreaView>
       </Modal>
+
+      <HoursDiffModal
+        visible={!!hoursProposal}
+        imageUri={hoursProposal?.imageUri}
+        currentWeekHours={hoursProposal?.currentWeekHours || []}
+        proposedWeekHours={hoursProposal?.proposedWeekHours || []}
+        notes={hoursProposal?.extraction.notes}
+        confidence={hoursProposal?.extraction.confidence ?? 100}
+        onConfirm={handleConfirmSignHours}
+        onCancel={clearHoursProposal}
+      />
     </SafeAreaView>
   );
 }
@@ -2081,6 +2794,30 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 24,
   },
+  partialAnalysis: {
+    alignItems: 'center',
+    marginTop: -12,
+    marginBottom: 20,
+    gap: 4,
+  },
+  partialAnalysisType: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  partialAnalysisName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1C1C1E',
+    textAlign: 'center',
+  },
+  partialAnalysisDetail: {
+    fontSize: 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
   progressSteps: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2189,6 +2926,87 @@ const styles = StyleSheet.create({
     borderRadius: 30,
     backgroundColor: '#FFFFFF',
   },
+  pendingCapturesButton: {
+    position: 'absolute',
+    top: 60,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  pendingCapturesText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  recentCapturesButton: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  batchReviewButton: {
+    position: 'absolute',
+    top: 110,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(0, 122, 255, 0.85)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  quotaBadge: {
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  quotaBadgeLow: {
+    backgroundColor: 'rgba(255, 149, 0, 0.9)',
+  },
+  quotaBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  captureModeToggle: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: 16,
+    padding: 4,
+    marginBottom: 20,
+  },
+  captureModeOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  captureModeOptionActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  captureModeText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  captureModeTextActive: {
+    color: '#000000',
+  },
   galleryButton: {
     width: 50,
     height: 50,
@@ -2321,6 +3139,18 @@ const styles = StyleSheet.create({
     color: '#3C3C43',
     marginBottom: 4,
   },
+  scanHoursButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  scanHoursText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   addressSection: {
     paddingVertical: 4,
   },
@@ -2436,6 +3266,11 @@ const styles = StyleSheet.create({
     color: '#000000',
     marginBottom: 4,
   },
+  analysisSignName: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
   analysisType: {
     fontSize: 16,
     color: '#007AFF',
@@ -2527,6 +3362,13 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontWeight: '500',
   },
+  routeHintText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -13,7 +13,7 @@ import {
 } from 'react-native';
 import { Search, MapPin, Star, Clock, Bookmark, Filter, SlidersHorizontal, Users, UserPlus, Globe } from 'lucide-react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { getPlaces, searchPlaces, getNearbyPlaces, getFilteredPlaces, Place, getCurrentUser, getPublicPlaces, getNearbyPublicPlaces, getUserCollections, getCollectionPlaces, getUserAllPlaces, getPlacesWithFriendData, getNearbyPlacesWithFriendData, getFriendsOnlyPlaces, getNearbyFriendsOnlyPlaces, trackUserActivity, getPlacesInCityAndNearby, getFriendsOnlyPlacesInCityAndNearby, getPlacesWithFriendDataInCityAndNearby } from '@/lib/supabase';
+import { getPlaces, searchPlaces, getNearbyPlaces, getFilteredPlaces, Place, getCurrentUser, getPublicPlaces, getNearbyPublicPlaces, getUserCollections, getCollectionPlaces, getUserAllPlaces, getPlacesWithFriendData, getNearbyPlacesWithFriendData, getFriendsOnlyPlaces, getNearbyFriendsOnlyPlaces, trackUserActivity, getPlacesInCityAndNearby, getFriendsOnlyPlacesInCityAndNearby, getPlacesWithFriendDataInCityAndNearby, searchPlacesByMenu } from '@/lib/supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../../lib/supabase';
 import { HapticFeedback } from '@/utils/haptics';
@@ -30,6 +30,11 @@ import { usePlaceFilter } from '@/contexts/PlaceFilterContext';
 import { useRealtimePlaces } from '@/hooks/useRealtimePlaces';
 import { useSmartRefresh } from '@/hooks/useSmartRefresh';
 import { prefetchPlacesWithPriority } from '@/utils/image-prefetch';
+import { formatMenuPrice, parseMenuQuery } from '@/lib/menu';
+import { MenuSearchMatch } from '@/types/menu';
+import { buildOpeningSchedule, getOpenStatus, matchesOpenFilter, OPEN_STATE_COLORS, OPEN_STATE_LABELS } from '@/lib/opening-hours';
+import { OpenFilterChips } from '@/components/hours/OpenFilterChips';
+import { OpenFilter } from '@/types/hours';
 
 const categories = ['All', 'Coffee Shop', 'Restaurant', 'Nail Salon', 'Gym', 'Retail', 'Bookstore'];
 const sortOptions = ['Distance', 'Rating', 'Newest', 'Most Reviews'];
@@ -44,9 +49,11 @@ interface LocationData {
 
 export default function DiscoverScreen() {
   const [searchText, setSearchText] = useState('');
+  const [menuMatches, setMenuMatches] = useState<Record<string, MenuSearchMatch>>({});
   const [places, setPlaces] = useState<Place[]>([]);
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [selectedSort, setSelectedSort] = useState('Newest');
+  const [openFilter, setOpenFilter] = useState<OpenFilter>({ mode: 'any' });
   const [showFilters, setShowFilters] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -181,12 +188,33 @@ export default function DiscoverScreen() {
     };
   }, []);
 
+  // "pho under $10" style searches also match dishes on place menus
+  const menuQuery = useMemo(() => parseMenuQuery(searchText), [searchText]);
+
+  useEffect(() => {
+    if (!menuQuery) {
+      setMenuMatches({});
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const matches = await searchPlacesByMenu(menuQuery);
+      if (mounted.current) {
+        setMenuMatches(Object.fromEntries(matches.map(match => [match.place_id, match])));
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [menuQuery]);
+
   // Memoized filtered places to prevent unnecessary re-renders
   const filteredPlaces = useMemo(() => {
     let filtered = places;
 
-    // Apply search filter first
-    if (searchText.trim()) {
+    // A price limit only makes sense against menus, so only menu matches remain
+    if (menuQuery?.maxPrice !== undefined) {
+      filtered = places.filter(place => menuMatches[place.id]);
+    } else if (searchText.trim()) {
       const searchLower = searchText.toLowerCase();
       filtered = places.filter(place => 
         place.name.toLowerCase().includes(searchLower) ||
@@ -194,7 +222,8 @@ export default function DiscoverScreen() {
         place.address.toLowerCase().includes(searchLower) ||
         place.ai_summary?.toLowerCase().includes(searchLower) ||
         place.pros?.some(pro => pro.toLowerCase().includes(searchLower)) ||
-        place.cons?.some(con => con.toLowerCase().includes(searchLower))
+        place.cons?.some(con => con.toLowerCase().includes(searchLower)) ||
+        !!menuMatches[place.id]
       );
     }
     
@@ -202,6 +231,12 @@ export default function DiscoverScreen() {
     if (!searchText.trim() && selectedCategory !== 'All') {
       filtered = filtered.filter(place => place.category === selectedCategory);
     }
+
+    // Apply opening hours filter (judged on each place's own clock)
+    if (openFilter.mode !== 'any') {
+      const now = new Date();
+      filtered = filtered.filter(place => matchesOpenFilter(buildOpeningSchedule(place), openFilter, now));
+    }
     
     // Apply sorting
     const sorted = [...filtered].sort((a, b) => {
@@ -228,7 +263,7 @@ export default function DiscoverScreen() {
     console.log(`🔍 Filtered ${places.length} places to ${sorted.length} results`);
     console.log(`📊 Search: "${searchText}", Category: "${selectedCategory}", Sort: "${selectedSort}"`);
     return sorted;
-  }, [places, searchText, selectedCategory, selectedSort]);
+  }, [places, searchText, menuQuery, menuMatches, selectedCategory, selectedSort, openFilter]);
 
   // Prefetch images when filtered places change (above-the-fold first)
   useEffect(() => {
@@ -692,7 +727,7 @@ export default function DiscoverScreen() {
     return `${Math.ceil(diffDays / 30)} months ago`;
   };
 
-  const PlaceCard = React.memo(({ place }: { place: Place }) => {
+  const PlaceCard = React.memo(({ place, menuMatch }: { place: Place; menuMatch?: MenuSearchMatch }) => {
     const [isSaved, setIsSaved] = useState(false);
     
     // Check if place is saved in user's collections on mount
@@ -723,7 +758,8 @@ export default function DiscoverScreen() {
       }
     };
     
-    const accessibilityLabel = `${place.name}, ${place.category}, rated ${place.rating.toFixed(1)} stars, ${place.is_open ? 'currently open' : 'currently closed'}`;
+    const openState = getOpenStatus(buildOpeningSchedule(place)).state;
+    const accessibilityLabel = `${place.name}, ${place.category}, rated ${place.rating.toFixed(1)} stars, ${OPEN_STATE_LABELS[openState].toLowerCase()}`;
     
     return (
       <TouchableOpacity 
@@ -782,11 +818,17 @@ export default function DiscoverScreen() {
           </View>
           
           <View style={styles.statusContainer}>
-            <View style={[styles.statusDot, { backgroundColor: place.is_open ? '#34C759' : '#FF3B30' }]} />
-            <Text style={styles.statusText}>{place.is_open ? 'Open' : 'Closed'}</Text>
+            <View style={[styles.statusDot, { backgroundColor: OPEN_STATE_COLORS[openState] }]} />
+            <Text style={styles.statusText}>{OPEN_STATE_LABELS[openState]}</Text>
           </View>
         </View>
         
+        {menuMatch && (
+          <Text style={styles.menuMatchText} numberOfLines={1}>
+            On the menu: {menuMatch.item_name} · {formatMenuPrice(menuMatch.price, menuMatch.currency)}
+          </Text>
+        )}
+
         <Text style={styles.aiSummary} numberOfLines={2}>
           {place.ai_summary}
         </Text>
@@ -933,6 +975,20 @@ export default function DiscoverScreen() {
               ))}
             </ScrollView>
           </View>
+
+          {/* Opening Hours */}
+          <View style={styles.filterSection}>
+            <Text style={styles.filterTitle}>Open</Text>
+            <OpenFilterChips
+              filter={openFilter}
+              onChange={setOpenFilter}
+              scrollStyle={styles.categoryScroll}
+              chipStyle={styles.categoryButton}
+              selectedChipStyle={styles.selectedCategoryButton}
+              chipTextStyle={styles.categoryButtonText}
+              selectedChipTextStyle={styles.selectedCategoryButtonText}
+            />
+          </View>
         </View>
       )}
 
@@ -940,7 +996,7 @@ export default function DiscoverScreen() {
       <FlatList
         data={filteredPlaces}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => <PlaceCard place={item} />}
+        renderItem={({ item }) => <PlaceCard place={item} menuMatch={menuMatches[item.id]} />}
         style={styles.placesContainer}
         contentContainerStyle={filteredPlaces.length === 0 ? styles.emptyListContainer : undefined}
         refreshControl={
@@ -1153,6 +1209,12 @@ const styles = StyleSheet.create({
   bookmarkButton: {
     padding: 4,
   },
+  menuMatchText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
   placeCategory: {
     fontSize: 14,
     color: '#2C2C2E',
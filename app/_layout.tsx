@@ -157,6 +157,8 @@ function AppContent() {
           <Stack.Screen name="map" options={{ headerShown: false }} />
           <Stack.Screen name="hidden-gem" options={{ headerShown: false }} />
           <Stack.Screen name="address-search" options={{ headerShown: false }} />
+          <Stack.Screen name="batch-review" options={{ headerShown: false }} />
+          <Stack.Screen name="menu-editor" options={{ headerShown: false }} />
           <Stack.Screen name="place/[id]" options={{ headerShown: false }} />
           <Stack.Screen name="+not-found" />
         </Stack>
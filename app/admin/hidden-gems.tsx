@@ -14,7 +14,7 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { ArrowLeft, Plus, Gem, Search } from 'lucide-react-native';
-import { getCurrentUser, createHiddenGem, getActiveHiddenGemsByCity, getDiscoveredHiddenGemsByCity, HiddenGem, supabase } from '@/lib/supabase';
+import { getCurrentUser, createHiddenGem, getActiveHiddenGemsByCity, getDiscoveredHiddenGemsByCity, checkPlaceExists, HiddenGem, supabase } from '@/lib/supabase';
 import { searchPlaces } from '@/lib/google-places';
 
 interface HiddenGemFormData {
@@ -149,7 +149,11 @@ export default function AdminHiddenGemsScreen() {
 
     try {
       setIsCreating(true);
-      const { data, error } = await createHiddenGem(formData);
+      // Link the gem to the app's place, so merging duplicate places keeps it attached
+      const { publicPlace } = formData.google_place_id
+        ? await checkPlaceExists(formData.google_place_id)
+        : { publicPlace: null };
+      const { data, error } = await createHiddenGem({ ...formData, place_id: publicPlace?.id ?? null });
       
       if (error) {
         Alert.alert('Error', `Failed to create hidden gem: ${error.message}`);
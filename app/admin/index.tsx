@@ -206,12 +206,24 @@ export default function AdminDashboard() {
             onPress={() => router.push('/admin/reports')}
             color="#FF3B30"
           />
+          <QuickAction
+            title="Edits"
+            icon="create"
+            onPress={() => router.push('/admin/suggestions')}
+            color="#5AC8FA"
+          />
           <QuickAction
             title="Analytics"
             icon="stats-chart"
             onPress={() => router.push('/admin/analytics')}
             color="#5856D6"
           />
+          <QuickAction
+            title="Prompts"
+            icon="flask"
+            onPress={() => router.push('/admin/prompts')}
+            color="#FF9500"
+          />
         </View>
       </View>
 
@@ -224,7 +236,7 @@ export default function AdminDashboard() {
               <Text style={styles.itemSubtitle}>{user.email}</Text>
             </View>
             <Text style={styles.itemDate}>
-              {new Date(user.created_at).toLocaleDateString()}
+              {user.created_at && new Date(user.created_at).toLocaleDateString()}
             </Text>
           </View>
         ))}
@@ -244,7 +256,7 @@ export default function AdminDashboard() {
             </View>
             <View style={styles.placeStats}>
               <Text style={styles.itemDate}>
-                {new Date(place.created_at).toLocaleDateString()}
+                {place.created_at && new Date(place.created_at).toLocaleDateString()}
               </Text>
               {place.rating && (
                 <Text style={styles.rating}>★ {place.rating.toFixed(1)}</Text>
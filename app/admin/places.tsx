@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,16 +13,67 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { supabase, deletePlace } from '../../lib/supabase';
+import { supabase } from '../../lib/supabase';
+import { deletePlace, getUndoablePlaceMerges, mergePlaces, undoPlaceMerge } from '../../lib/repositories/places';
+import { withAuditSource } from '../../lib/audit-log';
+import { DuplicateCluster, findDuplicateClusters, getDuplicateReasonLabel } from '../../lib/place-duplicates';
 import type { Database } from '../../types/database';
+import type { MergedRecordTable, PlaceMerge } from '../../types/place';
 
 type Place = Database['public']['Tables']['places']['Row'];
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
 interface PlaceWithProfile extends Place {
-  profiles?: Profile;
+  profiles: Pick<Profile, 'id' | 'full_name' | 'email'> | null;
 }
 
+// PostgREST caps each select at its max-rows setting, so the places are read a page at a time;
+// duplicates can only be found among places that were loaded
+const PLACES_PAGE_SIZE = 1000;
+
+const loadAllPlaces = async (): Promise<PlaceWithProfile[]> => {
+  const places: PlaceWithProfile[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .from('places')
+      .select(`
+        *,
+        profiles:added_by (
+          id,
+          full_name,
+          email
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(places.length, places.length + PLACES_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    // Step by what came back, in case the server's cap is below the page size
+    if (!data || data.length === 0) return places;
+    places.push(...data);
+  }
+};
+
+const MOVED_RECORD_LABELS: Record<MergedRecordTable, string> = {
+  reviews: 'review',
+  place_photos: 'photo',
+  collection_places: 'collection entry',
+  friend_activities: 'activity',
+  reports: 'report',
+  hidden_gems: 'hidden gem',
+  place_menus: 'menu',
+  place_edit_suggestions: 'edit suggestion',
+};
+
+// e.g. "3 reviews, 1 photo moved"
+const describeMovedRecords = (merge: PlaceMerge): string => {
+  const parts = (Object.keys(MOVED_RECORD_LABELS) as MergedRecordTable[])
+    .filter(table => merge.moved_counts[table] > 0)
+    .map(table => `${merge.moved_counts[table]} ${MOVED_RECORD_LABELS[table]}${merge.moved_counts[table] !== 1 ? 's' : ''}`);
+  return parts.length > 0 ? `${parts.join(', ')} moved` : 'Nothing to move';
+};
+
 export default function AdminPlaces() {
   const router = useRouter();
   const [places, setPlaces] = useState<PlaceWithProfile[]>([]);
@@ -33,6 +84,12 @@ export default function AdminPlaces() {
   const [selectedPlace, setSelectedPlace] = useState<PlaceWithProfile | null>(null);
   const [showPlaceModal, setShowPlaceModal] = useState(false);
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [canonicalChoices, setCanonicalChoices] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState(false);
+  const [recentMerges, setRecentMerges] = useState<PlaceMerge[]>([]);
+
+  const duplicateClusters = useMemo(() => findDuplicateClusters(places), [places]);
 
   const categories = ['all', 'restaurant', 'cafe', 'attraction', 'shopping', 'entertainment', 'other'];
 
@@ -58,22 +115,11 @@ export default function AdminPlaces() {
         return;
       }
 
-      const { data: placesData, error } = await supabase
-        .from('places')
-        .select(`
-          *,
-          profiles:added_by (
-            id,
-            full_name,
-            email
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const placesData = await loadAllPlaces();
 
-      setPlaces(placesData || []);
-      setFilteredPlaces(placesData || []);
+      setPlaces(placesData);
+      setFilteredPlaces(placesData);
+      loadRecentMerges();
     } catch (error) {
       console.error('Error loading places:', error);
       Alert.alert('Error', 'Failed to load places');
@@ -83,6 +129,11 @@ export default function AdminPlaces() {
     }
   };
 
+  const loadRecentMerges = async () => {
+    const { data } = await getUndoablePlaceMerges(supabase);
+    setRecentMerges(data || []);
+  };
+
   useEffect(() => {
     loadPlaces();
   }, []);
@@ -121,10 +172,13 @@ export default function AdminPlaces() {
     try {
       const newPublicStatus = !place.is_public;
       
-      const { error } = await supabase
-        .from('places')
-        .update({ is_public: newPublicStatus })
-        .eq('id', place.id);
+      const { error } = await withAuditSource(
+        supabase
+          .from('places')
+          .update({ is_public: newPublicStatus })
+          .eq('id', place.id),
+        'admin'
+      );
 
       if (error) throw error;
 
@@ -154,7 +208,7 @@ export default function AdminPlaces() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await deletePlace(place.id);
+              const { error } = await deletePlace(supabase, place.id, 'admin');
 
               if (error) throw error;
 
@@ -171,6 +225,66 @@ export default function AdminPlaces() {
     );
   };
 
+  // Clusters are keyed by their suggested canonical place until the admin picks another
+  const getCanonicalId = (cluster: DuplicateCluster<PlaceWithProfile>) =>
+    canonicalChoices[cluster.canonical.id] || cluster.canonical.id;
+
+  const handleUndoMerges = async (mergeIds: string[]) => {
+    setMerging(true);
+    // Undo newest first, so places merged in a chain come back in order
+    for (const mergeId of [...mergeIds].reverse()) {
+      const { error } = await undoPlaceMerge(supabase, mergeId);
+      if (error) {
+        Alert.alert('Error', `Failed to undo merge: ${error.message}`);
+        break;
+      }
+    }
+    setMerging(false);
+    loadPlaces();
+  };
+
+  const handleMergeCluster = (cluster: DuplicateCluster<PlaceWithProfile>) => {
+    const canonical = cluster.places.find(place => place.id === getCanonicalId(cluster))!;
+    const duplicates = cluster.places.filter(place => place.id !== canonical.id);
+
+    Alert.alert(
+      'Merge Places',
+      `Merge ${duplicates.length} place${duplicates.length !== 1 ? 's' : ''} into "${canonical.name}"? Their reviews, photos, collection entries and activity move to "${canonical.name}" and the duplicates are deleted. You can undo this for 24 hours.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setMerging(true);
+            const mergeIds: string[] = [];
+            for (const duplicate of duplicates) {
+              const { data: mergeId, error } = await mergePlaces(supabase, canonical.id, duplicate.id);
+              if (error) {
+                Alert.alert('Error', `Failed to merge "${duplicate.name}": ${error.message}`);
+                break;
+              }
+              mergeIds.push(mergeId);
+            }
+            setMerging(false);
+            loadPlaces();
+
+            if (mergeIds.length > 0) {
+              Alert.alert(
+                'Places Merged',
+                `Merged ${mergeIds.length} place${mergeIds.length !== 1 ? 's' : ''} into "${canonical.name}".`,
+                [
+                  { text: 'Undo', style: 'destructive', onPress: () => handleUndoMerges(mergeIds) },
+                  { text: 'OK' },
+                ]
+              );
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const CategoryFilter = () => (
     <ScrollView
       horizontal
@@ -253,7 +367,7 @@ export default function AdminPlaces() {
               <View style={styles.infoRow}>
                 <Text style={styles.infoLabel}>Created:</Text>
                 <Text style={styles.infoValue}>
-                  {new Date(selectedPlace.created_at).toLocaleDateString()}
+                  {selectedPlace.created_at ? new Date(selectedPlace.created_at).toLocaleDateString() : 'Unknown'}
                 </Text>
               </View>
             </View>
@@ -268,7 +382,7 @@ export default function AdminPlaces() {
             {(selectedPlace.pros?.length || selectedPlace.cons?.length) && (
               <View style={styles.placeSection}>
                 <Text style={styles.sectionTitle}>Pros & Cons</Text>
-                {selectedPlace.pros?.length > 0 && (
+                {selectedPlace.pros && selectedPlace.pros.length > 0 && (
                   <View style={styles.prosConsSection}>
                     <Text style={styles.prosConsTitle}>Pros:</Text>
                     {selectedPlace.pros.map((pro, index) => (
@@ -276,7 +390,7 @@ export default function AdminPlaces() {
                     ))}
                   </View>
                 )}
-                {selectedPlace.cons?.length > 0 && (
+                {selectedPlace.cons && selectedPlace.cons.length > 0 && (
                   <View style={styles.prosConsSection}>
                     <Text style={styles.prosConsTitle}>Cons:</Text>
                     {selectedPlace.cons.map((con, index) => (
@@ -326,6 +440,94 @@ export default function AdminPlaces() {
     </Modal>
   );
 
+  const DuplicatesView = () => (
+    <>
+      {recentMerges.length > 0 && (
+        <View style={styles.placeSection}>
+          <Text style={styles.sectionTitle}>Recent Merges</Text>
+          {recentMerges.map((merge) => (
+            <View key={merge.id} style={styles.mergeRow}>
+              <View style={styles.placeInfo}>
+                <Text style={styles.placeName}>{merge.duplicate_name}</Text>
+                <Text style={styles.placeAddress}>{describeMovedRecords(merge)}</Text>
+                <Text style={styles.placeDate}>
+                  Undo available until {new Date(merge.undo_until).toLocaleString()}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.undoButton}
+                disabled={merging}
+                onPress={() => handleUndoMerges([merge.id])}
+              >
+                <Ionicons name="arrow-undo" size={16} color="#007AFF" />
+                <Text style={styles.undoButtonText}>Undo</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.resultsText}>
+        {duplicateClusters.length} group{duplicateClusters.length !== 1 ? 's' : ''} of likely duplicates
+      </Text>
+
+      {duplicateClusters.map((cluster) => {
+        const canonicalId = getCanonicalId(cluster);
+        const placeNames = new Map(cluster.places.map(place => [place.id, place.name]));
+
+        return (
+          <View key={cluster.canonical.id} style={styles.clusterCard}>
+            {cluster.matches.map((match) => (
+              <Text key={match.placeIds.join('-')} style={styles.matchReason}>
+                {placeNames.get(match.placeIds[0])} ↔ {placeNames.get(match.placeIds[1])}: {getDuplicateReasonLabel(match)}
+              </Text>
+            ))}
+
+            {cluster.places.map((place) => (
+              <TouchableOpacity
+                key={place.id}
+                style={styles.clusterPlace}
+                onPress={() => setCanonicalChoices({ ...canonicalChoices, [cluster.canonical.id]: place.id })}
+              >
+                <Ionicons
+                  name={place.id === canonicalId ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={place.id === canonicalId ? '#007AFF' : '#999'}
+                />
+                <View style={styles.placeInfo}>
+                  <Text style={styles.placeName}>{place.name}</Text>
+                  <Text style={styles.placeAddress}>{place.address}</Text>
+                  <Text style={styles.placeDate}>
+                    {place.review_count || 0} review{place.review_count !== 1 ? 's' : ''}
+                    {' · '}{place.is_public ? 'Public' : 'Private'}
+                    {place.is_verified ? ' · Verified' : ''}
+                    {place.created_at ? ` · ${new Date(place.created_at).toLocaleDateString()}` : ''}
+                  </Text>
+                </View>
+                {place.id === canonicalId && (
+                  <View style={[styles.badge, styles.canonicalBadge]}>
+                    <Text style={styles.badgeText}>Keep</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.mergeButton, merging && styles.mergeButtonDisabled]}
+              disabled={merging}
+              onPress={() => handleMergeCluster(cluster)}
+            >
+              <Ionicons name="git-merge" size={18} color="white" />
+              <Text style={styles.mergeButtonText}>
+                {merging ? 'Merging...' : `Merge ${cluster.places.length - 1} into selected`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </>
+  );
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -344,6 +546,15 @@ export default function AdminPlaces() {
           <Ionicons name="arrow-back" size={24} color="#007AFF" />
         </TouchableOpacity>
         <Text style={styles.title}>Place Management</Text>
+        <TouchableOpacity
+          style={[styles.duplicatesButton, showDuplicates && styles.duplicatesButtonActive]}
+          onPress={() => setShowDuplicates(!showDuplicates)}
+        >
+          <Ionicons name="copy-outline" size={16} color={showDuplicates ? 'white' : '#007AFF'} />
+          <Text style={[styles.duplicatesButtonText, showDuplicates && styles.duplicatesButtonTextActive]}>
+            Duplicates ({duplicateClusters.length})
+          </Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.searchContainer}>
@@ -364,50 +575,56 @@ export default function AdminPlaces() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       >
-        <Text style={styles.resultsText}>
-          {filteredPlaces.length} place{filteredPlaces.length !== 1 ? 's' : ''} found
-        </Text>
-
-        {filteredPlaces.map((place) => (
-          <TouchableOpacity
-            key={place.id}
-            style={styles.placeCard}
-            onPress={() => handlePlacePress(place)}
-          >
-            {place.image_url && (
-              <Image
-                source={{ uri: place.image_url }}
-                style={styles.cardImage}
-                resizeMode="cover"
-              />
-            )}
-            <View style={styles.cardContent}>
-              <View style={styles.placeInfo}>
-                <Text style={styles.placeName}>{place.name}</Text>
-                <Text style={styles.placeAddress}>{place.address}</Text>
-                <Text style={styles.placeCategory}>{place.category}</Text>
-              </View>
-              <View style={styles.placeMeta}>
-                {place.rating && (
-                  <Text style={styles.rating}>★ {place.rating.toFixed(1)}</Text>
+        {showDuplicates ? (
+          <DuplicatesView />
+        ) : (
+          <>
+            <Text style={styles.resultsText}>
+              {filteredPlaces.length} place{filteredPlaces.length !== 1 ? 's' : ''} found
+            </Text>
+
+            {filteredPlaces.map((place) => (
+              <TouchableOpacity
+                key={place.id}
+                style={styles.placeCard}
+                onPress={() => handlePlacePress(place)}
+              >
+                {place.image_url && (
+                  <Image
+                    source={{ uri: place.image_url }}
+                    style={styles.cardImage}
+                    resizeMode="cover"
+                  />
                 )}
-                <View style={styles.badges}>
-                  {!place.is_public && (
-                    <View style={[styles.badge, styles.privateBadge]}>
-                      <Text style={styles.badgeText}>Private</Text>
+                <View style={styles.cardContent}>
+                  <View style={styles.placeInfo}>
+                    <Text style={styles.placeName}>{place.name}</Text>
+                    <Text style={styles.placeAddress}>{place.address}</Text>
+                    <Text style={styles.placeCategory}>{place.category}</Text>
+                  </View>
+                  <View style={styles.placeMeta}>
+                    {place.rating && (
+                      <Text style={styles.rating}>★ {place.rating.toFixed(1)}</Text>
+                    )}
+                    <View style={styles.badges}>
+                      {!place.is_public && (
+                        <View style={[styles.badge, styles.privateBadge]}>
+                          <Text style={styles.badgeText}>Private</Text>
+                        </View>
+                      )}
                     </View>
-                  )}
+                    <Text style={styles.placeDate}>
+                      {place.created_at && new Date(place.created_at).toLocaleDateString()}
+                    </Text>
+                    <Text style={styles.addedBy}>
+                      by {place.profiles?.full_name || 'Unknown'}
+                    </Text>
+                  </View>
                 </View>
-                <Text style={styles.placeDate}>
-                  {new Date(place.created_at).toLocaleDateString()}
-                </Text>
-                <Text style={styles.addedBy}>
-                  by {place.profiles?.full_name || 'Unknown'}
-                </Text>
-              </View>
-            </View>
-          </TouchableOpacity>
-        ))}
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
       </ScrollView>
 
       <PlaceModal />
@@ -443,10 +660,32 @@ const styles = StyleSheet.create({
     marginRight: 16,
   },
   title: {
+    flex: 1,
     fontSize: 20,
     fontWeight: '600',
     color: '#333',
   },
+  duplicatesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  duplicatesButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  duplicatesButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  duplicatesButtonTextActive: {
+    color: 'white',
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -560,6 +799,9 @@ const styles = StyleSheet.create({
   privateBadge: {
     backgroundColor: '#FF9500',
   },
+  canonicalBadge: {
+    backgroundColor: '#34C759',
+  },
   badgeText: {
     fontSize: 12,
     color: 'white',
@@ -711,4 +953,65 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  clusterCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    marginBottom: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  matchReason: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  clusterPlace: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  mergeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+    gap: 8,
+  },
+  mergeButtonDisabled: {
+    opacity: 0.6,
+  },
+  mergeButtonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  mergeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  undoButtonText: {
+    color: '#007AFF',
+    fontWeight: '600',
+    fontSize: 14,
+  },
 });
\ No newline at end of file
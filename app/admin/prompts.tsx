@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase, getPromptVariantStats } from '../../lib/supabase';
+import { PROMPT_EXPERIMENTS } from '../../lib/prompt-experiments';
+import { PROMPT_TEMPLATES, getPromptVersionId } from '../../lib/prompt-templates';
+import type { PromptVariantStats } from '../../types/prompt-outcomes';
+
+const TIME_RANGE_DAYS = { day: 1, week: 7, month: 30 } as const;
+
+// Below this many captures a variant's rates are too noisy to compare
+const MIN_CAPTURES_FOR_COMPARISON = 30;
+
+const formatRate = (count: number, total: number): string =>
+  total > 0 ? `${Math.round((count / total) * 100)}%` : '–';
+
+const getTemplateDescription = (promptVersion: string): string | undefined =>
+  PROMPT_TEMPLATES.find(template => getPromptVersionId(template.task, template.version) === promptVersion)?.description;
+
+export default function AdminPrompts() {
+  const router = useRouter();
+  const [stats, setStats] = useState<PromptVariantStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [timeRange, setTimeRange] = useState<keyof typeof TIME_RANGE_DAYS>('month');
+
+  const loadPromptStats = useCallback(async () => {
+    try {
+      // Check admin privileges
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        router.replace('/auth/login');
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        router.back();
+        return;
+      }
+
+      setStats(await getPromptVariantStats(TIME_RANGE_DAYS[timeRange]));
+    } catch (error) {
+      console.error('Error loading prompt stats:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [router, timeRange]);
+
+  useEffect(() => {
+    loadPromptStats();
+  }, [loadPromptStats]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadPromptStats();
+  };
+
+  const VariantRow = ({ row, isLeader }: { row: PromptVariantStats; isLeader?: boolean }) => (
+    <View style={styles.variantRow}>
+      <View style={styles.variantHeader}>
+        <Text style={styles.variantVersion}>{row.prompt_version}</Text>
+        {isLeader && (
+          <View style={styles.leaderBadge}>
+            <Ionicons name="trophy" size={12} color="white" />
+            <Text style={styles.leaderBadgeText}>Leading</Text>
+          </View>
+        )}
+      </View>
+      {getTemplateDescription(row.prompt_version) && (
+        <Text style={styles.variantDescription}>{getTemplateDescription(row.prompt_version)}</Text>
+      )}
+      <View style={styles.metricsRow}>
+        <View style={styles.metric}>
+          <Text style={styles.metricValue}>{row.captures.toLocaleString()}</Text>
+          <Text style={styles.metricLabel}>Captures</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricValue}>{formatRate(row.accepted_top_match, row.captures)}</Text>
+          <Text style={styles.metricLabel}>Top match kept</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricValue}>{row.avg_wrong_place_taps.toFixed(2)}</Text>
+          <Text style={styles.metricLabel}>Wrong-place taps</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricValue}>{formatRate(row.searched, row.captures)}</Text>
+          <Text style={styles.metricLabel}>Searched</Text>
+        </View>
+        <View style={styles.metric}>
+          <Text style={styles.metricValue}>
+            {row.avg_confidence === null ? '–' : Math.round(row.avg_confidence)}
+          </Text>
+          <Text style={styles.metricLabel}>Confidence</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading prompt experiments...</Text>
+      </View>
+    );
+  }
+
+  const unassignedStats = stats.filter(row => !row.experiment_id);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Prompt Experiments</Text>
+        <TouchableOpacity
+          style={styles.refreshButton}
+          onPress={() => loadPromptStats()}
+        >
+          <Ionicons name="refresh" size={24} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.timeRangeSelector}>
+        {(Object.keys(TIME_RANGE_DAYS) as (keyof typeof TIME_RANGE_DAYS)[]).map((range) => (
+          <TouchableOpacity
+            key={range}
+            style={[
+              styles.timeRangeButton,
+              timeRange === range && styles.timeRangeButtonActive
+            ]}
+            onPress={() => setTimeRange(range)}
+          >
+            <Text style={[
+              styles.timeRangeButtonText,
+              timeRange === range && styles.timeRangeButtonTextActive
+            ]}>
+              {range.charAt(0).toUpperCase() + range.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {PROMPT_EXPERIMENTS.map((experiment) => {
+          const variants = stats.filter(row => row.experiment_id === experiment.id);
+          const comparable = variants.every(row => row.captures >= MIN_CAPTURES_FOR_COMPARISON);
+          const leader = comparable && variants.length > 1
+            ? variants.reduce((best, row) =>
+                row.accepted_top_match / row.captures > best.accepted_top_match / best.captures ? row : best
+              )
+            : null;
+
+          return (
+            <View key={experiment.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Ionicons name="flask" size={20} color="#5856D6" />
+                <Text style={styles.cardTitle}>{experiment.id}</Text>
+              </View>
+              <Text style={styles.cardSubtitle}>
+                {experiment.task} · {experiment.description}
+              </Text>
+              <Text style={styles.cardSubtitle}>
+                Split: {experiment.variants.map(variant => `v${variant.version} ${variant.weight}`).join(' / ')}
+              </Text>
+              {variants.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  No outcomes yet. Experiments run while listed in PROMPT_EXPERIMENTS on the server.
+                </Text>
+              ) : (
+                <>
+                  {variants.map((row) => (
+                    <VariantRow key={row.prompt_version} row={row} isLeader={leader === row} />
+                  ))}
+                  {!comparable && (
+                    <Text style={styles.emptyText}>
+                      Each variant needs {MIN_CAPTURES_FOR_COMPARISON} captures before it can be compared.
+                    </Text>
+                  )}
+                </>
+              )}
+            </View>
+          );
+        })}
+
+        <Text style={styles.sectionTitle}>Outside Experiments</Text>
+        {unassignedStats.length === 0 ? (
+          <Text style={styles.emptyText}>No outcomes recorded in this period.</Text>
+        ) : (
+          <View style={styles.card}>
+            {unassignedStats.map((row) => (
+              <VariantRow key={row.prompt_version} row={row} />
+            ))}
+          </View>
+        )}
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'white',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  refreshButton: {
+    padding: 4,
+  },
+  timeRangeSelector: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  timeRangeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  timeRangeButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  timeRangeButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  timeRangeButtonTextActive: {
+    color: 'white',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 8,
+  },
+  variantRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  variantVersion: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  variantDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  leaderBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#34C759',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  leaderBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'white',
+  },
+  metricsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  metric: {
+    width: '33%',
+    paddingVertical: 6,
+  },
+  metricValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  metricLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -20,8 +20,8 @@ type Profile = Database['public']['Tables']['profiles']['Row'];
 type Place = Database['public']['Tables']['places']['Row'];
 
 interface ReportWithDetails extends Report {
-  profiles?: Profile;
-  places?: Place;
+  profiles: Pick<Profile, 'id' | 'full_name' | 'email'> | null;
+  places: Pick<Place, 'id' | 'name' | 'address' | 'category'> | null;
 }
 
 type ReportStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
@@ -0,0 +1,617 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '../../lib/supabase';
+import { getPlaceEditQueue, reviewPlaceEdit } from '../../lib/repositories/place-edits';
+import { getStaleFields, PLACE_EDIT_AUTO_APPLY_AGREEMENTS } from '../../lib/place-edits';
+import { EditChangeList } from '../../components/place-edits/EditChangeList';
+import type { PlaceEditStatus, QueuedPlaceEdit } from '../../types/place-edit';
+
+export default function AdminSuggestions() {
+  const router = useRouter();
+  const [suggestions, setSuggestions] = useState<QueuedPlaceEdit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<PlaceEditStatus>('pending');
+  const [selectedSuggestion, setSelectedSuggestion] = useState<QueuedPlaceEdit | null>(null);
+  const [showSuggestionModal, setShowSuggestionModal] = useState(false);
+  const [actionNote, setActionNote] = useState('');
+
+  const suggestionStatuses: { value: PlaceEditStatus; label: string; color: string }[] = [
+    { value: 'pending', label: 'Pending', color: '#FF9500' },
+    { value: 'applied', label: 'Applied', color: '#34C759' },
+    { value: 'rejected', label: 'Rejected', color: '#666' },
+  ];
+
+  const loadSuggestions = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        Alert.alert('Error', 'You must be logged in');
+        router.replace('/auth/login');
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        Alert.alert('Access Denied', 'Admin privileges required');
+        router.back();
+        return;
+      }
+
+      const { data, error } = await getPlaceEditQueue(supabase, statusFilter);
+      if (error) throw error;
+
+      setSuggestions(data);
+    } catch (error) {
+      console.error('Error loading edit suggestions:', error);
+      Alert.alert('Error', 'Failed to load edit suggestions');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [router, statusFilter]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadSuggestions();
+  };
+
+  const handleSuggestionPress = (suggestion: QueuedPlaceEdit) => {
+    setSelectedSuggestion(suggestion);
+    setActionNote('');
+    setShowSuggestionModal(true);
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!selectedSuggestion) return;
+
+    const { error } = await reviewPlaceEdit(supabase, selectedSuggestion.id, approve, actionNote.trim());
+    if (error) {
+      Alert.alert('Error', `Failed to ${approve ? 'apply' : 'reject'} suggestion: ${error.message}`);
+      return;
+    }
+
+    Alert.alert('Success', approve ? 'Edit applied to the place' : 'Suggestion rejected');
+    setShowSuggestionModal(false);
+    loadSuggestions();
+  };
+
+  const getStatusColor = (status: PlaceEditStatus) => {
+    const statusInfo = suggestionStatuses.find(s => s.value === status);
+    return statusInfo?.color || '#666';
+  };
+
+  // Only pending suggestions can go stale; applied ones are the place's current values
+  const getSuggestionStaleFields = (suggestion: QueuedPlaceEdit) =>
+    suggestion.status === 'pending' && suggestion.place ? getStaleFields(suggestion.changes, suggestion.place) : [];
+
+  const SuggestionCard = ({ suggestion }: { suggestion: QueuedPlaceEdit }) => (
+    <TouchableOpacity
+      style={styles.suggestionCard}
+      onPress={() => handleSuggestionPress(suggestion)}
+    >
+      <View style={styles.suggestionHeader}>
+        <View style={styles.suggestionPlace}>
+          <Ionicons name="location" size={16} color={getStatusColor(suggestion.status)} />
+          <Text style={styles.suggestionPlaceText} numberOfLines={1}>
+            {suggestion.place?.name || 'Deleted place'}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(suggestion.status) }]}>
+          <Text style={styles.statusBadgeText}>
+            {suggestion.applied_automatically ? 'Auto-applied' : suggestion.status.charAt(0).toUpperCase() + suggestion.status.slice(1)}
+          </Text>
+        </View>
+      </View>
+
+      <EditChangeList changes={suggestion.changes} staleFields={getSuggestionStaleFields(suggestion)} />
+
+      {suggestion.note && (
+        <Text style={styles.suggestionNote} numberOfLines={2}>
+          {suggestion.note}
+        </Text>
+      )}
+
+      <View style={styles.suggestionFooter}>
+        <Text style={styles.suggestionDate}>
+          {new Date(suggestion.created_at).toLocaleDateString()} · {suggestion.agreed_user_ids.length}/{PLACE_EDIT_AUTO_APPLY_AGREEMENTS} agree
+        </Text>
+        <Text style={styles.suggestionUser}>
+          by {suggestion.proposer_name || 'Unknown User'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const SuggestionModal = () => (
+    <Modal
+      visible={showSuggestionModal}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity
+            style={styles.modalCloseButton}
+            onPress={() => setShowSuggestionModal(false)}
+          >
+            <Ionicons name="close" size={24} color="#666" />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Suggested Edit</Text>
+          <View style={styles.modalHeaderSpacer} />
+        </View>
+
+        {selectedSuggestion && (
+          <ScrollView style={styles.modalContent}>
+            {selectedSuggestion.place && (
+              <View style={styles.modalSection}>
+                <Text style={styles.modalSectionTitle}>Place</Text>
+                <TouchableOpacity
+                  style={styles.placeInfo}
+                  onPress={() => {
+                    setShowSuggestionModal(false);
+                    router.push(`/place/${selectedSuggestion.place?.id}`);
+                  }}
+                >
+                  <Text style={styles.placeName}>{selectedSuggestion.place.name}</Text>
+                  <Text style={styles.placeAddress}>{selectedSuggestion.place.address}</Text>
+                  <Text style={styles.placeCategory}>{selectedSuggestion.place.category}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View style={styles.modalSection}>
+              <Text style={styles.modalSectionTitle}>Changes</Text>
+              <EditChangeList
+                changes={selectedSuggestion.changes}
+                staleFields={getSuggestionStaleFields(selectedSuggestion)}
+              />
+            </View>
+
+            <View style={styles.modalSection}>
+              <Text style={styles.modalSectionTitle}>Suggestion Information</Text>
+              <View style={styles.modalInfoRow}>
+                <Text style={styles.modalInfoLabel}>Suggested by:</Text>
+                <Text style={styles.modalInfoValue}>
+                  {selectedSuggestion.proposer_name || 'Unknown User'}
+                </Text>
+              </View>
+              <View style={styles.modalInfoRow}>
+                <Text style={styles.modalInfoLabel}>Agreements:</Text>
+                <Text style={styles.modalInfoValue}>
+                  {selectedSuggestion.agreed_user_ids.length} of {PLACE_EDIT_AUTO_APPLY_AGREEMENTS} needed
+                </Text>
+              </View>
+              <View style={styles.modalInfoRow}>
+                <Text style={styles.modalInfoLabel}>Date:</Text>
+                <Text style={styles.modalInfoValue}>
+                  {new Date(selectedSuggestion.created_at).toLocaleString()}
+                </Text>
+              </View>
+              {selectedSuggestion.reviewed_at && (
+                <View style={styles.modalInfoRow}>
+                  <Text style={styles.modalInfoLabel}>Resolved:</Text>
+                  <Text style={styles.modalInfoValue}>
+                    {new Date(selectedSuggestion.reviewed_at).toLocaleString()}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {selectedSuggestion.note && (
+              <View style={styles.modalSection}>
+                <Text style={styles.modalSectionTitle}>Note</Text>
+                <Text style={styles.noteText}>{selectedSuggestion.note}</Text>
+              </View>
+            )}
+
+            {selectedSuggestion.admin_notes && (
+              <View style={styles.modalSection}>
+                <Text style={styles.modalSectionTitle}>Admin Notes</Text>
+                <Text style={styles.adminNotes}>{selectedSuggestion.admin_notes}</Text>
+              </View>
+            )}
+
+            {selectedSuggestion.status === 'pending' && (
+              <>
+                <View style={styles.modalSection}>
+                  <Text style={styles.modalSectionTitle}>Action Notes</Text>
+                  <TextInput
+                    style={styles.actionNoteInput}
+                    placeholder="Add notes about your decision..."
+                    value={actionNote}
+                    onChangeText={setActionNote}
+                    multiline
+                    numberOfLines={3}
+                  />
+                </View>
+
+                <View style={styles.modalSection}>
+                  <Text style={styles.modalSectionTitle}>Actions</Text>
+                  <View style={styles.actionButtons}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: '#34C759' }]}
+                      onPress={() => handleReview(true)}
+                    >
+                      <Text style={styles.actionButtonText}>Apply Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: '#666' }]}
+                      onPress={() => handleReview(false)}
+                    >
+                      <Text style={styles.actionButtonText}>Reject</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>Loading edit suggestions...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Suggested Edits</Text>
+      </View>
+
+      <View style={styles.filterContainer}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScrollView}
+        >
+          {suggestionStatuses.map((status) => (
+            <TouchableOpacity
+              key={status.value}
+              style={[
+                styles.filterButton,
+                statusFilter === status.value && { backgroundColor: status.color }
+              ]}
+              onPress={() => setStatusFilter(status.value)}
+            >
+              <Text style={[
+                styles.filterButtonText,
+                statusFilter === status.value && styles.filterButtonTextActive
+              ]}>
+                {status.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <Text style={styles.resultsText}>
+          {suggestions.length} suggestion{suggestions.length !== 1 ? 's' : ''} found
+        </Text>
+
+        {suggestions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="checkmark-circle" size={64} color="#34C759" />
+            <Text style={styles.emptyTitle}>No Suggestions Found</Text>
+            <Text style={styles.emptySubtitle}>No {statusFilter} edit suggestions found</Text>
+          </View>
+        ) : (
+          suggestions.map((suggestion) => (
+            <SuggestionCard key={suggestion.id} suggestion={suggestion} />
+          ))
+        )}
+      </ScrollView>
+
+      <SuggestionModal />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  filterContainer: {
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  filterScrollView: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  filterButtonTextActive: {
+    color: 'white',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  resultsText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  suggestionCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  suggestionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  suggestionPlace: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    flex: 1,
+  },
+  suggestionPlaceText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: '600',
+  },
+  suggestionNote: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    fontStyle: 'italic',
+  },
+  suggestionFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 8,
+  },
+  suggestionDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  suggestionUser: {
+    fontSize: 12,
+    color: '#666',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 22,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'white',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCloseButton: {
+    padding: 4,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  modalHeaderSpacer: {
+    width: 32,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+  modalSection: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  modalSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  modalInfoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  modalInfoLabel: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  modalInfoValue: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+    textAlign: 'right',
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  placeInfo: {
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+  },
+  placeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  placeAddress: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  placeCategory: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  adminNotes: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    fontStyle: 'italic',
+  },
+  actionNoteInput: {
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#333',
+    textAlignVertical: 'top',
+    minHeight: 80,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
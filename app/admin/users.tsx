@@ -210,7 +210,7 @@ export default function AdminUsers() {
               <View style={styles.infoRow}>
                 <Text style={styles.infoLabel}>Created:</Text>
                 <Text style={styles.infoValue}>
-                  {new Date(selectedUser.created_at).toLocaleDateString()}
+                  {selectedUser.created_at ? new Date(selectedUser.created_at).toLocaleDateString() : 'Unknown'}
                 </Text>
               </View>
             </View>
@@ -343,7 +343,7 @@ export default function AdminUsers() {
               )}
             </View>
             <View style={styles.userBadges}>
-              {user.is_admin && (
+              {user.role === 'admin' && (
                 <View style={[styles.badge, styles.adminBadge]}>
                   <Text style={styles.badgeText}>Admin</Text>
                 </View>
@@ -354,7 +354,7 @@ export default function AdminUsers() {
                 </View>
               )}
               <Text style={styles.userDate}>
-                {new Date(user.created_at).toLocaleDateString()}
+                {user.created_at && new Date(user.created_at).toLocaleDateString()}
               </Text>
             </View>
           </TouchableOpacity>
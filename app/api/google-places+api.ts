@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import { signPhotoReference, verifyPhotoToken, withUsageQuota } from '@/lib/api-auth';
 
 // Use server-side only environment variable (no EXPO_PUBLIC prefix)
 const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
@@ -22,6 +23,7 @@ export async function GET(request: NextRequest) {
     'Access-Control-Allow-Origin': isAllowedOrigin ? (origin || '*') : 'null',
     'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Expose-Headers': 'X-Quota-Feature, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset, Retry-After',
     'Content-Type': 'application/json',
     'X-Content-Type-Options': 'nosniff',
     'X-Frame-Options': 'DENY',
@@ -38,8 +40,60 @@ export async function GET(request: NextRequest) {
     });
   }
 
+  // Photos are loaded by <Image>, which can't send the Bearer header; they carry the token
+  // signed into the search or details response instead and are not metered
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('type') === 'photo') {
+    if (!verifyPhotoToken(searchParams.get('photo_reference') || '', searchParams.get('token'))) {
+      return new Response(JSON.stringify({
+        error: 'Photo link is invalid or has expired',
+        status: 'UNAUTHORIZED'
+      }), {
+        status: 401,
+        headers: corsHeaders,
+      });
+    }
+    return proxyGooglePlaces(request, corsHeaders);
+  }
+
+  // Every other call is attributed to the signed-in user and metered against their tier
+  return withUsageQuota(request, 'places_requests', corsHeaders, () => proxyGooglePlaces(request, corsHeaders));
+}
+
+// Not a Places field: requesting it in `fields` makes the proxy look the place's IANA time zone
+// up from the Time Zone API, since Places only has the UTC offset at the time of the request
+const TIME_ZONE_FIELD = 'time_zone';
+
+async function lookUpTimeZone(location?: { lat: number; lng: number }): Promise<string | undefined> {
+  if (!location) return undefined;
+
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(`https://maps.googleapis.com/maps/api/timezone/json?location=${location.lat},${location.lng}&timestamp=${timestamp}&key=${GOOGLE_PLACES_API_KEY}`);
+    const data = await response.json();
+    if (data.status === 'OK') return data.timeZoneId;
+    console.warn('⚠️ Time zone lookup failed:', data.status, data.errorMessage);
+  } catch (error) {
+    console.warn('⚠️ Time zone lookup failed:', error);
+  }
+  return undefined;
+}
+
+type GooglePhotoHolder = { photos?: { photo_reference: string; photo_token?: string }[] };
+
+// Adds a photo_token to every photo so the client can build a loadable photo URL
+const signPhotos = (data: { results?: GooglePhotoHolder[]; result?: GooglePhotoHolder }) => {
+  [...(data.results || []), ...(data.result ? [data.result] : [])].forEach(place => {
+    place.photos?.forEach(photo => {
+      photo.photo_token = signPhotoReference(photo.photo_reference) ?? undefined;
+    });
+  });
+};
+
+async function proxyGooglePlaces(request: NextRequest, corsHeaders: Record<string, string>) {
   const { searchParams } = new URL(request.url);
   const type = searchParams.get('type'); // nearbysearch, details, textsearch
+  let includeTimeZone = false;
   
   try {
     let googleUrl = 'https://maps.googleapis.com/maps/api/place/';
@@ -98,7 +152,9 @@ export async function GET(request: NextRequest) {
         
       case 'details':
         const placeId = searchParams.get('place_id');
-        const fields = searchParams.get('fields') || 'place_id,name,formatted_address,rating,user_ratings_total,price_level,opening_hours,photos,types,geometry';
+        const requestedFields = (searchParams.get('fields') || 'place_id,name,formatted_address,rating,user_ratings_total,price_level,opening_hours,photos,types,geometry').split(',');
+        const fields = requestedFields.filter(field => field !== TIME_ZONE_FIELD).join(',');
+        includeTimeZone = requestedFields.includes(TIME_ZONE_FIELD);
         
         if (!placeId) {
           return new Response(JSON.stringify({ 
@@ -231,6 +287,10 @@ export async function GET(request: NextRequest) {
     }
     
     const data = await response.json();
+    signPhotos(data);
+    if (includeTimeZone && data.result) {
+      data.result.time_zone = await lookUpTimeZone(data.result.geometry?.location);
+    }
     
     // ENHANCED RESPONSE LOGGING FOR DEBUGGING
     if (data.status !== 'OK') {
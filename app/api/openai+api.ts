@@ -1,7 +1,58 @@
 import { NextRequest } from 'next/server';
+import { inflateSync } from 'zlib';
+import { createVisionProvider, hashContent, readImageBytes, VisionProvider, VisionCompletionRequest } from '@/lib/vision-providers';
+import {
+  completeWithSchema,
+  readPartialStorefrontAnalysis,
+  validateStorefrontAnalysis,
+  validateQuickAnalysis,
+  validateSignText,
+  validateMenuExtraction,
+  validateHoursSign,
+  SchemaResult,
+  StorefrontAnalysisPayload,
+} from '@/lib/analysis-schema';
+import { createAnalysisCache, AnalysisCacheMetadata, AnalysisImageKey } from '@/lib/analysis-cache';
+import { perceptualHashFromPng } from '@/lib/image-hash';
+import { getAdminClient, STREAMED_RESPONSE_TYPE, UNMETERED_RESPONSE_HEADER, withUsageQuota } from '@/lib/api-auth';
+import { renderPrompt } from '@/lib/prompt-templates';
+import { assignPromptVersion, PromptAssignment } from '@/lib/prompt-experiments';
+import { needsTranslation, resolveOutputLanguage } from '@/lib/localization';
+import { getPlaceTranslation, translateContent } from '@/lib/place-translations';
+import type { LocalizedPlaceReview, LocalizedStorefrontAnalysis } from '@/types/localization';
 
-// Use server-side only environment variable (no EXPO_PUBLIC prefix)
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+// Cached analyses by image hash (ANALYSIS_CACHE_STORE=none disables caching)
+const analysisCache = createAnalysisCache();
+
+// Fingerprints are 9x8 PNGs (createImageFingerprint); these bounds leave room to spare while
+// keeping a crafted one from inflating into something huge
+const MAX_FINGERPRINT_LENGTH = 8 * 1024;
+const inflateFingerprint = (data: Uint8Array) => inflateSync(data, { maxOutputLength: 64 * 1024 });
+
+// Cached storefront analyses carry the translations made of them, keyed by language, so a
+// cache hit in a language seen before does not go back to the provider
+type CachedStorefrontAnalysis = StorefrontAnalysisPayload & {
+  localizations?: Record<string, LocalizedStorefrontAnalysis>;
+};
+
+// Request body of the photo tasks, as sent by lib/openai.ts
+interface ImageTaskParams {
+  imageUri?: string;
+  alternateImageUri?: string; // Second burst frame
+  fingerprint?: unknown; // Client-made PNG, only trusted as far as getImageHashes checks it
+  location?: { latitude: number; longitude: number };
+  refresh?: boolean;
+  stream?: boolean;
+  language?: string;
+}
+
+// Burst captures can send a second frame for when the sign is blocked or blurred in the best one
+const withAlternateFrame = (prompt: string, alternateImageUri?: string): string =>
+  alternateImageUri
+    ? `${prompt}
+
+A second photo of the same storefront, taken a moment after the first, is attached. Parts of the sign may be blocked or blurred in one photo and legible in the other: combine what you can read from both, and give any positions relative to the first photo.`
+    : prompt;
 
 export async function POST(request: NextRequest) {
   // Get origin from request
@@ -24,6 +75,7 @@ export async function POST(request: NextRequest) {
     'Access-Control-Allow-Origin': isAllowedOrigin ? (origin || '*') : 'null',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Expose-Headers': 'X-Analysis-Cache, X-Quota-Feature, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset, Retry-After',
     'Content-Type': 'application/json',
     'X-Content-Type-Options': 'nosniff',
     'X-Frame-Options': 'DENY',
@@ -40,31 +92,53 @@ export async function POST(request: NextRequest) {
     });
   }
 
-  if (!OPENAI_API_KEY || OPENAI_API_KEY.trim() === '' || OPENAI_API_KEY === 'your_openai_api_key') {
-    console.error('❌ OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.');
+  // Provider is chosen by VISION_PROVIDER (openai, openai-compatible or fixture)
+  let provider: VisionProvider;
+  try {
+    provider = createVisionProvider();
+  } catch (error) {
+    console.error('❌ Vision provider not configured:', error);
     return new Response(JSON.stringify({ 
-      error: 'OpenAI API key not configured. Please check your environment variables.',
+      error: 'Vision provider not configured. Please check your environment variables.',
       status: 'CONFIGURATION_ERROR',
-      details: 'The OPENAI_API_KEY environment variable is missing or invalid.'
+      details: error instanceof Error ? error.message : 'Unknown configuration error'
     }), {
       status: 500,
       headers: corsHeaders,
     });
   }
 
+  // Every call is attributed to the signed-in user and metered against their tier
+  return withUsageQuota(request, 'ai_requests', corsHeaders, userId => handleAnalysisRequest(request, provider, corsHeaders, userId));
+}
+
+async function handleAnalysisRequest(
+  request: NextRequest,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
   try {
     const body = await request.json();
     const { type, ...params } = body;
     
     if (type === 'analyze-storefront') {
-      return await analyzeStorefront(params, corsHeaders);
+      return await analyzeStorefront(params, provider, corsHeaders, userId);
     } else if (type === 'quick-analysis') {
-      return await quickAnalysis(params, corsHeaders);
+      return await quickAnalysis(params, provider, corsHeaders, userId);
+    } else if (type === 'extract-sign-text') {
+      return await extractSignText(params, provider, corsHeaders, userId);
+    } else if (type === 'extract-menu') {
+      return await extractMenu(params, provider, corsHeaders, userId);
+    } else if (type === 'extract-hours') {
+      return await extractHours(params, provider, corsHeaders, userId);
     } else if (type === 'generate-review') {
-      return await generateReview(params, corsHeaders);
+      return await generateReview(params, provider, corsHeaders, userId);
+    } else if (type === 'translate-place') {
+      return await translatePlace(params, provider, corsHeaders, userId);
     } else {
       return new Response(JSON.stringify({ 
-        error: 'Invalid request type. Use: analyze-storefront, quick-analysis, or generate-review',
+        error: 'Invalid request type. Use: analyze-storefront, quick-analysis, extract-sign-text, extract-menu, extract-hours, generate-review, or translate-place',
         status: 'INVALID_REQUEST'
       }), {
         status: 400,
@@ -83,8 +157,13 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function analyzeStorefront(params: any, corsHeaders: any) {
-  const { imageUri, location } = params;
+async function analyzeStorefront(
+  params: ImageTaskParams,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { imageUri, alternateImageUri, location, fingerprint, refresh, stream, language } = params;
   
   if (!imageUri) {
     return new Response(JSON.stringify({ 
@@ -97,136 +176,83 @@ async function analyzeStorefront(params: any, corsHeaders: any) {
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this storefront image comprehensively to identify the business, focusing on VISUAL FEATURES even when text is not visible. Examine:
-
-VISUAL ANALYSIS (Primary - for when no text is visible):
-1) Architectural features: storefront design, awnings, color schemes, window layouts, door styles
-2) Interior elements visible: furniture type (massage chairs, dining tables, salon chairs, gym equipment, retail displays)
-3) Equipment and fixtures: professional tools, machines, displays, lighting fixtures
-4) Layout patterns: seating arrangements, workspace organization, customer flow areas
-5) Contextual clues: outdoor seating, parking setup, building style, surrounding environment
-6) Visual symbols and logos: non-text branding, color patterns, design elements
-
-BUSINESS TYPE INDICATORS:
-- Spa/Massage: massage tables, relaxation chairs, soft lighting, wellness decor, plants, tranquil colors
-- Hair/Beauty Salon: salon chairs, mirrors, hair washing stations, beauty products displays, bright lighting
-- Restaurant/Cafe: dining tables, kitchen equipment, food displays, menu boards, beverage machines
-- Gym/Fitness: exercise equipment, mirrors, weights, mats, athletic flooring
-- Retail/Store: product displays, shelving, checkout counters, shopping baskets, price tags
-- Medical: clinical equipment, white/sterile environment, examination areas, medical signage
-
-TEXT ANALYSIS (Secondary):
-7) Business name from signs, windows, doors, overlays
-8) Address or location text visible
-9) Vietnamese text or international signage
-10) Service descriptions or menu items
-
-SCORING CONFIDENCE:
-Rate your confidence (0-100) for:
-- Business type identification
-- Visual feature matching
-- Name recognition (if any)
-- Location context
-
-Return ONLY a valid JSON object with fields: 
-{
-  "businessType": "specific category",
-  "businessName": "name if visible or 'Unknown' if not",
-  "description": "detailed visual description",
-  "features": ["array of visual features observed"],
-  "visualIndicators": ["specific visual clues for business type"],
-  "confidence": {
-    "businessType": 0-100,
-    "visualFeatures": 0-100,
-    "nameRecognition": 0-100
-  },
-  "locationText": "address if visible",
-  "architecturalStyle": "building/storefront design characteristics"
-}
+    const prompt = assignPromptVersion('analyze-storefront', userId);
+    const hashes = await getImageHashes(imageUri, fingerprint, userId, alternateImageUri);
+    const signTextPromise = readSignTextForAnalysis(provider, userId, imageUri, alternateImageUri, hashes, !!refresh);
+    // refresh re-runs the analysis and replaces the cached result
+    const cached = !refresh && hashes && await analysisCache?.lookup<CachedStorefrontAnalysis>('analyze-storefront', hashes, prompt.versionId);
+    if (cached) {
+      const { localizations = {}, ...analysis } = cached.value;
+      let localized = needsTranslation(language) ? localizations[resolveOutputLanguage(language)] : undefined;
+      const translating = needsTranslation(language) && !localized;
+      if (translating) {
+        localized = await localizeStorefrontAnalysis(analysis, language, provider, userId);
+        if (localized) {
+          await saveStorefrontAnalysis(hashes, { ...analysis, localizations }, localized, prompt.versionId);
+        }
+      }
+      const signText = await signTextPromise;
+      return analysisResponse(
+        { ...analysis, coordinates: location, localized, signText: signText.value },
+        cached.cache,
+        corsHeaders,
+        prompt,
+        translating || signText.generated
+      );
+    }
 
-Do not include markdown formatting or code blocks.`
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUri
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 500
-      })
-    });
+    const completion: VisionCompletionRequest = {
+      task: 'analyze-storefront',
+      prompt: withAlternateFrame(renderPrompt(prompt.task, prompt.version), alternateImageUri),
+      imageUrl: imageUri,
+      additionalImageUrls: alternateImageUri ? [alternateImageUri] : undefined,
+      maxTokens: 500
+    };
 
-    const data = await response.json();
-    
-    if (!data.choices || !data.choices[0]) {
-      return new Response(JSON.stringify({ 
-        error: 'Invalid OpenAI response',
-        status: 'API_ERROR'
-      }), {
-        status: 500,
-        headers: corsHeaders,
+    // Streamed requests get each newly completed field as a partial event, then the result
+    // (cache hits above are answered in one piece, as they are already instant)
+    if (stream) {
+      return analysisStream(corsHeaders, async send => {
+        let lastPartial = '{}';
+        const result = await completeWithSchema(provider, {
+          ...completion,
+          onText: text => {
+            const partial = readPartialStorefrontAnalysis(text);
+            const serialized = JSON.stringify(partial);
+            if (serialized !== lastPartial) {
+              lastPartial = serialized;
+              send({ type: 'partial', data: partial });
+            }
+          },
+        }, validateStorefrontAnalysis);
+
+        if (!result.valid) {
+          console.error('❌ AI response failed schema validation after repair:', result.issues);
+          send({ type: 'error', ...schemaErrorBody(result) });
+          return;
+        }
+        const localized = await localizeStorefrontAnalysis(result.value, language, provider, userId);
+        const cache = await saveStorefrontAnalysis(hashes, result.value, localized, prompt.versionId);
+        const signText = (await signTextPromise).value;
+        send({ type: 'result', data: { ...result.value, coordinates: location, localized, signText, cache, prompt } });
       });
     }
-    
-    try {
-      let responseContent = data.choices[0].message.content.trim();
-      responseContent = responseContent.replace(/^```json\s*/gm, '');
-      responseContent = responseContent.replace(/^```\s*/gm, '');
-      responseContent = responseContent.replace(/```$/gm, '');
-      responseContent = responseContent.trim();
-      
-      const analysis = JSON.parse(responseContent);
-      
-      const result = {
-        businessType: analysis.businessType,
-        businessName: analysis.businessName || 'Unknown Business',
-        description: analysis.description || 'Business storefront',
-        features: Array.isArray(analysis.features) ? analysis.features : [],
-        visualIndicators: Array.isArray(analysis.visualIndicators) ? analysis.visualIndicators : [],
-        confidence: analysis.confidence || {
-          businessType: 50,
-          visualFeatures: 50,
-          nameRecognition: 0
-        },
-        architecturalStyle: analysis.architecturalStyle || 'Standard storefront',
-        locationText: analysis.locationText || undefined,
-        coordinates: location
-      };
-      
-      return new Response(JSON.stringify(result), {
-        status: 200,
-        headers: corsHeaders,
-      });
-    } catch (parseError) {
-      return new Response(JSON.stringify({ 
-        error: 'Failed to parse AI response',
-        status: 'PARSE_ERROR'
-      }), {
-        status: 500,
-        headers: corsHeaders,
-      });
+
+    const result = await completeWithSchema(provider, completion, validateStorefrontAnalysis);
+
+    if (!result.valid) {
+      return schemaErrorResponse(result, corsHeaders);
     }
-  } catch (error) {
+    
+    const localized = await localizeStorefrontAnalysis(result.value, language, provider, userId);
+    const cache = await saveStorefrontAnalysis(hashes, result.value, localized, prompt.versionId);
+    const signText = (await signTextPromise).value;
+    return analysisResponse({ ...result.value, coordinates: location, localized, signText }, cache, corsHeaders, prompt);
+  } catch {
     return new Response(JSON.stringify({ 
-      error: 'OpenAI API request failed',
-      status: 'API_ERROR'
+      error: 'Vision provider request failed',
+      status: 'API_ERROR',
+      code: 'PROVIDER_ERROR'
     }), {
       status: 500,
       headers: corsHeaders,
@@ -234,8 +260,13 @@ Do not include markdown formatting or code blocks.`
   }
 }
 
-async function generateReview(params: any, corsHeaders: any) {
-  const { businessName, businessType, googleReviews } = params;
+async function generateReview(
+  params: any,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { businessName, businessType, googleReviews, language } = params;
   
   if (!businessName || !businessType || !googleReviews || googleReviews.length === 0) {
     return new Response(JSON.stringify({ 
@@ -264,50 +295,15 @@ async function generateReview(params: any, corsHeaders: any) {
       });
     }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'user',
-            content: `Analyze these Google reviews for ${businessName} (${businessType}) and create a comprehensive summary. Based on the actual customer reviews, provide:
-
-1. summary: A brief overview of what customers think
-2. pros: Array of positive aspects mentioned by customers
-3. cons: Array of negative aspects or concerns mentioned by customers  
-4. recommendations: Array of helpful tips for future visitors
-5. overallSentiment: "positive", "neutral", or "negative"
-6. bestFor: Array of what this place is best suited for
-
-Return ONLY a valid JSON object with these fields. Do not include markdown formatting or code blocks.
-
-Reviews:
-${reviewTexts}`
-          }
-        ],
-        max_tokens: 800
-      })
+    const prompt = assignPromptVersion('generate-review', userId);
+    const content = await provider.complete({
+      task: 'generate-review',
+      prompt: renderPrompt(prompt.task, prompt.version, { businessName, businessType, reviewTexts }),
+      maxTokens: 800
     });
-
-    const data = await response.json();
-    
-    if (!data.choices || !data.choices[0]) {
-      return new Response(JSON.stringify({ 
-        error: 'Invalid OpenAI response',
-        status: 'API_ERROR'
-      }), {
-        status: 500,
-        headers: corsHeaders,
-      });
-    }
     
     try {
-      let responseContent = data.choices[0].message.content.trim();
+      let responseContent = content.trim();
       responseContent = responseContent.replace(/^```json\s*/gm, '');
       responseContent = responseContent.replace(/^```\s*/gm, '');
       responseContent = responseContent.replace(/```$/gm, '');
@@ -323,14 +319,16 @@ ${reviewTexts}`
         overallSentiment: ['positive', 'neutral', 'negative'].includes(review.overallSentiment) 
           ? review.overallSentiment : 'neutral',
         popularTimes: review.popularTimes || 'Peak hours vary',
-        bestFor: Array.isArray(review.bestFor) ? review.bestFor : ['General visits']
+        bestFor: Array.isArray(review.bestFor) ? review.bestFor : ['General visits'],
+        prompt
       };
+      const localized = await localizePlaceReview(result, language, provider, userId);
       
-      return new Response(JSON.stringify(result), {
+      return new Response(JSON.stringify({ ...result, localized }), {
         status: 200,
         headers: corsHeaders,
       });
-    } catch (parseError) {
+    } catch {
       return new Response(JSON.stringify({ 
         error: 'Failed to parse AI response',
         status: 'PARSE_ERROR'
@@ -339,9 +337,9 @@ ${reviewTexts}`
         headers: corsHeaders,
       });
     }
-  } catch (error) {
+  } catch {
     return new Response(JSON.stringify({ 
-      error: 'OpenAI API request failed',
+      error: 'Vision provider request failed',
       status: 'API_ERROR'
     }), {
       status: 500,
@@ -350,8 +348,13 @@ ${reviewTexts}`
   }
 }
 
-async function quickAnalysis(params: any, corsHeaders: any) {
-  const { imageUri } = params;
+async function quickAnalysis(
+  params: ImageTaskParams,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { imageUri, fingerprint } = params;
   
   if (!imageUri) {
     return new Response(JSON.stringify({ 
@@ -364,109 +367,340 @@ async function quickAnalysis(params: any, corsHeaders: any) {
   }
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // Use faster, cheaper model for quick analysis
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `QUICK BUSINESS TYPE IDENTIFICATION - Respond in under 2 seconds.
-
-Look at this image and identify the business type based on OBVIOUS visual cues only:
-
-BUSINESS TYPES TO IDENTIFY:
-- Restaurant (dining tables, food displays, kitchen visible)
-- Cafe/Coffee Shop (coffee machines, pastry displays, casual seating)
-- Spa/Massage (massage tables, relaxation chairs, wellness decor)
-- Beauty/Hair Salon (salon chairs, mirrors, hair equipment)
-- Gym/Fitness (exercise equipment, weights, mirrors)
-- Retail/Store (product displays, shelving, checkout counters)
-- Bar/Nightclub (bar counter, alcohol displays, dim lighting)
-- Medical/Clinic (clinical equipment, white/sterile environment)
-- Hotel/Lodging (reception desk, hotel furniture, lobby)
-- Other (if none of the above clearly match)
-
-CONFIDENCE SCORING:
-- 90-100: Extremely obvious (multiple clear indicators)
-- 70-89: Very clear (several good indicators)
-- 50-69: Moderately clear (some indicators)
-- 30-49: Somewhat unclear (few indicators)
-- 0-29: Very unclear (no clear indicators)
-
-Return ONLY a JSON object:
-{
-  "businessType": "specific type from list above",
-  "confidence": 0-100,
-  "visualCues": ["list", "of", "obvious", "visual", "elements", "seen"]
+    const prompt = assignPromptVersion('quick-analysis', userId);
+    const hashes = await getImageHashes(imageUri, fingerprint, userId);
+    const cached = hashes && await analysisCache?.lookup<object>('quick-analysis', hashes, prompt.versionId);
+    if (cached) {
+      return analysisResponse(cached.value, cached.cache, corsHeaders, prompt);
+    }
+
+    const result = await completeWithSchema(provider, {
+      task: 'quick-analysis',
+      prompt: renderPrompt(prompt.task, prompt.version),
+      imageUrl: imageUri,
+      maxTokens: 200,
+      temperature: 0.1
+    }, validateQuickAnalysis);
+
+    if (!result.valid) {
+      return schemaErrorResponse(result, corsHeaders);
+    }
+    
+    const cache = hashes && analysisCache
+      ? await analysisCache.save('quick-analysis', hashes, result.value, prompt.versionId)
+      : { hit: false };
+    return analysisResponse(result.value, cache, corsHeaders, prompt);
+  } catch {
+    return new Response(JSON.stringify({ 
+      error: 'Vision provider request failed',
+      status: 'API_ERROR',
+      code: 'PROVIDER_ERROR'
+    }), {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
 }
 
-NO markdown, no explanation, just the JSON.`
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUri
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 200, // Keep response short
-        temperature: 0.1 // Low temperature for consistency
-      })
+// OCR step: raw sign text blocks plus the business name in original, Latin and English forms
+async function extractSignText(
+  params: ImageTaskParams,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { imageUri, alternateImageUri, fingerprint, refresh } = params;
+  
+  if (!imageUri) {
+    return new Response(JSON.stringify({ 
+      error: 'Image URI is required',
+      status: 'INVALID_REQUEST'
+    }), {
+      status: 400,
+      headers: corsHeaders,
     });
+  }
+
+  try {
+    const prompt = assignPromptVersion('extract-sign-text', userId);
+    const hashes = await getImageHashes(imageUri, fingerprint, userId, alternateImageUri);
+    const cached = !refresh && hashes && await analysisCache?.lookup<object>('extract-sign-text', hashes, prompt.versionId);
+    if (cached) {
+      return analysisResponse(cached.value, cached.cache, corsHeaders, prompt);
+    }
+
+    const result = await completeWithSchema(provider, signTextCompletion(prompt, imageUri, alternateImageUri), validateSignText);
 
-    const data = await response.json();
+    if (!result.valid) {
+      return schemaErrorResponse(result, corsHeaders);
+    }
     
-    if (!data.choices || !data.choices[0]) {
-      return new Response(JSON.stringify({ 
-        error: 'Invalid OpenAI response',
-        status: 'API_ERROR'
-      }), {
-        status: 500,
-        headers: corsHeaders,
-      });
+    const cache = hashes && analysisCache
+      ? await analysisCache.save('extract-sign-text', hashes, result.value, prompt.versionId)
+      : { hit: false };
+    return analysisResponse(result.value, cache, corsHeaders, prompt);
+  } catch {
+    return new Response(JSON.stringify({ 
+      error: 'Vision provider request failed',
+      status: 'API_ERROR',
+      code: 'PROVIDER_ERROR'
+    }), {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+}
+
+function signTextCompletion(
+  prompt: PromptAssignment,
+  imageUri: string,
+  alternateImageUri?: string
+): VisionCompletionRequest {
+  return {
+    task: 'extract-sign-text',
+    prompt: withAlternateFrame(renderPrompt(prompt.task, prompt.version), alternateImageUri),
+    imageUrl: imageUri,
+    additionalImageUrls: alternateImageUri ? [alternateImageUri] : undefined,
+    maxTokens: 800,
+    temperature: 0
+  };
+}
+
+// The OCR step folded into analyze-storefront, so a capture is one metered request. Best-effort:
+// a failure leaves signText null rather than failing the analysis.
+async function readSignTextForAnalysis(
+  provider: VisionProvider,
+  userId: string | null,
+  imageUri: string,
+  alternateImageUri: string | undefined,
+  hashes: AnalysisImageKey | null,
+  refresh: boolean
+): Promise<{ value: object | null; generated: boolean }> {
+  try {
+    const prompt = assignPromptVersion('extract-sign-text', userId);
+    const cached = !refresh && hashes && await analysisCache?.lookup<object>('extract-sign-text', hashes, prompt.versionId);
+    if (cached) {
+      return { value: cached.value, generated: false };
+    }
+
+    const result = await completeWithSchema(provider, signTextCompletion(prompt, imageUri, alternateImageUri), validateSignText);
+    if (!result.valid) {
+      console.warn('⚠️ Sign text failed schema validation, analyzing without it:', result.issues);
+      return { value: null, generated: true };
+    }
+    if (hashes && analysisCache) {
+      await analysisCache.save('extract-sign-text', hashes, result.value, prompt.versionId);
+    }
+    return { value: result.value, generated: true };
+  } catch (error) {
+    console.warn('⚠️ Sign text extraction failed, analyzing without it:', error);
+    return { value: null, generated: false };
+  }
+}
+
+// Menu / price-board photo -> sections, items and prices
+async function extractMenu(
+  params: ImageTaskParams,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { imageUri, fingerprint } = params;
+  
+  if (!imageUri) {
+    return new Response(JSON.stringify({ 
+      error: 'Image URI is required',
+      status: 'INVALID_REQUEST'
+    }), {
+      status: 400,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const prompt = assignPromptVersion('extract-menu', userId);
+    const hashes = await getImageHashes(imageUri, fingerprint, userId);
+    const cached = hashes && await analysisCache?.lookup<object>('extract-menu', hashes, prompt.versionId);
+    if (cached) {
+      return analysisResponse(cached.value, cached.cache, corsHeaders, prompt);
+    }
+
+    const result = await completeWithSchema(provider, {
+      task: 'extract-menu',
+      prompt: renderPrompt(prompt.task, prompt.version),
+      imageUrl: imageUri,
+      maxTokens: 2000,
+      temperature: 0
+    }, validateMenuExtraction);
+
+    if (!result.valid) {
+      return schemaErrorResponse(result, corsHeaders);
     }
     
-    try {
-      let responseContent = data.choices[0].message.content.trim();
-      responseContent = responseContent.replace(/^```json\s*/gm, '');
-      responseContent = responseContent.replace(/^```\s*/gm, '');
-      responseContent = responseContent.replace(/```$/gm, '');
-      responseContent = responseContent.trim();
-      
-      const analysis = JSON.parse(responseContent);
-      
-      const result = {
-        businessType: analysis.businessType || 'Other',
-        confidence: Math.max(0, Math.min(100, analysis.confidence || 0)),
-        visualCues: Array.isArray(analysis.visualCues) ? analysis.visualCues : []
-      };
-      
-      return new Response(JSON.stringify(result), {
-        status: 200,
-        headers: corsHeaders,
-      });
-    } catch (parseError) {
+    const cache = hashes && analysisCache
+      ? await analysisCache.save('extract-menu', hashes, result.value, prompt.versionId)
+      : { hit: false };
+    return analysisResponse(result.value, cache, corsHeaders, prompt);
+  } catch {
+    return new Response(JSON.stringify({ 
+      error: 'Vision provider request failed',
+      status: 'API_ERROR',
+      code: 'PROVIDER_ERROR'
+    }), {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// Opening-hours sign photo -> per-day shifts
+async function extractHours(
+  params: ImageTaskParams,
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { imageUri, fingerprint } = params;
+  
+  if (!imageUri) {
+    return new Response(JSON.stringify({ 
+      error: 'Image URI is required',
+      status: 'INVALID_REQUEST'
+    }), {
+      status: 400,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const prompt = assignPromptVersion('extract-hours', userId);
+    const hashes = await getImageHashes(imageUri, fingerprint, userId);
+    const cached = hashes && await analysisCache?.lookup<object>('extract-hours', hashes, prompt.versionId);
+    if (cached) {
+      return analysisResponse(cached.value, cached.cache, corsHeaders, prompt);
+    }
+
+    const result = await completeWithSchema(provider, {
+      task: 'extract-hours',
+      prompt: renderPrompt(prompt.task, prompt.version),
+      imageUrl: imageUri,
+      maxTokens: 800,
+      temperature: 0
+    }, validateHoursSign);
+
+    if (!result.valid) {
+      return schemaErrorResponse(result, corsHeaders);
+    }
+    
+    const cache = hashes && analysisCache
+      ? await analysisCache.save('extract-hours', hashes, result.value, prompt.versionId)
+      : { hit: false };
+    return analysisResponse(result.value, cache, corsHeaders, prompt);
+  } catch {
+    return new Response(JSON.stringify({ 
+      error: 'Vision provider request failed',
+      status: 'API_ERROR',
+      code: 'PROVIDER_ERROR'
+    }), {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// Translations are best-effort: when one fails the client shows the English output
+async function localizeStorefrontAnalysis(
+  analysis: StorefrontAnalysisPayload,
+  language: string | undefined,
+  provider: VisionProvider,
+  userId: string | null
+): Promise<LocalizedStorefrontAnalysis | undefined> {
+  if (!needsTranslation(language)) return undefined;
+  const { businessType, description, features, visualIndicators, architecturalStyle } = analysis;
+  try {
+    const { value } = await translateContent(
+      provider,
+      { businessType, description, features, visualIndicators, architecturalStyle },
+      language!,
+      userId
+    );
+    return { language: resolveOutputLanguage(language), ...value };
+  } catch (error) {
+    console.warn('⚠️ Storefront analysis translation failed, returning English:', error);
+    return undefined;
+  }
+}
+
+async function localizePlaceReview(
+  review: Omit<LocalizedPlaceReview, 'language'>,
+  language: string | undefined,
+  provider: VisionProvider,
+  userId: string | null
+): Promise<LocalizedPlaceReview | undefined> {
+  if (!needsTranslation(language)) return undefined;
+  const { summary, pros, cons, recommendations, bestFor } = review;
+  try {
+    const { value } = await translateContent(provider, { summary, pros, cons, recommendations, bestFor }, language!, userId);
+    return { language: resolveOutputLanguage(language), ...value };
+  } catch (error) {
+    console.warn('⚠️ Review summary translation failed, returning English:', error);
+    return undefined;
+  }
+}
+
+// A saved place's AI summary in the viewer's language, from place_translations when cached
+// (the app reads that table directly first, so this is mostly reached on a cache miss)
+async function translatePlace(
+  params: { placeId?: unknown; language?: unknown },
+  provider: VisionProvider,
+  corsHeaders: Record<string, string>,
+  userId: string | null
+) {
+  const { placeId, language } = params;
+
+  if (typeof placeId !== 'string' || !placeId || typeof language !== 'string' || !language) {
+    return new Response(JSON.stringify({ 
+      error: 'Place ID and language are required',
+      status: 'INVALID_REQUEST'
+    }), {
+      status: 400,
+      headers: corsHeaders,
+    });
+  }
+
+  const client = getAdminClient();
+  if (!client) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to cache place translations.');
+    return new Response(JSON.stringify({ 
+      error: 'Place translations are not configured',
+      status: 'CONFIGURATION_ERROR'
+    }), {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const translation = await getPlaceTranslation(client, provider, placeId, language, userId);
+    if (!translation) {
       return new Response(JSON.stringify({ 
-        error: 'Failed to parse AI response',
-        status: 'PARSE_ERROR'
+        error: 'Place not found',
+        status: 'NOT_FOUND'
       }), {
-        status: 500,
+        status: 404,
         headers: corsHeaders,
       });
     }
+
+    // Only a newly generated translation counts against the quota
+    return new Response(JSON.stringify({ placeId, language: resolveOutputLanguage(language), ...translation.summary }), {
+      status: 200,
+      headers: translation.generated ? corsHeaders : { ...corsHeaders, [UNMETERED_RESPONSE_HEADER]: '1' },
+    });
   } catch (error) {
+    console.error('❌ Place translation failed:', error);
     return new Response(JSON.stringify({ 
-      error: 'OpenAI API request failed',
+      error: 'Vision provider request failed',
       status: 'API_ERROR'
     }), {
       status: 500,
@@ -475,6 +709,116 @@ NO markdown, no explanation, just the JSON.`
   }
 }
 
+// Content hash of the bytes the provider analyses (both frames when a burst sends two), plus a
+// perceptual hash of the client's PNG fingerprint for matching near-duplicates of the same
+// user's photos. Images the server cannot read itself are not cached.
+async function getImageHashes(
+  imageUri: string,
+  fingerprint: unknown,
+  userId: string | null,
+  alternateImageUri?: string
+): Promise<AnalysisImageKey | null> {
+  if (!analysisCache) return null;
+
+  const bytes = await readImageBytes(imageUri);
+  if (!bytes) return null;
+  let contentHash = hashContent(bytes);
+  if (alternateImageUri) {
+    const alternateBytes = await readImageBytes(alternateImageUri);
+    if (!alternateBytes) return null;
+    contentHash = hashContent(`${contentHash}:${hashContent(alternateBytes)}`);
+  }
+
+  const perceptualHash = !alternateImageUri && typeof fingerprint === 'string' && fingerprint.length <= MAX_FINGERPRINT_LENGTH
+    ? perceptualHashFromPng(fingerprint, inflateFingerprint)
+    : null;
+  return { contentHash, perceptualHash, ownerId: userId };
+}
+
+// Caches a storefront analysis along with the translation made for this request
+async function saveStorefrontAnalysis(
+  hashes: AnalysisImageKey | null,
+  analysis: CachedStorefrontAnalysis,
+  localized: LocalizedStorefrontAnalysis | undefined,
+  promptVersion: string
+): Promise<AnalysisCacheMetadata> {
+  if (!hashes || !analysisCache) return { hit: false };
+
+  const localizations = localized
+    ? { ...analysis.localizations, [localized.language]: localized }
+    : analysis.localizations;
+  return analysisCache.save('analyze-storefront', hashes, { ...analysis, localizations }, promptVersion);
+}
+
+// Cache hits did no AI work, so they don't count against the quota
+function analysisResponse(
+  result: object,
+  cache: AnalysisCacheMetadata,
+  corsHeaders: Record<string, string>,
+  prompt: PromptAssignment,
+  generated = !cache.hit
+) {
+  return new Response(JSON.stringify({ ...result, cache, prompt }), {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'X-Analysis-Cache': cache.hit ? `HIT-${cache.match?.toUpperCase()}` : 'MISS',
+      ...(generated ? {} : { [UNMETERED_RESPONSE_HEADER]: '1' }),
+    },
+  });
+}
+
+// Newline-delimited JSON events: any number of partials, then one result or error.
+// The status is already 200 once streaming starts, so failures travel as error events.
+function analysisStream(corsHeaders: Record<string, string>, produce: (send: (event: object) => void) => Promise<void>) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error('❌ Streamed analysis failed:', error);
+        send({
+          type: 'error',
+          error: 'Vision provider request failed',
+          status: 'API_ERROR',
+          code: 'PROVIDER_ERROR'
+        });
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': STREAMED_RESPONSE_TYPE,
+      'Cache-Control': 'no-cache',
+      'X-Analysis-Cache': 'MISS',
+    },
+  });
+}
+
+function schemaErrorBody(result: Extract<SchemaResult<unknown>, { valid: false }>) {
+  return {
+    error: 'AI response did not match the expected format',
+    status: 'PARSE_ERROR',
+    code: result.code,
+    issues: result.issues
+  };
+}
+
+// Returned when the model output is still invalid after the repair round
+function schemaErrorResponse(result: Extract<SchemaResult<unknown>, { valid: false }>, corsHeaders: Record<string, string>) {
+  console.error('❌ AI response failed schema validation after repair:', result.issues);
+  return new Response(JSON.stringify(schemaErrorBody(result)), {
+    status: 502,
+    headers: corsHeaders,
+  });
+}
+
 export async function OPTIONS(request: NextRequest) {
   const origin = request.headers.get('origin');
   const allowedOrigins = [
@@ -0,0 +1,71 @@
+import { timingSafeEqual } from 'crypto';
+import { createVisionProvider } from '@/lib/vision-providers';
+import { getAdminClient, getBearerToken } from '@/lib/api-auth';
+import { createGoogleReviewFetcher, DEFAULT_SUMMARY_JOB_LIMIT, runSummaryRegeneration } from '@/lib/review-summaries';
+
+// Summary regeneration job, called by a scheduler (e.g. hourly) with
+// "Authorization: Bearer $SUMMARY_JOB_SECRET". Optional JSON body:
+//   { "placeId": "...", "force": true }  re-summarise one place even without material changes
+//   { "limit": 50 }                      how many changed places to look at in this run
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+const respond = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: jsonHeaders });
+
+const isAuthorized = (request: Request, secret: string): boolean => {
+  const token = getBearerToken(request);
+  if (!token) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export async function POST(request: Request) {
+  const secret = process.env.SUMMARY_JOB_SECRET;
+  if (!secret) {
+    console.error('❌ SUMMARY_JOB_SECRET is required to run the summary job.');
+    return respond({ error: 'Summary job is not configured', status: 'CONFIGURATION_ERROR' }, 500);
+  }
+  if (!isAuthorized(request, secret)) {
+    return respond({ error: 'Unauthorized', status: 'UNAUTHORIZED' }, 401);
+  }
+
+  const client = getAdminClient();
+  if (!client) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to run the summary job.');
+    return respond({ error: 'Database access is not configured', status: 'CONFIGURATION_ERROR' }, 500);
+  }
+
+  let provider;
+  try {
+    provider = createVisionProvider();
+  } catch (error) {
+    console.error('❌ Vision provider not configured:', error);
+    return respond({ error: 'Vision provider not configured', status: 'CONFIGURATION_ERROR' }, 500);
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const placeId = typeof body?.placeId === 'string' ? body.placeId : undefined;
+  const limit = Number.isInteger(body?.limit) && body.limit > 0 ? body.limit : DEFAULT_SUMMARY_JOB_LIMIT;
+
+  // Without a Places key the job still runs, summarising in-app reviews only
+  const googleKey = process.env.GOOGLE_PLACES_API_KEY;
+  const fetchGoogleReviews = googleKey
+    ? createGoogleReviewFetcher(googleKey)
+    : async () => [];
+
+  try {
+    const result = await runSummaryRegeneration(
+      { client, provider, fetchGoogleReviews },
+      { placeIds: placeId ? [placeId] : undefined, limit, force: body?.force === true }
+    );
+    console.log(`📝 Summary job: ${result.regenerated.length} regenerated, ${result.unchanged.length} unchanged, ${result.failed.length} failed`);
+    return respond({ ...result }, 200);
+  } catch (error) {
+    console.error('❌ Summary job failed:', error);
+    return respond({
+      error: error instanceof Error ? error.message : 'Summary job failed',
+      status: 'INTERNAL_ERROR',
+    }, 500);
+  }
+}
@@ -0,0 +1,638 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Check, X, Search, RotateCcw, Star } from 'lucide-react-native';
+import { getCurrentUser, getUserCollections } from '@/lib/supabase';
+import { useBatchCapture } from '@/hooks/useBatchCapture';
+import { useHaptics } from '@/hooks/useHaptics';
+import { BatchCaptureItem, BatchCaptureStatus } from '@/types/capture';
+
+interface CollectionOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
+const STATUS_LABELS: Record<BatchCaptureStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading...',
+  analyzing: 'Analyzing...',
+  matching: 'Finding place...',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+export default function BatchReviewScreen() {
+  const router = useRouter();
+  const haptics = useHaptics();
+  const mounted = useRef(true);
+  const {
+    items,
+    inProgressCount,
+    confirmedCount,
+    selectCandidate,
+    confirm,
+    discard,
+    restore,
+    retry,
+    searchCandidates,
+    saveConfirmed,
+    clear,
+  } = useBatchCapture();
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [isPublic, setIsPublic] = useState(true);
+  const [fixingItemId, setFixingItemId] = useState<string | null>(null);
+  const [fixQuery, setFixQuery] = useState('');
+  const [isFixSearching, setIsFixSearching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadCollections();
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const loadCollections = async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) return;
+
+      const userCollections = await getUserCollections(user.id);
+      if (mounted.current) {
+        setCollections(userCollections.map(c => ({ id: c.id, name: c.name, color: c.color })));
+      }
+    } catch (error) {
+      console.error('❌ Error loading collections for batch review:', error);
+    }
+  };
+
+  const handleBack = () => {
+    haptics.navigationBack();
+    router.back();
+  };
+
+  const handleStartFix = (item: BatchCaptureItem) => {
+    setFixingItemId(item.id);
+    setFixQuery(item.analysis?.businessName && item.analysis.businessName !== 'Unknown'
+      ? item.analysis.businessName
+      : '');
+  };
+
+  const handleFixSearch = async () => {
+    if (!fixingItemId || !fixQuery.trim()) return;
+
+    setIsFixSearching(true);
+    try {
+      await searchCandidates(fixingItemId, fixQuery);
+      setFixingItemId(null);
+      setFixQuery('');
+    } catch (error) {
+      console.error('❌ Error searching replacement candidates:', error);
+      Alert.alert('Search Error', 'Failed to search for places. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setIsFixSearching(false);
+      }
+    }
+  };
+
+  const handleSaveAll = async () => {
+    if (confirmedCount === 0) {
+      Alert.alert('Nothing to Save', 'Confirm at least one place before saving.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await saveConfirmed({
+        collectionId: selectedCollectionId || undefined,
+        isPublic,
+      });
+
+      haptics.addToCollection();
+      const existingMessage = result.existing > 0
+        ? `\n${result.existing} ${result.existing === 1 ? 'was' : 'were'} already on FrontSnap${selectedCollectionId ? ' and went into your collection' : ''}.`
+        : '';
+      const failedMessage = result.failed.length > 0
+        ? `\n${result.failed.length} could not be saved and are still listed for review.`
+        : '';
+
+      Alert.alert(
+        'Batch Saved',
+        `${result.saved} place${result.saved === 1 ? '' : 's'} saved.${existingMessage}${failedMessage}`,
+        [
+          {
+            text: 'Done',
+            onPress: () => {
+              if (result.failed.length === 0) {
+                clear();
+                router.back();
+              }
+            }
+          }
+        ]
+      );
+    } catch (error) {
+      console.error('❌ Error saving batch:', error);
+      Alert.alert('Error', `Failed to save places: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (mounted.current) {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const renderItem = (item: BatchCaptureItem) => {
+    const isDiscarded = item.decision === 'discarded';
+    const isSaved = !!item.savedPlaceId;
+
+    return (
+      <View key={item.id} style={[styles.itemCard, isDiscarded && styles.itemCardDiscarded]}>
+        <View style={styles.itemHeader}>
+          <Image
+            source={{ uri: item.thumbnailUrl || item.localUri }}
+            style={styles.itemImage}
+            contentFit="cover"
+            cachePolicy="memory-disk"
+          />
+          <View style={styles.itemHeaderInfo}>
+            <Text style={styles.itemName} numberOfLines={1}>
+              {item.analysis?.businessName || 'Analyzing storefront'}
+            </Text>
+            {item.analysis?.businessType && (
+              <Text style={styles.itemType}>{item.analysis.businessType}</Text>
+            )}
+            <View style={styles.statusRow}>
+              {item.status !== 'ready' && item.status !== 'failed' && (
+                <ActivityIndicator size="small" color="#007AFF" />
+              )}
+              <Text style={[styles.statusText, item.status === 'failed' && styles.statusTextError]}>
+                {isSaved ? 'Saved' : STATUS_LABELS[item.status]}
+              </Text>
+            </View>
+            {item.error && <Text style={styles.errorText} numberOfLines={2}>{item.error}</Text>}
+          </View>
+        </View>
+
+        {item.status === 'ready' && !isDiscarded && !isSaved && (
+          <View style={styles.candidates}>
+            {item.candidates.length === 0 ? (
+              <Text style={styles.noCandidatesText}>No matching places found. Use Fix to search by name.</Text>
+            ) : (
+              item.candidates.map(candidate => {
+                const isSelected = candidate.place_id === item.selectedPlaceId;
+                return (
+                  <TouchableOpacity
+                    key={candidate.place_id}
+                    style={[styles.candidate, isSelected && styles.candidateSelected]}
+                    onPress={() => { haptics.selectionFeedback(); selectCandidate(item.id, candidate.place_id); }}
+                  >
+                    <View style={styles.candidateInfo}>
+                      <Text style={styles.candidateName} numberOfLines={1}>{candidate.name}</Text>
+                      <Text style={styles.candidateAddress} numberOfLines={1}>{candidate.formatted_address}</Text>
+                    </View>
+                    {candidate.rating ? (
+                      <View style={styles.candidateRating}>
+                        <Star size={12} color="#FFD700" strokeWidth={2} fill="#FFD700" />
+                        <Text style={styles.candidateRatingText}>{candidate.rating}</Text>
+                      </View>
+                    ) : null}
+                    {isSelected && <Check size={16} color="#007AFF" strokeWidth={2} />}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            {fixingItemId === item.id && (
+              <View style={styles.fixRow}>
+                <TextInput
+                  style={styles.fixInput}
+                  placeholder="Business name"
+                  value={fixQuery}
+                  onChangeText={setFixQuery}
+                  onSubmitEditing={handleFixSearch}
+                  autoFocus
+                />
+                <TouchableOpacity style={styles.fixSearchButton} onPress={handleFixSearch} disabled={isFixSearching}>
+                  {isFixSearching ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Search size={16} color="#FFFFFF" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {!isSaved && (
+          <View style={styles.itemActions}>
+            {item.status === 'failed' && (
+              <TouchableOpacity style={styles.actionBtn} onPress={() => retry(item.id)}>
+                <RotateCcw size={14} color="#007AFF" strokeWidth={2} />
+                <Text style={styles.actionBtnText}>Retry</Text>
+              </TouchableOpacity>
+            )}
+            {item.status === 'ready' && !isDiscarded && (
+              <>
+                <TouchableOpacity
+                  style={[styles.actionBtn, item.decision === 'confirmed' && styles.actionBtnConfirmed]}
+                  onPress={() => { haptics.buttonPress(); confirm(item.id); }}
+                  disabled={!item.selectedPlaceId}
+                >
+                  <Check size={14} color={item.decision === 'confirmed' ? '#FFFFFF' : '#007AFF'} strokeWidth={2} />
+                  <Text style={[styles.actionBtnText, item.decision === 'confirmed' && styles.actionBtnTextConfirmed]}>
+                    {item.decision === 'confirmed' ? 'Confirmed' : 'Confirm'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionBtn} onPress={() => handleStartFix(item)}>
+                  <Search size={14} color="#007AFF" strokeWidth={2} />
+                  <Text style={styles.actionBtnText}>Fix</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            {isDiscarded ? (
+              <TouchableOpacity style={styles.actionBtn} onPress={() => restore(item.id)}>
+                <RotateCcw size={14} color="#007AFF" strokeWidth={2} />
+                <Text style={styles.actionBtnText}>Restore</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.actionBtn} onPress={() => { haptics.buttonPress(); discard(item.id); }}>
+                <X size={14} color="#FF3B30" strokeWidth={2} />
+                <Text style={[styles.actionBtnText, styles.discardText]}>Discard</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color="#007AFF" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Review Batch ({items.length})</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {inProgressCount > 0 && (
+          <View style={styles.progressBanner}>
+            <ActivityIndicator size="small" color="#007AFF" />
+            <Text style={styles.progressBannerText}>
+              {inProgressCount} photo{inProgressCount === 1 ? '' : 's'} still being analyzed
+            </Text>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Save to Collection</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.collectionChips}>
+          <TouchableOpacity
+            style={[styles.collectionChip, !selectedCollectionId && styles.collectionChipSelected]}
+            onPress={() => setSelectedCollectionId(null)}
+          >
+            <Text style={[styles.collectionChipText, !selectedCollectionId && styles.collectionChipTextSelected]}>
+              None
+            </Text>
+          </TouchableOpacity>
+          {collections.map(collection => (
+            <TouchableOpacity
+              key={collection.id}
+              style={[styles.collectionChip, selectedCollectionId === collection.id && styles.collectionChipSelected]}
+              onPress={() => setSelectedCollectionId(collection.id)}
+            >
+              <View style={[styles.collectionDot, { backgroundColor: collection.color }]} />
+              <Text
+                style={[
+                  styles.collectionChipText,
+                  selectedCollectionId === collection.id && styles.collectionChipTextSelected
+                ]}
+              >
+                {collection.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <View style={styles.visibilityRow}>
+          <Text style={styles.visibilityLabel}>Recommend to community</Text>
+          <Switch value={isPublic} onValueChange={setIsPublic} />
+        </View>
+
+        {items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No photos in this batch</Text>
+            <Text style={styles.emptySubtext}>Switch the camera to Batch mode and snap storefronts as you walk.</Text>
+          </View>
+        ) : (
+          items.map(renderItem)
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, (isSaving || confirmedCount === 0) && styles.saveButtonDisabled]}
+          onPress={handleSaveAll}
+          disabled={isSaving || confirmedCount === 0}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>
+              Save {confirmedCount} Place{confirmedCount === 1 ? '' : 's'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  progressBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#E7F3FF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  progressBannerText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  collectionChips: {
+    marginBottom: 12,
+  },
+  collectionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  collectionChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  collectionChipText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+  },
+  collectionChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  collectionDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  visibilityLabel: {
+    fontSize: 14,
+    color: '#3C3C43',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  itemCard: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 16,
+    gap: 12,
+  },
+  itemCardDiscarded: {
+    opacity: 0.5,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  itemImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: '#E5E5EA',
+  },
+  itemHeaderInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  itemType: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    fontWeight: '500',
+  },
+  statusTextError: {
+    color: '#FF3B30',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+  },
+  candidates: {
+    gap: 8,
+  },
+  noCandidatesText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  candidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  candidateSelected: {
+    borderColor: '#007AFF',
+  },
+  candidateInfo: {
+    flex: 1,
+  },
+  candidateName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  candidateAddress: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  candidateRating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  candidateRatingText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  fixRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  fixInput: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#000000',
+  },
+  fixSearchButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingVertical: 8,
+  },
+  actionBtnConfirmed: {
+    backgroundColor: '#34C759',
+  },
+  actionBtnText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  actionBtnTextConfirmed: {
+    color: '#FFFFFF',
+  },
+  discardText: {
+    color: '#FF3B30',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
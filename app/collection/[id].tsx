@@ -34,6 +34,7 @@ import {
   getCollectionPlaces, 
   deleteCollection 
 } from '@/lib/supabase';
+import { Collection } from '@/types/place';
 
 // Screen dimensions and responsive constants
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -50,19 +51,6 @@ const GRID_ITEM_WIDTH = (screenWidth - (CONTENT_PADDING * 2) - GRID_SPACING - SA
 const HEADER_BUTTON_SIZE = Platform.OS === 'ios' ? 44 : 40;
 const CARD_BORDER_RADIUS = Platform.OS === 'ios' ? 16 : 12;
 
-interface Collection {
-  id: string;
-  name: string;
-  description?: string;
-  user_id: string;
-  color: string;
-  is_public: boolean;
-  cover_image?: string;
-  created_at: string;
-  updated_at: string;
-  place_count?: number;
-}
-
 interface Place {
   id: string;
   name: string;
@@ -22,6 +22,9 @@ import { PlaceFilterToggle } from '@/components/PlaceFilterToggle';
 import { usePlaceFilter } from '@/contexts/PlaceFilterContext';
 import { OptimizedImage } from '@/components/OptimizedImage';
 import { prefetchPlaceThumbs } from '@/utils/image-prefetch';
+import { OpenFilterChips } from '@/components/hours/OpenFilterChips';
+import { buildOpeningSchedule, matchesOpenFilter } from '@/lib/opening-hours';
+import { OpenFilter } from '@/types/hours';
 
 // Import react-native-maps for native iOS/Android support
 import MapView, { Marker, Circle, PROVIDER_GOOGLE } from 'react-native-maps';
@@ -406,6 +409,7 @@ export default function MapScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState('All');
+  const [openFilter, setOpenFilter] = useState<OpenFilter>({ mode: 'any' });
   const [mapType, setMapType] = useState<'standard' | 'satellite'>('standard');
   const abortControllerRef = useRef<AbortController | null>(null);
   const prefetchAbortRef = useRef<AbortController | null>(null);
@@ -611,10 +615,15 @@ export default function MapScreen() {
   };
 
   const getFilteredPlaces = () => {
-    if (selectedCategory === 'All') {
-      return places;
+    const inCategory = selectedCategory === 'All'
+      ? places
+      : places.filter(place => place.category === selectedCategory);
+
+    if (openFilter.mode === 'any') {
+      return inCategory;
     }
-    return places.filter(place => place.category === selectedCategory);
+    const now = new Date();
+    return inCategory.filter(place => matchesOpenFilter(buildOpeningSchedule(place), openFilter, now));
   };
 
   if (isLoading) {
@@ -728,6 +737,8 @@ export default function MapScreen() {
                 </TouchableOpacity>
               ))}
             </ScrollView>
+            <Text style={[styles.filtersTitle, styles.filtersSubtitle]}>Open</Text>
+            <OpenFilterChips filter={openFilter} onChange={setOpenFilter} />
           </View>
         </View>
       )}
@@ -996,6 +1007,9 @@ const styles = StyleSheet.create({
     color: '#000000',
     marginBottom: 12,
   },
+  filtersSubtitle: {
+    marginTop: 16,
+  },
   filterChip: {
     backgroundColor: '#F2F2F7',
     paddingHorizontal: 16,
@@ -0,0 +1,643 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
+import { ArrowLeft, Camera, Image as ImageIcon, Plus, Trash2, MapPin } from 'lucide-react-native';
+import {
+  getCurrentUser,
+  getPlaceById,
+  getPlaceMenu,
+  getNearbyPlaces,
+  isUserAdmin,
+  savePlaceMenu,
+  Place,
+} from '@/lib/supabase';
+import { uploadImageAsync } from '@/lib/supabase-storage';
+import { extractMenuFromPhoto } from '@/lib/openai';
+import { AnalysisError } from '@/lib/analysis-schema';
+import { QuotaExceededError } from '@/lib/usage-quota';
+import { cleanMenuSections, countMenuItems, createMenuItem, parseMenuPrice } from '@/lib/menu';
+import { useHaptics } from '@/hooks/useHaptics';
+import { MenuExtraction, MenuItem, MenuSection } from '@/types/menu';
+
+// Saved places within this distance are offered when a menu is captured from the camera tab
+const NEARBY_PLACE_RADIUS_KM = 0.3;
+
+const DEFAULT_MENU_CURRENCY = 'USD';
+
+export default function MenuEditorScreen() {
+  const router = useRouter();
+  const haptics = useHaptics();
+  const { notificationSuccess, errorOccurred } = haptics;
+  const mounted = useRef(true);
+  const params = useLocalSearchParams<{ placeId?: string; imageUri?: string }>();
+  const [place, setPlace] = useState<Place | null>(null);
+  const [nearbyPlaces, setNearbyPlaces] = useState<Place[]>([]);
+  const [currency, setCurrency] = useState(DEFAULT_MENU_CURRENCY);
+  const [sections, setSections] = useState<MenuSection[]>([]);
+  const [sourceImageUri, setSourceImageUri] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyExtraction = useCallback((
+    extraction: MenuExtraction,
+    mode: 'replace' | 'append',
+    currentSections: MenuSection[],
+    currentCurrency: string
+  ) => {
+    // Extracted item ids are only unique within one extraction
+    const extractedSections = extraction.sections.map(section => ({
+      ...section,
+      items: section.items.map(item => createMenuItem({ ...item, id: undefined })),
+    }));
+
+    if (mode === 'replace') {
+      setSections(extractedSections);
+      setCurrency(extraction.currency);
+      return;
+    }
+
+    // The menu has one currency, so added items keep the current one unless the user picks theirs
+    setSections([...currentSections, ...extractedSections]);
+    if (extraction.currency !== currentCurrency) {
+      Alert.alert(
+        'Different Currency',
+        `The added items are priced in ${extraction.currency}, but this menu uses ${currentCurrency}. Which currency should the menu use?`,
+        [
+          { text: `Keep ${currentCurrency}`, style: 'cancel' },
+          { text: `Use ${extraction.currency}`, onPress: () => setCurrency(extraction.currency) },
+        ]
+      );
+    }
+  }, []);
+
+  const runExtraction = useCallback(async (
+    imageUri: string,
+    currentSections: MenuSection[],
+    currentCurrency: string
+  ) => {
+    setSourceImageUri(imageUri);
+    setIsExtracting(true);
+    try {
+      const extraction = await extractMenuFromPhoto(imageUri);
+      if (!mounted.current) return;
+
+      if (countMenuItems(extraction.sections) === 0) {
+        Alert.alert('No Menu Found', 'We could not read any items. Try a closer, straight-on photo of the menu.');
+        return;
+      }
+
+      if (countMenuItems(currentSections) > 0) {
+        Alert.alert(
+          'Menu Already Exists',
+          `Found ${countMenuItems(extraction.sections)} items. Replace the current menu or add them to it?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Add', onPress: () => applyExtraction(extraction, 'append', currentSections, currentCurrency) },
+            { text: 'Replace', style: 'destructive', onPress: () => applyExtraction(extraction, 'replace', currentSections, currentCurrency) },
+          ]
+        );
+      } else {
+        applyExtraction(extraction, 'replace', currentSections, currentCurrency);
+      }
+      notificationSuccess();
+    } catch (error) {
+      console.error('Error extracting menu:', error);
+      errorOccurred();
+      Alert.alert(
+        'Menu Extraction Failed',
+        error instanceof AnalysisError || error instanceof QuotaExceededError
+          ? (error instanceof AnalysisError ? error.userMessage : error.message)
+          : 'Failed to read the menu. Please try again.'
+      );
+    } finally {
+      if (mounted.current) {
+        setIsExtracting(false);
+      }
+    }
+  }, [applyExtraction, notificationSuccess, errorOccurred]);
+
+  const loadNearbyPlaces = useCallback(async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') return;
+
+      const [location, user] = await Promise.all([Location.getCurrentPositionAsync({}), getCurrentUser()]);
+      const places = await getNearbyPlaces(location.coords.latitude, location.coords.longitude, NEARBY_PLACE_RADIUS_KM);
+      // Only the place's owner (or an admin) can save its menu
+      const userIsAdmin = await isUserAdmin(user?.id);
+      if (mounted.current) {
+        setNearbyPlaces(userIsAdmin ? places : places.filter(nearbyPlace => nearbyPlace.added_by === user?.id));
+      }
+    } catch (error) {
+      console.error('Error loading nearby places for menu:', error);
+    }
+  }, []);
+
+  const loadInitialState = useCallback(async () => {
+    let existingSections: MenuSection[] = [];
+    let existingCurrency = DEFAULT_MENU_CURRENCY;
+    try {
+      if (params.placeId) {
+        const [placeData, menu] = await Promise.all([
+          getPlaceById(params.placeId),
+          getPlaceMenu(params.placeId),
+        ]);
+        if (!mounted.current) return;
+        setPlace(placeData);
+        if (menu) {
+          existingSections = menu.sections;
+          existingCurrency = menu.currency;
+          setSections(menu.sections);
+          setCurrency(menu.currency);
+          setSourceImageUri(menu.source_photo_url || null);
+        }
+      } else {
+        await loadNearbyPlaces();
+      }
+    } finally {
+      if (mounted.current) {
+        setIsLoading(false);
+      }
+    }
+
+    if (params.imageUri) {
+      await runExtraction(params.imageUri, existingSections, existingCurrency);
+    }
+  }, [params.placeId, params.imageUri, loadNearbyPlaces, runExtraction]);
+
+  useEffect(() => {
+    mounted.current = true;
+    loadInitialState();
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [loadInitialState]);
+
+  const handlePickPhoto = async (source: 'camera' | 'library') => {
+    haptics.buttonPress();
+    const options: ImagePicker.ImagePickerOptions = { mediaTypes: 'images', quality: 0.8 };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!result.canceled && result.assets[0]) {
+      await runExtraction(result.assets[0].uri, sections, currency);
+    }
+  };
+
+  const updateSection = (sectionIndex: number, updates: Partial<MenuSection>) => {
+    setSections(current => current.map((section, index) =>
+      index === sectionIndex ? { ...section, ...updates } : section
+    ));
+  };
+
+  const updateItem = (sectionIndex: number, itemId: string, updates: Partial<MenuItem>) => {
+    setSections(current => current.map((section, index) =>
+      index === sectionIndex
+        ? { ...section, items: section.items.map(item => item.id === itemId ? { ...item, ...updates } : item) }
+        : section
+    ));
+  };
+
+  const removeItem = (sectionIndex: number, itemId: string) => {
+    setSections(current => current
+      .map((section, index) =>
+        index === sectionIndex ? { ...section, items: section.items.filter(item => item.id !== itemId) } : section
+      )
+      .filter(section => section.items.length > 0 || section.name.trim())
+    );
+  };
+
+  const addItem = (sectionIndex: number) => {
+    updateSection(sectionIndex, { items: [...sections[sectionIndex].items, createMenuItem()] });
+  };
+
+  const addSection = () => {
+    setSections(current => [...current, { name: '', items: [createMenuItem()] }]);
+  };
+
+  const handleSave = async () => {
+    if (!place) {
+      Alert.alert('Choose a Place', 'Select which place this menu belongs to.');
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      Alert.alert('Invalid Currency', 'Use a 3-letter currency code such as USD, VND or THB.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        Alert.alert('Error', 'Please sign in to save menus.');
+        return;
+      }
+
+      let sourcePhotoUrl = sourceImageUri || undefined;
+      if (sourceImageUri?.startsWith('file://')) {
+        const uploadResult = await uploadImageAsync(sourceImageUri);
+        sourcePhotoUrl = uploadResult?.fullUrl;
+      }
+
+      const { error } = await savePlaceMenu({
+        place_id: place.id,
+        currency,
+        sections: cleanMenuSections(sections),
+        source_photo_url: sourcePhotoUrl,
+        updated_by: user.id,
+      });
+
+      if (error) {
+        Alert.alert('Error', `Failed to save menu: ${error.message || 'Unknown error'}`);
+        return;
+      }
+
+      haptics.notificationSuccess();
+      if (params.placeId) {
+        router.back();
+      } else {
+        router.replace(`/place/${place.id}`);
+      }
+    } catch (error) {
+      console.error('Error saving menu:', error);
+      Alert.alert('Error', 'Failed to save menu. Please try again.');
+    } finally {
+      if (mounted.current) {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const renderPlacePicker = () => (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Which place is this menu from?</Text>
+      {nearbyPlaces.length === 0 ? (
+        <Text style={styles.hintText}>
+          None of your places are nearby. Open the place first and use Scan Menu from its page.
+        </Text>
+      ) : (
+        nearbyPlaces.map(nearbyPlace => (
+          <TouchableOpacity
+            key={nearbyPlace.id}
+            style={styles.placeOption}
+            onPress={() => { haptics.selectionFeedback(); setPlace(nearbyPlace); }}
+          >
+            <MapPin size={16} color="#007AFF" strokeWidth={2} />
+            <View style={styles.placeOptionInfo}>
+              <Text style={styles.placeOptionName}>{nearbyPlace.name}</Text>
+              <Text style={styles.placeOptionAddress} numberOfLines={1}>{nearbyPlace.address}</Text>
+            </View>
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+
+  const renderSection = (section: MenuSection, sectionIndex: number) => (
+    <View key={sectionIndex} style={styles.card}>
+      <TextInput
+        style={styles.sectionNameInput}
+        value={section.name}
+        onChangeText={name => updateSection(sectionIndex, { name })}
+        placeholder="Section name"
+        placeholderTextColor="#8E8E93"
+      />
+      {section.items.map(item => (
+        <View key={item.id} style={styles.itemRow}>
+          <TextInput
+            style={[styles.input, styles.itemNameInput]}
+            value={item.name}
+            onChangeText={name => updateItem(sectionIndex, item.id, { name })}
+            placeholder="Item"
+            placeholderTextColor="#8E8E93"
+          />
+          <TextInput
+            style={[styles.input, styles.itemPriceInput]}
+            value={item.priceText ?? (item.price !== null ? String(item.price) : '')}
+            onChangeText={priceText => updateItem(sectionIndex, item.id, { priceText, price: parseMenuPrice(priceText) })}
+            placeholder="Price"
+            placeholderTextColor="#8E8E93"
+            keyboardType="numbers-and-punctuation"
+          />
+          <TouchableOpacity style={styles.removeButton} onPress={() => removeItem(sectionIndex, item.id)}>
+            <Trash2 size={16} color="#FF3B30" strokeWidth={2} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addRowButton} onPress={() => addItem(sectionIndex)}>
+        <Plus size={16} color="#007AFF" strokeWidth={2} />
+        <Text style={styles.addRowText}>Add Item</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color="#007AFF" strokeWidth={2} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {place ? `${place.name} Menu` : 'Menu'}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {!place && renderPlacePicker()}
+
+        {sourceImageUri && (
+          <Image source={{ uri: sourceImageUri }} style={styles.sourceImage} contentFit="cover" />
+        )}
+
+        <View style={styles.scanButtons}>
+          <TouchableOpacity style={styles.scanButton} onPress={() => handlePickPhoto('camera')} disabled={isExtracting}>
+            <Camera size={18} color="#007AFF" strokeWidth={2} />
+            <Text style={styles.scanButtonText}>Scan Menu</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.scanButton} onPress={() => handlePickPhoto('library')} disabled={isExtracting}>
+            <ImageIcon size={18} color="#007AFF" strokeWidth={2} />
+            <Text style={styles.scanButtonText}>From Library</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isExtracting && (
+          <View style={styles.progressBanner}>
+            <ActivityIndicator size="small" color="#007AFF" />
+            <Text style={styles.progressBannerText}>Reading menu...</Text>
+          </View>
+        )}
+
+        <View style={styles.currencyRow}>
+          <Text style={styles.currencyLabel}>Currency</Text>
+          <TextInput
+            style={[styles.input, styles.currencyInput]}
+            value={currency}
+            onChangeText={text => setCurrency(text.toUpperCase().slice(0, 3))}
+            autoCapitalize="characters"
+            maxLength={3}
+          />
+        </View>
+
+        {sections.length === 0 && !isExtracting ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No menu yet</Text>
+            <Text style={styles.emptySubtext}>Scan a menu or price board, or add items by hand.</Text>
+          </View>
+        ) : (
+          sections.map(renderSection)
+        )}
+
+        <TouchableOpacity style={styles.addRowButton} onPress={addSection}>
+          <Plus size={16} color="#007AFF" strokeWidth={2} />
+          <Text style={styles.addRowText}>Add Section</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, (isSaving || isExtracting || !place) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving || isExtracting || !place}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Menu</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+  },
+  placeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+  },
+  placeOptionInfo: {
+    flex: 1,
+  },
+  placeOptionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeOptionAddress: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  sourceImage: {
+    width: '100%',
+    height: 180,
+    borderRadius: 16,
+    marginBottom: 12,
+  },
+  scanButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  scanButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  scanButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  progressBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#E7F3FF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  progressBannerText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  currencyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  currencyLabel: {
+    fontSize: 14,
+    color: '#3C3C43',
+  },
+  currencyInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#000000',
+  },
+  sectionNameInput: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    paddingVertical: 4,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemNameInput: {
+    flex: 1,
+  },
+  itemPriceInput: {
+    width: 90,
+    textAlign: 'right',
+  },
+  removeButton: {
+    padding: 6,
+  },
+  addRowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addRowText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -34,9 +34,11 @@ import {
   Bookmark,
   ChevronDown,
   ChevronUp,
-  Copy
+  Copy,
+  ScanLine,
+  Users
 } from 'lucide-react-native';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { 
   getPlaceById, 
   getReviewsForPlace, 
@@ -50,13 +52,45 @@ import {
   toggleReviewLike,
   getPlacePhotos,
   addPlacePhoto,
+  getPlaceMenu,
+  getPlaceSummaryHistory,
+  getCachedPlaceTranslation,
+  updatePlaceHours,
   Place, 
   Review,
   Profile,
-  PlacePhoto
+  PlacePhoto,
+  supabase
 } from '@/lib/supabase';
 import * as ImagePicker from 'expo-image-picker';
 import { Linking } from 'react-native';
+import { MenuSectionList } from '@/components/menu/MenuSectionList';
+import { PlaceMenu } from '@/types/menu';
+import { useHoursSignReader } from '@/hooks/useHoursSignReader';
+import { buildHoursUpdate } from '@/lib/hours-sign';
+import { buildOpeningSchedule, describeOpenStatus, getOpenStatus, getTodayHours, OPEN_STATE_COLORS, ScheduleSource } from '@/lib/opening-hours';
+import { HoursDiffModal } from '@/components/hours/HoursDiffModal';
+import { Weekday } from '@/types/hours';
+import { uploadImageAsync } from '@/lib/supabase-storage';
+import { captureDrafts } from '@/lib/capture-drafts';
+import { findDuplicateUpload, placePhotoUploads, recentCaptureUploads } from '@/lib/duplicate-photos';
+import { computePerceptualHash } from '@/utils/image-processing';
+import { getKeptExif } from '@/lib/privacy-redaction';
+import { analytics } from '@/lib/analytics';
+import type { PlaceSummary, PlaceSummaryReview } from '@/types/review-summary';
+import type { LocalizedPlaceSummary } from '@/types/localization';
+import { useSettings } from '@/contexts/SettingsContext';
+import { translatePlaceSummary } from '@/lib/openai';
+import { localizePlaceSummary, needsTranslation, resolveOutputLanguage } from '@/lib/localization';
+import { describeAuditEntry } from '@/lib/audit-log';
+import { agreeWithPlaceEdit, getPendingPlaceEdits, REFUSED_PLACE_EDIT_CODE, suggestPlaceEdit } from '@/lib/repositories/place-edits';
+import { PLACE_EDIT_AUTO_APPLY_AGREEMENTS } from '@/lib/place-edits';
+import type { PlaceEditChanges, PlaceEditStatus, PlaceEditSuggestion } from '@/types/place-edit';
+import { SuggestEditModal } from '@/components/place-edits/SuggestEditModal';
+import { EditChangeList } from '@/components/place-edits/EditChangeList';
+import { getPlaceHistory, PLACE_HISTORY_PAGE_SIZE, revertAuditEntry } from '@/lib/repositories/audit';
+import type { AuditEntry } from '@/types/audit';
+import { PlaceHistoryList } from '@/components/place-history/PlaceHistoryList';
 
 interface ReviewWithReplies extends Review {
   replies?: ReviewWithReplies[];
@@ -65,24 +99,9 @@ interface ReviewWithReplies extends Review {
 }
 
 // Working Hours Section Component (simplified to match Option 1)
-const WorkingHoursSection = ({ hours }: { hours: string[] }) => {
+const WorkingHoursSection = ({ place }: { place: ScheduleSource }) => {
   const [showFullHours, setShowFullHours] = useState(false);
-  
-  const getTodayHours = (weekHours: string[]): string => {
-    if (!weekHours || weekHours.length === 0) return 'Hours not available';
-    
-    const today = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const dayIndex = today === 0 ? 6 : today - 1; // Convert to Monday = 0 format
-    
-    if (weekHours[dayIndex]) {
-      const dayHours = weekHours[dayIndex];
-      // Extract just the hours part (after the colon)
-      const hoursMatch = dayHours.match(/:\s*(.+)/);
-      return hoursMatch ? hoursMatch[1] : dayHours;
-    }
-    
-    return 'Hours not available';
-  };
+  const hours = place.week_hours;
   
   return (
     <View style={styles.hoursSection}>
@@ -90,7 +109,7 @@ const WorkingHoursSection = ({ hours }: { hours: string[] }) => {
         style={styles.hoursDropdown}
         onPress={() => setShowFullHours(!showFullHours)}
       >
-        <Text style={styles.hoursText}>{getTodayHours(hours)}</Text>
+        <Text style={styles.hoursText}>{getTodayHours(place)}</Text>
         {showFullHours ? (
           <ChevronUp size={14} color="#8E8E93" strokeWidth={2} />
         ) : (
@@ -129,6 +148,21 @@ export default function PlaceDetailsScreen() {
   const [editingReview, setEditingReview] = useState<ReviewWithReplies | null>(null);
   const [replyingTo, setReplyingTo] = useState<ReviewWithReplies | null>(null);
   const [placePhotos, setPlacePhotos] = useState<string[]>([]);
+  const [placeMenu, setPlaceMenu] = useState<PlaceMenu | null>(null);
+  const [summaryHistory, setSummaryHistory] = useState<(PlaceSummary & { cited_reviews: PlaceSummaryReview[] })[]>([]);
+  const [showSummaryHistory, setShowSummaryHistory] = useState(false);
+  const [summaryTranslation, setSummaryTranslation] = useState<LocalizedPlaceSummary | null>(null);
+  const [pendingEdits, setPendingEdits] = useState<PlaceEditSuggestion[]>([]);
+  const [showSuggestEditModal, setShowSuggestEditModal] = useState(false);
+  const [isSubmittingEdit, setIsSubmittingEdit] = useState(false);
+  const [agreeingEditId, setAgreeingEditId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'reviews' | 'history'>('reviews');
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [revertingEntryId, setRevertingEntryId] = useState<string | null>(null);
+  const { settings } = useSettings();
+  const { isReading: isReadingHours, proposal: hoursProposal, readHoursSign, clearProposal: clearHoursProposal } = useHoursSignReader();
   const mounted = useRef(true);
 
   useEffect(() => {
@@ -142,6 +176,41 @@ export default function PlaceDetailsScreen() {
     };
   }, [id]);
 
+  const loadPlaceMenu = React.useCallback(async () => {
+    const menu = await getPlaceMenu(id!);
+    if (mounted.current) {
+      setPlaceMenu(menu);
+    }
+  }, [id]);
+
+  const loadSummaryTranslation = React.useCallback(async (language: string) => {
+    if (!needsTranslation(language)) {
+      setSummaryTranslation(null);
+      return;
+    }
+    const translation = await getCachedPlaceTranslation(id!, resolveOutputLanguage(language))
+      ?? await translatePlaceSummary(id!, language);
+    if (mounted.current) {
+      setSummaryTranslation(translation);
+    }
+  }, [id]);
+
+  // The AI summary is stored in English; other languages come from the translation cache
+  useEffect(() => {
+    if (id) {
+      loadSummaryTranslation(settings.language);
+    }
+  }, [id, settings.language, loadSummaryTranslation]);
+
+  // Refresh the menu when returning from the menu editor
+  useFocusEffect(
+    React.useCallback(() => {
+      if (id) {
+        loadPlaceMenu();
+      }
+    }, [id, loadPlaceMenu])
+  );
+
   useEffect(() => {
     if (showSaveModal && currentUser) {
       loadUserCollections();
@@ -172,6 +241,18 @@ export default function PlaceDetailsScreen() {
         setPlacePhotos([placeData.image_url]);
       }
 
+      // Community edits waiting for agreement or review
+      const { data: edits } = await getPendingPlaceEdits(supabase, id!);
+      if (edits && mounted.current) {
+        setPendingEdits(edits);
+      }
+
+      // Attribution for the AI summary and the summaries it replaced
+      const summaries = await getPlaceSummaryHistory(id!);
+      if (mounted.current) {
+        setSummaryHistory(summaries);
+      }
+
       // Load reviews
       const reviewsData = await getReviewsForPlace(id!);
       if (reviewsData && mounted.current) {
@@ -397,6 +478,203 @@ export default function PlaceDetailsScreen() {
     );
   };
 
+  const handleConfirmSignHours = async (acceptedDays: Weekday[]) => {
+    if (!place || !hoursProposal) return;
+
+    const update = buildHoursUpdate(
+      hoursProposal.extraction,
+      hoursProposal.currentWeekHours,
+      hoursProposal.proposedWeekHours,
+      acceptedDays
+    );
+    clearHoursProposal();
+
+    const { data, error } = await updatePlaceHours(place.id, update);
+    if (error || !data) {
+      Alert.alert('Error', 'Failed to save opening hours. Please try again.');
+      return;
+    }
+    if (mounted.current) {
+      setPlace(data);
+    }
+  };
+
+  const refreshAfterEdit = async (status: PlaceEditStatus) => {
+    const { data: edits } = await getPendingPlaceEdits(supabase, id!);
+    if (status === 'applied') {
+      const updatedPlace = await getPlaceById(id!);
+      if (updatedPlace && mounted.current) {
+        setPlace(updatedPlace);
+      }
+    }
+    if (edits && mounted.current) {
+      setPendingEdits(edits);
+    }
+  };
+
+  const handleSubmitEdit = async (changes: PlaceEditChanges, note: string) => {
+    if (!place) return;
+
+    setIsSubmittingEdit(true);
+    const { data: submission, error } = await suggestPlaceEdit(supabase, place.id, changes, note);
+    if (!mounted.current) return;
+    setIsSubmittingEdit(false);
+
+    if (error) {
+      Alert.alert(
+        'Error',
+        error.code === REFUSED_PLACE_EDIT_CODE ? error.message : 'Failed to submit your suggestion. Please try again.'
+      );
+      return;
+    }
+
+    setShowSuggestEditModal(false);
+    await refreshAfterEdit(submission.status);
+    Alert.alert(
+      submission.status === 'applied' ? 'Edit Applied' : 'Thanks!',
+      submission.status === 'applied'
+        ? 'Enough trusted members agreed, so your edit is now live.'
+        : 'Your suggestion will be applied once other members agree or a moderator reviews it.'
+    );
+  };
+
+  const handleAgreeWithEdit = async (suggestion: PlaceEditSuggestion) => {
+    setAgreeingEditId(suggestion.id);
+    const { data: status, error } = await agreeWithPlaceEdit(supabase, suggestion.id);
+    if (!mounted.current) return;
+    setAgreeingEditId(null);
+
+    if (error) {
+      Alert.alert('Error', 'Failed to record your agreement. Please try again.');
+      return;
+    }
+
+    await refreshAfterEdit(status);
+    if (status === 'applied') {
+      Alert.alert('Edit Applied', 'Enough trusted members agreed, so this edit is now live.');
+    }
+  };
+
+  // The newest page of history, or the page before the oldest entry loaded so far
+  const loadHistory = async (older = false) => {
+    const before = older ? history[history.length - 1]?.created_at : undefined;
+    setIsLoadingHistory(true);
+    const { data: entries, error } = await getPlaceHistory(supabase, id!, before);
+    if (!mounted.current) return;
+    setIsLoadingHistory(false);
+
+    if (error) {
+      Alert.alert('Error', 'Failed to load the change history');
+      return;
+    }
+    setHistory(current => older ? [...current, ...entries] : entries);
+    setHasMoreHistory(entries.length === PLACE_HISTORY_PAGE_SIZE);
+  };
+
+  const handleShowHistory = () => {
+    setActiveTab('history');
+    loadHistory();
+  };
+
+  const handleRevertEntry = (entry: AuditEntry) => {
+    Alert.alert(
+      'Revert Change',
+      `Revert "${describeAuditEntry(entry)}"? Later changes to other fields are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          style: 'destructive',
+          onPress: async () => {
+            setRevertingEntryId(entry.id);
+            const { error } = await revertAuditEntry(supabase, entry.id);
+            if (!mounted.current) return;
+            setRevertingEntryId(null);
+
+            if (error) {
+              Alert.alert('Error', `Failed to revert: ${error.message}`);
+              return;
+            }
+            await loadPlaceDetails();
+            await loadHistory();
+          }
+        }
+      ]
+    );
+  };
+
+  // Upload a photo and attach it to the place. A near-duplicate of one of the place's photos
+  // or of the user's recent captures is offered for reuse instead of being stored again.
+  const addPhotoToPlace = async (asset: ImagePicker.ImagePickerAsset) => {
+    if (!place || !currentUser) return;
+
+    const perceptualHash = await computePerceptualHash(asset.uri);
+    const existing = perceptualHash
+      ? [
+          ...placePhotoUploads(await getPlacePhotos(place.id)),
+          ...recentCaptureUploads(captureDrafts.getDrafts()),
+        ]
+      : [];
+    const duplicate = perceptualHash ? findDuplicateUpload(perceptualHash, existing) : null;
+
+    let reuse = false;
+    if (duplicate) {
+      const alreadyOnPlace = duplicate.source === 'place_photo';
+      reuse = await new Promise<boolean>(resolve => {
+        Alert.alert(
+          alreadyOnPlace ? 'Photo Already Added' : 'Same Photo as a Recent Capture',
+          alreadyOnPlace
+            ? 'This place already has this photo. Add it again anyway?'
+            : 'You already uploaded this photo. Use that upload instead of uploading it again?',
+          [
+            { text: alreadyOnPlace ? 'Keep Existing' : 'Use Existing', onPress: () => resolve(true) },
+            { text: alreadyOnPlace ? 'Add Anyway' : 'Upload Again', onPress: () => resolve(false) },
+          ],
+          { cancelable: false }
+        );
+      });
+      analytics.trackDuplicatePhoto(duplicate.source, duplicate.distance, reuse);
+
+      if (reuse && alreadyOnPlace) {
+        setShowPhotoModal(false);
+        return;
+      }
+    }
+
+    try {
+      const upload = reuse && duplicate
+        ? { fullUrl: duplicate.fullUrl, thumbnailUrl: duplicate.thumbnailUrl || duplicate.fullUrl, perceptualHash }
+        : await uploadImageAsync(asset.uri, { keptExif: getKeptExif(asset.exif), perceptualHash });
+      if (!upload) {
+        throw new Error('Failed to upload image');
+      }
+
+      const { error } = await addPlacePhoto({
+        place_id: place.id,
+        user_id: currentUser.id,
+        photo_url: upload.fullUrl,
+        thumbnail_url: upload.thumbnailUrl,
+        caption: '',
+        perceptual_hash: upload.perceptualHash,
+      });
+      
+      if (error) {
+        throw error;
+      }
+      
+      // Add to local state immediately for better UX
+      setPlacePhotos(prev => [...prev, upload.fullUrl]);
+      setShowPhotoModal(false);
+      Alert.alert('Success', 'Photo uploaded successfully!');
+      
+      // Reload place details to get updated photos from server
+      await loadPlaceDetails();
+    } catch (uploadError) {
+      console.error('Error uploading photo:', uploadError);
+      Alert.alert('Error', 'Failed to upload photo. Please try again.');
+    }
+  };
+
   const handleAddPhoto = async () => {
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
@@ -404,35 +682,11 @@ export default function PlaceDetailsScreen() {
         allowsEditing: true,
         aspect: [4, 3],
         quality: 0.8,
+        exif: true,
       });
 
-      if (!result.canceled && result.assets[0] && place && currentUser) {
-        const photoUri = result.assets[0].uri;
-        
-        try {
-          // Upload photo to Supabase storage and add to place
-          const { data, error } = await addPlacePhoto({
-            place_id: place.id,
-            user_id: currentUser.id,
-            photo_url: photoUri, // In production, this would be uploaded to storage first
-            caption: ''
-          });
-          
-          if (error) {
-            throw error;
-          }
-          
-          // Add to local state immediately for better UX
-          setPlacePhotos(prev => [...prev, photoUri]);
-          setShowPhotoModal(false);
-          Alert.alert('Success', 'Photo uploaded successfully!');
-          
-          // Reload place details to get updated photos from server
-          await loadPlaceDetails();
-        } catch (uploadError) {
-          console.error('Error uploading photo:', uploadError);
-          Alert.alert('Error', 'Failed to upload photo. Please try again.');
-        }
+      if (!result.canceled && result.assets[0]) {
+        await addPhotoToPlace(result.assets[0]);
       }
     } catch (error) {
       console.error('Error selecting photo:', error);
@@ -481,35 +735,11 @@ export default function PlaceDetailsScreen() {
         allowsEditing: true,
         aspect: [4, 3],
         quality: 0.8,
+        exif: true,
       });
 
-      if (!result.canceled && result.assets[0] && place && currentUser) {
-        const photoUri = result.assets[0].uri;
-        
-        try {
-          // Upload photo to Supabase storage and add to place
-          const { data, error } = await addPlacePhoto({
-            place_id: place.id,
-            user_id: currentUser.id,
-            photo_url: photoUri, // In production, this would be uploaded to storage first
-            caption: ''
-          });
-          
-          if (error) {
-            throw error;
-          }
-          
-          // Add to local state immediately for better UX
-          setPlacePhotos(prev => [...prev, photoUri]);
-          setShowPhotoModal(false);
-          Alert.alert('Success', 'Photo uploaded successfully!');
-          
-          // Reload place details to get updated photos from server
-          await loadPlaceDetails();
-        } catch (uploadError) {
-          console.error('Error uploading photo:', uploadError);
-          Alert.alert('Error', 'Failed to upload photo. Please try again.');
-        }
+      if (!result.canceled && result.assets[0]) {
+        await addPhotoToPlace(result.assets[0]);
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -548,23 +778,33 @@ export default function PlaceDetailsScreen() {
   };
 
   const [canDeletePlace, setCanDeletePlace] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
     const checkDeletePermission = async () => {
       if (!currentUser || !place) {
         setCanDeletePlace(false);
+        setIsAdmin(false);
         return;
       }
 
       const isOwner = currentUser.id === place.added_by;
-      const isAdmin = await isUserAdmin(currentUser.id);
+      const userIsAdmin = await isUserAdmin(currentUser.id);
       
-      setCanDeletePlace(isOwner || isAdmin);
+      setCanDeletePlace(isOwner || userIsAdmin);
+      setIsAdmin(userIsAdmin);
     };
 
     checkDeletePermission();
   }, [currentUser, place]);
 
+  // The newest summary is the one on the place; reviews it cited are marked in the list
+  const [currentSummary, ...previousSummaries] = summaryHistory;
+  const localizedSummary = localizePlaceSummary(place ?? {}, summaryTranslation);
+  const summaryReviewIds = new Set(
+    (currentSummary?.cited_reviews || []).flatMap(review => (review.review_id ? [review.review_id] : []))
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -589,6 +829,10 @@ export default function PlaceDetailsScreen() {
     );
   }
 
+  // Worked out on each render from the weekly hours, on the place's own clock
+  const openSchedule = buildOpeningSchedule(place);
+  const openStatus = getOpenStatus(openSchedule);
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -664,8 +908,8 @@ export default function PlaceDetailsScreen() {
             </View>
             
             <View style={styles.statusContainer}>
-              <View style={[styles.statusDot, { backgroundColor: place.is_open ? '#34C759' : '#FF3B30' }]} />
-              <Text style={styles.statusText}>{place.is_open ? 'Open' : 'Closed'}</Text>
+              <View style={[styles.statusDot, { backgroundColor: OPEN_STATE_COLORS[openStatus.state] }]} />
+              <Text style={styles.statusText}>{describeOpenStatus(openStatus, openSchedule)}</Text>
             </View>
           </View>
 
@@ -678,133 +922,297 @@ export default function PlaceDetailsScreen() {
           </TouchableOpacity>
 
           {place.week_hours.length > 0 && (
-            <WorkingHoursSection hours={place.week_hours} />
+            <WorkingHoursSection place={place} />
+          )}
+
+          {/* Places can only be updated by whoever added them */}
+          {currentUser?.id === place.added_by && (
+            <TouchableOpacity
+              style={styles.scanHoursButton}
+              onPress={() => readHoursSign(place.week_hours)}
+              disabled={isReadingHours}
+            >
+              {isReadingHours ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <ScanLine size={14} color="#007AFF" strokeWidth={2} />
+              )}
+              <Text style={styles.scanHoursText}>
+                {isReadingHours
+                  ? 'Reading hours...'
+                  : place.week_hours.length > 0 ? 'Update hours from sign' : 'Add hours from sign'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Anyone else can suggest changes for the community to agree on */}
+          {currentUser && (
+            <TouchableOpacity
+              style={styles.scanHoursButton}
+              onPress={() => setShowSuggestEditModal(true)}
+            >
+              <Edit3 size={14} color="#007AFF" strokeWidth={2} />
+              <Text style={styles.scanHoursText}>Suggest an edit</Text>
+            </TouchableOpacity>
           )}
         </View>
 
+        {/* Pending Edit Suggestions */}
+        {pendingEdits.length > 0 && (
+          <View style={styles.pendingEditsSection}>
+            <Text style={styles.sectionTitle}>Suggested Edits</Text>
+            {pendingEdits.map(suggestion => {
+              const hasAgreed = !!currentUser && suggestion.agreed_user_ids.includes(currentUser.id);
+              return (
+                <View key={suggestion.id} style={styles.pendingEditCard}>
+                  <EditChangeList changes={suggestion.changes} />
+                  {suggestion.note && (
+                    <Text style={styles.pendingEditNote}>{suggestion.note}</Text>
+                  )}
+                  <View style={styles.pendingEditFooter}>
+                    <View style={styles.pendingEditAgreements}>
+                      <Users size={14} color="#8E8E93" strokeWidth={2} />
+                      <Text style={styles.pendingEditAgreementsText}>
+                        {suggestion.agreed_user_ids.length}/{PLACE_EDIT_AUTO_APPLY_AGREEMENTS} agree
+                      </Text>
+                    </View>
+                    {currentUser && !hasAgreed && (
+                      <TouchableOpacity
+                        style={styles.agreeButton}
+                        onPress={() => handleAgreeWithEdit(suggestion)}
+                        disabled={agreeingEditId === suggestion.id}
+                      >
+                        {agreeingEditId === suggestion.id ? (
+                          <ActivityIndicator size="small" color="#FFFFFF" />
+                        ) : (
+                          <>
+                            <ThumbsUp size={14} color="#FFFFFF" strokeWidth={2} />
+                            <Text style={styles.agreeButtonText}>Agree</Text>
+                          </>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                    {hasAgreed && <Text style={styles.pendingEditAgreed}>You agreed</Text>}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {/* AI Summary */}
         <View style={styles.summarySection}>
           <Text style={styles.sectionTitle}>AI Review Summary</Text>
-          <Text style={styles.summaryText}>{place.ai_summary}</Text>
+          <Text style={styles.summaryText}>{localizedSummary.ai_summary}</Text>
+          {summaryTranslation && (
+            <Text style={styles.summaryAttribution}>Translated from English</Text>
+          )}
+          {currentSummary?.trigger === 'regeneration' && (
+            <Text style={styles.summaryAttribution}>
+              From {currentSummary.google_review_count} Google and {currentSummary.in_app_review_count} community
+              {currentSummary.in_app_review_count === 1 ? ' review' : ' reviews'} · Updated {formatDate(currentSummary.created_at)}
+            </Text>
+          )}
           
-          {place.pros.length > 0 && (
+          {localizedSummary.pros.length > 0 && (
             <View style={styles.prosConsSection}>
               <Text style={styles.prosConsTitle}>What People Love</Text>
-              {place.pros.map((pro, index) => (
+              {localizedSummary.pros.map((pro, index) => (
                 <Text key={index} style={styles.prosConsItem}>• {pro}</Text>
               ))}
             </View>
           )}
           
-          {place.cons.length > 0 && (
+          {localizedSummary.cons.length > 0 && (
             <View style={styles.prosConsSection}>
               <Text style={styles.prosConsTitle}>Things to Know</Text>
-              {place.cons.map((con, index) => (
+              {localizedSummary.cons.map((con, index) => (
                 <Text key={index} style={styles.prosConsItem}>• {con}</Text>
               ))}
             </View>
           )}
+
+          {previousSummaries.length > 0 && (
+            <TouchableOpacity
+              style={styles.summaryHistoryToggle}
+              onPress={() => setShowSummaryHistory(!showSummaryHistory)}
+            >
+              <Text style={styles.summaryHistoryToggleText}>
+                Previous summaries ({previousSummaries.length})
+              </Text>
+              {showSummaryHistory ? (
+                <ChevronUp size={16} color="#007AFF" strokeWidth={2} />
+              ) : (
+                <ChevronDown size={16} color="#007AFF" strokeWidth={2} />
+              )}
+            </TouchableOpacity>
+          )}
+          {showSummaryHistory && previousSummaries.map((summary) => (
+            <View key={summary.id} style={styles.summaryHistoryItem}>
+              <Text style={styles.reviewDate}>
+                {formatDate(summary.created_at)} · {summary.trigger === 'capture' ? 'From Google reviews' : 'Regenerated'}
+              </Text>
+              <Text style={styles.prosConsItem}>{summary.summary}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Menu */}
+        <View style={styles.summarySection}>
+          <View style={styles.reviewsHeader}>
+            <Text style={styles.sectionTitle}>Menu</Text>
+            {/* Menus can only be changed by whoever added the place, or an admin */}
+            {(currentUser?.id === place.added_by || isAdmin) && (
+              <TouchableOpacity
+                style={styles.addReviewButton}
+                onPress={() => router.push(`/menu-editor?placeId=${place.id}`)}
+              >
+                {placeMenu ? (
+                  <Edit3 size={16} color="#007AFF" strokeWidth={2} />
+                ) : (
+                  <ScanLine size={16} color="#007AFF" strokeWidth={2} />
+                )}
+                <Text style={styles.addReviewText}>{placeMenu ? 'Edit Menu' : 'Scan Menu'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {placeMenu && placeMenu.sections.length > 0 ? (
+            <MenuSectionList sections={placeMenu.sections} currency={placeMenu.currency} />
+          ) : (
+            <Text style={styles.summaryText}>No menu yet. Scan a menu or price board to add one.</Text>
+          )}
         </View>
 
         {/* Reviews Section */}
         <View style={styles.reviewsSection}>
           <View style={styles.reviewsHeader}>
-            <Text style={styles.sectionTitle}>Reviews ({reviews.length + (userReview ? 1 : 0)})</Text>
-            <TouchableOpacity style={styles.addReviewButton} onPress={handleAddReview}>
-              <Edit3 size={16} color="#007AFF" strokeWidth={2} />
-              <Text style={styles.addReviewText}>
-                {userReview ? 'Edit Review' : 'Add Review'}
-              </Text>
-            </TouchableOpacity>
+            <View style={styles.sectionTabs}>
+              <TouchableOpacity onPress={() => setActiveTab('reviews')}>
+                <Text style={[styles.sectionTab, activeTab === 'reviews' && styles.sectionTabActive]}>
+                  Reviews ({reviews.length + (userReview ? 1 : 0)})
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleShowHistory}>
+                <Text style={[styles.sectionTab, activeTab === 'history' && styles.sectionTabActive]}>History</Text>
+              </TouchableOpacity>
+            </View>
+            {activeTab === 'reviews' && (
+              <TouchableOpacity style={styles.addReviewButton} onPress={handleAddReview}>
+                <Edit3 size={16} color="#007AFF" strokeWidth={2} />
+                <Text style={styles.addReviewText}>
+                  {userReview ? 'Edit Review' : 'Add Review'}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
-          {/* User's Review */}
-          {userReview && (
-            <View style={[styles.reviewCard, styles.userReviewCard]}>
-              <View style={styles.reviewHeader}>
-                <View style={styles.reviewUser}>
-                  <View style={styles.userAvatar}>
-                    <Text style={styles.userInitial}>
-                      {currentUser?.full_name?.charAt(0) || 'U'}
-                    </Text>
-                  </View>
-                  <View>
-                    <Text style={styles.reviewUserName}>You</Text>
-                    <Text style={styles.reviewDate}>{formatDate(userReview.created_at)}</Text>
-                  </View>
-                </View>
+          {activeTab === 'history' ? (
+            <PlaceHistoryList
+              entries={history}
+              isLoading={isLoadingHistory}
+              hasMore={hasMoreHistory}
+              canRevert={isAdmin}
+              revertingEntryId={revertingEntryId}
+              onLoadMore={() => loadHistory(true)}
+              onRevert={handleRevertEntry}
+            />
+          ) : (
+            <>
+              {/* User's Review */}
+              {userReview && (
+                <View style={[styles.reviewCard, styles.userReviewCard]}>
+                  <View style={styles.reviewHeader}>
+                    <View style={styles.reviewUser}>
+                      <View style={styles.userAvatar}>
+                        <Text style={styles.userInitial}>
+                          {currentUser?.full_name?.charAt(0) || 'U'}
+                        </Text>
+                      </View>
+                      <View>
+                        <Text style={styles.reviewUserName}>You</Text>
+                        <Text style={styles.reviewDate}>{formatDate(userReview.created_at)}</Text>
+                      </View>
+                    </View>
                 
-                <View style={styles.reviewActions}>
-                  {renderStars(userReview.rating)}
-                  <TouchableOpacity onPress={() => handleDeleteReview(userReview)}>
-                    <MoreVertical size={16} color="#8E8E93" strokeWidth={2} />
-                  </TouchableOpacity>
-                </View>
-              </View>
+                    <View style={styles.reviewActions}>
+                      {renderStars(userReview.rating)}
+                      <TouchableOpacity onPress={() => handleDeleteReview(userReview)}>
+                        <MoreVertical size={16} color="#8E8E93" strokeWidth={2} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
               
-              <Text style={styles.reviewText}>{userReview.text}</Text>
+                  <Text style={styles.reviewText}>{userReview.text}</Text>
               
-              <View style={styles.reviewFooter}>
-                <TouchableOpacity style={styles.likeButton}>
-                  <ThumbsUp size={14} color="#8E8E93" strokeWidth={2} />
-                  <Text style={styles.likeCount}>{userReview.likes}</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          )}
-
-          {/* Other Reviews */}
-          {reviews.map((review) => (
-            <View key={review.id} style={styles.reviewCard}>
-              <View style={styles.reviewHeader}>
-                <View style={styles.reviewUser}>
-                  <View style={styles.userAvatar}>
-                    <Text style={styles.userInitial}>
-                      {review.user_profile?.full_name?.charAt(0) || 'U'}
-                    </Text>
-                  </View>
-                  <View>
-                    <Text style={styles.reviewUserName}>
-                      {review.user_profile?.full_name || 'Anonymous'}
-                    </Text>
-                    <Text style={styles.reviewDate}>{formatDate(review.created_at)}</Text>
+                  <View style={styles.reviewFooter}>
+                    <TouchableOpacity style={styles.likeButton}>
+                      <ThumbsUp size={14} color="#8E8E93" strokeWidth={2} />
+                      <Text style={styles.likeCount}>{userReview.likes}</Text>
+                    </TouchableOpacity>
+                    {summaryReviewIds.has(userReview.id) && (
+                      <Text style={styles.summaryCitedText}>Used in AI summary</Text>
+                    )}
                   </View>
                 </View>
+              )}
+
+              {/* Other Reviews */}
+              {reviews.map((review) => (
+                <View key={review.id} style={styles.reviewCard}>
+                  <View style={styles.reviewHeader}>
+                    <View style={styles.reviewUser}>
+                      <View style={styles.userAvatar}>
+                        <Text style={styles.userInitial}>
+                          {review.user_profile?.full_name?.charAt(0) || 'U'}
+                        </Text>
+                      </View>
+                      <View>
+                        <Text style={styles.reviewUserName}>
+                          {review.user_profile?.full_name || 'Anonymous'}
+                        </Text>
+                        <Text style={styles.reviewDate}>{formatDate(review.created_at)}</Text>
+                      </View>
+                    </View>
                 
-                <View style={styles.reviewActions}>
-                  {renderStars(review.rating)}
-                  {review.canDelete && (
-                    <TouchableOpacity onPress={() => handleDeleteReview(review)}>
-                      <MoreVertical size={16} color="#8E8E93" strokeWidth={2} />
-                    </TouchableOpacity>
-                  )}
-                </View>
-              </View>
+                    <View style={styles.reviewActions}>
+                      {renderStars(review.rating)}
+                      {review.canDelete && (
+                        <TouchableOpacity onPress={() => handleDeleteReview(review)}>
+                          <MoreVertical size={16} color="#8E8E93" strokeWidth={2} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
               
-              <Text style={styles.reviewText}>{review.text}</Text>
+                  <Text style={styles.reviewText}>{review.text}</Text>
               
-              <View style={styles.reviewFooter}>
-                <TouchableOpacity style={styles.likeButton}>
-                  <ThumbsUp size={14} color="#8E8E93" strokeWidth={2} />
-                  <Text style={styles.likeCount}>{review.likes}</Text>
-                </TouchableOpacity>
+                  <View style={styles.reviewFooter}>
+                    <TouchableOpacity style={styles.likeButton}>
+                      <ThumbsUp size={14} color="#8E8E93" strokeWidth={2} />
+                      <Text style={styles.likeCount}>{review.likes}</Text>
+                    </TouchableOpacity>
+                    {summaryReviewIds.has(review.id) && (
+                      <Text style={styles.summaryCitedText}>Used in AI summary</Text>
+                    )}
                 
-                <TouchableOpacity 
-                  style={styles.replyButton}
-                  onPress={() => setReplyingTo(review)}
-                >
-                  <MessageCircle size={14} color="#8E8E93" strokeWidth={2} />
-                  <Text style={styles.replyText}>Reply</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          ))}
+                    <TouchableOpacity 
+                      style={styles.replyButton}
+                      onPress={() => setReplyingTo(review)}
+                    >
+                      <MessageCircle size={14} color="#8E8E93" strokeWidth={2} />
+                      <Text style={styles.replyText}>Reply</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
 
-          {reviews.length === 0 && !userReview && (
-            <View style={styles.emptyReviews}>
-              <Text style={styles.emptyReviewsText}>No reviews yet</Text>
-              <Text style={styles.emptyReviewsSubtext}>Be the first to review this place!</Text>
-            </View>
+              {reviews.length === 0 && !userReview && (
+                <View style={styles.emptyReviews}>
+                  <Text style={styles.emptyReviewsText}>No reviews yet</Text>
+                  <Text style={styles.emptyReviewsSubtext}>Be the first to review this place!</Text>
+                </View>
+              )}
+            </>
           )}
         </View>
       </ScrollView>
@@ -881,6 +1289,27 @@ export default function PlaceDetailsScreen() {
         </SafeAreaView>
       </Modal>
 
+      {/* Hours Sign Diff Modal */}
+      <HoursDiffModal
+        visible={!!hoursProposal}
+        imageUri={hoursProposal?.imageUri}
+        currentWeekHours={hoursProposal?.currentWeekHours || []}
+        proposedWeekHours={hoursProposal?.proposedWeekHours || []}
+        notes={hoursProposal?.extraction.notes}
+        confidence={hoursProposal?.extraction.confidence ?? 100}
+        onConfirm={handleConfirmSignHours}
+        onCancel={clearHoursProposal}
+      />
+
+      {/* Suggest Edit Modal */}
+      <SuggestEditModal
+        visible={showSuggestEditModal}
+        place={place}
+        isSubmitting={isSubmittingEdit}
+        onSubmit={handleSubmitEdit}
+        onCancel={() => setShowSuggestEditModal(false)}
+      />
+
       {/* Save to Collection Modal */}
       <Modal visible={showSaveModal} animationType="slide" presentationStyle="pageSheet">
         <SafeAreaView style={styles.modalContainer}>
@@ -1168,6 +1597,68 @@ const styles = StyleSheet.create({
   hoursSection: {
     marginBottom: 8,
   },
+  scanHoursButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  scanHoursText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  pendingEditsSection: {
+    padding: 20,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E5E5EA',
+  },
+  pendingEditCard: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+    gap: 8,
+  },
+  pendingEditNote: {
+    fontSize: 14,
+    color: '#3C3C43',
+    fontStyle: 'italic',
+  },
+  pendingEditFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  pendingEditAgreements: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  pendingEditAgreementsText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  pendingEditAgreed: {
+    fontSize: 13,
+    color: '#34C759',
+    fontWeight: '500',
+  },
+  agreeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  agreeButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   hoursDropdown: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1230,6 +1721,31 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 4,
   },
+  summaryAttribution: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  summaryHistoryToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  summaryHistoryToggleText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  summaryHistoryItem: {
+    marginTop: 12,
+    gap: 4,
+  },
+  summaryCitedText: {
+    fontSize: 12,
+    color: '#34C759',
+    fontWeight: '500',
+  },
   reviewsSection: {
     padding: 20,
   },
@@ -1239,6 +1755,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
+  sectionTabs: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  sectionTab: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#C7C7CC',
+  },
+  sectionTabActive: {
+    color: '#000000',
+  },
   addReviewButton: {
     flexDirection: 'row',
     alignItems: 'center',
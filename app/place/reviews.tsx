@@ -13,39 +13,27 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '../../lib/supabase';
-import type { Database } from '../../types/database';
-
-type Review = Database['public']['Tables']['reviews']['Row'];
-type Profile = Database['public']['Tables']['profiles']['Row'];
-
-interface ReviewWithProfile extends Review {
-  profiles?: Profile;
-}
+import { addReview, deleteReview, getReviewsForPlace, updateReview } from '../../lib/repositories/reviews';
+import type { Review } from '../../types/review';
 
 interface NewReview {
   rating: number;
-  title: string;
-  content: string;
-  pros: string[];
-  cons: string[];
+  text: string;
 }
 
 export default function PlaceReviews() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const [reviews, setReviews] = useState<ReviewWithProfile[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showAddReview, setShowAddReview] = useState(false);
   const [newReview, setNewReview] = useState<NewReview>({
     rating: 5,
-    title: '',
-    content: '',
-    pros: [],
-    cons: [],
+    text: '',
   });
   const [currentUser, setCurrentUser] = useState<string | null>(null);
-  const [userReview, setUserReview] = useState<ReviewWithProfile | null>(null);
+  const [userReview, setUserReview] = useState<Review | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -61,27 +49,15 @@ export default function PlaceReviews() {
 
   const loadReviews = async () => {
     try {
-      const { data, error } = await supabase
-        .from('reviews')
-        .select(`
-          *,
-          profiles:user_id (
-            id,
-            full_name,
-            username,
-            avatar_url
-          )
-        `)
-        .eq('place_id', id)
-        .order('created_at', { ascending: false });
+      const { data, error } = await getReviewsForPlace(supabase, id);
 
       if (error) throw error;
 
-      setReviews(data || []);
+      setReviews(data);
       
       // Find current user's review
       if (currentUser) {
-        const userReviewData = data?.find(review => review.user_id === currentUser);
+        const userReviewData = data.find(review => review.user_id === currentUser);
         setUserReview(userReviewData || null);
       }
     } catch (error) {
@@ -98,83 +74,26 @@ export default function PlaceReviews() {
     loadReviews();
   };
 
-  const handleAddPro = () => {
-    setNewReview(prev => ({
-      ...prev,
-      pros: [...prev.pros, '']
-    }));
-  };
-
-  const handleAddCon = () => {
-    setNewReview(prev => ({
-      ...prev,
-      cons: [...prev.cons, '']
-    }));
-  };
-
-  const handleUpdatePro = (index: number, value: string) => {
-    setNewReview(prev => ({
-      ...prev,
-      pros: prev.pros.map((pro, i) => i === index ? value : pro)
-    }));
-  };
-
-  const handleUpdateCon = (index: number, value: string) => {
-    setNewReview(prev => ({
-      ...prev,
-      cons: prev.cons.map((con, i) => i === index ? value : con)
-    }));
-  };
-
-  const handleRemovePro = (index: number) => {
-    setNewReview(prev => ({
-      ...prev,
-      pros: prev.pros.filter((_, i) => i !== index)
-    }));
-  };
-
-  const handleRemoveCon = (index: number) => {
-    setNewReview(prev => ({
-      ...prev,
-      cons: prev.cons.filter((_, i) => i !== index)
-    }));
-  };
-
   const handleSubmitReview = async () => {
     if (!currentUser) {
       Alert.alert('Error', 'You must be logged in to write a review');
       return;
     }
 
-    if (!newReview.title.trim() || !newReview.content.trim()) {
+    if (!newReview.text.trim()) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
 
     try {
       const reviewData = {
-        place_id: id,
-        user_id: currentUser,
         rating: newReview.rating,
-        title: newReview.title.trim(),
-        content: newReview.content.trim(),
-        pros: newReview.pros.filter(pro => pro.trim()),
-        cons: newReview.cons.filter(con => con.trim()),
+        text: newReview.text.trim(),
       };
 
-      let error;
-      if (userReview) {
-        // Update existing review
-        ({ error } = await supabase
-          .from('reviews')
-          .update(reviewData)
-          .eq('id', userReview.id));
-      } else {
-        // Create new review
-        ({ error } = await supabase
-          .from('reviews')
-          .insert([reviewData]));
-      }
+      const { error } = userReview
+        ? await updateReview(supabase, userReview.id, reviewData)
+        : await addReview(supabase, { ...reviewData, place_id: id, user_id: currentUser });
 
       if (error) throw error;
 
@@ -186,10 +105,7 @@ export default function PlaceReviews() {
       setShowAddReview(false);
       setNewReview({
         rating: 5,
-        title: '',
-        content: '',
-        pros: [],
-        cons: [],
+        text: '',
       });
       loadReviews();
     } catch (error) {
@@ -209,10 +125,7 @@ export default function PlaceReviews() {
           style: 'destructive',
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from('reviews')
-                .delete()
-                .eq('id', reviewId);
+              const { error } = await deleteReview(supabase, reviewId);
 
               if (error) throw error;
 
@@ -233,10 +146,7 @@ export default function PlaceReviews() {
       // Pre-fill form with existing review
       setNewReview({
         rating: userReview.rating,
-        title: userReview.title,
-        content: userReview.content,
-        pros: userReview.pros || [],
-        cons: userReview.cons || [],
+        text: userReview.text,
       });
     }
     setShowAddReview(true);
@@ -267,12 +177,12 @@ export default function PlaceReviews() {
     );
   };
 
-  const ReviewCard = ({ review }: { review: ReviewWithProfile }) => (
+  const ReviewCard = ({ review }: { review: Review }) => (
     <View style={styles.reviewCard}>
       <View style={styles.reviewHeader}>
         <View style={styles.reviewUser}>
           <Text style={styles.reviewUserName}>
-            {review.profiles?.full_name || review.profiles?.username || 'Anonymous'}
+            {review.user_profile?.full_name || review.user_profile?.username || 'Anonymous'}
           </Text>
           <StarRating rating={review.rating} size={16} />
         </View>
@@ -291,29 +201,7 @@ export default function PlaceReviews() {
         </View>
       </View>
 
-      <Text style={styles.reviewTitle}>{review.title}</Text>
-      <Text style={styles.reviewContent}>{review.content}</Text>
-
-      {(review.pros?.length > 0 || review.cons?.length > 0) && (
-        <View style={styles.prosConsContainer}>
-          {review.pros?.length > 0 && (
-            <View style={styles.prosConsSection}>
-              <Text style={styles.prosConsTitle}>👍 Pros:</Text>
-              {review.pros.map((pro, index) => (
-                <Text key={index} style={styles.prosConsItem}>• {pro}</Text>
-              ))}
-            </View>
-          )}
-          {review.cons?.length > 0 && (
-            <View style={styles.prosConsSection}>
-              <Text style={styles.prosConsTitle}>👎 Cons:</Text>
-              {review.cons.map((con, index) => (
-                <Text key={index} style={styles.prosConsItem}>• {con}</Text>
-              ))}
-            </View>
-          )}
-        </View>
-      )}
+      <Text style={styles.reviewContent}>{review.text}</Text>
     </View>
   );
 
@@ -353,83 +241,18 @@ export default function PlaceReviews() {
             />
           </View>
 
-          <View style={styles.formSection}>
-            <Text style={styles.formLabel}>Title *</Text>
-            <TextInput
-              style={styles.textInput}
-              value={newReview.title}
-              onChangeText={(title) => setNewReview(prev => ({ ...prev, title }))}
-              placeholder="Brief summary of your experience"
-              maxLength={100}
-            />
-          </View>
-
           <View style={styles.formSection}>
             <Text style={styles.formLabel}>Review *</Text>
             <TextInput
               style={[styles.textInput, styles.textArea]}
-              value={newReview.content}
-              onChangeText={(content) => setNewReview(prev => ({ ...prev, content }))}
+              value={newReview.text}
+              onChangeText={(text) => setNewReview(prev => ({ ...prev, text }))}
               placeholder="Share your detailed experience..."
               multiline
               numberOfLines={4}
               maxLength={1000}
             />
           </View>
-
-          <View style={styles.formSection}>
-            <View style={styles.prosConsHeader}>
-              <Text style={styles.formLabel}>Pros</Text>
-              <TouchableOpacity style={styles.addButton} onPress={handleAddPro}>
-                <Ionicons name="add" size={20} color="#007AFF" />
-                <Text style={styles.addButtonText}>Add Pro</Text>
-              </TouchableOpacity>
-            </View>
-            {newReview.pros.map((pro, index) => (
-              <View key={index} style={styles.prosConsInput}>
-                <TextInput
-                  style={[styles.textInput, { flex: 1 }]}
-                  value={pro}
-                  onChangeText={(value) => handleUpdatePro(index, value)}
-                  placeholder="What did you like?"
-                  maxLength={100}
-                />
-                <TouchableOpacity
-                  style={styles.removeButton}
-                  onPress={() => handleRemovePro(index)}
-                >
-                  <Ionicons name="close" size={20} color="#FF3B30" />
-                </TouchableOpacity>
-              </View>
-            ))}
-          </View>
-
-          <View style={styles.formSection}>
-            <View style={styles.prosConsHeader}>
-              <Text style={styles.formLabel}>Cons</Text>
-              <TouchableOpacity style={styles.addButton} onPress={handleAddCon}>
-                <Ionicons name="add" size={20} color="#007AFF" />
-                <Text style={styles.addButtonText}>Add Con</Text>
-              </TouchableOpacity>
-            </View>
-            {newReview.cons.map((con, index) => (
-              <View key={index} style={styles.prosConsInput}>
-                <TextInput
-                  style={[styles.textInput, { flex: 1 }]}
-                  value={con}
-                  onChangeText={(value) => handleUpdateCon(index, value)}
-                  placeholder="What could be improved?"
-                  maxLength={100}
-                />
-                <TouchableOpacity
-                  style={styles.removeButton}
-                  onPress={() => handleRemoveCon(index)}
-                >
-                  <Ionicons name="close" size={20} color="#FF3B30" />
-                </TouchableOpacity>
-              </View>
-            ))}
-          </View>
         </ScrollView>
       </View>
     </Modal>
@@ -580,34 +403,12 @@ const styles = StyleSheet.create({
   deleteButton: {
     padding: 4,
   },
-  reviewTitle: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#333',
-    marginBottom: 8,
-  },
   reviewContent: {
     fontSize: 14,
     color: '#666',
     lineHeight: 20,
     marginBottom: 12,
   },
-  prosConsContainer: {
-    gap: 12,
-  },
-  prosConsSection: {
-    gap: 4,
-  },
-  prosConsTitle: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#333',
-  },
-  prosConsItem: {
-    fontSize: 14,
-    color: '#666',
-    marginLeft: 8,
-  },
   starRating: {
     flexDirection: 'row',
     gap: 2,
@@ -701,28 +502,4 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
-  prosConsHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  addButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  addButtonText: {
-    fontSize: 16,
-    color: '#007AFF',
-  },
-  prosConsInput: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-    marginBottom: 8,
-  },
-  removeButton: {
-    padding: 4,
-  },
 });
\ No newline at end of file
@@ -19,7 +19,9 @@ import {
   Trash2,
   MapPin,
   Wifi,
-  Volume2
+  Volume2,
+  History,
+  EyeOff
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { HapticFeedback } from '@/utils/haptics';
@@ -27,6 +29,7 @@ import { useToast } from '@/hooks/useToast';
 import { Toast } from '@/components/Toast';
 import { ImageCacheManager } from '@/components/OptimizedImage';
 import { useSettings, AppSettings } from '@/contexts/SettingsContext';
+import { DRAFT_RETENTION_OPTIONS } from '@/lib/capture-drafts';
 
 // AppSettings interface is now imported from SettingsContext
 // No duplicate interface definition needed
@@ -51,6 +54,8 @@ const FONT_SIZES = [
   { value: 'extra_large', label: 'Extra Large' },
 ];
 
+const formatRetention = (days: number): string => (days === 1 ? '1 day' : `${days} days`);
+
 const formatBytes = (bytes: number): string => {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -111,6 +116,19 @@ export default function AppSettingsScreen() {
     }
   };
 
+  // Cycles through the retention options on each tap
+  const handleDraftRetentionChange = async () => {
+    HapticFeedback.selection();
+    const currentIndex = DRAFT_RETENTION_OPTIONS.indexOf(settings.draftRetentionDays);
+    const next = DRAFT_RETENTION_OPTIONS[(currentIndex + 1) % DRAFT_RETENTION_OPTIONS.length];
+    try {
+      await updateSetting('draftRetentionDays', next);
+      showSuccess('Saved', `Unsaved captures are kept for ${formatRetention(next)}`);
+    } catch {
+      showError('Save Failed', 'Failed to save setting');
+    }
+  };
+
   const handleClearCache = async () => {
     HapticFeedback.medium();
     
@@ -375,6 +393,35 @@ export default function AppSettingsScreen() {
                 </TouchableOpacity>
               }
             />
+            <SettingRow
+              icon={History}
+              title="Keep Unsaved Captures"
+              subtitle="How long recent captures can be resumed"
+              rightComponent={
+                <TouchableOpacity
+                  style={styles.valueButton}
+                  onPress={handleDraftRetentionChange}
+                  accessibilityLabel={`Unsaved captures kept for ${formatRetention(settings.draftRetentionDays)}`}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.valueText, dynamicStyles.valueText]}>{formatRetention(settings.draftRetentionDays)}</Text>
+                </TouchableOpacity>
+              }
+            />
+            <SettingRow
+              icon={EyeOff}
+              title="Review Photos Before Upload"
+              subtitle="Blur faces and license plates in captures"
+              rightComponent={
+                <Switch
+                  value={settings.reviewPhotoPrivacy}
+                  onValueChange={(value) => handleToggleSetting('reviewPhotoPrivacy', value)}
+                  trackColor={{ false: '#E5E5E7', true: '#34C759' }}
+                  thumbColor="#FFFFFF"
+                  accessibilityLabel="Toggle photo privacy review"
+                />
+              }
+            />
           </View>
         </View>
 
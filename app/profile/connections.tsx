@@ -19,6 +19,7 @@ import {
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { UserConnection, SocialProfile, supabase } from '@/lib/supabase';
+import { getFollowers, getSocialProfiles } from '@/lib/repositories/social';
 import { useSocialConnections } from '@/hooks/useSocialConnections';
 import { HapticFeedback } from '@/utils/haptics';
 import { useToast } from '@/hooks/useToast';
@@ -51,11 +52,7 @@ export default function ConnectionsScreen() {
       // Load following users (people current user follows)
       if (connections.length > 0) {
         const followingIds = connections.map(conn => conn.connected_user_id);
-        const { data: followingData } = await supabase
-          .from('profiles')
-          .select('id, full_name, username, avatar_url, bio, allow_social_features')
-          .in('id', followingIds)
-          .eq('allow_social_features', true);
+        const { data: followingData } = await getSocialProfiles(supabase, followingIds);
         
         setFollowingUsers(followingData || []);
       } else {
@@ -65,26 +62,9 @@ export default function ConnectionsScreen() {
       // Load followers (people who follow current user)
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
-        const { data: followersData } = await supabase
-          .from('user_connections')
-          .select(`
-            user_id,
-            profiles!user_connections_user_id_fkey (
-              id,
-              full_name,
-              username,
-              avatar_url,
-              bio,
-              allow_social_features
-            )
-          `)
-          .eq('connected_user_id', user.id);
-
-        const followers = followersData
-          ?.map(item => item.profiles as any)
-          .filter(profile => profile?.allow_social_features) || [];
+        const { data: followers } = await getFollowers(supabase, user.id);
         
-        setFollowersUsers(followers);
+        setFollowersUsers(followers || []);
       }
     } catch (error) {
       console.error('Error loading connections:', error);
@@ -127,15 +127,20 @@ export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
         return;
       }
 
-      const newCollection = await createCollection({
+      const { data: newCollection, error } = await createCollection({
         name: newCollectionName.trim(),
         description: '',
         is_public: false,
         user_id: user.id,
       });
 
+      if (error) {
+        showError('Creation Failed', error.message);
+        return;
+      }
+
       // Add place to the new collection
-      await addPlaceToCollection(placeId, newCollection.id);
+      await addPlaceToCollection(newCollection.id, placeId);
 
       // Update local state
       setCollections(prev => [...prev, newCollection]);
@@ -8,9 +8,9 @@ import {
 } from 'react-native';
 
 interface UserAvatarProps {
-  imageUrl?: string;
+  imageUrl?: string | null;
   name: string;
-  username?: string;
+  username?: string | null;
   size?: 'small' | 'medium' | 'large';
   showName?: boolean;
   onPress?: () => void;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronDown, ChevronUp } from 'lucide-react-native';
+import { FACTOR_LABELS, getTopReasons, RankedCandidate } from '@/lib/candidate-ranking';
+
+interface MatchExplanationProps {
+  candidate: RankedCandidate;
+}
+
+const scoreColor = (score: number): string =>
+  score >= 70 ? '#34C759' : score >= 40 ? '#FF9500' : '#8E8E93';
+
+// Match score with an expandable "why this match" breakdown per ranking signal
+export const MatchExplanation: React.FC<MatchExplanationProps> = ({ candidate }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [topReason] = getTopReasons(candidate, 1);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summaryRow} onPress={() => setExpanded(!expanded)}>
+        <View style={[styles.scoreBadge, { backgroundColor: scoreColor(candidate.score) }]}>
+          <Text style={styles.scoreText}>{candidate.score}% match</Text>
+        </View>
+        <Text style={styles.summaryText} numberOfLines={1}>
+          {expanded ? 'Why this match' : topReason?.detail || 'Why this match'}
+        </Text>
+        {expanded ? (
+          <ChevronUp size={14} color="#8E8E93" strokeWidth={2} />
+        ) : (
+          <ChevronDown size={14} color="#8E8E93" strokeWidth={2} />
+        )}
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.breakdown}>
+          {candidate.signals.map(signal => (
+            <View key={signal.factor} style={styles.signalRow}>
+              <Text style={styles.signalLabel}>
+                {FACTOR_LABELS[signal.factor]} · {Math.round(signal.weight * 100)}%
+              </Text>
+              <View style={styles.signalBar}>
+                <View
+                  style={[
+                    styles.signalBarFill,
+                    { width: `${Math.round(signal.score * 100)}%`, backgroundColor: scoreColor(signal.score * 100) },
+                  ]}
+                />
+              </View>
+              <Text style={styles.signalDetail}>{signal.detail}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  scoreBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  scoreText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  breakdown: {
+    marginTop: 8,
+    gap: 8,
+  },
+  signalRow: {
+    gap: 2,
+  },
+  signalLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3C3C43',
+  },
+  signalBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E5EA',
+    overflow: 'hidden',
+  },
+  signalBarFill: {
+    height: 4,
+    borderRadius: 2,
+  },
+  signalDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+});
@@ -0,0 +1,274 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { RotateCcw, Trash2, CloudOff } from 'lucide-react-native';
+import { QueuedCapture, QueuedCaptureStatus } from '@/types/capture';
+
+interface PendingCapturesModalProps {
+  visible: boolean;
+  items: QueuedCapture[];
+  isReplaying?: boolean;
+  onClose: () => void;
+  onReview: (item: QueuedCapture) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onReplayNow: () => void;
+}
+
+const STATUS_LABELS: Record<QueuedCaptureStatus, string> = {
+  pending: 'Waiting for connection',
+  uploading: 'Uploading...',
+  analyzing: 'Analyzing...',
+  completed: 'Ready to review',
+  failed: 'Failed',
+};
+
+const STATUS_COLORS: Record<QueuedCaptureStatus, string> = {
+  pending: '#FF9500',
+  uploading: '#007AFF',
+  analyzing: '#007AFF',
+  completed: '#34C759',
+  failed: '#FF3B30',
+};
+
+const formatCapturedAt = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const PendingCapturesModal: React.FC<PendingCapturesModalProps> = ({
+  visible,
+  items,
+  isReplaying = false,
+  onClose,
+  onReview,
+  onRetry,
+  onRemove,
+  onReplayNow,
+}) => {
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Pending Captures</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.replayButton, isReplaying && styles.replayButtonDisabled]}
+          onPress={onReplayNow}
+          disabled={isReplaying}
+        >
+          {isReplaying ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <RotateCcw size={16} color="#007AFF" strokeWidth={2} />
+          )}
+          <Text style={styles.replayButtonText}>
+            {isReplaying ? 'Syncing...' : 'Sync Now'}
+          </Text>
+        </TouchableOpacity>
+
+        <ScrollView style={styles.list}>
+          {items.length === 0 ? (
+            <View style={styles.emptyState}>
+              <CloudOff size={40} color="#8E8E93" strokeWidth={1.5} />
+              <Text style={styles.emptyText}>No pending captures</Text>
+              <Text style={styles.emptySubtext}>
+                Photos taken while offline are saved here and analyzed automatically once you are back online.
+              </Text>
+            </View>
+          ) : (
+            items.map((item) => (
+              <View key={item.id} style={styles.item}>
+                <Image
+                  source={{ uri: item.thumbnailUrl || item.localUri }}
+                  style={styles.thumbnail}
+                  contentFit="cover"
+                  cachePolicy="memory-disk"
+                />
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle} numberOfLines={1}>
+                    {item.analysis?.businessName && item.analysis.businessName !== 'Unknown'
+                      ? item.analysis.businessName
+                      : 'Storefront capture'}
+                  </Text>
+                  <Text style={styles.itemMeta}>{formatCapturedAt(item.capturedAt)}</Text>
+                  <View style={styles.statusRow}>
+                    <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[item.status] }]} />
+                    <Text style={[styles.statusText, { color: STATUS_COLORS[item.status] }]}>
+                      {STATUS_LABELS[item.status]}
+                    </Text>
+                  </View>
+                  {item.lastError && item.status !== 'completed' && (
+                    <Text style={styles.errorText} numberOfLines={2}>
+                      {item.lastError} (attempt {item.attempts})
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.itemActions}>
+                  {item.status === 'completed' && (
+                    <TouchableOpacity style={styles.reviewButton} onPress={() => onReview(item)}>
+                      <Text style={styles.reviewButtonText}>Review</Text>
+                    </TouchableOpacity>
+                  )}
+                  {item.status === 'failed' && (
+                    <TouchableOpacity style={styles.iconButton} onPress={() => onRetry(item.id)}>
+                      <RotateCcw size={18} color="#007AFF" strokeWidth={2} />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.iconButton} onPress={() => onRemove(item.id)}>
+                    <Trash2 size={18} color="#FF3B30" strokeWidth={2} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  replayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F2F2F7',
+    marginHorizontal: 20,
+    marginVertical: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 8,
+  },
+  replayButtonDisabled: {
+    opacity: 0.6,
+  },
+  replayButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#E5E5EA',
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginTop: 2,
+  },
+  itemActions: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  reviewButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  reviewButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,244 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { RefreshCw, Trash2, History } from 'lucide-react-native';
+import { getDraftExpiresAt, getDraftStage } from '@/lib/capture-drafts';
+import { CaptureDraft, CaptureDraftStage } from '@/types/capture';
+
+interface RecentCapturesModalProps {
+  visible: boolean;
+  drafts: CaptureDraft[];
+  retentionDays: number;
+  onClose: () => void;
+  onResume: (draft: CaptureDraft) => void;
+  onReanalyze: (draft: CaptureDraft) => void;
+  onDiscard: (id: string) => void;
+}
+
+const STAGE_LABELS: Record<CaptureDraftStage, string> = {
+  not_analyzed: 'Not analyzed yet',
+  choosing_place: 'Choose the place',
+  ready: 'Ready to save',
+  saving: 'Saving to collection',
+};
+
+const STAGE_COLORS: Record<CaptureDraftStage, string> = {
+  not_analyzed: '#FF9500',
+  choosing_place: '#007AFF',
+  ready: '#34C759',
+  saving: '#34C759',
+};
+
+const formatUpdatedAt = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const formatExpiresIn = (expiresAt: number): string => {
+  const hours = Math.max(0, Math.round((expiresAt - Date.now()) / (60 * 60 * 1000)));
+  if (hours < 24) return `Expires in ${hours}h`;
+  const days = Math.round(hours / 24);
+  return days === 1 ? 'Expires in 1 day' : `Expires in ${days} days`;
+};
+
+const getDraftTitle = (draft: CaptureDraft): string => {
+  if (draft.selectedPlace) return draft.selectedPlace.name;
+  const businessName = draft.analysisResult?.businessName;
+  return businessName && businessName !== 'Unknown Business' ? businessName : 'Storefront capture';
+};
+
+export const RecentCapturesModal: React.FC<RecentCapturesModalProps> = ({
+  visible,
+  drafts,
+  retentionDays,
+  onClose,
+  onResume,
+  onReanalyze,
+  onDiscard,
+}) => {
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Recent Captures</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.list}>
+          {drafts.length === 0 ? (
+            <View style={styles.emptyState}>
+              <History size={40} color="#8E8E93" strokeWidth={1.5} />
+              <Text style={styles.emptyText}>No recent captures</Text>
+              <Text style={styles.emptySubtext}>
+                Captures you have not saved yet are kept here for {retentionDays === 1 ? '1 day' : `${retentionDays} days`} so you can pick up where you left off.
+              </Text>
+            </View>
+          ) : (
+            drafts.map((draft) => {
+              const stage = getDraftStage(draft);
+              return (
+                <View key={draft.id} style={styles.item}>
+                  <Image
+                    source={{ uri: draft.thumbnailUri || draft.imageUri }}
+                    style={styles.thumbnail}
+                    contentFit="cover"
+                    cachePolicy="memory-disk"
+                  />
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>{getDraftTitle(draft)}</Text>
+                    <Text style={styles.itemMeta}>
+                      {formatUpdatedAt(draft.updatedAt)} · {formatExpiresIn(getDraftExpiresAt(draft, retentionDays))}
+                    </Text>
+                    <View style={styles.statusRow}>
+                      <View style={[styles.statusDot, { backgroundColor: STAGE_COLORS[stage] }]} />
+                      <Text style={[styles.statusText, { color: STAGE_COLORS[stage] }]} numberOfLines={1}>
+                        {stage === 'saving' && draft.collection
+                          ? `Saving to ${draft.collection.name}`
+                          : STAGE_LABELS[stage]}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.itemActions}>
+                    <TouchableOpacity style={styles.resumeButton} onPress={() => onResume(draft)}>
+                      <Text style={styles.resumeButtonText}>Resume</Text>
+                    </TouchableOpacity>
+                    <View style={styles.iconRow}>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => onReanalyze(draft)}>
+                        <RefreshCw size={18} color="#007AFF" strokeWidth={2} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => onDiscard(draft.id)}>
+                        <Trash2 size={18} color="#FF3B30" strokeWidth={2} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#E5E5EA',
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  itemActions: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  resumeButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  resumeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  iconRow: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Modal,
+  PanResponder,
+  LayoutRectangle,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { EyeOff, ShieldCheck } from 'lucide-react-native';
+import { clampRegion, RedactionKind, RedactionRegion } from '@/lib/privacy-redaction';
+
+interface RedactionEditorProps {
+  visible: boolean;
+  imageUri: string | null;
+  initialRegions: RedactionRegion[];
+  onCancel: () => void;
+  onConfirm: (regions: RedactionRegion[]) => void;
+}
+
+type Box = Pick<RedactionRegion, 'x' | 'y' | 'width' | 'height'>;
+
+// Drags shorter than this (as a fraction of the photo) count as taps
+const MIN_REGION_SIZE = 0.02;
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  face: 'Face',
+  license_plate: 'Plate',
+  other: 'Blur',
+};
+
+const boxFromDrag = (startX: number, startY: number, endX: number, endY: number): Box =>
+  clampRegion({
+    x: Math.min(startX, endX),
+    y: Math.min(startY, endY),
+    width: Math.abs(endX - startX),
+    height: Math.abs(endY - startY),
+  });
+
+export const RedactionEditor: React.FC<RedactionEditorProps> = ({
+  visible,
+  imageUri,
+  initialRegions,
+  onCancel,
+  onConfirm,
+}) => {
+  const [regions, setRegions] = useState<RedactionRegion[]>(initialRegions);
+  const [draft, setDraft] = useState<Box | null>(null);
+  const [container, setContainer] = useState<LayoutRectangle | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setRegions(initialRegions);
+      setDraft(null);
+    }
+  }, [visible, initialRegions]);
+
+  // Where the photo sits inside the container with contentFit="contain"
+  const frame = useMemo(() => {
+    if (!container || !imageSize) return null;
+    const scale = Math.min(container.width / imageSize.width, container.height / imageSize.height);
+    const width = imageSize.width * scale;
+    const height = imageSize.height * scale;
+    return {
+      left: (container.width - width) / 2,
+      top: (container.height - height) / 2,
+      width,
+      height,
+    };
+  }, [container, imageSize]);
+
+  const frameRef = useRef(frame);
+  frameRef.current = frame;
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderGrant: (event) => {
+      const current = frameRef.current;
+      if (!current) return;
+      dragStart.current = {
+        x: event.nativeEvent.locationX / current.width,
+        y: event.nativeEvent.locationY / current.height,
+      };
+    },
+    onPanResponderMove: (_event, gesture) => {
+      const current = frameRef.current;
+      const start = dragStart.current;
+      if (!current || !start) return;
+      setDraft(boxFromDrag(start.x, start.y, start.x + gesture.dx / current.width, start.y + gesture.dy / current.height));
+    },
+    onPanResponderRelease: (_event, gesture) => {
+      const current = frameRef.current;
+      const start = dragStart.current;
+      dragStart.current = null;
+      setDraft(null);
+      if (!current || !start) return;
+
+      const box = boxFromDrag(start.x, start.y, start.x + gesture.dx / current.width, start.y + gesture.dy / current.height);
+      if (box.width >= MIN_REGION_SIZE && box.height >= MIN_REGION_SIZE) {
+        setRegions(previous => [...previous, { ...box, kind: 'other', source: 'user' }]);
+        return;
+      }
+
+      // A tap removes the most recently added region under the finger
+      setRegions(previous => {
+        const index = previous.map((region, i) => ({ region, i })).reverse().find(({ region }) =>
+          start.x >= region.x && start.x <= region.x + region.width &&
+          start.y >= region.y && start.y <= region.y + region.height
+        )?.i;
+        return index === undefined ? previous : previous.filter((_, i) => i !== index);
+      });
+    },
+    onPanResponderTerminate: () => {
+      dragStart.current = null;
+      setDraft(null);
+    },
+  }), []);
+
+  const renderBox = (box: Box, key: string, label?: string) => (
+    <View
+      key={key}
+      pointerEvents="none"
+      style={[
+        styles.region,
+        {
+          left: box.x * (frame?.width || 0),
+          top: box.y * (frame?.height || 0),
+          width: box.width * (frame?.width || 0),
+          height: box.height * (frame?.height || 0),
+        },
+      ]}
+    >
+      {label && <Text style={styles.regionLabel}>{label}</Text>}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={onCancel}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.headerButtonText}>Retake</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Privacy Check</Text>
+          <TouchableOpacity onPress={() => onConfirm(regions)}>
+            <Text style={[styles.headerButtonText, styles.confirmText]}>
+              {regions.length > 0 ? `Blur ${regions.length}` : 'Continue'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.hint}>
+          <EyeOff size={16} color="#FFFFFF" strokeWidth={2} />
+          <Text style={styles.hintText}>
+            Drag over faces and license plates to blur them. Tap a box to remove it.
+          </Text>
+        </View>
+
+        <View style={styles.canvas} onLayout={(event) => setContainer(event.nativeEvent.layout)}>
+          {imageUri && (
+            <Image
+              source={{ uri: imageUri }}
+              style={StyleSheet.absoluteFill}
+              contentFit="contain"
+              onLoad={(event) => setImageSize({ width: event.source.width, height: event.source.height })}
+            />
+          )}
+          {frame && (
+            <View style={[styles.drawSurface, frame]} {...panResponder.panHandlers}>
+              {regions.map((region, index) => renderBox(region, `region-${index}`, KIND_LABELS[region.kind]))}
+              {draft && renderBox(draft, 'draft')}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.footer}>
+          <ShieldCheck size={16} color="#34C759" strokeWidth={2} />
+          <Text style={styles.footerText}>
+            Only the blurred photo is uploaded. Location and camera details are removed from it.
+          </Text>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  confirmText: {
+    color: '#0A84FF',
+    fontWeight: '600',
+  },
+  hint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FFFFFF',
+    lineHeight: 18,
+  },
+  canvas: {
+    flex: 1,
+  },
+  drawSurface: {
+    position: 'absolute',
+  },
+  region: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#FF9500',
+    backgroundColor: 'rgba(255, 149, 0, 0.35)',
+    borderRadius: 4,
+    alignItems: 'flex-start',
+  },
+  regionLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  footerText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { AlertTriangle, CheckSquare, Square } from 'lucide-react-native';
+import { diffWeekHours, HOURS_SIGN_CONFIDENCE_WARNING, WEEKDAY_LABELS } from '@/lib/hours-sign';
+import { Weekday } from '@/types/hours';
+
+interface HoursDiffModalProps {
+  visible: boolean;
+  imageUri?: string;
+  currentWeekHours: string[];
+  proposedWeekHours: string[];
+  notes?: string;
+  confidence: number;
+  onConfirm: (acceptedDays: Weekday[]) => void;
+  onCancel: () => void;
+}
+
+// "Monday: 9:00 AM – 5:00 PM" -> "9:00 AM – 5:00 PM"
+const stripDayLabel = (entry: string): string => entry.replace(/^[^:]+:\s*/, '');
+
+export const HoursDiffModal: React.FC<HoursDiffModalProps> = ({
+  visible,
+  imageUri,
+  currentWeekHours,
+  proposedWeekHours,
+  notes,
+  confidence,
+  onConfirm,
+  onCancel,
+}) => {
+  const changes = useMemo(
+    () => diffWeekHours(currentWeekHours, proposedWeekHours),
+    [currentWeekHours, proposedWeekHours]
+  );
+  const [acceptedDays, setAcceptedDays] = useState<Weekday[]>([]);
+
+  // Every changed day starts accepted
+  useEffect(() => {
+    if (visible) {
+      setAcceptedDays(changes.filter(change => change.changed).map(change => change.day));
+    }
+  }, [visible, changes]);
+
+  const toggleDay = (day: Weekday) => {
+    setAcceptedDays(current =>
+      current.includes(day) ? current.filter(d => d !== day) : [...current, day]
+    );
+  };
+
+  const hasChanges = changes.some(change => change.changed);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.closeText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Confirm Hours</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {imageUri && (
+            <Image source={{ uri: imageUri }} style={styles.signImage} contentFit="cover" />
+          )}
+
+          {confidence < HOURS_SIGN_CONFIDENCE_WARNING && (
+            <View style={styles.warning}>
+              <AlertTriangle size={16} color="#FF9500" strokeWidth={2} />
+              <Text style={styles.warningText}>
+                The sign was hard to read. Check each day against the photo before saving.
+              </Text>
+            </View>
+          )}
+
+          {notes && <Text style={styles.notes}>Sign notes: {notes}</Text>}
+
+          {!hasChanges && (
+            <Text style={styles.emptySubtext}>The sign matches the hours already saved.</Text>
+          )}
+
+          {changes.map(change => {
+            const isAccepted = acceptedDays.includes(change.day);
+            return (
+              <TouchableOpacity
+                key={change.day}
+                style={[styles.row, !change.changed && styles.rowUnchanged]}
+                onPress={() => toggleDay(change.day)}
+                disabled={!change.changed}
+                activeOpacity={0.7}
+              >
+                {change.changed ? (
+                  isAccepted ? (
+                    <CheckSquare size={20} color="#007AFF" strokeWidth={2} />
+                  ) : (
+                    <Square size={20} color="#8E8E93" strokeWidth={2} />
+                  )
+                ) : (
+                  <View style={styles.checkboxSpacer} />
+                )}
+                <View style={styles.rowInfo}>
+                  <Text style={styles.dayLabel}>{WEEKDAY_LABELS[change.day]}</Text>
+                  {change.changed ? (
+                    <>
+                      <Text style={styles.beforeText}>{stripDayLabel(change.before)}</Text>
+                      <Text style={[styles.afterText, !isAccepted && styles.afterTextRejected]}>
+                        {stripDayLabel(change.after)}
+                      </Text>
+                    </>
+                  ) : (
+                    <Text style={styles.unchangedText}>{stripDayLabel(change.after)}</Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.confirmButton, acceptedDays.length === 0 && styles.confirmButtonDisabled]}
+            onPress={() => onConfirm(acceptedDays)}
+            disabled={acceptedDays.length === 0}
+          >
+            <Text style={styles.confirmButtonText}>
+              {acceptedDays.length === 1 ? 'Update 1 Day' : `Update ${acceptedDays.length} Days`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+  },
+  signImage: {
+    width: '100%',
+    height: 160,
+    borderRadius: 12,
+    marginBottom: 16,
+    backgroundColor: '#E5E5EA',
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFF4E5',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8A5300',
+    lineHeight: 18,
+  },
+  notes: {
+    fontSize: 14,
+    color: '#3C3C43',
+    marginBottom: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  rowUnchanged: {
+    backgroundColor: '#FFFFFF',
+  },
+  checkboxSpacer: {
+    width: 20,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  dayLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  beforeText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  afterText: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '500',
+  },
+  afterTextRejected: {
+    color: '#8E8E93',
+  },
+  unchangedText: {
+    fontSize: 14,
+    color: '#3C3C43',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  confirmButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,131 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, StyleProp, ViewStyle, TextStyle } from 'react-native';
+import { formatHoursTime, WEEKDAYS, WEEKDAY_LABELS } from '@/lib/hours-sign';
+import { HapticFeedback } from '@/utils/haptics';
+import { OpenFilter, Weekday } from '@/types/hours';
+
+interface OpenFilterChipsProps {
+  filter: OpenFilter;
+  onChange: (filter: OpenFilter) => void;
+  // Lets each screen keep its own chip look
+  scrollStyle?: StyleProp<ViewStyle>;
+  chipStyle?: StyleProp<ViewStyle>;
+  selectedChipStyle?: StyleProp<ViewStyle>;
+  chipTextStyle?: StyleProp<TextStyle>;
+  selectedChipTextStyle?: StyleProp<TextStyle>;
+}
+
+// Hourly choices for "Open at…", from early morning round to the small hours
+const TIME_OPTIONS = Array.from({ length: 24 }, (_, i) => `${String((i + 6) % 24).padStart(2, '0')}:00`);
+
+const MODE_OPTIONS: { mode: OpenFilter['mode']; label: string }[] = [
+  { mode: 'any', label: 'Any time' },
+  { mode: 'now', label: 'Open now' },
+  { mode: 'at', label: 'Open at…' },
+];
+
+// "Open at…" starts on the next full hour today
+const getDefaultAtFilter = (): OpenFilter => {
+  const now = new Date();
+  return {
+    mode: 'at',
+    day: WEEKDAYS[(now.getDay() + 6) % 7],
+    time: `${String((now.getHours() + 1) % 24).padStart(2, '0')}:00`,
+  };
+};
+
+export const OpenFilterChips: React.FC<OpenFilterChipsProps> = ({
+  filter,
+  onChange,
+  scrollStyle,
+  chipStyle,
+  selectedChipStyle,
+  chipTextStyle,
+  selectedChipTextStyle,
+}) => {
+  const select = (next: OpenFilter) => {
+    HapticFeedback.selection();
+    onChange(next);
+  };
+
+  const selectMode = (mode: OpenFilter['mode']) => {
+    if (mode === filter.mode) return;
+    select(mode === 'at' ? getDefaultAtFilter() : { mode });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, accessibilityLabel?: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, chipStyle, selected && styles.selectedChip, selected && selectedChipStyle]}
+      onPress={onPress}
+      accessibilityLabel={accessibilityLabel || label}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, chipTextStyle, selected && styles.selectedChipText, selected && selectedChipTextStyle]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={scrollStyle}>
+        {MODE_OPTIONS.map(({ mode, label }) =>
+          renderChip(mode, label, filter.mode === mode, () => selectMode(mode))
+        )}
+      </ScrollView>
+
+      {filter.mode === 'at' && (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={scrollStyle}>
+            {WEEKDAYS.map((day: Weekday) =>
+              renderChip(
+                day,
+                WEEKDAY_LABELS[day].slice(0, 3),
+                filter.day === day,
+                () => select({ ...filter, day }),
+                `Open on ${WEEKDAY_LABELS[day]}`
+              )
+            )}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={scrollStyle}>
+            {TIME_OPTIONS.map(time =>
+              renderChip(
+                time,
+                formatHoursTime(time),
+                filter.time === time,
+                () => select({ ...filter, time }),
+                `Open at ${formatHoursTime(time)}`
+              )
+            )}
+          </ScrollView>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#3C3C43',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { formatMenuPrice } from '@/lib/menu';
+import { MenuSection } from '@/types/menu';
+
+interface MenuSectionListProps {
+  sections: MenuSection[];
+  currency: string;
+  highlightQuery?: string; // Item names containing this are emphasized
+}
+
+export const MenuSectionList: React.FC<MenuSectionListProps> = ({ sections, currency, highlightQuery }) => {
+  const highlight = highlightQuery?.trim().toLowerCase();
+
+  return (
+    <View>
+      {sections.map((section, sectionIndex) => (
+        <View key={`${section.name}-${sectionIndex}`} style={styles.section}>
+          <Text style={styles.sectionName}>{section.name}</Text>
+          {section.items.map(item => {
+            const isHighlighted = !!highlight && item.name.toLowerCase().includes(highlight);
+            return (
+              <View key={item.id} style={styles.itemRow}>
+                <View style={styles.itemText}>
+                  <Text style={[styles.itemName, isHighlighted && styles.itemNameHighlighted]}>{item.name}</Text>
+                  {item.description && (
+                    <Text style={styles.itemDescription}>{item.description}</Text>
+                  )}
+                </View>
+                <Text style={styles.itemPrice}>
+                  {item.price === null && item.priceText ? item.priceText : formatMenuPrice(item.price, currency)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 16,
+  },
+  sectionName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#000000',
+  },
+  itemNameHighlighted: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  itemDescription: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  itemPrice: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#000000',
+  },
+});
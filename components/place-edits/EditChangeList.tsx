@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import { formatEditValue, getChangedFields, PLACE_FIELD_LABELS } from '@/lib/place-edits';
+import { EditablePlaceField, PlaceEditChanges } from '@/types/place-edit';
+
+interface EditChangeListProps {
+  changes: PlaceEditChanges;
+  staleFields?: EditablePlaceField[]; // Changed on the place since the suggestion was made
+}
+
+// Each changed field as its old value struck through above the proposed one
+export const EditChangeList: React.FC<EditChangeListProps> = ({ changes, staleFields = [] }) => (
+  <View style={styles.container}>
+    {getChangedFields(changes).map(field => (
+      <View key={field} style={styles.row}>
+        <Text style={styles.fieldLabel}>{PLACE_FIELD_LABELS[field]}</Text>
+        <Text style={styles.fromText}>{formatEditValue(field, changes[field]!.from)}</Text>
+        <Text style={styles.toText}>{formatEditValue(field, changes[field]!.to)}</Text>
+        {staleFields.includes(field) && (
+          <View style={styles.staleRow}>
+            <AlertTriangle size={12} color="#FF9500" strokeWidth={2} />
+            <Text style={styles.staleText}>Changed since this was suggested</Text>
+          </View>
+        )}
+      </View>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3C3C43',
+  },
+  fromText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  toText: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '500',
+  },
+  staleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  staleText: {
+    fontSize: 12,
+    color: '#8A5300',
+  },
+});
@@ -0,0 +1,246 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  ActivityIndicator,
+  KeyboardTypeOptions,
+} from 'react-native';
+import {
+  diffPlaceEdit,
+  EDITABLE_PLACE_FIELDS,
+  getChangedFields,
+  parsePlaceEditForm,
+  PLACE_FIELD_LABELS,
+  PlaceEditForm,
+  toPlaceEditForm,
+  validatePlaceEdit,
+} from '@/lib/place-edits';
+import { EditablePlaceField, EditablePlaceValues, PlaceEditChanges } from '@/types/place-edit';
+import { EditChangeList } from './EditChangeList';
+
+interface SuggestEditModalProps {
+  visible: boolean;
+  place: EditablePlaceValues;
+  isSubmitting: boolean;
+  onSubmit: (changes: PlaceEditChanges, note: string) => void;
+  onCancel: () => void;
+}
+
+const FIELD_INPUTS: Record<EditablePlaceField, { placeholder: string; keyboardType?: KeyboardTypeOptions; multiline?: boolean }> = {
+  name: { placeholder: 'Business name' },
+  category: { placeholder: 'e.g. Cafe' },
+  address: { placeholder: 'Street, city, country', multiline: true },
+  week_hours: { placeholder: 'Monday: 9:00 AM – 5:00 PM\nTuesday: ...', multiline: true },
+  phone: { placeholder: '+1 555 123 4567', keyboardType: 'phone-pad' },
+  website: { placeholder: 'example.com', keyboardType: 'url' },
+  latitude: { placeholder: '37.774900', keyboardType: 'numbers-and-punctuation' },
+  longitude: { placeholder: '-122.419400', keyboardType: 'numbers-and-punctuation' },
+};
+
+export const SuggestEditModal: React.FC<SuggestEditModalProps> = ({
+  visible,
+  place,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [form, setForm] = useState<PlaceEditForm>(() => toPlaceEditForm(place));
+  const [note, setNote] = useState('');
+
+  // Start from the place as it is now each time the modal opens (only then, so a re-rendered
+  // place doesn't wipe what the user typed)
+  const [wasVisible, setWasVisible] = useState(visible);
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setForm(toPlaceEditForm(place));
+      setNote('');
+    }
+  }
+
+  const proposed = useMemo(() => parsePlaceEditForm(form), [form]);
+  const changes = useMemo(() => diffPlaceEdit(place, proposed), [place, proposed]);
+  const changeCount = getChangedFields(changes).length;
+  const validationError = changeCount > 0 ? validatePlaceEdit(proposed) : null;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel}>
+            <Text style={styles.closeText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Suggest an Edit</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+          <Text style={styles.intro}>
+            Change anything that is wrong. Your suggestion is applied once other trusted members
+            agree, or after a moderator reviews it.
+          </Text>
+
+          {EDITABLE_PLACE_FIELDS.map(field => (
+            <View key={field} style={styles.field}>
+              <Text style={styles.fieldLabel}>{PLACE_FIELD_LABELS[field]}</Text>
+              <TextInput
+                style={[styles.input, FIELD_INPUTS[field].multiline && styles.inputMultiline]}
+                value={form[field]}
+                onChangeText={value => setForm(current => ({ ...current, [field]: value }))}
+                placeholder={FIELD_INPUTS[field].placeholder}
+                placeholderTextColor="#C7C7CC"
+                keyboardType={FIELD_INPUTS[field].keyboardType}
+                multiline={FIELD_INPUTS[field].multiline}
+                autoCapitalize={field === 'website' ? 'none' : 'sentences'}
+                autoCorrect={false}
+              />
+            </View>
+          ))}
+
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Note for moderators (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.inputMultiline]}
+              value={note}
+              onChangeText={setNote}
+              placeholder="e.g. The phone number on the door is different"
+              placeholderTextColor="#C7C7CC"
+              multiline
+            />
+          </View>
+
+          {changeCount > 0 && (
+            <View style={styles.preview}>
+              <Text style={styles.previewTitle}>Your changes</Text>
+              <EditChangeList changes={changes} />
+            </View>
+          )}
+
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.confirmButton, (changeCount === 0 || !!validationError || isSubmitting) && styles.confirmButtonDisabled]}
+            onPress={() => onSubmit(changes, note.trim())}
+            disabled={changeCount === 0 || !!validationError || isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.confirmButtonText}>
+                {changeCount === 0
+                  ? 'No Changes'
+                  : changeCount === 1 ? 'Suggest 1 Change' : `Suggest ${changeCount} Changes`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#3C3C43',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+  },
+  inputMultiline: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 4,
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 12,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 0.5,
+    borderTopColor: '#E5E5EA',
+  },
+  confirmButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,183 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { RotateCcw } from 'lucide-react-native';
+import {
+  AUDIT_SOURCE_LABELS,
+  describeAuditEntry,
+  formatAuditField,
+  formatAuditValue,
+  getAuditFieldChanges,
+} from '@/lib/audit-log';
+import { AuditEntry } from '@/types/audit';
+
+interface PlaceHistoryListProps {
+  entries: AuditEntry[];
+  isLoading: boolean;
+  hasMore: boolean;
+  canRevert: boolean; // Admins only
+  revertingEntryId: string | null;
+  onLoadMore: () => void;
+  onRevert: (entry: AuditEntry) => void;
+}
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const PlaceHistoryList: React.FC<PlaceHistoryListProps> = ({
+  entries,
+  isLoading,
+  hasMore,
+  canRevert,
+  revertingEntryId,
+  onLoadMore,
+  onRevert,
+}) => {
+  if (entries.length === 0) {
+    return isLoading ? (
+      <ActivityIndicator style={styles.loading} color="#007AFF" />
+    ) : (
+      <View style={styles.empty}>
+        <Text style={styles.emptyText}>No changes recorded yet</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {entries.map(entry => (
+        <View key={entry.id} style={styles.entry}>
+          <View style={styles.entryHeader}>
+            <View style={styles.entryTitleBlock}>
+              <Text style={styles.entryTitle}>{describeAuditEntry(entry)}</Text>
+              <Text style={styles.entryMeta}>
+                {entry.actor_name || 'Someone'} · {AUDIT_SOURCE_LABELS[entry.source]} · {formatTimestamp(entry.created_at)}
+              </Text>
+            </View>
+            {entry.reverted_at ? (
+              <Text style={styles.revertedBadge}>Reverted</Text>
+            ) : canRevert && (
+              <TouchableOpacity
+                style={styles.revertButton}
+                onPress={() => onRevert(entry)}
+                disabled={revertingEntryId === entry.id}
+              >
+                {revertingEntryId === entry.id ? (
+                  <ActivityIndicator size="small" color="#FF3B30" />
+                ) : (
+                  <RotateCcw size={14} color="#FF3B30" strokeWidth={2} />
+                )}
+                <Text style={styles.revertText}>Revert</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {getAuditFieldChanges(entry).map(({ field, before, after }) => (
+            <View key={field} style={styles.change}>
+              <Text style={styles.changeField}>{formatAuditField(field)}</Text>
+              {entry.action !== 'insert' && (
+                <Text style={styles.beforeText} numberOfLines={3}>{formatAuditValue(before)}</Text>
+              )}
+              {entry.action !== 'delete' && (
+                <Text style={styles.afterText} numberOfLines={3}>{formatAuditValue(after)}</Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {hasMore && (
+        <TouchableOpacity style={styles.loadMoreButton} onPress={onLoadMore} disabled={isLoading}>
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <Text style={styles.loadMoreText}>Show older changes</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: 40,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  entry: {
+    backgroundColor: '#F9F9F9',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  entryTitleBlock: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  revertedBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  revertText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '500',
+  },
+  change: {
+    gap: 2,
+  },
+  changeField: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3C3C43',
+  },
+  beforeText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textDecorationLine: 'line-through',
+  },
+  afterText: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '500',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+});
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Appearance, ColorSchemeName } from 'react-native';
+import { DEFAULT_DRAFT_RETENTION_DAYS } from '@/lib/capture-drafts';
 
 export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
@@ -11,6 +12,8 @@ export interface AppSettings {
   fontSize: 'small' | 'medium' | 'large' | 'extra_large';
   soundEnabled: boolean;
   vibrationEnabled: boolean;
+  draftRetentionDays: number; // How long unsaved captures stay in "Recent captures"
+  reviewPhotoPrivacy: boolean; // Mark faces and plates to blur before a capture is uploaded
 }
 
 export interface ThemeColors {
@@ -56,6 +59,8 @@ const DEFAULT_SETTINGS: AppSettings = {
   fontSize: 'medium',
   soundEnabled: true,
   vibrationEnabled: true,
+  draftRetentionDays: DEFAULT_DRAFT_RETENTION_DAYS,
+  reviewPhotoPrivacy: true,
 };
 
 const LIGHT_COLORS: ThemeColors = {
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { batchCaptureSession, BatchCapturePhoto, BatchSaveOptions } from '@/lib/batch-capture';
+import { BatchCaptureItem, CaptureLocation } from '@/types/capture';
+
+export const useBatchCapture = () => {
+  const [items, setItems] = useState<BatchCaptureItem[]>([]);
+
+  useEffect(() => batchCaptureSession.subscribe(setItems), []);
+
+  const readyCount = items.filter(item => item.status === 'ready').length;
+  const inProgressCount = items.filter(item =>
+    item.status === 'queued' || item.status === 'uploading' ||
+    item.status === 'analyzing' || item.status === 'matching'
+  ).length;
+  const confirmedCount = items.filter(item =>
+    item.decision === 'confirmed' && item.selectedPlaceId && !item.savedPlaceId
+  ).length;
+
+  const addCapture = useCallback(
+    (localUri: string, location: CaptureLocation | null, photo?: BatchCapturePhoto) =>
+      batchCaptureSession.addCapture(localUri, location, photo),
+    []
+  );
+  const selectCandidate = useCallback(
+    (id: string, placeId: string) => batchCaptureSession.selectCandidate(id, placeId),
+    []
+  );
+  const confirm = useCallback((id: string) => batchCaptureSession.setDecision(id, 'confirmed'), []);
+  const discard = useCallback((id: string) => batchCaptureSession.setDecision(id, 'discarded'), []);
+  const restore = useCallback((id: string) => batchCaptureSession.setDecision(id, 'pending'), []);
+  const retry = useCallback((id: string) => batchCaptureSession.retry(id), []);
+  const searchCandidates = useCallback(
+    (id: string, query: string) => batchCaptureSession.searchCandidates(id, query),
+    []
+  );
+  const saveConfirmed = useCallback(
+    (options: BatchSaveOptions) => batchCaptureSession.saveConfirmed(options),
+    []
+  );
+  const clear = useCallback(() => batchCaptureSession.clear(), []);
+
+  return {
+    items,
+    readyCount,
+    inProgressCount,
+    confirmedCount,
+    addCapture,
+    selectCandidate,
+    confirm,
+    discard,
+    restore,
+    retry,
+    searchCandidates,
+    saveConfirmed,
+    clear,
+  };
+};
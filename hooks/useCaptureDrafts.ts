@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { captureDrafts, DEFAULT_DRAFT_RETENTION_DAYS } from '@/lib/capture-drafts';
+import { CaptureDraft, CaptureLocation } from '@/types/capture';
+
+interface UseCaptureDraftsProps {
+  retentionDays?: number; // Default 7 days
+  // False while retentionDays is still loading from settings, so drafts are not loaded and
+  // pruned against the default retention first
+  ready?: boolean;
+}
+
+export const useCaptureDrafts = ({
+  retentionDays = DEFAULT_DRAFT_RETENTION_DAYS,
+  ready = true,
+}: UseCaptureDraftsProps = {}) => {
+  const [drafts, setDrafts] = useState<CaptureDraft[]>([]);
+
+  useEffect(() => captureDrafts.subscribe(setDrafts), []);
+
+  // Loads the drafts on the first call, then prunes them with the retention period
+  useEffect(() => {
+    if (ready) {
+      captureDrafts.setRetentionDays(retentionDays);
+    }
+  }, [ready, retentionDays]);
+
+  // Drafts can expire while the app sits in the background
+  useEffect(() => {
+    if (!ready) return;
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        captureDrafts.pruneExpired();
+      }
+    });
+
+    return () => subscription?.remove();
+  }, [ready]);
+
+  const createDraft = useCallback((capture: {
+    imageUri: string;
+    thumbnailUri?: string;
+    perceptualHash?: string | null;
+    location?: CaptureLocation | null;
+  }) => captureDrafts.create(capture), []);
+
+  const updateDraft = useCallback(
+    (id: string, updates: Partial<Omit<CaptureDraft, 'id' | 'createdAt'>>) => captureDrafts.update(id, updates),
+    []
+  );
+
+  const removeDraft = useCallback((id: string) => captureDrafts.remove(id), []);
+
+  return {
+    drafts,
+    createDraft,
+    updateDraft,
+    removeDraft,
+  };
+};
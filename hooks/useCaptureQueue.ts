@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { captureQueue } from '@/lib/capture-queue';
+import { KeptExif } from '@/lib/privacy-redaction';
+import { isOnlineState } from '@/utils/error-handling';
+import { CaptureLocation, QueuedCapture } from '@/types/capture';
+
+interface UseCaptureQueueProps {
+  enabled?: boolean; // Default true
+}
+
+export const useCaptureQueue = ({
+  enabled = true
+}: UseCaptureQueueProps = {}) => {
+  const [items, setItems] = useState<QueuedCapture[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const appState = useRef(AppState.currentState);
+
+  const pendingCount = items.filter(item => item.status !== 'completed').length;
+  const hasReplayableItems = items.some(item => item.status === 'pending');
+
+  const replay = useCallback(async () => {
+    setIsReplaying(true);
+    try {
+      const completed = await captureQueue.processQueue();
+      if (completed > 0) {
+        console.log(`📤 Capture queue: ${completed} captures analyzed`);
+      }
+      return completed;
+    } catch (error) {
+      console.error('📤 Capture queue: replay failed:', error);
+      return 0;
+    } finally {
+      setIsReplaying(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = captureQueue.subscribe(setItems);
+    captureQueue.load().then(() => {
+      if (enabled) replay();
+    });
+    return unsubscribe;
+  }, [enabled, replay]);
+
+  // Replay when the device comes back online, while there is something to replay
+  useEffect(() => {
+    if (!enabled || !hasReplayableItems) return;
+
+    return NetInfo.addEventListener(state => {
+      if (isOnlineState(state) && appState.current === 'active') {
+        replay();
+      }
+    });
+  }, [enabled, hasReplayableItems, replay]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      const prevState = appState.current;
+      appState.current = nextAppState;
+
+      if (enabled && prevState.match(/inactive|background/) && nextAppState === 'active') {
+        replay();
+      }
+    });
+
+    return () => subscription?.remove();
+  }, [enabled, replay]);
+
+  const enqueue = useCallback((capture: {
+    imageUri: string;
+    location: CaptureLocation | null;
+    heading?: number;
+    redacted?: boolean;
+    keptExif?: KeptExif;
+    capturedAt?: number;
+  }) => captureQueue.enqueue(capture), []);
+
+  const retry = useCallback((id: string) => captureQueue.retry(id), []);
+  const remove = useCallback((id: string) => captureQueue.remove(id), []);
+
+  return {
+    items,
+    pendingCount,
+    isReplaying,
+    enqueue,
+    replay,
+    retry,
+    remove,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { extractHoursFromPhoto } from '@/lib/openai';
+import { AnalysisError } from '@/lib/analysis-schema';
+import { QuotaExceededError } from '@/lib/usage-quota';
+import { buildWeekHours } from '@/lib/hours-sign';
+import { HoursSignExtraction } from '@/types/hours';
+
+export interface HoursSignProposal {
+  imageUri: string;
+  extraction: HoursSignExtraction;
+  currentWeekHours: string[];
+  proposedWeekHours: string[];
+}
+
+// Photograph an hours sign and turn it into a week_hours proposal for HoursDiffModal
+export const useHoursSignReader = () => {
+  const [isReading, setIsReading] = useState(false);
+  const [proposal, setProposal] = useState<HoursSignProposal | null>(null);
+
+  const readHoursSign = useCallback(async (currentWeekHours: string[], source: 'camera' | 'library' = 'camera') => {
+    const options: ImagePicker.ImagePickerOptions = { mediaTypes: 'images', quality: 0.8 };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || !result.assets[0]) return;
+
+    const imageUri = result.assets[0].uri;
+    setIsReading(true);
+    try {
+      const extraction = await extractHoursFromPhoto(imageUri);
+      if (extraction.days.length === 0) {
+        Alert.alert('No Hours Found', 'We could not read any opening hours. Try a closer, straight-on photo of the sign.');
+        return;
+      }
+
+      setProposal({
+        imageUri,
+        extraction,
+        currentWeekHours,
+        proposedWeekHours: buildWeekHours(extraction, currentWeekHours),
+      });
+    } catch (error) {
+      Alert.alert(
+        'Hours Not Read',
+        error instanceof AnalysisError
+          ? error.userMessage
+          : error instanceof QuotaExceededError
+            ? error.message
+            : 'Failed to read the hours sign. Please try again.'
+      );
+    } finally {
+      setIsReading(false);
+    }
+  }, []);
+
+  const clearProposal = useCallback(() => setProposal(null), []);
+
+  return { isReading, proposal, readHoursSign, clearProposal };
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { UserConnection, ConnectionsCount, SocialProfile, supabase, getCurrentUser } from '@/lib/supabase';
+import { getUserConnections, searchSocialProfiles } from '@/lib/repositories/social';
 import { withRetry, AppError, ErrorType } from '@/utils/error-handling';
 import { sendNewFollowerNotification } from '@/lib/push-notifications';
 
@@ -40,17 +41,13 @@ export const useSocialConnections = (): UseSocialConnectionsReturn => {
       }
 
       // Load user's connections (people they follow)
-      const { data: connectionsData, error: connectionsError } = await supabase
-        .from('user_connections')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      const { data: connectionsData, error: connectionsError } = await getUserConnections(supabase, user.id);
 
       if (connectionsError) {
         throw new AppError(connectionsError.message, ErrorType.DATABASE);
       }
 
-      setConnections(connectionsData || []);
+      setConnections(connectionsData);
 
       // Load connections count
       const count = await getConnectionsCount();
@@ -191,18 +188,13 @@ export const useSocialConnections = (): UseSocialConnectionsReturn => {
     try {
       if (!query.trim()) return [];
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, full_name, username, avatar_url, bio, allow_social_features')
-        .eq('allow_social_features', true)
-        .or(`full_name.ilike.%${query}%,username.ilike.%${query}%`)
-        .limit(20);
+      const { data, error } = await searchSocialProfiles(supabase, query);
 
       if (error) {
         throw new AppError(error.message, ErrorType.DATABASE);
       }
 
-      return data || [];
+      return data;
 
     } catch (err) {
       console.error('Error searching users:', err);
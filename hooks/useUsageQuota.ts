@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { usageQuotaTracker } from '@/lib/usage-quota';
+import { QuotaFeature, UsageQuota } from '@/types/quota';
+
+// Latest quota reported by the proxy routes for a feature (undefined until the first request)
+export const useUsageQuota = (feature: QuotaFeature) => {
+  const [quota, setQuota] = useState<UsageQuota | undefined>(() => usageQuotaTracker.getQuota(feature));
+
+  useEffect(() => usageQuotaTracker.subscribe(quotas => setQuota(quotas[feature])), [feature]);
+
+  const isLow = !!quota && quota.limit !== null && quota.remaining !== null &&
+    quota.remaining <= Math.max(3, Math.ceil(quota.limit * 0.1));
+
+  return {
+    quota,
+    remaining: quota?.remaining ?? null,
+    isExhausted: quota?.remaining === 0,
+    isLow,
+  };
+};
@@ -0,0 +1,285 @@
+// Analysis cache for the /api/openai route
+// Results are keyed by the SHA-256 of the image bytes the provider analysed (and the prompt
+// version that produced them), so an exact match can be shared between users. Near-duplicate
+// photos are matched by the perceptual hash of a fingerprint the client sends; since that
+// fingerprint is not checked against the image, perceptual matches only reuse the same user's
+// analyses. The store is pluggable (ANALYSIS_CACHE_STORE).
+import { readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient } from './api-auth';
+import { hammingDistance } from './image-hash';
+
+export type CachedAnalysisTask = 'analyze-storefront' | 'quick-analysis' | 'extract-sign-text' | 'extract-menu' | 'extract-hours';
+
+export interface AnalysisCacheEntry<T = unknown> {
+  task: CachedAnalysisTask;
+  contentHash: string;
+  perceptualHash?: string;
+  ownerId?: string; // Who sent the photo; perceptual matches stay within one user's entries
+  promptVersion?: string; // Results from one prompt version are never served for another
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Returned to the client alongside every cacheable analysis
+export interface AnalysisCacheMetadata {
+  hit: boolean;
+  match?: 'exact' | 'perceptual';
+  distance?: number; // Hamming distance for perceptual matches
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+// What a cached analysis is looked up and saved by
+export interface AnalysisImageKey {
+  contentHash: string;
+  perceptualHash?: string | null;
+  ownerId?: string | null;
+}
+
+export interface AnalysisCacheStore {
+  get(key: string): Promise<AnalysisCacheEntry | null>;
+  set(key: string, entry: AnalysisCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(task: CachedAnalysisTask, ownerId: string): Promise<[string, AnalysisCacheEntry][]>;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const DEFAULT_PERCEPTUAL_THRESHOLD = 6; // Max differing bits out of 64
+
+export const createMemoryCacheStore = (): AnalysisCacheStore => {
+  const entries = new Map<string, AnalysisCacheEntry>();
+  return {
+    async get(key) {
+      return entries.get(key) || null;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async list(task, ownerId) {
+      return [...entries.entries()].filter(([, entry]) => entry.task === task && entry.ownerId === ownerId);
+    },
+  };
+};
+
+// JSON file store for local development; survives dev server restarts
+export const createLocalCacheStore = (path: string): AnalysisCacheStore => {
+  let entries: Record<string, AnalysisCacheEntry> | null = null;
+
+  const load = (): Record<string, AnalysisCacheEntry> => {
+    if (!entries) {
+      try {
+        entries = JSON.parse(readFileSync(path, 'utf8'));
+      } catch {
+        entries = {};
+      }
+    }
+    return entries!;
+  };
+
+  const persist = () => {
+    try {
+      writeFileSync(path, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('Unable to persist analysis cache:', error);
+    }
+  };
+
+  return {
+    async get(key) {
+      return load()[key] || null;
+    },
+    async set(key, entry) {
+      load()[key] = entry;
+      persist();
+    },
+    async delete(key) {
+      delete load()[key];
+      persist();
+    },
+    async list(task, ownerId) {
+      return Object.entries(load()).filter(([, entry]) => entry.task === task && entry.ownerId === ownerId);
+    },
+  };
+};
+
+// Shared store in the analysis_cache table, for deployments with more than one server instance.
+// Written with the service role; clients have no access.
+export const createSupabaseCacheStore = (client: SupabaseClient): AnalysisCacheStore => ({
+  async get(key) {
+    const { data, error } = await client.from('analysis_cache').select('entry').eq('key', key).maybeSingle();
+    if (error) throw new Error(`Analysis cache read failed: ${error.message}`);
+    return (data?.entry as AnalysisCacheEntry | undefined) || null;
+  },
+  async set(key, entry) {
+    const { error } = await client.from('analysis_cache').upsert({
+      key,
+      task: entry.task,
+      owner_id: entry.ownerId || null,
+      perceptual_hash: entry.perceptualHash || null,
+      entry,
+      expires_at: new Date(entry.expiresAt).toISOString(),
+    });
+    if (error) throw new Error(`Analysis cache write failed: ${error.message}`);
+  },
+  async delete(key) {
+    const { error } = await client.from('analysis_cache').delete().eq('key', key);
+    if (error) throw new Error(`Analysis cache delete failed: ${error.message}`);
+  },
+  async list(task, ownerId) {
+    const { data, error } = await client
+      .from('analysis_cache')
+      .select('key, entry')
+      .eq('task', task)
+      .eq('owner_id', ownerId)
+      .not('perceptual_hash', 'is', null);
+    if (error) throw new Error(`Analysis cache read failed: ${error.message}`);
+    return (data || []).map(row => [row.key as string, row.entry as AnalysisCacheEntry]);
+  },
+});
+
+export interface AnalysisCacheOptions {
+  ttlSeconds?: number;
+  perceptualThreshold?: number;
+  now?: () => number;
+}
+
+export class AnalysisCache {
+  private ttlMs: number;
+  private perceptualThreshold: number;
+  private now: () => number;
+
+  constructor(private store: AnalysisCacheStore, options: AnalysisCacheOptions = {}) {
+    this.ttlMs = (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+    this.perceptualThreshold = options.perceptualThreshold ?? DEFAULT_PERCEPTUAL_THRESHOLD;
+    this.now = options.now || Date.now;
+  }
+
+  private key(task: CachedAnalysisTask, contentHash: string, promptVersion?: string): string {
+    return promptVersion ? `${task}:${promptVersion}:${contentHash}` : `${task}:${contentHash}`;
+  }
+
+  private metadata(entry: AnalysisCacheEntry, match: 'exact' | 'perceptual', distance?: number): AnalysisCacheMetadata {
+    return {
+      hit: true,
+      match,
+      distance,
+      cachedAt: new Date(entry.createdAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    };
+  }
+
+  // Exact content match first, then the closest perceptual match within the threshold
+  // among the same user's entries
+  async lookup<T>(
+    task: CachedAnalysisTask,
+    { contentHash, perceptualHash, ownerId }: AnalysisImageKey,
+    promptVersion?: string
+  ): Promise<{ value: T; cache: AnalysisCacheMetadata } | null> {
+    const now = this.now();
+    const key = this.key(task, contentHash, promptVersion);
+    const exact = await this.store.get(key);
+    if (exact) {
+      if (exact.expiresAt > now) {
+        return { value: exact.value as T, cache: this.metadata(exact, 'exact') };
+      }
+      await this.store.delete(key);
+    }
+
+    if (!perceptualHash || !ownerId) return null;
+
+    let best: { entry: AnalysisCacheEntry; distance: number } | null = null;
+    for (const [entryKey, entry] of await this.store.list(task, ownerId)) {
+      if (entry.expiresAt <= now) {
+        await this.store.delete(entryKey);
+        continue;
+      }
+      if (!entry.perceptualHash || entry.promptVersion !== promptVersion) continue;
+
+      const distance = hammingDistance(perceptualHash, entry.perceptualHash);
+      if (distance <= this.perceptualThreshold && (!best || distance < best.distance)) {
+        best = { entry, distance };
+      }
+    }
+
+    return best
+      ? { value: best.entry.value as T, cache: this.metadata(best.entry, 'perceptual', best.distance) }
+      : null;
+  }
+
+  async save<T>(
+    task: CachedAnalysisTask,
+    { contentHash, perceptualHash, ownerId }: AnalysisImageKey,
+    value: T,
+    promptVersion?: string
+  ): Promise<AnalysisCacheMetadata> {
+    const createdAt = this.now();
+    const entry: AnalysisCacheEntry<T> = {
+      task,
+      contentHash,
+      perceptualHash: perceptualHash || undefined,
+      ownerId: ownerId || undefined,
+      promptVersion,
+      value,
+      createdAt,
+      expiresAt: createdAt + this.ttlMs,
+    };
+    try {
+      await this.store.set(this.key(task, contentHash, promptVersion), entry);
+    } catch (error) {
+      console.warn('Unable to cache analysis:', error);
+    }
+    return { hit: false };
+  }
+}
+
+// Build the cache selected by environment configuration; null disables caching.
+// Production needs the shared supabase store: memory and local files are per instance and
+// lost on redeploy, so without it production runs uncached.
+export const createAnalysisCache = (
+  env: Record<string, string | undefined> = process.env,
+  getClient: () => SupabaseClient | null = getAdminClient
+): AnalysisCache | null => {
+  const isProduction = env.NODE_ENV === 'production';
+  const storeType = env.ANALYSIS_CACHE_STORE || (isProduction ? 'none' : 'local');
+  const options: AnalysisCacheOptions = {
+    ttlSeconds: env.ANALYSIS_CACHE_TTL_SECONDS ? Number(env.ANALYSIS_CACHE_TTL_SECONDS) : undefined,
+    perceptualThreshold: env.ANALYSIS_CACHE_PERCEPTUAL_THRESHOLD
+      ? Number(env.ANALYSIS_CACHE_PERCEPTUAL_THRESHOLD)
+      : undefined,
+  };
+
+  if (isProduction && (storeType === 'memory' || storeType === 'local')) {
+    console.warn(`ANALYSIS_CACHE_STORE "${storeType}" is for development only, analysis caching disabled`);
+    return null;
+  }
+
+  switch (storeType) {
+    case 'none':
+      return null;
+    case 'memory':
+      return new AnalysisCache(createMemoryCacheStore(), options);
+    case 'local':
+      return new AnalysisCache(
+        createLocalCacheStore(env.ANALYSIS_CACHE_PATH || join(tmpdir(), 'frontsnap-analysis-cache.json')),
+        options
+      );
+    case 'supabase': {
+      const client = getClient();
+      if (!client) {
+        console.warn('ANALYSIS_CACHE_STORE "supabase" needs SUPABASE_SERVICE_ROLE_KEY, analysis caching disabled');
+        return null;
+      }
+      return new AnalysisCache(createSupabaseCacheStore(client), options);
+    }
+    default:
+      console.warn(`Unknown ANALYSIS_CACHE_STORE "${storeType}", analysis caching disabled`);
+      return null;
+  }
+};
@@ -0,0 +1,537 @@
+// Schemas for AI analysis responses
+// Shared by the /api/openai route (which enforces them and runs one repair round)
+// and the client (which turns structured error codes into user-facing messages).
+import type { StorefrontAnalysis } from './openai';
+import type { QuickAnalysisResult, DetailedAnalysisResult } from '@/utils/progressive-analysis';
+import type { VisionProvider, VisionCompletionRequest } from './vision-providers';
+import type { SignTextResult, SignTextBlock, SignBusinessName } from './sign-text';
+import type { MenuExtraction, MenuItem, MenuSection } from '@/types/menu';
+import type { DayHours, HoursShift, HoursSignExtraction, Weekday } from '@/types/hours';
+import type { AttributedPoint, ReviewSummaryExtraction } from '@/types/review-summary';
+import type { TranslatableContent } from '@/types/localization';
+import { HOURS_TIME_PATTERN, WEEKDAYS } from './hours-sign';
+
+export type AnalysisErrorCode =
+  | 'MALFORMED_JSON'      // Model output could not be parsed as JSON, even after repair
+  | 'SCHEMA_MISMATCH'     // JSON parsed but required fields were missing or invalid after repair
+  | 'PROVIDER_ERROR'      // Vision provider request failed
+  | 'CONFIGURATION_ERROR' // Vision provider is not configured on the server
+  | 'INVALID_REQUEST'     // Client sent an incomplete request
+  | 'UNKNOWN';
+
+const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  MALFORMED_JSON: 'We could not read the analysis for this photo. Please try again.',
+  SCHEMA_MISMATCH: 'We could not identify this storefront. Try a clearer photo of the sign.',
+  PROVIDER_ERROR: 'Unable to analyze image at this time. Please try again later.',
+  CONFIGURATION_ERROR: 'Image analysis is currently unavailable. Please contact support.',
+  INVALID_REQUEST: 'The photo could not be sent for analysis. Please try again.',
+  UNKNOWN: 'Failed to analyze storefront photo. Please try again.',
+};
+
+export class AnalysisError extends Error {
+  public code: AnalysisErrorCode;
+  public userMessage: string;
+  public issues: string[];
+
+  constructor(code: AnalysisErrorCode, message?: string, issues: string[] = []) {
+    super(message || ANALYSIS_ERROR_MESSAGES[code]);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.userMessage = ANALYSIS_ERROR_MESSAGES[code];
+    this.issues = issues;
+  }
+}
+
+export type SchemaResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; code: 'MALFORMED_JSON' | 'SCHEMA_MISMATCH'; issues: string[] };
+
+export type QuickAnalysisPayload = Pick<QuickAnalysisResult, 'businessType' | 'confidence' | 'visualCues'>;
+export type DetailedAnalysisPayload = Omit<DetailedAnalysisResult, 'processingTime'>;
+export type StorefrontAnalysisPayload = Omit<StorefrontAnalysis, 'coordinates' | 'signText' | 'localized'>;
+export type SignTextPayload = Omit<SignTextResult, 'cache'>;
+
+// Fields streamed to the capture screen before the whole analysis is in, in prompt order
+export type PartialStorefrontAnalysis = Partial<
+  Pick<StorefrontAnalysisPayload, 'businessType' | 'businessName' | 'description' | 'features' | 'locationText'>
+>;
+
+// Strip markdown fences and any prose around the outermost JSON object
+export const parseModelJson = (text: string): SchemaResult<unknown> => {
+  let content = text.trim();
+  content = content.replace(/^```json\s*/gm, '');
+  content = content.replace(/^```\s*/gm, '');
+  content = content.replace(/```$/gm, '');
+  content = content.trim();
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { valid: false, code: 'MALFORMED_JSON', issues: ['Response does not contain a JSON object'] };
+  }
+
+  try {
+    return { valid: true, value: JSON.parse(content.slice(start, end + 1)) };
+  } catch (error) {
+    return {
+      valid: false,
+      code: 'MALFORMED_JSON',
+      issues: [error instanceof Error ? error.message : 'Invalid JSON'],
+    };
+  }
+};
+
+// Best-effort parse of an unfinished JSON object: keeps every value that is complete so far.
+// Cuts after the last finished value (before a comma or after a closing bracket) and closes
+// whatever objects and arrays are still open at that point.
+export const parsePartialModelJson = (text: string): Record<string, unknown> | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  const open: string[] = [];
+  const cuts: { end: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      open.pop();
+      cuts.push({ end: i + 1, closers: [...open].reverse().join('') });
+      if (open.length === 0) break;
+    } else if (char === ',') {
+      cuts.push({ end: i, closers: [...open].reverse().join('') });
+    }
+  }
+
+  // Only the last few cuts are worth trying; earlier ones hold strictly less
+  for (const cut of cuts.slice(-3).reverse()) {
+    try {
+      const value = JSON.parse(text.slice(start, cut.end) + cut.closers);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      // Cut fell inside a key/value pair, try the previous one
+    }
+  }
+  return null;
+};
+
+// Well-typed fields of a storefront analysis that is still being generated
+export const readPartialStorefrontAnalysis = (text: string): PartialStorefrontAnalysis => {
+  const data = parsePartialModelJson(text);
+  const partial: PartialStorefrontAnalysis = {};
+  if (!data) return partial;
+
+  (['businessType', 'businessName', 'description', 'locationText'] as const).forEach(field => {
+    const value = data[field];
+    if (typeof value === 'string' && value.trim() !== '') {
+      partial[field] = value.trim();
+    }
+  });
+  if (Array.isArray(data.features)) {
+    partial.features = data.features.filter((feature): feature is string => typeof feature === 'string');
+  }
+  return partial;
+};
+
+// Field checkers collect issues instead of throwing so the repair prompt can list them all
+const readString = (data: any, field: string, issues: string[], options: { optional?: boolean } = {}) => {
+  const value = data?.[field];
+  if (value === undefined || value === null || value === '') {
+    if (!options.optional) issues.push(`"${field}" is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    issues.push(`"${field}" must be a string`);
+    return undefined;
+  }
+  return value.trim();
+};
+
+const readStringArray = (data: any, field: string, issues: string[]): string[] => {
+  const value = data?.[field];
+  if (!Array.isArray(value)) {
+    issues.push(`"${field}" must be an array of strings`);
+    return [];
+  }
+  if (value.some(item => typeof item !== 'string')) {
+    issues.push(`"${field}" must only contain strings`);
+    return [];
+  }
+  return value;
+};
+
+const readScore = (data: any, field: string, issues: string[], path = field): number => {
+  const value = data?.[field];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    issues.push(`"${path}" must be a number between 0 and 100`);
+    return 0;
+  }
+  if (value < 0 || value > 100) {
+    issues.push(`"${path}" must be between 0 and 100`);
+  }
+  return Math.max(0, Math.min(100, value));
+};
+
+const readConfidence = (data: any, issues: string[]) => {
+  const confidence = data?.confidence;
+  if (!confidence || typeof confidence !== 'object') {
+    issues.push('"confidence" must be an object with businessType, visualFeatures and nameRecognition scores');
+    return { businessType: 0, visualFeatures: 0, nameRecognition: 0 };
+  }
+  return {
+    businessType: readScore(confidence, 'businessType', issues, 'confidence.businessType'),
+    visualFeatures: readScore(confidence, 'visualFeatures', issues, 'confidence.visualFeatures'),
+    nameRecognition: readScore(confidence, 'nameRecognition', issues, 'confidence.nameRecognition'),
+  };
+};
+
+const readBusinessType = (data: any, issues: string[]) => {
+  const businessType = readString(data, 'businessType', issues);
+  if (businessType && businessType.toLowerCase() === 'unknown') {
+    issues.push('"businessType" must be a specific category, not "Unknown"');
+  }
+  return businessType;
+};
+
+const finish = <T>(value: T, issues: string[]): SchemaResult<T> =>
+  issues.length > 0 ? { valid: false, code: 'SCHEMA_MISMATCH', issues } : { valid: true, value };
+
+export const validateDetailedAnalysis = (data: unknown): SchemaResult<DetailedAnalysisPayload> => {
+  const issues: string[] = [];
+  const value: DetailedAnalysisPayload = {
+    businessType: readBusinessType(data, issues) || '',
+    businessName: readString(data, 'businessName', issues) || '',
+    description: readString(data, 'description', issues) || '',
+    features: readStringArray(data, 'features', issues),
+    visualIndicators: readStringArray(data, 'visualIndicators', issues),
+    confidence: readConfidence(data, issues),
+    architecturalStyle: readString(data, 'architecturalStyle', issues) || '',
+  };
+  return finish(value, issues);
+};
+
+export const validateStorefrontAnalysis = (data: unknown): SchemaResult<StorefrontAnalysisPayload> => {
+  const detailed = validateDetailedAnalysis(data);
+  const issues = detailed.valid ? [] : [...detailed.issues];
+  const locationText = readString(data, 'locationText', issues, { optional: true });
+  if (!detailed.valid || issues.length > 0) {
+    return { valid: false, code: 'SCHEMA_MISMATCH', issues };
+  }
+  return { valid: true, value: { ...detailed.value, locationText } };
+};
+
+export const validateQuickAnalysis = (data: unknown): SchemaResult<QuickAnalysisPayload> => {
+  const issues: string[] = [];
+  const value: QuickAnalysisPayload = {
+    businessType: readBusinessType(data, issues) || '',
+    confidence: readScore(data, 'confidence', issues),
+    visualCues: readStringArray(data, 'visualCues', issues),
+  };
+  return finish(value, issues);
+};
+
+const readBoundingBox = (data: any, issues: string[], path: string) => {
+  const box = data?.boundingBox;
+  if (!box || typeof box !== 'object') {
+    issues.push(`"${path}.boundingBox" must be an object with x, y, width and height between 0 and 1`);
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  const read = (field: 'x' | 'y' | 'width' | 'height') => {
+    const value = box[field];
+    if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 1) {
+      issues.push(`"${path}.boundingBox.${field}" must be a number between 0 and 1`);
+      return 0;
+    }
+    return value;
+  };
+  return { x: read('x'), y: read('y'), width: read('width'), height: read('height') };
+};
+
+const readSignTextBlock = (data: any, issues: string[], path: string): SignTextBlock => {
+  const fieldIssues: string[] = [];
+  const block: SignTextBlock = {
+    text: readString(data, 'text', fieldIssues) || '',
+    language: readString(data, 'language', fieldIssues) || '',
+    boundingBox: readBoundingBox(data, issues, path),
+    confidence: readScore(data, 'confidence', fieldIssues),
+    isBusinessName: data?.isBusinessName === true,
+  };
+  issues.push(...fieldIssues.map(issue => issue.replace(/^"/, `"${path}.`)));
+  return block;
+};
+
+const readSignBusinessName = (data: any, issues: string[]): SignBusinessName | null => {
+  const name = data?.businessName;
+  if (name === null || name === undefined) return null;
+  if (typeof name !== 'object') {
+    issues.push('"businessName" must be an object or null');
+    return null;
+  }
+
+  const nameIssues: string[] = [];
+  const value: SignBusinessName = {
+    original: readString(name, 'original', nameIssues) || '',
+    language: readString(name, 'language', nameIssues) || '',
+    transliterated: readString(name, 'transliterated', nameIssues) || '',
+    translated: readString(name, 'translated', nameIssues, { optional: true }),
+    confidence: readScore(name, 'confidence', nameIssues),
+  };
+  issues.push(...nameIssues.map(issue => issue.replace(/^"/, '"businessName.')));
+  return value;
+};
+
+// An empty sign (no readable text) is valid: no blocks and a null business name
+export const validateSignText = (data: unknown): SchemaResult<SignTextPayload> => {
+  const issues: string[] = [];
+  const blocks = (data as any)?.blocks;
+  if (!Array.isArray(blocks)) {
+    issues.push('"blocks" must be an array of text blocks');
+  }
+  const value: SignTextPayload = {
+    primaryLanguage: readString(data, 'primaryLanguage', issues) || '',
+    blocks: Array.isArray(blocks)
+      ? blocks.map((block, index) => readSignTextBlock(block, issues, `blocks[${index}]`))
+      : [],
+    businessName: readSignBusinessName(data, issues),
+  };
+  return finish(value, issues);
+};
+
+const readMenuItem = (data: any, issues: string[], path: string, id: string): MenuItem => {
+  const fieldIssues: string[] = [];
+  const price = data?.price;
+  if (price !== null && price !== undefined && (typeof price !== 'number' || Number.isNaN(price) || price < 0)) {
+    fieldIssues.push('"price" must be a non-negative number or null');
+  }
+  const item: MenuItem = {
+    id,
+    name: readString(data, 'name', fieldIssues) || '',
+    description: readString(data, 'description', fieldIssues, { optional: true }),
+    price: typeof price === 'number' && price >= 0 ? price : null,
+    priceText: readString(data, 'priceText', fieldIssues, { optional: true }),
+  };
+  issues.push(...fieldIssues.map(issue => issue.replace(/^"/, `"${path}.`)));
+  return item;
+};
+
+const readMenuSection = (data: any, issues: string[], index: number): MenuSection => {
+  const path = `sections[${index}]`;
+  const items = data?.items;
+  if (!Array.isArray(items)) {
+    issues.push(`"${path}.items" must be an array of menu items`);
+  }
+  return {
+    name: (typeof data?.name === 'string' && data.name.trim()) || 'Menu',
+    items: Array.isArray(items)
+      ? items.map((item, itemIndex) => readMenuItem(item, issues, `${path}.items[${itemIndex}]`, `item_${index}_${itemIndex}`))
+      : [],
+  };
+};
+
+export const validateMenuExtraction = (data: unknown): SchemaResult<MenuExtraction> => {
+  const issues: string[] = [];
+  const currency = readString(data, 'currency', issues);
+  if (currency && !/^[A-Z]{3}$/.test(currency)) {
+    issues.push('"currency" must be an ISO 4217 code such as "USD" or "VND"');
+  }
+  const sections = (data as any)?.sections;
+  if (!Array.isArray(sections)) {
+    issues.push('"sections" must be an array of menu sections');
+  }
+  const value: MenuExtraction = {
+    currency: currency || '',
+    language: readString(data, 'language', issues) || '',
+    sections: Array.isArray(sections)
+      ? sections.map((section, index) => readMenuSection(section, issues, index))
+      : [],
+  };
+  return finish(value, issues);
+};
+
+const readHoursShift = (data: any, issues: string[], path: string): HoursShift => {
+  const read = (field: 'open' | 'close') => {
+    const value = data?.[field];
+    if (typeof value !== 'string' || !HOURS_TIME_PATTERN.test(value)) {
+      issues.push(`"${path}.${field}" must be a 24-hour time such as "09:00" or "22:30"`);
+      return '00:00';
+    }
+    return value;
+  };
+  return { open: read('open'), close: read('close') };
+};
+
+const readDayHours = (data: any, issues: string[], index: number, seen: Set<Weekday>): DayHours => {
+  const path = `days[${index}]`;
+  const day = typeof data?.day === 'string' ? data.day.toLowerCase() : data?.day;
+  if (!WEEKDAYS.includes(day)) {
+    issues.push(`"${path}.day" must be one of ${WEEKDAYS.join(', ')}`);
+  } else if (seen.has(day)) {
+    issues.push(`"${path}.day" repeats ${day}; list each day once with all of its shifts`);
+  } else {
+    seen.add(day);
+  }
+
+  const closed = data?.closed === true;
+  const shifts = data?.shifts;
+  if (!Array.isArray(shifts)) {
+    issues.push(`"${path}.shifts" must be an array of shifts`);
+  } else if (!closed && shifts.length === 0) {
+    issues.push(`"${path}.shifts" must list at least one shift unless "closed" is true`);
+  }
+  return {
+    day: WEEKDAYS.includes(day) ? day : 'monday',
+    closed,
+    shifts: closed || !Array.isArray(shifts)
+      ? []
+      : shifts.map((shift, shiftIndex) => readHoursShift(shift, issues, `${path}.shifts[${shiftIndex}]`)),
+  };
+};
+
+export const validateHoursSign = (data: unknown): SchemaResult<HoursSignExtraction> => {
+  const issues: string[] = [];
+  const days = (data as any)?.days;
+  if (!Array.isArray(days)) {
+    issues.push('"days" must be an array of days');
+  }
+  const seen = new Set<Weekday>();
+  const value: HoursSignExtraction = {
+    days: Array.isArray(days) ? days.map((day, index) => readDayHours(day, issues, index, seen)) : [],
+    notes: readString(data, 'notes', issues, { optional: true }),
+    confidence: readScore(data, 'confidence', issues),
+  };
+  return finish(value, issues);
+};
+
+const SENTIMENTS: ReviewSummaryExtraction['overallSentiment'][] = ['positive', 'neutral', 'negative'];
+
+const readReviewRefs = (reviews: string[], issues: string[], path: string, refs: Set<string>): string[] => {
+  if (reviews.length === 0) {
+    issues.push(`"${path}" must cite at least one review`);
+  }
+  const unknown = reviews.filter(ref => !refs.has(ref));
+  if (unknown.length > 0) {
+    issues.push(`"${path}" cites unknown reviews: ${unknown.join(', ')}`);
+  }
+  return reviews.filter(ref => refs.has(ref));
+};
+
+const readAttributedPoints = (data: any, field: string, issues: string[], refs: Set<string>): AttributedPoint[] => {
+  const value = data?.[field];
+  if (!Array.isArray(value)) {
+    issues.push(`"${field}" must be an array of { text, reviews } objects`);
+    return [];
+  }
+  return value.map((point, index) => {
+    const path = `${field}[${index}]`;
+    const text = typeof point?.text === 'string' ? point.text.trim() : '';
+    if (!text) {
+      issues.push(`"${path}.text" must be a non-empty string`);
+    }
+    const reviews = Array.isArray(point?.reviews) && point.reviews.every((ref: unknown) => typeof ref === 'string')
+      ? point.reviews
+      : [];
+    return { text, reviews: readReviewRefs(reviews, issues, `${path}.reviews`, refs) };
+  });
+};
+
+// `refs` are the review references that were in the prompt; citing anything else is an error
+export const validateReviewSummary = (refs: string[]) => (data: unknown): SchemaResult<ReviewSummaryExtraction> => {
+  const issues: string[] = [];
+  const known = new Set(refs);
+  const sentiment = readString(data, 'overallSentiment', issues);
+  if (sentiment && !SENTIMENTS.includes(sentiment as ReviewSummaryExtraction['overallSentiment'])) {
+    issues.push('"overallSentiment" must be "positive", "neutral" or "negative"');
+  }
+  const value: ReviewSummaryExtraction = {
+    summary: readString(data, 'summary', issues) || '',
+    summaryReviews: readReviewRefs(readStringArray(data, 'summaryReviews', issues), issues, 'summaryReviews', known),
+    pros: readAttributedPoints(data, 'pros', issues, known),
+    cons: readAttributedPoints(data, 'cons', issues, known),
+    recommendations: readAttributedPoints(data, 'recommendations', issues, known),
+    overallSentiment: (sentiment as ReviewSummaryExtraction['overallSentiment']) || 'neutral',
+  };
+  return finish(value, issues);
+};
+
+// A translation must keep the source's keys, and each list must keep its number of items
+export const validateTranslation = <T extends TranslatableContent>(source: T) => (data: unknown): SchemaResult<T> => {
+  const issues: string[] = [];
+  const value: TranslatableContent = {};
+  Object.entries(source).forEach(([field, original]) => {
+    if (typeof original === 'string') {
+      value[field] = readString(data, field, issues) || '';
+      return;
+    }
+    const items = readStringArray(data, field, issues);
+    if (items.length !== original.length && !issues.some(issue => issue.startsWith(`"${field}"`))) {
+      issues.push(`"${field}" must have ${original.length} items, one per item of the original`);
+    }
+    value[field] = items;
+  });
+  return finish(value as T, issues);
+};
+
+const buildRepairPrompt = (originalPrompt: string, previousResponse: string, issues: string[]) =>
+  `${originalPrompt}
+
+Your previous response could not be used:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousResponse.slice(0, 2000)}
+
+Return ONLY the corrected JSON object with every required field. No markdown, no explanation.`;
+
+// Run a completion and validate it, giving the model one chance to repair its output
+export const completeWithSchema = async <T>(
+  provider: VisionProvider,
+  request: VisionCompletionRequest,
+  validate: (data: unknown) => SchemaResult<T>
+): Promise<SchemaResult<T> & { repaired: boolean }> => {
+  const check = (text: string): SchemaResult<T> => {
+    const parsed = parseModelJson(text);
+    return parsed.valid ? validate(parsed.value) : parsed;
+  };
+
+  const firstResponse = await provider.complete(request);
+  const first = check(firstResponse);
+  if (first.valid) {
+    return { ...first, repaired: false };
+  }
+
+  console.warn(`🔧 Repairing ${request.task} response:`, first.issues);
+  const repairResponse = await provider.complete({
+    ...request,
+    onText: undefined, // Partial output of the rejected response has already been streamed
+    prompt: buildRepairPrompt(request.prompt, firstResponse, first.issues),
+  });
+  return { ...check(repairResponse), repaired: true };
+};
+
+// Convert an error response from /api/openai into a typed AnalysisError
+export const analysisErrorFromResponse = (status: number, errorData: any): AnalysisError => {
+  if (errorData?.code && errorData.code in ANALYSIS_ERROR_MESSAGES) {
+    return new AnalysisError(errorData.code, undefined, errorData.issues || []);
+  }
+  switch (errorData?.status) {
+    case 'CONFIGURATION_ERROR':
+      return new AnalysisError('CONFIGURATION_ERROR');
+    case 'API_ERROR':
+      return new AnalysisError('PROVIDER_ERROR');
+    case 'INVALID_REQUEST':
+      return new AnalysisError('INVALID_REQUEST', errorData.error);
+    default:
+      return new AnalysisError('UNKNOWN', errorData?.error || `Analysis request failed with status ${status}`);
+  }
+};
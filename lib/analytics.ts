@@ -38,6 +38,11 @@ export enum AnalyticsEvent {
   PHOTO_ANALYSIS_START = 'photo_analysis_start',
   PHOTO_ANALYSIS_COMPLETE = 'photo_analysis_complete',
   PHOTO_ANALYSIS_ERROR = 'photo_analysis_error',
+  PHOTO_QUALITY_REJECTED = 'photo_quality_rejected',
+  PHOTO_QUALITY_OVERRIDDEN = 'photo_quality_overridden',
+  PHOTO_DUPLICATE_DETECTED = 'photo_duplicate_detected',
+  ANALYSIS_ROUTED = 'analysis_routed',
+  ANALYSIS_ROUTE_OUTCOME = 'analysis_route_outcome',
   
   // Map interactions
   MAP_VIEW = 'map_view',
@@ -317,6 +322,52 @@ export class AnalyticsManager {
     });
   }
 
+  async trackPhotoQualityRejection(
+    issues: string[],
+    metrics: Record<string, number>,
+    source: 'camera' | 'library'
+  ): Promise<void> {
+    await this.track(AnalyticsEvent.PHOTO_QUALITY_REJECTED, {
+      issues,
+      source,
+      ...metrics,
+    });
+  }
+
+  async trackDuplicatePhoto(source: string, distance: number, reused: boolean): Promise<void> {
+    await this.track(AnalyticsEvent.PHOTO_DUPLICATE_DETECTED, {
+      source,
+      distance,
+      reused,
+    });
+  }
+
+  async trackAnalysisRoute(route: string, confidence: number, candidateCount: number): Promise<void> {
+    await this.track(AnalyticsEvent.ANALYSIS_ROUTED, {
+      route,
+      confidence,
+      candidateCount,
+    });
+  }
+
+  async trackAnalysisRouteOutcome(
+    route: string,
+    confidence: number,
+    outcome: string,
+    selectedRank: number,
+    wrongPlaceTaps: number,
+    promptVersions: string[] = []
+  ): Promise<void> {
+    await this.track(AnalyticsEvent.ANALYSIS_ROUTE_OUTCOME, {
+      route,
+      confidence,
+      outcome,
+      selectedRank,
+      wrongPlaceTaps,
+      promptVersions,
+    });
+  }
+
   async trackSearch(query: string, resultCount?: number): Promise<void> {
     await this.track(AnalyticsEvent.SEARCH_QUERY, {
       query,
@@ -0,0 +1,258 @@
+// Authentication and per-user quotas for the proxy API routes
+// Verifies the caller's Supabase JWT and meters each successful request against
+// the usage_tracking table via reserve_usage / release_usage.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { TransformStream } from 'stream/web';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { QuotaFeature, UsageQuota, QUOTA_HEADERS } from '@/types/quota';
+
+let adminClient: SupabaseClient | null = null;
+
+export const getAdminClient = (): SupabaseClient | null => {
+  // SUPABASE_URL lets the server point at a different project URL than the bundled client
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseServiceKey) return null;
+
+  if (!adminClient) {
+    adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+  }
+  return adminClient;
+};
+
+// Local development escape hatch (e.g. with VISION_PROVIDER=fixture); never honoured in production
+const isAuthDisabled = () =>
+  process.env.API_AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production';
+
+export const getBearerToken = (request: Request): string | null => {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+// Photo URLs go straight into <Image source={{ uri }}>, which can't send the Bearer header, so
+// the proxy signs each photo reference it hands out and the photo route accepts that instead
+export const PHOTO_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+const getPhotoSigningSecret = () =>
+  process.env.PHOTO_TOKEN_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || null;
+
+const photoSignature = (secret: string, photoReference: string, expires: number) =>
+  createHmac('sha256', secret).update(`${photoReference}:${expires}`).digest('hex');
+
+// "<expires>.<signature>"; null when no signing secret is configured
+export const signPhotoReference = (photoReference: string, now: number = Date.now()): string | null => {
+  const secret = getPhotoSigningSecret();
+  if (!secret) return null;
+
+  const expires = Math.floor(now / 1000) + PHOTO_TOKEN_TTL_SECONDS;
+  return `${expires}.${photoSignature(secret, photoReference, expires)}`;
+};
+
+export const verifyPhotoToken = (
+  photoReference: string,
+  token: string | null,
+  now: number = Date.now()
+): boolean => {
+  if (isAuthDisabled()) return true;
+
+  const secret = getPhotoSigningSecret();
+  if (!secret || !token) return false;
+
+  const [expiresText, signature] = token.split('.');
+  const expires = Number(expiresText);
+  if (!Number.isInteger(expires) || expires * 1000 < now || !signature) return false;
+
+  const expected = photoSignature(secret, photoReference, expires);
+  return signature.length === expected.length
+    && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+};
+
+const nextMonthlyReset = (now: Date = new Date()): string =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+
+export const quotaHeaders = (quota: UsageQuota): Record<string, string> => ({
+  [QUOTA_HEADERS.feature]: quota.feature,
+  [QUOTA_HEADERS.limit]: quota.limit === null ? 'unlimited' : String(quota.limit),
+  [QUOTA_HEADERS.remaining]: quota.remaining === null ? 'unlimited' : String(quota.remaining),
+  [QUOTA_HEADERS.reset]: quota.resetsAt,
+});
+
+const getUsageQuota = async (
+  client: SupabaseClient,
+  userId: string,
+  feature: QuotaFeature
+): Promise<UsageQuota | null> => {
+  const { data, error } = await client.rpc('get_usage_quota', { p_user_id: userId, p_feature: feature });
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error('❌ Failed to load usage quota:', error);
+    return null;
+  }
+
+  const limit = row.usage_limit === -1 ? null : row.usage_limit;
+  return {
+    feature,
+    limit,
+    used: row.usage_count,
+    remaining: limit === null ? null : Math.max(0, limit - row.usage_count),
+    resetsAt: nextMonthlyReset(),
+  };
+};
+
+// Content type of streamed analyses (partial events, then one result or error event)
+export const STREAMED_RESPONSE_TYPE = 'application/x-ndjson';
+
+// Set by handlers on successful responses that did no AI work (e.g. a translation served from
+// the cache); withUsageQuota does not count them and strips the header
+export const UNMETERED_RESPONSE_HEADER = 'X-Usage-Unmetered';
+
+const isResultEvent = (line: string): boolean => {
+  try {
+    return JSON.parse(line).type === 'result';
+  } catch {
+    return false;
+  }
+};
+
+// A streamed response is already 200 before the work is done and reports failures as error
+// events, so its reservation is only kept once a result event has gone through
+const releaseUnlessStreamedResult = (response: Response, releaseUsage: () => Promise<void>): Response => {
+  if (!response.body) return response;
+
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let sawResult = false;
+  // Node's own web streams, which Response bodies use (under jest the globals are a polyfill)
+  const recorder = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      if (sawResult) return;
+
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      sawResult = lines.some(isResultEvent);
+    },
+    async flush() {
+      if (!sawResult && !isResultEvent(buffered)) {
+        await releaseUsage();
+      }
+    },
+  });
+  const body = response.body.pipeThrough(recorder as unknown as globalThis.TransformStream<Uint8Array, Uint8Array>);
+
+  return new Response(body, { status: response.status, headers: response.headers });
+};
+
+const errorResponse = (
+  body: Record<string, unknown>,
+  status: number,
+  headers: Record<string, string>
+) => new Response(JSON.stringify(body), { status, headers });
+
+// Run a route handler for an authenticated user, enforcing and recording the feature quota.
+// The handler gets the user's id (null when auth is disabled for local development).
+export async function withUsageQuota(
+  request: Request,
+  feature: QuotaFeature,
+  corsHeaders: Record<string, string>,
+  handler: (userId: string | null) => Promise<Response>
+): Promise<Response> {
+  if (isAuthDisabled()) {
+    return handler(null);
+  }
+
+  const client = getAdminClient();
+  if (!client) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to authorize API requests.');
+    return errorResponse({
+      error: 'API authorization is not configured',
+      status: 'CONFIGURATION_ERROR'
+    }, 500, corsHeaders);
+  }
+
+  const token = getBearerToken(request);
+  const { data: userData, error: authError } = token
+    ? await client.auth.getUser(token)
+    : { data: { user: null }, error: null };
+  const user = userData?.user;
+  if (!user || authError) {
+    return errorResponse({
+      error: 'Sign in to use this feature',
+      status: 'UNAUTHORIZED'
+    }, 401, corsHeaders);
+  }
+
+  // Reserve the request up front so concurrent requests can't overshoot the limit; requests
+  // that end up doing no AI work give the reservation back
+  const { data: reserved, error: reserveError } = await client.rpc('reserve_usage', {
+    p_user_id: user.id,
+    p_feature: feature,
+  });
+  if (reserveError) {
+    console.error('❌ Failed to reserve usage:', reserveError);
+    return errorResponse({
+      error: 'Unable to verify usage limits. Please try again later.',
+      status: 'QUOTA_CHECK_FAILED'
+    }, 503, corsHeaders);
+  }
+
+  const quota = await getUsageQuota(client, user.id, feature);
+
+  if (!reserved) {
+    const retryAfterSeconds = quota
+      ? Math.max(0, Math.ceil((new Date(quota.resetsAt).getTime() - Date.now()) / 1000))
+      : undefined;
+    return errorResponse({
+      error: 'Monthly usage limit reached',
+      status: 'QUOTA_EXCEEDED',
+      quota
+    }, 429, {
+      ...corsHeaders,
+      ...(quota && quotaHeaders(quota)),
+      ...(retryAfterSeconds !== undefined && { 'Retry-After': String(retryAfterSeconds) }),
+    });
+  }
+
+  const releaseUsage = async () => {
+    const { error: releaseError } = await client.rpc('release_usage', {
+      p_user_id: user.id,
+      p_feature: feature,
+    });
+    if (releaseError) {
+      console.error('❌ Failed to release usage:', releaseError);
+    } else if (quota) {
+      quota.used = Math.max(0, quota.used - 1);
+      quota.remaining = quota.limit === null ? null : Math.max(0, quota.limit - quota.used);
+    }
+  };
+
+  // Only successful calls that did AI work count against the quota. Headers go out before a
+  // stream finishes, so a streamed response reports the quota with its own request counted.
+  let response: Response;
+  try {
+    response = await handler(user.id);
+  } catch (error) {
+    await releaseUsage();
+    throw error;
+  }
+  if (response.headers.get('Content-Type')?.includes(STREAMED_RESPONSE_TYPE)) {
+    response = releaseUnlessStreamedResult(response, releaseUsage);
+  } else if (response.headers.has(UNMETERED_RESPONSE_HEADER)) {
+    response.headers.delete(UNMETERED_RESPONSE_HEADER);
+    await releaseUsage();
+  } else if (!response.ok) {
+    await releaseUsage();
+  }
+
+  if (quota) {
+    Object.entries(quotaHeaders(quota)).forEach(([name, value]) => response.headers.set(name, value));
+  }
+  return response;
+}
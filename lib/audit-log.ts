@@ -0,0 +1,77 @@
+// Change history for places and what belongs to them
+// Every insert, update and delete on the audited tables is recorded by a database trigger.
+// The app tags writes with where they came from by sending AUDIT_SOURCE_HEADER; these helpers
+// do that and turn audit entries into something readable for the history tab.
+import type { AuditEntry, AuditFieldChange, AuditSource, AuditTable, ClientAuditSource } from '@/types/audit';
+
+// Read by record_audit_entry() through PostgREST's request.headers
+export const AUDIT_SOURCE_HEADER = 'x-audit-source';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  places: 'place details',
+  reviews: 'a review',
+  place_photos: 'a photo',
+  collections: 'a collection',
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  app: 'App',
+  capture: 'Capture',
+  edit_suggestion: 'Edit suggestion',
+  admin: 'Admin',
+  merge: 'Duplicate merge',
+  revert: 'Revert',
+};
+
+const ACTION_VERBS = {
+  insert: 'Added',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+// Fields that are noise in a history view (ids and timestamps the user never edits)
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// Tag a Supabase query with the source its changes are recorded under
+export const withAuditSource = <B extends { setHeader: (name: string, value: string) => B }>(builder: B, source: ClientAuditSource): B =>
+  builder.setHeader(AUDIT_SOURCE_HEADER, source);
+
+// e.g. "Updated place details" or "Deleted a photo"
+export const describeAuditEntry = (entry: Pick<AuditEntry, 'table_name' | 'action'>): string => {
+  if (entry.table_name === 'places' && entry.action === 'insert') return 'Added this place';
+  if (entry.table_name === 'places' && entry.action === 'delete') return 'Deleted this place';
+  return `${ACTION_VERBS[entry.action]} ${AUDIT_TABLE_LABELS[entry.table_name]}`;
+};
+
+// Field-level before/after for an entry: the changed fields of an update, or the filled-in
+// fields of the record that was added or deleted
+export const getAuditFieldChanges = (
+  entry: Pick<AuditEntry, 'action' | 'old_data' | 'new_data' | 'changed_fields'>
+): AuditFieldChange[] => {
+  if (entry.action === 'update') {
+    return entry.changed_fields
+      .filter(field => !HIDDEN_FIELDS.has(field))
+      .map(field => ({ field, before: entry.old_data?.[field] ?? null, after: entry.new_data?.[field] ?? null }));
+  }
+
+  const record = (entry.action === 'insert' ? entry.new_data : entry.old_data) || {};
+  return Object.entries(record)
+    .filter(([field, value]) => !HIDDEN_FIELDS.has(field) && value !== null && !(Array.isArray(value) && value.length === 0))
+    .map(([field, value]) => entry.action === 'insert'
+      ? { field, before: null, after: value }
+      : { field, before: value, after: null });
+};
+
+// "week_hours" -> "Week hours"
+export const formatAuditField = (field: string): string => {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'None';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(item => formatAuditValue(item)).join('\n') : 'None';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,363 @@
+// Batch ("walk the street") capture session
+// Each snapped storefront is uploaded, analyzed and matched against Google Places
+// in the background while the user keeps shooting; results are reviewed in bulk.
+import { uploadImageAsync } from './supabase-storage';
+import { analyzeStorefrontPhoto, generateReviewSummary, PlaceReview } from './openai';
+import { searchNearbyPlacesWithType, searchPlacesByText, getPlaceDetails, GooglePlace, GooglePlaceDetails } from './google-places';
+import { getSignNameVariants, matchesSignName, searchPlacesBySignText, SignTextResult } from './sign-text';
+import { calculateDistance, rankCandidates } from './candidate-ranking';
+import { addPlaceWithVisibility, addPlaceToCollection, checkPlaceExists, getCurrentUser } from './supabase';
+import { BatchCaptureItem, CaptureLocation } from '@/types/capture';
+
+const MAX_CONCURRENT_ANALYSES = 2;
+const MAX_CANDIDATES = 5;
+
+// Nearby search widens through these radii; sign-text matches must fall within the widest
+const NEARBY_SEARCH_RADII_METERS = [50, 200];
+const SIGN_MATCH_RADIUS_METERS = NEARBY_SEARCH_RADII_METERS[NEARBY_SEARCH_RADII_METERS.length - 1];
+
+type BatchSessionListener = (items: BatchCaptureItem[]) => void;
+
+// How the photo was prepared before it was handed to the session
+export type BatchCapturePhoto = Pick<BatchCaptureItem, 'redacted' | 'keptExif'>;
+
+export interface BatchSaveOptions {
+  collectionId?: string;
+  isPublic: boolean;
+}
+
+export interface BatchSaveResult {
+  saved: number;
+  existing: number; // Already public; added to the collection instead of saved again
+  failed: { id: string; error: string }[];
+}
+
+const buildReviewSummary = async (
+  details: GooglePlaceDetails,
+  businessType: string
+): Promise<Pick<PlaceReview, 'summary' | 'pros' | 'cons' | 'recommendations'>> => {
+  if (details.reviews && details.reviews.length > 0) {
+    try {
+      return await generateReviewSummary(details.name, businessType, details.reviews);
+    } catch (error) {
+      console.warn('Review summary failed, using fallback summary:', error);
+    }
+  }
+
+  return {
+    summary: `${details.name} is a ${businessType.toLowerCase()} with limited review information available.`,
+    pros: ['Good location', 'Professional service'],
+    cons: ['Limited information available'],
+    recommendations: ['Visit to experience firsthand'],
+  };
+};
+
+export class BatchCaptureSession {
+  private static instance: BatchCaptureSession;
+  private items: BatchCaptureItem[] = [];
+  private listeners = new Set<BatchSessionListener>();
+  private activeAnalyses = 0;
+
+  static getInstance(): BatchCaptureSession {
+    if (!BatchCaptureSession.instance) {
+      BatchCaptureSession.instance = new BatchCaptureSession();
+    }
+    return BatchCaptureSession.instance;
+  }
+
+  subscribe(listener: BatchSessionListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getItems());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItems(): BatchCaptureItem[] {
+    return [...this.items];
+  }
+
+  private notify(): void {
+    const snapshot = this.getItems();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private updateItem(id: string, updates: Partial<BatchCaptureItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...updates } : item));
+    this.notify();
+  }
+
+  private findItem(id: string): BatchCaptureItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  addCapture(localUri: string, location: CaptureLocation | null, photo: BatchCapturePhoto = {}): BatchCaptureItem {
+    const item: BatchCaptureItem = {
+      id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      localUri,
+      location,
+      redacted: photo.redacted,
+      keptExif: photo.keptExif,
+      capturedAt: Date.now(),
+      status: 'queued',
+      decision: 'pending',
+      candidates: [],
+    };
+
+    this.items = [...this.items, item];
+    this.notify();
+    this.pump();
+    return item;
+  }
+
+  // Start queued analyses up to the concurrency limit
+  private pump(): void {
+    while (this.activeAnalyses < MAX_CONCURRENT_ANALYSES) {
+      const next = this.items.find(item => item.status === 'queued');
+      if (!next) return;
+
+      this.activeAnalyses++;
+      this.updateItem(next.id, { status: 'uploading' });
+      this.analyzeItem(next.id).finally(() => {
+        this.activeAnalyses--;
+        this.pump();
+      });
+    }
+  }
+
+  private async analyzeItem(id: string): Promise<void> {
+    const item = this.findItem(id);
+    if (!item) return;
+
+    try {
+      let { fullUrl, thumbnailUrl } = item;
+      if (!fullUrl) {
+        const uploadResult = await uploadImageAsync(item.localUri, {
+          redacted: item.redacted,
+          keptExif: item.keptExif,
+        });
+        if (!uploadResult) {
+          throw new Error('Failed to upload image');
+        }
+        fullUrl = uploadResult.fullUrl;
+        thumbnailUrl = uploadResult.thumbnailUrl;
+        this.updateItem(id, { fullUrl, thumbnailUrl });
+      }
+
+      this.updateItem(id, { status: 'analyzing' });
+      const locationString = item.location
+        ? `${item.location.latitude},${item.location.longitude}`
+        : undefined;
+      const analysis = await analyzeStorefrontPhoto(fullUrl, locationString);
+
+      this.updateItem(id, { status: 'matching', analysis });
+      const candidates = await this.findCandidates(
+        item.location,
+        analysis.businessName || 'Unknown Business',
+        analysis.businessType || 'Business',
+        analysis.signText
+      );
+
+      this.updateItem(id, {
+        status: 'ready',
+        candidates,
+        selectedPlaceId: candidates[0]?.place_id,
+      });
+    } catch (error) {
+      console.error('❌ Batch capture analysis failed:', id, error);
+      this.updateItem(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Analysis failed',
+      });
+    }
+  }
+
+  private async findCandidates(
+    location: CaptureLocation | null,
+    businessName: string,
+    businessType: string,
+    signText?: SignTextResult | null
+  ) {
+    const places = await this.searchCandidatePlaces(location, businessName, businessType, signText);
+    return rankCandidates(places, { businessName, businessType, signText, location })
+      .slice(0, MAX_CANDIDATES)
+      .map(candidate => candidate.place);
+  }
+
+  private async searchCandidatePlaces(
+    location: CaptureLocation | null,
+    businessName: string,
+    businessType: string,
+    signText?: SignTextResult | null
+  ): Promise<GooglePlace[]> {
+    // Sign name matches (in any script) near the capture are the strongest candidates
+    const signVariants = getSignNameVariants(signText);
+    const signMatches = (await searchPlacesBySignText(signText, location?.latitude, location?.longitude))
+      .filter(place =>
+        matchesSignName(place.name, signVariants) &&
+        (!location || calculateDistance(
+          location.latitude,
+          location.longitude,
+          place.geometry.location.lat,
+          place.geometry.location.lng
+        ) <= SIGN_MATCH_RADIUS_METERS)
+      );
+    if (signMatches.length > 0) {
+      return signMatches;
+    }
+
+    if (!location) {
+      return searchPlacesByText(`${businessName} ${businessType}`);
+    }
+
+    for (const radius of NEARBY_SEARCH_RADII_METERS) {
+      const places = await searchNearbyPlacesWithType(
+        location.latitude,
+        location.longitude,
+        businessName,
+        businessType,
+        radius
+      );
+      if (places.length > 0) {
+        return places;
+      }
+    }
+
+    return searchPlacesByText(
+      `${businessName} ${businessType}`,
+      location.latitude,
+      location.longitude
+    );
+  }
+
+  retry(id: string): void {
+    this.updateItem(id, { status: 'queued', error: undefined });
+    this.pump();
+  }
+
+  selectCandidate(id: string, placeId: string): void {
+    this.updateItem(id, { selectedPlaceId: placeId, decision: 'confirmed' });
+  }
+
+  setDecision(id: string, decision: BatchCaptureItem['decision']): void {
+    this.updateItem(id, { decision });
+  }
+
+  // "Fix" an item by searching for the correct business by name
+  async searchCandidates(id: string, query: string): Promise<void> {
+    const item = this.findItem(id);
+    if (!item || !query.trim()) return;
+
+    const places = await searchPlacesByText(
+      query.trim(),
+      item.location?.latitude,
+      item.location?.longitude
+    );
+    this.updateItem(id, {
+      candidates: places.slice(0, MAX_CANDIDATES),
+      selectedPlaceId: places[0]?.place_id,
+    });
+  }
+
+  remove(id: string): void {
+    this.items = this.items.filter(item => item.id !== id);
+    this.notify();
+  }
+
+  clear(): void {
+    this.items = [];
+    this.notify();
+  }
+
+  // Save every confirmed item as a place (and into the chosen collection). Places that are
+  // already public are not added again, like in single capture; they only go into the collection.
+  async saveConfirmed(options: BatchSaveOptions): Promise<BatchSaveResult> {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error('Please sign in to save places.');
+    }
+
+    const toSave = this.items.filter(
+      item => item.decision === 'confirmed' && item.selectedPlaceId && !item.savedPlaceId
+    );
+    const result: BatchSaveResult = { saved: 0, existing: 0, failed: [] };
+
+    for (const item of toSave) {
+      try {
+        const details = await getPlaceDetails(item.selectedPlaceId!);
+        if (!details) {
+          throw new Error('Could not load place details');
+        }
+
+        const { publicPlace } = await checkPlaceExists(
+          details.place_id,
+          details.geometry.location.lat,
+          details.geometry.location.lng
+        );
+        if (publicPlace) {
+          console.log(`✅ Batch capture ${item.id} is already public as ${publicPlace.name}`);
+          await this.addToCollection(options.collectionId, publicPlace.id);
+          this.updateItem(item.id, { savedPlaceId: publicPlace.id });
+          result.existing++;
+          continue;
+        }
+
+        const businessType = item.analysis?.businessType || 'Business';
+        const reviewSummary = await buildReviewSummary(details, businessType);
+
+        const { data: addedPlace, error } = await addPlaceWithVisibility({
+          name: details.name,
+          category: businessType,
+          address: details.formatted_address,
+          latitude: details.geometry.location.lat,
+          longitude: details.geometry.location.lng,
+          rating: details.rating || 0,
+          review_count: details.user_ratings_total || 0,
+          image_url: item.fullUrl || '',
+          thumbnail_url: item.thumbnailUrl,
+          ai_summary: reviewSummary.summary,
+          pros: reviewSummary.pros,
+          cons: reviewSummary.cons,
+          recommendations: reviewSummary.recommendations,
+          google_place_id: details.place_id,
+          is_open: details.opening_hours?.open_now || false,
+          hours: details.opening_hours?.open_now ? 'Open now' : 'Closed',
+          week_hours: details.opening_hours?.weekday_text || [],
+          time_zone: details.time_zone,
+          phone: details.formatted_phone_number,
+          website: details.website,
+          added_by: user.id,
+          is_public: options.isPublic,
+        }, options.isPublic);
+
+        if (error || !addedPlace) {
+          throw new Error(error?.message || 'Failed to save place');
+        }
+
+        await this.addToCollection(options.collectionId, addedPlace.id);
+        this.updateItem(item.id, { savedPlaceId: addedPlace.id });
+        result.saved++;
+      } catch (error) {
+        console.error('❌ Error saving batch capture:', item.id, error);
+        result.failed.push({
+          id: item.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async addToCollection(collectionId: string | undefined, placeId: string): Promise<void> {
+    if (!collectionId) return;
+
+    const { error } = await addPlaceToCollection(collectionId, placeId);
+    if (error) {
+      console.error('❌ Error adding batch place to collection:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const batchCaptureSession = BatchCaptureSession.getInstance();
@@ -0,0 +1,243 @@
+// Ranking of Google place candidates for a captured storefront
+// Each candidate gets an explainable 0-100 score from four signals: how well its name
+// matches the AI / sign name, whether its Google types agree with the detected business
+// type, whether it lies in the direction the camera was pointing, and how far it is from
+// the photo's GPS fix (scaled by the fix's accuracy). Signals that cannot be computed
+// (no heading, generic name) are left out and the remaining weights are renormalized.
+import { GooglePlace, getGooglePlaceTypes } from './google-places';
+import { getSignNameVariants, normalizeSignText, SignTextResult } from './sign-text';
+
+export type RankingFactor = 'name' | 'type' | 'bearing' | 'distance';
+
+export interface RankingLocation {
+  latitude: number;
+  longitude: number;
+  direction?: number; // Camera heading in degrees from north
+  accuracy?: number; // Horizontal GPS error in meters
+}
+
+export interface RankingContext {
+  businessName?: string;
+  businessType?: string;
+  signText?: SignTextResult | null;
+  location?: RankingLocation | null;
+}
+
+export interface RankingSignal {
+  factor: RankingFactor;
+  score: number; // 0-1
+  weight: number; // Share of the final score after renormalizing, 0-1
+  detail: string; // Human-readable reason, shown in "Why this match"
+}
+
+export interface RankedCandidate<T extends GooglePlace = GooglePlace> {
+  place: T;
+  score: number; // 0-100
+  distance: number | null; // Meters from the photo location
+  signals: RankingSignal[];
+}
+
+export const RANKING_WEIGHTS: Record<RankingFactor, number> = {
+  name: 0.4,
+  type: 0.2,
+  bearing: 0.2,
+  distance: 0.2,
+};
+
+export const FACTOR_LABELS: Record<RankingFactor, string> = {
+  name: 'Name',
+  type: 'Type',
+  bearing: 'Direction',
+  distance: 'Distance',
+};
+
+// Places this many degrees off the camera heading score half; twice this scores zero
+export const BEARING_TOLERANCE_DEGREES = 45;
+
+// A place this far away scores half on distance (widened for poor GPS fixes)
+const DISTANCE_HALF_SCORE_METERS = 50;
+
+// Assumed GPS error when the photo did not record one
+const DEFAULT_GPS_ACCURACY_METERS = 10;
+
+// Google types that say nothing about what the business is
+const GENERIC_PLACE_TYPES = ['establishment', 'point_of_interest', 'premise'];
+
+const GENERIC_BUSINESS_NAMES = ['unknown', 'unknown business', 'business'];
+
+export const isGenericBusinessName = (name?: string): boolean =>
+  !name || GENERIC_BUSINESS_NAMES.includes(name.trim().toLowerCase());
+
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+// Initial bearing from the first point to the second, 0-360 degrees from north
+export const calculateBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const lat1Rad = lat1 * Math.PI / 180;
+  const lat2Rad = lat2 * Math.PI / 180;
+
+  const y = Math.sin(dLng) * Math.cos(lat2Rad);
+  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLng);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+// Smallest difference between two headings, 0-180
+export const angleDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+const characterBigrams = (text: string): string[] => {
+  const compact = text.replace(/\s+/g, '');
+  if (compact.length < 2) return [compact];
+  return Array.from({ length: compact.length - 1 }, (_, i) => compact.slice(i, i + 2));
+};
+
+const diceCoefficient = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = [...b];
+  let shared = 0;
+  a.forEach(item => {
+    const index = remaining.indexOf(item);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (a.length + b.length);
+};
+
+// 0-1 similarity that tolerates diacritics, word order, extra words ("Cafe", "Restaurant")
+// and small spelling differences between transliterations
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeSignText(a);
+  const right = normalizeSignText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  // Containment ignoring spaces, so "Pizza 4Ps" matches "Pizza 4P's Ben Thanh"
+  const [shorter, longer] = [left.replace(/\s+/g, ''), right.replace(/\s+/g, '')]
+    .sort((x, y) => x.length - y.length);
+  if (shorter.length >= 3 && longer.includes(shorter)) return 0.9;
+
+  return Math.max(
+    diceCoefficient(left.split(' '), right.split(' ')),
+    diceCoefficient(characterBigrams(left), characterBigrams(right))
+  );
+};
+
+const scoreName = (place: GooglePlace, context: RankingContext): Omit<RankingSignal, 'weight'> | null => {
+  const names = [
+    ...(isGenericBusinessName(context.businessName) ? [] : [context.businessName!]),
+    ...getSignNameVariants(context.signText),
+  ];
+  if (names.length === 0) return null;
+
+  const best = names
+    .map(name => ({ name, score: nameSimilarity(place.name, name) }))
+    .reduce((a, b) => (b.score > a.score ? b : a));
+  const percent = Math.round(best.score * 100);
+  return {
+    factor: 'name',
+    score: best.score,
+    detail: best.score >= 0.9
+      ? `Name matches "${best.name}"`
+      : `Name is ${percent}% similar to "${best.name}"`,
+  };
+};
+
+const scoreType = (place: GooglePlace, context: RankingContext): Omit<RankingSignal, 'weight'> | null => {
+  if (!context.businessType) return null;
+  const expected = getGooglePlaceTypes(context.businessType);
+  if (expected.every(type => GENERIC_PLACE_TYPES.includes(type))) return null;
+
+  const specificTypes = place.types.filter(type => !GENERIC_PLACE_TYPES.includes(type));
+  const matched = expected.find(type => place.types.includes(type));
+  if (matched) {
+    return {
+      factor: 'type',
+      score: matched === expected[0] ? 1 : 0.8,
+      detail: `Listed as ${matched.replace(/_/g, ' ')}, matching ${context.businessType}`,
+    };
+  }
+  if (specificTypes.length === 0) {
+    return { factor: 'type', score: 0.3, detail: 'Google does not list what kind of business this is' };
+  }
+  return {
+    factor: 'type',
+    score: 0,
+    detail: `Listed as ${specificTypes.slice(0, 2).join(', ').replace(/_/g, ' ')}, not ${context.businessType}`,
+  };
+};
+
+export const rankCandidates = <T extends GooglePlace>(places: T[], context: RankingContext): RankedCandidate<T>[] => {
+  const location = context.location;
+  const accuracy = location?.accuracy ?? DEFAULT_GPS_ACCURACY_METERS;
+
+  const ranked = places.map(place => {
+    const { lat, lng } = place.geometry.location;
+    const distance = location ? calculateDistance(location.latitude, location.longitude, lat, lng) : null;
+    const signals: (RankingSignal & { rawWeight: number })[] = [];
+
+    const name = scoreName(place, context);
+    if (name) signals.push({ ...name, weight: 0, rawWeight: RANKING_WEIGHTS.name });
+
+    const type = scoreType(place, context);
+    if (type) signals.push({ ...type, weight: 0, rawWeight: RANKING_WEIGHTS.type });
+
+    if (location && distance !== null && location.direction !== undefined) {
+      const angle = angleDifference(calculateBearing(location.latitude, location.longitude, lat, lng), location.direction);
+      // The bearing to a place inside the GPS error circle says little about where the camera pointed,
+      // and none at all when the fix is exactly on the place
+      const reliability = distance + accuracy > 0 ? distance / (distance + accuracy) : 0;
+      signals.push({
+        factor: 'bearing',
+        score: Math.max(0, 1 - angle / (2 * BEARING_TOLERANCE_DEGREES)),
+        weight: 0,
+        rawWeight: RANKING_WEIGHTS.bearing * reliability,
+        detail: `${Math.round(angle)}° off the camera heading${reliability < 0.5 ? ' (too close to judge)' : ''}`,
+      });
+    }
+
+    if (distance !== null) {
+      const halfScoreDistance = Math.max(DISTANCE_HALF_SCORE_METERS, accuracy * 2);
+      signals.push({
+        factor: 'distance',
+        score: 1 / (1 + (distance / halfScoreDistance) ** 2),
+        weight: 0,
+        rawWeight: RANKING_WEIGHTS.distance,
+        detail: `${Math.round(distance)} m away${location?.accuracy !== undefined ? ` (GPS ±${Math.round(location.accuracy)} m)` : ''}`,
+      });
+    }
+
+    const totalWeight = signals.reduce((sum, signal) => sum + signal.rawWeight, 0);
+    const normalized: RankingSignal[] = signals.map(({ rawWeight, ...signal }) => ({
+      ...signal,
+      weight: totalWeight > 0 ? rawWeight / totalWeight : 0,
+    }));
+    const score = normalized.reduce((sum, signal) => sum + signal.score * signal.weight, 0) * 100;
+
+    return { place, score: Math.round(score), distance, signals: normalized };
+  });
+
+  return ranked.sort((a, b) =>
+    b.score - a.score || (a.distance ?? Infinity) - (b.distance ?? Infinity)
+  );
+};
+
+// The signals that contributed most to a candidate's score, strongest first
+export const getTopReasons = (candidate: RankedCandidate, limit = 2): RankingSignal[] =>
+  [...candidate.signals]
+    .sort((a, b) => b.score * b.weight - a.score * a.weight)
+    .slice(0, limit);
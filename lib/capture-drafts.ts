@@ -0,0 +1,169 @@
+// Drafts of in-progress single captures
+// Every step of the identify flow (upload, analysis, candidate search, place selection,
+// collection choice) is written to the capture's draft so it can be resumed, re-analyzed
+// or discarded from "Recent captures". Drafts are removed once the place is saved and
+// expire after the retention period chosen in app settings.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CaptureDraft, CaptureDraftStage, CaptureLocation } from '@/types/capture';
+
+const CAPTURE_DRAFTS_STORAGE_KEY = 'frontsnap_capture_drafts';
+const MAX_DRAFTS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DRAFT_RETENTION_DAYS = 7;
+export const DRAFT_RETENTION_OPTIONS = [1, 3, 7, 30];
+
+// Drafts expire a retention period after they were last touched
+export const getDraftExpiresAt = (draft: CaptureDraft, retentionDays: number): number =>
+  draft.updatedAt + retentionDays * DAY_MS;
+
+export const isDraftExpired = (draft: CaptureDraft, retentionDays: number, now: number = Date.now()): boolean =>
+  getDraftExpiresAt(draft, retentionDays) <= now;
+
+export const getDraftStage = (draft: CaptureDraft): CaptureDraftStage => {
+  if (!draft.analysisResult) return 'not_analyzed';
+  if (!draft.selectedPlace) return 'choosing_place';
+  return draft.collection ? 'saving' : 'ready';
+};
+
+type CaptureDraftListener = (drafts: CaptureDraft[]) => void;
+
+export class CaptureDraftManager {
+  private static instance: CaptureDraftManager;
+  private drafts: CaptureDraft[] = [];
+  private listeners = new Set<CaptureDraftListener>();
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private retentionDays = DEFAULT_DRAFT_RETENTION_DAYS;
+
+  static getInstance(): CaptureDraftManager {
+    if (!CaptureDraftManager.instance) {
+      CaptureDraftManager.instance = new CaptureDraftManager();
+    }
+    return CaptureDraftManager.instance;
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedDrafts();
+    }
+    await this.loadPromise;
+  }
+
+  private async loadPersistedDrafts(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(CAPTURE_DRAFTS_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          this.drafts = parsed;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading capture drafts:', error);
+    } finally {
+      this.loaded = true;
+    }
+    if (!(await this.pruneExpired())) {
+      this.notify();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CAPTURE_DRAFTS_STORAGE_KEY, JSON.stringify(this.drafts));
+    } catch (error) {
+      console.error('Error persisting capture drafts:', error);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getDrafts();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  subscribe(listener: CaptureDraftListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getDrafts());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getDrafts(): CaptureDraft[] {
+    return [...this.drafts].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  getRetentionDays(): number {
+    return this.retentionDays;
+  }
+
+  async setRetentionDays(days: number): Promise<void> {
+    this.retentionDays = days;
+    await this.load();
+    await this.pruneExpired();
+  }
+
+  // Drop drafts past the retention period. Returns whether anything was removed.
+  async pruneExpired(now: number = Date.now()): Promise<boolean> {
+    const fresh = this.drafts.filter(draft => !isDraftExpired(draft, this.retentionDays, now));
+    if (fresh.length === this.drafts.length) return false;
+
+    console.log(`🗑️ Expired ${this.drafts.length - fresh.length} capture drafts`);
+    this.drafts = fresh;
+    await this.persist();
+    this.notify();
+    return true;
+  }
+
+  async create(capture: {
+    imageUri: string;
+    thumbnailUri?: string;
+    perceptualHash?: string | null;
+    location?: CaptureLocation | null;
+  }): Promise<CaptureDraft> {
+    await this.load();
+
+    const now = Date.now();
+    const draft: CaptureDraft = {
+      id: `draft_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      imageUri: capture.imageUri,
+      thumbnailUri: capture.thumbnailUri,
+      perceptualHash: capture.perceptualHash || undefined,
+      location: capture.location ?? null,
+      suggestedPlaces: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Oldest drafts make room once the history is full
+    this.drafts = [draft, ...this.getDrafts()].slice(0, MAX_DRAFTS);
+    await this.persist();
+    this.notify();
+    return draft;
+  }
+
+  async update(id: string, updates: Partial<Omit<CaptureDraft, 'id' | 'createdAt'>>): Promise<void> {
+    await this.load();
+    if (!this.drafts.some(draft => draft.id === id)) return;
+
+    this.drafts = this.drafts.map(draft =>
+      draft.id === id ? { ...draft, ...updates, updatedAt: Date.now() } : draft
+    );
+    await this.persist();
+    this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    if (!this.drafts.some(draft => draft.id === id)) return;
+
+    this.drafts = this.drafts.filter(draft => draft.id !== id);
+    await this.persist();
+    this.notify();
+  }
+}
+
+// Export singleton instance
+export const captureDrafts = CaptureDraftManager.getInstance();
@@ -0,0 +1,269 @@
+// Durable offline queue for storefront captures
+// Captures taken without connectivity are persisted locally and replayed
+// (upload + storefront analysis) once the network is reachable again.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { uploadImageAsync } from './supabase-storage';
+import { analyzeStorefrontPhoto } from './openai';
+import { checkNetworkConnectivity } from '@/utils/error-handling';
+import { KeptExif } from './privacy-redaction';
+import { CaptureLocation, QueuedCapture } from '@/types/capture';
+
+const CAPTURE_QUEUE_STORAGE_KEY = 'frontsnap_capture_queue';
+const CAPTURE_QUEUE_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}capture_queue/`
+  : null;
+const MAX_REPLAY_ATTEMPTS = 5;
+
+type CaptureQueueListener = (items: QueuedCapture[]) => void;
+
+// The capture location with the stored camera heading, for ranking candidates on review
+export const getQueuedCaptureLocation = (item: QueuedCapture): CaptureLocation | null =>
+  item.location && item.heading !== undefined
+    ? { ...item.location, direction: item.heading }
+    : item.location;
+
+export class CaptureQueueManager {
+  private static instance: CaptureQueueManager;
+  private items: QueuedCapture[] = [];
+  private listeners = new Set<CaptureQueueListener>();
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private processing = false;
+
+  static getInstance(): CaptureQueueManager {
+    if (!CaptureQueueManager.instance) {
+      CaptureQueueManager.instance = new CaptureQueueManager();
+    }
+    return CaptureQueueManager.instance;
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedItems();
+    }
+    await this.loadPromise;
+  }
+
+  private async loadPersistedItems(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(CAPTURE_QUEUE_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          // Items that were mid-replay when the app was killed go back to pending
+          this.items = parsed.map((item: QueuedCapture) =>
+            item.status === 'uploading' || item.status === 'analyzing'
+              ? { ...item, status: 'pending' }
+              : item
+          );
+        }
+      }
+    } catch (error) {
+      console.error('Error loading capture queue:', error);
+    } finally {
+      this.loaded = true;
+      this.notify();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CAPTURE_QUEUE_STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('Error persisting capture queue:', error);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = this.getItems();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private async updateItem(id: string, updates: Partial<QueuedCapture>): Promise<void> {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...updates } : item));
+    await this.persist();
+    this.notify();
+  }
+
+  subscribe(listener: CaptureQueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getItems());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItems(): QueuedCapture[] {
+    return [...this.items].sort((a, b) => b.capturedAt - a.capturedAt);
+  }
+
+  getPendingCount(): number {
+    return this.items.filter(item => item.status !== 'completed').length;
+  }
+
+  // Copy the photo out of the camera cache so the OS can't purge it before replay
+  private async persistImage(id: string, imageUri: string): Promise<string> {
+    if (!CAPTURE_QUEUE_DIRECTORY) return imageUri;
+
+    try {
+      const dirInfo = await FileSystem.getInfoAsync(CAPTURE_QUEUE_DIRECTORY);
+      if (!dirInfo.exists) {
+        await FileSystem.makeDirectoryAsync(CAPTURE_QUEUE_DIRECTORY, { intermediates: true });
+      }
+
+      const destination = `${CAPTURE_QUEUE_DIRECTORY}${id}.jpg`;
+      await FileSystem.copyAsync({ from: imageUri, to: destination });
+      return destination;
+    } catch (error) {
+      console.warn('Could not copy capture into queue storage, keeping original URI:', error);
+      return imageUri;
+    }
+  }
+
+  async enqueue(capture: {
+    imageUri: string;
+    location: CaptureLocation | null;
+    heading?: number;
+    redacted?: boolean;
+    keptExif?: KeptExif;
+    capturedAt?: number;
+  }): Promise<QueuedCapture> {
+    await this.load();
+
+    const id = `capture_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const localUri = await this.persistImage(id, capture.imageUri);
+
+    const item: QueuedCapture = {
+      id,
+      localUri,
+      location: capture.location,
+      heading: capture.heading,
+      redacted: capture.redacted,
+      keptExif: capture.keptExif,
+      capturedAt: capture.capturedAt ?? Date.now(),
+      status: 'pending',
+      attempts: 0,
+    };
+
+    this.items = [...this.items, item];
+    await this.persist();
+    this.notify();
+
+    console.log('📥 Capture queued for later analysis:', id);
+    return item;
+  }
+
+  // Replay every pending capture. Returns the number of captures completed.
+  async processQueue(): Promise<number> {
+    await this.load();
+
+    if (this.processing) return 0;
+    const pending = this.items.filter(item => item.status === 'pending');
+    if (pending.length === 0) return 0;
+
+    this.processing = true;
+    let completed = 0;
+
+    try {
+      const isOnline = await checkNetworkConnectivity();
+      if (!isOnline) {
+        console.log('📴 Still offline, capture queue replay postponed');
+        return 0;
+      }
+
+      console.log(`📤 Replaying ${pending.length} queued captures...`);
+
+      for (const item of pending) {
+        const succeeded = await this.replayItem(item);
+        if (succeeded) {
+          completed++;
+          continue;
+        }
+
+        // Stop early if we lost connectivity mid-replay
+        if (!(await checkNetworkConnectivity())) {
+          console.log('📴 Connectivity lost during replay, stopping');
+          break;
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return completed;
+  }
+
+  private async replayItem(item: QueuedCapture): Promise<boolean> {
+    let { fullUrl, thumbnailUrl } = item;
+
+    try {
+      if (!fullUrl) {
+        await this.updateItem(item.id, { status: 'uploading', lastError: undefined });
+        const uploadResult = await uploadImageAsync(item.localUri, {
+          redacted: item.redacted,
+          keptExif: item.keptExif,
+        });
+        if (!uploadResult) {
+          throw new Error('Failed to upload image');
+        }
+        fullUrl = uploadResult.fullUrl;
+        thumbnailUrl = uploadResult.thumbnailUrl;
+        // Persist the upload right away so a later analysis failure doesn't re-upload
+        await this.updateItem(item.id, { fullUrl, thumbnailUrl });
+      }
+
+      await this.updateItem(item.id, { status: 'analyzing' });
+      const locationString = item.location
+        ? `${item.location.latitude},${item.location.longitude}`
+        : undefined;
+      const analysis = await analyzeStorefrontPhoto(fullUrl, locationString);
+
+      await this.updateItem(item.id, {
+        status: 'completed',
+        analysis,
+        completedAt: Date.now(),
+        lastError: undefined,
+      });
+      console.log('✅ Queued capture analyzed:', item.id);
+      return true;
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      console.error('❌ Error replaying queued capture:', item.id, error);
+      await this.updateItem(item.id, {
+        status: attempts >= MAX_REPLAY_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  async retry(id: string): Promise<void> {
+    await this.load();
+    await this.updateItem(id, { status: 'pending', attempts: 0, lastError: undefined });
+    await this.processQueue();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const item = this.items.find(queued => queued.id === id);
+    if (!item) return;
+
+    this.items = this.items.filter(queued => queued.id !== id);
+    await this.persist();
+    this.notify();
+
+    if (CAPTURE_QUEUE_DIRECTORY && item.localUri.startsWith(CAPTURE_QUEUE_DIRECTORY)) {
+      try {
+        await FileSystem.deleteAsync(item.localUri, { idempotent: true });
+      } catch (error) {
+        console.warn('Error deleting queued capture image:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const captureQueue = CaptureQueueManager.getInstance();
@@ -0,0 +1,71 @@
+// Duplicate photo detection
+// Uploads carry a perceptual hash (dHash, see image-hash.ts), so a new photo can be compared
+// against a place's existing photos and the user's recent captures before it is uploaded.
+// A near match lets the caller offer the existing upload instead of storing another copy.
+import { hammingDistance } from './image-hash';
+import type { PlacePhoto } from './supabase';
+import type { CaptureDraft } from '@/types/capture';
+
+export type ExistingUploadSource = 'place_photo' | 'recent_capture';
+
+export interface ExistingUpload {
+  id: string; // place_photos row or capture draft id
+  source: ExistingUploadSource;
+  fullUrl: string;
+  thumbnailUrl?: string;
+  perceptualHash: string;
+}
+
+export interface DuplicateUploadMatch extends ExistingUpload {
+  distance: number;
+}
+
+// Re-encodes and small crops stay within a few bits; different shots of the same
+// storefront from another angle usually land well above this
+export const DUPLICATE_PHOTO_MAX_DISTANCE = 6;
+
+export const placePhotoUploads = (photos: PlacePhoto[]): ExistingUpload[] =>
+  photos
+    .filter(photo => !!photo.perceptual_hash)
+    .map(photo => ({
+      id: photo.id,
+      source: 'place_photo' as const,
+      fullUrl: photo.photo_url,
+      thumbnailUrl: photo.thumbnail_url || undefined,
+      perceptualHash: photo.perceptual_hash!,
+    }));
+
+export const recentCaptureUploads = (drafts: CaptureDraft[]): ExistingUpload[] =>
+  drafts
+    .filter(draft => !!draft.perceptualHash)
+    .map(draft => ({
+      id: draft.id,
+      source: 'recent_capture' as const,
+      fullUrl: draft.imageUri,
+      thumbnailUrl: draft.thumbnailUri,
+      perceptualHash: draft.perceptualHash!,
+    }));
+
+// Closest existing upload within the threshold; place photos win ties so a photo that is
+// already on the place is reported as such
+export const findDuplicateUpload = (
+  perceptualHash: string,
+  existing: ExistingUpload[],
+  maxDistance: number = DUPLICATE_PHOTO_MAX_DISTANCE
+): DuplicateUploadMatch | null => {
+  let best: DuplicateUploadMatch | null = null;
+
+  for (const upload of existing) {
+    const distance = hammingDistance(perceptualHash, upload.perceptualHash);
+    if (distance > maxDistance) continue;
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance && upload.source === 'place_photo' && best.source !== 'place_photo')
+    ) {
+      best = { ...upload, distance };
+    }
+  }
+
+  return best;
+};
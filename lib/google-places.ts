@@ -1,4 +1,5 @@
 // Google Places API integration via proxy
+import { getApiAuthHeaders, usageQuotaTracker, QuotaExceededError } from './usage-quota';
 
 export interface GooglePlace {
   place_id: string;
@@ -13,6 +14,7 @@ export interface GooglePlace {
   };
   photos?: {
     photo_reference: string;
+    photo_token?: string; // Signed by the proxy; lets <Image> load the photo without a Bearer header
     height: number;
     width: number;
   }[];
@@ -41,12 +43,13 @@ export interface GooglePlaceDetails extends GooglePlace {
   formatted_phone_number?: string;
   website?: string;
   business_status?: string;
+  time_zone?: string; // IANA name, e.g. "Asia/Ho_Chi_Minh"; the proxy adds it from the Time Zone API
 }
 
 // API key is now handled server-side in the API endpoint
 
 // Map business types to Google Places types for better search accuracy
-const getGooglePlaceTypes = (businessType: string): string[] => {
+export const getGooglePlaceTypes = (businessType: string): string[] => {
   const typeMap: { [key: string]: string[] } = {
     'Spa': ['spa', 'beauty_salon', 'health'],
     'Salon': ['beauty_salon', 'hair_care'],
@@ -93,6 +96,20 @@ const getGooglePlaceTypes = (businessType: string): string[] => {
   return ['establishment'];
 };
 
+// Authenticated request to the Google Places proxy; records the remaining quota
+const fetchGooglePlaces = async (params: URLSearchParams): Promise<Response> => {
+  const response = await fetch(`/api/google-places?${params}`, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      ...(await getApiAuthHeaders()),
+    },
+  });
+  await usageQuotaTracker.track(response);
+  return response;
+};
+
 // Enhanced nearby search with business type filtering and location context
 export const searchNearbyPlacesWithType = async (
   latitude: number,
@@ -128,13 +145,7 @@ export const searchNearbyPlacesWithType = async (
 
       console.log(`🔍 Searching with type "${placeType}" and keyword "${businessName}"`);
 
-      const response = await fetch(`/api/google-places?${params}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
+      const response = await fetchGooglePlaces(params);
       
       if (!response.ok) {
         console.error(`HTTP error! status: ${response.status}`);
@@ -188,6 +199,7 @@ export const searchNearbyPlacesWithType = async (
     console.log('❌ No results found for any place type');
     return [];
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Error searching nearby places with type:', error);
     return [];
   }
@@ -217,13 +229,7 @@ export const searchNearbyPlaces = async (
 
     console.log('Searching nearby places with params:', params.toString());
     
-    const response = await fetch(`/api/google-places?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await fetchGooglePlaces(params);
     
     if (!response.ok) {
       console.error(`HTTP error! status: ${response.status}`);
@@ -253,6 +259,7 @@ export const searchNearbyPlaces = async (
       return [];
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Error searching nearby places:', error);
     return [];
   }
@@ -279,13 +286,7 @@ export const searchPlacesByText = async (
 
     console.log('Searching places by text with params:', params.toString());
 
-    const response = await fetch(`/api/google-places?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await fetchGooglePlaces(params);
     
     if (!response.ok) {
       console.error(`HTTP error! status: ${response.status}`);
@@ -311,6 +312,7 @@ export const searchPlacesByText = async (
       return [];
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Error searching places by text:', error);
     return [];
   }
@@ -323,18 +325,12 @@ export const getPlaceDetails = async (placeId: string): Promise<GooglePlaceDetai
     const params = new URLSearchParams({
       type: 'details',
       place_id: placeId,
-      fields: 'place_id,name,formatted_address,rating,user_ratings_total,price_level,opening_hours,photos,types,geometry,reviews,formatted_phone_number,website,business_status'
+      fields: 'place_id,name,formatted_address,rating,user_ratings_total,price_level,opening_hours,time_zone,photos,types,geometry,reviews,formatted_phone_number,website,business_status'
     });
 
     console.log('Getting place details for:', placeId);
 
-    const response = await fetch(`/api/google-places?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await fetchGooglePlaces(params);
     
     if (!response.ok) {
       console.error(`HTTP error! status: ${response.status}`);
@@ -357,6 +353,7 @@ export const getPlaceDetails = async (placeId: string): Promise<GooglePlaceDetai
       return null;
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Error getting place details:', error);
     return null;
   }
@@ -372,13 +369,7 @@ export const getPlaceReviews = async (placeId: string): Promise<GoogleReview[]>
       fields: 'reviews'
     });
 
-    const response = await fetch(`/api/google-places?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const response = await fetchGooglePlaces(params);
     
     if (!response.ok) {
       console.error(`HTTP error! status: ${response.status}`);
@@ -401,18 +392,22 @@ export const getPlaceReviews = async (placeId: string): Promise<GoogleReview[]>
       return [];
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Error getting place reviews:', error);
     return [];
   }
 };
 
 // Get photo URL from Google Places photo reference (server-side proxy needed for security)
+// The token comes with the photo in search and details results and expires after a day
 export const getPlacePhotoUrl = (
   photoReference: string,
+  photoToken?: string,
   maxWidth: number = 400
 ): string => {
   // This should be proxied through your server-side API to keep the API key secure
-  return `/api/google-places?type=photo&photo_reference=${photoReference}&maxwidth=${maxWidth}`;
+  const token = photoToken ? `&token=${encodeURIComponent(photoToken)}` : '';
+  return `/api/google-places?type=photo&photo_reference=${photoReference}&maxwidth=${maxWidth}${token}`;
 };
 
 // Reverse geocode coordinates to get formatted address (using server-side proxy)
@@ -421,9 +416,11 @@ export const reverseGeocode = async (
   longitude: number
 ): Promise<string> => {
   try {
-    const response = await fetch(
-      `/api/google-places?type=geocode&lat=${latitude}&lng=${longitude}`
-    );
+    const response = await fetchGooglePlaces(new URLSearchParams({
+      type: 'geocode',
+      lat: latitude.toString(),
+      lng: longitude.toString(),
+    }));
     
     const data = await response.json();
     
@@ -466,7 +463,7 @@ export const convertGooglePlaceToPlace = (googlePlace: GooglePlace, addedBy: str
   // Get photo URL if available
   let imageUrl = 'https://images.pexels.com/photos/302899/pexels-photo-302899.jpeg?auto=compress&cs=tinysrgb&w=800';
   if (googlePlace.photos && googlePlace.photos.length > 0) {
-    imageUrl = getPlacePhotoUrl(googlePlace.photos[0].photo_reference);
+    imageUrl = getPlacePhotoUrl(googlePlace.photos[0].photo_reference, googlePlace.photos[0].photo_token);
   }
 
   // Format hours
@@ -0,0 +1,113 @@
+// Opening hours read from hours signs, formatted like Google's weekday_text so they
+// drop into `week_hours` alongside hours that come from Places
+import { DayHours, HoursSignExtraction, Weekday, WeekHoursChange } from '@/types/hours';
+
+// Monday first, matching weekday_text and getTodayHours
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+export const HOURS_TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// "17:30" -> "5:30 PM"
+export const formatHoursTime = (time: string): string => {
+  const minutes = toMinutes(time) % (24 * 60);
+  const hours = Math.floor(minutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+};
+
+const formatMissingDay = (day: Weekday): string => `${WEEKDAY_LABELS[day]}: Hours not available`;
+
+const isOpenAllDay = (day: DayHours): boolean =>
+  day.shifts.length === 1 && day.shifts[0].open === '00:00' && ['00:00', '24:00'].includes(day.shifts[0].close);
+
+// "Monday: 11:00 AM – 2:00 PM, 5:00 PM – 10:00 PM"
+export const formatDayHours = (day: DayHours): string => {
+  const label = WEEKDAY_LABELS[day.day];
+  if (day.closed || day.shifts.length === 0) return `${label}: Closed`;
+  if (isOpenAllDay(day)) return `${label}: Open 24 hours`;
+
+  const shifts = day.shifts.map(shift => `${formatHoursTime(shift.open)} – ${formatHoursTime(shift.close)}`);
+  return `${label}: ${shifts.join(', ')}`;
+};
+
+// Full seven-day week_hours; days the sign does not mention keep their current hours
+export const buildWeekHours = (extraction: HoursSignExtraction, currentWeekHours: string[] = []): string[] =>
+  WEEKDAYS.map((weekday, index) => {
+    const day = extraction.days.find(d => d.day === weekday);
+    if (day) return formatDayHours(day);
+    return currentWeekHours[index] || formatMissingDay(weekday);
+  });
+
+export const diffWeekHours = (currentWeekHours: string[], proposedWeekHours: string[]): WeekHoursChange[] =>
+  WEEKDAYS.map((day, index) => {
+    const before = currentWeekHours[index] || formatMissingDay(day);
+    const after = proposedWeekHours[index] || formatMissingDay(day);
+    return { day, before, after, changed: before !== after };
+  });
+
+// Take the proposed hours only for the days the user accepted in the diff
+export const mergeWeekHours = (
+  currentWeekHours: string[],
+  proposedWeekHours: string[],
+  acceptedDays: Weekday[]
+): string[] =>
+  WEEKDAYS.map((day, index) =>
+    acceptedDays.includes(day)
+      ? proposedWeekHours[index]
+      : currentWeekHours[index] || formatMissingDay(day)
+  );
+
+// Whether the sign's hours cover `date`, including shifts that run past midnight
+export const isOpenAt = (days: DayHours[], date: Date = new Date()): boolean => {
+  const todayIndex = (date.getDay() + 6) % 7;
+  const today = days.find(d => d.day === WEEKDAYS[todayIndex]);
+  const yesterday = days.find(d => d.day === WEEKDAYS[(todayIndex + 6) % 7]);
+  const now = date.getHours() * 60 + date.getMinutes();
+
+  const openToday = !!today && !today.closed && today.shifts.some(shift => {
+    const open = toMinutes(shift.open);
+    const close = toMinutes(shift.close);
+    return close > open ? now >= open && now < close : now >= open;
+  });
+  if (openToday) return true;
+
+  return !!yesterday && !yesterday.closed && yesterday.shifts.some(shift => {
+    const close = toMinutes(shift.close);
+    return close <= toMinutes(shift.open) && now < close;
+  });
+};
+
+// Below this the diff warns that the sign was hard to read
+export const HOURS_SIGN_CONFIDENCE_WARNING = 60;
+
+// Fields to write back to the place for the accepted days. is_open and hours are only
+// recomputed when today's hours were accepted.
+export const buildHoursUpdate = (
+  extraction: HoursSignExtraction,
+  currentWeekHours: string[],
+  proposedWeekHours: string[],
+  acceptedDays: Weekday[],
+  date: Date = new Date()
+): { week_hours: string[]; is_open?: boolean; hours?: string } => {
+  const week_hours = mergeWeekHours(currentWeekHours, proposedWeekHours, acceptedDays);
+  if (!acceptedDays.includes(WEEKDAYS[(date.getDay() + 6) % 7])) return { week_hours };
+
+  const is_open = isOpenAt(extraction.days.filter(day => acceptedDays.includes(day.day)), date);
+  return { week_hours, is_open, hours: is_open ? 'Open now' : 'Closed' };
+};
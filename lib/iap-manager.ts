@@ -143,7 +143,7 @@ class IAPManager {
           transaction_id: purchase.transactionId,
           subscription_tier: tier,
           status: 'active',
-          platform: Platform.OS,
+          platform: Platform.OS === 'ios' || Platform.OS === 'android' ? Platform.OS : 'web',
           purchase_date: new Date(purchase.purchaseTime || Date.now()).toISOString(),
           expires_at: this.calculateExpiryDate(purchase),
           original_transaction_id: purchase.originalTransactionIdentifierIOS || purchase.transactionId,
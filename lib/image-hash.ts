@@ -0,0 +1,94 @@
+// Perceptual image hashing
+// Works on small PNG fingerprints (see createImageFingerprint) so it needs no native
+// image decoder; the zlib inflate step is injected because it differs per runtime.
+import { decodePngPixels, Inflate } from './png';
+
+export type { Inflate };
+
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // One luminance byte per pixel, row-major
+}
+
+// dHash compares each pixel to its right neighbour on a 9x8 grid -> 64 bits
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+// Decode an 8-bit, non-interlaced PNG into grayscale pixels
+export const decodePng = (bytes: Uint8Array, inflate: Inflate): GrayscaleImage => {
+  const { width, height, channels, data } = decodePngPixels(bytes, inflate);
+
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const base = i * channels;
+    pixels[i] = channels >= 3
+      ? Math.round(0.299 * data[base] + 0.587 * data[base + 1] + 0.114 * data[base + 2])
+      : data[base];
+  }
+
+  return { width, height, pixels };
+};
+
+// Sample a pixel from the image as if it were scaled to the target grid
+const samplePixel = (image: GrayscaleImage, x: number, y: number, gridWidth: number, gridHeight: number) => {
+  const sourceX = Math.min(image.width - 1, Math.floor((x * image.width) / gridWidth));
+  const sourceY = Math.min(image.height - 1, Math.floor((y * image.height) / gridHeight));
+  return image.pixels[sourceY * image.width + sourceX];
+};
+
+// 64-bit difference hash as 16 hex characters
+export const differenceHash = (image: GrayscaleImage): string => {
+  let hash = '';
+  let nibble = 0;
+  let bitCount = 0;
+
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = samplePixel(image, x, y, DHASH_WIDTH, DHASH_HEIGHT);
+      const right = samplePixel(image, x + 1, y, DHASH_WIDTH, DHASH_HEIGHT);
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bitCount++;
+      if (bitCount % 4 === 0) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+};
+
+// Number of differing bits between two hex hashes of equal length
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/^data:[^;]+;base64,/, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Perceptual hash for a base64 PNG fingerprint, or null if it cannot be decoded
+export const perceptualHashFromPng = (base64Png: string, inflate: Inflate): string | null => {
+  try {
+    return differenceHash(decodePng(decodeBase64(base64Png), inflate));
+  } catch (error) {
+    console.warn('Unable to compute perceptual hash:', error);
+    return null;
+  }
+};
@@ -0,0 +1,207 @@
+// Minimal zlib/DEFLATE decoder (RFC 1950/1951)
+// React Native has no built-in inflate, so on device the small PNGs produced by
+// expo-image-manipulator are decoded with this before decodePng reads their pixels.
+// Follows the canonical-Huffman approach of zlib's reference "puff" decoder.
+import type { Inflate } from './png';
+
+interface HuffmanTable {
+  counts: Uint16Array; // Number of codes of each bit length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+const MAX_CODE_BITS = 15;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const buildTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(MAX_CODE_BITS + 1);
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_CODE_BITS + 1);
+  for (let bits = 1; bits < MAX_CODE_BITS; bits++) {
+    offsets[bits + 1] = offsets[bits] + counts[bits];
+  }
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERAL_TABLE = buildTable(
+  Array.from({ length: 288 }, (_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8))
+);
+const FIXED_DISTANCE_TABLE = buildTable(new Array(30).fill(5));
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array, public position: number) {}
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) throw new Error('Unexpected end of compressed data');
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  // Stored blocks start on a byte boundary
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  byte(): number {
+    if (this.position >= this.data.length) throw new Error('Unexpected end of compressed data');
+    return this.data[this.position++];
+  }
+}
+
+class OutputBuffer {
+  bytes = new Uint8Array(1024);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+}
+
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code |= reader.bits(1);
+    const count = table.counts[bits];
+    if (code - count < first) return table.symbols[index + (code - first)];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid Huffman code');
+};
+
+const inflateStored = (reader: BitReader, output: OutputBuffer): void => {
+  reader.alignToByte();
+  const length = reader.byte() | (reader.byte() << 8);
+  const complement = reader.byte() | (reader.byte() << 8);
+  if ((length ^ 0xffff) !== complement) throw new Error('Corrupt stored block');
+  for (let i = 0; i < length; i++) output.push(reader.byte());
+};
+
+const readDynamicTables = (reader: BitReader): [HuffmanTable, HuffmanTable] => {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthTable);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (index === 0) throw new Error('Repeat with no previous length');
+      value = lengths[index - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (index + repeat > lengths.length) throw new Error('Too many code lengths');
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+
+  return [buildTable(lengths.subarray(0, literalCount)), buildTable(lengths.subarray(literalCount))];
+};
+
+const inflateCompressed = (
+  reader: BitReader,
+  output: OutputBuffer,
+  literalTable: HuffmanTable,
+  distanceTable: HuffmanTable
+): void => {
+  for (;;) {
+    const symbol = decodeSymbol(reader, literalTable);
+    if (symbol < 256) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === 256) return;
+
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length symbol');
+    const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+
+    const distanceIndex = decodeSymbol(reader, distanceTable);
+    if (distanceIndex >= DISTANCE_BASE.length) throw new Error('Invalid distance symbol');
+    const distance = DISTANCE_BASE[distanceIndex] + reader.bits(DISTANCE_EXTRA[distanceIndex]);
+    if (distance > output.length) throw new Error('Distance too far back');
+
+    for (let i = 0; i < length; i++) {
+      output.push(output.bytes[output.length - distance]);
+    }
+  }
+};
+
+// Raw DEFLATE stream -> bytes
+export const inflateRaw = (data: Uint8Array, start = 0): Uint8Array => {
+  const reader = new BitReader(data, start);
+  const output = new OutputBuffer();
+
+  let isFinalBlock = false;
+  while (!isFinalBlock) {
+    isFinalBlock = reader.bits(1) === 1;
+    const type = reader.bits(2);
+    if (type === 0) {
+      inflateStored(reader, output);
+    } else if (type === 1) {
+      inflateCompressed(reader, output, FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+    } else if (type === 2) {
+      const [literalTable, distanceTable] = readDynamicTables(reader);
+      inflateCompressed(reader, output, literalTable, distanceTable);
+    } else {
+      throw new Error('Invalid DEFLATE block type');
+    }
+  }
+
+  return output.bytes.slice(0, output.length);
+};
+
+// zlib-wrapped stream, as stored in PNG IDAT chunks. The Adler-32 trailer is not checked.
+export const inflateZlib: Inflate = (data: Uint8Array): Uint8Array => {
+  const method = data[0] & 0x0f;
+  const header = (data[0] << 8) | data[1];
+  if (method !== 8 || header % 31 !== 0) throw new Error('Not a zlib stream');
+  if (data[1] & 0x20) throw new Error('Preset zlib dictionaries are not supported');
+  return inflateRaw(data, 2);
+};
@@ -0,0 +1,40 @@
+// Output language for AI summaries and analyses
+// AI output is generated in English and translated into the user's AppSettings.language;
+// the English copy stays canonical because places are stored and searched by it.
+import type { LocalizedPlaceSummary } from '@/types/localization';
+
+export const CANONICAL_LANGUAGE = 'en';
+
+// English names of the app languages, as the translate-content prompt refers to them
+export const OUTPUT_LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  zh: 'Simplified Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+// "es-MX" and "ES" resolve to "es"; anything unsupported falls back to English
+export const resolveOutputLanguage = (language?: string | null): string => {
+  const code = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return code && code in OUTPUT_LANGUAGE_NAMES ? code : CANONICAL_LANGUAGE;
+};
+
+export const needsTranslation = (language?: string | null): boolean =>
+  resolveOutputLanguage(language) !== CANONICAL_LANGUAGE;
+
+// The place's summary in the viewer's language when a translation is loaded, else the English one
+export const localizePlaceSummary = (
+  place: Partial<LocalizedPlaceSummary>,
+  translation?: LocalizedPlaceSummary | null
+): LocalizedPlaceSummary => ({
+  ai_summary: translation?.ai_summary || place.ai_summary || '',
+  pros: translation?.pros ?? place.pros ?? [],
+  cons: translation?.cons ?? place.cons ?? [],
+  recommendations: translation?.recommendations ?? place.recommendations ?? [],
+});
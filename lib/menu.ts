@@ -0,0 +1,121 @@
+// Menu helpers: price formatting, search query parsing and editing utilities
+import { MenuItem, MenuQuery, MenuSection } from '@/types/menu';
+
+// Currency symbols users type in searches, mapped to ISO 4217 codes
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  'us$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₫': 'VND',
+  'đ': 'VND',
+  'vnd': 'VND',
+  '฿': 'THB',
+  '₩': 'KRW',
+  '₱': 'PHP',
+  'rp': 'IDR',
+  'rm': 'MYR',
+  's$': 'SGD',
+  'nt$': 'TWD',
+  'hk$': 'HKD',
+};
+
+// Currencies normally written without minor units
+const ZERO_DECIMAL_CURRENCIES = new Set(['VND', 'JPY', 'KRW', 'IDR', 'TWD']);
+
+// "under $10", "below 50k", "< 100000 vnd", "max ¥1000"
+const CURRENCY_CODES = 'usd|eur|gbp|jpy|vnd|thb|krw|php|idr|myr|sgd|twd|hkd|cny|inr|aud|cad';
+const PRICE_LIMIT_PATTERN = new RegExp(
+  `(?:\\b(?:under|below|less than|cheaper than|max|up to)|<=?)\\s*(us\\$|s\\$|nt\\$|hk\\$|[$€£¥₫฿₩₱]|rp|rm)?\\s*` +
+  `(\\d+(?:[.,]\\d+)?)\\s*(k)?\\s*(us\\$|[$€£¥₫đ฿₩₱]|${CURRENCY_CODES})?(?!\\w)`,
+  'i'
+);
+
+const resolveCurrency = (token?: string): string | undefined => {
+  if (!token) return undefined;
+  const lower = token.toLowerCase();
+  if (CURRENCY_SYMBOLS[lower]) return CURRENCY_SYMBOLS[lower];
+  return /^[a-z]{3}$/.test(lower) ? lower.toUpperCase() : undefined;
+};
+
+const FILLER_WORDS = /\b(places?|restaurants?|shops?|stalls?|with|for|that (?:have|has|serve|serves|sell|sells)|serving|selling|where)\b/gi;
+
+// Split "places with pho under $10" into an item search and an optional price limit
+export const parseMenuQuery = (text: string): MenuQuery | null => {
+  const match = text.match(PRICE_LIMIT_PATTERN);
+  const itemQuery = (match ? text.replace(match[0], ' ') : text)
+    .replace(FILLER_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!itemQuery) return null;
+  if (!match) return { itemQuery };
+
+  const [, prefixCurrency, amount, thousands, suffixCurrency] = match;
+  const maxPrice = parseFloat(amount.replace(',', '.')) * (thousands ? 1000 : 1);
+  return {
+    itemQuery,
+    maxPrice: Number.isNaN(maxPrice) ? undefined : maxPrice,
+    currency: resolveCurrency(prefixCurrency) || resolveCurrency(suffixCurrency),
+  };
+};
+
+export const formatMenuPrice = (price: number | null, currency: string): string => {
+  if (price === null) return '—';
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: ZERO_DECIMAL_CURRENCIES.has(currency) ? 0 : 2,
+    }).format(price);
+  } catch {
+    return `${price} ${currency}`;
+  }
+};
+
+// Parse a price typed in the editor ("65k", "12.50", "45,000"); null when empty or unreadable
+export const parseMenuPrice = (text: string): number | null => {
+  const cleaned = text.trim().toLowerCase().replace(/[^\d.,k]/g, '');
+  if (!cleaned) return null;
+
+  const thousands = cleaned.endsWith('k');
+  let digits = cleaned.replace(/k$/, '');
+  // "45,000" / "45.000" are thousands separators; "12,50" is a decimal comma
+  if (/^\d{1,3}([.,]\d{3})+$/.test(digits)) {
+    digits = digits.replace(/[.,]/g, '');
+  } else {
+    digits = digits.replace(',', '.');
+  }
+
+  const value = parseFloat(digits);
+  if (Number.isNaN(value)) return null;
+  return thousands ? value * 1000 : value;
+};
+
+export const createMenuItemId = (): string =>
+  `item_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+export const createMenuItem = (item: Partial<MenuItem> = {}): MenuItem => ({
+  id: createMenuItemId(),
+  name: '',
+  price: null,
+  ...item,
+});
+
+// Drop unnamed items and empty sections before saving
+export const cleanMenuSections = (sections: MenuSection[]): MenuSection[] =>
+  sections
+    .map(section => ({
+      name: section.name.trim() || 'Menu',
+      items: section.items
+        .filter(item => item.name.trim())
+        .map(item => ({
+          ...item,
+          name: item.name.trim(),
+          description: item.description?.trim() || undefined,
+        })),
+    }))
+    .filter(section => section.items.length > 0);
+
+export const countMenuItems = (sections: MenuSection[]): number =>
+  sections.reduce((total, section) => total + section.items.length, 0);
@@ -1,7 +1,16 @@
 // OpenAI integration for photo analysis and review generation
 import * as FileSystem from 'expo-file-system';
 import * as ImageManipulator from 'expo-image-manipulator';
-import { processImageForAnalysis } from '@/utils/image-processing';
+import { processImageForAnalysis, createImageFingerprint } from '@/utils/image-processing';
+import { AnalysisError, analysisErrorFromResponse, PartialStorefrontAnalysis } from './analysis-schema';
+import type { AnalysisCacheMetadata } from './analysis-cache';
+import type { PromptAssignment } from './prompt-experiments';
+import { getApiAuthHeaders, usageQuotaTracker } from './usage-quota';
+import { getSearchableSignName, SignTextResult } from './sign-text';
+import type { MenuExtraction } from '@/types/menu';
+import type { HoursSignExtraction } from '@/types/hours';
+import type { LocalizedPlaceReview, LocalizedPlaceSummary, LocalizedStorefrontAnalysis } from '@/types/localization';
+import { needsTranslation } from './localization';
 
 export interface StorefrontAnalysis {
   businessType: string;
@@ -20,6 +29,10 @@ export interface StorefrontAnalysis {
     latitude: number;
     longitude: number;
   };
+  cache?: AnalysisCacheMetadata; // Set by /api/openai when the result came from the analysis cache
+  prompt?: PromptAssignment; // Prompt version that produced the result
+  signText?: SignTextResult | null; // Output of the signage OCR step (null if it failed)
+  localized?: LocalizedStorefrontAnalysis; // Display copy in the requested language; the fields above stay English
 }
 
 export interface PlaceReview {
@@ -30,100 +43,299 @@ export interface PlaceReview {
   overallSentiment: 'positive' | 'neutral' | 'negative';
   popularTimes?: string;
   bestFor: string[];
+  localized?: LocalizedPlaceReview; // Display copy in the requested language; the fields above stay English
 }
 
+export interface AnalysisRequestOptions {
+  refresh?: boolean; // Bypass the server's analysis cache
+  alternateImageUri?: string; // Second burst frame, for signs only legible in one frame
+  onPartial?: (partial: PartialStorefrontAnalysis) => void; // Streams fields as the model produces them
+  language?: string; // AppSettings.language; non-English results come with a localized copy
+}
+
+const ANALYSIS_STREAM_TYPE = 'application/x-ndjson';
+
+type AnalysisStreamEvent =
+  | { type: 'partial'; data: PartialStorefrontAnalysis }
+  | { type: 'result'; data: StorefrontAnalysis }
+  | ({ type: 'error' } & Record<string, unknown>);
+
+const parseStreamEvents = (text: string): AnalysisStreamEvent[] =>
+  text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+
+const parseResponseHeaders = (raw: string): Record<string, string> =>
+  Object.fromEntries(
+    raw.trim().split(/[\r\n]+/).filter(Boolean).map(line => {
+      const separator = line.indexOf(':');
+      return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+    })
+  );
+
+// On native, Expo's fetch resolves "/api/..." against the window.location it polyfills from the
+// dev server or router origin; XMLHttpRequest gets no such rewrite, so resolve it the same way
+const resolveApiUrl = (path: string): string => {
+  const origin = typeof window !== 'undefined' ? window.location?.origin : undefined;
+  return origin ? new URL(path, origin).toString() : path;
+};
+
+const postAnalysis = (body: object, headers: Record<string, string>): Promise<Response> =>
+  fetch('/api/openai', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  });
+
+// XMLHttpRequest rather than fetch: React Native's fetch only resolves once the whole body
+// has arrived, while XHR progress events expose the response text as it streams in.
+// Resolves with an ordinary Response so quota tracking and error handling stay the same.
+const postAnalysisStream = (
+  body: object,
+  headers: Record<string, string>,
+  onPartial: (partial: PartialStorefrontAnalysis) => void
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let consumed = 0;
+
+    xhr.open('POST', resolveApiUrl('/api/openai'));
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.onprogress = () => {
+      if (!xhr.getResponseHeader('Content-Type')?.includes(ANALYSIS_STREAM_TYPE)) return;
+      const end = xhr.responseText.lastIndexOf('\n');
+      if (end < consumed) return;
+      try {
+        parseStreamEvents(xhr.responseText.slice(consumed, end)).forEach(event => {
+          if (event.type === 'partial') onPartial(event.data);
+        });
+      } catch (error) {
+        console.warn('⚠️ Skipping unreadable analysis stream event:', error);
+      }
+      consumed = end + 1;
+    };
+    xhr.onload = () => resolve(new Response(xhr.responseText, {
+      status: xhr.status,
+      headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+    }));
+    xhr.onerror = () => reject(new Error('Network request failed'));
+    xhr.send(JSON.stringify(body));
+  });
+
+// Streamed responses end with a result or error event; cache hits come back as plain JSON
+const readStorefrontAnalysis = async (response: Response): Promise<StorefrontAnalysis> => {
+  if (!response.headers.get('Content-Type')?.includes(ANALYSIS_STREAM_TYPE)) {
+    return response.json();
+  }
+
+  const final = parseStreamEvents(await response.text()).filter(event => event.type !== 'partial').pop();
+  if (final?.type === 'result') {
+    return final.data;
+  }
+  throw analysisErrorFromResponse(response.status, final);
+};
+
+// Local files are resized to 2K and sent as base64; data and web URLs are passed through
+const toAnalysisImage = async (imageUri: string): Promise<string> => {
+  let base64Image = imageUri;
+  
+  if (imageUri.startsWith('file://')) {
+    console.log('📱 Processing local image file...');
+    try {
+      // First, resize image to 2K resolution for high-quality analysis
+      const resizedImage = await ImageManipulator.manipulateAsync(
+        imageUri,
+        [{ resize: { width: 2048 } }], // Resize to 2K (2048px) for optimal AI analysis
+        { 
+          compress: 0.8, 
+          format: ImageManipulator.SaveFormat.JPEG 
+        }
+      );
+      
+      console.log('📱 Converting resized image to base64...');
+      const base64 = await FileSystem.readAsStringAsync(resizedImage.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      
+      base64Image = `data:image/jpeg;base64,${base64}`;
+      console.log('✅ Successfully processed and converted image');
+    } catch (conversionError) {
+      console.error('❌ Failed to process image:', conversionError);
+      throw new Error('Failed to process image file. Please try again.');
+    }
+  } else if (imageUri.startsWith('data:image/')) {
+    // Already base64
+    base64Image = imageUri;
+    console.log('✅ Image already in base64 format');
+  } else {
+    // Assume it's a web URL
+    base64Image = imageUri;
+    console.log('✅ Using web URL for image');
+  }
+
+  return base64Image;
+};
+
 // Analyze storefront photo using secure OpenAI API endpoint
 export const analyzeStorefrontPhoto = async (
   imageUri: string, 
-  locationText?: string
+  locationText?: string,
+  options: AnalysisRequestOptions = {}
 ): Promise<StorefrontAnalysis> => {
   try {
     console.log('🤖 Starting OpenAI analysis for image:', imageUri);
     
     // Convert local file to base64 if needed
-    let base64Image = imageUri;
-    
-    if (imageUri.startsWith('file://')) {
-      console.log('📱 Processing local image file...');
+    const base64Image = await toAnalysisImage(imageUri);
+
+    // Lets the server match near-duplicate photos in its analysis cache
+    const fingerprint = await createImageFingerprint(imageUri);
+
+    // A second burst frame goes along when the best frame may not show the whole sign
+    const alternateImage = options.alternateImageUri
+      ? await toAnalysisImage(options.alternateImageUri)
+      : undefined;
+
+    console.log('🔗 Calling OpenAI API...');
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(await getApiAuthHeaders()),
+    };
+    const body = {
+      type: 'analyze-storefront',
+      imageUri: base64Image,
+      locationText,
+      fingerprint,
+      refresh: options.refresh,
+      alternateImageUri: alternateImage,
+      stream: !!options.onPartial,
+      language: options.language
+    };
+    // Partial results are a nicety: if the streamed request fails, ask again without streaming
+    const response = options.onPartial
+      ? await postAnalysisStream(body, headers, options.onPartial).catch(streamError => {
+          console.warn('⚠️ Streamed analysis failed, retrying without streaming:', streamError);
+          return postAnalysis({ ...body, stream: false }, headers);
+        })
+      : await postAnalysis(body, headers);
+
+    await usageQuotaTracker.track(response);
+
+    if (!response.ok) {
+      let errorData;
       try {
-        // First, resize image to 2K resolution for high-quality analysis
-        const resizedImage = await ImageManipulator.manipulateAsync(
-          imageUri,
-          [{ resize: { width: 2048 } }], // Resize to 2K (2048px) for optimal AI analysis
-          { 
-            compress: 0.8, 
-            format: ImageManipulator.SaveFormat.JPEG 
-          }
+        errorData = await response.json();
+      } catch (parseError) {
+        console.error('❌ Failed to parse error response:', parseError);
+        throw new AnalysisError(
+          'UNKNOWN',
+          `API request failed with status ${response.status}. Please check your internet connection and try again.`
         );
-        
-        console.log('📱 Converting resized image to base64...');
-        const base64 = await FileSystem.readAsStringAsync(resizedImage.uri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        
-        base64Image = `data:image/jpeg;base64,${base64}`;
-        console.log('✅ Successfully processed and converted image');
-      } catch (conversionError) {
-        console.error('❌ Failed to process image:', conversionError);
-        throw new Error('Failed to process image file. Please try again.');
       }
-    } else if (imageUri.startsWith('data:image/')) {
-      // Already base64
-      base64Image = imageUri;
-      console.log('✅ Image already in base64 format');
-    } else {
-      // Assume it's a web URL
-      base64Image = imageUri;
-      console.log('✅ Using web URL for image');
+      
+      console.error('❌ OpenAI API error:', errorData);
+      
+      // Structured error code so callers can explain what went wrong instead of showing "Unknown"
+      throw analysisErrorFromResponse(response.status, errorData);
     }
+    
+    // Signage OCR runs server-side within the same (singly metered) request
+    const data = await readStorefrontAnalysis(response);
+    return applySignText(data, data.signText ?? null);
+  } catch (error) {
+    console.error('Error analyzing storefront photo:', error);
+    throw error;
+  }
+};
 
-    console.log('🔗 Calling OpenAI API...');
+// Read items, sections and prices from a menu or price-board photo
+export const extractMenuFromPhoto = async (imageUri: string): Promise<MenuExtraction> => {
+  try {
+    console.log('📋 Extracting menu from image:', imageUri);
     const response = await fetch('/api/openai', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
       },
       body: JSON.stringify({
-        type: 'analyze-storefront',
-        imageUri: base64Image,
-        locationText
+        type: 'extract-menu',
+        imageUri: await toAnalysisImage(imageUri),
+        fingerprint: await createImageFingerprint(imageUri)
       })
     });
 
+    await usageQuotaTracker.track(response);
+
     if (!response.ok) {
-      let errorData;
-      try {
-        errorData = await response.json();
-      } catch (parseError) {
-        console.error('❌ Failed to parse error response:', parseError);
-        throw new Error(`API request failed with status ${response.status}. Please check your internet connection and try again.`);
-      }
-      
-      console.error('❌ OpenAI API error:', errorData);
-      
-      // Provide more specific error messages based on the error type
-      if (errorData.status === 'CONFIGURATION_ERROR') {
-        throw new Error('Image analysis is currently unavailable. Please contact support.');
-      } else if (errorData.status === 'API_ERROR') {
-        throw new Error('Unable to analyze image at this time. Please try again later.');
-      } else {
-        throw new Error(errorData.error || 'Failed to analyze storefront photo. Please try again.');
-      }
+      const errorData = await response.json().catch(() => null);
+      throw analysisErrorFromResponse(response.status, errorData);
     }
     
-    const data = await response.json();
-    return data;
+    return await response.json();
   } catch (error) {
-    console.error('Error analyzing storefront photo:', error);
+    console.error('Error extracting menu:', error);
+    throw error;
+  }
+};
+
+// Read per-day opening hours from a photo of an hours sign
+export const extractHoursFromPhoto = async (imageUri: string): Promise<HoursSignExtraction> => {
+  try {
+    console.log('🕒 Extracting opening hours from image:', imageUri);
+    const response = await fetch('/api/openai', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
+      },
+      body: JSON.stringify({
+        type: 'extract-hours',
+        imageUri: await toAnalysisImage(imageUri),
+        fingerprint: await createImageFingerprint(imageUri)
+      })
+    });
+
+    await usageQuotaTracker.track(response);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw analysisErrorFromResponse(response.status, errorData);
+    }
+    
+    return await response.json();
+  } catch (error) {
+    console.error('Error extracting opening hours:', error);
     throw error;
   }
 };
 
+// The OCR name is more reliable than the storefront prompt's, especially on non-Latin signs
+const applySignText = (analysis: StorefrontAnalysis, signText: SignTextResult | null): StorefrontAnalysis => {
+  const signName = getSearchableSignName(signText);
+  if (!signText || !signName) {
+    return { ...analysis, signText };
+  }
+
+  const analysisName = analysis.businessName?.trim().toLowerCase();
+  const hasAnalysisName = !!analysisName && analysisName !== 'unknown' && analysisName !== 'unknown business';
+  const useSignName = !hasAnalysisName ||
+    signText.businessName!.confidence >= analysis.confidence.nameRecognition;
+
+  if (useSignName) {
+    console.log(`🔤 Using business name from sign: "${signName}" (${signText.businessName!.original})`);
+  }
+  return {
+    ...analysis,
+    businessName: useSignName ? signName : analysis.businessName,
+    signText,
+  };
+};
+
 // Generate review summary using secure OpenAI API endpoint
 export const generateReviewSummary = async (
   businessName: string,
   businessType: string,
-  googleReviews: any[]
+  googleReviews: any[],
+  language?: string
 ): Promise<PlaceReview> => {
   if (!googleReviews || googleReviews.length === 0) {
     throw new Error('Google reviews are required for generating summary');
@@ -134,15 +346,19 @@ export const generateReviewSummary = async (
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
       },
       body: JSON.stringify({
         type: 'generate-review',
         businessName,
         businessType,
-        googleReviews
+        googleReviews,
+        language
       })
     });
 
+    await usageQuotaTracker.track(response);
+
     if (!response.ok) {
       const errorData = await response.json();
       throw new Error(errorData.error || 'Failed to generate review summary');
@@ -156,3 +372,40 @@ export const generateReviewSummary = async (
   }
 };
 
+// A saved place's AI summary in the viewer's language, translated on the server and cached
+// there for other viewers. Resolves to null when no translation is needed or it failed.
+export const translatePlaceSummary = async (
+  placeId: string,
+  language: string
+): Promise<LocalizedPlaceSummary | null> => {
+  if (!needsTranslation(language)) {
+    return null;
+  }
+
+  try {
+    const response = await fetch('/api/openai', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
+      },
+      body: JSON.stringify({
+        type: 'translate-place',
+        placeId,
+        language
+      })
+    });
+
+    await usageQuotaTracker.track(response);
+
+    if (!response.ok) {
+      console.warn('⚠️ Place summary translation failed with status', response.status);
+      return null;
+    }
+    const { ai_summary, pros, cons, recommendations } = await response.json();
+    return { ai_summary, pros, cons, recommendations };
+  } catch (error) {
+    console.warn('⚠️ Place summary translation unavailable:', error);
+    return null;
+  }
+};
@@ -0,0 +1,301 @@
+// Opening hours engine
+// week_hours holds Google's weekday_text (or hours read from a sign, formatted the same way).
+// These helpers parse it back into per-day shifts and work out, when a place is shown, whether
+// it is open on the place's own clock (its IANA time zone, so daylight saving changes are
+// followed): shifts past midnight carry over into the next day and dated exceptions
+// (e.g. public holidays) replace the weekly hours for their date.
+import type { DayHours, HoursShift, OpenFilter, OpeningSchedule, OpenState, OpenStatus, Weekday } from '@/types/hours';
+import type { Place } from '@/types/place';
+import { formatHoursTime, WEEKDAYS, WEEKDAY_LABELS } from './hours-sign';
+
+// An open place closing within this many minutes is shown as closing soon
+export const CLOSING_SOON_MINUTES = 30;
+
+export const OPEN_STATE_LABELS: Record<OpenState, string> = {
+  open: 'Open',
+  closing_soon: 'Closing soon',
+  closed: 'Closed',
+  unknown: 'Hours unknown',
+};
+
+export const OPEN_STATE_COLORS: Record<OpenState, string> = {
+  open: '#34C759',
+  closing_soon: '#FF9500',
+  closed: '#FF3B30',
+  unknown: '#8E8E93',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// How far ahead to look for the next opening or closing time
+const LOOKAHEAD_DAYS = 7;
+
+export type ScheduleSource = Pick<Place, 'week_hours'> & Partial<Pick<Place, 'hours_exceptions' | 'time_zone'>>;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string => {
+  const inDay = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(inDay / 60)).padStart(2, '0')}:${String(inDay % 60).padStart(2, '0')}`;
+};
+
+// "9", "9:30", "9:30 AM", "9:30 p.m.", "21:30" -> minutes since midnight, with the AM/PM it
+// had (Google leaves it off the opening time when both ends share it: "5:00 – 10:00 PM")
+const parseClockTime = (text: string): { minutes: number; period: 'am' | 'pm' | null } | null => {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === 'noon') return { minutes: 12 * 60, period: 'pm' };
+  if (normalized === 'midnight') return { minutes: 0, period: 'am' };
+
+  const match = normalized.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?\s*(?:m\.?)?$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const period = match[3] === 'a' ? 'am' : match[3] === 'p' ? 'pm' : null;
+  if (minutes > 59 || (period ? hours < 1 || hours > 12 : hours > 24)) return null;
+
+  return { minutes: hours * 60 + minutes, period };
+};
+
+const applyPeriod = (minutes: number, period: 'am' | 'pm' | null): number => {
+  if (!period) return minutes;
+  const inHalf = minutes % (12 * 60); // 12:xx counts from 0 in both halves
+  return period === 'pm' ? inHalf + 12 * 60 : inHalf;
+};
+
+// "11:00 AM – 2:00 PM" -> { open: "11:00", close: "14:00" }
+const parseShift = (text: string): HoursShift | null => {
+  const ends = text.split(/\s*[–—-]\s*|\s+to\s+/i);
+  if (ends.length !== 2) return null;
+
+  const open = parseClockTime(ends[0]);
+  const close = parseClockTime(ends[1]);
+  if (!open || !close) return null;
+
+  return {
+    open: toTime(applyPeriod(open.minutes, open.period ?? close.period)),
+    close: toTime(applyPeriod(close.minutes, close.period)),
+  };
+};
+
+const findWeekday = (label: string): Weekday | undefined => {
+  const normalized = label.trim().toLowerCase();
+  if (normalized.length < 3) return undefined;
+  return WEEKDAYS.find(day => day.startsWith(normalized));
+};
+
+// One line of weekday_text; null when it has no usable hours ("Hours not available")
+export const parseDayHoursLine = (line: string): DayHours | null => {
+  // Newer weekday_text uses narrow and thin no-break spaces around times and dashes
+  const match = line.replace(/[\u00a0\u2009\u202f]/g, ' ').match(/^\s*([A-Za-z]+)\s*:\s*(.+?)\s*$/);
+  if (!match) return null;
+
+  const day = findWeekday(match[1]);
+  if (!day) return null;
+
+  const hours = match[2];
+  if (/^closed$/i.test(hours)) return { day, closed: true, shifts: [] };
+  if (/^open 24 hours$/i.test(hours)) return { day, closed: false, shifts: [{ open: '00:00', close: '24:00' }] };
+
+  const shifts = hours.split(/\s*,\s*/).map(parseShift);
+  if (shifts.length === 0 || shifts.some(shift => !shift)) return null;
+  return { day, closed: false, shifts: shifts as HoursShift[] };
+};
+
+// Google's weekday_text (one line per day) -> structured days; unreadable days are left out
+export const parseWeekdayText = (weekHours: string[]): DayHours[] => {
+  const days: DayHours[] = [];
+  weekHours.forEach(line => {
+    const day = parseDayHoursLine(line);
+    if (day && !days.some(existing => existing.day === day.day)) {
+      days.push(day);
+    }
+  });
+  return days;
+};
+
+export const buildOpeningSchedule = (place: ScheduleSource): OpeningSchedule => ({
+  days: parseWeekdayText(place.week_hours || []),
+  exceptions: place.hours_exceptions || [],
+  timeZone: place.time_zone ?? null,
+});
+
+// The wall clock at the place: its date, weekday (0 = Monday) and minutes since midnight
+interface PlaceClock {
+  date: string; // "YYYY-MM-DD"
+  dayIndex: number;
+  minutes: number;
+}
+
+const formatDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// One formatter per time zone; null for names the runtime does not know
+const clockFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const getClockFormatter = (timeZone: string): Intl.DateTimeFormat | null => {
+  if (!clockFormatters.has(timeZone)) {
+    try {
+      clockFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+      }));
+    } catch {
+      console.warn(`Unknown time zone "${timeZone}", using the device clock`);
+      clockFormatters.set(timeZone, null);
+    }
+  }
+  return clockFormatters.get(timeZone)!;
+};
+
+const getPlaceClock = (instant: Date, timeZone: string | null): PlaceClock => {
+  const formatter = timeZone ? getClockFormatter(timeZone) : null;
+  if (!formatter) {
+    return {
+      date: formatDateKey(instant.getFullYear(), instant.getMonth(), instant.getDate()),
+      dayIndex: (instant.getDay() + 6) % 7,
+      minutes: instant.getHours() * 60 + instant.getMinutes(),
+    };
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map(part => [part.type, Number(part.value)])
+  ) as Record<Intl.DateTimeFormatPartTypes, number>;
+  return {
+    date: formatDateKey(parts.year, parts.month - 1, parts.day),
+    dayIndex: (new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() + 6) % 7,
+    minutes: (parts.hour % 24) * 60 + parts.minute,
+  };
+};
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDateKey(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate());
+};
+
+// The shifts on one date: its exception if it has one, otherwise its weekday's hours;
+// null when the hours for that day are unknown
+const getShiftsOn = (schedule: OpeningSchedule, date: string, dayIndex: number): HoursShift[] | null => {
+  const exception = schedule.exceptions.find(e => e.date === date);
+  if (exception) return exception.closed ? [] : exception.shifts;
+
+  const day = schedule.days.find(d => d.day === WEEKDAYS[dayIndex]);
+  if (!day) return null;
+  return day.closed ? [] : day.shifts;
+};
+
+// Open intervals from yesterday to LOOKAHEAD_DAYS ahead, in minutes from the start of today
+const getIntervals = (schedule: OpeningSchedule, clock: PlaceClock): { start: number; end: number }[] => {
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const shifts = getShiftsOn(schedule, addDays(clock.date, offset), (clock.dayIndex + offset + 7 * 2) % 7) || [];
+    shifts.forEach(shift => {
+      const open = toMinutes(shift.open);
+      const close = toMinutes(shift.close);
+      intervals.push({
+        start: offset * MINUTES_PER_DAY + open,
+        end: offset * MINUTES_PER_DAY + (close > open ? close : close + MINUTES_PER_DAY), // Past midnight
+      });
+    });
+  }
+  return intervals;
+};
+
+export const getOpenStatus = (schedule: OpeningSchedule, instant: Date = new Date()): OpenStatus => {
+  const clock = getPlaceClock(instant, schedule.timeZone);
+  const intervals = getIntervals(schedule, clock);
+  const now = clock.minutes;
+  const at = (minutes: number) => new Date(instant.getTime() + (minutes - now) * 60000);
+
+  const current = intervals.filter(interval => interval.start <= now && now < interval.end);
+  if (current.length > 0) {
+    // Follow shifts that run into each other (e.g. open 24 hours on consecutive days)
+    let closesAt = Math.max(...current.map(interval => interval.end));
+    let next = intervals.find(interval => interval.start <= closesAt && interval.end > closesAt);
+    while (next) {
+      closesAt = next.end;
+      next = intervals.find(interval => interval.start <= closesAt && interval.end > closesAt);
+    }
+
+    if (closesAt >= LOOKAHEAD_DAYS * MINUTES_PER_DAY) return { state: 'open', changesAt: null };
+    return {
+      state: closesAt - now <= CLOSING_SOON_MINUTES ? 'closing_soon' : 'open',
+      changesAt: at(closesAt),
+    };
+  }
+
+  if (getShiftsOn(schedule, clock.date, clock.dayIndex) === null) {
+    return { state: 'unknown', changesAt: null };
+  }
+
+  const opensAt = intervals
+    .filter(interval => interval.start > now)
+    .reduce<number | null>((earliest, interval) => earliest === null || interval.start < earliest ? interval.start : earliest, null);
+  return { state: 'closed', changesAt: opensAt === null ? null : at(opensAt) };
+};
+
+// "Open · Closes 10:00 PM", "Closed · Opens tomorrow 9:00 AM", ... with times on the place's clock
+export const describeOpenStatus = (status: OpenStatus, schedule: OpeningSchedule, instant: Date = new Date()): string => {
+  if (status.state === 'unknown') return OPEN_STATE_LABELS.unknown;
+  if (!status.changesAt) return status.state === 'closed' ? OPEN_STATE_LABELS.closed : 'Open 24 hours';
+
+  const today = getPlaceClock(instant, schedule.timeZone);
+  const change = getPlaceClock(status.changesAt, schedule.timeZone);
+  const time = formatHoursTime(toTime(change.minutes));
+  const day = change.date === today.date
+    ? ''
+    : change.date === addDays(today.date, 1) ? 'tomorrow ' : `${WEEKDAY_LABELS[WEEKDAYS[change.dayIndex]].slice(0, 3)} `;
+
+  if (status.state === 'closed') return `${OPEN_STATE_LABELS.closed} · Opens ${day}${time}`;
+  return `${OPEN_STATE_LABELS[status.state]} · Closes ${day}${time}`;
+};
+
+// Today's hours on the place's clock, e.g. "9:00 AM – 5:00 PM" or "Closed (Christmas Day)"
+export const getTodayHours = (place: ScheduleSource, instant: Date = new Date()): string => {
+  const clock = getPlaceClock(instant, place.time_zone ?? null);
+
+  const exception = (place.hours_exceptions || []).find(e => e.date === clock.date);
+  if (exception) {
+    const hours = exception.closed || exception.shifts.length === 0
+      ? 'Closed'
+      : exception.shifts.map(shift => `${formatHoursTime(shift.open)} – ${formatHoursTime(shift.close)}`).join(', ');
+    return exception.label ? `${hours} (${exception.label})` : hours;
+  }
+
+  const weekday = WEEKDAYS[clock.dayIndex];
+  const line = (place.week_hours || []).find(text => parseDayHoursLine(text)?.day === weekday)
+    ?? (place.week_hours || [])[clock.dayIndex]; // Monday-first, like weekday_text
+  if (!line) return 'Hours not available';
+
+  const hours = line.match(/:\s*(.+)/);
+  return hours ? hours[1] : line;
+};
+
+export const isOpenState = (state: OpenState): boolean => state === 'open' || state === 'closing_soon';
+
+// Whether a place passes the "Open now" / "Open at…" filter; places with unknown hours never do.
+// "Open at" is the next time that weekday and time comes round on the place's clock.
+export const matchesOpenFilter = (schedule: OpeningSchedule, filter: OpenFilter, instant: Date = new Date()): boolean => {
+  if (filter.mode === 'any') return true;
+  if (filter.mode === 'now') return isOpenState(getOpenStatus(schedule, instant).state);
+
+  const clock = getPlaceClock(instant, schedule.timeZone);
+  const daysAhead = (WEEKDAYS.indexOf(filter.day) - clock.dayIndex + 7) % 7;
+  const minutesAhead = daysAhead * MINUTES_PER_DAY + toMinutes(filter.time) - clock.minutes;
+  return isOpenState(getOpenStatus(schedule, new Date(instant.getTime() + minutesAhead * 60000)).state);
+};
+
+export const describeOpenFilter = (filter: OpenFilter): string => {
+  if (filter.mode === 'any') return 'Any time';
+  if (filter.mode === 'now') return 'Open now';
+  return `Open ${WEEKDAY_LABELS[filter.day].slice(0, 3)} ${formatHoursTime(filter.time)}`;
+};
@@ -0,0 +1,133 @@
+// Duplicate place detection for the admin merge workflow
+// checkPlaceExists stops a capture from adding a second public copy of a place, but private
+// places made public later, different Google matches for one storefront and older data still
+// leave duplicates. Two places are linked when they share a Google Place ID, or when they are
+// within DUPLICATE_RADIUS_METERS and their names are similar; linked places are grouped into
+// clusters (so A~B and B~C put all three together), each with a suggested canonical record.
+import { calculateDistance, nameSimilarity } from './candidate-ranking';
+import type { PlaceRow } from '@/types/place';
+
+export type DuplicateReason = 'google_place_id' | 'nearby_similar_name';
+
+// Raw rows (as the admin screen loads them) or mapped Places
+export type DuplicateCandidate = Pick<
+  PlaceRow,
+  'id' | 'name' | 'latitude' | 'longitude' | 'google_place_id' | 'review_count' | 'is_public' | 'is_verified' | 'created_at'
+>;
+
+export interface DuplicateMatch {
+  placeIds: [string, string];
+  reason: DuplicateReason;
+  distance: number; // Meters
+  similarity: number; // Name similarity, 0-1
+}
+
+export interface DuplicateCluster<T extends DuplicateCandidate = DuplicateCandidate> {
+  canonical: T; // Suggested record to keep, see pickCanonicalPlace
+  places: T[]; // Canonical first, then the duplicates
+  matches: DuplicateMatch[];
+}
+
+// Same radius checkPlaceExists uses for "someone already added this place"
+export const DUPLICATE_RADIUS_METERS = 50;
+
+// Nearby places below this name similarity are treated as neighbours, not duplicates
+export const DUPLICATE_NAME_SIMILARITY = 0.6;
+
+// Rough meters per degree of latitude, to bound the pairwise comparison
+const METERS_PER_DEGREE = 111000;
+
+export const getDuplicateReasonLabel = (match: DuplicateMatch): string =>
+  match.reason === 'google_place_id'
+    ? 'Same Google place'
+    : `${Math.round(match.distance)} m apart, names ${Math.round(match.similarity * 100)}% similar`;
+
+// The record to keep: verified, then public, then most reviewed, then linked to Google, then oldest
+export const pickCanonicalPlace = <T extends DuplicateCandidate>(places: T[]): T =>
+  [...places].sort((a, b) =>
+    Number(!!b.is_verified) - Number(!!a.is_verified) ||
+    Number(!!b.is_public) - Number(!!a.is_public) ||
+    (b.review_count ?? 0) - (a.review_count ?? 0) ||
+    Number(!!b.google_place_id) - Number(!!a.google_place_id) ||
+    (a.created_at || '').localeCompare(b.created_at || '')
+  )[0];
+
+const matchPlaces = (a: DuplicateCandidate, b: DuplicateCandidate, radiusMeters: number, minSimilarity: number): DuplicateMatch | null => {
+  const distance = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+  const similarity = nameSimilarity(a.name, b.name);
+
+  if (a.google_place_id && a.google_place_id === b.google_place_id) {
+    return { placeIds: [a.id, b.id], reason: 'google_place_id', distance, similarity };
+  }
+  if (distance <= radiusMeters && similarity >= minSimilarity) {
+    return { placeIds: [a.id, b.id], reason: 'nearby_similar_name', distance, similarity };
+  }
+  return null;
+};
+
+export const findDuplicateClusters = <T extends DuplicateCandidate>(
+  places: T[],
+  radiusMeters: number = DUPLICATE_RADIUS_METERS,
+  minSimilarity: number = DUPLICATE_NAME_SIMILARITY
+): DuplicateCluster<T>[] => {
+  const matches: DuplicateMatch[] = [];
+
+  // Sweep by latitude so only places within the radius (north-south) are compared by distance
+  const byLatitude = [...places].sort((a, b) => a.latitude - b.latitude);
+  const latitudeWindow = radiusMeters / METERS_PER_DEGREE;
+  byLatitude.forEach((place, i) => {
+    for (let j = i + 1; j < byLatitude.length && byLatitude[j].latitude - place.latitude <= latitudeWindow; j++) {
+      const match = matchPlaces(place, byLatitude[j], radiusMeters, minSimilarity);
+      if (match) matches.push(match);
+    }
+  });
+
+  // Places sharing a Google ID can be far apart (a bad pin); pair up the ones the sweep skipped
+  const byGoogleId = new Map<string, T[]>();
+  places.forEach(place => {
+    if (!place.google_place_id) return;
+    byGoogleId.set(place.google_place_id, [...(byGoogleId.get(place.google_place_id) || []), place]);
+  });
+  byGoogleId.forEach(group => {
+    group.forEach((place, i) => group.slice(i + 1).forEach(other => {
+      if (Math.abs(place.latitude - other.latitude) > latitudeWindow) {
+        matches.push(matchPlaces(place, other, radiusMeters, minSimilarity)!);
+      }
+    }));
+  });
+
+  // Union-find over the matched pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  matches.forEach(({ placeIds: [a, b] }) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  });
+
+  const matchedIds = new Set(matches.flatMap(({ placeIds }) => placeIds));
+  const groups = new Map<string, T[]>();
+  places.forEach(place => {
+    if (!matchedIds.has(place.id)) return;
+    const root = find(place.id);
+    groups.set(root, [...(groups.get(root) || []), place]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => {
+      const canonical = pickCanonicalPlace(group);
+      const ids = group.map(place => place.id);
+      return {
+        canonical,
+        places: [canonical, ...group.filter(place => place.id !== canonical.id)],
+        matches: matches.filter(({ placeIds: [a] }) => ids.includes(a)),
+      };
+    })
+    .sort((a, b) => b.places.length - a.places.length);
+};
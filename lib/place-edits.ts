@@ -0,0 +1,107 @@
+// Community edit suggestions for places
+// The suggest-an-edit form works on strings; these helpers turn the form into place values,
+// validate them and diff them against the place, so a suggestion only carries the fields the
+// user actually changed (with the value they saw, to spot suggestions that went stale).
+import type { EditablePlaceField, EditablePlaceValues, FieldChange, PlaceEditChanges } from '@/types/place-edit';
+
+export const EDITABLE_PLACE_FIELDS: EditablePlaceField[] = [
+  'name',
+  'category',
+  'address',
+  'week_hours',
+  'phone',
+  'website',
+  'latitude',
+  'longitude',
+];
+
+export const PLACE_FIELD_LABELS: Record<EditablePlaceField, string> = {
+  name: 'Name',
+  category: 'Category',
+  address: 'Address',
+  week_hours: 'Hours',
+  phone: 'Phone',
+  website: 'Website',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+};
+
+// Trusted editors who must agree before a suggestion applies itself (agree_with_place_edit)
+export const PLACE_EDIT_AUTO_APPLY_AGREEMENTS = 3;
+
+// Coordinate changes smaller than this (about a meter) are GPS noise, not a correction
+const COORDINATE_TOLERANCE = 0.00001;
+
+export type PlaceEditForm = Record<EditablePlaceField, string>;
+
+export const toPlaceEditForm = (place: EditablePlaceValues): PlaceEditForm => ({
+  name: place.name,
+  category: place.category,
+  address: place.address,
+  week_hours: place.week_hours.join('\n'),
+  phone: place.phone || '',
+  website: place.website || '',
+  latitude: String(place.latitude),
+  longitude: String(place.longitude),
+});
+
+// Form strings to place values; one line of hours per day, blank phone/website clears them
+export const parsePlaceEditForm = (form: PlaceEditForm): EditablePlaceValues => {
+  const website = form.website.trim();
+  return {
+    name: form.name.trim(),
+    category: form.category.trim(),
+    address: form.address.trim(),
+    week_hours: form.week_hours.split('\n').map(line => line.trim()).filter(Boolean),
+    phone: form.phone.trim() || null,
+    website: website && !/^https?:\/\//i.test(website) ? `https://${website}` : website || null,
+    latitude: parseFloat(form.latitude),
+    longitude: parseFloat(form.longitude),
+  };
+};
+
+// The first problem with the proposed values, or null when they can be submitted
+export const validatePlaceEdit = (values: EditablePlaceValues): string | null => {
+  if (!values.name) return 'Name cannot be empty';
+  if (!values.category) return 'Category cannot be empty';
+  if (!values.address) return 'Address cannot be empty';
+  if (values.phone && !/^\+?[\d\s().-]{6,}$/.test(values.phone)) return 'Phone number can only contain digits, spaces and + ( ) - .';
+  if (values.website && !/^https?:\/\/[^\s.]+\.\S+$/i.test(values.website)) return 'Website must be a web address';
+  if (!Number.isFinite(values.latitude) || Math.abs(values.latitude) > 90) return 'Latitude must be between -90 and 90';
+  if (!Number.isFinite(values.longitude) || Math.abs(values.longitude) > 180) return 'Longitude must be between -180 and 180';
+  return null;
+};
+
+const sameValue = <F extends EditablePlaceField>(field: F, a: EditablePlaceValues[F], b: EditablePlaceValues[F]): boolean => {
+  if (field === 'latitude' || field === 'longitude') {
+    return Math.abs((a as number) - (b as number)) < COORDINATE_TOLERANCE;
+  }
+  if (field === 'week_hours') {
+    return (a as string[]).join('\n') === (b as string[]).join('\n');
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+export const diffPlaceEdit = (place: EditablePlaceValues, proposed: EditablePlaceValues): PlaceEditChanges => {
+  const changes: Partial<Record<EditablePlaceField, FieldChange>> = {};
+  EDITABLE_PLACE_FIELDS.forEach(field => {
+    if (!sameValue(field, place[field], proposed[field])) {
+      changes[field] = { from: place[field], to: proposed[field] };
+    }
+  });
+  return changes as PlaceEditChanges;
+};
+
+export const getChangedFields = (changes: PlaceEditChanges): EditablePlaceField[] =>
+  EDITABLE_PLACE_FIELDS.filter(field => changes[field] !== undefined);
+
+// Fields whose value on the place no longer matches what the proposer saw
+export const getStaleFields = (changes: PlaceEditChanges, place: EditablePlaceValues): EditablePlaceField[] =>
+  getChangedFields(changes).filter(field => !sameValue(field, changes[field]!.from, place[field]));
+
+export const formatEditValue = (field: EditablePlaceField, value: EditablePlaceValues[EditablePlaceField]): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return 'None';
+  if (field === 'week_hours') return (value as string[]).join('\n');
+  if (field === 'latitude' || field === 'longitude') return (value as number).toFixed(6);
+  return String(value);
+};
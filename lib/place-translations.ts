@@ -0,0 +1,170 @@
+// Translation of AI output into the user's language, for the /api/openai route and the summary job
+// Content is always translated from the canonical English copy. Place summaries are cached
+// per language in place_translations (written with the service role), so each place is
+// translated into a language once, until its summary changes.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VisionProvider } from './vision-providers';
+import { completeWithSchema, validateTranslation } from './analysis-schema';
+import { renderPrompt } from './prompt-templates';
+import { assignPromptVersion, PromptAssignment } from './prompt-experiments';
+import { CANONICAL_LANGUAGE, OUTPUT_LANGUAGE_NAMES, resolveOutputLanguage } from './localization';
+import type { LocalizedPlaceSummary, PlaceTranslation, TranslatableContent } from '@/types/localization';
+
+export interface TranslationResult<T> {
+  value: T;
+  prompt: PromptAssignment | null; // null when nothing needed translating
+}
+
+const isBlank = (value: string | string[]): boolean =>
+  typeof value === 'string' ? value.trim() === '' : value.length === 0;
+
+// Translates the non-empty fields of `content`; empty ones are returned as they are.
+// Throws when the translation is still invalid after the repair round.
+export async function translateContent<T extends TranslatableContent>(
+  provider: VisionProvider,
+  content: T,
+  language: string,
+  bucketKey: string | null
+): Promise<TranslationResult<T>> {
+  const target = resolveOutputLanguage(language);
+  const source: TranslatableContent = Object.fromEntries(
+    Object.entries(content).filter(([, value]) => !isBlank(value))
+  );
+  if (target === CANONICAL_LANGUAGE || Object.keys(source).length === 0) {
+    return { value: content, prompt: null };
+  }
+
+  const prompt = assignPromptVersion('translate-content', bucketKey);
+  const result = await completeWithSchema(
+    provider,
+    {
+      task: 'translate-content',
+      prompt: renderPrompt(prompt.task, prompt.version, {
+        languageName: OUTPUT_LANGUAGE_NAMES[target],
+        content: JSON.stringify(source, null, 2),
+      }),
+      maxTokens: 1000,
+    },
+    validateTranslation(source)
+  );
+  if (!result.valid) {
+    throw new Error(`Translation into ${target} failed validation (${result.code}): ${result.issues.join('; ')}`);
+  }
+  return { value: { ...content, ...result.value }, prompt };
+}
+
+export interface PlaceTranslationLookup {
+  summary: LocalizedPlaceSummary;
+  generated: boolean; // false when it came from place_translations or needed no translation
+}
+
+type SummaryPlace = { id: string; is_public: boolean; added_by: string | null } & Partial<LocalizedPlaceSummary>;
+
+// Same rule as the places the app lists: public ones, the viewer's own, or any for an admin
+const canViewPlace = async (client: SupabaseClient, place: SummaryPlace, viewerId: string | null): Promise<boolean> => {
+  if (place.is_public) return true;
+  if (!viewerId) return false;
+  if (place.added_by === viewerId) return true;
+
+  const { data, error } = await client.rpc('is_admin', { user_id: viewerId });
+  if (error) {
+    console.error('Error checking admin status:', error);
+    return false;
+  }
+  return data === true;
+};
+
+const toSummaryContent = (place: SummaryPlace): LocalizedPlaceSummary => ({
+  ai_summary: place.ai_summary || '',
+  pros: place.pros || [],
+  cons: place.cons || [],
+  recommendations: place.recommendations || [],
+});
+
+const saveTranslation = async (
+  client: SupabaseClient,
+  placeId: string,
+  language: string,
+  translation: TranslationResult<LocalizedPlaceSummary>
+) => {
+  const { error } = await client.from('place_translations').upsert({
+    place_id: placeId,
+    language,
+    ...translation.value,
+    prompt_version: translation.prompt?.versionId ?? null,
+  }, { onConflict: 'place_id,language' });
+  if (error) {
+    console.error('Error caching place translation:', error);
+  }
+};
+
+// The place's current summary in `language`, translated and cached on the first request.
+// Returns null when the place does not exist or the viewer cannot see it.
+export async function getPlaceTranslation(
+  client: SupabaseClient,
+  provider: VisionProvider,
+  placeId: string,
+  language: string,
+  viewerId: string | null
+): Promise<PlaceTranslationLookup | null> {
+  const target = resolveOutputLanguage(language);
+
+  const { data: place, error: placeError } = await client
+    .from('places')
+    .select('id, is_public, added_by, ai_summary, pros, cons, recommendations')
+    .eq('id', placeId)
+    .maybeSingle<SummaryPlace>();
+  if (placeError) throw new Error(`Failed to load place: ${placeError.message}`);
+  if (!place || !(await canViewPlace(client, place, viewerId))) return null;
+  if (target === CANONICAL_LANGUAGE) return { summary: toSummaryContent(place), generated: false };
+
+  const { data: cached, error: cacheError } = await client
+    .from('place_translations')
+    .select('*')
+    .eq('place_id', placeId)
+    .eq('language', target)
+    .maybeSingle<PlaceTranslation>();
+  if (cacheError) {
+    console.error('Error reading cached place translation:', cacheError);
+  }
+  if (cached) {
+    const { ai_summary, pros, cons, recommendations } = cached;
+    return { summary: { ai_summary, pros, cons, recommendations }, generated: false };
+  }
+
+  const translation = await translateContent(provider, toSummaryContent(place), target, placeId);
+  await saveTranslation(client, placeId, target, translation);
+  return { summary: translation.value, generated: translation.prompt !== null };
+}
+
+// Languages the place has cached translations in, i.e. the languages it is being read in
+export async function getTranslatedLanguages(client: SupabaseClient, placeId: string): Promise<string[]> {
+  const { data, error } = await client
+    .from('place_translations')
+    .select('language')
+    .eq('place_id', placeId);
+  if (error) {
+    console.error('Error loading place translation languages:', error);
+    return [];
+  }
+  return (data || []).map((row: { language: string }) => row.language);
+}
+
+// Re-translate a new summary into the languages its old one was read in, so those readers
+// do not wait for a translation. Failures are logged; the next reader translates on demand.
+export async function refreshPlaceTranslations(
+  client: SupabaseClient,
+  provider: VisionProvider,
+  placeId: string,
+  summary: LocalizedPlaceSummary,
+  languages: string[]
+): Promise<void> {
+  for (const language of languages) {
+    try {
+      const translation = await translateContent(provider, summary, language, placeId);
+      await saveTranslation(client, placeId, language, translation);
+    } catch (error) {
+      console.warn(`⚠️ Could not refresh the ${language} translation of ${placeId}:`, error);
+    }
+  }
+}
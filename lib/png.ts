@@ -0,0 +1,215 @@
+// Minimal PNG codec for pixel work done in JS (fingerprints, privacy redaction)
+// Decodes 8-bit, non-interlaced images; encodes RGBA with stored (uncompressed) deflate
+// blocks, since encoded images are handed straight back to expo-image-manipulator.
+
+export type Inflate = (data: Uint8Array) => Uint8Array;
+
+export interface PngPixels {
+  width: number;
+  height: number;
+  channels: number; // 1 gray, 2 gray + alpha, 3 RGB, 4 RGBA
+  data: Uint8Array; // Row-major, channels bytes per pixel
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+const COLOR_TYPE_BY_CHANNELS: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+const MAX_STORED_BLOCK = 65535;
+
+// Redaction works on 2048px-wide photos; anything past this is refused before inflating
+export const MAX_PNG_PIXELS = 4096 * 4096;
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number): void => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+export const decodePngPixels = (bytes: Uint8Array, inflate: Inflate): PngPixels => {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const dataChunks: Uint8Array[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset < bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      const bitDepth = data[8];
+      const colorType = data[9];
+      const interlace = data[12];
+      channels = CHANNELS_BY_COLOR_TYPE[colorType] || 0;
+      if (bitDepth !== 8 || !channels || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType})`);
+      }
+      if (width * height > MAX_PNG_PIXELS) {
+        throw new Error(`PNG image too large (${width}x${height})`);
+      }
+    } else if (type === 'IDAT') {
+      dataChunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += length + 12; // length + type + data + CRC
+  }
+
+  if (!width || !height || dataChunks.length === 0) {
+    throw new Error('PNG image has no pixel data');
+  }
+
+  const compressed = new Uint8Array(dataChunks.reduce((total, chunk) => total + chunk.length, 0));
+  dataChunks.reduce((position, chunk) => {
+    compressed.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+  const raw = inflate(compressed);
+
+  // Undo per-scanline filters
+  const stride = width * channels;
+  const unfiltered = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const value = raw[source + x];
+      const left = x >= channels ? unfiltered[row + x - channels] : 0;
+      const up = y > 0 ? unfiltered[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? unfiltered[row - stride + x - channels] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+      }
+      unfiltered[row + x] = (value + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, channels, data: unfiltered };
+};
+
+const buildChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  writeUint32(chunk, data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+// zlib stream of stored blocks: no compression, but no encoder to ship either
+const storeZlib = (raw: Uint8Array): Uint8Array => {
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK));
+  const output = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  output[0] = 0x78;
+  output[1] = 0x01;
+
+  let position = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, raw.length - start);
+    output[position++] = block === blockCount - 1 ? 1 : 0;
+    output[position++] = length & 0xff;
+    output[position++] = length >>> 8;
+    output[position++] = ~length & 0xff;
+    output[position++] = (~length >>> 8) & 0xff;
+    output.set(raw.subarray(start, start + length), position);
+    position += length;
+  }
+  writeUint32(output, position, adler32(raw));
+  return output;
+};
+
+export const encodePng = ({ width, height, channels, data }: PngPixels): Uint8Array => {
+  const colorType = COLOR_TYPE_BY_CHANNELS[channels];
+  if (colorType === undefined || data.length !== width * height * channels) {
+    throw new Error('Invalid pixel data for PNG encoding');
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // Bit depth
+  header[9] = colorType;
+
+  // Every scanline uses filter 0 (none)
+  const stride = width * channels;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    buildChunk('IHDR', header),
+    buildChunk('IDAT', storeZlib(raw)),
+    buildChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((position, chunk) => {
+    png.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+  return png;
+};
@@ -0,0 +1,232 @@
+// Privacy redaction for photos before they leave the device
+// Regions marked by the user (or a pluggable on-device detector) are pixelated into a new
+// image, and uploads carry only the EXIF fields listed in KeptExif. The original photo is
+// never uploaded: callers upload the uri returned by redactImage.
+import * as FileSystem from 'expo-file-system';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { decode, encode } from 'base64-arraybuffer';
+import { decodePngPixels, encodePng, PngPixels } from './png';
+import { inflateZlib } from './inflate';
+
+export type RedactionKind = 'face' | 'license_plate' | 'other';
+
+export interface RedactionRegion {
+  x: number; // Fractions of the image size, like sign text bounding boxes
+  y: number;
+  width: number;
+  height: number;
+  kind: RedactionKind;
+  source: 'user' | 'detector';
+}
+
+// Detectors must run on device: sending the original somewhere to find what to blur
+// would defeat the point. None ships with the app; a native one can be registered at startup.
+export interface RedactionDetector {
+  name: string;
+  detect(imageUri: string): Promise<Omit<RedactionRegion, 'source'>[]>;
+}
+
+// EXIF fields that survive upload; GPS, device make/model, serials and thumbnails never do
+export interface KeptExif {
+  dateTimeOriginal?: string; // "YYYY:MM:DD HH:MM:SS"
+}
+
+// Matches the full-size upload, so redaction is the only re-encode before it
+export const REDACTED_IMAGE_WIDTH = 2048;
+
+// Mosaic cells rather than a light blur: averaged cells cannot be sharpened back into a face
+const MOSAIC_CELLS_ACROSS = 6;
+const MIN_MOSAIC_CELL = 12;
+
+const EXIF_DATE_PATTERN = /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/;
+
+let activeDetector: RedactionDetector | null = null;
+
+export const setRedactionDetector = (detector: RedactionDetector | null): void => {
+  activeDetector = detector;
+};
+
+export const getRedactionDetector = (): RedactionDetector | null => activeDetector;
+
+// Suggested regions from the registered detector; a failing detector suggests nothing
+export const detectRedactionRegions = async (imageUri: string): Promise<RedactionRegion[]> => {
+  if (!activeDetector) return [];
+  try {
+    const regions = await activeDetector.detect(imageUri);
+    return regions.map(region => ({ ...clampRegion(region), source: 'detector' as const }));
+  } catch (error) {
+    console.warn(`⚠️ Redaction detector "${activeDetector.name}" failed:`, error);
+    return [];
+  }
+};
+
+export const clampRegion = <T extends Pick<RedactionRegion, 'x' | 'y' | 'width' | 'height'>>(region: T): T => {
+  const x = Math.min(1, Math.max(0, region.x));
+  const y = Math.min(1, Math.max(0, region.y));
+  return {
+    ...region,
+    x,
+    y,
+    width: Math.min(1 - x, Math.max(0, region.width)),
+    height: Math.min(1 - y, Math.max(0, region.height)),
+  };
+};
+
+// Replace each region with cells of its average colour, in place
+export const pixelateRegions = (image: PngPixels, regions: RedactionRegion[]): void => {
+  const { width, height, channels, data } = image;
+
+  for (const region of regions.map(clampRegion)) {
+    const left = Math.floor(region.x * width);
+    const top = Math.floor(region.y * height);
+    const right = Math.min(width, Math.ceil((region.x + region.width) * width));
+    const bottom = Math.min(height, Math.ceil((region.y + region.height) * height));
+    if (right <= left || bottom <= top) continue;
+
+    const cell = Math.max(MIN_MOSAIC_CELL, Math.round(Math.min(right - left, bottom - top) / MOSAIC_CELLS_ACROSS));
+    for (let cellTop = top; cellTop < bottom; cellTop += cell) {
+      for (let cellLeft = left; cellLeft < right; cellLeft += cell) {
+        const cellRight = Math.min(right, cellLeft + cell);
+        const cellBottom = Math.min(bottom, cellTop + cell);
+        const sums = new Array(channels).fill(0);
+        for (let y = cellTop; y < cellBottom; y++) {
+          for (let x = cellLeft; x < cellRight; x++) {
+            const base = (y * width + x) * channels;
+            for (let c = 0; c < channels; c++) sums[c] += data[base + c];
+          }
+        }
+
+        const count = (cellRight - cellLeft) * (cellBottom - cellTop);
+        const average = sums.map(sum => Math.round(sum / count));
+        for (let y = cellTop; y < cellBottom; y++) {
+          for (let x = cellLeft; x < cellRight; x++) {
+            data.set(average, (y * width + x) * channels);
+          }
+        }
+      }
+    }
+  }
+};
+
+// New JPEG on device with the regions pixelated; with no regions it is only re-encoded
+export const redactImage = async (imageUri: string, regions: RedactionRegion[]): Promise<string> => {
+  const resize = [{ resize: { width: REDACTED_IMAGE_WIDTH } }];
+  if (regions.length === 0) {
+    const reencoded = await manipulateAsync(imageUri, resize, { compress: 0.9, format: SaveFormat.JPEG });
+    return reencoded.uri;
+  }
+
+  const png = await manipulateAsync(imageUri, resize, { format: SaveFormat.PNG, base64: true });
+  if (!png.base64) {
+    await FileSystem.deleteAsync(png.uri, { idempotent: true });
+    throw new Error('Image manipulator did not return the PNG data to redact');
+  }
+  const image = decodePngPixels(new Uint8Array(decode(png.base64)), inflateZlib);
+  pixelateRegions(image, regions);
+
+  const pngPath = `${FileSystem.cacheDirectory}redacted-${Date.now()}.png`;
+  await FileSystem.writeAsStringAsync(pngPath, encode(encodePng(image).buffer as ArrayBuffer), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  try {
+    const jpeg = await manipulateAsync(pngPath, [], { compress: 0.9, format: SaveFormat.JPEG });
+    console.log(`🕶️ Redacted ${regions.length} region(s) from photo`);
+    return jpeg.uri;
+  } finally {
+    await FileSystem.deleteAsync(pngPath, { idempotent: true });
+    await FileSystem.deleteAsync(png.uri, { idempotent: true });
+  }
+};
+
+// Fields to keep from the EXIF reported by expo-camera / expo-image-picker
+export const getKeptExif = (exif?: Record<string, unknown> | null): KeptExif => {
+  // iOS nests the Exif IFD under "{Exif}"; Android reports its tags at the top level
+  const exifIfd = exif?.['{Exif}'];
+  const dateTimeOriginal = exif?.DateTimeOriginal
+    ?? (exifIfd && typeof exifIfd === 'object' ? (exifIfd as Record<string, unknown>).DateTimeOriginal : undefined);
+  return typeof dateTimeOriginal === 'string' && EXIF_DATE_PATTERN.test(dateTimeOriginal)
+    ? { dateTimeOriginal }
+    : {};
+};
+
+// Big-endian TIFF with IFD0 -> Exif IFD -> DateTimeOriginal, the only tag we write
+const buildExifSegment = (kept: KeptExif): Uint8Array | null => {
+  if (!kept.dateTimeOriginal || !EXIF_DATE_PATTERN.test(kept.dateTimeOriginal)) return null;
+
+  const tiff = new Uint8Array(64);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x4d, 0x4d, 0x00, 0x2a]); // "MM", 42
+  view.setUint32(4, 8); // IFD0 offset
+
+  view.setUint16(8, 1); // IFD0 entries
+  view.setUint16(10, 0x8769); // ExifIFDPointer
+  view.setUint16(12, 4); // LONG
+  view.setUint32(14, 1);
+  view.setUint32(18, 26); // Exif IFD offset
+  view.setUint32(22, 0); // No next IFD
+
+  view.setUint16(26, 1); // Exif IFD entries
+  view.setUint16(28, 0x9003); // DateTimeOriginal
+  view.setUint16(30, 2); // ASCII
+  view.setUint32(32, 20);
+  view.setUint32(36, 44); // Value offset
+  view.setUint32(40, 0);
+  for (let i = 0; i < 19; i++) tiff[44 + i] = kept.dateTimeOriginal.charCodeAt(i);
+
+  const segment = new Uint8Array(4 + 6 + tiff.length);
+  segment[0] = 0xff;
+  segment[1] = 0xe1; // APP1
+  segment[2] = ((segment.length - 2) >>> 8) & 0xff;
+  segment[3] = (segment.length - 2) & 0xff;
+  segment.set([0x45, 0x78, 0x69, 0x66, 0x00, 0x00], 4); // "Exif\0\0"
+  segment.set(tiff, 10);
+  return segment;
+};
+
+// Drop every metadata segment (EXIF, XMP, IPTC, ICC, comments) from a JPEG, keeping
+// JFIF and Adobe colour markers, then write back only the kept EXIF fields
+export const stripJpegMetadata = (jpeg: Uint8Array, kept: KeptExif = {}): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  const parts: Uint8Array[] = [jpeg.subarray(0, 2)];
+  let exifWritten = false;
+  const writeExif = () => {
+    if (exifWritten) return;
+    exifWritten = true;
+    const exif = buildExifSegment(kept);
+    if (exif) parts.push(exif);
+  };
+
+  let offset = 2;
+  while (offset < jpeg.length) {
+    if (jpeg[offset] !== 0xff) throw new Error('Corrupt JPEG segment');
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda) {
+      // Start of scan: entropy-coded data runs to the end of the file
+      writeExif();
+      parts.push(jpeg.subarray(offset));
+      break;
+    }
+
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const segment = jpeg.subarray(offset, offset + 2 + length);
+    const isApp0 = marker === 0xe0;
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef && marker !== 0xee) || marker === 0xfe;
+    if (isApp0) {
+      parts.push(segment);
+    } else if (!isMetadata) {
+      writeExif();
+      parts.push(segment);
+    }
+    offset += 2 + length;
+  }
+
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((position, part) => {
+    output.set(part, position);
+    return position + part.length;
+  }, 0);
+  return output;
+};
@@ -0,0 +1,90 @@
+// Prompt experiments for the /api/openai route
+// Users are bucketed into a prompt variant by a stable hash of their id, so a user sees
+// the same variant on every request. An experiment only runs while its id is listed in
+// PROMPT_EXPERIMENTS (server env); everyone else gets the current prompt version.
+import type { VisionTask } from './vision-providers';
+import { CURRENT_PROMPT_VERSIONS, getPromptVersionId } from './prompt-templates';
+
+export interface PromptVariant {
+  version: number;
+  weight: number; // Relative share of users
+}
+
+export interface PromptExperiment {
+  id: string;
+  task: VisionTask;
+  description: string;
+  variants: PromptVariant[];
+}
+
+// The prompt a request was answered with; returned to the client so outcomes can be tied to it
+export interface PromptAssignment {
+  task: VisionTask;
+  version: number;
+  versionId: string; // e.g. "analyze-storefront@v2"
+  experimentId?: string;
+}
+
+export const PROMPT_EXPERIMENTS: PromptExperiment[] = [
+  {
+    id: 'storefront-sign-first',
+    task: 'analyze-storefront',
+    description: 'Reading the sign before visual cues vs. the current visual-first prompt',
+    variants: [
+      { version: 1, weight: 50 },
+      { version: 2, weight: 50 },
+    ],
+  },
+];
+
+const BUCKET_COUNT = 100;
+
+// FNV-1a hash of experiment and user, so buckets are independent across experiments
+export const getExperimentBucket = (experimentId: string, userId: string): number => {
+  let hash = 0x811c9dc5;
+  const key = `${experimentId}:${userId}`;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % BUCKET_COUNT;
+};
+
+export const getActiveExperiments = (env: Record<string, string | undefined> = process.env): PromptExperiment[] => {
+  const ids = (env.PROMPT_EXPERIMENTS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  return PROMPT_EXPERIMENTS.filter(experiment => ids.includes(experiment.id));
+};
+
+const toAssignment = (task: VisionTask, version: number, experimentId?: string): PromptAssignment => ({
+  task,
+  version,
+  versionId: getPromptVersionId(task, version),
+  experimentId,
+});
+
+// Requests without a signed-in user (local development) always get the current version
+export const assignPromptVersion = (
+  task: VisionTask,
+  userId: string | null,
+  experiments: PromptExperiment[] = getActiveExperiments()
+): PromptAssignment => {
+  const experiment = userId ? experiments.find(candidate => candidate.task === task) : undefined;
+  const totalWeight = experiment?.variants.reduce((sum, variant) => sum + variant.weight, 0) || 0;
+  if (!experiment || !userId || totalWeight <= 0) {
+    return toAssignment(task, CURRENT_PROMPT_VERSIONS[task]);
+  }
+
+  const bucket = getExperimentBucket(experiment.id, userId);
+  let upperBound = 0;
+  for (const variant of experiment.variants) {
+    upperBound += (variant.weight / totalWeight) * BUCKET_COUNT;
+    if (bucket < upperBound) {
+      return toAssignment(task, variant.version, experiment.id);
+    }
+  }
+  const last = experiment.variants[experiment.variants.length - 1];
+  return toAssignment(task, last.version, experiment.id);
+};
@@ -0,0 +1,333 @@
+// Versioned prompt templates for the /api/openai route
+// Every version that has been served stays here, so outcomes recorded against a version
+// can still be read after the prompt changes. Published versions are never edited: add a
+// new version, try it in a prompt experiment, then make it current.
+import type { VisionTask } from './vision-providers';
+
+export interface PromptTemplate {
+  task: VisionTask;
+  version: number;
+  description: string;
+  template: string; // {{name}} placeholders are filled in by renderPrompt
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    task: 'analyze-storefront',
+    version: 1,
+    description: 'Visual features first, sign text second',
+    template: `Analyze this storefront image comprehensively to identify the business, focusing on VISUAL FEATURES even when text is not visible. Examine:
+
+VISUAL ANALYSIS (Primary - for when no text is visible):
+1) Architectural features: storefront design, awnings, color schemes, window layouts, door styles
+2) Interior elements visible: furniture type (massage chairs, dining tables, salon chairs, gym equipment, retail displays)
+3) Equipment and fixtures: professional tools, machines, displays, lighting fixtures
+4) Layout patterns: seating arrangements, workspace organization, customer flow areas
+5) Contextual clues: outdoor seating, parking setup, building style, surrounding environment
+6) Visual symbols and logos: non-text branding, color patterns, design elements
+
+BUSINESS TYPE INDICATORS:
+- Spa/Massage: massage tables, relaxation chairs, soft lighting, wellness decor, plants, tranquil colors
+- Hair/Beauty Salon: salon chairs, mirrors, hair washing stations, beauty products displays, bright lighting
+- Restaurant/Cafe: dining tables, kitchen equipment, food displays, menu boards, beverage machines
+- Gym/Fitness: exercise equipment, mirrors, weights, mats, athletic flooring
+- Retail/Store: product displays, shelving, checkout counters, shopping baskets, price tags
+- Medical: clinical equipment, white/sterile environment, examination areas, medical signage
+
+TEXT ANALYSIS (Secondary):
+7) Business name from signs, windows, doors, overlays
+8) Address or location text visible
+9) Vietnamese text or international signage
+10) Service descriptions or menu items
+
+SCORING CONFIDENCE:
+Rate your confidence (0-100) for:
+- Business type identification
+- Visual feature matching
+- Name recognition (if any)
+- Location context
+
+Return ONLY a valid JSON object with fields: 
+{
+  "businessType": "specific category",
+  "businessName": "name if visible or 'Unknown' if not",
+  "description": "detailed visual description",
+  "features": ["array of visual features observed"],
+  "visualIndicators": ["specific visual clues for business type"],
+  "confidence": {
+    "businessType": 0-100,
+    "visualFeatures": 0-100,
+    "nameRecognition": 0-100
+  },
+  "locationText": "address if visible",
+  "architecturalStyle": "building/storefront design characteristics"
+}
+
+Do not include markdown formatting or code blocks.`,
+  },
+  {
+    task: 'analyze-storefront',
+    version: 2,
+    description: 'Reads the sign first and uses visual features to confirm it',
+    template: `Identify the business in this storefront image. READ THE SIGNAGE FIRST, then use visual features to confirm it, or to infer the business type when no text is legible. Examine:
+
+TEXT ANALYSIS (Primary):
+1) Business name from signs, awnings, windows, doors, in any language or script, transcribed exactly as written
+2) When several names are visible, prefer the main sign above the entrance over brands of products sold inside
+3) Service descriptions, menu items or product words that reveal the business type
+4) Address or location text visible
+
+VISUAL ANALYSIS (Secondary - to confirm the text, or when no text is legible):
+5) Architectural features: storefront design, awnings, color schemes, window layouts, door styles
+6) Interior elements visible: furniture type (massage chairs, dining tables, salon chairs, gym equipment, retail displays)
+7) Equipment and fixtures: professional tools, machines, displays, lighting fixtures
+8) Contextual clues: outdoor seating, parking setup, building style, surrounding environment
+
+BUSINESS TYPE INDICATORS:
+- Spa/Massage: massage tables, relaxation chairs, soft lighting, wellness decor, plants, tranquil colors
+- Hair/Beauty Salon: salon chairs, mirrors, hair washing stations, beauty products displays, bright lighting
+- Restaurant/Cafe: dining tables, kitchen equipment, food displays, menu boards, beverage machines
+- Gym/Fitness: exercise equipment, mirrors, weights, mats, athletic flooring
+- Retail/Store: product displays, shelving, checkout counters, shopping baskets, price tags
+- Medical: clinical equipment, white/sterile environment, examination areas, medical signage
+
+SCORING CONFIDENCE:
+Rate your confidence (0-100) for:
+- Business type identification
+- Visual feature matching
+- Name recognition (0 when no name is legible; never guess a name from the business type)
+- Location context
+
+Return ONLY a valid JSON object with fields: 
+{
+  "businessType": "specific category",
+  "businessName": "name if visible or 'Unknown' if not",
+  "description": "detailed visual description",
+  "features": ["array of visual features observed"],
+  "visualIndicators": ["specific visual clues for business type"],
+  "confidence": {
+    "businessType": 0-100,
+    "visualFeatures": 0-100,
+    "nameRecognition": 0-100
+  },
+  "locationText": "address if visible",
+  "architecturalStyle": "building/storefront design characteristics"
+}
+
+Do not include markdown formatting or code blocks.`,
+  },
+  {
+    task: 'quick-analysis',
+    version: 1,
+    description: 'Business type from obvious visual cues',
+    template: `QUICK BUSINESS TYPE IDENTIFICATION - Respond in under 2 seconds.
+
+Look at this image and identify the business type based on OBVIOUS visual cues only:
+
+BUSINESS TYPES TO IDENTIFY:
+- Restaurant (dining tables, food displays, kitchen visible)
+- Cafe/Coffee Shop (coffee machines, pastry displays, casual seating)
+- Spa/Massage (massage tables, relaxation chairs, wellness decor)
+- Beauty/Hair Salon (salon chairs, mirrors, hair equipment)
+- Gym/Fitness (exercise equipment, weights, mirrors)
+- Retail/Store (product displays, shelving, checkout counters)
+- Bar/Nightclub (bar counter, alcohol displays, dim lighting)
+- Medical/Clinic (clinical equipment, white/sterile environment)
+- Hotel/Lodging (reception desk, hotel furniture, lobby)
+- Other (if none of the above clearly match)
+
+CONFIDENCE SCORING:
+- 90-100: Extremely obvious (multiple clear indicators)
+- 70-89: Very clear (several good indicators)
+- 50-69: Moderately clear (some indicators)
+- 30-49: Somewhat unclear (few indicators)
+- 0-29: Very unclear (no clear indicators)
+
+Return ONLY a JSON object:
+{
+  "businessType": "specific type from list above",
+  "confidence": 0-100,
+  "visualCues": ["list", "of", "obvious", "visual", "elements", "seen"]
+}
+
+NO markdown, no explanation, just the JSON.`,
+  },
+  {
+    task: 'extract-sign-text',
+    version: 1,
+    description: 'Sign text blocks plus the business name in original, Latin and English forms',
+    template: `SIGNAGE TEXT EXTRACTION (OCR) - transcribe the text on the signs in this storefront image.
+
+Signs may be in any language and script (Vietnamese, Thai, Chinese, Japanese, Korean, Khmer, Lao, Burmese, Latin, etc.). Often a sign mixes a local-script name with English words.
+
+For EVERY distinct block of text on signs, awnings, windows or doors:
+1) "text": transcribe exactly as written, keeping the original script and diacritics (e.g. "Phở Hòa", "鼎泰豐", "ร้านกาแฟ")
+2) "language": BCP 47 code of the text (e.g. "vi", "th", "zh-Hant", "ja", "ko", "en")
+3) "boundingBox": position normalized to the image size, 0-1 from the top-left: {"x", "y", "width", "height"}
+4) "confidence": 0-100 for how legible the text is
+5) "isBusinessName": true for the block(s) that name the business, false for slogans, services, phone numbers, prices, opening hours
+
+Then identify the business name:
+- "original": the name as written on the sign, in its original script
+- "language": BCP 47 code of the name
+- "transliterated": the name romanized into Latin script as it would appear on Google Maps (Hanyu Pinyin for Mandarin, Hepburn for Japanese, Revised Romanization for Korean, RTGS for Thai). For Latin-script names repeat the original, keeping diacritics
+- "translated": English meaning of the name, only when it is descriptive rather than a proper noun (omit otherwise)
+- "confidence": 0-100
+
+Return ONLY a JSON object:
+{
+  "primaryLanguage": "BCP 47 code of the main sign language",
+  "blocks": [
+    { "text": "...", "language": "...", "boundingBox": { "x": 0.1, "y": 0.05, "width": 0.5, "height": 0.1 }, "confidence": 0-100, "isBusinessName": true }
+  ],
+  "businessName": { "original": "...", "language": "...", "transliterated": "...", "translated": "...", "confidence": 0-100 }
+}
+
+If no text is legible return "blocks": [] and "businessName": null. Never invent text that is not visible.
+Do not include markdown formatting or code blocks.`,
+  },
+  {
+    task: 'extract-menu',
+    version: 1,
+    description: 'Menu sections, items and prices',
+    template: `MENU / PRICE BOARD EXTRACTION - read every item and price on this menu, price board or price list.
+
+1) Group items into the sections shown (e.g. "Noodles", "Drinks"). Use "Menu" if there are no headings
+2) For each item give:
+   - "name": as written, keeping the original language and diacritics (e.g. "Phở bò tái")
+   - "description": English translation or the printed description, if any (omit otherwise)
+   - "price": numeric price in the menu currency's major unit. Expand shorthand: "65k" or "65" on a Vietnamese board priced in thousands = 65000. Use the smallest size when several sizes are listed. null if no price is readable
+   - "priceText": the price exactly as printed
+3) "currency": ISO 4217 code inferred from symbols, language and context (e.g. "VND", "THB", "JPY", "USD")
+4) "language": BCP 47 code of the menu language
+
+Return ONLY a JSON object:
+{
+  "currency": "VND",
+  "language": "vi",
+  "sections": [
+    { "name": "section heading", "items": [ { "name": "...", "description": "...", "price": 65000, "priceText": "65k" } ] }
+  ]
+}
+
+If no menu is visible return "sections": []. Never invent items or prices that are not visible.
+Do not include markdown formatting or code blocks.`,
+  },
+  {
+    task: 'extract-hours',
+    version: 1,
+    description: 'Per-day opening hours from an hours sign',
+    template: `OPENING HOURS SIGN EXTRACTION - read the opening hours posted on this door sign, window sticker or board.
+
+1) Give one entry per weekday the sign covers. Expand ranges: "Mon-Fri" = monday, tuesday, wednesday, thursday, friday
+2) For each day:
+   - "day": lowercase English weekday ("monday" ... "sunday")
+   - "closed": true if the sign says the shop is closed that day (e.g. "Closed", "Nghỉ", "定休日", "ปิด"), otherwise false
+   - "shifts": every opening period that day in 24-hour "HH:mm". Split shifts (lunch and dinner) are separate entries. A shift past midnight closes the next morning, e.g. {"open": "18:00", "close": "02:00"}. Open 24 hours = {"open": "00:00", "close": "24:00"}
+3) Convert 12-hour times ("7pm" = "19:00", "12 noon" = "12:00")
+4) "notes": holiday closures or other exceptions printed on the sign, in English (omit if none)
+5) "confidence": 0-100, how legible and complete the hours are
+
+Return ONLY a JSON object:
+{
+  "days": [
+    { "day": "monday", "closed": false, "shifts": [ { "open": "11:00", "close": "14:00" }, { "open": "17:00", "close": "22:00" } ] },
+    { "day": "sunday", "closed": true, "shifts": [] }
+  ],
+  "notes": "Closed on public holidays",
+  "confidence": 85
+}
+
+Omit days the sign does not mention. If no hours are visible return "days": [] with a low confidence. Never guess hours that are not visible.
+Do not include markdown formatting or code blocks.`,
+  },
+  {
+    task: 'generate-review',
+    version: 1,
+    description: 'Summary, pros and cons from Google reviews',
+    template: `Analyze these Google reviews for {{businessName}} ({{businessType}}) and create a comprehensive summary. Based on the actual customer reviews, provide:
+
+1. summary: A brief overview of what customers think
+2. pros: Array of positive aspects mentioned by customers
+3. cons: Array of negative aspects or concerns mentioned by customers  
+4. recommendations: Array of helpful tips for future visitors
+5. overallSentiment: "positive", "neutral", or "negative"
+6. bestFor: Array of what this place is best suited for
+
+Return ONLY a valid JSON object with these fields. Do not include markdown formatting or code blocks.
+
+Reviews:
+{{reviewTexts}}`,
+  },
+  {
+    task: 'summarize-reviews',
+    version: 1,
+    description: 'Blended Google and in-app reviews, every point cited',
+    template: `Summarize what visitors say about {{businessName}} ({{businessType}}). The reviews below come from Google and from members of our own community. Each one starts with a reference in square brackets: G for Google, R for our community. Community reviews are usually more recent, so prefer them where the two disagree.
+
+Return a JSON object with:
+1. summary: 1-3 sentences on what visitors think overall
+2. summaryReviews: references of the reviews the summary is based on
+3. pros: array of { "text": positive aspect, "reviews": references of the reviews that mention it }
+4. cons: array of { "text": negative aspect or concern, "reviews": references }
+5. recommendations: array of { "text": tip for future visitors, "reviews": references }
+6. overallSentiment: "positive", "neutral", or "negative"
+
+Only use the references listed below, and only include points that at least one review supports. Do not name reviewers.
+
+Return ONLY a valid JSON object with these fields. Do not include markdown formatting or code blocks.
+
+Reviews:
+{{reviewTexts}}`,
+  },
+  {
+    task: 'translate-content',
+    version: 1,
+    description: 'English AI output translated for display, keys and list lengths kept',
+    template: `Translate the values of this JSON object from English into {{languageName}}. They describe a shop, restaurant or other place for someone reading the app in {{languageName}}.
+
+- Keep every key as it is, and keep each array in the same order with the same number of items
+- Keep business names, brand names, dish names and addresses as written
+- Use natural, concise wording rather than a word-for-word translation
+
+Return ONLY the translated JSON object. Do not include markdown formatting or code blocks.
+
+Content:
+{{content}}`,
+  },
+];
+
+// Served to everyone who is not in a running experiment for the task
+export const CURRENT_PROMPT_VERSIONS: Record<VisionTask, number> = {
+  'analyze-storefront': 1,
+  'quick-analysis': 1,
+  'extract-sign-text': 1,
+  'extract-menu': 1,
+  'extract-hours': 1,
+  'generate-review': 1,
+  'summarize-reviews': 1,
+  'translate-content': 1,
+};
+
+// Stored with outcomes and cache entries, e.g. "analyze-storefront@v2"
+export const getPromptVersionId = (task: VisionTask, version: number): string => `${task}@v${version}`;
+
+export const getPromptTemplate = (task: VisionTask, version: number = CURRENT_PROMPT_VERSIONS[task]): PromptTemplate => {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.task === task && candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version ${getPromptVersionId(task, version)}`);
+  }
+  return template;
+};
+
+export const renderPrompt = (
+  task: VisionTask,
+  version: number,
+  variables: Record<string, string> = {}
+): string =>
+  getPromptTemplate(task, version).template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing "${name}" for prompt ${getPromptVersionId(task, version)}`);
+    }
+    return variables[name];
+  });
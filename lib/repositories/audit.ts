@@ -0,0 +1,48 @@
+// Audit log repository: the change history of a place and admin reverts
+import type { Database } from '@/types/database';
+import type { AuditAction, AuditEntry, AuditRecord, AuditSource, AuditTable } from '@/types/audit';
+import { DatabaseClient, RepositoryResult, fail, ok } from './result';
+
+// Entries per page of a place's history
+export const PLACE_HISTORY_PAGE_SIZE = 50;
+
+type AuditLogRecord = Database['public']['Functions']['get_place_history']['Returns'][number];
+
+const toAuditEntry = (entry: AuditLogRecord): AuditEntry => ({
+  ...entry,
+  // CHECK constraints on audit_log
+  table_name: entry.table_name as AuditTable,
+  action: entry.action as AuditAction,
+  source: entry.source as AuditSource,
+  old_data: entry.old_data as AuditRecord | null,
+  new_data: entry.new_data as AuditRecord | null,
+  actor_name: entry.actor_name ?? null,
+});
+
+// Changes to a place and its reviews and photos, newest first; `before` pages back from the
+// created_at of the oldest entry already loaded. Goes through get_place_history so private
+// places and the text of deleted reviews stay hidden from other users.
+export const getPlaceHistory = async (
+  client: DatabaseClient,
+  placeId: string,
+  before?: string
+): Promise<RepositoryResult<AuditEntry[]>> => {
+  const { data, error } = await client
+    .rpc('get_place_history', {
+      target_place_id: placeId,
+      before_created_at: before,
+      max_entries: PLACE_HISTORY_PAGE_SIZE,
+    });
+
+  if (error) return fail('fetching place history', error);
+  return ok(data.map(toAuditEntry));
+};
+
+// Undo a single change (admin only); the revert shows up as a new entry with source 'revert'
+export const revertAuditEntry = async (client: DatabaseClient, entryId: string): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .rpc('revert_audit_entry', { entry_id: entryId });
+
+  if (error) return fail('reverting audit entry', error);
+  return ok(null);
+};
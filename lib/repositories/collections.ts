@@ -0,0 +1,297 @@
+// Collections repository: collections, their places, and sharing with friends
+import type { TablesInsert, TablesUpdate } from '@/types/database';
+import type { ColumnDefaults } from '@/types/rows';
+import type {
+  Collection,
+  CollectionDefaultedColumn,
+  CollectionPlace,
+  CollectionRow,
+  Place,
+  SharedCollection,
+  SharePermission,
+} from '@/types/place';
+import type { SocialProfile } from '@/types/social';
+import { PlaceRecord, toPlace } from './places';
+import { toSocialProfile } from './social';
+import { DatabaseClient, RepositoryResult, fail, ok, withDefaults } from './result';
+
+const COLLECTION_DEFAULTS: ColumnDefaults<CollectionRow, CollectionDefaultedColumn> = {
+  color: '#007AFF',
+  is_public: false,
+  is_shareable: false,
+  shared_count: 0,
+  created_at: '',
+  updated_at: '',
+};
+
+// A collections row, or one from the collection RPCs (which return a subset of the columns)
+type CollectionRecord = Pick<CollectionRow, 'id' | 'name'> & Partial<CollectionRow> &
+  Pick<Collection, 'place_count' | 'owner_name'>;
+
+const toCollection = (record: CollectionRecord): Collection => ({
+  user_id: null,
+  description: null,
+  cover_image: null,
+  share_code: null,
+  ...withDefaults(record, COLLECTION_DEFAULTS),
+});
+
+export type NewCollection = TablesInsert<'collections'>;
+
+// A user's collections with their places, newest first
+export const getUserCollections = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<Collection[]>> => {
+  const { data, error } = await client
+    .from('collections')
+    .select(`
+      *,
+      places:collection_places(
+        place:places(*)
+      )
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching collections', error);
+  return ok(data.map(({ places, ...collection }) => ({
+    ...toCollection(collection),
+    places: places.flatMap(({ place }) => (place ? [toPlace(place)] : [])),
+  })));
+};
+
+// A user's collections with place counts (get_collections_with_count RPC)
+export const getUserCollectionsWithCount = async (
+  client: DatabaseClient,
+  userId: string
+): Promise<RepositoryResult<Collection[]>> => {
+  const { data, error } = await client
+    .rpc('get_collections_with_count', { user_id_param: userId });
+
+  if (error) return fail('fetching user collections', error);
+  return ok(data.map(toCollection));
+};
+
+export const getUserCollectionsCount = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<number>> => {
+  const { count, error } = await client
+    .from('collections')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) return fail('fetching user collections count', error);
+  return ok(count || 0);
+};
+
+export const getPublicCollections = async (client: DatabaseClient): Promise<RepositoryResult<Collection[]>> => {
+  const { data, error } = await client
+    .rpc('get_public_collections');
+
+  if (error) return fail('fetching public collections', error);
+  return ok(data.map(toCollection));
+};
+
+// A collection with its place count
+export const getUserCollectionById = async (client: DatabaseClient, collectionId: string): Promise<RepositoryResult<Collection>> => {
+  const { data, error } = await client
+    .from('collections')
+    .select('*')
+    .eq('id', collectionId)
+    .single();
+
+  if (error) return fail('fetching collection by ID', error);
+
+  const { count } = await client
+    .from('collection_places')
+    .select('*', { count: 'exact', head: true })
+    .eq('collection_id', collectionId);
+
+  return ok({ ...toCollection(data), place_count: count || 0 });
+};
+
+export const createCollection = async (client: DatabaseClient, collection: NewCollection): Promise<RepositoryResult<Collection>> => {
+  const { data, error } = await client
+    .from('collections')
+    .insert(collection)
+    .select()
+    .single();
+
+  if (error) return fail('creating collection', error);
+  return ok(toCollection(data));
+};
+
+export const updateCollection = async (
+  client: DatabaseClient,
+  collectionId: string,
+  updates: TablesUpdate<'collections'>
+): Promise<RepositoryResult<Collection>> => {
+  const { data, error } = await client
+    .from('collections')
+    .update(updates)
+    .eq('id', collectionId)
+    .select()
+    .single();
+
+  if (error) return fail('updating collection', error);
+  return ok(toCollection(data));
+};
+
+export const deleteCollection = async (client: DatabaseClient, collectionId: string): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .from('collections')
+    .delete()
+    .eq('id', collectionId);
+
+  if (error) return fail('deleting collection', error);
+  return ok(null);
+};
+
+// The places in a collection (get_collection_places RPC)
+export const getCollectionPlaces = async (client: DatabaseClient, collectionId: string): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .rpc('get_collection_places', { collection_id_param: collectionId });
+
+  if (error) return fail('fetching collection places', error);
+  return ok(data.map((place: PlaceRecord) => toPlace(place)));
+};
+
+export const addPlaceToCollection = async (
+  client: DatabaseClient,
+  collectionId: string,
+  placeId: string
+): Promise<RepositoryResult<CollectionPlace>> => {
+  const { data, error } = await client
+    .from('collection_places')
+    .insert({
+      collection_id: collectionId,
+      place_id: placeId,
+    })
+    .select()
+    .single();
+
+  if (error) return fail('adding place to collection', error);
+  return ok(data);
+};
+
+// ================================
+// COLLECTION SHARING (Phase 4)
+// ================================
+
+// Make a collection shareable; resolves to its share code
+export const enableCollectionSharing = async (client: DatabaseClient, collectionId: string): Promise<RepositoryResult<string>> => {
+  const { data, error } = await client
+    .rpc('enable_collection_sharing', { collection_uuid: collectionId });
+
+  if (error) return fail('enabling collection sharing', error);
+  return ok(data);
+};
+
+export const shareCollectionWithFriend = async (
+  client: DatabaseClient,
+  collectionId: string,
+  friendUserId: string,
+  permission: SharePermission = 'view'
+): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .rpc('share_collection_with_friend', {
+      collection_uuid: collectionId,
+      friend_user_id: friendUserId,
+      permission_level: permission
+    });
+
+  if (error) return fail('sharing collection with friend', error);
+  return ok(null);
+};
+
+// Collections other users have shared with the signed-in user
+export const getSharedCollections = async (client: DatabaseClient): Promise<RepositoryResult<SharedCollection[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .rpc('get_shared_collections', { user_uuid: user.id });
+
+  if (error) return fail('fetching shared collections', error);
+  return ok(data.map(({ owner_username, owner_avatar_url, permission, shared_at, ...collection }) => ({
+    ...toCollection(collection),
+    owner_username: owner_username ?? undefined,
+    owner_avatar_url: owner_avatar_url ?? undefined,
+    permission: permission as SharePermission, // CHECK (permission IN ('view', 'collaborate'))
+    shared_at,
+  })));
+};
+
+// Users a collection has been shared with
+export const getCollectionShareRecipients = async (
+  client: DatabaseClient,
+  collectionId: string
+): Promise<RepositoryResult<SocialProfile[]>> => {
+  const { data, error } = await client
+    .from('collection_shares')
+    .select(`
+      shared_with_user_id,
+      permission,
+      shared_at,
+      profiles!collection_shares_shared_with_user_id_fkey (
+        id,
+        full_name,
+        username,
+        avatar_url,
+        bio,
+        allow_social_features
+      )
+    `)
+    .eq('collection_id', collectionId);
+
+  if (error) return fail('fetching collection shares', error);
+  return ok(data.flatMap(({ profiles: profile }) => (profile ? [toSocialProfile(profile)] : [])));
+};
+
+export const removeCollectionShare = async (
+  client: DatabaseClient,
+  collectionId: string,
+  userId: string
+): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .from('collection_shares')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('shared_with_user_id', userId);
+
+  if (error) return fail('removing collection share', error);
+
+  // Decrement shared count (two-step to avoid unsupported SQL tag)
+  const { data: collection, error: fetchError } = await client
+    .from('collections')
+    .select('shared_count')
+    .eq('id', collectionId)
+    .single();
+
+  if (!fetchError) {
+    await client
+      .from('collections')
+      .update({ shared_count: Math.max(0, (collection.shared_count ?? 0) - 1) })
+      .eq('id', collectionId);
+  }
+
+  return ok(null);
+};
+
+// A shareable collection by its share code, with the owner's name
+export const findCollectionByShareCode = async (client: DatabaseClient, shareCode: string): Promise<RepositoryResult<Collection>> => {
+  const { data, error } = await client
+    .from('collections')
+    .select(`
+      *,
+      profiles!collections_user_id_fkey (
+        full_name,
+        username,
+        avatar_url
+      )
+    `)
+    .eq('share_code', shareCode.toUpperCase())
+    .eq('is_shareable', true)
+    .single();
+
+  if (error) return fail('finding collection by share code', error);
+
+  const { profiles: owner, ...collection } = data;
+  return ok({ ...toCollection(collection), owner_name: owner?.full_name });
+};
@@ -0,0 +1,172 @@
+// Hidden gems repository: city challenges, discovery and their attempt stats
+import type { ColumnDefaults } from '@/types/rows';
+import type { HiddenGem, HiddenGemDefaultedColumn, HiddenGemRow, NewHiddenGem } from '@/types/hidden-gem';
+import { DatabaseClient, RepositoryResult, fail, ok, withDefaults } from './result';
+
+const HIDDEN_GEM_DEFAULTS: ColumnDefaults<HiddenGemRow, HiddenGemDefaultedColumn> = {
+  clues: [],
+  rules: [],
+  is_active: true,
+  attempts: 0,
+  participants: 0,
+  time_left: '30 days',
+  created_at: '',
+  updated_at: '',
+};
+
+// A hidden_gems row, or one from find_nearby_hidden_gems (which has no hint thumbnail or place)
+type HiddenGemRecord = Omit<HiddenGemRow, 'hint_thumbnail_url' | 'place_id'> &
+  Partial<Pick<HiddenGemRow, 'hint_thumbnail_url' | 'place_id'>>;
+
+const toHiddenGem = (record: HiddenGemRecord): HiddenGem => ({
+  hint_thumbnail_url: null,
+  place_id: null,
+  ...withDefaults(record, HIDDEN_GEM_DEFAULTS),
+});
+
+// Active hidden gems in a city, newest first
+export const getActiveHiddenGemsByCity = async (client: DatabaseClient, city: string): Promise<RepositoryResult<HiddenGem[]>> => {
+  const { data, error } = await client
+    .from('hidden_gems')
+    .select('*')
+    .eq('city', city)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching active hidden gems', error);
+
+  return ok(data.map(toHiddenGem));
+};
+
+// Hidden gems in a city that have been found (shown as grey diamonds)
+export const getDiscoveredHiddenGemsByCity = async (client: DatabaseClient, city: string): Promise<RepositoryResult<HiddenGem[]>> => {
+  const { data, error } = await client
+    .from('hidden_gems')
+    .select('*')
+    .eq('city', city)
+    .eq('is_active', false)
+    .not('winner_id', 'is', null)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching discovered hidden gems', error);
+
+  return ok(data.map(toHiddenGem));
+};
+
+// The active hidden gem within `proximityMeters` of a location, if any
+export const checkHiddenGemDiscovery = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  proximityMeters = 50
+): Promise<RepositoryResult<HiddenGem | null>> => {
+  const { data, error } = await client
+    .rpc('find_nearby_hidden_gems', {
+      search_lat: latitude,
+      search_lng: longitude,
+      radius_meters: proximityMeters
+    });
+
+  if (error) return fail('checking hidden gem discovery', error);
+
+  if (data.length > 0) {
+    return ok(toHiddenGem(data[0]));
+  }
+  return ok(null);
+};
+
+// Mark a hidden gem as found by `winnerId`; fails when someone else found it first
+export const markHiddenGemDiscovered = async (
+  client: DatabaseClient,
+  hiddenGemId: string,
+  winnerId: string
+): Promise<RepositoryResult<HiddenGem>> => {
+  const { data, error } = await client
+    .from('hidden_gems')
+    .update({
+      is_active: false,
+      winner_id: winnerId,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', hiddenGemId)
+    .eq('is_active', true) // Only update if still active
+    .select()
+    .single();
+
+  if (error) return fail('marking hidden gem as discovered', error);
+
+  return ok(toHiddenGem(data));
+};
+
+// Create a new hidden gem (admin only)
+export const createHiddenGem = async (client: DatabaseClient, gem: NewHiddenGem): Promise<RepositoryResult<HiddenGem>> => {
+  // Columns are listed so fields the admin form keeps alongside (the matched place) are not sent
+  const { data, error } = await client
+    .from('hidden_gems')
+    .insert({
+      city: gem.city,
+      country: gem.country,
+      title: gem.title,
+      description: gem.description,
+      reward: gem.reward,
+      difficulty: gem.difficulty,
+      clues: gem.clues,
+      rules: gem.rules,
+      hint_image_url: gem.hint_image_url,
+      hint_thumbnail_url: gem.hint_thumbnail_url,
+      place_id: gem.place_id,
+      latitude: gem.latitude,
+      longitude: gem.longitude,
+      time_left: gem.time_left,
+      is_active: true,
+      attempts: 0,
+      participants: 0
+    })
+    .select()
+    .single();
+
+  if (error) return fail('creating hidden gem', error);
+
+  return ok(toHiddenGem(data));
+};
+
+export const updateHiddenGemStats = async (
+  client: DatabaseClient,
+  id: string,
+  attempts: number,
+  participants: number
+): Promise<RepositoryResult<HiddenGem>> => {
+  const { data, error } = await client
+    .from('hidden_gems')
+    .update({ attempts, participants })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) return fail('updating hidden gem stats', error);
+  return ok(toHiddenGem(data));
+};
+
+// Count an attempt and/or a new participant (increments run in SQL, so they don't race)
+export const incrementHiddenGemStats = async (
+  client: DatabaseClient,
+  hiddenGemId: string,
+  incrementAttempts = true,
+  incrementParticipants = false
+): Promise<RepositoryResult<null>> => {
+  if (incrementAttempts) {
+    const { error } = await client
+      .rpc('increment_hidden_gem_attempts', { gem_id: hiddenGemId });
+
+    if (error) return fail('incrementing attempts', error);
+  }
+
+  if (incrementParticipants) {
+    const { error } = await client
+      .rpc('increment_hidden_gem_participants', { gem_id: hiddenGemId });
+
+    if (error) return fail('incrementing participants', error);
+  }
+
+  return ok(null);
+};
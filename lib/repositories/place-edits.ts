@@ -0,0 +1,110 @@
+// Place edit suggestions repository: community-proposed changes, agreements and the admin queue
+import type { Json, Tables } from '@/types/database';
+import type {
+  PlaceEditChanges,
+  PlaceEditStatus,
+  PlaceEditSubmission,
+  PlaceEditSuggestion,
+  QueuedPlaceEdit,
+} from '@/types/place-edit';
+import { DatabaseClient, RepositoryResult, fail, ok } from './result';
+
+// Error code suggest_place_edit raises for changes it refuses (invalid_parameter_value); the
+// message explains what to fix
+export const REFUSED_PLACE_EDIT_CODE = '22023';
+
+type SuggestionRecord = Tables<'place_edit_suggestions'> & {
+  place_edit_agreements: Pick<Tables<'place_edit_agreements'>, 'user_id'>[];
+};
+
+const toSuggestion = ({ place_edit_agreements, changes, status, ...suggestion }: SuggestionRecord): PlaceEditSuggestion => ({
+  ...suggestion,
+  changes: changes as PlaceEditChanges,
+  status: status as PlaceEditStatus, // CHECK (status IN ('pending', 'applied', 'rejected'))
+  agreed_user_ids: place_edit_agreements.map(({ user_id }) => user_id),
+});
+
+// Pending suggestions for a place, oldest first, with who agrees with each
+export const getPendingPlaceEdits = async (client: DatabaseClient, placeId: string): Promise<RepositoryResult<PlaceEditSuggestion[]>> => {
+  const { data, error } = await client
+    .from('place_edit_suggestions')
+    .select('*, place_edit_agreements(user_id)')
+    .eq('place_id', placeId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) return fail('fetching pending place edits', error);
+  return ok(data.map(toSuggestion));
+};
+
+// Propose changes to a place (an identical pending suggestion gets an agreement instead)
+export const suggestPlaceEdit = async (
+  client: DatabaseClient,
+  placeId: string,
+  changes: PlaceEditChanges,
+  note?: string
+): Promise<RepositoryResult<PlaceEditSubmission>> => {
+  const { data, error } = await client
+    .rpc('suggest_place_edit', {
+      target_place_id: placeId,
+      proposed_changes: changes as Json,
+      suggestion_note: note || undefined
+    });
+
+  if (error) return fail('suggesting place edit', error);
+
+  const [submission] = data;
+  return ok({ suggestionId: submission.suggestion_id, status: submission.status as PlaceEditStatus });
+};
+
+// Agree with a pending suggestion; resolves to its status afterwards ('applied' once enough
+// trusted editors agree)
+export const agreeWithPlaceEdit = async (client: DatabaseClient, suggestionId: string): Promise<RepositoryResult<PlaceEditStatus>> => {
+  const { data, error } = await client
+    .rpc('agree_with_place_edit', { target_suggestion_id: suggestionId });
+
+  if (error) return fail('agreeing with place edit', error);
+  return ok(data as PlaceEditStatus);
+};
+
+// Suggestions in the admin queue with a given status, newest first
+export const getPlaceEditQueue = async (
+  client: DatabaseClient,
+  status: PlaceEditStatus = 'pending'
+): Promise<RepositoryResult<QueuedPlaceEdit[]>> => {
+  const { data, error } = await client
+    .from('place_edit_suggestions')
+    .select(`
+      *,
+      place_edit_agreements(user_id),
+      places(id, name, category, address, week_hours, phone, website, latitude, longitude),
+      profiles!place_edit_suggestions_user_id_fkey(full_name)
+    `)
+    .eq('status', status)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching place edit queue', error);
+  return ok(data.map(({ places: place, profiles: proposer, ...suggestion }) => ({
+    ...toSuggestion(suggestion),
+    place: place ? { ...place, week_hours: place.week_hours ?? [] } : null,
+    proposer_name: proposer?.full_name ?? null,
+  })));
+};
+
+// Apply (approve) or reject a pending suggestion (admin only)
+export const reviewPlaceEdit = async (
+  client: DatabaseClient,
+  suggestionId: string,
+  approve: boolean,
+  notes?: string
+): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .rpc('review_place_edit', {
+      target_suggestion_id: suggestionId,
+      approve,
+      notes: notes || undefined
+    });
+
+  if (error) return fail('reviewing place edit', error);
+  return ok(null);
+};
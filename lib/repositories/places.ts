@@ -0,0 +1,639 @@
+// Places repository: places, their photos, hours, menus and AI summary history
+import type { Json, Tables, TablesInsert } from '@/types/database';
+import type { ColumnDefaults } from '@/types/rows';
+import type { MergedRecordTable, Place, PlaceDefaultedColumn, PlaceMerge, PlacePhoto, PlaceRow } from '@/types/place';
+import type { MenuQuery, MenuSearchMatch, MenuSection, PlaceMenu } from '@/types/menu';
+import type { PlaceSummary, PlaceSummaryReview, SummaryReviewSource, SummaryTrigger } from '@/types/review-summary';
+import type { PlaceTranslation } from '@/types/localization';
+import type { ClientAuditSource } from '@/types/audit';
+import type { HoursException } from '@/types/hours';
+import { withAuditSource } from '@/lib/audit-log';
+import { DatabaseClient, RepositoryResult, fail, ok, withDefaults } from './result';
+
+const PLACE_DEFAULTS: ColumnDefaults<PlaceRow, PlaceDefaultedColumn> = {
+  rating: 0,
+  review_count: 0,
+  pros: [],
+  cons: [],
+  recommendations: [],
+  is_open: true,
+  hours: '',
+  week_hours: [],
+  is_public: false,
+  is_verified: false,
+  created_at: '',
+  updated_at: '',
+};
+
+// A places row from a table select, or from one of the place RPCs, which return the
+// original columns only (and, for the friend feeds, the friend counts)
+export type PlaceRecord = Pick<
+  PlaceRow,
+  'id' | 'name' | 'category' | 'address' | 'latitude' | 'longitude' | 'image_url' | 'ai_summary'
+> & Partial<PlaceRow> & Pick<Place, 'friend_visited_count' | 'friend_visitor_names'>;
+
+export const toPlace = ({ hours_exceptions, ...record }: PlaceRecord): Place => ({
+  google_place_id: null,
+  added_by: null,
+  thumbnail_url: null,
+  summary_checked_at: null,
+  phone: null,
+  website: null,
+  verification_source: null,
+  time_zone: null,
+  ...withDefaults(record, PLACE_DEFAULTS),
+  hours_exceptions: (hours_exceptions ?? []) as unknown as HoursException[], // CHECK (jsonb_typeof(hours_exceptions) = 'array')
+});
+
+const toPlaces = (records: PlaceRecord[] | null): Place[] => (records || []).map(toPlace);
+
+export type NewPlace = TablesInsert<'places'>;
+
+export const getPlaces = async (client: DatabaseClient, limit = 20, offset = 0): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) return fail('fetching places', error);
+  return ok(toPlaces(data));
+};
+
+export const searchPlaces = async (
+  client: DatabaseClient,
+  query: string,
+  category?: string
+): Promise<RepositoryResult<Place[]>> => {
+  let queryBuilder = client
+    .from('places')
+    .select('*');
+
+  if (query) {
+    queryBuilder = queryBuilder.or(`name.ilike.%${query}%,ai_summary.ilike.%${query}%`);
+  }
+
+  if (category && category !== 'All') {
+    queryBuilder = queryBuilder.eq('category', category);
+  }
+
+  const { data, error } = await queryBuilder
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) return fail('searching places', error);
+  return ok(toPlaces(data));
+};
+
+export const getPlaceById = async (client: DatabaseClient, id: string): Promise<RepositoryResult<Place>> => {
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) return fail('fetching place', error);
+  return ok(toPlace(data));
+};
+
+export const getUserAllPlaces = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .eq('added_by', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching user places', error);
+  return ok(toPlaces(data));
+};
+
+export const getUserPlacesCount = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<number>> => {
+  const { count, error } = await client
+    .from('places')
+    .select('*', { count: 'exact', head: true })
+    .eq('added_by', userId);
+
+  if (error) return fail('fetching user places count', error);
+  return ok(count || 0);
+};
+
+// Delete place (admin/owner only)
+export const deletePlace = async (
+  client: DatabaseClient,
+  placeId: string,
+  source: ClientAuditSource = 'app'
+): Promise<RepositoryResult<null>> => {
+  const { error } = await withAuditSource(
+    client
+      .from('places')
+      .delete()
+      .eq('id', placeId),
+    source
+  );
+
+  if (error) return fail('deleting place', error);
+  return ok(null);
+};
+
+export const addPlace = async (client: DatabaseClient, place: NewPlace): Promise<RepositoryResult<Place>> => {
+  const { data, error } = await client
+    .from('places')
+    .insert(place)
+    .select()
+    .single();
+
+  if (error) return fail('adding place', error);
+  return ok(toPlace(data));
+};
+
+// Distance between two coordinates in meters
+export const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng/2) * Math.sin(dLng/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+};
+
+// City from an address formatted "123 Street, City, State/Province, Country"
+export const extractCityFromAddress = (address: string): string => {
+  if (!address) return '';
+
+  const parts = address.split(',').map(part => part.trim());
+
+  if (parts.length >= 2) {
+    // The second-to-last part is usually the city
+    return parts[parts.length - 2] || parts[0];
+  }
+
+  return parts[0] || '';
+};
+
+// Whether a place is in `cityName` (by its address) or within `radiusMeters` of the coordinates
+export const isInCityOrNearby = (
+  place: Pick<Place, 'address' | 'latitude' | 'longitude'>,
+  cityName: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number
+): boolean => {
+  const placeCity = extractCityFromAddress(place.address);
+  const isSameCity = placeCity.toLowerCase().includes(cityName.toLowerCase()) ||
+                    cityName.toLowerCase().includes(placeCity.toLowerCase());
+  if (isSameCity) return true;
+
+  return calculateDistance(latitude, longitude, place.latitude, place.longitude) <= radiusMeters;
+};
+
+export interface ExistingPlaceCheck {
+  publicPlace: (Place & { distance?: number }) | null; // distance in meters, for proximity matches
+  discoveryCount: number;
+}
+
+// Check if a public place already exists (for duplicate detection and the discovery counter),
+// by Google Place ID first and then within 50m of the coordinates
+export const checkPlaceExists = async (
+  client: DatabaseClient,
+  googlePlaceId?: string,
+  latitude?: number,
+  longitude?: number
+): Promise<RepositoryResult<ExistingPlaceCheck>> => {
+  if (googlePlaceId) {
+    const { data: placesByGoogleId, error } = await client
+      .from('places')
+      .select('*')
+      .eq('is_public', true)
+      .eq('google_place_id', googlePlaceId);
+
+    if (error) return fail('checking place by Google ID', error);
+
+    if (placesByGoogleId.length > 0) {
+      return ok({
+        publicPlace: toPlace(placesByGoogleId[0]),
+        discoveryCount: placesByGoogleId.length,
+      });
+    }
+  }
+
+  if (latitude && longitude) {
+    const radiusInDegrees = 50 / 111000; // Approximate: 50m in degrees
+
+    const { data: nearbyPlaces, error } = await client
+      .from('places')
+      .select('*')
+      .eq('is_public', true)
+      .gte('latitude', latitude - radiusInDegrees)
+      .lte('latitude', latitude + radiusInDegrees)
+      .gte('longitude', longitude - radiusInDegrees)
+      .lte('longitude', longitude + radiusInDegrees);
+
+    if (error) return fail('checking place by proximity', error);
+
+    const placesWithDistance = nearbyPlaces
+      .map(place => ({ place, distance: calculateDistance(latitude, longitude, place.latitude, place.longitude) }))
+      .filter(({ distance }) => distance <= 50)
+      .sort((a, b) => a.distance - b.distance);
+
+    if (placesWithDistance.length > 0) {
+      return ok({
+        publicPlace: { ...toPlace(placesWithDistance[0].place), distance: placesWithDistance[0].distance },
+        discoveryCount: placesWithDistance.length,
+      });
+    }
+  }
+
+  return ok({ publicPlace: null, discoveryCount: 0 });
+};
+
+// Get only public places for discovery
+export const getPublicPlaces = async (client: DatabaseClient, limit = 50, offset = 0): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .eq('is_public', true)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    // Databases from before places.is_public have no public/private split
+    if (error.code === '42703') {
+      return getPlaces(client, limit, offset);
+    }
+    return fail('fetching public places', error);
+  }
+
+  return ok(toPlaces(data));
+};
+
+// Public places in `cityName` (by address) or within `radiusMeters`, same-city places first
+export const getPlacesInCityAndNearby = async (
+  client: DatabaseClient,
+  cityName: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters = 30000
+): Promise<RepositoryResult<Place[]>> => {
+  // Filtered client-side, the city comes from the free-form address
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .eq('is_public', true)
+    .order('created_at', { ascending: false })
+    .limit(500);
+
+  if (error) return fail('fetching places', error);
+
+  const city = cityName.toLowerCase();
+  const isSameCity = (place: Place) => extractCityFromAddress(place.address).toLowerCase().includes(city);
+  const distanceTo = (place: Place) => calculateDistance(latitude, longitude, place.latitude, place.longitude);
+
+  const places = toPlaces(data)
+    .filter(place => isInCityOrNearby(place, cityName, latitude, longitude, radiusMeters))
+    .sort((a, b) => {
+      const aIsSameCity = isSameCity(a);
+      const bIsSameCity = isSameCity(b);
+      if (aIsSameCity && !bIsSameCity) return -1;
+      if (!aIsSameCity && bIsSameCity) return 1;
+      return distanceTo(a) - distanceTo(b);
+    });
+
+  return ok(places);
+};
+
+// Places within `radiusKm` (get_nearby_places RPC)
+export const getNearbyPlaces = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  radiusKm = 5
+): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .rpc('get_nearby_places', {
+      lat: latitude,
+      lng: longitude,
+      radius_km: radiusKm
+    });
+
+  if (error) {
+    // Databases with the pre-20241214 get_nearby_places fail with a type mismatch
+    if (error.code === '42804') {
+      return getPlaces(client, 50, 0);
+    }
+    return fail('fetching nearby places', error);
+  }
+
+  return ok(toPlaces(data));
+};
+
+// Public places within `radius` meters, closest first
+export const getNearbyPublicPlaces = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  radius = 5000
+): Promise<RepositoryResult<Place[]>> => {
+  const radiusInKm = radius / 1000;
+  // A generous bounding box; the exact distance filter is applied below
+  const radiusInDegrees = (radiusInKm / 111) * 2;
+
+  const { data, error } = await client
+    .from('places')
+    .select('*')
+    .eq('is_public', true)
+    .gte('latitude', latitude - radiusInDegrees)
+    .lte('latitude', latitude + radiusInDegrees)
+    .gte('longitude', longitude - radiusInDegrees)
+    .lte('longitude', longitude + radiusInDegrees)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('❌ Error fetching nearby public places:', { code: error.code, message: error.message });
+
+    if (error.code === '42703') {
+      return getNearbyPlaces(client, latitude, longitude, radiusInKm);
+    }
+
+    const fallback = await client
+      .from('places')
+      .select('*')
+      .eq('is_public', true)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (fallback.error) return fail('fetching public places (fallback)', fallback.error);
+    return ok(toPlaces(fallback.data));
+  }
+
+  const sortedPlaces = toPlaces(data)
+    .map(place => ({ place, distance: calculateDistance(latitude, longitude, place.latitude, place.longitude) }))
+    .filter(({ distance }) => distance <= radius)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ place }) => place);
+
+  return ok(sortedPlaces);
+};
+
+// Search, category filter and sort in one query (get_filtered_places RPC)
+export const getFilteredPlaces = async (
+  client: DatabaseClient,
+  searchQuery?: string,
+  categoryFilter?: string,
+  sortBy = 'newest',
+  limit = 20,
+  offset = 0
+): Promise<RepositoryResult<Place[]>> => {
+  const { data, error } = await client
+    .rpc('get_filtered_places', {
+      search_query: searchQuery || undefined,
+      category_filter: categoryFilter || undefined,
+      sort_by: sortBy,
+      limit_count: limit,
+      offset_count: offset
+    });
+
+  if (error) return fail('fetching filtered places', error);
+  return ok(toPlaces(data));
+};
+
+// Update a place's opening hours (e.g. read from an hours sign)
+export const updatePlaceHours = async (client: DatabaseClient, placeId: string, updates: {
+  week_hours: string[];
+  is_open?: boolean;
+  hours?: string;
+}): Promise<RepositoryResult<Place>> => {
+  const { data, error } = await client
+    .from('places')
+    .update(updates)
+    .eq('id', placeId)
+    .select()
+    .single();
+
+  if (error) return fail('updating place hours', error);
+  return ok(toPlace(data));
+};
+
+// Duplicate place merges (admin only, see lib/place-duplicates.ts for detection)
+
+const MERGED_RECORD_TABLES: MergedRecordTable[] = [
+  'reviews',
+  'place_photos',
+  'collection_places',
+  'friend_activities',
+  'reports',
+  'hidden_gems',
+  'place_menus',
+  'place_edit_suggestions',
+];
+
+const toPlaceMerge = ({
+  duplicate_place,
+  moved_records,
+  ...merge
+}: Pick<
+  Tables<'place_merges'>,
+  'id' | 'canonical_place_id' | 'duplicate_place_id' | 'duplicate_place' | 'moved_records' | 'merged_by' | 'undo_until' | 'undone_at' | 'created_at'
+>): PlaceMerge => {
+  const moved = (moved_records || {}) as Partial<Record<MergedRecordTable, string[]>>;
+  return {
+    ...merge,
+    duplicate_name: (duplicate_place as Pick<PlaceRow, 'name'> | null)?.name ?? '',
+    moved_counts: Object.fromEntries(
+      MERGED_RECORD_TABLES.map(table => [table, moved[table]?.length ?? 0])
+    ) as Record<MergedRecordTable, number>,
+  };
+};
+
+// Merge a duplicate into the canonical place; resolves to the merge id for undoPlaceMerge
+export const mergePlaces = async (
+  client: DatabaseClient,
+  canonicalPlaceId: string,
+  duplicatePlaceId: string
+): Promise<RepositoryResult<string>> => {
+  const { data, error } = await client
+    .rpc('merge_places', {
+      canonical_place_id: canonicalPlaceId,
+      duplicate_place_id: duplicatePlaceId
+    });
+
+  if (error) return fail('merging places', error);
+  return ok(data);
+};
+
+// Restore the duplicate place of a merge (fails once the undo window has closed)
+export const undoPlaceMerge = async (client: DatabaseClient, mergeId: string): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .rpc('undo_place_merge', { merge_id: mergeId });
+
+  if (error) return fail('undoing place merge', error);
+  return ok(null);
+};
+
+// Merges that can still be undone, newest first
+export const getUndoablePlaceMerges = async (client: DatabaseClient, limit = 20): Promise<RepositoryResult<PlaceMerge[]>> => {
+  const { data, error } = await client
+    .from('place_merges')
+    .select('id, canonical_place_id, duplicate_place_id, duplicate_place, moved_records, merged_by, undo_until, undone_at, created_at')
+    .is('undone_at', null)
+    .gt('undo_until', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) return fail('fetching place merges', error);
+  return ok(data.map(toPlaceMerge));
+};
+
+// Place photos
+
+export const getPlacePhotos = async (client: DatabaseClient, placeId: string): Promise<RepositoryResult<PlacePhoto[]>> => {
+  const { data, error } = await client
+    .from('place_photos')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching place photos', error);
+  return ok(data.map(photo => withDefaults(photo, { created_at: '' })));
+};
+
+export const addPlacePhoto = async (client: DatabaseClient, photo: {
+  place_id: string;
+  user_id: string;
+  photo_url: string;
+  thumbnail_url?: string;
+  caption?: string;
+  perceptual_hash?: string | null;
+}): Promise<RepositoryResult<PlacePhoto>> => {
+  const { data, error } = await client
+    .from('place_photos')
+    .insert(photo)
+    .select()
+    .single();
+
+  if (error) return fail('adding place photo', error);
+  return ok(withDefaults(data, { created_at: '' }));
+};
+
+export const deletePlacePhoto = async (client: DatabaseClient, photoId: string): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .from('place_photos')
+    .delete()
+    .eq('id', photoId);
+
+  if (error) return fail('deleting place photo', error);
+  return ok(null);
+};
+
+// AI summaries
+
+const toSummaryReview = (row: Tables<'place_summary_reviews'>): PlaceSummaryReview => ({
+  summary_id: row.summary_id,
+  source: row.source as SummaryReviewSource, // CHECK (source IN ('google', 'in_app'))
+  review_id: row.review_id,
+  google_author: row.google_author,
+  rating: row.rating,
+  cited_in: row.cited_in,
+});
+
+// A place's AI summaries, newest (current) first, with the reviews each one cited
+export const getPlaceSummaryHistory = async (
+  client: DatabaseClient,
+  placeId: string
+): Promise<RepositoryResult<(PlaceSummary & { cited_reviews: PlaceSummaryReview[] })[]>> => {
+  const { data, error } = await client
+    .from('place_summaries')
+    .select('*, cited_reviews:place_summary_reviews(*)')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching place summary history', error);
+  return ok(data.map(({ cited_reviews, ...summary }) => ({
+    ...summary,
+    // CHECK constraints on the columns, see 20250827000001_place_summary_history.sql
+    overall_sentiment: summary.overall_sentiment as PlaceSummary['overall_sentiment'],
+    trigger: summary.trigger as SummaryTrigger,
+    created_at: summary.created_at ?? '',
+    cited_reviews: cited_reviews.map(toSummaryReview),
+  })));
+};
+
+// Cached translation of a place's current AI summary; null until someone has read it in `language`
+export const getCachedPlaceTranslation = async (
+  client: DatabaseClient,
+  placeId: string,
+  language: string
+): Promise<RepositoryResult<PlaceTranslation | null>> => {
+  const { data, error } = await client
+    .from('place_translations')
+    .select('*')
+    .eq('place_id', placeId)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) return fail('fetching place translation', error);
+  return ok(data && withDefaults(data, { created_at: '' }));
+};
+
+// Menus
+
+const toPlaceMenu = (row: Tables<'place_menus'>): PlaceMenu => ({
+  id: row.id,
+  place_id: row.place_id,
+  currency: row.currency,
+  sections: row.sections as unknown as MenuSection[], // Written by savePlaceMenu only
+  source_photo_url: row.source_photo_url ?? undefined,
+  updated_by: row.updated_by ?? undefined,
+  created_at: row.created_at ?? '',
+  updated_at: row.updated_at ?? '',
+});
+
+// Get the structured menu for a place
+export const getPlaceMenu = async (client: DatabaseClient, placeId: string): Promise<RepositoryResult<PlaceMenu | null>> => {
+  const { data, error } = await client
+    .from('place_menus')
+    .select('*')
+    .eq('place_id', placeId)
+    .maybeSingle();
+
+  if (error) return fail('fetching place menu', error);
+  return ok(data && toPlaceMenu(data));
+};
+
+// Create or replace the menu for a place
+export const savePlaceMenu = async (client: DatabaseClient, menu: {
+  place_id: string;
+  currency: string;
+  sections: MenuSection[];
+  source_photo_url?: string;
+  updated_by: string;
+}): Promise<RepositoryResult<PlaceMenu>> => {
+  const { data, error } = await client
+    .from('place_menus')
+    .upsert({ ...menu, sections: menu.sections as unknown as Json }, { onConflict: 'place_id' })
+    .select()
+    .single();
+
+  if (error) return fail('saving place menu', error);
+  return ok(toPlaceMenu(data));
+};
+
+// Places whose menus have a matching item, optionally under a price ("pho under $10")
+export const searchPlacesByMenu = async (
+  client: DatabaseClient,
+  query: MenuQuery,
+  limit = 50
+): Promise<RepositoryResult<MenuSearchMatch[]>> => {
+  const { data, error } = await client.rpc('search_places_by_menu', {
+    p_item_query: query.itemQuery,
+    p_max_price: query.maxPrice,
+    p_currency: query.currency,
+    p_limit: limit,
+  });
+
+  if (error) return fail('searching place menus', error);
+  return ok(data);
+};
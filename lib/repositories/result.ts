@@ -0,0 +1,53 @@
+// Results returned by the typed repositories in lib/repositories
+// Repository functions take the Supabase client as their first argument (the app's client
+// from lib/supabase.ts, or the service-role client on the server) and resolve to either
+// { data, error: null } or { data: null, error }, so callers must rule out the error before
+// they can read the data. They log failures but do not throw for database errors.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import type { ColumnDefaults } from '@/types/rows';
+
+export type DatabaseClient = SupabaseClient<Database>;
+
+export interface RepositoryError {
+  message: string;
+  code: string | null; // Postgres / PostgREST error code, e.g. '23505' or 'PGRST116'
+}
+
+export type RepositoryFailure = { data: null; error: RepositoryError };
+
+export type RepositoryResult<T> = { data: T; error: null } | RepositoryFailure;
+
+export const ok = <T>(data: T): RepositoryResult<T> => ({ data, error: null });
+
+const toRepositoryError = (error: unknown): RepositoryError => {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { message, code } = error as { message: unknown; code?: unknown };
+    return { message: String(message), code: typeof code === 'string' ? code : null };
+  }
+  return { message: String(error), code: null };
+};
+
+// Logs `error` as "Error <context>: ..." and wraps it as a failed result
+export const fail = (context: string, error: unknown): RepositoryFailure => {
+  console.error(`Error ${context}:`, error);
+  return { data: null, error: toRepositoryError(error) };
+};
+
+// The result's data, or `fallback` when it failed (for callers that show an empty state)
+export const dataOr = <T>(result: RepositoryResult<T>, fallback: T): T =>
+  result.error ? fallback : result.data;
+
+// Fills in the column defaults for NULL values, see types/rows.ts
+export const withDefaults = <Row extends object, K extends keyof Row>(
+  row: Row,
+  defaults: ColumnDefaults<Row, K>
+): Omit<Row, K> & ColumnDefaults<Row, K> => {
+  const filled = { ...row } as Record<string, unknown>;
+  for (const [column, value] of Object.entries(defaults)) {
+    if (filled[column] === null || filled[column] === undefined) {
+      filled[column] = value;
+    }
+  }
+  return filled as Omit<Row, K> & ColumnDefaults<Row, K>;
+};
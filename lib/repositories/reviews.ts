@@ -0,0 +1,197 @@
+// Reviews repository: in-app reviews, likes and replies, and the place rating they feed
+import type { Tables } from '@/types/database';
+import type { Review, ReviewReply } from '@/types/review';
+import { toProfile } from './social';
+import { DatabaseClient, RepositoryResult, fail, ok, withDefaults } from './result';
+
+type ReviewRecord = Tables<'reviews'> & { user_profile?: Tables<'profiles'> | null };
+type ReviewReplyRecord = Tables<'review_replies'> & { user_profile?: Tables<'profiles'> | null };
+
+const toReview = ({ user_profile, ...row }: ReviewRecord): Review => ({
+  ...withDefaults(row, { likes: 0, created_at: '', updated_at: '' }),
+  ...(user_profile ? { user_profile: toProfile(user_profile) } : {}),
+});
+
+const toReviewReply = ({ user_profile, ...row }: ReviewReplyRecord): ReviewReply => ({
+  ...withDefaults(row, { created_at: '', updated_at: '' }),
+  ...(user_profile ? { user_profile: toProfile(user_profile) } : {}),
+});
+
+// Reviews for a place with their authors' profiles, newest first
+export const getReviewsForPlace = async (client: DatabaseClient, placeId: string): Promise<RepositoryResult<Review[]>> => {
+  const { data, error } = await client
+    .from('reviews')
+    .select(`
+      *,
+      user_profile:profiles(*)
+    `)
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching reviews', error);
+  return ok(data.map(toReview));
+};
+
+export const getUserReviewsCount = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<number>> => {
+  const { count, error } = await client
+    .from('reviews')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) return fail('fetching user reviews count', error);
+  return ok(count || 0);
+};
+
+// Recompute a place's rating and review count from its reviews
+const updatePlaceRating = async (client: DatabaseClient, placeId: string | null) => {
+  if (!placeId) return;
+
+  const { data: reviews, error } = await client
+    .from('reviews')
+    .select('rating')
+    .eq('place_id', placeId);
+
+  if (error) {
+    console.error('Error updating place rating:', error);
+    return;
+  }
+
+  if (reviews.length > 0) {
+    const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
+    const { error: updateError } = await client
+      .from('places')
+      .update({
+        rating: totalRating / reviews.length,
+        review_count: reviews.length
+      })
+      .eq('id', placeId);
+
+    if (updateError) {
+      console.error('Error updating place rating:', updateError);
+    }
+  }
+};
+
+// Add a review; each user has at most one review per place
+export const addReview = async (client: DatabaseClient, review: {
+  place_id: string;
+  user_id: string;
+  rating: number;
+  text: string;
+}): Promise<RepositoryResult<Review>> => {
+  const { data: existingReview } = await client
+    .from('reviews')
+    .select('id')
+    .eq('place_id', review.place_id)
+    .eq('user_id', review.user_id)
+    .maybeSingle();
+
+  if (existingReview) {
+    return { data: null, error: { message: 'You already have a review for this place', code: null } };
+  }
+
+  const { data, error } = await client
+    .from('reviews')
+    .insert(review)
+    .select()
+    .single();
+
+  if (error) return fail('adding review', error);
+
+  await updatePlaceRating(client, review.place_id);
+  return ok(toReview(data));
+};
+
+export const updateReview = async (client: DatabaseClient, reviewId: string, updates: {
+  rating?: number;
+  text?: string;
+}): Promise<RepositoryResult<Review>> => {
+  const { data, error } = await client
+    .from('reviews')
+    .update(updates)
+    .eq('id', reviewId)
+    .select()
+    .single();
+
+  if (error) return fail('updating review', error);
+
+  if (updates.rating !== undefined) {
+    await updatePlaceRating(client, data.place_id);
+  }
+  return ok(toReview(data));
+};
+
+export const deleteReview = async (client: DatabaseClient, reviewId: string): Promise<RepositoryResult<null>> => {
+  // Read the place first, for the rating update
+  const { data: review } = await client
+    .from('reviews')
+    .select('place_id')
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  const { error } = await client
+    .from('reviews')
+    .delete()
+    .eq('id', reviewId);
+
+  if (error) return fail('deleting review', error);
+
+  await updatePlaceRating(client, review?.place_id ?? null);
+  return ok(null);
+};
+
+// Like (1) or unlike (-1) a review
+export const toggleReviewLike = async (
+  client: DatabaseClient,
+  reviewId: string,
+  increment: 1 | -1
+): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .rpc('update_review_likes', {
+      review_id: reviewId,
+      increment: increment
+    });
+
+  if (error) return fail('updating review likes', error);
+  return ok(null);
+};
+
+// Replies to a review with their authors' profiles, oldest first
+export const getReviewReplies = async (client: DatabaseClient, reviewId: string): Promise<RepositoryResult<ReviewReply[]>> => {
+  const { data, error } = await client
+    .from('review_replies')
+    .select(`
+      *,
+      user_profile:profiles(*)
+    `)
+    .eq('review_id', reviewId)
+    .order('created_at', { ascending: true });
+
+  if (error) return fail('fetching review replies', error);
+  return ok(data.map(toReviewReply));
+};
+
+export const addReviewReply = async (client: DatabaseClient, reply: {
+  review_id: string;
+  user_id: string;
+  text: string;
+}): Promise<RepositoryResult<ReviewReply>> => {
+  const { data, error } = await client
+    .from('review_replies')
+    .insert(reply)
+    .select()
+    .single();
+
+  if (error) return fail('adding review reply', error);
+  return ok(toReviewReply(data));
+};
+
+export const deleteReviewReply = async (client: DatabaseClient, replyId: string): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .from('review_replies')
+    .delete()
+    .eq('id', replyId);
+
+  if (error) return fail('deleting review reply', error);
+  return ok(null);
+};
@@ -0,0 +1,624 @@
+// Social repository: profiles, friend feeds, activity tracking and location sharing
+import type { Tables, TablesUpdate } from '@/types/database';
+import type { Place } from '@/types/place';
+import type {
+  ConnectionStatus,
+  FriendActivity,
+  FriendActivityType,
+  LocationPrivacySettings,
+  NearbyUser,
+  Profile,
+  ProfileRow,
+  SocialProfile,
+  UserConnection,
+  UserLocationHistory,
+} from '@/types/social';
+import * as places from './places';
+import { DatabaseClient, RepositoryFailure, RepositoryResult, fail, ok, withDefaults } from './result';
+
+const NOT_AUTHENTICATED: RepositoryFailure = { data: null, error: { message: 'User not authenticated', code: null } };
+
+export const toProfile = (row: ProfileRow): Profile => withDefaults(row, {
+  points: 0,
+  level: 'Explorer',
+  role: 'user',
+  allow_social_features: false,
+  created_at: '',
+  updated_at: '',
+});
+
+const SOCIAL_PROFILE_COLUMNS = 'id, full_name, username, avatar_url, bio, allow_social_features';
+
+export const toSocialProfile = (row: Pick<ProfileRow, keyof SocialProfile>): SocialProfile => ({
+  ...row,
+  allow_social_features: row.allow_social_features ?? false,
+});
+
+const toLocationPrivacySettings = (row: Tables<'location_privacy_settings'>): LocationPrivacySettings => withDefaults(row, {
+  share_city_with_friends: true,
+  share_city_publicly: false,
+  allow_nearby_suggestions: true,
+  location_sharing_radius_km: 50,
+  auto_update_location: false,
+  created_at: '',
+  updated_at: '',
+});
+
+export const getProfile = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<Profile | null>> => {
+  const { data, error } = await client
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle(); // Use maybeSingle() instead of single() to handle zero results
+
+  if (error) {
+    console.error('Database error occurred while fetching profile'); // Don't log detailed error
+    return { data: null, error: { message: error.message, code: error.code } };
+  }
+  return ok(data && toProfile(data));
+};
+
+export const updateProfile = async (
+  client: DatabaseClient,
+  userId: string,
+  updates: TablesUpdate<'profiles'>
+): Promise<RepositoryResult<Profile>> => {
+  const { data, error } = await client
+    .from('profiles')
+    .update(updates)
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) return fail('updating profile', error);
+  return ok(toProfile(data));
+};
+
+// Whether a user (by default the signed-in one) is an admin
+export const isUserAdmin = async (client: DatabaseClient, userId?: string): Promise<RepositoryResult<boolean>> => {
+  const id = userId || (await client.auth.getUser()).data.user?.id;
+  if (!id) return ok(false);
+
+  const { data, error } = await client
+    .rpc('is_admin', { user_id: id });
+
+  if (error) return fail('checking admin status', error);
+  return ok(data);
+};
+
+// Store the user's last known location for targeted notifications
+export const updateUserLocationForNotifications = async (
+  client: DatabaseClient,
+  userId: string,
+  city: string,
+  country: string,
+  latitude: number,
+  longitude: number
+): Promise<RepositoryResult<null>> => {
+  const { error } = await client
+    .from('profiles')
+    .update({
+      last_city: city,
+      last_country: country,
+      last_latitude: latitude,
+      last_longitude: longitude,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', userId);
+
+  if (error) return fail('updating user location for notifications', error);
+  return ok(null);
+};
+
+// ================================
+// SOCIAL PROFILES (Phase 1)
+// ================================
+
+// Update the signed-in user's social profile
+export const updateSocialProfile = async (client: DatabaseClient, updates: {
+  username?: string;
+  bio?: string;
+  allow_social_features?: boolean;
+}): Promise<RepositoryResult<null>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return NOT_AUTHENTICATED;
+
+  const { error } = await client
+    .from('profiles')
+    .update(updates)
+    .eq('id', user.id);
+
+  if (error) {
+    // Handle username uniqueness constraint
+    if (error.code === '23505' && error.message.includes('username')) {
+      return { data: null, error: { message: 'Username already taken', code: error.code } };
+    }
+    return fail('updating social profile', error);
+  }
+  return ok(null);
+};
+
+export const checkUsernameAvailability = async (client: DatabaseClient, username: string): Promise<RepositoryResult<boolean>> => {
+  if (!username || username.length < 3) return ok(false);
+
+  const { data, error } = await client
+    .from('profiles')
+    .select('id')
+    .eq('username', username.toLowerCase())
+    .maybeSingle();
+
+  if (error) return fail('checking username availability', error);
+  return ok(data === null);
+};
+
+// A social profile by ID or username; only users with social features on are found
+export const getSocialProfile = async (client: DatabaseClient, identifier: string): Promise<RepositoryResult<SocialProfile>> => {
+  const isUUID = identifier.includes('-');
+  const field = isUUID ? 'id' : 'username';
+
+  const { data, error } = await client
+    .from('profiles')
+    .select(SOCIAL_PROFILE_COLUMNS)
+    .eq(field, identifier)
+    .eq('allow_social_features', true)
+    .single();
+
+  if (error) return fail('fetching social profile', error);
+  return ok(toSocialProfile(data));
+};
+
+// Social profiles of the given users, skipping those with social features off
+export const getSocialProfiles = async (client: DatabaseClient, userIds: string[]): Promise<RepositoryResult<SocialProfile[]>> => {
+  if (userIds.length === 0) return ok([]);
+
+  const { data, error } = await client
+    .from('profiles')
+    .select(SOCIAL_PROFILE_COLUMNS)
+    .in('id', userIds)
+    .eq('allow_social_features', true);
+
+  if (error) return fail('fetching social profiles', error);
+  return ok(data.map(toSocialProfile));
+};
+
+// Users with social features on whose name or username contains `query`
+export const searchSocialProfiles = async (client: DatabaseClient, query: string, limit = 20): Promise<RepositoryResult<SocialProfile[]>> => {
+  if (!query.trim()) return ok([]);
+
+  const { data, error } = await client
+    .from('profiles')
+    .select(SOCIAL_PROFILE_COLUMNS)
+    .eq('allow_social_features', true)
+    .or(`full_name.ilike.%${query}%,username.ilike.%${query}%`)
+    .limit(limit);
+
+  if (error) return fail('searching users', error);
+  return ok(data.map(toSocialProfile));
+};
+
+// ================================
+// CONNECTIONS
+// ================================
+
+// The users `userId` follows, newest first
+export const getUserConnections = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<UserConnection[]>> => {
+  const { data, error } = await client
+    .from('user_connections')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) return fail('fetching connections', error);
+  return ok(data.map(connection => ({
+    ...connection,
+    status: (connection.status ?? 'following') as ConnectionStatus, // CHECK (status IN ('following', 'friends'))
+    created_at: connection.created_at ?? '',
+  })));
+};
+
+// The users who follow `userId`, skipping those with social features off
+export const getFollowers = async (client: DatabaseClient, userId: string): Promise<RepositoryResult<SocialProfile[]>> => {
+  const { data, error } = await client
+    .from('user_connections')
+    .select(`
+      user_id,
+      profiles!user_connections_user_id_fkey (
+        id,
+        full_name,
+        username,
+        avatar_url,
+        bio,
+        allow_social_features
+      )
+    `)
+    .eq('connected_user_id', userId);
+
+  if (error) return fail('fetching followers', error);
+  return ok(data.flatMap(({ profiles: profile }) => (
+    profile?.allow_social_features ? [toSocialProfile(profile)] : []
+  )));
+};
+
+// ================================
+// SOCIAL DISCOVERY (Phase 2)
+// ================================
+// The friend feeds fall back to the matching public feed when the social RPCs fail,
+// and are empty when nobody is signed in.
+
+const hasSocialFeatures = async (client: DatabaseClient, userId: string) => {
+  const { data: profile } = await getProfile(client, userId);
+  return profile?.allow_social_features === true;
+};
+
+// Public places with how many of the user's friends visited them
+export const getPlacesWithFriendData = async (client: DatabaseClient, limit = 50): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .rpc('get_places_with_friend_data', {
+      user_uuid: user.id,
+      limit_count: limit
+    });
+
+  if (error) {
+    console.error('Error fetching places with friend data:', error);
+    return places.getPublicPlaces(client, limit, 0);
+  }
+  return ok(data.map(place => places.toPlace(place)));
+};
+
+// Sets the friend visit counts on `nearbyPlaces` from get_places_with_friend_data
+const withFriendVisits = async (client: DatabaseClient, nearbyPlaces: Place[]): Promise<Place[]> => {
+  const { data: placesWithFriendData } = await getPlacesWithFriendData(client, 50);
+  const friendData = new Map((placesWithFriendData || []).map(place => [place.id, place]));
+
+  return nearbyPlaces.map(place => ({
+    ...place,
+    friend_visited_count: friendData.get(place.id)?.friend_visited_count || 0,
+    friend_visitor_names: friendData.get(place.id)?.friend_visitor_names || []
+  }));
+};
+
+// Places that only friends have visited (friends-only filter)
+export const getFriendsOnlyPlaces = async (client: DatabaseClient, limit = 50): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .rpc('get_friends_only_places', {
+      user_uuid: user.id,
+      limit_count: limit
+    });
+
+  if (error) {
+    console.error('Error fetching friends-only places:', error);
+    return places.getPublicPlaces(client, limit, 0);
+  }
+  return ok(data.map(place => places.toPlace(place)));
+};
+
+// Friends-only places in `cityName` (by address) or within `radiusMeters`
+export const getFriendsOnlyPlacesInCityAndNearby = async (
+  client: DatabaseClient,
+  cityName: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters = 30000,
+  limit = 50
+): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) {
+    return ok([]);
+  }
+
+  const { data, error } = await client
+    .rpc('get_nearby_friends_only_places', {
+      user_uuid: user.id,
+      user_lat: latitude,
+      user_lng: longitude,
+      radius_meters: radiusMeters * 2, // Get broader results to filter by city
+      limit_count: limit * 2
+    });
+
+  if (error) {
+    console.error('Error fetching nearby friends-only places:', error);
+    return places.getPlacesInCityAndNearby(client, cityName, latitude, longitude, radiusMeters);
+  }
+
+  const filteredPlaces = data
+    .map(place => places.toPlace(place))
+    .filter(place => places.isInCityOrNearby(place, cityName, latitude, longitude, radiusMeters));
+
+  return ok(filteredPlaces.slice(0, limit));
+};
+
+export const getNearbyFriendsOnlyPlaces = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  radiusMeters = 30000,
+  limit = 50
+): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .rpc('get_nearby_friends_only_places', {
+      user_uuid: user.id,
+      user_lat: latitude,
+      user_lng: longitude,
+      radius_meters: radiusMeters,
+      limit_count: limit
+    });
+
+  if (error) {
+    console.error('Error fetching nearby friends-only places:', error);
+    return places.getNearbyPublicPlaces(client, latitude, longitude, radiusMeters);
+  }
+  return ok(data.map(place => places.toPlace(place)));
+};
+
+// Places in `cityName` or within `radiusMeters`, with friend visit counts for social users
+export const getPlacesWithFriendDataInCityAndNearby = async (
+  client: DatabaseClient,
+  cityName: string,
+  latitude: number,
+  longitude: number,
+  radiusMeters = 30000
+): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const nearbyPlaces = await places.getPlacesInCityAndNearby(client, cityName, latitude, longitude, radiusMeters);
+  if (nearbyPlaces.error || !(await hasSocialFeatures(client, user.id))) {
+    return nearbyPlaces;
+  }
+  return ok(await withFriendVisits(client, nearbyPlaces.data));
+};
+
+// Public places within `radiusMeters`, the ones most friends visited first
+export const getNearbyPlacesWithFriendData = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  radiusMeters = 5000
+): Promise<RepositoryResult<Place[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const nearbyPlaces = await places.getNearbyPublicPlaces(client, latitude, longitude, radiusMeters);
+  if (nearbyPlaces.error || !(await hasSocialFeatures(client, user.id))) {
+    return nearbyPlaces;
+  }
+
+  const enhancedPlaces = await withFriendVisits(client, nearbyPlaces.data);
+  return ok(enhancedPlaces.sort((a, b) => {
+    if ((a.friend_visited_count || 0) !== (b.friend_visited_count || 0)) {
+      return (b.friend_visited_count || 0) - (a.friend_visited_count || 0);
+    }
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  }));
+};
+
+// Places within `radiusKm`, with the friend who added each one; friends' places first
+export const getNearbyPlacesWithFriendAttribution = async (
+  client: DatabaseClient,
+  latitude: number,
+  longitude: number,
+  radiusKm = 5
+): Promise<RepositoryResult<Place[]>> => {
+  const nearbyPlaces = await places.getNearbyPlaces(client, latitude, longitude, radiusKm);
+
+  const { data: { user } } = await client.auth.getUser();
+  if (nearbyPlaces.error || !user || !(await hasSocialFeatures(client, user.id))) {
+    return nearbyPlaces;
+  }
+
+  // The users this user follows
+  const { data: connections, error: connectionsError } = await client
+    .from('user_connections')
+    .select('connected_user_id')
+    .eq('user_id', user.id);
+
+  if (connectionsError || connections.length === 0) {
+    return nearbyPlaces;
+  }
+
+  const friendIds = connections.map(c => c.connected_user_id);
+
+  const { data: friendProfiles, error: profilesError } = await client
+    .from('profiles')
+    .select('id, full_name, username, avatar_url')
+    .in('id', friendIds);
+
+  if (profilesError) {
+    console.error('❌ Error fetching friend profiles:', profilesError);
+    return nearbyPlaces;
+  }
+
+  const friendLookup = new Map(friendProfiles.map(friend => [friend.id, friend]));
+
+  const enhancedPlaces = nearbyPlaces.data.map(place => {
+    const friend = place.added_by ? friendLookup.get(place.added_by) : undefined;
+    if (!friend) return place;
+
+    return {
+      ...place,
+      addedByFriend: {
+        id: friend.id,
+        full_name: friend.full_name,
+        username: friend.username ?? undefined,
+        avatar_url: friend.avatar_url ?? undefined,
+      }
+    };
+  });
+
+  // Friends' places first, then newest first
+  const sortedPlaces = enhancedPlaces.sort((a, b) => {
+    if (a.addedByFriend && !b.addedByFriend) return -1;
+    if (!a.addedByFriend && b.addedByFriend) return 1;
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  });
+
+  return ok(sortedPlaces);
+};
+
+// ================================
+// FRIEND ACTIVITY
+// ================================
+
+export const getFriendActivityFeed = async (client: DatabaseClient, limit = 20): Promise<RepositoryResult<FriendActivity[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .rpc('get_friend_activity_feed', {
+      user_uuid: user.id,
+      limit_count: limit
+    });
+
+  if (error) return fail('fetching friend activity feed', error);
+  return ok(data.map(activity => ({
+    ...activity,
+    activity_type: activity.activity_type as FriendActivityType, // Written by trackUserActivity only
+    metadata: (activity.metadata ?? {}) as Record<string, any>,
+  })));
+};
+
+// Record an activity for the social feed; resolves to null when the user has social features off
+export const trackUserActivity = async (
+  client: DatabaseClient,
+  activityType: FriendActivityType,
+  placeId?: string,
+  collectionId?: string,
+  metadata: Record<string, any> = {}
+): Promise<RepositoryResult<string | null>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user || !(await hasSocialFeatures(client, user.id))) return ok(null);
+
+  const { data, error } = await client
+    .rpc('track_user_activity', {
+      activity_type_param: activityType,
+      place_id_param: placeId,
+      collection_id_param: collectionId,
+      metadata_param: metadata
+    });
+
+  if (error) return fail('tracking user activity', error);
+  return ok(data);
+};
+
+// ================================
+// LOCATION SHARING
+// ================================
+
+// Update the signed-in user's current city; resolves to whether it was stored
+export const updateUserLocation = async (
+  client: DatabaseClient,
+  city: string,
+  country: string,
+  latitude?: number,
+  longitude?: number,
+  accuracy?: number
+): Promise<RepositoryResult<boolean>> => {
+  const { data, error } = await client
+    .rpc('update_user_location', {
+      city_param: city,
+      country_param: country,
+      latitude_param: latitude,
+      longitude_param: longitude,
+      accuracy_param: accuracy
+    });
+
+  if (error) return fail('updating user location', error);
+  return ok(data === true);
+};
+
+export const findNearbyUsers = async (client: DatabaseClient, radiusKm = 50, limit = 20): Promise<RepositoryResult<NearbyUser[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return NOT_AUTHENTICATED;
+
+  const { data, error } = await client
+    .rpc('find_nearby_users', {
+      user_uuid: user.id,
+      radius_km: radiusKm,
+      limit_count: limit
+    });
+
+  if (error) return fail('finding nearby users', error);
+  return ok(data.map(nearbyUser => ({ ...nearbyUser, allow_social_features: true })));
+};
+
+export const findUsersInCity = async (client: DatabaseClient, limit = 20): Promise<RepositoryResult<NearbyUser[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return NOT_AUTHENTICATED;
+
+  const { data, error } = await client
+    .rpc('find_users_in_city', {
+      user_uuid: user.id,
+      limit_count: limit
+    });
+
+  if (error) return fail('finding users in city', error);
+  return ok(data.map(cityUser => ({ ...cityUser, allow_social_features: true })));
+};
+
+// The signed-in user's location privacy settings, created with the defaults on first read
+export const getLocationPrivacySettings = async (client: DatabaseClient): Promise<RepositoryResult<LocationPrivacySettings>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return NOT_AUTHENTICATED;
+
+  const { data, error } = await client
+    .from('location_privacy_settings')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) return fail('getting location privacy settings', error);
+  if (data) return ok(toLocationPrivacySettings(data));
+
+  const { data: newSettings, error: createError } = await client
+    .from('location_privacy_settings')
+    .insert({ id: user.id })
+    .select('*')
+    .single();
+
+  if (createError) return fail('creating location privacy settings', createError);
+  return ok(toLocationPrivacySettings(newSettings));
+};
+
+export const updateLocationPrivacySettings = async (
+  client: DatabaseClient,
+  settings: Partial<Omit<LocationPrivacySettings, 'id' | 'created_at' | 'updated_at'>>
+): Promise<RepositoryResult<null>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return NOT_AUTHENTICATED;
+
+  const { error } = await client
+    .from('location_privacy_settings')
+    .update({
+      ...settings,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', user.id);
+
+  if (error) return fail('updating location privacy settings', error);
+  return ok(null);
+};
+
+// The signed-in user's recorded cities, most recent first
+export const getUserLocationHistory = async (client: DatabaseClient, limit = 50): Promise<RepositoryResult<UserLocationHistory[]>> => {
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) return ok([]);
+
+  const { data, error } = await client
+    .from('user_location_history')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('recorded_at', { ascending: false })
+    .limit(limit);
+
+  if (error) return fail('getting location history', error);
+  return ok(data.map(entry => withDefaults(entry, { recorded_at: '', is_current: false })));
+};
@@ -0,0 +1,382 @@
+// Regeneration of AI review summaries from in-app reviews
+// A place's summary is first written at capture time from its Google reviews. The job behind
+// /api/summaries picks up places whose in-app reviews changed since it last looked, and when
+// the change is material re-summarises them from a blend of Google and in-app reviews. Every
+// point of the new summary cites the reviews behind it; those reviews are recorded with the
+// summary, and the previous summary stays in place_summaries as history. Summaries are
+// written in English; languages the old summary had been translated into are refreshed.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VisionProvider } from './vision-providers';
+import type { GoogleReview } from './google-places';
+import type { Place, Review } from './supabase';
+import { completeWithSchema, validateReviewSummary } from './analysis-schema';
+import { renderPrompt } from './prompt-templates';
+import { assignPromptVersion } from './prompt-experiments';
+import { getTranslatedLanguages, refreshPlaceTranslations } from './place-translations';
+import type {
+  AttributedPoint,
+  PlaceSummary,
+  PlaceSummaryReview,
+  ReviewSummaryExtraction,
+  SummaryReviewInput,
+} from '@/types/review-summary';
+
+// Reviews sent to the model; in-app reviews are the reason the job exists, so they get more room
+export const MAX_IN_APP_REVIEWS = 15;
+export const MAX_GOOGLE_REVIEWS = 5;
+const MAX_REVIEW_TEXT_LENGTH = 600;
+
+// A change is material when any of these is reached since the current summary
+export const MIN_CHANGED_REVIEWS = 3;
+export const MIN_CHANGED_REVIEW_SHARE = 0.3; // Of the place's in-app reviews
+export const MIN_RATING_SHIFT = 0.5; // Stars, in-app average
+
+export const DEFAULT_SUMMARY_JOB_LIMIT = 25;
+
+type InAppReview = Pick<Review, 'id' | 'rating' | 'text' | 'created_at' | 'updated_at'>;
+
+// What the current summary was generated from
+export interface SummarySnapshot {
+  createdAt: string;
+  inAppReviewCount: number;
+  inAppAverageRating: number | null;
+}
+
+export interface ReviewChanges {
+  added: number;
+  edited: number;
+  removed: number;
+}
+
+export type SummaryRegenerationOutcome = 'regenerated' | 'unchanged';
+
+export interface SummaryJobResult {
+  checked: number;
+  regenerated: string[];
+  unchanged: string[];
+  failed: { placeId: string; error: string; retryAt: string | null }[];
+}
+
+export interface SummaryJobDeps {
+  client: SupabaseClient;
+  provider: VisionProvider;
+  fetchGoogleReviews: (googlePlaceId: string) => Promise<GoogleReview[]>;
+}
+
+export const averageRating = (reviews: Pick<Review, 'rating'>[]): number | null =>
+  reviews.length > 0 ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length : null;
+
+export const toSummarySnapshot = (summary: PlaceSummary): SummarySnapshot => ({
+  createdAt: summary.created_at,
+  inAppReviewCount: summary.in_app_review_count,
+  inAppAverageRating: summary.in_app_average_rating === null ? null : Number(summary.in_app_average_rating),
+});
+
+export const getReviewChanges = (snapshot: SummarySnapshot, reviews: InAppReview[]): ReviewChanges => {
+  const since = new Date(snapshot.createdAt).getTime();
+  const added = reviews.filter(review => new Date(review.created_at).getTime() > since).length;
+  const edited = reviews.filter(review =>
+    new Date(review.created_at).getTime() <= since && new Date(review.updated_at).getTime() > since
+  ).length;
+  return {
+    added,
+    edited,
+    removed: Math.max(0, snapshot.inAppReviewCount - (reviews.length - added)),
+  };
+};
+
+// A single new review on a place with dozens is noise; a few, a large share, or a clear
+// swing in the in-app rating is worth a new summary
+export const hasMaterialReviewChange = (snapshot: SummarySnapshot, reviews: InAppReview[]): boolean => {
+  const { added, edited, removed } = getReviewChanges(snapshot, reviews);
+  const changed = added + edited + removed;
+  if (changed === 0) return false;
+  if (changed >= MIN_CHANGED_REVIEWS) return true;
+
+  const base = Math.max(snapshot.inAppReviewCount, reviews.length);
+  if (base > 0 && changed / base >= MIN_CHANGED_REVIEW_SHARE) return true;
+
+  const current = averageRating(reviews);
+  return current !== null && snapshot.inAppAverageRating !== null &&
+    Math.abs(current - snapshot.inAppAverageRating) >= MIN_RATING_SHIFT;
+};
+
+// Most recently written in-app reviews first (R1, R2, ...), then Google's (G1, G2, ...)
+export const buildSummaryReviews = (inApp: InAppReview[], google: GoogleReview[]): SummaryReviewInput[] => {
+  const hasText = (text?: string) => !!text && text.trim().length > 0;
+
+  const community = [...inApp]
+    .filter(review => hasText(review.text))
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+    .slice(0, MAX_IN_APP_REVIEWS)
+    .map((review, index): SummaryReviewInput => ({
+      ref: `R${index + 1}`,
+      source: 'in_app',
+      reviewId: review.id,
+      rating: review.rating,
+      text: review.text.trim(),
+    }));
+
+  const fromGoogle = google
+    .filter(review => hasText(review.text))
+    .slice(0, MAX_GOOGLE_REVIEWS)
+    .map((review, index): SummaryReviewInput => ({
+      ref: `G${index + 1}`,
+      source: 'google',
+      authorName: review.author_name,
+      rating: review.rating,
+      text: review.text.trim(),
+    }));
+
+  return [...community, ...fromGoogle];
+};
+
+export const formatReviewsForPrompt = (reviews: SummaryReviewInput[]): string =>
+  reviews
+    .map(review => {
+      const origin = review.source === 'google' ? 'Google' : 'Community';
+      return `[${review.ref}] ${origin}, ${review.rating}/5: ${review.text.slice(0, MAX_REVIEW_TEXT_LENGTH)}`;
+    })
+    .join('\n\n');
+
+// The reviews the model cited, with where each was cited ("summary", "pros:0", ...)
+export const getContributingReviews = (
+  extraction: ReviewSummaryExtraction,
+  reviews: SummaryReviewInput[]
+): Omit<PlaceSummaryReview, 'summary_id'>[] => {
+  const citations = new Map<string, string[]>();
+  const cite = (refs: string[], location: string) => {
+    refs.forEach(ref => citations.set(ref, [...(citations.get(ref) || []), location]));
+  };
+
+  cite(extraction.summaryReviews, 'summary');
+  (['pros', 'cons', 'recommendations'] as const).forEach(field => {
+    extraction[field].forEach((point, index) => cite(point.reviews, `${field}:${index}`));
+  });
+
+  return reviews
+    .filter(review => citations.has(review.ref))
+    .map(review => ({
+      source: review.source,
+      review_id: review.reviewId ?? null,
+      google_author: review.authorName ?? null,
+      rating: review.rating,
+      cited_in: Array.from(new Set(citations.get(review.ref))),
+    }));
+};
+
+const pointTexts = (points: AttributedPoint[]): string[] => points.map(point => point.text);
+
+type SummaryPlace = Pick<Place, 'id' | 'name' | 'category' | 'google_place_id' | 'ai_summary' | 'pros' | 'cons' | 'recommendations' | 'created_at'>;
+
+const markChecked = async (client: SupabaseClient, placeId: string, checkedAt: string) => {
+  const { error } = await client.from('places').update({ summary_checked_at: checkedAt }).eq('id', placeId);
+  if (error) {
+    console.error('Error marking place summary as checked:', error);
+  }
+};
+
+// Failed places wait longer before each retry, so they don't hold up the rest of the queue
+const recordFailure = async (client: SupabaseClient, placeId: string, message: string): Promise<string | null> => {
+  const { data, error } = await client.rpc('record_summary_failure', { p_place_id: placeId, p_error: message });
+  if (error) {
+    console.error('Error recording summary failure:', error);
+    return null;
+  }
+  return data;
+};
+
+const clearFailures = async (client: SupabaseClient, placeId: string) => {
+  const { error } = await client.from('place_summary_failures').delete().eq('place_id', placeId);
+  if (error) {
+    console.error('Error clearing summary failures:', error);
+  }
+};
+
+// Places summarised before history was kept get their capture-time summary recorded first
+const recordCaptureSummary = async (client: SupabaseClient, place: SummaryPlace) => {
+  const { error } = await client.from('place_summaries').insert({
+    place_id: place.id,
+    summary: place.ai_summary,
+    pros: place.pros || [],
+    cons: place.cons || [],
+    recommendations: place.recommendations || [],
+    trigger: 'capture',
+    created_at: place.created_at,
+  });
+  if (error) throw new Error(`Failed to record previous summary: ${error.message}`);
+};
+
+export async function regeneratePlaceSummary(
+  deps: SummaryJobDeps,
+  placeId: string,
+  options: { force?: boolean } = {}
+): Promise<SummaryRegenerationOutcome> {
+  const { client, provider } = deps;
+  const checkedAt = new Date().toISOString();
+
+  const { data: place, error: placeError } = await client
+    .from('places')
+    .select('id, name, category, google_place_id, ai_summary, pros, cons, recommendations, created_at')
+    .eq('id', placeId)
+    .single<SummaryPlace>();
+  if (placeError || !place) throw new Error(`Place not found: ${placeError?.message || placeId}`);
+
+  const { data: reviews, error: reviewsError } = await client
+    .from('reviews')
+    .select('id, rating, text, created_at, updated_at')
+    .eq('place_id', placeId);
+  if (reviewsError) throw new Error(`Failed to load reviews: ${reviewsError.message}`);
+
+  const { data: latest, error: latestError } = await client
+    .from('place_summaries')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<PlaceSummary>();
+  if (latestError) throw new Error(`Failed to load current summary: ${latestError.message}`);
+
+  // Without a recorded summary, every in-app review is new since the capture-time one
+  const snapshot: SummarySnapshot = latest
+    ? toSummarySnapshot(latest)
+    : { createdAt: place.created_at, inAppReviewCount: 0, inAppAverageRating: null };
+  const inApp = (reviews || []) as InAppReview[];
+  if (!options.force && !hasMaterialReviewChange(snapshot, inApp)) {
+    await markChecked(client, placeId, checkedAt);
+    return 'unchanged';
+  }
+
+  let google: GoogleReview[] = [];
+  if (place.google_place_id) {
+    try {
+      google = await deps.fetchGoogleReviews(place.google_place_id);
+    } catch (error) {
+      console.warn(`⚠️ Google reviews unavailable for ${placeId}, summarising in-app reviews only:`, error);
+    }
+  }
+
+  const inputs = buildSummaryReviews(inApp, google);
+  if (inputs.length === 0) {
+    await markChecked(client, placeId, checkedAt);
+    return 'unchanged';
+  }
+
+  // Bucketed by place so a prompt experiment splits places rather than job runs
+  const prompt = assignPromptVersion('summarize-reviews', placeId);
+  const result = await completeWithSchema(
+    provider,
+    {
+      task: 'summarize-reviews',
+      prompt: renderPrompt(prompt.task, prompt.version, {
+        businessName: place.name,
+        businessType: place.category,
+        reviewTexts: formatReviewsForPrompt(inputs),
+      }),
+      maxTokens: 1000,
+    },
+    validateReviewSummary(inputs.map(review => review.ref))
+  );
+  if (!result.valid) {
+    throw new Error(`Summary failed validation (${result.code}): ${result.issues.join('; ')}`);
+  }
+  const extraction = result.value;
+
+  if (!latest && place.ai_summary) {
+    await recordCaptureSummary(client, place);
+  }
+
+  const { data: summary, error: summaryError } = await client
+    .from('place_summaries')
+    .insert({
+      place_id: placeId,
+      summary: extraction.summary,
+      pros: pointTexts(extraction.pros),
+      cons: pointTexts(extraction.cons),
+      recommendations: pointTexts(extraction.recommendations),
+      overall_sentiment: extraction.overallSentiment,
+      google_review_count: inputs.filter(review => review.source === 'google').length,
+      in_app_review_count: inApp.length,
+      in_app_average_rating: averageRating(inApp),
+      prompt_version: prompt.versionId,
+      trigger: 'regeneration',
+    })
+    .select('id')
+    .single<{ id: string }>();
+  if (summaryError || !summary) throw new Error(`Failed to save summary: ${summaryError?.message}`);
+
+  const contributing = getContributingReviews(extraction, inputs);
+  if (contributing.length > 0) {
+    const { error } = await client
+      .from('place_summary_reviews')
+      .insert(contributing.map(review => ({ ...review, summary_id: summary.id })));
+    if (error) console.error('Error recording summary reviews:', error);
+  }
+
+  // Read before the update, which clears the place's cached translations
+  const translatedLanguages = await getTranslatedLanguages(client, placeId);
+  const current = {
+    ai_summary: extraction.summary,
+    pros: pointTexts(extraction.pros),
+    cons: pointTexts(extraction.cons),
+    recommendations: pointTexts(extraction.recommendations),
+  };
+  const { error: updateError } = await client
+    .from('places')
+    .update({ ...current, summary_checked_at: checkedAt })
+    .eq('id', placeId);
+  if (updateError) throw new Error(`Failed to update place summary: ${updateError.message}`);
+
+  await refreshPlaceTranslations(client, provider, placeId, current, translatedLanguages);
+
+  console.log(`📝 Regenerated summary for ${place.name} from ${inputs.length} reviews (${contributing.length} cited)`);
+  return 'regenerated';
+}
+
+// One pass of the job: the given places, or those with review changes since they were last checked.
+// A failed place is not marked as checked, so a later run tries it again once its backoff ends.
+export async function runSummaryRegeneration(
+  deps: SummaryJobDeps,
+  options: { placeIds?: string[]; limit?: number; force?: boolean } = {}
+): Promise<SummaryJobResult> {
+  let placeIds: string[];
+  if (options.placeIds) {
+    placeIds = options.placeIds;
+  } else {
+    const { data, error } = await deps.client.rpc('get_places_with_review_changes', {
+      p_limit: options.limit ?? DEFAULT_SUMMARY_JOB_LIMIT,
+    });
+    if (error) throw new Error(`Failed to find places to re-summarise: ${error.message}`);
+    placeIds = (data || []).map((row: { place_id: string }) => row.place_id);
+  }
+
+  const result: SummaryJobResult = { checked: 0, regenerated: [], unchanged: [], failed: [] };
+  for (const placeId of placeIds) {
+    result.checked++;
+    try {
+      const outcome = await regeneratePlaceSummary(deps, placeId, { force: options.force });
+      await clearFailures(deps.client, placeId);
+      result[outcome].push(placeId);
+    } catch (error) {
+      console.error(`❌ Summary regeneration failed for ${placeId}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryAt = await recordFailure(deps.client, placeId, message);
+      result.failed.push({ placeId, error: message, retryAt });
+    }
+  }
+  return result;
+}
+
+// Google reviews straight from the Places API, for the server-side job
+export const createGoogleReviewFetcher = (apiKey: string) => async (googlePlaceId: string): Promise<GoogleReview[]> => {
+  const url = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${encodeURIComponent(googlePlaceId)}&fields=reviews&key=${apiKey}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Google Places request failed: ${response.status}`);
+  }
+  const data = await response.json();
+  if (data.status !== 'OK') {
+    throw new Error(`Google Places returned ${data.status}`);
+  }
+  return data.result?.reviews || [];
+};
@@ -0,0 +1,135 @@
+// Signage OCR results and how they feed place matching
+// The extract-sign-text step returns every text block on the sign plus the business
+// name in its original script, a Latin transliteration and (optionally) an English
+// translation. Google Places is searched with each form, since listings for the same
+// shop may use any of them.
+import { searchPlacesByText, GooglePlace } from './google-places';
+import type { AnalysisCacheMetadata } from './analysis-cache';
+import type { PromptAssignment } from './prompt-experiments';
+
+// Normalized to the image size (0-1) from the top-left corner
+export interface SignTextBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SignTextBlock {
+  text: string;
+  language: string; // BCP 47 code, e.g. "vi", "ja", "zh-Hant"
+  boundingBox: SignTextBoundingBox;
+  confidence: number; // 0-100
+  isBusinessName: boolean;
+}
+
+export interface SignBusinessName {
+  original: string; // As written on the sign
+  language: string;
+  transliterated: string; // Latin script (romanized); same as original for Latin signs
+  translated?: string; // English meaning, when the name is not a proper noun
+  confidence: number; // 0-100
+}
+
+export interface SignTextResult {
+  primaryLanguage: string;
+  blocks: SignTextBlock[];
+  businessName: SignBusinessName | null;
+  cache?: AnalysisCacheMetadata; // Set by /api/openai when the result came from the analysis cache
+  prompt?: PromptAssignment; // Prompt version that produced the result
+}
+
+// Below this the sign name is only used as an extra search, never to replace the analysis name
+export const SIGN_NAME_CONFIDENCE_THRESHOLD = 60;
+
+// Lowercase, strip diacritics and punctuation; letters in any script are kept
+export const normalizeSignText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+export const isLatinText = (text: string): boolean =>
+  /^[\p{Script=Latin}\p{N}\p{P}\p{Zs}\p{M}&+'’]*$/u.test(text);
+
+// Distinct name forms to search with, original script first
+export const getSignNameVariants = (signText: SignTextResult | null | undefined): string[] => {
+  const name = signText?.businessName;
+  if (!name) return [];
+
+  const variants: string[] = [];
+  const seen = new Set<string>();
+  [name.original, name.transliterated, name.translated].forEach(variant => {
+    const normalized = variant ? normalizeSignText(variant) : '';
+    if (normalized && !seen.has(normalized)) {
+      seen.add(normalized);
+      variants.push(variant!.trim());
+    }
+  });
+  return variants;
+};
+
+// Latin-script name for keyword filters that compare against Google's (usually romanized) names
+export const getSearchableSignName = (signText: SignTextResult | null | undefined): string | null => {
+  const name = signText?.businessName;
+  if (!name || name.confidence < SIGN_NAME_CONFIDENCE_THRESHOLD) return null;
+  return isLatinText(name.original) ? name.original : name.transliterated || null;
+};
+
+// Text to pre-fill a manual place search with: the sign name in any confidence, else the
+// most confidently read text on the sign
+export const getSignSearchText = (signText: SignTextResult | null | undefined): string | null => {
+  const name = signText?.businessName;
+  if (name) {
+    return getSearchableSignName(signText) || name.transliterated || name.original;
+  }
+  const block = (signText?.blocks || [])
+    .filter(candidate => candidate.text.trim())
+    .sort((a, b) => b.confidence - a.confidence)[0];
+  return block ? block.text.trim() : null;
+};
+
+// True when a place name contains (or is contained in) any sign name form, or shares most words with one
+export const matchesSignName = (placeName: string, variants: string[]): boolean => {
+  const place = normalizeSignText(placeName);
+  if (!place) return false;
+  const placeWords = new Set(place.split(' '));
+
+  return variants.some(variant => {
+    const sign = normalizeSignText(variant);
+    if (!sign) return false;
+    if (place.includes(sign) || sign.includes(place)) return true;
+
+    const signWords = sign.split(' ');
+    const shared = signWords.filter(word => placeWords.has(word)).length;
+    return shared / signWords.length >= 0.5;
+  });
+};
+
+// Text search with every sign name form; places whose names match the sign are listed first
+export const searchPlacesBySignText = async (
+  signText: SignTextResult | null | undefined,
+  latitude?: number,
+  longitude?: number
+): Promise<GooglePlace[]> => {
+  const variants = getSignNameVariants(signText);
+  if (variants.length === 0) return [];
+
+  const places = new Map<string, GooglePlace>();
+  for (const variant of variants) {
+    console.log(`🔤 Searching places by sign text: "${variant}"`);
+    const results = await searchPlacesByText(variant, latitude, longitude);
+    results.forEach(place => {
+      if (!places.has(place.place_id)) {
+        places.set(place.place_id, place);
+      }
+    });
+  }
+
+  const all = [...places.values()];
+  const matching = all.filter(place => matchesSignName(place.name, variants));
+  return [...matching, ...all.filter(place => !matching.includes(place))];
+};
@@ -3,22 +3,39 @@ import { supabase } from './supabase';
 import { decode } from 'base64-arraybuffer';
 import * as FileSystem from 'expo-file-system';
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { detectRedactionRegions, KeptExif, redactImage, stripJpegMetadata } from './privacy-redaction';
+import { computePerceptualHash } from '@/utils/image-processing';
 
 export interface ImageUploadResult {
   fullUrl: string;
   thumbnailUrl: string;
+  perceptualHash: string | null; // Of the uploaded image, for duplicate detection
 }
 
-export async function uploadImageAsync(uri: string): Promise<ImageUploadResult | null> {
+export interface ImageUploadOptions {
+  redacted?: boolean; // Already through redactImage (e.g. reviewed by the user); skips the detector
+  keptExif?: KeptExif;
+  perceptualHash?: string | null; // Already computed by the caller (e.g. to check for duplicates)
+}
+
+export async function uploadImageAsync(uri: string, options: ImageUploadOptions = {}): Promise<ImageUploadResult | null> {
   try {
     console.log('Starting dual-tier image processing and upload for URI:', uri);
 
+    // 0. Blur anything the detector finds in photos that have not been reviewed
+    const regions = options.redacted ? [] : await detectRedactionRegions(uri);
+    const sourceUri = regions.length > 0 ? await redactImage(uri, regions) : uri;
+
+    const perceptualHash = options.perceptualHash !== undefined && sourceUri === uri
+      ? options.perceptualHash
+      : await computePerceptualHash(sourceUri);
+
     const timestamp = Date.now();
     const bucketName = 'photos';
     
     // 1. Create full-size image (2K resolution)
     const fullSizeResult = await manipulateAsync(
-      uri,
+      sourceUri,
       [{ resize: { width: 2048 } }], // 2K for high-quality detail views
       { compress: 0.8, format: SaveFormat.JPEG }
     );
@@ -26,7 +43,7 @@ export async function uploadImageAsync(uri: string): Promise<ImageUploadResult |
 
     // 2. Create thumbnail (800px for fast loading)
     const thumbnailResult = await manipulateAsync(
-      uri,
+      sourceUri,
       [{ resize: { width: 800 } }], // 800px for fast discover page loading
       { compress: 0.7, format: SaveFormat.JPEG }
     );
@@ -47,17 +64,19 @@ export async function uploadImageAsync(uri: string): Promise<ImageUploadResult |
     const fullFileName = `full/${timestamp}.jpeg`;
     const thumbnailFileName = `thumbnails/${timestamp}.jpeg`;
 
-    // 5. Upload both images in parallel
+    // 5. Upload both images in parallel, without any EXIF beyond what the caller keeps
+    const toUploadBytes = (base64: string) =>
+      stripJpegMetadata(new Uint8Array(decode(base64)), options.keptExif);
     const [fullUpload, thumbnailUpload] = await Promise.all([
       supabase.storage
         .from(bucketName)
-        .upload(fullFileName, decode(fullBase64), {
+        .upload(fullFileName, toUploadBytes(fullBase64), {
           contentType: 'image/jpeg',
           upsert: false,
         }),
       supabase.storage
         .from(bucketName)
-        .upload(thumbnailFileName, decode(thumbnailBase64), {
+        .upload(thumbnailFileName, toUploadBytes(thumbnailBase64), {
           contentType: 'image/jpeg',
           upsert: false,
         })
@@ -100,7 +119,8 @@ export async function uploadImageAsync(uri: string): Promise<ImageUploadResult |
 
     const result = {
       fullUrl: fullUrlData.publicUrl,
-      thumbnailUrl: thumbnailUrlData.publicUrl
+      thumbnailUrl: thumbnailUrlData.publicUrl,
+      perceptualHash,
     };
 
     console.log('Public URLs retrieved:', result);
@@ -0,0 +1,98 @@
+// Client side of the proxy route quotas
+// Adds the Supabase access token to proxy requests and tracks the remaining
+// quota reported in response headers so screens can display it.
+import { supabase } from './supabase';
+import { QuotaFeature, UsageQuota, QUOTA_HEADERS } from '@/types/quota';
+
+type QuotaListener = (quotas: Partial<Record<QuotaFeature, UsageQuota>>) => void;
+
+export class QuotaExceededError extends Error {
+  public quota: UsageQuota | null;
+
+  constructor(quota: UsageQuota | null) {
+    super(
+      quota
+        ? `Monthly limit reached. Resets on ${new Date(quota.resetsAt).toLocaleDateString()}.`
+        : 'Monthly limit reached.'
+    );
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+  }
+}
+
+// Authorization header for /api/openai and /api/google-places
+export const getApiAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+};
+
+const parseLimit = (value: string | null): number | null =>
+  value === null || value === 'unlimited' ? null : Number(value);
+
+export const parseQuotaHeaders = (headers: Headers): UsageQuota | null => {
+  const feature = headers.get(QUOTA_HEADERS.feature) as QuotaFeature | null;
+  const reset = headers.get(QUOTA_HEADERS.reset);
+  if (!feature || !reset) return null;
+
+  const limit = parseLimit(headers.get(QUOTA_HEADERS.limit));
+  const remaining = parseLimit(headers.get(QUOTA_HEADERS.remaining));
+  return {
+    feature,
+    limit,
+    remaining,
+    used: limit !== null && remaining !== null ? limit - remaining : 0,
+    resetsAt: reset,
+  };
+};
+
+export class UsageQuotaTracker {
+  private static instance: UsageQuotaTracker;
+  private quotas: Partial<Record<QuotaFeature, UsageQuota>> = {};
+  private listeners = new Set<QuotaListener>();
+
+  static getInstance(): UsageQuotaTracker {
+    if (!UsageQuotaTracker.instance) {
+      UsageQuotaTracker.instance = new UsageQuotaTracker();
+    }
+    return UsageQuotaTracker.instance;
+  }
+
+  subscribe(listener: QuotaListener): () => void {
+    this.listeners.add(listener);
+    listener({ ...this.quotas });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getQuota(feature: QuotaFeature): UsageQuota | undefined {
+    return this.quotas[feature];
+  }
+
+  update(quota: UsageQuota): void {
+    this.quotas = { ...this.quotas, [quota.feature]: quota };
+    const snapshot = { ...this.quotas };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  // Record quota headers from a proxy response; throws QuotaExceededError on 429
+  async track(response: Response): Promise<void> {
+    const quota = parseQuotaHeaders(response.headers);
+    if (quota) {
+      this.update(quota);
+    }
+
+    if (response.status === 429) {
+      let bodyQuota: UsageQuota | null = null;
+      try {
+        bodyQuota = (await response.clone().json()).quota || null;
+      } catch {
+        // Fall back to header values
+      }
+      throw new QuotaExceededError(bodyQuota || quota);
+    }
+  }
+}
+
+// Export singleton instance
+export const usageQuotaTracker = UsageQuotaTracker.getInstance();
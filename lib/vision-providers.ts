@@ -0,0 +1,402 @@
+// Vision provider layer used by the /api/openai route
+// The route builds prompts and parses responses; providers only turn a prompt
+// (plus an optional image) into raw model text. Selected via VISION_PROVIDER.
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+
+export type VisionTask =
+  | 'analyze-storefront'
+  | 'quick-analysis'
+  | 'extract-sign-text'
+  | 'extract-menu'
+  | 'extract-hours'
+  | 'generate-review'
+  | 'summarize-reviews'
+  | 'translate-content';
+
+export interface VisionCompletionRequest {
+  task: VisionTask;
+  prompt: string;
+  imageUrl?: string;
+  additionalImageUrls?: string[]; // Further frames of the same subject, sent after imageUrl
+  maxTokens: number;
+  temperature?: number;
+  onText?: (textSoFar: string) => void; // Streams the response as it is generated, where the provider supports it
+}
+
+export interface VisionProvider {
+  name: string;
+  complete(request: VisionCompletionRequest): Promise<string>;
+}
+
+export type VisionProviderType = 'openai' | 'openai-compatible' | 'fixture';
+
+export class VisionProviderError extends Error {
+  constructor(
+    message: string,
+    public code: 'CONFIGURATION_ERROR' | 'API_ERROR'
+  ) {
+    super(message);
+    this.name = 'VisionProviderError';
+  }
+}
+
+// Model used per task; quick analysis trades accuracy for latency
+export interface VisionModelConfig {
+  default: string;
+  quick: string;
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: VisionModelConfig;
+}
+
+// Accumulate the text deltas of a server-sent chat completion stream
+const readCompletionStream = async (
+  response: Response,
+  onText: (textSoFar: string) => void
+): Promise<string | undefined> => {
+  if (!response.body) return undefined;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || payload === '' || payload === '[DONE]') continue;
+      const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta !== '') {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const createOpenAICompatibleProvider = ({
+  name,
+  baseUrl,
+  apiKey,
+  models,
+}: OpenAICompatibleConfig): VisionProvider => ({
+  name,
+  async complete({ task, prompt, imageUrl, additionalImageUrls = [], maxTokens, temperature, onText }) {
+    const content = imageUrl
+      ? [
+          { type: 'text', text: prompt },
+          ...[imageUrl, ...additionalImageUrls].map(url => ({ type: 'image_url', image_url: { url } })),
+        ]
+      : prompt;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    let text: unknown;
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: task === 'quick-analysis' ? models.quick : models.default,
+          messages: [{ role: 'user', content }],
+          max_tokens: maxTokens,
+          ...(temperature !== undefined && { temperature }),
+          ...(onText && { stream: true }),
+        }),
+      });
+      if (onText && response.ok) {
+        text = await readCompletionStream(response, onText);
+      } else {
+        const data = await response.json();
+        text = data?.choices?.[0]?.message?.content;
+      }
+    } catch {
+      throw new VisionProviderError(`${name} request failed`, 'API_ERROR');
+    }
+
+    if (typeof text !== 'string') {
+      throw new VisionProviderError(`Invalid ${name} response`, 'API_ERROR');
+    }
+    return text;
+  },
+});
+
+export const createOpenAIProvider = (apiKey: string, models: VisionModelConfig): VisionProvider =>
+  createOpenAICompatibleProvider({
+    name: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey,
+    models,
+  });
+
+// Fixture responses keyed by image hash (or prompt hash for text-only tasks)
+export type VisionFixtures = Record<string, Partial<Record<VisionTask, unknown>>>;
+
+const FALLBACK_BUSINESSES = [
+  { businessType: 'Restaurant', businessName: 'Pho Saigon', visualCues: ['dining tables', 'menu board'] },
+  { businessType: 'Cafe/Coffee Shop', businessName: 'Morning Brew', visualCues: ['espresso machine', 'pastry display'] },
+  { businessType: 'Spa/Massage', businessName: 'Lotus Spa', visualCues: ['massage chairs', 'soft lighting'] },
+  { businessType: 'Beauty/Hair Salon', businessName: 'Studio Cut', visualCues: ['salon chairs', 'mirrors'] },
+  { businessType: 'Retail/Store', businessName: 'Corner Market', visualCues: ['shelving', 'checkout counter'] },
+];
+
+export const hashContent = (content: string | Uint8Array): string =>
+  createHash('sha256').update(content).digest('hex');
+
+// Photos sent for analysis are resized on device, so anything far larger is not one of ours
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Hosts the server will download images from: the project's own storage
+const getImageHosts = (env: Record<string, string | undefined> = process.env): string[] =>
+  [env.SUPABASE_URL, env.EXPO_PUBLIC_SUPABASE_URL].flatMap(url => {
+    try {
+      return url ? [new URL(url).host] : [];
+    } catch {
+      return [];
+    }
+  });
+
+const readLimitedBody = async (response: Response, maxBytes: number): Promise<Uint8Array | null> => {
+  if (Number(response.headers.get('content-length')) > maxBytes) return null;
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  chunks.reduce((position, chunk) => {
+    bytes.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+  return bytes;
+};
+
+// Bytes of a data URL, or of an image in the project's storage. Other URLs are never fetched:
+// they come from the client, and the server must not be pointed at arbitrary hosts.
+export const readImageBytes = async (
+  imageUrl: string,
+  allowedHosts: string[] = getImageHosts(),
+  maxBytes = MAX_IMAGE_BYTES
+): Promise<Uint8Array | null> => {
+  const dataUrlMatch = imageUrl.match(/^data:[^;]+;base64,(.*)$/);
+  if (dataUrlMatch) {
+    const bytes = Buffer.from(dataUrlMatch[1], 'base64');
+    return bytes.length <= maxBytes ? new Uint8Array(bytes) : null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' || !allowedHosts.includes(url.host)) return null;
+
+  try {
+    const response = await fetch(url, { redirect: 'error' });
+    return response.ok ? await readLimitedBody(response, maxBytes) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Hash the image bytes so the same photo maps to the same fixture regardless of URL.
+// Falls back to hashing the URL itself when the image cannot be read (e.g. offline).
+export const hashImage = async (imageUrl: string): Promise<string> => {
+  const bytes = await readImageBytes(imageUrl);
+  return hashContent(bytes || imageUrl);
+};
+
+// Translations fall back to the untranslated content at the end of the prompt
+const readContentToTranslate = (prompt: string): unknown => {
+  try {
+    return JSON.parse(prompt.slice(prompt.lastIndexOf('Content:\n') + 'Content:\n'.length));
+  } catch {
+    return {};
+  }
+};
+
+// Deterministic response for inputs with no recorded fixture
+const buildFallbackResponse = (task: VisionTask, hash: string, prompt: string): unknown => {
+  const seed = parseInt(hash.slice(0, 8), 16);
+  const business = FALLBACK_BUSINESSES[seed % FALLBACK_BUSINESSES.length];
+  const confidence = 50 + (seed % 50);
+
+  switch (task) {
+    case 'quick-analysis':
+      return {
+        businessType: business.businessType,
+        confidence,
+        visualCues: business.visualCues,
+      };
+    case 'analyze-storefront':
+      return {
+        businessType: business.businessType,
+        businessName: business.businessName,
+        description: `Fixture storefront for ${business.businessName}`,
+        features: business.visualCues,
+        visualIndicators: business.visualCues,
+        confidence: {
+          businessType: confidence,
+          visualFeatures: confidence,
+          nameRecognition: confidence,
+        },
+        architecturalStyle: 'Standard storefront',
+      };
+    case 'extract-sign-text':
+      return {
+        primaryLanguage: 'en',
+        blocks: [{
+          text: business.businessName,
+          language: 'en',
+          boundingBox: { x: 0.2, y: 0.1, width: 0.6, height: 0.15 },
+          confidence,
+          isBusinessName: true,
+        }],
+        businessName: {
+          original: business.businessName,
+          language: 'en',
+          transliterated: business.businessName,
+          confidence,
+        },
+      };
+    case 'extract-menu':
+      return {
+        currency: 'USD',
+        language: 'en',
+        sections: [{
+          name: 'Menu',
+          items: [
+            { name: `${business.businessName} Special`, price: 12.5, priceText: '12.50' },
+            { name: 'House Drink', price: 4, priceText: '4.00' },
+          ],
+        }],
+      };
+    case 'extract-hours':
+      return {
+        days: [
+          ...['monday', 'tuesday', 'wednesday', 'thursday', 'friday'].map(day => ({
+            day,
+            closed: false,
+            shifts: [{ open: '11:00', close: '14:00' }, { open: '17:00', close: '22:00' }],
+          })),
+          { day: 'saturday', closed: false, shifts: [{ open: '10:00', close: '23:00' }] },
+          { day: 'sunday', closed: true, shifts: [] },
+        ],
+        confidence,
+      };
+    case 'generate-review':
+      return {
+        summary: 'Customers describe a reliable neighbourhood spot.',
+        pros: ['Friendly staff'],
+        cons: ['Can get busy'],
+        recommendations: ['Visit outside peak hours'],
+        overallSentiment: 'positive',
+        bestFor: ['Casual visits'],
+      };
+    case 'summarize-reviews':
+      return {
+        summary: 'Members and Google reviewers describe a reliable neighbourhood spot.',
+        summaryReviews: ['R1', 'G1'],
+        pros: [{ text: 'Friendly staff', reviews: ['R1'] }],
+        cons: [{ text: 'Can get busy', reviews: ['G1'] }],
+        recommendations: [{ text: 'Visit outside peak hours', reviews: ['G1'] }],
+        overallSentiment: 'positive',
+      };
+    case 'translate-content':
+      return readContentToTranslate(prompt);
+  }
+};
+
+export const createFixtureProvider = (
+  fixtures: VisionFixtures = {},
+  hasher: (imageUrl: string) => Promise<string> = hashImage
+): VisionProvider => ({
+  name: 'fixture',
+  async complete({ task, prompt, imageUrl, onText }) {
+    const hash = imageUrl ? await hasher(imageUrl) : hashContent(prompt);
+    const fixture = fixtures[hash]?.[task];
+    const response = fixture !== undefined ? fixture : buildFallbackResponse(task, hash, prompt);
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+    onText?.(text);
+    return text;
+  },
+});
+
+const loadFixtures = (path?: string): VisionFixtures => {
+  if (!path) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    throw new VisionProviderError(`Unable to read vision fixtures from ${path}`, 'CONFIGURATION_ERROR');
+  }
+};
+
+const isConfigured = (value?: string): value is string =>
+  !!value && value.trim() !== '' && value !== 'your_openai_api_key';
+
+// Build the provider selected by environment configuration
+export const createVisionProvider = (env: Record<string, string | undefined> = process.env): VisionProvider => {
+  const type = (env.VISION_PROVIDER || 'openai') as VisionProviderType;
+
+  switch (type) {
+    case 'openai': {
+      if (!isConfigured(env.OPENAI_API_KEY)) {
+        throw new VisionProviderError(
+          'The OPENAI_API_KEY environment variable is missing or invalid.',
+          'CONFIGURATION_ERROR'
+        );
+      }
+      return createOpenAIProvider(env.OPENAI_API_KEY, {
+        default: env.VISION_MODEL || 'gpt-4o',
+        quick: env.VISION_QUICK_MODEL || 'gpt-4o-mini',
+      });
+    }
+    case 'openai-compatible': {
+      if (!env.VISION_BASE_URL || !env.VISION_MODEL) {
+        throw new VisionProviderError(
+          'VISION_BASE_URL and VISION_MODEL are required for the openai-compatible provider.',
+          'CONFIGURATION_ERROR'
+        );
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl: env.VISION_BASE_URL,
+        apiKey: env.VISION_API_KEY,
+        models: {
+          default: env.VISION_MODEL,
+          quick: env.VISION_QUICK_MODEL || env.VISION_MODEL,
+        },
+      });
+    }
+    case 'fixture':
+      return createFixtureProvider(loadFixtures(env.VISION_FIXTURES_PATH));
+    default:
+      throw new VisionProviderError(`Unknown VISION_PROVIDER "${type}"`, 'CONFIGURATION_ERROR');
+  }
+};
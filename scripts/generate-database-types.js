@@ -0,0 +1,507 @@
+#!/usr/bin/env node
+// Generates types/database.ts from the SQL in supabase/migrations
+// Replays the migrations in order (tables, columns, enums, foreign keys and public functions)
+// and prints a `Database` type in the shape `supabase gen types typescript` produces, so the
+// Supabase client and repositories are typed without a running database.
+//
+//   npm run db:types           regenerate types/database.ts
+//   npm run db:types -- --check  exit 1 when types/database.ts is out of date
+/* global __dirname */
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+const MIGRATIONS_DIR = path.join(ROOT, 'supabase', 'migrations');
+const OUTPUT_FILE = path.join(ROOT, 'types', 'database.ts');
+
+// Remove comments, keeping quoted strings and dollar-quoted function bodies intact
+const stripComments = sql => {
+  let out = '';
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      out += '\n';
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 1;
+      out += ' ';
+    } else if (char === "'") {
+      const end = findQuoteEnd(sql, i);
+      out += sql.slice(i, end + 1);
+      i = end;
+    } else if (char === '$') {
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        const stop = end === -1 ? sql.length : end + tag[0].length;
+        out += sql.slice(i, stop);
+        i = stop - 1;
+      } else {
+        out += char;
+      }
+    } else {
+      out += char;
+    }
+  }
+  return out;
+};
+
+const findQuoteEnd = (sql, start) => {
+  for (let i = start + 1; i < sql.length; i++) {
+    if (sql[i] === "'") {
+      if (sql[i + 1] === "'") i++;
+      else return i;
+    }
+  }
+  return sql.length - 1;
+};
+
+// Split on top-level semicolons (not inside strings or dollar quotes)
+const splitStatements = sql => {
+  const statements = [];
+  let start = 0;
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === "'") {
+      i = findQuoteEnd(sql, i);
+    } else if (char === '$') {
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length - 1;
+      }
+    } else if (char === ';') {
+      statements.push(sql.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  statements.push(sql.slice(start).trim());
+  return statements.filter(Boolean);
+};
+
+// Split a parenthesised list on top-level commas
+const splitTopLevel = text => {
+  const parts = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") i = findQuoteEnd(text, i);
+    else if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+};
+
+// Contents of the parentheses opening at `open`
+const readParenthesised = (text, open) => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") i = findQuoteEnd(text, i);
+    else if (char === '(') depth++;
+    else if (char === ')') {
+      depth--;
+      if (depth === 0) return { body: text.slice(open + 1, i), end: i + 1 };
+    }
+  }
+  return { body: text.slice(open + 1), end: text.length };
+};
+
+const unquote = name => name.replace(/"/g, '');
+
+// "public.places" and "places" are both public.places; other schemas are ignored
+const readTableName = qualified => {
+  const parts = unquote(qualified).split('.');
+  return parts.length === 1 ? { schema: 'public', name: parts[0] } : { schema: parts[0], name: parts[1] };
+};
+
+const COLUMN_KEYWORDS = /^(NOT|NULL|DEFAULT|PRIMARY|REFERENCES|UNIQUE|CHECK|GENERATED|CONSTRAINT|COLLATE)\b/i;
+const TABLE_CONSTRAINTS = /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY|EXCLUDE)\b/i;
+
+// Split "name type modifiers..." into its parts
+const parseColumnDefinition = definition => {
+  const match = definition.match(/^("[^"]+"|[A-Za-z_][\w]*)\s+([\s\S]*)$/);
+  if (!match) return null;
+  const name = unquote(match[1]);
+  let rest = match[2];
+
+  // The type runs until the first constraint keyword at the top level
+  let typeEnd = rest.length;
+  let depth = 0;
+  for (let i = 0; i < rest.length; i++) {
+    const char = rest[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (depth === 0 && /\s/.test(char) && COLUMN_KEYWORDS.test(rest.slice(i + 1))) {
+      typeEnd = i;
+      break;
+    }
+  }
+  const type = rest.slice(0, typeEnd).trim();
+  const modifiers = rest.slice(typeEnd);
+  const references = modifiers.match(/\bREFERENCES\s+("?[\w.]+"?)\s*(?:\(\s*("?\w+"?)\s*\))?/i);
+  const primaryKey = /\bPRIMARY\s+KEY\b/i.test(modifiers);
+
+  return {
+    name,
+    type,
+    nullable: !primaryKey && !/\bNOT\s+NULL\b/i.test(modifiers),
+    hasDefault: /\bDEFAULT\b/i.test(modifiers) || /\bGENERATED\b/i.test(modifiers) || /serial$/i.test(type),
+    primaryKey,
+    unique: primaryKey || /\bUNIQUE\b/i.test(modifiers),
+    references: references
+      ? { table: readTableName(references[1]), column: references[2] ? unquote(references[2]) : 'id' }
+      : null,
+  };
+};
+
+const createSchema = () => ({ tables: new Map(), enums: new Map(), functions: new Map() });
+
+const addForeignKey = (table, columns, referenced, referencedColumns) => {
+  if (referenced.schema !== 'public') return;
+  table.foreignKeys.push({
+    foreignKeyName: `${table.name}_${columns.join('_')}_fkey`,
+    columns,
+    referencedRelation: referenced.name,
+    referencedColumns,
+  });
+};
+
+const addColumn = (table, column) => {
+  table.columns.set(column.name, column);
+  if (column.references) {
+    addForeignKey(table, [column.name], column.references.table, [column.references.column]);
+  }
+};
+
+const readColumnList = text => splitTopLevel(text).map(unquote);
+
+const applyTableConstraint = (table, definition) => {
+  const body = definition.replace(/^CONSTRAINT\s+\S+\s+/i, '');
+  const primaryKey = body.match(/^PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+  if (primaryKey) {
+    const columns = readColumnList(primaryKey[1]);
+    columns.forEach(name => {
+      const column = table.columns.get(name);
+      if (column) column.nullable = false;
+    });
+    if (columns.length === 1) table.uniqueColumns.add(columns[0]);
+    return;
+  }
+  const unique = body.match(/^UNIQUE\s*\(([^)]*)\)/i);
+  if (unique) {
+    const columns = readColumnList(unique[1]);
+    if (columns.length === 1) table.uniqueColumns.add(columns[0]);
+    return;
+  }
+  const foreignKey = body.match(/^FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+("?[\w.]+"?)\s*(?:\(([^)]*)\))?/i);
+  if (foreignKey) {
+    addForeignKey(
+      table,
+      readColumnList(foreignKey[1]),
+      readTableName(foreignKey[2]),
+      foreignKey[3] ? readColumnList(foreignKey[3]) : ['id']
+    );
+  }
+};
+
+const createTable = (schema, statement) => {
+  const header = statement.match(/^CREATE\s+(?:UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?("?[\w.]+"?)\s*\(/i);
+  if (!header) return;
+  const { schema: tableSchema, name } = readTableName(header[1]);
+  if (tableSchema !== 'public') return;
+  if (schema.tables.has(name) && /IF\s+NOT\s+EXISTS/i.test(statement)) return;
+
+  const table = { name, columns: new Map(), foreignKeys: [], uniqueColumns: new Set() };
+  const { body } = readParenthesised(statement, header[0].length - 1);
+  splitTopLevel(body).forEach(definition => {
+    if (TABLE_CONSTRAINTS.test(definition)) {
+      applyTableConstraint(table, definition);
+      return;
+    }
+    const column = parseColumnDefinition(definition);
+    if (column) addColumn(table, column);
+  });
+  schema.tables.set(name, table);
+};
+
+const alterTable = (schema, statement) => {
+  const header = statement.match(/^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?("?[\w.]+"?)\s+([\s\S]*)$/i);
+  if (!header) return;
+  const { schema: tableSchema, name } = readTableName(header[1]);
+  const table = schema.tables.get(name);
+  if (tableSchema !== 'public' || !table) return;
+
+  const renameTable = header[2].match(/^RENAME\s+TO\s+("?\w+"?)/i);
+  if (renameTable) {
+    schema.tables.delete(name);
+    table.name = unquote(renameTable[1]);
+    schema.tables.set(table.name, table);
+    return;
+  }
+
+  splitTopLevel(header[2]).forEach(action => {
+    const add = action.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i);
+    if (add && !TABLE_CONSTRAINTS.test(add[1])) {
+      const column = parseColumnDefinition(add[1]);
+      if (column && !table.columns.has(column.name)) addColumn(table, column);
+      return;
+    }
+    if (add) {
+      applyTableConstraint(table, add[1]);
+      return;
+    }
+    const drop = action.match(/^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?("?\w+"?)/i);
+    if (drop && !/^DROP\s+CONSTRAINT/i.test(action)) {
+      const column = unquote(drop[1]);
+      table.columns.delete(column);
+      table.foreignKeys = table.foreignKeys.filter(key => !key.columns.includes(column));
+      return;
+    }
+    const rename = action.match(/^RENAME\s+(?:COLUMN\s+)?("?\w+"?)\s+TO\s+("?\w+"?)/i);
+    if (rename) {
+      const column = table.columns.get(unquote(rename[1]));
+      if (!column) return;
+      table.columns.delete(column.name);
+      column.name = unquote(rename[2]);
+      table.columns.set(column.name, column);
+      return;
+    }
+    const alter = action.match(/^ALTER\s+(?:COLUMN\s+)?("?\w+"?)\s+([\s\S]+)$/i);
+    const column = alter && table.columns.get(unquote(alter[1]));
+    if (!column) return;
+    const change = alter[2];
+    if (/^SET\s+NOT\s+NULL/i.test(change)) column.nullable = false;
+    else if (/^DROP\s+NOT\s+NULL/i.test(change)) column.nullable = true;
+    else if (/^SET\s+DEFAULT/i.test(change)) column.hasDefault = true;
+    else if (/^DROP\s+DEFAULT/i.test(change)) column.hasDefault = false;
+    else {
+      const type = change.match(/^(?:SET\s+DATA\s+)?TYPE\s+([\s\S]+?)(?:\s+USING\b[\s\S]*)?$/i);
+      if (type) column.type = type[1].trim();
+    }
+  });
+};
+
+const createEnum = (schema, statement) => {
+  const match = statement.match(/^CREATE\s+TYPE\s+("?[\w.]+"?)\s+AS\s+ENUM\s*\(([\s\S]*)\)$/i);
+  if (!match) return;
+  const { schema: typeSchema, name } = readTableName(match[1]);
+  if (typeSchema !== 'public') return;
+  schema.enums.set(name, splitTopLevel(match[2]).map(value => value.replace(/^'|'$/g, '')));
+};
+
+const alterEnum = (schema, statement) => {
+  const match = statement.match(/^ALTER\s+TYPE\s+("?[\w.]+"?)\s+ADD\s+VALUE\s+(?:IF\s+NOT\s+EXISTS\s+)?'([^']*)'/i);
+  const values = match && schema.enums.get(readTableName(match[1]).name);
+  if (values && !values.includes(match[2])) values.push(match[2]);
+};
+
+// Functions returning triggers are not callable over RPC
+const createFunction = (schema, statement) => {
+  const header = statement.match(/^CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+("?[\w.]+"?)\s*\(/i);
+  if (!header) return;
+  const { schema: functionSchema, name } = readTableName(header[1]);
+  if (functionSchema !== 'public') return;
+
+  const { body, end } = readParenthesised(statement, header[0].length - 1);
+  const returns = statement.slice(end).match(/^\s*RETURNS\s+(TABLE\s*\(|SETOF\s+|)([\s\S]*?)\s+(?:AS\b|LANGUAGE\b)/i);
+  if (!returns) return;
+  if (/^trigger$/i.test(returns[2].trim())) return;
+
+  const args = splitTopLevel(body)
+    .map(arg => arg.replace(/^(IN|INOUT|VARIADIC)\s+/i, ''))
+    .filter(arg => !/^OUT\s+/i.test(arg))
+    .map(arg => {
+      const match = arg.match(/^("?\w+"?)\s+([\s\S]+?)(?:\s+(DEFAULT\b|=)[\s\S]*)?$/i);
+      return match ? { name: unquote(match[1]), type: match[2].trim(), optional: !!match[3] } : null;
+    })
+    .filter(Boolean);
+
+  let returnType;
+  if (/^TABLE/i.test(returns[1])) {
+    const open = statement.indexOf('(', end + statement.slice(end).search(/TABLE\s*\(/i));
+    returnType = {
+      kind: 'table',
+      columns: splitTopLevel(readParenthesised(statement, open).body).map(parseColumnDefinition).filter(Boolean),
+    };
+  } else {
+    returnType = { kind: returns[1] ? 'setof' : 'scalar', type: returns[2].trim() };
+  }
+  schema.functions.set(name, { name, args, returns: returnType });
+};
+
+const dropStatement = (schema, statement) => {
+  const table = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?("?[\w.]+"?)/i);
+  if (table) {
+    schema.tables.delete(readTableName(table[1]).name);
+    return;
+  }
+  const fn = statement.match(/^DROP\s+FUNCTION\s+(?:IF\s+EXISTS\s+)?("?[\w.]+"?)/i);
+  if (fn) schema.functions.delete(readTableName(fn[1]).name);
+  const type = statement.match(/^DROP\s+TYPE\s+(?:IF\s+EXISTS\s+)?("?[\w.]+"?)/i);
+  if (type) schema.enums.delete(readTableName(type[1]).name);
+};
+
+// Apply migration files (already in order) to an empty schema
+const parseMigrations = sqlFiles => {
+  const schema = createSchema();
+  sqlFiles.forEach(sql => {
+    splitStatements(stripComments(sql)).forEach(raw => {
+      const statement = raw.replace(/\s+/g, ' ').trim();
+      if (/^CREATE\s+(UNLOGGED\s+)?TABLE/i.test(statement)) createTable(schema, statement);
+      else if (/^ALTER\s+TABLE/i.test(statement)) alterTable(schema, statement);
+      else if (/^CREATE\s+TYPE/i.test(statement)) createEnum(schema, statement);
+      else if (/^ALTER\s+TYPE/i.test(statement)) alterEnum(schema, statement);
+      else if (/^CREATE\s+(OR\s+REPLACE\s+)?FUNCTION/i.test(statement)) createFunction(schema, raw.trim());
+      else if (/^DROP\s+/i.test(statement)) dropStatement(schema, statement);
+    });
+  });
+  return schema;
+};
+
+const SCALAR_TYPES = [
+  [/^(uuid|text|citext|varchar|character varying|char|character|bpchar|name|date|time|timetz|timestamp|timestamptz|interval|inet|cidr|macaddr|bytea)\b/i, 'string'],
+  [/^(time|timestamp) with(out)? time zone$/i, 'string'],
+  [/^(smallint|integer|int|int2|int4|int8|bigint|serial|bigserial|smallserial|decimal|numeric|real|float4|float8|double precision|money)\b/i, 'number'],
+  [/^(boolean|bool)$/i, 'boolean'],
+  [/^(json|jsonb)$/i, 'Json'],
+  [/^void$/i, 'undefined'],
+];
+
+const toTsType = (schema, sqlType) => {
+  const type = sqlType.trim().replace(/\s+/g, ' ');
+  const array = type.match(/^([\s\S]+?)\s*(\[\s*\d*\s*\])+$/) || type.match(/^([\s\S]+?)\s+ARRAY$/i);
+  if (array) return `${toTsType(schema, array[1])}[]`;
+
+  const base = readTableName(type.replace(/\s*\(.*\)$/, '')).name;
+  if (schema.enums.has(base)) return `Database["public"]["Enums"]["${base}"]`;
+  if (schema.tables.has(base)) return `Database["public"]["Tables"]["${base}"]["Row"]`;
+  const scalar = SCALAR_TYPES.find(([pattern]) => pattern.test(type));
+  return scalar ? scalar[1] : 'unknown';
+};
+
+const renderFields = (fields, indent) =>
+  fields.length === 0 ? '{\n' + indent + '  [_ in never]: never\n' + indent + '}' :
+    '{\n' + fields.map(field => `${indent}  ${field}`).join('\n') + '\n' + indent + '}';
+
+const renderTable = (schema, table) => {
+  const columns = [...table.columns.values()];
+  const typeOf = column => `${toTsType(schema, column.type)}${column.nullable ? ' | null' : ''}`;
+  const insertOptional = column => column.nullable || column.hasDefault;
+  const relationships = table.foreignKeys.map(key => [
+    '          {',
+    `            foreignKeyName: "${key.foreignKeyName}"`,
+    `            columns: [${key.columns.map(column => `"${column}"`).join(', ')}]`,
+    `            isOneToOne: ${key.columns.length === 1 && (table.uniqueColumns.has(key.columns[0]) || !!table.columns.get(key.columns[0])?.unique)}`,
+    `            referencedRelation: "${key.referencedRelation}"`,
+    `            referencedColumns: [${key.referencedColumns.map(column => `"${column}"`).join(', ')}]`,
+    '          },',
+  ].join('\n'));
+
+  return [
+    `      ${table.name}: {`,
+    `        Row: ${renderFields(columns.map(column => `${column.name}: ${typeOf(column)}`), '        ')}`,
+    `        Insert: ${renderFields(columns.map(column => `${column.name}${insertOptional(column) ? '?' : ''}: ${typeOf(column)}`), '        ')}`,
+    `        Update: ${renderFields(columns.map(column => `${column.name}?: ${typeOf(column)}`), '        ')}`,
+    relationships.length > 0
+      ? `        Relationships: [\n${relationships.join('\n')}\n        ]`
+      : '        Relationships: []',
+    '      }',
+  ].join('\n');
+};
+
+const renderFunction = (schema, fn) => {
+  const args = fn.args.length > 0
+    ? renderFields(fn.args.map(arg => `${arg.name}${arg.optional ? '?' : ''}: ${toTsType(schema, arg.type)}`), '        ')
+    : 'Record<PropertyKey, never>';
+  let returns;
+  if (fn.returns.kind === 'table') {
+    returns = `${renderFields(fn.returns.columns.map(column => `${column.name}: ${toTsType(schema, column.type)}`), '        ')}[]`;
+  } else if (fn.returns.kind === 'setof') {
+    returns = `${toTsType(schema, fn.returns.type)}[]`;
+  } else {
+    returns = toTsType(schema, fn.returns.type);
+  }
+  return [
+    `      ${fn.name}: {`,
+    `        Args: ${args}`,
+    `        Returns: ${returns}`,
+    '      }',
+  ].join('\n');
+};
+
+const byName = (a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+const renderDatabaseTypes = schema => {
+  const tables = [...schema.tables.values()].sort(byName).map(table => renderTable(schema, table));
+  const functions = [...schema.functions.values()].sort(byName).map(fn => renderFunction(schema, fn));
+  const enums = [...schema.enums.entries()].sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([name, values]) => `      ${name}: ${values.map(value => `"${value}"`).join(' | ')}`);
+  const section = entries =>
+    entries.length > 0 ? `{\n${entries.join('\n')}\n    }` : '{\n      [_ in never]: never\n    }';
+
+  return `// Generated by scripts/generate-database-types.js from supabase/migrations. Do not edit by hand:
+// change the schema with a new migration, then run \`npm run db:types\`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: ${section(tables)}
+    Views: {
+      [_ in never]: never
+    }
+    Functions: ${section(functions)}
+    Enums: ${section(enums)}
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
+`;
+};
+
+const readMigrations = (dir = MIGRATIONS_DIR) =>
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => fs.readFileSync(path.join(dir, file), 'utf8'));
+
+const generateDatabaseTypes = (dir = MIGRATIONS_DIR) => renderDatabaseTypes(parseMigrations(readMigrations(dir)));
+
+if (require.main === module) {
+  const output = generateDatabaseTypes();
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf8') : '';
+    if (current !== output) {
+      console.error('types/database.ts is out of date with supabase/migrations. Run `npm run db:types`.');
+      process.exit(1);
+    }
+    console.log('types/database.ts is up to date.');
+  } else {
+    fs.writeFileSync(OUTPUT_FILE, output);
+    console.log(`Wrote ${path.relative(ROOT, OUTPUT_FILE)}`);
+  }
+}
+
+module.exports = { parseMigrations, renderDatabaseTypes, generateDatabaseTypes, OUTPUT_FILE };
@@ -0,0 +1,137 @@
+-- Per-user quotas for the /api/openai and /api/google-places proxy routes
+-- Adds the 'ai_requests' and 'places_requests' features to the existing
+-- usage_tracking / check_subscription_limit setup, metered through reserve_usage / release_usage.
+
+-- Signed-in users may only look up their own tier and usage; the API routes call these
+-- with the service role on behalf of whoever made the request
+CREATE OR REPLACE FUNCTION assert_own_usage(p_user_id UUID) RETURNS VOID AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Cannot read another user''s usage';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Monthly limit for a feature on the user's tier (-1 = unlimited)
+CREATE OR REPLACE FUNCTION get_feature_limit(
+  p_user_id UUID,
+  p_feature TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_tier subscription_tier;
+BEGIN
+  PERFORM assert_own_usage(p_user_id);
+
+  SELECT subscription_tier INTO v_tier
+  FROM profiles
+  WHERE id = p_user_id;
+
+  RETURN CASE p_feature
+    WHEN 'places_added' THEN
+      CASE v_tier WHEN 'basic' THEN 50 WHEN 'pro' THEN -1 ELSE 5 END
+    WHEN 'collections' THEN
+      CASE v_tier WHEN 'basic' THEN 10 WHEN 'pro' THEN -1 ELSE 1 END
+    WHEN 'ai_requests' THEN
+      CASE v_tier WHEN 'basic' THEN 300 WHEN 'pro' THEN 3000 ELSE 30 END
+    WHEN 'places_requests' THEN
+      CASE v_tier WHEN 'basic' THEN 5000 WHEN 'pro' THEN 30000 ELSE 500 END
+    ELSE -1 -- No limit for unknown features
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Same contract as before, now backed by get_feature_limit
+CREATE OR REPLACE FUNCTION check_subscription_limit(
+  p_user_id UUID,
+  p_feature TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_current_usage INTEGER;
+  v_limit INTEGER;
+BEGIN
+  SELECT COALESCE(usage_count, 0) INTO v_current_usage
+  FROM usage_tracking
+  WHERE user_id = p_user_id
+    AND feature = p_feature
+    AND month = DATE_TRUNC('month', CURRENT_DATE)::DATE;
+
+  v_limit := get_feature_limit(p_user_id, p_feature);
+
+  -- Return true if unlimited or under limit
+  RETURN v_limit = -1 OR COALESCE(v_current_usage, 0) < v_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Current month's usage and limit, used for remaining-quota headers
+CREATE OR REPLACE FUNCTION get_usage_quota(
+  p_user_id UUID,
+  p_feature TEXT
+) RETURNS TABLE (usage_limit INTEGER, usage_count INTEGER) AS $$
+BEGIN
+  PERFORM assert_own_usage(p_user_id);
+
+  RETURN QUERY
+  SELECT
+    get_feature_limit(p_user_id, p_feature),
+    COALESCE((
+      SELECT ut.usage_count
+      FROM usage_tracking ut
+      WHERE ut.user_id = p_user_id
+        AND ut.feature = p_feature
+        AND ut.month = DATE_TRUNC('month', CURRENT_DATE)::DATE
+    ), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_feature_limit(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_usage_quota(UUID, TEXT) TO authenticated;
+
+-- Count one request against the quota if the user is still under the limit. A single upsert,
+-- so concurrent requests can't both take the last unit. Returns false once the limit is reached.
+CREATE OR REPLACE FUNCTION reserve_usage(
+  p_user_id UUID,
+  p_feature TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_limit INTEGER;
+BEGIN
+  v_limit := get_feature_limit(p_user_id, p_feature);
+  IF v_limit = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO usage_tracking (user_id, feature, usage_count, month)
+  VALUES (p_user_id, p_feature, 1, DATE_TRUNC('month', CURRENT_DATE)::DATE)
+  ON CONFLICT (user_id, feature, month)
+  DO UPDATE SET
+    usage_count = usage_tracking.usage_count + 1,
+    updated_at = NOW()
+  WHERE v_limit = -1 OR usage_tracking.usage_count < v_limit;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give back a reservation for a request that ended up doing no metered work
+CREATE OR REPLACE FUNCTION release_usage(
+  p_user_id UUID,
+  p_feature TEXT
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE usage_tracking
+  SET usage_count = usage_count - 1,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND feature = p_feature
+    AND month = DATE_TRUNC('month', CURRENT_DATE)::DATE
+    AND usage_count > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Metering is server-side only: clients could otherwise bump or give back anyone's usage
+REVOKE EXECUTE ON FUNCTION reserve_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_usage(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_usage(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION increment_usage(UUID, TEXT) TO service_role;
@@ -0,0 +1,106 @@
+-- Structured menus for places
+-- Extracted from menu / price-board photos on the capture screen. Readable wherever the
+-- place itself is visible (public, or the viewer's own) and editable by the place's owner and
+-- admins. One menu per place; sections and items are stored as JSONB:
+--   [{ "name": "Noodles", "items": [{ "id": "...", "name": "Phở bò", "description": "...", "price": 65000 }] }]
+
+CREATE TABLE IF NOT EXISTS place_menus (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id uuid NOT NULL UNIQUE REFERENCES places(id) ON DELETE CASCADE,
+  currency text NOT NULL DEFAULT 'USD', -- ISO 4217 code
+  sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  source_photo_url text,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (jsonb_typeof(sections) = 'array')
+);
+
+ALTER TABLE place_menus ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read menus of places they can see"
+  ON place_menus
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM places p
+    WHERE p.id = place_menus.place_id
+      AND (p.is_public OR p.added_by = auth.uid() OR is_admin(auth.uid()))
+  ));
+
+CREATE POLICY "Place owners and admins can add place menus"
+  ON place_menus
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = updated_by
+    AND EXISTS (
+      SELECT 1 FROM places p
+      WHERE p.id = place_menus.place_id
+        AND (p.added_by = auth.uid() OR is_admin(auth.uid()))
+    )
+  );
+
+CREATE POLICY "Place owners and admins can update place menus"
+  ON place_menus
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM places p
+    WHERE p.id = place_menus.place_id
+      AND (p.added_by = auth.uid() OR is_admin(auth.uid()))
+  ))
+  WITH CHECK (auth.uid() = updated_by);
+
+CREATE POLICY "Admins can delete place menus"
+  ON place_menus
+  FOR DELETE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_place_menus_updated_at BEFORE UPDATE ON place_menus FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Item names are searched case-insensitively ("pho" matches "Phở bò" via unaccent below)
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE INDEX IF NOT EXISTS idx_place_menus_sections ON place_menus USING GIN (sections jsonb_path_ops);
+
+-- Places whose menu has an item matching p_item_query, optionally at or under p_max_price
+-- (in p_currency). Returns the cheapest matching item per place.
+CREATE OR REPLACE FUNCTION search_places_by_menu(
+  p_item_query text,
+  p_max_price numeric DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_limit integer DEFAULT 50
+) RETURNS TABLE (
+  place_id uuid,
+  item_name text,
+  section_name text,
+  price numeric,
+  currency text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT ON (m.place_id)
+    m.place_id,
+    item->>'name',
+    section->>'name',
+    CASE WHEN jsonb_typeof(item->'price') = 'number' THEN (item->>'price')::numeric END,
+    m.currency
+  FROM place_menus m
+  CROSS JOIN LATERAL jsonb_array_elements(m.sections) AS section
+  CROSS JOIN LATERAL jsonb_array_elements(section->'items') AS item
+  WHERE (
+      unaccent(lower(item->>'name')) LIKE '%' || unaccent(lower(p_item_query)) || '%'
+      OR unaccent(lower(COALESCE(item->>'description', ''))) LIKE '%' || unaccent(lower(p_item_query)) || '%'
+    )
+    AND (p_currency IS NULL OR m.currency = upper(p_currency))
+    AND (
+      p_max_price IS NULL
+      OR CASE WHEN jsonb_typeof(item->'price') = 'number' THEN (item->>'price')::numeric <= p_max_price ELSE false END
+    )
+  ORDER BY m.place_id, CASE WHEN jsonb_typeof(item->'price') = 'number' THEN (item->>'price')::numeric END ASC NULLS LAST
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_places_by_menu(text, numeric, text, integer) TO authenticated;
@@ -0,0 +1,73 @@
+-- Capture outcomes per AI prompt version
+-- /api/openai returns the prompt version (and experiment, if any) behind each analysis.
+-- Once the user settles on a place the capture screen records one row per prompt that
+-- fed the result, so prompt experiment variants can be compared on real corrections.
+
+CREATE TABLE IF NOT EXISTS prompt_outcomes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  task text NOT NULL, -- e.g. 'analyze-storefront'
+  prompt_version text NOT NULL, -- e.g. 'analyze-storefront@v2'
+  experiment_id text, -- NULL when the user was not in an experiment
+  route text NOT NULL CHECK (route IN ('place_card', 'confirm_candidates', 'manual_search')),
+  outcome text NOT NULL CHECK (outcome IN ('accepted_top_match', 'picked_other_candidate', 'searched')),
+  selected_rank integer NOT NULL DEFAULT -1, -- Position of the chosen place in the routed candidates, -1 if not listed
+  wrong_place_taps integer NOT NULL DEFAULT 0,
+  confidence numeric, -- Overall analysis confidence, 0-100
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE prompt_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their own prompt outcomes"
+  ON prompt_outcomes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read prompt outcomes"
+  ON prompt_outcomes
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_prompt_outcomes_version ON prompt_outcomes (task, prompt_version, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_prompt_outcomes_experiment ON prompt_outcomes (experiment_id, created_at DESC)
+  WHERE experiment_id IS NOT NULL;
+
+-- Per prompt version (and experiment) results since p_since, for the admin comparison view
+CREATE OR REPLACE FUNCTION get_prompt_variant_stats(
+  p_since timestamptz DEFAULT now() - interval '30 days'
+) RETURNS TABLE (
+  task text,
+  prompt_version text,
+  experiment_id text,
+  captures bigint,
+  accepted_top_match bigint,
+  searched bigint,
+  avg_wrong_place_taps numeric,
+  avg_confidence numeric
+) AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.task,
+    o.prompt_version,
+    o.experiment_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.outcome = 'accepted_top_match' AND o.wrong_place_taps = 0),
+    COUNT(*) FILTER (WHERE o.outcome = 'searched'),
+    ROUND(AVG(o.wrong_place_taps), 2),
+    ROUND(AVG(o.confidence), 1)
+  FROM prompt_outcomes o
+  WHERE o.created_at >= p_since
+  GROUP BY o.task, o.prompt_version, o.experiment_id
+  ORDER BY o.task, o.experiment_id NULLS LAST, o.prompt_version;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_prompt_variant_stats(timestamptz) TO authenticated;
@@ -0,0 +1,7 @@
+-- Perceptual hashes for place photos
+-- The app computes a 64-bit dHash (16 hex characters) on device before uploading a photo and
+-- compares it with the hashes of the place's existing photos, so the same image is not stored
+-- twice. Rows added before this migration have no hash and are never reported as duplicates.
+
+ALTER TABLE place_photos ADD COLUMN IF NOT EXISTS perceptual_hash text
+  CHECK (perceptual_hash IS NULL OR perceptual_hash ~ '^[0-9a-f]{16}$');
@@ -0,0 +1,131 @@
+-- History and attribution for AI review summaries
+-- places.ai_summary / pros / cons / recommendations are written once at capture time from
+-- Google reviews. The summary regeneration job (/api/summaries) re-summarises places whose
+-- in-app reviews changed materially, blending them with the place's Google reviews. Each
+-- generated summary is kept in place_summaries (newest row = current), and the reviews the
+-- model cited are recorded in place_summary_reviews. Both are written by the job with the
+-- service role; signed-in users can read those of places they can see. Failed attempts back off through
+-- place_summary_failures.
+
+CREATE TABLE IF NOT EXISTS place_summaries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id uuid NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  summary text NOT NULL,
+  pros text[] NOT NULL DEFAULT '{}',
+  cons text[] NOT NULL DEFAULT '{}',
+  recommendations text[] NOT NULL DEFAULT '{}',
+  overall_sentiment text CHECK (overall_sentiment IN ('positive', 'neutral', 'negative')),
+  google_review_count integer NOT NULL DEFAULT 0,
+  in_app_review_count integer NOT NULL DEFAULT 0,
+  in_app_average_rating numeric, -- Of all in-app reviews when the summary was generated
+  prompt_version text, -- e.g. 'summarize-reviews@v1'; NULL for summaries written at capture time
+  trigger text NOT NULL CHECK (trigger IN ('capture', 'regeneration')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS place_summary_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id uuid NOT NULL REFERENCES place_summaries(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('google', 'in_app')),
+  review_id uuid REFERENCES reviews(id) ON DELETE SET NULL, -- In-app reviews only
+  google_author text, -- Google reviews only; Google review ids are not exposed
+  rating integer NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  cited_in text[] NOT NULL DEFAULT '{}', -- e.g. {summary,pros:0,cons:1}
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE place_summaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE place_summary_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read summaries of places they can see"
+  ON place_summaries
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM places p
+    WHERE p.id = place_summaries.place_id
+      AND (p.is_public OR p.added_by = auth.uid() OR is_admin(auth.uid()))
+  ));
+
+CREATE POLICY "Users can read summary reviews of places they can see"
+  ON place_summary_reviews
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM place_summaries s
+    JOIN places p ON p.id = s.place_id
+    WHERE s.id = place_summary_reviews.summary_id
+      AND (p.is_public OR p.added_by = auth.uid() OR is_admin(auth.uid()))
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_place_summaries_place_id ON place_summaries(place_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_place_summary_reviews_summary_id ON place_summary_reviews(summary_id);
+CREATE INDEX IF NOT EXISTS idx_place_summary_reviews_review_id ON place_summary_reviews(review_id);
+
+-- When the job last looked at the place's reviews, whether or not it regenerated the summary
+ALTER TABLE places ADD COLUMN IF NOT EXISTS summary_checked_at timestamptz;
+
+-- Places the job failed to re-summarise, so a place that keeps failing waits longer between
+-- attempts instead of taking a slot in every run. Cleared once the place is checked. Only
+-- the job (service role) reads or writes it.
+CREATE TABLE IF NOT EXISTS place_summary_failures (
+  place_id uuid PRIMARY KEY REFERENCES places(id) ON DELETE CASCADE,
+  attempts integer NOT NULL DEFAULT 1,
+  last_error text,
+  failed_at timestamptz NOT NULL DEFAULT now(),
+  retry_at timestamptz NOT NULL
+);
+
+ALTER TABLE place_summary_failures ENABLE ROW LEVEL SECURITY;
+
+-- Record a failed attempt; the wait doubles from 15 minutes up to a day
+CREATE OR REPLACE FUNCTION record_summary_failure(p_place_id uuid, p_error text)
+RETURNS timestamptz AS $$
+DECLARE
+  next_attempt timestamptz;
+BEGIN
+  INSERT INTO place_summary_failures (place_id, attempts, last_error, failed_at, retry_at)
+  VALUES (p_place_id, 1, p_error, now(), now() + interval '15 minutes')
+  ON CONFLICT (place_id) DO UPDATE
+  SET attempts = place_summary_failures.attempts + 1,
+      last_error = EXCLUDED.last_error,
+      failed_at = EXCLUDED.failed_at,
+      retry_at = now() + LEAST(
+        interval '15 minutes' * power(2, LEAST(place_summary_failures.attempts, 10)),
+        interval '1 day'
+      )
+  RETURNING retry_at INTO next_attempt;
+
+  RETURN next_attempt;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_summary_failure(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_summary_failure(uuid, text) TO service_role;
+
+-- Places with in-app reviews written or edited since the job last checked them, oldest first,
+-- leaving out places still waiting to retry after a failure
+CREATE OR REPLACE FUNCTION get_places_with_review_changes(p_limit integer DEFAULT 25)
+RETURNS TABLE (place_id uuid, last_review_at timestamptz) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.id, latest.last_review_at
+  FROM places p
+  CROSS JOIN LATERAL (
+    SELECT max(GREATEST(r.created_at, r.updated_at)) AS last_review_at
+    FROM reviews r
+    WHERE r.place_id = p.id
+  ) latest
+  LEFT JOIN place_summary_failures f ON f.place_id = p.id
+  WHERE latest.last_review_at IS NOT NULL
+    AND latest.last_review_at > COALESCE(p.summary_checked_at, p.created_at)
+    AND (f.retry_at IS NULL OR f.retry_at <= now())
+  ORDER BY latest.last_review_at ASC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_places_with_review_changes(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_places_with_review_changes(integer) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_place_id_updated_at ON reviews(place_id, updated_at DESC);
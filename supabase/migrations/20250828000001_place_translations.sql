@@ -0,0 +1,51 @@
+-- Cached translations of place AI summaries
+-- places.ai_summary / pros / cons / recommendations stay in English, the canonical copy
+-- that search runs against. /api/openai translates them into the viewer's language on first
+-- request and caches the result here, one row per place and language, written with the
+-- service role. When the English summary changes the cached translations are dropped, and
+-- the summary job re-translates the new summary into the languages that had been cached.
+
+CREATE TABLE IF NOT EXISTS place_translations (
+  place_id uuid NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  language text NOT NULL CHECK (language ~ '^[a-z]{2}$'), -- AppSettings.language, e.g. 'es'
+  ai_summary text NOT NULL DEFAULT '',
+  pros text[] NOT NULL DEFAULT '{}',
+  cons text[] NOT NULL DEFAULT '{}',
+  recommendations text[] NOT NULL DEFAULT '{}',
+  prompt_version text, -- e.g. 'translate-content@v1'
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (place_id, language)
+);
+
+ALTER TABLE place_translations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read translations of places they can see"
+  ON place_translations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM places p
+    WHERE p.id = place_translations.place_id
+      AND (p.is_public OR p.added_by = auth.uid() OR is_admin(auth.uid()))
+  ));
+
+-- A translation is only valid for the English summary it was made from
+CREATE OR REPLACE FUNCTION clear_place_translations()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM place_translations WHERE place_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS clear_place_translations_on_summary_change ON places;
+CREATE TRIGGER clear_place_translations_on_summary_change
+  AFTER UPDATE OF ai_summary, pros, cons, recommendations ON places
+  FOR EACH ROW
+  WHEN (
+    OLD.ai_summary IS DISTINCT FROM NEW.ai_summary
+    OR OLD.pros IS DISTINCT FROM NEW.pros
+    OR OLD.cons IS DISTINCT FROM NEW.cons
+    OR OLD.recommendations IS DISTINCT FROM NEW.recommendations
+  )
+  EXECUTE FUNCTION clear_place_translations();
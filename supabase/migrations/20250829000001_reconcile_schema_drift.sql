@@ -0,0 +1,75 @@
+-- Reconcile the schema with what the app already reads and writes
+-- These columns and tables were in use (place capture, the admin reports and analytics
+-- screens, lib/analytics.ts) without a migration creating them, so they only existed in
+-- databases where they had been added by hand. types/database.ts is generated from these
+-- migrations, which makes anything missing here a type error.
+
+-- Contact details and verification saved with captured places (Google Places matches)
+ALTER TABLE places ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website text;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS is_verified boolean DEFAULT false;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS verification_source text; -- e.g. 'google_places'
+
+-- User reports about places, worked through in the admin reports screen
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reported_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  place_id uuid REFERENCES places(id) ON DELETE CASCADE,
+  report_type text NOT NULL CHECK (report_type IN (
+    'inappropriate_content', 'spam', 'incorrect_info', 'harassment', 'fake_place', 'other'
+  )),
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reviewed', 'resolved', 'dismissed')),
+  admin_notes text,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report places"
+  ON reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reported_by);
+
+CREATE POLICY "Admins can read reports"
+  ON reports
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update reports"
+  ON reports
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports (status, created_at DESC);
+
+-- Events batched up by lib/analytics.ts; user_id is NULL before sign-in
+CREATE TABLE IF NOT EXISTS analytics_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type text NOT NULL,
+  properties jsonb DEFAULT '{}',
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  session_id text,
+  timestamp timestamptz NOT NULL DEFAULT now(), -- When the event happened on the device
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE analytics_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their own analytics events"
+  ON analytics_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Admins can read analytics events"
+  ON analytics_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_created_at ON analytics_events (created_at DESC);
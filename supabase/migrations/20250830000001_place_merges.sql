@@ -0,0 +1,313 @@
+-- Merging duplicate places
+-- The same business is often captured more than once (different Google matches, or a private
+-- copy made public later). Admins pick a canonical record in the admin places screen and merge
+-- the duplicates into it: merge_places() re-points the duplicate's reviews, photos, collection
+-- entries, friend activities, reports, hidden gems, menu and edit suggestions to the canonical
+-- place, copies over contact details the canonical record is missing, and deletes the duplicate.
+-- Everything needed to reverse it is kept in place_merges, so undo_place_merge() can restore the
+-- duplicate until undo_until. Rows that are deleted with the duplicate instead of moving (its menu
+-- when both places have one, its AI summary history and its translations, which describe the
+-- duplicate rather than the canonical place) are copied into place_merges and undo puts them back.
+
+-- Hidden gems can point at the place they are hidden at, so a merge can move them along
+ALTER TABLE hidden_gems ADD COLUMN IF NOT EXISTS place_id uuid REFERENCES places(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_hidden_gems_place_id ON hidden_gems(place_id);
+
+CREATE TABLE IF NOT EXISTS place_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_place_id uuid NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  duplicate_place_id uuid NOT NULL, -- The deleted place; no foreign key so undo can restore it
+  duplicate_place jsonb NOT NULL, -- The duplicate's row as it was merged
+  canonical_place jsonb NOT NULL, -- The canonical row before the merge updated it
+  moved_records jsonb NOT NULL DEFAULT '{}', -- Re-pointed row ids by table, e.g. {"reviews": [...]}
+  removed_collection_places jsonb NOT NULL DEFAULT '[]', -- Entries dropped where a collection already had the canonical place
+  removed_menu jsonb, -- The duplicate's place_menus row when the canonical place kept its own menu
+  removed_summaries jsonb NOT NULL DEFAULT '[]', -- The duplicate's place_summaries rows
+  removed_summary_reviews jsonb NOT NULL DEFAULT '[]', -- And the place_summary_reviews rows they cite
+  removed_translations jsonb NOT NULL DEFAULT '[]', -- The duplicate's place_translations rows
+  merged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  undo_until timestamptz NOT NULL DEFAULT now() + interval '24 hours',
+  undone_at timestamptz,
+  undone_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE place_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read place merges"
+  ON place_merges
+  FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_place_merges_created_at ON place_merges(created_at DESC);
+
+-- Merge duplicate_place_id into canonical_place_id; returns the place_merges id for undo
+CREATE OR REPLACE FUNCTION merge_places(canonical_place_id uuid, duplicate_place_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  canonical places%ROWTYPE;
+  duplicate places%ROWTYPE;
+  removed_entries jsonb;
+  removed_menu jsonb;
+  removed_summaries jsonb;
+  removed_summary_reviews jsonb;
+  removed_translations jsonb;
+  moved_reviews uuid[];
+  moved_photos uuid[];
+  moved_collection_places uuid[];
+  moved_activities uuid[];
+  moved_reports uuid[];
+  moved_hidden_gems uuid[];
+  moved_menus uuid[] := '{}';
+  moved_suggestions uuid[];
+  merge_id uuid;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  -- Audit source for the changes below; only database functions can set it
+  PERFORM set_config('app.audit_source', 'merge', true);
+
+  IF canonical_place_id = duplicate_place_id THEN
+    RAISE EXCEPTION 'A place cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO canonical FROM places WHERE id = canonical_place_id FOR UPDATE;
+  SELECT * INTO duplicate FROM places WHERE id = duplicate_place_id FOR UPDATE;
+
+  IF canonical.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Place not found';
+  END IF;
+
+  -- A collection holds each place once, so drop the duplicate where the canonical place is already saved
+  SELECT COALESCE(jsonb_agg(to_jsonb(cp)), '[]'::jsonb) INTO removed_entries
+  FROM collection_places cp
+  WHERE cp.place_id = duplicate_place_id
+    AND EXISTS (
+      SELECT 1 FROM collection_places existing
+      WHERE existing.collection_id = cp.collection_id
+        AND existing.place_id = canonical_place_id
+    );
+
+  DELETE FROM collection_places cp
+  WHERE cp.place_id = duplicate_place_id
+    AND EXISTS (
+      SELECT 1 FROM collection_places existing
+      WHERE existing.collection_id = cp.collection_id
+        AND existing.place_id = canonical_place_id
+    );
+
+  WITH moved AS (
+    UPDATE reviews SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_reviews FROM moved;
+
+  WITH moved AS (
+    UPDATE place_photos SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_photos FROM moved;
+
+  WITH moved AS (
+    UPDATE collection_places SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_collection_places FROM moved;
+
+  WITH moved AS (
+    UPDATE friend_activities SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_activities FROM moved;
+
+  WITH moved AS (
+    UPDATE reports SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_reports FROM moved;
+
+  WITH moved AS (
+    UPDATE hidden_gems SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_hidden_gems FROM moved;
+
+  -- A place has one menu; the duplicate's is only kept when the canonical place has none, and
+  -- is otherwise deleted with the duplicate
+  IF NOT EXISTS (SELECT 1 FROM place_menus WHERE place_id = canonical_place_id) THEN
+    WITH moved AS (
+      UPDATE place_menus SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+    ) SELECT COALESCE(array_agg(id), '{}') INTO moved_menus FROM moved;
+  ELSE
+    SELECT to_jsonb(pm) INTO removed_menu FROM place_menus pm WHERE pm.place_id = duplicate_place_id;
+  END IF;
+
+  -- Edit suggestions (and their agreements) still apply to the same business
+  WITH moved AS (
+    UPDATE place_edit_suggestions SET place_id = canonical_place_id WHERE place_id = duplicate_place_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO moved_suggestions FROM moved;
+
+  -- Summaries and translations describe the duplicate; they are deleted with it and kept for undo
+  SELECT COALESCE(jsonb_agg(to_jsonb(ps)), '[]'::jsonb) INTO removed_summaries
+  FROM place_summaries ps
+  WHERE ps.place_id = duplicate_place_id;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(psr)), '[]'::jsonb) INTO removed_summary_reviews
+  FROM place_summary_reviews psr
+  JOIN place_summaries ps ON ps.id = psr.summary_id
+  WHERE ps.place_id = duplicate_place_id;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(pt)), '[]'::jsonb) INTO removed_translations
+  FROM place_translations pt
+  WHERE pt.place_id = duplicate_place_id;
+
+  UPDATE places p SET
+    google_place_id = COALESCE(p.google_place_id, duplicate.google_place_id),
+    phone = COALESCE(p.phone, duplicate.phone),
+    website = COALESCE(p.website, duplicate.website),
+    is_public = COALESCE(p.is_public, false) OR COALESCE(duplicate.is_public, false),
+    updated_at = now()
+  WHERE p.id = canonical_place_id;
+
+  -- Rating and review count follow the reviews the canonical place now has
+  IF array_length(moved_reviews, 1) > 0 THEN
+    UPDATE places p SET
+      rating = stats.average,
+      review_count = stats.total
+    FROM (
+      SELECT avg(r.rating) AS average, count(*) AS total
+      FROM reviews r
+      WHERE r.place_id = canonical_place_id
+    ) stats
+    WHERE p.id = canonical_place_id;
+  END IF;
+
+  INSERT INTO place_merges (
+    canonical_place_id,
+    duplicate_place_id,
+    duplicate_place,
+    canonical_place,
+    moved_records,
+    removed_collection_places,
+    removed_menu,
+    removed_summaries,
+    removed_summary_reviews,
+    removed_translations,
+    merged_by
+  ) VALUES (
+    canonical_place_id,
+    duplicate_place_id,
+    to_jsonb(duplicate),
+    to_jsonb(canonical),
+    jsonb_build_object(
+      'reviews', to_jsonb(moved_reviews),
+      'place_photos', to_jsonb(moved_photos),
+      'collection_places', to_jsonb(moved_collection_places),
+      'friend_activities', to_jsonb(moved_activities),
+      'reports', to_jsonb(moved_reports),
+      'hidden_gems', to_jsonb(moved_hidden_gems),
+      'place_menus', to_jsonb(moved_menus),
+      'place_edit_suggestions', to_jsonb(moved_suggestions)
+    ),
+    removed_entries,
+    removed_menu,
+    removed_summaries,
+    removed_summary_reviews,
+    removed_translations,
+    auth.uid()
+  ) RETURNING id INTO merge_id;
+
+  DELETE FROM places WHERE id = duplicate_place_id;
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Restore the duplicate place of a merge and move its records back, within the undo window
+CREATE OR REPLACE FUNCTION undo_place_merge(merge_id uuid)
+RETURNS void AS $$
+DECLARE
+  merge_row place_merges%ROWTYPE;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  -- Audit source for the changes below; only database functions can set it
+  PERFORM set_config('app.audit_source', 'merge', true);
+
+  SELECT * INTO merge_row FROM place_merges WHERE id = merge_id FOR UPDATE;
+
+  IF merge_row.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+
+  IF merge_row.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+
+  IF now() > merge_row.undo_until THEN
+    RAISE EXCEPTION 'The undo window for this merge has closed';
+  END IF;
+
+  INSERT INTO places
+  SELECT * FROM jsonb_populate_record(NULL::places, merge_row.duplicate_place);
+
+  UPDATE reviews SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'reviews')::uuid);
+
+  UPDATE place_photos SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'place_photos')::uuid);
+
+  UPDATE collection_places SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'collection_places')::uuid);
+
+  UPDATE friend_activities SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'friend_activities')::uuid);
+
+  UPDATE reports SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'reports')::uuid);
+
+  UPDATE hidden_gems SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'hidden_gems')::uuid);
+
+  UPDATE place_menus SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'place_menus')::uuid);
+
+  UPDATE place_edit_suggestions SET place_id = merge_row.duplicate_place_id
+  WHERE id IN (SELECT jsonb_array_elements_text(merge_row.moved_records->'place_edit_suggestions')::uuid);
+
+  INSERT INTO collection_places
+  SELECT * FROM jsonb_populate_recordset(NULL::collection_places, merge_row.removed_collection_places)
+  ON CONFLICT DO NOTHING;
+
+  IF merge_row.removed_menu IS NOT NULL THEN
+    INSERT INTO place_menus
+    SELECT * FROM jsonb_populate_record(NULL::place_menus, merge_row.removed_menu)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  INSERT INTO place_summaries
+  SELECT * FROM jsonb_populate_recordset(NULL::place_summaries, merge_row.removed_summaries)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO place_summary_reviews
+  SELECT * FROM jsonb_populate_recordset(NULL::place_summary_reviews, merge_row.removed_summary_reviews)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO place_translations
+  SELECT * FROM jsonb_populate_recordset(NULL::place_translations, merge_row.removed_translations)
+  ON CONFLICT DO NOTHING;
+
+  -- Put back what the merge changed on the canonical record
+  UPDATE places p SET
+    google_place_id = previous.google_place_id,
+    phone = previous.phone,
+    website = previous.website,
+    is_public = previous.is_public,
+    rating = previous.rating,
+    review_count = previous.review_count,
+    updated_at = now()
+  FROM jsonb_populate_record(NULL::places, merge_row.canonical_place) previous
+  WHERE p.id = merge_row.canonical_place_id;
+
+  UPDATE place_merges
+  SET undone_at = now(), undone_by = auth.uid()
+  WHERE id = merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_places(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_place_merge(uuid) TO authenticated;
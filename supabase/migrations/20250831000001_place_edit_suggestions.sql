@@ -0,0 +1,302 @@
+-- Community edit suggestions for places
+-- Places can only be updated by whoever added them (or an admin), so wrong details stay wrong.
+-- Any signed-in user can now propose field-level changes; each suggestion stores the diff
+-- ({"phone": {"from": "...", "to": "..."}}) against the place as the user saw it. Other users
+-- agree with a pending suggestion (or propose the same change, which counts as agreeing), and
+-- once PLACE_EDIT_AUTO_APPLY_AGREEMENTS trusted editors agree it is applied automatically.
+-- Everything else waits in the admin queue (app/admin/suggestions.tsx).
+
+CREATE TABLE IF NOT EXISTS place_edit_suggestions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id uuid NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changes jsonb NOT NULL, -- Field -> {from, to}; fields listed in place_edit_fields()
+  note text, -- Why the user thinks the place is wrong, e.g. "Moved across the street"
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected')),
+  applied_automatically boolean NOT NULL DEFAULT false,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  admin_notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS place_edit_agreements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  suggestion_id uuid NOT NULL REFERENCES place_edit_suggestions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(suggestion_id, user_id)
+);
+
+ALTER TABLE place_edit_suggestions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE place_edit_agreements ENABLE ROW LEVEL SECURITY;
+
+-- Suggestions are written through the functions below, never directly
+CREATE POLICY "Anyone can read place edit suggestions"
+  ON place_edit_suggestions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can read place edit agreements"
+  ON place_edit_agreements
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_place_edit_suggestions_place ON place_edit_suggestions(place_id, status);
+CREATE INDEX IF NOT EXISTS idx_place_edit_suggestions_status ON place_edit_suggestions(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_place_edit_agreements_suggestion ON place_edit_agreements(suggestion_id);
+
+-- The place columns a suggestion may change (keep in sync with EDITABLE_PLACE_FIELDS in lib/place-edits.ts)
+CREATE OR REPLACE FUNCTION place_edit_fields()
+RETURNS text[] AS $$
+  SELECT ARRAY['name', 'category', 'address', 'week_hours', 'phone', 'website', 'latitude', 'longitude'];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Trusted editors: admins, and accounts at least two weeks old with five contributions others
+-- can see (public places added, reviews of public places or edit suggestions applied)
+CREATE OR REPLACE FUNCTION is_trusted_editor(editor_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  joined_at timestamptz;
+  contributions integer;
+BEGIN
+  IF is_admin(editor_id) THEN
+    RETURN true;
+  END IF;
+
+  SELECT created_at INTO joined_at FROM profiles WHERE id = editor_id;
+  IF joined_at IS NULL OR joined_at > now() - interval '14 days' THEN
+    RETURN false;
+  END IF;
+
+  SELECT
+    (SELECT count(*) FROM places WHERE added_by = editor_id AND is_public) +
+    (SELECT count(*) FROM reviews r JOIN places p ON p.id = r.place_id WHERE r.user_id = editor_id AND p.is_public) +
+    (SELECT count(*) FROM place_edit_suggestions WHERE user_id = editor_id AND status = 'applied')
+  INTO contributions;
+
+  RETURN contributions >= 5;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Write a suggestion's `to` values onto the place. Only reached through review_place_edit (an
+-- admin approving) and agree_with_place_edit (enough trusted editors agreeing); both are checked
+-- again here so the function cannot be used to skip moderation.
+CREATE OR REPLACE FUNCTION apply_place_edit(target_suggestion_id uuid, automatic boolean)
+RETURNS void AS $$
+DECLARE
+  suggestion place_edit_suggestions%ROWTYPE;
+BEGIN
+  SELECT * INTO suggestion FROM place_edit_suggestions WHERE id = target_suggestion_id FOR UPDATE;
+  IF suggestion.id IS NULL OR suggestion.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending suggestions can be applied';
+  END IF;
+
+  IF automatic THEN
+    -- PLACE_EDIT_AUTO_APPLY_AGREEMENTS
+    IF (
+      SELECT count(*) FROM place_edit_agreements a
+      WHERE a.suggestion_id = target_suggestion_id AND is_trusted_editor(a.user_id)
+    ) < 3 THEN
+      RAISE EXCEPTION 'Not enough trusted editors agree with this suggestion';
+    END IF;
+  ELSIF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  -- Audit source for the place update; only database functions can set it
+  PERFORM set_config('app.audit_source', 'edit_suggestion', true);
+
+  UPDATE places p SET
+    name = CASE WHEN suggestion.changes ? 'name' THEN suggestion.changes->'name'->>'to' ELSE p.name END,
+    category = CASE WHEN suggestion.changes ? 'category' THEN suggestion.changes->'category'->>'to' ELSE p.category END,
+    address = CASE WHEN suggestion.changes ? 'address' THEN suggestion.changes->'address'->>'to' ELSE p.address END,
+    week_hours = CASE
+      WHEN suggestion.changes ? 'week_hours'
+        THEN ARRAY(SELECT jsonb_array_elements_text(suggestion.changes->'week_hours'->'to'))
+      ELSE p.week_hours
+    END,
+    phone = CASE WHEN suggestion.changes ? 'phone' THEN suggestion.changes->'phone'->>'to' ELSE p.phone END,
+    website = CASE WHEN suggestion.changes ? 'website' THEN suggestion.changes->'website'->>'to' ELSE p.website END,
+    latitude = CASE WHEN suggestion.changes ? 'latitude' THEN (suggestion.changes->'latitude'->>'to')::decimal ELSE p.latitude END,
+    longitude = CASE WHEN suggestion.changes ? 'longitude' THEN (suggestion.changes->'longitude'->>'to')::decimal ELSE p.longitude END,
+    updated_at = now()
+  WHERE p.id = suggestion.place_id;
+
+  UPDATE place_edit_suggestions SET
+    status = 'applied',
+    applied_automatically = automatic,
+    reviewed_by = CASE WHEN automatic THEN NULL ELSE auth.uid() END,
+    reviewed_at = now()
+  WHERE id = target_suggestion_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_place_edit(uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Record that the signed-in user agrees with a pending suggestion, applying it once
+-- enough trusted editors agree; returns the suggestion's status afterwards
+CREATE OR REPLACE FUNCTION agree_with_place_edit(target_suggestion_id uuid)
+RETURNS text AS $$
+DECLARE
+  current_status text;
+  trusted_agreements integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT status INTO current_status FROM place_edit_suggestions WHERE id = target_suggestion_id;
+  IF current_status IS NULL THEN
+    RAISE EXCEPTION 'Suggestion not found';
+  END IF;
+  IF current_status <> 'pending' THEN
+    RETURN current_status;
+  END IF;
+
+  INSERT INTO place_edit_agreements (suggestion_id, user_id)
+  VALUES (target_suggestion_id, auth.uid())
+  ON CONFLICT (suggestion_id, user_id) DO NOTHING;
+
+  SELECT count(*) INTO trusted_agreements
+  FROM place_edit_agreements a
+  WHERE a.suggestion_id = target_suggestion_id
+    AND is_trusted_editor(a.user_id);
+
+  -- PLACE_EDIT_AUTO_APPLY_AGREEMENTS
+  IF trusted_agreements >= 3 THEN
+    PERFORM apply_place_edit(target_suggestion_id, true);
+    RETURN 'applied';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Propose changes to a public place. Proposing exactly what a pending suggestion already proposes
+-- counts as agreeing with it instead of adding a duplicate to the queue. Changes the function
+-- refuses raise invalid_parameter_value (22023) with a message that can be shown to the user.
+CREATE OR REPLACE FUNCTION suggest_place_edit(target_place_id uuid, proposed_changes jsonb, suggestion_note text DEFAULT NULL)
+RETURNS TABLE (suggestion_id uuid, status text) AS $$
+DECLARE
+  existing_id uuid;
+  new_id uuid;
+  invalid_field text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(proposed_changes) <> 'object' OR proposed_changes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'A suggestion must change at least one field'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(proposed_changes) AS field
+    WHERE field <> ALL (place_edit_fields())
+  ) THEN
+    RAISE EXCEPTION 'Only name, category, address, hours, phone, website and location can be edited'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM places WHERE id = target_place_id AND is_public) THEN
+    RAISE EXCEPTION 'Edits can only be suggested for public places'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- apply_place_edit writes the `to` values straight onto the place, so check their types here
+  -- rather than failing a cast once enough people have agreed
+  SELECT field INTO invalid_field
+  FROM jsonb_each(proposed_changes) AS change(field, diff)
+  WHERE jsonb_typeof(diff) <> 'object'
+    OR NOT diff ? 'to'
+    OR CASE
+      WHEN field IN ('name', 'category', 'address')
+        THEN jsonb_typeof(diff->'to') <> 'string' OR btrim(diff->>'to') = ''
+      WHEN field IN ('phone', 'website')
+        THEN jsonb_typeof(diff->'to') NOT IN ('string', 'null')
+      WHEN field = 'week_hours'
+        THEN jsonb_typeof(diff->'to') <> 'array'
+          OR EXISTS (SELECT 1 FROM jsonb_array_elements(diff->'to') line WHERE jsonb_typeof(line) <> 'string')
+      WHEN field = 'latitude'
+        THEN CASE WHEN jsonb_typeof(diff->'to') = 'number' THEN abs((diff->>'to')::decimal) > 90 ELSE true END
+      WHEN field = 'longitude'
+        THEN CASE WHEN jsonb_typeof(diff->'to') = 'number' THEN abs((diff->>'to')::decimal) > 180 ELSE true END
+      ELSE false
+    END
+  LIMIT 1;
+
+  IF invalid_field IS NOT NULL THEN
+    RAISE EXCEPTION '%', CASE invalid_field
+      WHEN 'name' THEN 'Name cannot be empty'
+      WHEN 'category' THEN 'Category cannot be empty'
+      WHEN 'address' THEN 'Address cannot be empty'
+      WHEN 'phone' THEN 'Phone number must be text'
+      WHEN 'website' THEN 'Website must be text'
+      WHEN 'week_hours' THEN 'Hours must be a list of lines, one per day'
+      WHEN 'latitude' THEN 'Latitude must be between -90 and 90'
+      ELSE 'Longitude must be between -180 and 180'
+    END
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Same fields, same new values
+  SELECT s.id INTO existing_id
+  FROM place_edit_suggestions s
+  WHERE s.place_id = target_place_id
+    AND s.status = 'pending'
+    AND (SELECT array_agg(k ORDER BY k) FROM jsonb_object_keys(s.changes) k) =
+        (SELECT array_agg(k ORDER BY k) FROM jsonb_object_keys(proposed_changes) k)
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_object_keys(proposed_changes) k
+      WHERE s.changes->k->'to' IS DISTINCT FROM proposed_changes->k->'to'
+    )
+  ORDER BY s.created_at
+  LIMIT 1;
+
+  IF existing_id IS NOT NULL THEN
+    RETURN QUERY SELECT existing_id, agree_with_place_edit(existing_id);
+    RETURN;
+  END IF;
+
+  INSERT INTO place_edit_suggestions (place_id, user_id, changes, note)
+  VALUES (target_place_id, auth.uid(), proposed_changes, suggestion_note)
+  RETURNING id INTO new_id;
+
+  -- The proposer agrees with their own suggestion
+  RETURN QUERY SELECT new_id, agree_with_place_edit(new_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approve (apply) or reject a pending suggestion from the admin queue
+CREATE OR REPLACE FUNCTION review_place_edit(target_suggestion_id uuid, approve boolean, notes text DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM place_edit_suggestions WHERE id = target_suggestion_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Only pending suggestions can be reviewed';
+  END IF;
+
+  IF approve THEN
+    PERFORM apply_place_edit(target_suggestion_id, false);
+  ELSE
+    UPDATE place_edit_suggestions SET
+      status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+    WHERE id = target_suggestion_id;
+  END IF;
+
+  UPDATE place_edit_suggestions SET admin_notes = notes WHERE id = target_suggestion_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION suggest_place_edit(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION agree_with_place_edit(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_place_edit(uuid, boolean, text) TO authenticated;
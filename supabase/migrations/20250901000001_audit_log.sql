@@ -0,0 +1,244 @@
+-- Audit trail for places, reviews, place photos and collections
+-- Beyond updated_at there was no record of who changed a place or when. A trigger on each
+-- audited table now writes every insert, update and delete to audit_log with the actor, the
+-- row before and after, the fields that changed and where the change came from:
+--   * functions running inside the database set app.audit_source ('merge', 'edit_suggestion',
+--     'revert'); clients cannot set it, so these sources can't be claimed from the app
+--   * the app sends an x-audit-source header (AUDIT_SOURCE_HEADER in lib/audit-log.ts),
+--     which PostgREST exposes through request.headers; only 'app', 'capture' and (for
+--     admins) 'admin' are accepted from it
+--   * anything else is recorded as 'app'
+-- Admins can revert a single entry, which is itself recorded with source 'revert'.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL CHECK (table_name IN ('places', 'reviews', 'place_photos', 'collections')),
+  record_id uuid NOT NULL,
+  -- The place the change belongs to, for its history; kept after the place is deleted
+  place_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  source text NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'capture', 'edit_suggestion', 'admin', 'merge', 'revert')),
+  old_data jsonb, -- NULL for inserts
+  new_data jsonb, -- NULL for deletes
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  reverted_at timestamptz,
+  reverted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- The log itself is readable by whoever made a change and by admins; everyone else sees a
+-- place's history through get_place_history() below
+CREATE POLICY "Users can read their own changes"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (actor_id = auth.uid() OR is_admin(auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_place ON audit_log(place_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id, created_at DESC);
+
+-- Bookkeeping columns that change as a side effect (e.g. a new review recomputing the place's
+-- rating) rather than by someone editing the record
+CREATE OR REPLACE FUNCTION audit_ignored_fields(audited_table text)
+RETURNS text[] AS $$
+  SELECT CASE audited_table
+    WHEN 'places' THEN ARRAY['updated_at', 'rating', 'review_count', 'summary_checked_at']
+    WHEN 'reviews' THEN ARRAY['updated_at', 'likes']
+    WHEN 'collections' THEN ARRAY['updated_at', 'shared_count']
+    ELSE ARRAY['updated_at']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  audited_row jsonb := coalesce(new_row, old_row);
+  changed text[] := '{}';
+  entry_source text;
+  actor uuid := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO changed
+    FROM jsonb_object_keys(new_row) AS key
+    WHERE new_row->key IS DISTINCT FROM old_row->key
+      AND key <> ALL (audit_ignored_fields(TG_TABLE_NAME));
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  entry_source := nullif(current_setting('app.audit_source', true), '');
+  IF entry_source IS NULL THEN
+    -- The header is client-controlled: sources set by database functions are not taken from it
+    entry_source := coalesce(
+      nullif(current_setting('request.headers', true), '')::jsonb->>'x-audit-source',
+      'app'
+    );
+    IF entry_source NOT IN ('app', 'capture', 'admin')
+      OR (entry_source = 'admin' AND NOT coalesce(is_admin(actor), false)) THEN
+      entry_source := 'app';
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, place_id, action, actor_id, source, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    (audited_row->>'id')::uuid,
+    CASE TG_TABLE_NAME
+      WHEN 'places' THEN (audited_row->>'id')::uuid
+      WHEN 'collections' THEN NULL
+      ELSE (audited_row->>'place_id')::uuid
+    END,
+    lower(TG_OP),
+    actor,
+    entry_source,
+    old_row,
+    new_row,
+    changed
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_places ON places;
+CREATE TRIGGER audit_places
+  AFTER INSERT OR UPDATE OR DELETE ON places
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS audit_reviews ON reviews;
+CREATE TRIGGER audit_reviews
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS audit_place_photos ON place_photos;
+CREATE TRIGGER audit_place_photos
+  AFTER INSERT OR UPDATE OR DELETE ON place_photos
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+DROP TRIGGER IF EXISTS audit_collections ON collections;
+CREATE TRIGGER audit_collections
+  AFTER INSERT OR UPDATE OR DELETE ON collections
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry();
+
+-- History of a place the caller can see (public or their own; any place for admins), newest first
+CREATE OR REPLACE FUNCTION get_place_history(
+  target_place_id uuid,
+  before_created_at timestamptz DEFAULT NULL,
+  max_entries integer DEFAULT 50
+) RETURNS TABLE (
+  id uuid,
+  table_name text,
+  record_id uuid,
+  place_id uuid,
+  action text,
+  actor_id uuid,
+  actor_name text,
+  source text,
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  reverted_at timestamptz,
+  reverted_by uuid,
+  created_at timestamptz
+) AS $$
+  SELECT
+    a.id,
+    a.table_name,
+    a.record_id,
+    a.place_id,
+    a.action,
+    a.actor_id,
+    actor.full_name,
+    a.source,
+    CASE WHEN redaction.hide_text THEN a.old_data - 'text' ELSE a.old_data END,
+    CASE WHEN redaction.hide_text THEN a.new_data - 'text' ELSE a.new_data END,
+    a.changed_fields,
+    a.reverted_at,
+    a.reverted_by,
+    a.created_at
+  FROM audit_log a
+  LEFT JOIN profiles actor ON actor.id = a.actor_id
+  -- Reviews that have since been deleted keep their entries but lose their text, except for
+  -- the review's author and admins
+  CROSS JOIN LATERAL (
+    SELECT a.table_name = 'reviews'
+      AND NOT coalesce(is_admin(auth.uid()), false)
+      AND coalesce(a.new_data, a.old_data)->>'user_id' IS DISTINCT FROM auth.uid()::text
+      AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.id = a.record_id) AS hide_text
+  ) redaction
+  WHERE a.place_id = target_place_id
+    AND (before_created_at IS NULL OR a.created_at < before_created_at)
+    AND (
+      coalesce(is_admin(auth.uid()), false)
+      OR EXISTS (
+        SELECT 1 FROM places p
+        WHERE p.id = target_place_id AND (p.is_public OR p.added_by = auth.uid())
+      )
+    )
+  ORDER BY a.created_at DESC
+  LIMIT max_entries;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_place_history(uuid, timestamptz, integer) TO authenticated;
+
+-- Undo one audited change (admin only): an insert is deleted, a delete is restored and an
+-- update puts back the fields it changed. Later changes to other fields are kept.
+CREATE OR REPLACE FUNCTION revert_audit_entry(entry_id uuid)
+RETURNS void AS $$
+DECLARE
+  entry audit_log%ROWTYPE;
+  record_exists boolean;
+  columns text;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  SELECT * INTO entry FROM audit_log WHERE id = entry_id FOR UPDATE;
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Audit entry not found';
+  END IF;
+  IF entry.reverted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This change has already been reverted';
+  END IF;
+
+  PERFORM set_config('app.audit_source', 'revert', true);
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1)', entry.table_name)
+    INTO record_exists
+    USING entry.record_id;
+
+  IF entry.action = 'insert' THEN
+    IF record_exists THEN
+      EXECUTE format('DELETE FROM %I WHERE id = $1', entry.table_name) USING entry.record_id;
+    END IF;
+  ELSIF entry.action = 'delete' THEN
+    IF record_exists THEN
+      RAISE EXCEPTION 'The deleted record has already been restored';
+    END IF;
+    EXECUTE format('INSERT INTO %1$I SELECT * FROM jsonb_populate_record(NULL::%1$I, $1)', entry.table_name)
+      USING entry.old_data;
+  ELSE
+    IF NOT record_exists THEN
+      RAISE EXCEPTION 'The record has since been deleted';
+    END IF;
+    SELECT string_agg(quote_ident(field), ', ') INTO columns FROM unnest(entry.changed_fields) AS field;
+    EXECUTE format(
+      'UPDATE %1$I SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::%1$I, $1)) WHERE id = $2',
+      entry.table_name,
+      columns
+    ) USING entry.old_data, entry.record_id;
+  END IF;
+
+  UPDATE audit_log SET reverted_at = now(), reverted_by = auth.uid() WHERE id = entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION revert_audit_entry(uuid) TO authenticated;
@@ -0,0 +1,15 @@
+-- Structured opening hours
+-- places.is_open is Google's open_now at the moment the place was saved, so it is wrong for
+-- most of the day. Whether a place is open is now computed when it is shown (lib/opening-hours.ts)
+-- from week_hours, parsed into per-day shifts, plus what that parser cannot know:
+--   * the place's IANA time zone, so "open now" is judged on the place's clock, not the viewer's
+--     (stored rather than Google's utc_offset, which is only right until the next daylight saving change)
+--   * dated exceptions such as public holidays, which override the weekly hours for that day
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS time_zone text; -- e.g. 'Asia/Ho_Chi_Minh'; NULL = the viewer's clock
+
+-- [{"date": "2025-12-25", "closed": true, "shifts": [], "label": "Christmas Day"}, ...]
+ALTER TABLE places ADD COLUMN IF NOT EXISTS hours_exceptions jsonb NOT NULL DEFAULT '[]'
+  CHECK (jsonb_typeof(hours_exceptions) = 'array');
+
+COMMENT ON COLUMN places.is_open IS 'Open status when the place was saved; use week_hours for the current status';
@@ -0,0 +1,19 @@
+-- Shared analysis cache for /api/openai (ANALYSIS_CACHE_STORE=supabase)
+-- The memory and local file stores are per server instance and lost on redeploy, so production
+-- caches analyses here. Each row holds one AnalysisCacheEntry (lib/analysis-cache.ts), keyed by
+-- task, prompt version and the SHA-256 of the analysed image. Near-duplicate matching only looks
+-- at the requesting user's rows (owner_id). Only the service role reads or writes the table.
+
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  key text PRIMARY KEY, -- '<task>:<prompt version>:<content hash>'
+  task text NOT NULL,
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  perceptual_hash text,
+  entry jsonb NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE analysis_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_owner ON analysis_cache(owner_id, task) WHERE perceptual_hash IS NOT NULL;
@@ -0,0 +1,34 @@
+// Shared types for the audit trail of places, reviews, place photos and collections
+import type { Tables } from './database';
+
+export type AuditTable = 'places' | 'reviews' | 'place_photos' | 'collections';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Where a change came from (see record_audit_entry() in the audit_log migration)
+export type AuditSource = 'app' | 'capture' | 'edit_suggestion' | 'admin' | 'merge' | 'revert';
+
+// The sources the app may claim for its own writes; the rest are set by the database
+// functions that make those changes
+export type ClientAuditSource = Extract<AuditSource, 'app' | 'capture' | 'admin'>;
+
+// The audited row as JSON, before or after the change
+export type AuditRecord = Record<string, unknown>;
+
+export interface AuditEntry extends Omit<
+  Tables<'audit_log'>,
+  'table_name' | 'action' | 'source' | 'old_data' | 'new_data'
+> {
+  table_name: AuditTable;
+  action: AuditAction;
+  source: AuditSource;
+  old_data: AuditRecord | null;
+  new_data: AuditRecord | null;
+  actor_name: string | null;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
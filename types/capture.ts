@@ -1,4 +1,9 @@
 // Shared types for capture functionality
+import type { StorefrontAnalysis } from '@/lib/openai';
+import type { GooglePlace } from '@/lib/google-places';
+import type { RankingContext } from '@/lib/candidate-ranking';
+import type { KeptExif } from '@/lib/privacy-redaction';
+import type { LocalizedPlaceSummary, LocalizedStorefrontAnalysis } from './localization';
 
 export interface AnalysisResult {
   businessName: string;
@@ -6,10 +11,12 @@ export interface AnalysisResult {
   description: string;
   features: string[];
   locationText?: string;
+  signName?: string; // Business name as written on the sign, when it differs from businessName
   coordinates?: {
     latitude: number;
     longitude: number;
   };
+  localized?: LocalizedStorefrontAnalysis; // Shown instead of the English type and description
 }
 
 export interface PlaceData {
@@ -29,8 +36,10 @@ export interface PlaceData {
   is_open: boolean;
   hours: string;
   week_hours: string[];
+  time_zone?: string;
   phone?: string;
   website?: string;
+  localized?: LocalizedPlaceSummary; // Shown instead of the English summary; not saved with the place
 }
 
 export interface Collection {
@@ -70,4 +79,75 @@ export interface CaptureActions {
   setIsAnalyzing: (analyzing: boolean) => void;
   setIsLoading: (loading: boolean) => void;
   resetCapture: () => void;
-}
\ No newline at end of file
+}
+
+// Location attached to a capture (EXIF GPS when available, device location otherwise)
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  direction?: number;
+  accuracy?: number;
+}
+
+export type QueuedCaptureStatus = 'pending' | 'uploading' | 'analyzing' | 'completed' | 'failed';
+
+// A capture taken while offline, waiting to be uploaded and analyzed
+export interface QueuedCapture {
+  id: string;
+  localUri: string;
+  location: CaptureLocation | null;
+  heading?: number;
+  redacted?: boolean; // Blurred (and reviewed) before it was queued; replay skips the detector
+  keptExif?: KeptExif;
+  capturedAt: number;
+  status: QueuedCaptureStatus;
+  attempts: number;
+  lastError?: string;
+  fullUrl?: string;
+  thumbnailUrl?: string;
+  analysis?: StorefrontAnalysis;
+  completedAt?: number;
+}
+
+export type BatchCaptureStatus = 'queued' | 'uploading' | 'analyzing' | 'matching' | 'ready' | 'failed';
+
+export type BatchCaptureDecision = 'pending' | 'confirmed' | 'discarded';
+
+// One storefront snapped during a batch ("walk the street") session
+export interface BatchCaptureItem {
+  id: string;
+  localUri: string;
+  location: CaptureLocation | null;
+  redacted?: boolean; // Through the same privacy review as a single capture
+  keptExif?: KeptExif;
+  capturedAt: number;
+  status: BatchCaptureStatus;
+  decision: BatchCaptureDecision;
+  fullUrl?: string;
+  thumbnailUrl?: string;
+  analysis?: StorefrontAnalysis;
+  candidates: GooglePlace[];
+  selectedPlaceId?: string;
+  error?: string;
+  savedPlaceId?: string;
+}
+
+// How far a draft got before it was interrupted
+export type CaptureDraftStage = 'not_analyzed' | 'choosing_place' | 'ready' | 'saving';
+
+// A single capture persisted at every step of the identify flow, so it survives the app
+// being backgrounded or the capture being reset and can be resumed from "Recent captures"
+export interface CaptureDraft {
+  id: string;
+  imageUri: string; // Uploaded full-size image
+  thumbnailUri?: string;
+  perceptualHash?: string; // Of the uploaded image, so a retake of the same shot can reuse it
+  location: CaptureLocation | null;
+  analysisResult?: AnalysisResult;
+  rankingContext?: RankingContext;
+  suggestedPlaces: GooglePlace[];
+  selectedPlace?: PlaceData;
+  collection?: { id: string; name: string };
+  createdAt: number;
+  updatedAt: number;
+}
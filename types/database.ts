@@ -0,0 +1,2179 @@
+// Generated by scripts/generate-database-types.js from supabase/migrations. Do not edit by hand:
+// change the schema with a new migration, then run `npm run db:types`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      analysis_cache: {
+        Row: {
+          key: string
+          task: string
+          owner_id: string | null
+          perceptual_hash: string | null
+          entry: Json
+          expires_at: string
+          created_at: string | null
+        }
+        Insert: {
+          key: string
+          task: string
+          owner_id?: string | null
+          perceptual_hash?: string | null
+          entry: Json
+          expires_at: string
+          created_at?: string | null
+        }
+        Update: {
+          key?: string
+          task?: string
+          owner_id?: string | null
+          perceptual_hash?: string | null
+          entry?: Json
+          expires_at?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_cache_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analytics_events: {
+        Row: {
+          id: string
+          event_type: string
+          properties: Json | null
+          user_id: string | null
+          session_id: string | null
+          timestamp: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_type: string
+          properties?: Json | null
+          user_id?: string | null
+          session_id?: string | null
+          timestamp?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_type?: string
+          properties?: Json | null
+          user_id?: string | null
+          session_id?: string | null
+          timestamp?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analytics_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: string
+          table_name: string
+          record_id: string
+          place_id: string | null
+          action: string
+          actor_id: string | null
+          source: string
+          old_data: Json | null
+          new_data: Json | null
+          changed_fields: string[]
+          reverted_at: string | null
+          reverted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          table_name: string
+          record_id: string
+          place_id?: string | null
+          action: string
+          actor_id?: string | null
+          source?: string
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_fields?: string[]
+          reverted_at?: string | null
+          reverted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          table_name?: string
+          record_id?: string
+          place_id?: string | null
+          action?: string
+          actor_id?: string | null
+          source?: string
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_fields?: string[]
+          reverted_at?: string | null
+          reverted_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_reverted_by_fkey"
+            columns: ["reverted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_followers: {
+        Row: {
+          id: string
+          collection_id: string
+          user_id: string
+          followed_at: string | null
+        }
+        Insert: {
+          id?: string
+          collection_id: string
+          user_id: string
+          followed_at?: string | null
+        }
+        Update: {
+          id?: string
+          collection_id?: string
+          user_id?: string
+          followed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_followers_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_followers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_places: {
+        Row: {
+          id: string
+          collection_id: string | null
+          place_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          collection_id?: string | null
+          place_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          collection_id?: string | null
+          place_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_places_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_places_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_shares: {
+        Row: {
+          id: string
+          collection_id: string
+          shared_by_user_id: string
+          shared_with_user_id: string
+          permission: string | null
+          shared_at: string | null
+        }
+        Insert: {
+          id?: string
+          collection_id: string
+          shared_by_user_id: string
+          shared_with_user_id: string
+          permission?: string | null
+          shared_at?: string | null
+        }
+        Update: {
+          id?: string
+          collection_id?: string
+          shared_by_user_id?: string
+          shared_with_user_id?: string
+          permission?: string | null
+          shared_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_shares_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_shares_shared_by_user_id_fkey"
+            columns: ["shared_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_shares_shared_with_user_id_fkey"
+            columns: ["shared_with_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          id: string
+          name: string
+          user_id: string | null
+          color: string | null
+          created_at: string | null
+          updated_at: string | null
+          description: string | null
+          is_public: boolean | null
+          cover_image: string | null
+          is_shareable: boolean | null
+          share_code: string | null
+          shared_count: number | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          user_id?: string | null
+          color?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          description?: string | null
+          is_public?: boolean | null
+          cover_image?: string | null
+          is_shareable?: boolean | null
+          share_code?: string | null
+          shared_count?: number | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          user_id?: string | null
+          color?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          description?: string | null
+          is_public?: boolean | null
+          cover_image?: string | null
+          is_shareable?: boolean | null
+          share_code?: string | null
+          shared_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      friend_activities: {
+        Row: {
+          id: string
+          user_id: string
+          activity_type: string
+          place_id: string | null
+          collection_id: string | null
+          metadata: Json | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          activity_type: string
+          place_id?: string | null
+          collection_id?: string | null
+          metadata?: Json | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          activity_type?: string
+          place_id?: string | null
+          collection_id?: string | null
+          metadata?: Json | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "friend_activities_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "friend_activities_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "friend_activities_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hidden_gems: {
+        Row: {
+          id: string
+          city: string
+          country: string
+          title: string
+          description: string
+          reward: string
+          difficulty: string
+          clues: string[] | null
+          rules: string[] | null
+          hint_image_url: string
+          latitude: number
+          longitude: number
+          is_active: boolean | null
+          winner_id: string | null
+          attempts: number | null
+          participants: number | null
+          time_left: string | null
+          created_at: string | null
+          updated_at: string | null
+          hint_thumbnail_url: string | null
+          place_id: string | null
+        }
+        Insert: {
+          id?: string
+          city: string
+          country: string
+          title: string
+          description: string
+          reward: string
+          difficulty: string
+          clues?: string[] | null
+          rules?: string[] | null
+          hint_image_url: string
+          latitude: number
+          longitude: number
+          is_active?: boolean | null
+          winner_id?: string | null
+          attempts?: number | null
+          participants?: number | null
+          time_left?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          hint_thumbnail_url?: string | null
+          place_id?: string | null
+        }
+        Update: {
+          id?: string
+          city?: string
+          country?: string
+          title?: string
+          description?: string
+          reward?: string
+          difficulty?: string
+          clues?: string[] | null
+          rules?: string[] | null
+          hint_image_url?: string
+          latitude?: number
+          longitude?: number
+          is_active?: boolean | null
+          winner_id?: string | null
+          attempts?: number | null
+          participants?: number | null
+          time_left?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          hint_thumbnail_url?: string | null
+          place_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_gems_winner_id_fkey"
+            columns: ["winner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hidden_gems_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_privacy_settings: {
+        Row: {
+          id: string
+          share_city_with_friends: boolean | null
+          share_city_publicly: boolean | null
+          allow_nearby_suggestions: boolean | null
+          location_sharing_radius_km: number | null
+          auto_update_location: boolean | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id: string
+          share_city_with_friends?: boolean | null
+          share_city_publicly?: boolean | null
+          allow_nearby_suggestions?: boolean | null
+          location_sharing_radius_km?: number | null
+          auto_update_location?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          share_city_with_friends?: boolean | null
+          share_city_publicly?: boolean | null
+          allow_nearby_suggestions?: boolean | null
+          location_sharing_radius_km?: number | null
+          auto_update_location?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_privacy_settings_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_edit_agreements: {
+        Row: {
+          id: string
+          suggestion_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          suggestion_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          suggestion_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_edit_agreements_suggestion_id_fkey"
+            columns: ["suggestion_id"]
+            isOneToOne: false
+            referencedRelation: "place_edit_suggestions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_edit_agreements_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_edit_suggestions: {
+        Row: {
+          id: string
+          place_id: string
+          user_id: string | null
+          changes: Json
+          note: string | null
+          status: string
+          applied_automatically: boolean
+          reviewed_by: string | null
+          reviewed_at: string | null
+          admin_notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          place_id: string
+          user_id?: string | null
+          changes: Json
+          note?: string | null
+          status?: string
+          applied_automatically?: boolean
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          admin_notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          place_id?: string
+          user_id?: string | null
+          changes?: Json
+          note?: string | null
+          status?: string
+          applied_automatically?: boolean
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          admin_notes?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_edit_suggestions_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_edit_suggestions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_edit_suggestions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_menus: {
+        Row: {
+          id: string
+          place_id: string
+          currency: string
+          sections: Json
+          source_photo_url: string | null
+          updated_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          place_id: string
+          currency?: string
+          sections?: Json
+          source_photo_url?: string | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          place_id?: string
+          currency?: string
+          sections?: Json
+          source_photo_url?: string | null
+          updated_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_menus_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: true
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_menus_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_merges: {
+        Row: {
+          id: string
+          canonical_place_id: string
+          duplicate_place_id: string
+          duplicate_place: Json
+          canonical_place: Json
+          moved_records: Json
+          removed_collection_places: Json
+          removed_menu: Json | null
+          removed_summaries: Json
+          removed_summary_reviews: Json
+          removed_translations: Json
+          merged_by: string | null
+          undo_until: string
+          undone_at: string | null
+          undone_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          canonical_place_id: string
+          duplicate_place_id: string
+          duplicate_place: Json
+          canonical_place: Json
+          moved_records?: Json
+          removed_collection_places?: Json
+          removed_menu?: Json | null
+          removed_summaries?: Json
+          removed_summary_reviews?: Json
+          removed_translations?: Json
+          merged_by?: string | null
+          undo_until?: string
+          undone_at?: string | null
+          undone_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          canonical_place_id?: string
+          duplicate_place_id?: string
+          duplicate_place?: Json
+          canonical_place?: Json
+          moved_records?: Json
+          removed_collection_places?: Json
+          removed_menu?: Json | null
+          removed_summaries?: Json
+          removed_summary_reviews?: Json
+          removed_translations?: Json
+          merged_by?: string | null
+          undo_until?: string
+          undone_at?: string | null
+          undone_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_merges_canonical_place_id_fkey"
+            columns: ["canonical_place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_merges_undone_by_fkey"
+            columns: ["undone_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_photos: {
+        Row: {
+          id: string
+          place_id: string | null
+          user_id: string | null
+          photo_url: string
+          caption: string | null
+          created_at: string | null
+          thumbnail_url: string | null
+          perceptual_hash: string | null
+        }
+        Insert: {
+          id?: string
+          place_id?: string | null
+          user_id?: string | null
+          photo_url: string
+          caption?: string | null
+          created_at?: string | null
+          thumbnail_url?: string | null
+          perceptual_hash?: string | null
+        }
+        Update: {
+          id?: string
+          place_id?: string | null
+          user_id?: string | null
+          photo_url?: string
+          caption?: string | null
+          created_at?: string | null
+          thumbnail_url?: string | null
+          perceptual_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_photos_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_photos_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_summaries: {
+        Row: {
+          id: string
+          place_id: string
+          summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          overall_sentiment: string | null
+          google_review_count: number
+          in_app_review_count: number
+          in_app_average_rating: number | null
+          prompt_version: string | null
+          trigger: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          place_id: string
+          summary: string
+          pros?: string[]
+          cons?: string[]
+          recommendations?: string[]
+          overall_sentiment?: string | null
+          google_review_count?: number
+          in_app_review_count?: number
+          in_app_average_rating?: number | null
+          prompt_version?: string | null
+          trigger: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          place_id?: string
+          summary?: string
+          pros?: string[]
+          cons?: string[]
+          recommendations?: string[]
+          overall_sentiment?: string | null
+          google_review_count?: number
+          in_app_review_count?: number
+          in_app_average_rating?: number | null
+          prompt_version?: string | null
+          trigger?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_summaries_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_summary_failures: {
+        Row: {
+          place_id: string
+          attempts: number
+          last_error: string | null
+          failed_at: string
+          retry_at: string
+        }
+        Insert: {
+          place_id: string
+          attempts?: number
+          last_error?: string | null
+          failed_at?: string
+          retry_at: string
+        }
+        Update: {
+          place_id?: string
+          attempts?: number
+          last_error?: string | null
+          failed_at?: string
+          retry_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_summary_failures_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: true
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_summary_reviews: {
+        Row: {
+          id: string
+          summary_id: string
+          source: string
+          review_id: string | null
+          google_author: string | null
+          rating: number
+          cited_in: string[]
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          summary_id: string
+          source: string
+          review_id?: string | null
+          google_author?: string | null
+          rating: number
+          cited_in?: string[]
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          summary_id?: string
+          source?: string
+          review_id?: string | null
+          google_author?: string | null
+          rating?: number
+          cited_in?: string[]
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_summary_reviews_summary_id_fkey"
+            columns: ["summary_id"]
+            isOneToOne: false
+            referencedRelation: "place_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_summary_reviews_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_translations: {
+        Row: {
+          place_id: string
+          language: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          prompt_version: string | null
+          created_at: string | null
+        }
+        Insert: {
+          place_id: string
+          language: string
+          ai_summary?: string
+          pros?: string[]
+          cons?: string[]
+          recommendations?: string[]
+          prompt_version?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          place_id?: string
+          language?: string
+          ai_summary?: string
+          pros?: string[]
+          cons?: string[]
+          recommendations?: string[]
+          prompt_version?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_translations_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      places: {
+        Row: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number | null
+          review_count: number | null
+          image_url: string
+          ai_summary: string
+          pros: string[] | null
+          cons: string[] | null
+          recommendations: string[] | null
+          google_place_id: string | null
+          is_open: boolean | null
+          hours: string | null
+          week_hours: string[] | null
+          added_by: string | null
+          created_at: string | null
+          updated_at: string | null
+          is_public: boolean | null
+          thumbnail_url: string | null
+          summary_checked_at: string | null
+          phone: string | null
+          website: string | null
+          is_verified: boolean | null
+          verification_source: string | null
+          time_zone: string | null
+          hours_exceptions: Json
+        }
+        Insert: {
+          id?: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating?: number | null
+          review_count?: number | null
+          image_url: string
+          ai_summary: string
+          pros?: string[] | null
+          cons?: string[] | null
+          recommendations?: string[] | null
+          google_place_id?: string | null
+          is_open?: boolean | null
+          hours?: string | null
+          week_hours?: string[] | null
+          added_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          is_public?: boolean | null
+          thumbnail_url?: string | null
+          summary_checked_at?: string | null
+          phone?: string | null
+          website?: string | null
+          is_verified?: boolean | null
+          verification_source?: string | null
+          time_zone?: string | null
+          hours_exceptions?: Json
+        }
+        Update: {
+          id?: string
+          name?: string
+          category?: string
+          address?: string
+          latitude?: number
+          longitude?: number
+          rating?: number | null
+          review_count?: number | null
+          image_url?: string
+          ai_summary?: string
+          pros?: string[] | null
+          cons?: string[] | null
+          recommendations?: string[] | null
+          google_place_id?: string | null
+          is_open?: boolean | null
+          hours?: string | null
+          week_hours?: string[] | null
+          added_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          is_public?: boolean | null
+          thumbnail_url?: string | null
+          summary_checked_at?: string | null
+          phone?: string | null
+          website?: string | null
+          is_verified?: boolean | null
+          verification_source?: string | null
+          time_zone?: string | null
+          hours_exceptions?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "places_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          id: string
+          email: string
+          full_name: string
+          avatar_url: string | null
+          points: number | null
+          level: string | null
+          created_at: string | null
+          updated_at: string | null
+          role: string | null
+          last_city: string | null
+          last_country: string | null
+          last_latitude: number | null
+          last_longitude: number | null
+          username: string | null
+          bio: string | null
+          allow_social_features: boolean | null
+          current_city: string | null
+          current_country: string | null
+          current_latitude: number | null
+          current_longitude: number | null
+          location_updated_at: string | null
+          location_sharing_enabled: boolean | null
+          show_city_publicly: boolean | null
+          subscription_tier: Database["public"]["Enums"]["subscription_tier"] | null
+          subscription_status: Database["public"]["Enums"]["subscription_status"] | null
+          subscription_expires_at: string | null
+          places_added_this_month: number | null
+          collections_count: number | null
+        }
+        Insert: {
+          id: string
+          email: string
+          full_name: string
+          avatar_url?: string | null
+          points?: number | null
+          level?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          role?: string | null
+          last_city?: string | null
+          last_country?: string | null
+          last_latitude?: number | null
+          last_longitude?: number | null
+          username?: string | null
+          bio?: string | null
+          allow_social_features?: boolean | null
+          current_city?: string | null
+          current_country?: string | null
+          current_latitude?: number | null
+          current_longitude?: number | null
+          location_updated_at?: string | null
+          location_sharing_enabled?: boolean | null
+          show_city_publicly?: boolean | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"] | null
+          subscription_status?: Database["public"]["Enums"]["subscription_status"] | null
+          subscription_expires_at?: string | null
+          places_added_this_month?: number | null
+          collections_count?: number | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          full_name?: string
+          avatar_url?: string | null
+          points?: number | null
+          level?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          role?: string | null
+          last_city?: string | null
+          last_country?: string | null
+          last_latitude?: number | null
+          last_longitude?: number | null
+          username?: string | null
+          bio?: string | null
+          allow_social_features?: boolean | null
+          current_city?: string | null
+          current_country?: string | null
+          current_latitude?: number | null
+          current_longitude?: number | null
+          location_updated_at?: string | null
+          location_sharing_enabled?: boolean | null
+          show_city_publicly?: boolean | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"] | null
+          subscription_status?: Database["public"]["Enums"]["subscription_status"] | null
+          subscription_expires_at?: string | null
+          places_added_this_month?: number | null
+          collections_count?: number | null
+        }
+        Relationships: []
+      }
+      prompt_outcomes: {
+        Row: {
+          id: string
+          user_id: string
+          task: string
+          prompt_version: string
+          experiment_id: string | null
+          route: string
+          outcome: string
+          selected_rank: number
+          wrong_place_taps: number
+          confidence: number | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          task: string
+          prompt_version: string
+          experiment_id?: string | null
+          route: string
+          outcome: string
+          selected_rank?: number
+          wrong_place_taps?: number
+          confidence?: number | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          task?: string
+          prompt_version?: string
+          experiment_id?: string | null
+          route?: string
+          outcome?: string
+          selected_rank?: number
+          wrong_place_taps?: number
+          confidence?: number | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_outcomes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_history: {
+        Row: {
+          id: string
+          user_id: string | null
+          product_id: string
+          transaction_id: string
+          amount: number | null
+          currency: string | null
+          platform: Database["public"]["Enums"]["payment_platform"]
+          status: string
+          purchase_date: string
+          receipt_data: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          product_id: string
+          transaction_id: string
+          amount?: number | null
+          currency?: string | null
+          platform: Database["public"]["Enums"]["payment_platform"]
+          status: string
+          purchase_date: string
+          receipt_data?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          product_id?: string
+          transaction_id?: string
+          amount?: number | null
+          currency?: string | null
+          platform?: Database["public"]["Enums"]["payment_platform"]
+          status?: string
+          purchase_date?: string
+          receipt_data?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_history_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          id: string
+          reported_by: string | null
+          place_id: string | null
+          report_type: string
+          reason: string | null
+          status: string
+          admin_notes: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          reported_by?: string | null
+          place_id?: string | null
+          report_type: string
+          reason?: string | null
+          status?: string
+          admin_notes?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          reported_by?: string | null
+          place_id?: string | null
+          report_type?: string
+          reason?: string | null
+          status?: string
+          admin_notes?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reported_by_fkey"
+            columns: ["reported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_replies: {
+        Row: {
+          id: string
+          review_id: string | null
+          user_id: string | null
+          text: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id?: string | null
+          user_id?: string | null
+          text: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string | null
+          user_id?: string | null
+          text?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_replies_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_replies_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          id: string
+          place_id: string | null
+          user_id: string | null
+          rating: number
+          text: string
+          likes: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          place_id?: string | null
+          user_id?: string | null
+          rating: number
+          text: string
+          likes?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          place_id?: string | null
+          user_id?: string | null
+          rating?: number
+          text?: string
+          likes?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_tracking: {
+        Row: {
+          id: string
+          user_id: string | null
+          feature: string
+          usage_count: number | null
+          month: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          feature: string
+          usage_count?: number | null
+          month: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          feature?: string
+          usage_count?: number | null
+          month?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_tracking_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_connections: {
+        Row: {
+          id: string
+          user_id: string
+          connected_user_id: string
+          status: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          connected_user_id: string
+          status?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          connected_user_id?: string
+          status?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_connections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_connections_connected_user_id_fkey"
+            columns: ["connected_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_location_history: {
+        Row: {
+          id: string
+          user_id: string
+          city: string
+          country: string
+          latitude: number | null
+          longitude: number | null
+          accuracy_meters: number | null
+          recorded_at: string | null
+          is_current: boolean | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          city: string
+          country: string
+          latitude?: number | null
+          longitude?: number | null
+          accuracy_meters?: number | null
+          recorded_at?: string | null
+          is_current?: boolean | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          city?: string
+          country?: string
+          latitude?: number | null
+          longitude?: number | null
+          accuracy_meters?: number | null
+          recorded_at?: string | null
+          is_current?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_location_history_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_subscriptions: {
+        Row: {
+          id: string
+          user_id: string | null
+          product_id: string
+          transaction_id: string
+          original_transaction_id: string | null
+          subscription_tier: Database["public"]["Enums"]["subscription_tier"]
+          status: Database["public"]["Enums"]["subscription_status"]
+          platform: Database["public"]["Enums"]["payment_platform"]
+          purchase_date: string
+          expires_at: string
+          receipt_data: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          product_id: string
+          transaction_id: string
+          original_transaction_id?: string | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"]
+          status?: Database["public"]["Enums"]["subscription_status"]
+          platform: Database["public"]["Enums"]["payment_platform"]
+          purchase_date?: string
+          expires_at: string
+          receipt_data?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          product_id?: string
+          transaction_id?: string
+          original_transaction_id?: string | null
+          subscription_tier?: Database["public"]["Enums"]["subscription_tier"]
+          status?: Database["public"]["Enums"]["subscription_status"]
+          platform?: Database["public"]["Enums"]["payment_platform"]
+          purchase_date?: string
+          expires_at?: string
+          receipt_data?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      agree_with_place_edit: {
+        Args: {
+          target_suggestion_id: string
+        }
+        Returns: string
+      }
+      apply_place_edit: {
+        Args: {
+          target_suggestion_id: string
+          automatic: boolean
+        }
+        Returns: undefined
+      }
+      assert_own_usage: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      audit_ignored_fields: {
+        Args: {
+          audited_table: string
+        }
+        Returns: string[]
+      }
+      check_expired_subscriptions: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      check_subscription_limit: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: boolean
+      }
+      enable_collection_sharing: {
+        Args: {
+          collection_uuid: string
+        }
+        Returns: string
+      }
+      find_nearby_hidden_gems: {
+        Args: {
+          search_lat: number
+          search_lng: number
+          radius_meters?: number
+        }
+        Returns: {
+          id: string
+          city: string
+          country: string
+          title: string
+          description: string
+          reward: string
+          difficulty: string
+          clues: string[]
+          rules: string[]
+          hint_image_url: string
+          latitude: number
+          longitude: number
+          is_active: boolean
+          winner_id: string
+          attempts: number
+          participants: number
+          time_left: string
+          created_at: string
+          updated_at: string
+          distance_meters: number
+        }[]
+      }
+      find_nearby_users: {
+        Args: {
+          user_uuid: string
+          radius_km?: number
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          full_name: string
+          username: string
+          avatar_url: string
+          bio: string
+          current_city: string
+          current_country: string
+          distance_km: number
+          mutual_friends_count: number
+        }[]
+      }
+      find_users_in_city: {
+        Args: {
+          user_uuid: string
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          full_name: string
+          username: string
+          avatar_url: string
+          bio: string
+          current_city: string
+          current_country: string
+          mutual_friends_count: number
+        }[]
+      }
+      generate_collection_share_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_city_from_coordinates: {
+        Args: {
+          lat: number
+          lng: number
+        }
+        Returns: string
+      }
+      get_collection_places: {
+        Args: {
+          collection_id_param: string
+        }
+        Returns: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number
+          review_count: number
+          image_url: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          google_place_id: string
+          is_open: boolean
+          hours: string
+          week_hours: string[]
+          added_by: string
+          created_at: string
+          updated_at: string
+        }[]
+      }
+      get_collections_with_count: {
+        Args: {
+          user_id_param: string
+        }
+        Returns: {
+          id: string
+          name: string
+          description: string
+          user_id: string
+          color: string
+          is_public: boolean
+          cover_image: string
+          created_at: string
+          updated_at: string
+          place_count: number
+        }[]
+      }
+      get_feature_limit: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: number
+      }
+      get_filtered_places: {
+        Args: {
+          search_query?: string
+          category_filter?: string
+          sort_by?: string
+          limit_count?: number
+          offset_count?: number
+        }
+        Returns: Database["public"]["Tables"]["places"]["Row"][]
+      }
+      get_friend_activity_feed: {
+        Args: {
+          user_uuid: string
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          user_id: string
+          user_full_name: string
+          user_username: string
+          user_avatar_url: string
+          activity_type: string
+          place_id: string
+          place_name: string
+          place_image_url: string
+          collection_id: string
+          collection_name: string
+          metadata: Json
+          created_at: string
+        }[]
+      }
+      get_friends_only_places: {
+        Args: {
+          user_uuid: string
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number
+          review_count: number
+          image_url: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          google_place_id: string
+          is_open: boolean
+          hours: string
+          week_hours: string[]
+          added_by: string
+          created_at: string
+          updated_at: string
+          is_public: boolean
+          friend_visited_count: number
+          friend_visitor_names: string[]
+        }[]
+      }
+      get_mutual_connections: {
+        Args: {
+          user1_uuid: string
+          user2_uuid: string
+        }
+        Returns: {
+          mutual_user_id: string
+          full_name: string
+          username: string
+          avatar_url: string
+        }[]
+      }
+      get_nearby_friends_only_places: {
+        Args: {
+          user_uuid: string
+          user_lat: number
+          user_lng: number
+          radius_meters?: number
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number
+          review_count: number
+          image_url: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          google_place_id: string
+          is_open: boolean
+          hours: string
+          week_hours: string[]
+          added_by: string
+          created_at: string
+          updated_at: string
+          is_public: boolean
+          friend_visited_count: number
+          friend_visitor_names: string[]
+        }[]
+      }
+      get_nearby_places: {
+        Args: {
+          lat: number
+          lng: number
+          radius_km?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number
+          review_count: number
+          image_url: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          google_place_id: string
+          is_open: boolean
+          hours: string
+          week_hours: string[]
+          added_by: string
+          created_at: string
+          updated_at: string
+          distance_km: number
+        }[]
+      }
+      get_place_history: {
+        Args: {
+          target_place_id: string
+          before_created_at?: string
+          max_entries?: number
+        }
+        Returns: {
+          id: string
+          table_name: string
+          record_id: string
+          place_id: string
+          action: string
+          actor_id: string
+          actor_name: string
+          source: string
+          old_data: Json
+          new_data: Json
+          changed_fields: string[]
+          reverted_at: string
+          reverted_by: string
+          created_at: string
+        }[]
+      }
+      get_places_with_friend_data: {
+        Args: {
+          user_uuid: string
+          limit_count?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          category: string
+          address: string
+          latitude: number
+          longitude: number
+          rating: number
+          review_count: number
+          image_url: string
+          ai_summary: string
+          pros: string[]
+          cons: string[]
+          recommendations: string[]
+          google_place_id: string
+          is_open: boolean
+          hours: string
+          week_hours: string[]
+          added_by: string
+          created_at: string
+          updated_at: string
+          is_public: boolean
+          friend_visited_count: number
+          friend_visitor_names: string[]
+        }[]
+      }
+      get_places_with_review_changes: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          place_id: string
+          last_review_at: string
+        }[]
+      }
+      get_prompt_variant_stats: {
+        Args: {
+          p_since?: string
+        }
+        Returns: {
+          task: string
+          prompt_version: string
+          experiment_id: string
+          captures: number
+          accepted_top_match: number
+          searched: number
+          avg_wrong_place_taps: number
+          avg_confidence: number
+        }[]
+      }
+      get_public_collections: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          name: string
+          description: string
+          user_id: string
+          color: string
+          is_public: boolean
+          cover_image: string
+          created_at: string
+          updated_at: string
+          place_count: number
+          owner_name: string
+        }[]
+      }
+      get_shared_collections: {
+        Args: {
+          user_uuid: string
+        }
+        Returns: {
+          id: string
+          name: string
+          description: string
+          color: string
+          is_public: boolean
+          cover_image: string
+          created_at: string
+          updated_at: string
+          place_count: number
+          owner_name: string
+          owner_username: string
+          owner_avatar_url: string
+          permission: string
+          shared_at: string
+        }[]
+      }
+      get_usage_quota: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: {
+          usage_limit: number
+          usage_count: number
+        }[]
+      }
+      get_user_connections_count: {
+        Args: {
+          user_uuid: string
+        }
+        Returns: {
+          following_count: number
+          followers_count: number
+        }[]
+      }
+      increment_hidden_gem_attempts: {
+        Args: {
+          gem_id: string
+        }
+        Returns: undefined
+      }
+      increment_hidden_gem_participants: {
+        Args: {
+          gem_id: string
+        }
+        Returns: undefined
+      }
+      increment_usage: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: undefined
+      }
+      is_admin: {
+        Args: {
+          user_id: string
+        }
+        Returns: boolean
+      }
+      is_trusted_editor: {
+        Args: {
+          editor_id: string
+        }
+        Returns: boolean
+      }
+      merge_places: {
+        Args: {
+          canonical_place_id: string
+          duplicate_place_id: string
+        }
+        Returns: string
+      }
+      place_edit_fields: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      record_summary_failure: {
+        Args: {
+          p_place_id: string
+          p_error: string
+        }
+        Returns: string
+      }
+      release_usage: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: undefined
+      }
+      reserve_usage: {
+        Args: {
+          p_user_id: string
+          p_feature: string
+        }
+        Returns: boolean
+      }
+      revert_audit_entry: {
+        Args: {
+          entry_id: string
+        }
+        Returns: undefined
+      }
+      review_place_edit: {
+        Args: {
+          target_suggestion_id: string
+          approve: boolean
+          notes?: string
+        }
+        Returns: undefined
+      }
+      search_places_by_menu: {
+        Args: {
+          p_item_query: string
+          p_max_price?: number
+          p_currency?: string
+          p_limit?: number
+        }
+        Returns: {
+          place_id: string
+          item_name: string
+          section_name: string
+          price: number
+          currency: string
+        }[]
+      }
+      share_collection_with_friend: {
+        Args: {
+          collection_uuid: string
+          friend_user_id: string
+          permission_level?: string
+        }
+        Returns: boolean
+      }
+      suggest_place_edit: {
+        Args: {
+          target_place_id: string
+          proposed_changes: Json
+          suggestion_note?: string
+        }
+        Returns: {
+          suggestion_id: string
+          status: string
+        }[]
+      }
+      track_user_activity: {
+        Args: {
+          activity_type_param: string
+          place_id_param?: string
+          collection_id_param?: string
+          metadata_param?: Json
+        }
+        Returns: string
+      }
+      undo_place_merge: {
+        Args: {
+          merge_id: string
+        }
+        Returns: undefined
+      }
+      update_review_likes: {
+        Args: {
+          review_id: string
+          increment: number
+        }
+        Returns: undefined
+      }
+      update_user_location: {
+        Args: {
+          city_param: string
+          country_param: string
+          latitude_param?: number
+          longitude_param?: number
+          accuracy_param?: number
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      payment_platform: "ios" | "android" | "web"
+      subscription_status: "active" | "expired" | "cancelled" | "pending"
+      subscription_tier: "free" | "basic" | "pro"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Row"]
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
+export type Enums<T extends keyof PublicSchema["Enums"]> = PublicSchema["Enums"][T]
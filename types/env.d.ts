@@ -4,11 +4,19 @@ declare global {
       // Client-side accessible (EXPO_PUBLIC_ prefix)
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
+      EXPO_PUBLIC_PHOTO_QUALITY_MIN_SHARPNESS?: string;
+      EXPO_PUBLIC_PHOTO_QUALITY_MIN_BRIGHTNESS?: string;
+      EXPO_PUBLIC_PHOTO_QUALITY_MAX_GLARE?: string;
+      EXPO_PUBLIC_PHOTO_QUALITY_MIN_SIGN_COVERAGE?: string;
       
       // Server-side only (NO EXPO_PUBLIC_ prefix for security)
       OPENAI_API_KEY: string;
       GOOGLE_PLACES_API_KEY: string;
       GOOGLE_MAPS_API_KEY: string;
+      SUPABASE_URL?: string;
+      SUPABASE_SERVICE_ROLE_KEY?: string;
+      PROMPT_EXPERIMENTS?: string;
+      SUMMARY_JOB_SECRET?: string;
     }
   }
 }
@@ -0,0 +1,23 @@
+// Shared types for hidden gems, built from the rows in types/database.ts
+import type { Tables } from './database';
+import type { WithDefaults } from './rows';
+
+export type HiddenGemRow = Tables<'hidden_gems'>;
+
+export type HiddenGemDefaultedColumn =
+  | 'clues'
+  | 'rules'
+  | 'is_active'
+  | 'attempts'
+  | 'participants'
+  | 'time_left'
+  | 'created_at'
+  | 'updated_at';
+
+export type HiddenGem = WithDefaults<HiddenGemRow, HiddenGemDefaultedColumn>;
+
+// What an admin fills in to create a hidden gem; the rest starts at its default
+export type NewHiddenGem = Omit<
+  HiddenGem,
+  'id' | 'created_at' | 'updated_at' | 'winner_id' | 'attempts' | 'participants' | 'is_active' | 'hint_thumbnail_url' | 'place_id'
+> & Partial<Pick<HiddenGem, 'hint_thumbnail_url' | 'place_id'>>;
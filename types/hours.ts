@@ -0,0 +1,57 @@
+// Shared types for opening hours read from hours signs
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface HoursShift {
+  open: string; // 24-hour "HH:mm"
+  close: string; // 24-hour "HH:mm"; at or before `open` when the shift runs past midnight
+}
+
+export interface DayHours {
+  day: Weekday;
+  closed: boolean;
+  shifts: HoursShift[]; // More than one for split shifts, e.g. lunch and dinner
+}
+
+// Output of the extract-hours analysis step. Days the sign does not mention are omitted.
+export interface HoursSignExtraction {
+  days: DayHours[];
+  notes?: string; // e.g. "Closed on public holidays"
+  confidence: number; // 0-100
+}
+
+// One row of the confirm-before-saving diff
+export interface WeekHoursChange {
+  day: Weekday;
+  before: string; // weekday_text entry, e.g. "Monday: 9:00 AM – 5:00 PM"
+  after: string;
+  changed: boolean;
+}
+
+// Hours that replace the weekly hours on one date, e.g. a public holiday
+export interface HoursException {
+  date: string; // "YYYY-MM-DD" on the place's clock
+  closed: boolean;
+  shifts: HoursShift[];
+  label?: string; // e.g. "Christmas Day"
+}
+
+// Everything needed to tell whether a place is open at a given moment
+export interface OpeningSchedule {
+  days: DayHours[]; // Days without known hours are omitted
+  exceptions: HoursException[];
+  timeZone: string | null; // IANA name; null: judge by the viewer's clock
+}
+
+export type OpenState = 'open' | 'closing_soon' | 'closed' | 'unknown';
+
+export interface OpenStatus {
+  state: OpenState;
+  changesAt: Date | null; // When it next opens or closes; null when unknown or it never closes
+}
+
+// The "Open now" / "Open at…" filter on the home feed and map
+export type OpenFilter =
+  | { mode: 'any' }
+  | { mode: 'now' }
+  | { mode: 'at'; day: Weekday; time: string }; // "HH:mm" on the place's clock
@@ -0,0 +1,42 @@
+// Shared types for AI output in the viewer's language
+// AI output is generated in English, the canonical copy that places are stored and searched
+// by, and translated into AppSettings.language for display.
+
+// Fields handed to the translate-content prompt: strings and lists of strings only
+export type TranslatableContent = Record<string, string | string[]>;
+
+export interface LocalizedStorefrontAnalysis {
+  language: string;
+  businessType: string;
+  description: string;
+  features: string[];
+  visualIndicators: string[];
+  architecturalStyle: string;
+}
+
+export interface LocalizedPlaceReview {
+  language: string;
+  summary: string;
+  pros: string[];
+  cons: string[];
+  recommendations: string[];
+  bestFor: string[];
+}
+
+// The parts of a place's AI summary that are translated (a type rather than an interface,
+// so it can be passed as TranslatableContent)
+export type LocalizedPlaceSummary = {
+  ai_summary: string;
+  pros: string[];
+  cons: string[];
+  recommendations: string[];
+};
+
+// A row of place_translations: a cached translation of the place's current AI summary.
+// Rows are deleted when places.ai_summary / pros / cons / recommendations change.
+export interface PlaceTranslation extends LocalizedPlaceSummary {
+  place_id: string;
+  language: string;
+  prompt_version: string | null;
+  created_at: string;
+}
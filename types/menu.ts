@@ -0,0 +1,48 @@
+// Shared types for structured place menus (menu / price-board capture)
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  description?: string;
+  price: number | null; // In the menu currency's major unit; null when unreadable or "market price"
+  priceText?: string; // Price as printed, e.g. "65k", "S 45 / L 60"
+}
+
+export interface MenuSection {
+  name: string;
+  items: MenuItem[];
+}
+
+export interface PlaceMenu {
+  id: string;
+  place_id: string;
+  currency: string; // ISO 4217 code
+  sections: MenuSection[];
+  source_photo_url?: string;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Output of the extract-menu analysis step
+export interface MenuExtraction {
+  currency: string;
+  language: string;
+  sections: MenuSection[];
+}
+
+// Parsed from searches such as "pho under $10"
+export interface MenuQuery {
+  itemQuery: string;
+  maxPrice?: number;
+  currency?: string;
+}
+
+// Cheapest menu item matching a MenuQuery at a place (search_places_by_menu)
+export interface MenuSearchMatch {
+  place_id: string;
+  item_name: string;
+  section_name: string;
+  price: number | null;
+  currency: string;
+}
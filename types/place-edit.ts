@@ -0,0 +1,45 @@
+// Shared types for community edit suggestions on places
+import type { Tables } from './database';
+import type { Place } from './place';
+
+// Place columns users can suggest changes to (see place_edit_fields() in the migration)
+export type EditablePlaceField =
+  | 'name'
+  | 'category'
+  | 'address'
+  | 'week_hours'
+  | 'phone'
+  | 'website'
+  | 'latitude'
+  | 'longitude';
+
+export type EditablePlaceValues = Pick<Place, EditablePlaceField>;
+
+export interface FieldChange<F extends EditablePlaceField = EditablePlaceField> {
+  from: EditablePlaceValues[F];
+  to: EditablePlaceValues[F];
+}
+
+// A suggestion's diff: only the fields it changes, as the proposer saw them and as proposed
+export type PlaceEditChanges = { [F in EditablePlaceField]?: FieldChange<F> };
+
+export type PlaceEditStatus = 'pending' | 'applied' | 'rejected';
+
+export interface PlaceEditSuggestion extends Omit<Tables<'place_edit_suggestions'>, 'changes' | 'status'> {
+  changes: PlaceEditChanges;
+  status: PlaceEditStatus;
+  agreed_user_ids: string[]; // Including the proposer
+}
+
+// A suggestion in the admin queue, with what it applies to and who proposed it
+export interface QueuedPlaceEdit extends PlaceEditSuggestion {
+  place: (EditablePlaceValues & Pick<Place, 'id'>) | null;
+  proposer_name: string | null;
+}
+
+// Outcome of submitting a suggestion: a new pending suggestion, an agreement with an
+// identical pending one, or either of those reaching enough agreements to be applied
+export interface PlaceEditSubmission {
+  suggestionId: string;
+  status: PlaceEditStatus;
+}
@@ -1,72 +1,93 @@
 // Shared types for places and collections
+// Built from the generated rows in types/database.ts, so a column that is renamed or dropped
+// in a migration is a type error here rather than a field that silently reads undefined.
+import type { Tables } from './database';
+import type { WithDefaults } from './rows';
+import type { HoursException } from './hours';
 
-export interface Place {
+export type PlaceRow = Tables<'places'>;
+
+export type PlaceDefaultedColumn =
+  | 'rating'
+  | 'review_count'
+  | 'pros'
+  | 'cons'
+  | 'recommendations'
+  | 'is_open'
+  | 'hours'
+  | 'week_hours'
+  | 'is_public'
+  | 'is_verified'
+  | 'created_at'
+  | 'updated_at';
+
+// The friend who added a place, for places in a user's friend feeds
+export interface PlaceFriend {
   id: string;
-  name: string;
-  address: string;
-  latitude: number;
-  longitude: number;
-  category: string;
-  rating: number;
-  description?: string;
-  photos?: string[];
-  image_url?: string;
-  created_at: string;
-  updated_at?: string;
-  user_id: string;
-  is_public: boolean;
-  google_place_id?: string;
-  review_count?: number;
-  ai_summary?: string;
-  pros?: string[];
-  cons?: string[];
-  recommendations?: string[];
-  is_open?: boolean;
-  hours?: string;
-  week_hours?: string[];
-  phone?: string;
-  website?: string;
+  full_name: string;
+  username?: string;
+  avatar_url?: string;
 }
 
-export interface Collection {
-  id: string;
-  name: string;
-  description?: string;
-  places?: Place[];
+export interface Place extends Omit<WithDefaults<PlaceRow, PlaceDefaultedColumn>, 'hours_exceptions'> {
+  hours_exceptions: HoursException[];
+  // Social features (Phase 2)
+  friend_visited_count?: number;
+  friend_visitor_names?: string[];
+  // Friend context (Phase 4 - Enhanced Social)
+  addedByFriend?: PlaceFriend;
+}
+
+export type PlacePhoto = WithDefaults<Tables<'place_photos'>, 'created_at'>;
+
+export type CollectionRow = Tables<'collections'>;
+
+export type CollectionDefaultedColumn =
+  | 'color'
+  | 'is_public'
+  | 'is_shareable'
+  | 'shared_count'
+  | 'created_at'
+  | 'updated_at';
+
+export interface Collection extends WithDefaults<CollectionRow, CollectionDefaultedColumn> {
   place_count?: number;
-  is_public: boolean;
-  cover_image?: string;
-  created_at: string;
-  updated_at: string;
-  color?: string;
-  user_id?: string;
+  places?: Place[];
+  owner_name?: string;
 }
 
-export interface CollectionPlace {
-  id: string;
-  collection_id: string;
-  place_id: string;
-  added_at: string;
-  notes?: string;
+export type SharePermission = 'view' | 'collaborate';
+
+export interface SharedCollection extends Collection {
+  owner_username?: string;
+  owner_avatar_url?: string;
+  permission: SharePermission;
+  shared_at: string;
 }
 
-export interface PlaceReview {
-  id: string;
-  place_id: string;
-  user_id: string;
-  rating: number;
-  text?: string;
-  created_at: string;
-  updated_at?: string;
-  author_name?: string;
-  author_image?: string;
+export interface CollectionShare extends Omit<Tables<'collection_shares'>, 'permission' | 'shared_at'> {
+  permission: SharePermission;
+  shared_at: string;
 }
 
-export interface PlaceImage {
-  id: string;
-  place_id: string;
-  url: string;
-  caption?: string;
-  created_at: string;
-  user_id?: string;
-}
\ No newline at end of file
+export type CollectionPlace = Tables<'collection_places'>;
+
+// Tables whose rows merge_places re-points from the duplicate to the canonical place
+export type MergedRecordTable =
+  | 'reviews'
+  | 'place_photos'
+  | 'collection_places'
+  | 'friend_activities'
+  | 'reports'
+  | 'hidden_gems'
+  | 'place_menus'
+  | 'place_edit_suggestions';
+
+// A duplicate place an admin merged into a canonical one, undoable until `undo_until`
+export interface PlaceMerge extends Pick<
+  Tables<'place_merges'>,
+  'id' | 'canonical_place_id' | 'duplicate_place_id' | 'merged_by' | 'undo_until' | 'undone_at' | 'created_at'
+> {
+  duplicate_name: string;
+  moved_counts: Record<MergedRecordTable, number>;
+}
@@ -0,0 +1,27 @@
+// Shared types for prompt outcome tracking and the admin prompt variant comparison
+import type { AnalysisRoute, AnalysisRouteOutcome } from '@/utils/progressive-analysis';
+
+// A row of prompt_outcomes
+export interface PromptOutcome {
+  user_id: string;
+  task: string;
+  prompt_version: string;
+  experiment_id: string | null;
+  route: AnalysisRoute;
+  outcome: AnalysisRouteOutcome;
+  selected_rank: number;
+  wrong_place_taps: number;
+  confidence: number | null;
+}
+
+// One row of get_prompt_variant_stats
+export interface PromptVariantStats {
+  task: string;
+  prompt_version: string;
+  experiment_id: string | null;
+  captures: number;
+  accepted_top_match: number; // Kept the top match without tapping "wrong place"
+  searched: number; // Had to search for a place outside the candidates
+  avg_wrong_place_taps: number;
+  avg_confidence: number | null;
+}
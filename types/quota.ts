@@ -0,0 +1,19 @@
+// Shared types for per-user API quotas on the proxy routes
+
+export type QuotaFeature = 'ai_requests' | 'places_requests';
+
+export interface UsageQuota {
+  feature: QuotaFeature;
+  limit: number | null; // null = unlimited
+  used: number;
+  remaining: number | null; // null = unlimited
+  resetsAt: string; // ISO date of the next monthly reset
+}
+
+// Response headers carrying the caller's quota after each proxied request
+export const QUOTA_HEADERS = {
+  feature: 'X-Quota-Feature',
+  limit: 'X-Quota-Limit',
+  remaining: 'X-Quota-Remaining',
+  reset: 'X-Quota-Reset',
+} as const;
@@ -0,0 +1,59 @@
+// Shared types for AI review summaries and their regeneration from in-app reviews
+
+export type SummaryReviewSource = 'google' | 'in_app';
+
+export type SummaryTrigger = 'capture' | 'regeneration';
+
+// A review as shown to the summarize-reviews prompt. `ref` (e.g. "G1", "R2") is how the
+// model cites it, so every point in the summary can be traced back to its reviews.
+export interface SummaryReviewInput {
+  ref: string;
+  source: SummaryReviewSource;
+  reviewId?: string; // reviews.id for in-app reviews
+  authorName?: string; // Google reviewer name
+  rating: number;
+  text: string;
+}
+
+export interface AttributedPoint {
+  text: string;
+  reviews: string[]; // Refs of the reviews behind the point
+}
+
+// Output of the summarize-reviews analysis step
+export interface ReviewSummaryExtraction {
+  summary: string;
+  summaryReviews: string[]; // Refs of the reviews behind the overview sentence(s)
+  pros: AttributedPoint[];
+  cons: AttributedPoint[];
+  recommendations: AttributedPoint[];
+  overallSentiment: 'positive' | 'neutral' | 'negative';
+}
+
+// A row of place_summaries. The newest row is the place's current summary (also copied
+// onto places.ai_summary / pros / cons / recommendations); older rows are its history.
+export interface PlaceSummary {
+  id: string;
+  place_id: string;
+  summary: string;
+  pros: string[];
+  cons: string[];
+  recommendations: string[];
+  overall_sentiment: 'positive' | 'neutral' | 'negative' | null;
+  google_review_count: number;
+  in_app_review_count: number;
+  in_app_average_rating: number | null;
+  prompt_version: string | null;
+  trigger: SummaryTrigger;
+  created_at: string;
+}
+
+// A row of place_summary_reviews: one review that contributed to a summary
+export interface PlaceSummaryReview {
+  summary_id: string;
+  source: SummaryReviewSource;
+  review_id: string | null;
+  google_author: string | null;
+  rating: number;
+  cited_in: string[]; // e.g. ["summary", "pros:0", "cons:1"]
+}
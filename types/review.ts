@@ -0,0 +1,14 @@
+// Shared types for in-app reviews and their replies, built from the rows in types/database.ts
+import type { Tables } from './database';
+import type { WithDefaults } from './rows';
+import type { Profile } from './social';
+
+export type ReviewRow = Tables<'reviews'>;
+
+export interface Review extends WithDefaults<ReviewRow, 'likes' | 'created_at' | 'updated_at'> {
+  user_profile?: Profile;
+}
+
+export interface ReviewReply extends WithDefaults<Tables<'review_replies'>, 'created_at' | 'updated_at'> {
+  user_profile?: Profile;
+}
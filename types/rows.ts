@@ -0,0 +1,9 @@
+// Helpers for building domain types from the generated table rows in types/database.ts
+
+// A row with its defaulted columns made non-nullable. Columns declared with a DEFAULT but
+// without NOT NULL come out nullable in the generated types; the repositories in
+// lib/repositories fill in the default for rows where they are NULL.
+export type WithDefaults<Row, K extends keyof Row> = Omit<Row, K> & { [P in K]-?: NonNullable<Row[P]> };
+
+// The values the repositories substitute for NULL in each defaulted column
+export type ColumnDefaults<Row, K extends keyof Row> = { [P in K]-?: NonNullable<Row[P]> };
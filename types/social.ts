@@ -0,0 +1,66 @@
+// Shared types for profiles, connections, friend activity and location sharing
+// Built from the rows in types/database.ts; see types/rows.ts for the defaulted columns.
+import type { Database, Tables } from './database';
+import type { WithDefaults } from './rows';
+
+type FunctionReturn<Name extends keyof Database['public']['Functions']> =
+  Database['public']['Functions'][Name]['Returns'] extends (infer Row)[] ? Row : never;
+
+export type ProfileRow = Tables<'profiles'>;
+
+export type ProfileDefaultedColumn =
+  | 'points'
+  | 'level'
+  | 'role'
+  | 'allow_social_features'
+  | 'created_at'
+  | 'updated_at';
+
+export type Profile = WithDefaults<ProfileRow, ProfileDefaultedColumn>;
+
+export type SocialProfile = Pick<Profile, 'id' | 'full_name' | 'username' | 'avatar_url' | 'bio' | 'allow_social_features'>;
+
+export type ConnectionStatus = 'following' | 'friends';
+
+export interface UserConnection extends Omit<Tables<'user_connections'>, 'status' | 'created_at'> {
+  status: ConnectionStatus;
+  created_at: string;
+}
+
+export interface ConnectionsCount {
+  following_count: number;
+  followers_count: number;
+}
+
+export type FriendActivityType = 'place_added' | 'collection_created' | 'place_saved' | 'review_added' | 'hidden_gem_found';
+
+export interface FriendActivity extends Omit<FunctionReturn<'get_friend_activity_feed'>, 'activity_type' | 'metadata'> {
+  activity_type: FriendActivityType;
+  metadata: Record<string, any>;
+}
+
+// A user from find_nearby_users / find_users_in_city; only users with social features on are returned
+export interface NearbyUser extends SocialProfile {
+  current_city: string | null;
+  current_country: string | null;
+  distance_km?: number; // Not set for users found by city
+  mutual_friends_count: number;
+}
+
+export type LocationPrivacySettings = WithDefaults<
+  Tables<'location_privacy_settings'>,
+  | 'share_city_with_friends'
+  | 'share_city_publicly'
+  | 'allow_nearby_suggestions'
+  | 'location_sharing_radius_km'
+  | 'auto_update_location'
+  | 'created_at'
+  | 'updated_at'
+>;
+
+export type UserLocationHistory = WithDefaults<Tables<'user_location_history'>, 'recorded_at' | 'is_current'>;
+
+export interface LocationUpdateResult {
+  success: boolean;
+  error?: string;
+}
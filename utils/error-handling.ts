@@ -1,4 +1,5 @@
 // Comprehensive error handling and retry utility
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 
 export interface RetryOptions {
   maxRetries?: number;
@@ -312,16 +313,12 @@ export function logErrorToCrashlytics(error: Error, errorInfo?: any) {
   }
 }
 
-// Validate network connectivity
+// Whether a network state can reach the internet; either can be null while the OS has not
+// found out yet, which counts as online rather than holding work back
+export const isOnlineState = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+// Validate network connectivity from the OS network state, without a request of our own
 export async function checkNetworkConnectivity(): Promise<boolean> {
-  try {
-    const response = await fetch('https://httpbin.org/status/200', {
-      method: 'HEAD',
-      cache: 'no-cache',
-      signal: AbortSignal.timeout(5000),
-    });
-    return response.ok;
-  } catch {
-    return false;
-  }
+  return isOnlineState(await NetInfo.fetch());
 }
\ No newline at end of file
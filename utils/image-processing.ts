@@ -1,6 +1,9 @@
 import * as FileSystem from 'expo-file-system';
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
 import { Image } from 'react-native';
+import { decode } from 'base64-arraybuffer';
+import { decodePng, differenceHash, GrayscaleImage, hammingDistance, perceptualHashFromPng } from '@/lib/image-hash';
+import { inflateZlib } from '@/lib/inflate';
 
 export interface ProcessedImage {
   base64: string;
@@ -168,6 +171,303 @@ export async function processImageForAnalysis(imageUri: string): Promise<Process
   }
 }
 
+export interface FrameQuality {
+  sharpness: number; // Variance of the Laplacian; higher is sharper
+  exposure: number; // 0-1; 1 is mid-toned with no clipped shadows or highlights
+  score: number; // 0-1 ranking score combining both
+  hash: string; // Difference hash, to tell frames with different content apart
+}
+
+export interface BurstFrame {
+  uri: string;
+  quality: FrameQuality | null;
+}
+
+// Frames are compared on a small grayscale copy, enough for relative sharpness
+const QUALITY_SAMPLE_WIDTH = 128;
+// Laplacian variance at which a frame scores half on sharpness
+const SHARPNESS_HALF_SCORE = 100;
+const SHARPNESS_WEIGHT = 0.7;
+const CLIPPED_SHADOW = 8;
+const CLIPPED_HIGHLIGHT = 247;
+// A runner-up frame is also sent when it scores within 80% of the best frame and its
+// content differs enough (e.g. a car moved out of the way of the sign)
+const ALTERNATE_MIN_RELATIVE_SCORE = 0.8;
+const ALTERNATE_MIN_HASH_DISTANCE = 10;
+
+// Variance of the Laplacian; blur flattens edges, so blurry images score low
+const laplacianVariance = ({ width, height, pixels }: GrayscaleImage): number => {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let samples = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      const laplacian = 4 * pixels[index]
+        - pixels[index - 1] - pixels[index + 1]
+        - pixels[index - width] - pixels[index + width];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      samples++;
+    }
+  }
+  return samples > 0 ? sumOfSquares / samples - (sum / samples) ** 2 : 0;
+};
+
+// Small grayscale copy of a photo, decoded on device
+const loadGrayscaleSample = async (imageUri: string): Promise<GrayscaleImage | null> => {
+  const sample = await manipulateAsync(
+    imageUri,
+    [{ resize: { width: QUALITY_SAMPLE_WIDTH } }],
+    { format: SaveFormat.PNG, base64: true }
+  );
+  if (!sample.base64) return null;
+  return decodePng(new Uint8Array(decode(sample.base64)), inflateZlib);
+};
+
+/**
+ * Sharpness and exposure of a grayscale frame
+ */
+export function measureFrameQuality(image: GrayscaleImage): FrameQuality {
+  const { pixels } = image;
+  const sharpness = laplacianVariance(image);
+
+  let total = 0;
+  let clipped = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    total += pixels[i];
+    if (pixels[i] <= CLIPPED_SHADOW || pixels[i] >= CLIPPED_HIGHLIGHT) clipped++;
+  }
+  const mean = pixels.length > 0 ? total / pixels.length : 0;
+  const exposure = pixels.length > 0
+    ? Math.max(0, 1 - Math.abs(mean - 128) / 128) * (1 - clipped / pixels.length)
+    : 0;
+
+  const sharpnessScore = sharpness / (sharpness + SHARPNESS_HALF_SCORE);
+  return {
+    sharpness,
+    exposure,
+    score: SHARPNESS_WEIGHT * sharpnessScore + (1 - SHARPNESS_WEIGHT) * exposure,
+    hash: differenceHash(image),
+  };
+}
+
+/**
+ * Measure a captured frame on a small grayscale copy.
+ * Returns null when the frame cannot be decoded; callers fall back to the first frame.
+ */
+export async function assessFrameQuality(imageUri: string): Promise<FrameQuality | null> {
+  try {
+    const sample = await loadGrayscaleSample(imageUri);
+    return sample ? measureFrameQuality(sample) : null;
+  } catch (error) {
+    console.warn('Unable to assess frame quality:', error);
+    return null;
+  }
+}
+
+/**
+ * Pick the best frame of a burst, plus a runner-up worth sending alongside it
+ */
+export function selectBestFrames<T extends BurstFrame>(frames: T[]): { best: T; alternate?: T } {
+  if (frames.length === 0) {
+    throw new Error('No frames to select from');
+  }
+
+  const ranked = frames
+    .filter(frame => frame.quality)
+    .sort((a, b) => b.quality!.score - a.quality!.score);
+  if (ranked.length === 0) {
+    return { best: frames[0] };
+  }
+
+  const [best, ...rest] = ranked;
+  const alternate = rest.find(frame =>
+    frame.quality!.score >= best.quality!.score * ALTERNATE_MIN_RELATIVE_SCORE &&
+    hammingDistance(frame.quality!.hash, best.quality!.hash) >= ALTERNATE_MIN_HASH_DISTANCE
+  );
+  return { best, alternate };
+}
+
+export type PhotoQualityIssueType = 'too_dark' | 'blurry' | 'glare' | 'sign_too_small';
+
+export interface PhotoQualityMetrics {
+  sharpness: number; // Variance of the Laplacian
+  brightness: number; // Mean luminance, 0-255
+  glare: number; // Fraction of blown-out pixels, 0-1
+  signCoverage: number; // Fraction of the frame with dense, text-like edges, 0-1
+}
+
+export interface PhotoQualityThresholds {
+  minSharpness: number;
+  minBrightness: number;
+  maxGlare: number;
+  minSignCoverage: number;
+}
+
+export interface PhotoQualityIssue {
+  type: PhotoQualityIssueType;
+  message: string; // What the user should do differently
+}
+
+export interface PhotoQualityReport {
+  passed: boolean;
+  metrics: PhotoQualityMetrics;
+  issues: PhotoQualityIssue[];
+}
+
+export const DEFAULT_PHOTO_QUALITY_THRESHOLDS: PhotoQualityThresholds = {
+  minSharpness: 25,
+  minBrightness: 45,
+  maxGlare: 0.2,
+  minSignCoverage: 0.05,
+};
+
+const PHOTO_QUALITY_MESSAGES: Record<PhotoQualityIssueType, string> = {
+  too_dark: 'Too dark. Move into better light or turn on the flash.',
+  blurry: 'Too blurry. Hold the phone steady and tap the sign to focus.',
+  glare: 'Too much glare. Change your angle so light does not reflect off the sign or window.',
+  sign_too_small: 'Sign too small. Get closer to the sign so it fills more of the frame.',
+};
+
+const GLARE_LEVEL = 250;
+// Edge density is measured per cell of this size (in sample pixels)
+const COVERAGE_CELL_SIZE = 8;
+// Mean gradient at which a cell looks like lettering rather than wall, sky or road
+const TEXT_EDGE_STRENGTH = 24;
+
+// Env values are read one by one so Expo can inline them in the client bundle
+const parseThreshold = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Photo quality thresholds, from EXPO_PUBLIC_PHOTO_QUALITY_* with the defaults as fallback
+ */
+export function getPhotoQualityThresholds(env: {
+  minSharpness?: string;
+  minBrightness?: string;
+  maxGlare?: string;
+  minSignCoverage?: string;
+} = {
+  minSharpness: process.env.EXPO_PUBLIC_PHOTO_QUALITY_MIN_SHARPNESS,
+  minBrightness: process.env.EXPO_PUBLIC_PHOTO_QUALITY_MIN_BRIGHTNESS,
+  maxGlare: process.env.EXPO_PUBLIC_PHOTO_QUALITY_MAX_GLARE,
+  minSignCoverage: process.env.EXPO_PUBLIC_PHOTO_QUALITY_MIN_SIGN_COVERAGE,
+}): PhotoQualityThresholds {
+  const defaults = DEFAULT_PHOTO_QUALITY_THRESHOLDS;
+  return {
+    minSharpness: parseThreshold(env.minSharpness, defaults.minSharpness),
+    minBrightness: parseThreshold(env.minBrightness, defaults.minBrightness),
+    maxGlare: parseThreshold(env.maxGlare, defaults.maxGlare),
+    minSignCoverage: parseThreshold(env.minSignCoverage, defaults.minSignCoverage),
+  };
+}
+
+/**
+ * Blur, darkness, glare and sign-coverage heuristics for a grayscale photo
+ */
+export function measurePhotoQuality(image: GrayscaleImage): PhotoQualityMetrics {
+  const { width, height, pixels } = image;
+
+  let total = 0;
+  let blownOut = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    total += pixels[i];
+    if (pixels[i] >= GLARE_LEVEL) blownOut++;
+  }
+
+  // Signs show up as clusters of strong edges; count the cells dense enough to be lettering
+  let cells = 0;
+  let textCells = 0;
+  for (let cellY = 0; cellY + COVERAGE_CELL_SIZE < height; cellY += COVERAGE_CELL_SIZE) {
+    for (let cellX = 0; cellX + COVERAGE_CELL_SIZE < width; cellX += COVERAGE_CELL_SIZE) {
+      let gradient = 0;
+      for (let y = cellY; y < cellY + COVERAGE_CELL_SIZE; y++) {
+        for (let x = cellX; x < cellX + COVERAGE_CELL_SIZE; x++) {
+          const index = y * width + x;
+          gradient += Math.abs(pixels[index + 1] - pixels[index]) + Math.abs(pixels[index + width] - pixels[index]);
+        }
+      }
+      cells++;
+      if (gradient / (COVERAGE_CELL_SIZE * COVERAGE_CELL_SIZE) >= TEXT_EDGE_STRENGTH) textCells++;
+    }
+  }
+
+  return {
+    sharpness: laplacianVariance(image),
+    brightness: pixels.length > 0 ? total / pixels.length : 0,
+    glare: pixels.length > 0 ? blownOut / pixels.length : 0,
+    signCoverage: cells > 0 ? textCells / cells : 0,
+  };
+}
+
+/**
+ * Compare measured quality against thresholds; issues are ordered by what to fix first
+ */
+export function checkPhotoQuality(
+  metrics: PhotoQualityMetrics,
+  thresholds: PhotoQualityThresholds = DEFAULT_PHOTO_QUALITY_THRESHOLDS
+): PhotoQualityReport {
+  const failed: PhotoQualityIssueType[] = [];
+  if (metrics.brightness < thresholds.minBrightness) failed.push('too_dark');
+  if (metrics.sharpness < thresholds.minSharpness) failed.push('blurry');
+  if (metrics.glare > thresholds.maxGlare) failed.push('glare');
+  // A dark or blurry photo hides its edges, so coverage is only meaningful once those pass
+  if (failed.length === 0 && metrics.signCoverage < thresholds.minSignCoverage) failed.push('sign_too_small');
+
+  return {
+    passed: failed.length === 0,
+    metrics,
+    issues: failed.map(type => ({ type, message: PHOTO_QUALITY_MESSAGES[type] })),
+  };
+}
+
+/**
+ * On-device quality gate run before a photo is sent for analysis.
+ * Returns null when the photo cannot be decoded; callers let it through.
+ */
+export async function assessPhotoQuality(
+  imageUri: string,
+  thresholds: PhotoQualityThresholds = getPhotoQualityThresholds()
+): Promise<PhotoQualityReport | null> {
+  try {
+    const sample = await loadGrayscaleSample(imageUri);
+    return sample ? checkPhotoQuality(measurePhotoQuality(sample), thresholds) : null;
+  } catch (error) {
+    console.warn('Unable to assess photo quality:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a tiny PNG fingerprint (9x8) used server-side for perceptual hashing.
+ * Returns null when the image cannot be processed; callers treat it as optional.
+ */
+export async function createImageFingerprint(imageUri: string): Promise<string | null> {
+  try {
+    const fingerprint = await manipulateAsync(
+      imageUri,
+      [{ resize: { width: 9, height: 8 } }],
+      { format: SaveFormat.PNG, base64: true }
+    );
+    return fingerprint.base64 || null;
+  } catch (error) {
+    console.warn('Unable to create image fingerprint:', error);
+    return null;
+  }
+}
+
+/**
+ * Perceptual hash of an image computed on device, for spotting duplicate uploads.
+ * Returns null when the image cannot be processed.
+ */
+export async function computePerceptualHash(imageUri: string): Promise<string | null> {
+  const fingerprint = await createImageFingerprint(imageUri);
+  return fingerprint ? perceptualHashFromPng(fingerprint, inflateZlib) : null;
+}
+
 /**
  * Validate image format and size
  */
@@ -1,4 +1,8 @@
 // Progressive image analysis system with confidence weighting
+import { AnalysisError, analysisErrorFromResponse, validateDetailedAnalysis } from '@/lib/analysis-schema';
+import type { AnalysisCacheMetadata } from '@/lib/analysis-cache';
+import { createImageFingerprint } from './image-processing';
+import { getApiAuthHeaders, usageQuotaTracker, QuotaExceededError } from '@/lib/usage-quota';
 
 export interface QuickAnalysisResult {
   businessType: string;
@@ -6,6 +10,7 @@ export interface QuickAnalysisResult {
   visualCues: string[];
   needsDetailedAnalysis: boolean;
   processingTime: number;
+  cache?: AnalysisCacheMetadata;
 }
 
 export interface DetailedAnalysisResult {
@@ -54,17 +59,23 @@ export const performQuickAnalysis = async (
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
       },
       body: JSON.stringify({
         type: 'quick-analysis',
-        imageUri: imageUri
+        imageUri: imageUri,
+        fingerprint: await createImageFingerprint(imageUri)
       })
     });
 
+    await usageQuotaTracker.track(response);
+
     if (!response.ok) {
-      throw new Error(`Quick analysis failed: ${response.status}`);
+      const errorData = await response.json().catch(() => null);
+      throw analysisErrorFromResponse(response.status, errorData);
     }
 
+    // Response is schema-validated by the API route
     const result = await response.json();
     const processingTime = Date.now() - startTime;
     
@@ -74,21 +85,17 @@ export const performQuickAnalysis = async (
     });
 
     return {
-      businessType: result.businessType || 'Unknown',
-      confidence: result.confidence || 0,
-      visualCues: result.visualCues || [],
+      businessType: result.businessType,
+      confidence: result.confidence,
+      visualCues: result.visualCues,
       needsDetailedAnalysis: result.confidence < 75, // Need detailed if confidence < 75%
-      processingTime
+      processingTime,
+      cache: result.cache
     };
   } catch (error) {
     console.error('⚡ Quick analysis failed:', error);
-    return {
-      businessType: 'Unknown',
-      confidence: 0,
-      visualCues: [],
-      needsDetailedAnalysis: true,
-      processingTime: Date.now() - startTime
-    };
+    if (error instanceof QuotaExceededError) throw error;
+    throw error instanceof AnalysisError ? error : new AnalysisError('PROVIDER_ERROR');
   }
 };
 
@@ -166,6 +173,23 @@ export const combineAnalysisResults = (
   };
 };
 
+// Overall confidence of a single detailed analysis
+export const getOverallConfidence = (confidence: DetailedAnalysisResult['confidence']): number => (
+  confidence.businessType * 0.4 +
+  confidence.visualFeatures * 0.4 +
+  confidence.nameRecognition * 0.2
+);
+
+// Used when quick analysis failed and only the detailed result is available
+const toDetailedOnlyResult = (detailedResult: DetailedAnalysisResult): CombinedAnalysisResult => ({
+  ...detailedResult,
+  confidence: {
+    ...detailedResult.confidence,
+    overall: getOverallConfidence(detailedResult.confidence)
+  },
+  analysisMethod: 'detailed'
+});
+
 // Main progressive analysis function
 export const performProgressiveAnalysis = async (
   imageUri: string,
@@ -174,11 +198,18 @@ export const performProgressiveAnalysis = async (
   const totalStartTime = Date.now();
   
   try {
-    // Step 1: Quick analysis
-    const quickResult = await performQuickAnalysis(imageUri);
+    // Step 1: Quick analysis (a failure here just means we rely on detailed analysis)
+    let quickResult: QuickAnalysisResult | null = null;
+    try {
+      quickResult = await performQuickAnalysis(imageUri);
+    } catch (error) {
+      // Out of quota means the detailed request would be refused too
+      if (error instanceof QuotaExceededError) throw error;
+      console.warn('Quick analysis unavailable, continuing with detailed analysis:', error);
+    }
     
     // Step 2: Decide if detailed analysis is needed
-    if (!quickResult.needsDetailedAnalysis) {
+    if (quickResult && !quickResult.needsDetailedAnalysis) {
       console.log('✅ Quick analysis sufficient - skipping detailed analysis');
       const result = combineAnalysisResults(quickResult);
       result.processingTime = Date.now() - totalStartTime;
@@ -193,44 +224,46 @@ export const performProgressiveAnalysis = async (
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await getApiAuthHeaders()),
       },
       body: JSON.stringify({
         type: 'analyze-storefront',
         imageUri: imageUri,
         locationText: locationText,
-        quickAnalysisHint: {
+        quickAnalysisHint: quickResult ? {
           businessType: quickResult.businessType,
           confidence: quickResult.confidence,
           visualCues: quickResult.visualCues
-        }
+        } : undefined
       })
     });
 
+    await usageQuotaTracker.track(response);
+
     if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      if (!quickResult) {
+        throw analysisErrorFromResponse(response.status, errorData);
+      }
       console.warn('Detailed analysis failed, using quick analysis only');
       const result = combineAnalysisResults(quickResult);
       result.processingTime = Date.now() - totalStartTime;
       return result;
     }
 
-    const detailedData = await response.json();
+    const validation = validateDetailedAnalysis(await response.json());
+    if (!validation.valid) {
+      throw new AnalysisError(validation.code, undefined, validation.issues);
+    }
     const detailedResult: DetailedAnalysisResult = {
-      businessType: detailedData.businessType,
-      businessName: detailedData.businessName || 'Unknown Business',
-      description: detailedData.description || '',
-      features: detailedData.features || [],
-      visualIndicators: detailedData.visualIndicators || [],
-      confidence: detailedData.confidence || {
-        businessType: 50,
-        visualFeatures: 50,
-        nameRecognition: 0
-      },
-      architecturalStyle: detailedData.architecturalStyle || '',
+      ...validation.value,
       processingTime: Date.now() - detailedStartTime
     };
 
     // Step 4: Combine results
-    const combinedResult = combineAnalysisResults(quickResult, detailedResult);
+    const combinedResult = quickResult
+      ? combineAnalysisResults(quickResult, detailedResult)
+      : toDetailedOnlyResult(detailedResult);
     combinedResult.processingTime = Date.now() - totalStartTime;
     combinedResult.locationText = locationText;
 
@@ -239,25 +272,8 @@ export const performProgressiveAnalysis = async (
     return combinedResult;
   } catch (error) {
     console.error('Progressive analysis failed:', error);
-    
-    // Fallback to basic result
-    return {
-      businessType: 'Unknown',
-      businessName: 'Unknown Business',
-      description: 'Analysis failed',
-      features: [],
-      visualIndicators: [],
-      confidence: {
-        businessType: 0,
-        visualFeatures: 0,
-        nameRecognition: 0,
-        overall: 0
-      },
-      architecturalStyle: 'Unknown',
-      analysisMethod: 'quick',
-      processingTime: Date.now() - totalStartTime,
-      locationText
-    };
+    if (error instanceof QuotaExceededError) throw error;
+    throw error instanceof AnalysisError ? error : new AnalysisError('UNKNOWN');
   }
 };
 
@@ -270,6 +286,15 @@ export const getConfidenceThresholds = () => ({
   LOW_CONFIDENCE: 40              // Below this, show warning
 });
 
+export type ConfidenceLevel = 'high_confidence' | 'medium_confidence' | 'low_confidence' | 'very_low_confidence';
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  const thresholds = getConfidenceThresholds();
+  return confidence > thresholds.HIGH_CONFIDENCE ? 'high_confidence' :
+         confidence > thresholds.MEDIUM_CONFIDENCE ? 'medium_confidence' :
+         confidence > thresholds.LOW_CONFIDENCE ? 'low_confidence' : 'very_low_confidence';
+};
+
 // Analysis performance metrics
 export const getAnalysisMetrics = (result: CombinedAnalysisResult) => ({
   efficiency: result.analysisMethod === 'quick' ? 100 : 
@@ -277,7 +302,27 @@ export const getAnalysisMetrics = (result: CombinedAnalysisResult) => ({
   confidence: result.confidence.overall,
   processingTime: result.processingTime,
   method: result.analysisMethod,
-  recommendation: result.confidence.overall > 80 ? 'high_confidence' :
-                 result.confidence.overall > 60 ? 'medium_confidence' :
-                 result.confidence.overall > 40 ? 'low_confidence' : 'very_low_confidence'
-});
\ No newline at end of file
+  recommendation: getConfidenceLevel(result.confidence.overall)
+});
+
+// Where the capture screen takes the user once candidate places are ranked:
+// straight to the place card, a short list to confirm, or a pre-filled manual search
+export type AnalysisRoute = 'place_card' | 'confirm_candidates' | 'manual_search';
+
+// How a routed capture ended, recorded so the thresholds can be tuned from real corrections
+export type AnalysisRouteOutcome = 'accepted_top_match' | 'picked_other_candidate' | 'searched';
+
+export const CONFIRM_CANDIDATE_COUNT = 3;
+
+export const getAnalysisRoute = (confidence: number, candidateCount: number): AnalysisRoute => {
+  if (candidateCount === 0) return 'manual_search';
+  const level = getConfidenceLevel(confidence);
+  if (level === 'high_confidence') return 'place_card';
+  if (level === 'medium_confidence') return 'confirm_candidates';
+  return 'manual_search';
+};
+
+// selectedRank is the chosen place's position in the routed candidate list, -1 when it was not in it
+export const getAnalysisRouteOutcome = (selectedRank: number): AnalysisRouteOutcome =>
+  selectedRank === 0 ? 'accepted_top_match' :
+  selectedRank > 0 ? 'picked_other_candidate' : 'searched';
\ No newline at end of file